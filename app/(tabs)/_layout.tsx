@@ -60,6 +60,19 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="map"
+        options={{
+          title: 'Map',
+          tabBarIcon: ({ color, size, focused }) => (
+            <Ionicons 
+              name={focused ? 'map' : 'map-outline'} 
+              size={size} 
+              color={color} 
+            />
+          ),
+        }}
+      />
       <Tabs.Screen
         name="live"
         options={{
@@ -14,15 +14,33 @@ import { Image } from 'expo-image'
 import { Colors } from '@/constants/Colors'
 import { useAuth } from '@/src/lib/hooks'
 import { getUserProfile } from '@/src/actions/auth'
-import { getVenues, getUserBookmarks, getVenueReviewStats, VenueWithDistance } from '@/src/actions/clubs'
+import {
+  getVenues,
+  getUserBookmarks,
+  getVenueReviewStats,
+  getRecommendedVenues,
+  getTrendingVenues,
+  RecommendedVenue,
+  TrendingVenueCard,
+  VenueCard,
+} from '@/src/actions/clubs'
+import { getUserGroups } from '@/src/actions/groups'
+import { GroupChatService } from '@/src/services/GroupChatService'
 import LiveIndicator from '@/components/LiveIndicator'
 import { Ionicons } from '@expo/vector-icons'
 import { router, useFocusEffect } from 'expo-router'
-import { supabase } from '@/src/lib/supabase'
 import { BottomSheetModal } from '@gorhom/bottom-sheet'
 import VenueDetailsSheet from '@/components/VenueDetailsSheet'
 import VibesSection from '@/components/VibesSection'
 import HomeScreenSkeleton from '@/components/skeletons/HomeScreenSkeleton'
+import OpenStatusBadge from '@/components/OpenStatusBadge'
+import OpenNowFilter from '@/components/OpenNowFilter'
+import CompareTray from '@/components/CompareTray'
+import { isOpenNow, parseOpeningHours } from '@/src/lib/openingHours'
+import { formatGroupTime } from '@/src/lib/groups'
+import { PartyGroupWithDetails } from '@/src/lib/types'
+import { TRENDING_CONFIG, VENUE_COMPARE_CONFIG } from '@/src/lib/constants'
+import { useVenueCompare } from '@/src/lib/VenueCompareProvider'
 
 interface UserProfile {
   id: string
@@ -33,12 +51,6 @@ interface UserProfile {
   created_at: string
 }
 
-// Dummy data for groups until we have the real thing
-const dummyGroups = [
-  { id: '1', name: 'Friday Night Pre-game', members: 8, venue: 'The Pint House' },
-  { id: '2', name: 'Saturday Rooftop Vibes', members: 5, venue: 'The Sky Lounge' },
-]
-
 export default function HomeScreen() {
   const colorScheme = useColorScheme() ?? 'dark'
   const colors = Colors[colorScheme]
@@ -47,8 +59,28 @@ export default function HomeScreen() {
   const [profile, setProfile] = useState<UserProfile | null>(null)
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
-  const [featuredVenues, setFeaturedVenues] = useState<VenueWithDistance[]>([])
+  const [featuredVenues, setFeaturedVenues] = useState<VenueCard[]>([])
   const [bookmarkedVenues, setBookmarkedVenues] = useState<any[]>([])
+  const [recommendedVenues, setRecommendedVenues] = useState<RecommendedVenue[]>([])
+  const [trendingVenues, setTrendingVenues] = useState<TrendingVenueCard[]>([])
+  const [groups, setGroups] = useState<PartyGroupWithDetails[]>([])
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({})
+  const [openNowOnly, setOpenNowOnly] = useState(false)
+  const [comparingBookmarks, setComparingBookmarks] = useState(false)
+  const { isSelected, toggleVenue } = useVenueCompare()
+
+  const visibleFeaturedVenues = useMemo(
+    () => openNowOnly
+      ? featuredVenues.filter(venue => isOpenNow(parseOpeningHours(venue.hours)))
+      : featuredVenues,
+    [featuredVenues, openNowOnly]
+  )
+
+  // Why each trending venue is trending, for the badges on other cards
+  const trendingReasons = useMemo(
+    () => new Map(trendingVenues.map(venue => [venue.id, venue.trending_reason])),
+    [trendingVenues]
+  )
   
   // Bottom Sheet state
   const [selectedVenue, setSelectedVenue] = useState<any | null>(null)
@@ -60,6 +92,12 @@ export default function HomeScreen() {
     bottomSheetModalRef.current?.present()
   }, [])
   
+  const loadTrendingVenues = useCallback(async () => {
+    const { data, error } = await getTrendingVenues()
+    if (error) console.error('Error fetching trending venues:', error)
+    else setTrendingVenues(data)
+  }, [])
+
   const loadDashboardData = useCallback(async () => {
     if (!user) {
       setLoading(false)
@@ -67,12 +105,17 @@ export default function HomeScreen() {
     }
 
     try {
-      const [profileResult, venuesResult, bookmarksResult] = await Promise.all([
+      const [profileResult, venuesResult, bookmarksResult, recommendedResult, groupsResult, unreadResult] = await Promise.all([
         getUserProfile(user.id),
         // Use the updated getVenues function that includes vibe check data
         getVenues(),
         // Use the getUserBookmarks function instead of direct query
         getUserBookmarks(user.id),
+        getRecommendedVenues(user.id),
+        getUserGroups(user.id),
+        GroupChatService.getUnreadCounts(),
+        // Sets its own state so the row can also refresh on its own
+        loadTrendingVenues(),
       ])
 
       if (profileResult.error) console.error('Error loading profile:', profileResult.error)
@@ -81,28 +124,21 @@ export default function HomeScreen() {
       if (venuesResult.error) {
         console.error('Error fetching venues:', venuesResult.error)
       } else {
-        const allVenues = venuesResult.data as VenueWithDistance[]
-        
-        // Fetch promotions for each venue
-        const venuesWithPromotions = await Promise.all(
-          allVenues.map(async (venue) => {
-            const { data: promotions } = await supabase
-              .from('promotions')
-              .select('*')
-              .eq('venue_id', venue.id)
-              .eq('is_active', true);
-            
-            return {
-              ...venue,
-              promotions: promotions || [],
-            };
-          })
-        );
-        
-        const featured = venuesWithPromotions.filter(v => v.promotions && v.promotions.length > 0)
-        setFeaturedVenues(featured.length > 0 ? featured : venuesWithPromotions.slice(0, 5))
+        // Cards already carry their running promotions
+        const allVenues = venuesResult.data
+        const featured = allVenues.filter(v => v.promotions.length > 0)
+        setFeaturedVenues(featured.length > 0 ? featured : allVenues.slice(0, 5))
       }
       
+      if (recommendedResult.error) console.error('Error fetching recommendations:', recommendedResult.error)
+      else setRecommendedVenues(recommendedResult.data)
+
+      if (groupsResult.error) console.error('Error fetching groups:', groupsResult.error)
+      else setGroups(groupsResult.data)
+
+      if (unreadResult.error) console.error('Error fetching unread messages:', unreadResult.error)
+      else setUnreadCounts(unreadResult.data)
+
       if (bookmarksResult.error) {
         console.error('Error fetching bookmarks:', bookmarksResult.error)
       } else {
@@ -127,7 +163,7 @@ export default function HomeScreen() {
     } finally {
       setLoading(false)
     }
-  }, [user])
+  }, [user, loadTrendingVenues])
 
   const handleRefresh = async () => {
     setRefreshing(true)
@@ -141,6 +177,14 @@ export default function HomeScreen() {
     }, [loadDashboardData])
   )
 
+  // Trending moves quickly, so keep the row fresh while the screen is open
+  useFocusEffect(
+    useCallback(() => {
+      const interval = setInterval(loadTrendingVenues, TRENDING_CONFIG.refreshIntervalMs)
+      return () => clearInterval(interval)
+    }, [loadTrendingVenues])
+  )
+
   const styles = StyleSheet.create({
     container: {
       flex: 1,
@@ -165,6 +209,22 @@ export default function HomeScreen() {
       color: colors.muted,
       marginTop: 4,
     },
+    searchButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginTop: 16,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderRadius: 12,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    searchButtonText: {
+      fontSize: 15,
+      color: colors.muted,
+    },
     sectionContainer: {
       marginBottom: 32,
     },
@@ -190,6 +250,10 @@ export default function HomeScreen() {
       color: colors.tint,
       fontWeight: '600',
     },
+    filterRow: {
+      paddingHorizontal: 20,
+      marginBottom: 12,
+    },
     horizontalList: {
       paddingHorizontal: 20,
     },
@@ -221,6 +285,9 @@ export default function HomeScreen() {
       color: colors.muted,
       flexShrink: 1,
     },
+    featuredStatus: {
+      marginTop: 8,
+    },
     promotionBadge: {
       position: 'absolute',
       top: 12,
@@ -262,6 +329,23 @@ export default function HomeScreen() {
       alignItems: 'center',
       justifyContent: 'center',
     },
+    requestBadge: {
+      position: 'absolute',
+      top: -4,
+      right: -4,
+      minWidth: 20,
+      height: 20,
+      borderRadius: 10,
+      paddingHorizontal: 5,
+      backgroundColor: colors.destructive,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    requestBadgeText: {
+      color: '#FFFFFF',
+      fontSize: 11,
+      fontWeight: 'bold',
+    },
     groupInfo: {
       flex: 1,
     },
@@ -275,6 +359,12 @@ export default function HomeScreen() {
       color: colors.muted,
       marginTop: 2,
     },
+    unreadText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.tint,
+      marginTop: 2,
+    },
     bookmarkCard: {
       width: 150,
       marginRight: 12,
@@ -292,6 +382,36 @@ export default function HomeScreen() {
       color: colors.text,
       textAlign: 'center',
     },
+    trendingCard: {
+      width: 200,
+      marginRight: 12,
+    },
+    trendingImage: {
+      width: '100%',
+      height: 120,
+      borderRadius: 12,
+      backgroundColor: colors.border,
+    },
+    trendingStatus: {
+      alignItems: 'center',
+      marginTop: 6,
+    },
+    compareCheck: {
+      position: 'absolute',
+      top: 6,
+      right: 6,
+    },
+    recommendedRating: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 4,
+      marginTop: 2,
+    },
+    recommendedRatingText: {
+      fontSize: 12,
+      color: colors.muted,
+    },
     emptyStateContainer: {
       padding: 20,
       alignItems: 'center',
@@ -327,6 +447,14 @@ export default function HomeScreen() {
           <Text style={styles.headerSubtitle}>
             What&apos;s the buzz tonight?
           </Text>
+          <TouchableOpacity
+            style={styles.searchButton}
+            onPress={() => router.push('/search')}
+            accessibilityRole="search"
+          >
+            <Ionicons name="search" size={18} color={colors.muted} />
+            <Text style={styles.searchButtonText}>Search venues, tags or areas</Text>
+          </TouchableOpacity>
         </View>
 
         {/* Featured Venues */}
@@ -340,8 +468,11 @@ export default function HomeScreen() {
               <Text style={styles.seeAllText}>See All</Text>
             </TouchableOpacity>
           </View>
+          <View style={styles.filterRow}>
+            <OpenNowFilter value={openNowOnly} onChange={setOpenNowOnly} />
+          </View>
           <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
-            {featuredVenues.map((venue) => (
+            {visibleFeaturedVenues.map((venue) => (
               <TouchableOpacity key={venue.id} style={styles.featuredCard} onPress={() => handlePresentDetails(venue)}>
                 <Image source={{ uri: venue.cover_image_url || 'https://placehold.co/600x400' }} style={styles.featuredImage} />
                 {venue.promotions && venue.promotions.length > 0 && (
@@ -351,12 +482,14 @@ export default function HomeScreen() {
                   </View>
                 )}
                 {/* Live indicator positioned in top right */}
-                {(venue.has_live_activity || venue.recent_vibe_count > 0) && (
+                {(venue.has_live_activity || venue.recent_vibe_count > 0 || trendingReasons.has(venue.id)) && (
                   <View style={styles.liveIndicatorContainer}>
                     <LiveIndicator
                       hasLiveActivity={venue.has_live_activity}
                       averageBusyness={venue.average_recent_busyness}
+                      busynessEstimate={venue.busyness_estimate}
                       recentVibeCount={venue.recent_vibe_count}
+                      trendingReason={trendingReasons.get(venue.id)}
                       size="small"
                     />
                   </View>
@@ -364,10 +497,128 @@ export default function HomeScreen() {
                 <View style={styles.featuredContent}>
                   <Text style={styles.featuredTitle} numberOfLines={1}>{venue.name}</Text>
                   <Text style={styles.featuredAddress} numberOfLines={1}>{venue.address}</Text>
+                  <View style={styles.featuredStatus}>
+                    <OpenStatusBadge hours={venue.hours} size="small" />
+                  </View>
                 </View>
               </TouchableOpacity>
             ))}
           </ScrollView>
+          {openNowOnly && visibleFeaturedVenues.length === 0 && (
+            <View style={styles.emptyStateContainer}>
+              <Ionicons name="time-outline" size={32} color={colors.muted} />
+              <Text style={styles.emptyStateText}>
+                None of these venues are open right now
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* Trending Venues */}
+        {trendingVenues.length > 0 && (
+          <View style={styles.sectionContainer}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Trending</Text>
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
+              {trendingVenues.map((venue) => (
+                <TouchableOpacity key={venue.id} style={styles.trendingCard} onPress={() => handlePresentDetails(venue)}>
+                  <Image source={{ uri: venue.cover_image_url || 'https://placehold.co/400x400' }} style={styles.trendingImage} />
+                  <Text style={styles.bookmarkTitle} numberOfLines={1}>{venue.name}</Text>
+                  <View style={styles.trendingStatus}>
+                    <LiveIndicator
+                      hasLiveActivity={venue.has_live_activity}
+                      busynessEstimate={venue.busyness_estimate}
+                      trendingReason={venue.trending_reason}
+                      size="medium"
+                    />
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
+        {/* Recommended Venues */}
+        <View style={styles.sectionContainer}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>For You</Text>
+          </View>
+          {recommendedVenues.length > 0 ? (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
+              {recommendedVenues.map((venue) => (
+                <TouchableOpacity key={venue.id} style={styles.bookmarkCard} onPress={() => handlePresentDetails(venue)}>
+                  <Image source={{ uri: venue.cover_image_url || 'https://placehold.co/400x400' }} style={styles.bookmarkImage} />
+                  <Text style={styles.bookmarkTitle} numberOfLines={1}>{venue.name}</Text>
+                  {venue.review_count > 0 && (
+                    <View style={styles.recommendedRating}>
+                      <Ionicons name="star" size={12} color={colors.tint} />
+                      <Text style={styles.recommendedRatingText}>{venue.average_rating.toFixed(1)}</Text>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          ) : (
+            <View style={styles.emptyStateContainer}>
+              <Ionicons name="sparkles-outline" size={32} color={colors.muted} />
+              <Text style={styles.emptyStateText}>
+                Like, save or review a few venues and we&apos;ll suggest more like them
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {/* Party Groups */}
+        <View style={styles.sectionContainer}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Your Groups</Text>
+            <TouchableOpacity
+              style={styles.seeAllButton}
+              onPress={() => router.push('/groups')}
+            >
+              <Text style={styles.seeAllText}>See All</Text>
+            </TouchableOpacity>
+          </View>
+          {groups.length > 0 ? (
+            groups.slice(0, 3).map((group) => (
+              <TouchableOpacity
+                key={group.id}
+                style={styles.groupCard}
+                onPress={() => router.push(`/groups/${group.id}`)}
+              >
+                <View style={styles.groupIcon}>
+                  <Ionicons name="people" size={24} color={colors.background} />
+                  {group.pending_count > 0 && (
+                    <View style={styles.requestBadge} accessibilityLabel={`${group.pending_count} requests to join`}>
+                      <Text style={styles.requestBadgeText}>{group.pending_count}</Text>
+                    </View>
+                  )}
+                </View>
+                <View style={styles.groupInfo}>
+                  <Text style={styles.groupName} numberOfLines={1}>{group.name}</Text>
+                  <Text style={styles.groupDetails} numberOfLines={1}>
+                    {formatGroupTime(group)}
+                    {group.venue ? ` · ${group.venue.name}` : ''}
+                  </Text>
+                  <Text style={styles.groupDetails}>{group.member_count} going</Text>
+                  {(unreadCounts[group.id] ?? 0) > 0 && (
+                    <Text style={styles.unreadText}>
+                      {unreadCounts[group.id]} new {unreadCounts[group.id] === 1 ? 'message' : 'messages'}
+                    </Text>
+                  )}
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={colors.muted} />
+              </TouchableOpacity>
+            ))
+          ) : (
+            <TouchableOpacity style={styles.emptyStateContainer} onPress={() => router.push('/groups/new')}>
+              <Ionicons name="people-outline" size={32} color={colors.muted} />
+              <Text style={styles.emptyStateText}>
+                No plans yet. Start a group and get the crew together
+              </Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Live Vibes Section */}
@@ -377,12 +628,35 @@ export default function HomeScreen() {
         <View style={styles.sectionContainer}>
           <View style={styles.sectionHeader}>
             <Text style={styles.sectionTitle}>Your Bookmarks</Text>
+            {bookmarkedVenues.length >= VENUE_COMPARE_CONFIG.minVenues && (
+              <TouchableOpacity
+                style={styles.seeAllButton}
+                onPress={() => setComparingBookmarks(!comparingBookmarks)}
+              >
+                <Text style={styles.seeAllText}>{comparingBookmarks ? 'Done' : 'Compare'}</Text>
+              </TouchableOpacity>
+            )}
           </View>
           {bookmarkedVenues.length > 0 ? (
             <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.horizontalList}>
               {bookmarkedVenues.map((venue) => (
-                <TouchableOpacity key={venue.id} style={styles.bookmarkCard} onPress={() => handlePresentDetails(venue)}>
+                <TouchableOpacity
+                  key={venue.id}
+                  style={styles.bookmarkCard}
+                  // While comparing, tapping a bookmark picks it instead of opening it
+                  onPress={() => comparingBookmarks ? toggleVenue(venue.id) : handlePresentDetails(venue)}
+                  accessibilityState={comparingBookmarks ? { selected: isSelected(venue.id) } : undefined}
+                >
                   <Image source={{ uri: venue.cover_image_url || 'https://placehold.co/400x400' }} style={styles.bookmarkImage} />
+                  {comparingBookmarks && (
+                    <View style={styles.compareCheck}>
+                      <Ionicons
+                        name={isSelected(venue.id) ? 'checkmark-circle' : 'ellipse-outline'}
+                        size={24}
+                        color={isSelected(venue.id) ? colors.tint : '#FFFFFF'}
+                      />
+                    </View>
+                  )}
                   <Text style={styles.bookmarkTitle} numberOfLines={1}>{venue.name}</Text>
                 </TouchableOpacity>
               ))}
@@ -398,6 +672,8 @@ export default function HomeScreen() {
         </View>
       </ScrollView>
 
+      <CompareTray />
+
       <BottomSheetModal
         ref={bottomSheetModalRef}
         index={0}
@@ -5,6 +5,7 @@ import { router } from 'expo-router';
 import LiveFeed from '@/components/LiveFeed';
 import { Colors } from '@/constants/Colors';
 import { VibeCheckWithDetails } from '@/src/lib/types';
+import { getVenuePath } from '@/src/lib/venueLinks';
 
 export default function LiveScreen() {
   const colorScheme = useColorScheme() ?? 'dark';
@@ -50,7 +51,7 @@ export default function LiveScreen() {
     try {
       // Navigate to venue detail page
       // Using the venue ID to navigate to the venue details
-      router.push(`/venue/${vibeCheck.venue_id}`);
+      router.push(getVenuePath(vibeCheck.venue_id));
     } catch (error) {
       // If navigation fails, show an alert with venue info
       Alert.alert(
@@ -63,6 +64,18 @@ export default function LiveScreen() {
     }
   }, []);
 
+  const handleUserPress = useCallback((userId: string) => {
+    router.push(`/user/${userId}`);
+  }, []);
+
+  const handleVenuePress = useCallback((venueId: string) => {
+    router.push(getVenuePath(venueId));
+  }, []);
+
+  const handleGroupPress = useCallback((groupId: string) => {
+    router.push(`/groups/${groupId}`);
+  }, []);
+
   const handleError = useCallback((error: string) => {
     Alert.alert(
       'Connection Error',
@@ -95,6 +108,9 @@ export default function LiveScreen() {
           refreshing={refreshing}
           onRefresh={handleRefresh}
           onVibeCheckPress={handleVibeCheckPress}
+          onUserPress={handleUserPress}
+          onVenuePress={handleVenuePress}
+          onGroupPress={handleGroupPress}
         />
       </View>
     </SafeAreaView>
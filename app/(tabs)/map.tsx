@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { BottomSheetModal } from '@gorhom/bottom-sheet';
+import { Region } from 'react-native-maps';
+import * as Location from 'expo-location';
+import VenueMap, { MapVenue } from '@/components/VenueMap';
+import VenueDetailsSheet from '@/components/VenueDetailsSheet';
+import { Colors } from '@/constants/Colors';
+import { MAP_CONFIG, NEARBY_VENUES_CONFIG } from '@/src/lib/constants';
+import { NearbyVenue, VibeCheckWithDetails } from '@/src/lib/types';
+import { estimateBusyness } from '@/src/lib/busynessEstimate';
+import { getRegionRadiusMeters } from '@/src/lib/mapClusters';
+import { OptimizedQueryService } from '@/src/services/OptimizedQueryService';
+import { VibeCheckRealtimeService } from '@/src/services/VibeCheckRealtimeService';
+
+const DEFAULT_REGION: Region = {
+  latitude: MAP_CONFIG.defaultLatitude,
+  longitude: MAP_CONFIG.defaultLongitude,
+  latitudeDelta: MAP_CONFIG.defaultLatitudeDelta,
+  longitudeDelta: MAP_CONFIG.defaultLongitudeDelta,
+};
+
+type VenueStats = Awaited<ReturnType<typeof OptimizedQueryService.batchGetVenueVibeStats>>['data'];
+
+// Attach live busyness to venues, venues without stats have no recent vibe checks
+const withBusyness = (venues: NearbyVenue[], stats: VenueStats): MapVenue[] =>
+  venues.map((venue) => ({
+    ...venue,
+    busyness_estimate: stats[venue.id]?.busyness_estimate ?? estimateBusyness([]),
+    has_live_activity: stats[venue.id]?.has_live_activity ?? false,
+  }));
+
+// Whether the map has been panned or zoomed far enough from the searched area to search again
+const hasMovedAway = (region: Region, searched: Region): boolean =>
+  Math.abs(region.latitude - searched.latitude) > searched.latitudeDelta / 4 ||
+  Math.abs(region.longitude - searched.longitude) > searched.longitudeDelta / 4 ||
+  region.latitudeDelta > searched.latitudeDelta * 1.5 ||
+  region.latitudeDelta < searched.latitudeDelta / 1.5;
+
+export default function MapScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  const [initialRegion, setInitialRegion] = useState<Region | null>(null);
+  const [visibleRegion, setVisibleRegion] = useState<Region | null>(null);
+  const [searchedRegion, setSearchedRegion] = useState<Region | null>(null);
+  const [venues, setVenues] = useState<MapVenue[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Realtime callbacks read the venues on the map through a ref so they don't resubscribe
+  const venuesRef = useRef<MapVenue[]>([]);
+  venuesRef.current = venues;
+
+  // Bottom Sheet state
+  const [selectedVenue, setSelectedVenue] = useState<MapVenue | null>(null);
+  const bottomSheetModalRef = useRef<BottomSheetModal>(null);
+  const snapPoints = useMemo(() => ['75%', '90%'], []);
+
+  const searchArea = useCallback(async (region: Region) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // The nearest venues to the center of the area, up to a page
+      const { data, error: searchError } = await OptimizedQueryService.getNearbyVenuesOptimized(
+        region.latitude,
+        region.longitude,
+        {
+          radiusMeters: Math.min(getRegionRadiusMeters(region), NEARBY_VENUES_CONFIG.maxRadiusMeters),
+          limit: NEARBY_VENUES_CONFIG.maxPageSize,
+        }
+      );
+
+      if (searchError) {
+        console.error('Error searching venues on the map:', searchError);
+        setError('Failed to load venues in this area');
+        return;
+      }
+
+      const { data: stats } = await OptimizedQueryService.batchGetVenueVibeStats(
+        data.map((venue) => venue.id)
+      );
+
+      setVenues(withBusyness(data, stats));
+      setSearchedRegion(region);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const refreshBusyness = useCallback(async (venueIds: string[]) => {
+    if (venueIds.length === 0) return;
+
+    const { data: stats, error: statsError } = await OptimizedQueryService.batchGetVenueVibeStats(venueIds);
+
+    if (statsError) {
+      console.error('Error refreshing venue busyness on the map:', statsError);
+      return;
+    }
+
+    setVenues((prev) =>
+      prev.map((venue) =>
+        stats[venue.id]
+          ? {
+              ...venue,
+              busyness_estimate: stats[venue.id].busyness_estimate,
+              has_live_activity: stats[venue.id].has_live_activity,
+            }
+          : venue
+      )
+    );
+  }, []);
+
+  // Start on the user's location when we may use it
+  useEffect(() => {
+    const loadInitialRegion = async () => {
+      let region = DEFAULT_REGION;
+
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status === 'granted') {
+          const position =
+            (await Location.getLastKnownPositionAsync()) ??
+            (await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }));
+          region = {
+            ...DEFAULT_REGION,
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+          };
+        }
+      } catch (locationError) {
+        console.error('Failed to get location for the map:', locationError);
+      }
+
+      setInitialRegion(region);
+      setVisibleRegion(region);
+      searchArea(region);
+    };
+
+    loadInitialRegion();
+  }, [searchArea]);
+
+  // Recolor markers as vibe checks come in
+  useEffect(() => {
+    const subscriptionId = 'venue-map-subscription';
+
+    const refreshVenueOf = (vibeCheck: VibeCheckWithDetails) => {
+      if (venuesRef.current.some((venue) => venue.id === vibeCheck.venue_id)) {
+        refreshBusyness([vibeCheck.venue_id]);
+      }
+    };
+
+    VibeCheckRealtimeService.subscribe(subscriptionId, {
+      onVibeCheckInsert: refreshVenueOf,
+      onVibeCheckUpdate: refreshVenueOf,
+      // Deletes only carry the vibe check id, so refresh every venue on the map
+      onVibeCheckDelete: () => refreshBusyness(venuesRef.current.map((venue) => venue.id)),
+      onError: (subscriptionError) => {
+        console.error('Real-time subscription error:', subscriptionError);
+      },
+    })
+      .then((result) => {
+        if (!result.success) {
+          console.warn('Failed to establish real-time connection:', result.error);
+        }
+      })
+      .catch((subscriptionError) => {
+        console.error('Error setting up real-time subscription:', subscriptionError);
+      });
+
+    return () => {
+      VibeCheckRealtimeService.unsubscribe(subscriptionId);
+    };
+  }, [refreshBusyness]);
+
+  const handleVenuePress = useCallback((venue: MapVenue) => {
+    setSelectedVenue(venue);
+    bottomSheetModalRef.current?.present();
+  }, []);
+
+  const selectedVenueId = selectedVenue?.id;
+  // Keep the open sheet in step with live busyness updates
+  const sheetVenue = venues.find((venue) => venue.id === selectedVenueId) ?? selectedVenue;
+  const handleSelectedVenueNeedsRefresh = useCallback(() => {
+    if (selectedVenueId) {
+      refreshBusyness([selectedVenueId]);
+    }
+  }, [refreshBusyness, selectedVenueId]);
+
+  const canSearchArea =
+    !loading && visibleRegion && searchedRegion && hasMovedAway(visibleRegion, searchedRegion);
+
+  const styles = useMemo(() => getStyles(colors), [colors]);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {initialRegion ? (
+        <VenueMap
+          venues={venues}
+          initialRegion={initialRegion}
+          onRegionChangeComplete={setVisibleRegion}
+          onVenuePress={handleVenuePress}
+        />
+      ) : (
+        <View style={styles.centered}>
+          <ActivityIndicator color={colors.tint} />
+        </View>
+      )}
+
+      <View style={styles.overlay} pointerEvents="box-none">
+        {canSearchArea && (
+          <TouchableOpacity
+            style={styles.searchButton}
+            onPress={() => visibleRegion && searchArea(visibleRegion)}
+            accessibilityRole="button"
+          >
+            <Ionicons name="search" size={16} color={colors.background} />
+            <Text style={styles.searchButtonText}>Search this area</Text>
+          </TouchableOpacity>
+        )}
+        {loading && initialRegion && (
+          <View style={styles.statusPill}>
+            <ActivityIndicator size="small" color={colors.tint} />
+          </View>
+        )}
+        {!loading && error && (
+          <View style={styles.statusPill}>
+            <Text style={styles.statusText}>{error}</Text>
+          </View>
+        )}
+        {!loading && !error && searchedRegion && venues.length === 0 && (
+          <View style={styles.statusPill}>
+            <Text style={styles.statusText}>No venues in this area</Text>
+          </View>
+        )}
+      </View>
+
+      <BottomSheetModal
+        ref={bottomSheetModalRef}
+        index={0}
+        snapPoints={snapPoints}
+        backgroundStyle={{
+          backgroundColor: colors.surface,
+          borderTopLeftRadius: 24,
+          borderTopRightRadius: 24,
+        }}
+        handleIndicatorStyle={{ backgroundColor: colors.muted }}
+      >
+        {sheetVenue && (
+          <VenueDetailsSheet
+            venue={sheetVenue}
+            onDataNeedsRefresh={handleSelectedVenueNeedsRefresh}
+          />
+        )}
+      </BottomSheetModal>
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    overlay: {
+      position: 'absolute',
+      top: 60,
+      left: 0,
+      right: 0,
+      alignItems: 'center',
+      gap: 8,
+    },
+    searchButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      backgroundColor: colors.tint,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      borderRadius: 20,
+    },
+    searchButtonText: {
+      color: colors.background,
+      fontWeight: '600',
+    },
+    statusPill: {
+      backgroundColor: colors.surface,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+    },
+    statusText: {
+      color: colors.text,
+      fontSize: 13,
+    },
+  });
@@ -12,10 +12,12 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons";
-import { router } from "expo-router";
+import { router, useFocusEffect } from "expo-router";
 import { Colors } from "@/constants/Colors";
 import { useAuth } from "@/src/lib/hooks";
 import { getUserProfile, signOut } from "@/src/actions/auth";
+import { FollowService } from "@/src/services/FollowService";
+import { FollowCounts } from "@/src/lib/types";
 import Button from "@/src/components/Button";
 import ProfileSkeleton from "@/components/skeletons/ProfileSkeleton";
 
@@ -25,6 +27,7 @@ interface UserProfile {
   email: string;
   university: string | null;
   avatar_url: string | null;
+  role: "user" | "moderator";
   created_at: string;
 }
 
@@ -36,6 +39,7 @@ export default function ProfileScreen() {
   const [loading, setLoading] = useState(true);
   const [signingOut, setSigningOut] = useState(false);
   const [isDarkMode, setIsDarkMode] = useState(colorScheme === "dark");
+  const [followCounts, setFollowCounts] = useState<FollowCounts | null>(null);
 
   const loadProfile = useCallback(async () => {
     if (!user) return;
@@ -54,6 +58,21 @@ export default function ProfileScreen() {
     }
   }, [user]);
 
+  // Counts change when requests are answered on the follows screen
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+
+      FollowService.getCounts(user.id).then(({ data, error }) => {
+        if (error) {
+          console.error("Error loading follow counts:", error);
+        } else {
+          setFollowCounts(data);
+        }
+      });
+    }, [user])
+  );
+
   const handleEditProfile = () => {
     console.log("🔵 Profile: Navigating to edit-profile");
     router.push("/edit-profile");
@@ -160,6 +179,39 @@ export default function ProfileScreen() {
       fontWeight: "600",
       marginTop: 4,
     },
+    followStats: {
+      flexDirection: "row",
+      marginTop: 16,
+      gap: 32,
+    },
+    followStat: {
+      alignItems: "center",
+    },
+    followStatValue: {
+      fontSize: 20,
+      fontWeight: "bold",
+      color: colors.text,
+    },
+    followStatLabel: {
+      fontSize: 13,
+      color: colors.muted,
+      marginTop: 2,
+    },
+    followRequests: {
+      flexDirection: "row",
+      alignItems: "center",
+      marginTop: 12,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      backgroundColor: colors.tint,
+      gap: 6,
+    },
+    followRequestsText: {
+      fontSize: 13,
+      fontWeight: "600",
+      color: colors.background,
+    },
     editButton: {
       position: "absolute",
       top: 20,
@@ -266,6 +318,39 @@ export default function ProfileScreen() {
             </Text>
           )}
 
+          {followCounts && (
+            <View style={styles.followStats}>
+              <TouchableOpacity
+                style={styles.followStat}
+                onPress={() => router.push("/follows?tab=followers")}
+              >
+                <Text style={styles.followStatValue}>{followCounts.followers}</Text>
+                <Text style={styles.followStatLabel}>
+                  {followCounts.followers === 1 ? "Follower" : "Followers"}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.followStat}
+                onPress={() => router.push("/follows?tab=following")}
+              >
+                <Text style={styles.followStatValue}>{followCounts.following}</Text>
+                <Text style={styles.followStatLabel}>Following</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {!!followCounts?.requests && (
+            <TouchableOpacity
+              style={styles.followRequests}
+              onPress={() => router.push("/follows?tab=requests")}
+            >
+              <Ionicons name="person-add-outline" size={14} color={colors.background} />
+              <Text style={styles.followRequestsText}>
+                {followCounts.requests} follow{" "}
+                {followCounts.requests === 1 ? "request" : "requests"}
+              </Text>
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity
             onPress={handleEditProfile}
             style={styles.editButton}
@@ -357,6 +442,36 @@ export default function ProfileScreen() {
           </View>
         </View>
 
+        {/* Menu Section: Moderation */}
+        {profile?.role === "moderator" && (
+          <View style={styles.menuSection}>
+            <Text style={styles.menuSectionTitle}>Moderation</Text>
+            <TouchableOpacity
+              style={[styles.menuItem, styles.menuItemLast]}
+              onPress={() => {
+                console.log("🔵 Profile: Navigating to moderation");
+                router.push("/moderation");
+              }}
+            >
+              <View style={styles.menuItemContent}>
+                <View
+                  style={[
+                    styles.menuIcon,
+                    { backgroundColor: Colors.semantic.warning },
+                  ]}
+                >
+                  <Ionicons name="flag-outline" size={20} color={"#FFF"} />
+                </View>
+                <View style={styles.menuTextContainer}>
+                  <Text style={styles.menuText}>Reported Vibe Checks</Text>
+                  <Text style={styles.menuSubText}>Review the moderation queue</Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={colors.muted} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Menu Section: Support */}
         <View style={styles.menuSection}>
           <Text style={styles.menuSectionTitle}>Support</Text>
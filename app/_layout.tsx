@@ -4,24 +4,29 @@ import {
   ThemeProvider,
 } from "@react-navigation/native";
 import { useFonts } from "expo-font";
-import { Stack, useRouter, useSegments } from "expo-router";
+import { Href, Stack, usePathname, useRouter, useSegments } from "expo-router";
 import { StatusBar } from "expo-status-bar";
 import "react-native-reanimated";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { BottomSheetModalProvider } from "@gorhom/bottom-sheet";
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import { ActivityIndicator, View } from "react-native";
 
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { ToastProvider } from "@/src/lib/ToastProvider";
+import { VenueCompareProvider } from "@/src/lib/VenueCompareProvider";
 import { AuthProvider, useAuth } from "@/src/lib/hooks";
 import { checkUserProfile } from "@/src/actions/auth";
+import { VibeCheckOutboxService } from "@/src/services/VibeCheckOutboxService";
 import { Colors } from "@/constants/Colors";
 
 function RootLayoutNav() {
   const { user, loading } = useAuth();
   const router = useRouter();
   const segments = useSegments();
+  const pathname = usePathname();
+  // Link a signed-out user opened, such as a group invite, to return to once they sign in
+  const pendingRoute = useRef<Href | null>(null);
   const colorScheme = useColorScheme() ?? "dark";
   const colors = Colors[colorScheme];
 
@@ -38,12 +43,21 @@ function RootLayoutNav() {
       currentRoute.includes("edit-profile") ||
       currentRoute.includes("about") ||
       currentRoute.includes("help") ||
-      currentRoute.includes("privacy");
+      currentRoute.includes("privacy") ||
+      currentRoute.includes("venue") ||
+      currentRoute.includes("compare") ||
+      currentRoute.includes("groups") ||
+      currentRoute.includes("search") ||
+      currentRoute.includes("follows") ||
+      currentRoute.startsWith("user/");
     const inPublicRoute =
       currentRoute.includes("login") || currentRoute.includes("setup-profile");
     const inInitialRoute = currentRoute === "" || currentRoute === "index";
 
     if (!user && inProtectedRoute) {
+      if (!inAuthGroup) {
+        pendingRoute.current = pathname as Href;
+      }
       // Redirect them to the login screen.
       router.replace("/login");
     } else if (user && (inPublicRoute || inInitialRoute)) {
@@ -61,14 +75,29 @@ function RootLayoutNav() {
         }
 
         if (hasProfile) {
-          router.replace("/(tabs)");
+          const route = pendingRoute.current ?? "/(tabs)";
+          pendingRoute.current = null;
+          router.replace(route);
         } else {
           router.replace("/setup-profile");
         }
       });
+    } else if (user && inAuthGroup && pendingRoute.current) {
+      // New users reach the tabs from setup-profile
+      const route = pendingRoute.current;
+      pendingRoute.current = null;
+      router.replace(route);
     }
     // If user is authenticated and on a protected route, let them stay there
-  }, [user, loading, segments, router]);
+  }, [user, loading, segments, pathname, router]);
+
+  // Post vibe checks saved while offline once the device reconnects
+  useEffect(() => {
+    if (!user) {
+      return;
+    }
+    return VibeCheckOutboxService.start();
+  }, [user]);
 
   // While loading auth state, we can show a spinner.
   // app/index.tsx will handle the initial splash animation.
@@ -95,9 +124,21 @@ function RootLayoutNav() {
       <Stack.Screen name="(tabs)" />
       <Stack.Screen name="+not-found" />
       <Stack.Screen name="about" />
+      <Stack.Screen name="compare" />
       <Stack.Screen name="edit-profile" />
+      <Stack.Screen name="follows" />
+      <Stack.Screen name="groups/index" />
+      <Stack.Screen name="groups/new" />
+      <Stack.Screen name="groups/[id]" />
+      <Stack.Screen name="groups/join/[code]" />
+      <Stack.Screen name="groups/chat/[id]" />
+      <Stack.Screen name="groups/poll/[id]" />
       <Stack.Screen name="help" />
+      <Stack.Screen name="moderation" />
       <Stack.Screen name="privacy" />
+      <Stack.Screen name="search" />
+      <Stack.Screen name="user/[id]" />
+      <Stack.Screen name="venue/[id]" />
     </Stack>
   );
 }
@@ -117,10 +158,12 @@ export default function RootLayout() {
       <ThemeProvider value={colorScheme === "dark" ? DarkTheme : DefaultTheme}>
         <AuthProvider>
           <ToastProvider>
-            <BottomSheetModalProvider>
-              <RootLayoutNav />
-              <StatusBar style={colorScheme === "dark" ? "light" : "dark"} />
-            </BottomSheetModalProvider>
+            <VenueCompareProvider>
+              <BottomSheetModalProvider>
+                <RootLayoutNav />
+                <StatusBar style={colorScheme === "dark" ? "light" : "dark"} />
+              </BottomSheetModalProvider>
+            </VenueCompareProvider>
           </ToastProvider>
         </AuthProvider>
       </ThemeProvider>
@@ -0,0 +1,459 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Linking,
+  Platform,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Image } from 'expo-image';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import BusynessIndicator from '@/components/BusynessIndicator';
+import OpenStatusBadge from '@/components/OpenStatusBadge';
+import { ComparedVenue, getVenueComparison, toggleBookmark } from '@/src/actions/clubs';
+import { useAuth, useLocation } from '@/src/lib/hooks';
+import { useToast } from '@/src/lib/ToastProvider';
+import { useVenueCompare } from '@/src/lib/VenueCompareProvider';
+import { BUSYNESS_COMPARISON_LABELS, BusynessRating } from '@/src/lib/types';
+import { VENUE_COMPARE_CONFIG } from '@/src/lib/constants';
+import {
+  getBestVenueIds,
+  getDirectionsUrl,
+  getVibeCheckPhoto,
+  parseCompareIds,
+} from '@/src/lib/venueCompare';
+import { getVenuePath } from '@/src/lib/venueLinks';
+
+const COLUMN_WIDTH = 150;
+
+const formatDistance = (km: number) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`);
+
+/**
+ * Venues side by side, picked from bookmarks or the feed and opened with
+ * /compare?ids=<id>,<id>. Each row highlights the venues that come out best.
+ */
+export default function CompareScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { ids } = useLocalSearchParams<{ ids: string }>();
+  const { user } = useAuth();
+  const { location, loading: locationLoading } = useLocation();
+  const { showToast } = useToast();
+  const { isSelected, toggleVenue } = useVenueCompare();
+
+  const venueIds = useMemo(() => parseCompareIds(ids), [ids]);
+  const [venues, setVenues] = useState<ComparedVenue[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadComparison = useCallback(async () => {
+    if (venueIds.length < VENUE_COMPARE_CONFIG.minVenues) {
+      setError(`Pick at least ${VENUE_COMPARE_CONFIG.minVenues} venues to compare.`);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await getVenueComparison(venueIds, user?.id, location ?? undefined);
+    if (error) {
+      console.error('Error loading venue comparison:', error);
+      setError("We couldn't load these venues. Try again.");
+    } else {
+      setVenues(data);
+      setError(null);
+    }
+    setLoading(false);
+  }, [venueIds, user?.id, location]);
+
+  useEffect(() => {
+    // Wait for the location so distances are filled in on the first load
+    if (locationLoading) return;
+    loadComparison();
+  }, [loadComparison, locationLoading]);
+
+  const best = useMemo(() => ({
+    distance: getBestVenueIds(venues, venue => venue.distance, 'lowest'),
+    rating: getBestVenueIds(
+      venues,
+      venue => (venue.review_count > 0 ? venue.average_rating : null),
+      'highest'
+    ),
+    reviews: getBestVenueIds(venues, venue => venue.review_count, 'highest'),
+  }), [venues]);
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  };
+
+  const handleRemove = (venueId: string) => {
+    if (isSelected(venueId)) toggleVenue(venueId);
+    setVenues(current => current.filter(venue => venue.id !== venueId));
+  };
+
+  const handleBookmark = async (venue: ComparedVenue) => {
+    if (!user) return;
+
+    // Optimistic update
+    const update = (isBookmarked: boolean) =>
+      setVenues(current =>
+        current.map(item => (item.id === venue.id ? { ...item, isBookmarked } : item))
+      );
+    update(!venue.isBookmarked);
+
+    const { error } = await toggleBookmark(venue.id, user.id);
+    if (error) {
+      update(venue.isBookmarked);
+      showToast({ type: 'error', message: "Couldn't save that. Try again." });
+    }
+  };
+
+  const handleDirections = (venue: ComparedVenue) => {
+    const url = getDirectionsUrl(venue, Platform.OS);
+    if (!url) {
+      showToast({ type: 'info', message: `${venue.name} hasn't added its location yet` });
+      return;
+    }
+    Linking.openURL(url).catch(error => console.error('Error opening directions:', error));
+  };
+
+  const styles = getStyles(colors);
+
+  const renderRow = (
+    label: string,
+    renderCell: (venue: ComparedVenue) => React.ReactNode,
+    bestIds: string[] = []
+  ) => (
+    <View style={styles.row}>
+      <View style={styles.labelCell}>
+        <Text style={styles.labelText}>{label}</Text>
+      </View>
+      {venues.map(venue => (
+        <View
+          key={venue.id}
+          style={[styles.cell, bestIds.includes(venue.id) && styles.bestCell]}
+        >
+          {renderCell(venue)}
+        </View>
+      ))}
+    </View>
+  );
+
+  const renderTable = () => (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      <View>
+        <View style={styles.row}>
+          <View style={styles.labelCell} />
+          {venues.map(venue => (
+            <View key={venue.id} style={styles.headerCell}>
+              <TouchableOpacity onPress={() => router.push(getVenuePath(venue.id))}>
+                <Image
+                  source={{ uri: venue.cover_image_url || 'https://placehold.co/400x400' }}
+                  style={styles.coverImage}
+                />
+                <Text style={styles.venueName} numberOfLines={2}>{venue.name}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.removeButton}
+                onPress={() => handleRemove(venue.id)}
+                accessibilityLabel={`Remove ${venue.name} from comparison`}
+              >
+                <Ionicons name="close" size={14} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </View>
+
+        {renderRow('Distance', venue => (
+          <Text style={styles.valueText}>
+            {venue.distance !== undefined ? formatDistance(venue.distance) : '—'}
+          </Text>
+        ), best.distance)}
+
+        {renderRow('Busy now', venue =>
+          venue.busyness_estimate.busyness !== null ? (
+            <View style={styles.cellStack}>
+              <BusynessIndicator
+                rating={Math.round(venue.busyness_estimate.busyness) as BusynessRating}
+                size="small"
+                showLabel
+                confidence={venue.busyness_estimate.confidence_level}
+              />
+              {venue.has_live_activity && <Text style={styles.liveText}>LIVE</Text>}
+            </View>
+          ) : (
+            <Text style={styles.mutedText}>No recent reports</Text>
+          )
+        )}
+
+        {renderRow('Trend', venue => (
+          <Text style={venue.busyness_comparison ? styles.valueText : styles.mutedText}>
+            {venue.busyness_comparison
+              ? BUSYNESS_COMPARISON_LABELS[venue.busyness_comparison]
+              : '—'}
+          </Text>
+        ))}
+
+        {renderRow('Rating', venue =>
+          venue.review_count > 0 ? (
+            <View style={styles.inlineValue}>
+              <Ionicons name="star" size={14} color={colors.tint} />
+              <Text style={styles.valueText}>{venue.average_rating.toFixed(1)}</Text>
+            </View>
+          ) : (
+            <Text style={styles.mutedText}>No ratings</Text>
+          ), best.rating)}
+
+        {renderRow('Reviews', venue => (
+          <Text style={styles.valueText}>{venue.review_count}</Text>
+        ), best.reviews)}
+
+        {renderRow('Deals', venue =>
+          venue.promotions.length > 0 ? (
+            <View style={styles.cellStack}>
+              {venue.promotions.slice(0, 2).map(promotion => (
+                <Text key={promotion.id} style={styles.valueText} numberOfLines={2}>
+                  {promotion.title}
+                </Text>
+              ))}
+              {venue.promotions.length > 2 && (
+                <Text style={styles.mutedText}>+{venue.promotions.length - 2} more</Text>
+              )}
+            </View>
+          ) : (
+            <Text style={styles.mutedText}>None today</Text>
+          )
+        )}
+
+        {renderRow('Open now', venue =>
+          venue.hours ? (
+            <OpenStatusBadge hours={venue.hours} size="small" />
+          ) : (
+            <Text style={styles.mutedText}>Hours not listed</Text>
+          )
+        )}
+
+        {renderRow('Latest vibe', venue => {
+          const photo = getVibeCheckPhoto(venue.latest_vibe_check);
+          if (!venue.latest_vibe_check) {
+            return <Text style={styles.mutedText}>No recent vibe checks</Text>;
+          }
+          return (
+            <View style={styles.cellStack}>
+              {photo ? (
+                <Image source={{ uri: photo }} style={styles.vibePhoto} />
+              ) : (
+                <Text style={styles.valueText} numberOfLines={3}>
+                  {venue.latest_vibe_check.comment || 'No photo'}
+                </Text>
+              )}
+              <Text style={styles.mutedText}>{venue.latest_vibe_check.time_ago}</Text>
+            </View>
+          );
+        })}
+
+        {renderRow('', venue => (
+          <View style={styles.cellStack}>
+            <TouchableOpacity style={styles.cellAction} onPress={() => handleBookmark(venue)}>
+              <Ionicons
+                name={venue.isBookmarked ? 'bookmark' : 'bookmark-outline'}
+                size={16}
+                color={venue.isBookmarked ? colors.tint : colors.text}
+              />
+              <Text style={[styles.cellActionText, venue.isBookmarked && { color: colors.tint }]}>
+                {venue.isBookmarked ? 'Saved' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.cellAction} onPress={() => handleDirections(venue)}>
+              <Ionicons name="navigate-outline" size={16} color={colors.text} />
+              <Text style={styles.cellActionText}>Directions</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    </ScrollView>
+  );
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      );
+    }
+
+    if (error || venues.length === 0) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="git-compare-outline" size={48} color={colors.muted} />
+          <Text style={styles.messageText}>{error ?? 'No venues left to compare.'}</Text>
+          <TouchableOpacity style={styles.actionButton} onPress={handleBack}>
+            <Text style={styles.actionButtonText}>Back to venues</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {renderTable()}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: 'Compare venues',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={handleBack} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    scrollContent: {
+      paddingVertical: 16,
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      gap: 12,
+    },
+    messageText: {
+      fontSize: 16,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+    actionButton: {
+      marginTop: 8,
+      paddingVertical: 10,
+      paddingHorizontal: 20,
+      borderRadius: 10,
+      backgroundColor: colors.tint,
+    },
+    actionButtonText: {
+      color: colors.background,
+      fontWeight: '600',
+    },
+    row: {
+      flexDirection: 'row',
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    labelCell: {
+      width: 96,
+      paddingHorizontal: 12,
+      paddingVertical: 12,
+      justifyContent: 'center',
+    },
+    labelText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.muted,
+    },
+    headerCell: {
+      width: COLUMN_WIDTH,
+      padding: 8,
+    },
+    coverImage: {
+      width: '100%',
+      height: 90,
+      borderRadius: 10,
+      backgroundColor: colors.border,
+    },
+    venueName: {
+      marginTop: 6,
+      fontSize: 14,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    removeButton: {
+      position: 'absolute',
+      top: 12,
+      right: 12,
+      width: 22,
+      height: 22,
+      borderRadius: 11,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    cell: {
+      width: COLUMN_WIDTH,
+      paddingHorizontal: 8,
+      paddingVertical: 12,
+      justifyContent: 'center',
+    },
+    bestCell: {
+      backgroundColor: colors.surface,
+      borderLeftWidth: 2,
+      borderLeftColor: colors.tint,
+    },
+    cellStack: {
+      gap: 6,
+    },
+    inlineValue: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    valueText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    mutedText: {
+      fontSize: 12,
+      color: colors.muted,
+    },
+    liveText: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      color: '#FF4444',
+      letterSpacing: 0.5,
+    },
+    vibePhoto: {
+      width: '100%',
+      height: 80,
+      borderRadius: 8,
+      backgroundColor: colors.border,
+    },
+    cellAction: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      paddingVertical: 4,
+    },
+    cellActionText: {
+      fontSize: 13,
+      fontWeight: '500',
+      color: colors.text,
+    },
+  });
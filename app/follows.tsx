@@ -0,0 +1,363 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { FollowService } from '@/src/services/FollowService';
+import { useAuth } from '@/src/lib/hooks';
+import { FollowProfile } from '@/src/lib/types';
+
+type FollowTab = 'requests' | 'followers' | 'following';
+
+const TAB_LABELS: Record<FollowTab, string> = {
+  requests: 'Requests',
+  followers: 'Followers',
+  following: 'Following',
+};
+
+const REMOVE_LABELS: Record<FollowTab, string> = {
+  requests: 'Decline',
+  followers: 'Remove',
+  following: 'Unfollow',
+};
+
+const EMPTY_MESSAGES: Record<FollowTab, string> = {
+  requests: 'No one is waiting for you to accept their follow request.',
+  followers: 'No one follows you yet. People who ask to follow you show up under Requests.',
+  following: "You're not following anyone yet. Tap someone's name on a vibe check to see their profile.",
+};
+
+/**
+ * The current user's follow requests, followers and the people they follow. Opened from the
+ * profile tab with the tab to show.
+ */
+export default function FollowsScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const params = useLocalSearchParams<{ tab?: string }>();
+  const { user } = useAuth();
+
+  const [tab, setTab] = useState<FollowTab>(
+    params.tab && params.tab in TAB_LABELS ? (params.tab as FollowTab) : 'followers'
+  );
+  const [profiles, setProfiles] = useState<FollowProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const loadProfiles = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await (tab === 'requests'
+      ? FollowService.getRequests(user.id)
+      : tab === 'followers'
+        ? FollowService.getFollowers(user.id)
+        : FollowService.getFollowing(user.id));
+
+    if (error) console.error('Error loading follows:', error);
+    setProfiles(data);
+    setLoading(false);
+  }, [user, tab]);
+
+  // Reload when coming back from someone's profile, where they may have been followed or removed
+  useFocusEffect(
+    useCallback(() => {
+      loadProfiles();
+    }, [loadProfiles])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadProfiles();
+    setRefreshing(false);
+  };
+
+  const handleTabChange = (next: FollowTab) => {
+    if (next === tab) return;
+    setLoading(true);
+    setTab(next);
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/profile');
+    }
+  };
+
+  const runAction = async (
+    profile: FollowProfile,
+    action: () => Promise<{ success: boolean; error: string | null }>
+  ) => {
+    setBusyId(profile.id);
+    const { success, error } = await action();
+    setBusyId(null);
+
+    if (!success) {
+      Alert.alert('Error', error || 'Something went wrong. Please try again.');
+      // The request may have been withdrawn in the meantime
+      loadProfiles();
+      return;
+    }
+    setProfiles((prev) => prev.filter((p) => p.id !== profile.id));
+  };
+
+  const handleAccept = (profile: FollowProfile) => {
+    if (!user) return;
+    runAction(profile, () => FollowService.acceptRequest(user.id, profile.id));
+  };
+
+  const handleRemove = (profile: FollowProfile) => {
+    if (!user) return;
+
+    const name = profile.name || 'this person';
+    const confirmation = {
+      requests: {
+        title: 'Decline Request',
+        message: `Decline ${name}'s request to follow you?`,
+        action: () => FollowService.removeFollower(user.id, profile.id),
+      },
+      followers: {
+        title: 'Remove Follower',
+        message: `${name} will stop seeing your activity in their Friends feed.`,
+        action: () => FollowService.removeFollower(user.id, profile.id),
+      },
+      following: {
+        title: 'Unfollow',
+        message: `Stop following ${name}?`,
+        action: () => FollowService.unfollow(user.id, profile.id),
+      },
+    }[tab];
+
+    Alert.alert(confirmation.title, confirmation.message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: REMOVE_LABELS[tab], style: 'destructive', onPress: () => runAction(profile, confirmation.action) },
+    ]);
+  };
+
+  const styles = getStyles(colors);
+
+  const renderProfile = ({ item }: { item: FollowProfile }) => (
+    <View style={styles.row}>
+      <TouchableOpacity style={styles.person} onPress={() => router.push(`/user/${item.id}`)}>
+        {item.avatar_url ? (
+          <Image source={{ uri: item.avatar_url }} style={styles.avatar} />
+        ) : (
+          <View style={[styles.avatar, styles.avatarPlaceholder]}>
+            <Text style={styles.avatarText}>{item.name?.charAt(0)?.toUpperCase() || '?'}</Text>
+          </View>
+        )}
+        <View style={styles.personInfo}>
+          <Text style={styles.name} numberOfLines={1}>{item.name || 'Anonymous'}</Text>
+          {item.university && (
+            <Text style={styles.details} numberOfLines={1}>{item.university}</Text>
+          )}
+        </View>
+      </TouchableOpacity>
+
+      {busyId === item.id ? (
+        <ActivityIndicator color={colors.tint} />
+      ) : (
+        <View style={styles.actions}>
+          {tab === 'requests' && (
+            <TouchableOpacity style={styles.primaryButton} onPress={() => handleAccept(item)}>
+              <Text style={styles.primaryButtonText}>Accept</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => handleRemove(item)}>
+            <Text style={styles.secondaryButtonText}>{REMOVE_LABELS[tab]}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: 'Follows',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={handleBack} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <View style={styles.tabs}>
+        {(Object.keys(TAB_LABELS) as FollowTab[]).map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.tab, tab === option && styles.tabSelected]}
+            onPress={() => handleTabChange(option)}
+            accessibilityState={{ selected: tab === option }}
+          >
+            <Text style={[styles.tabText, tab === option && styles.tabTextSelected]}>
+              {TAB_LABELS[option]}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      ) : (
+        <FlatList
+          data={profiles}
+          keyExtractor={(item) => item.id}
+          renderItem={renderProfile}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />
+          }
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Ionicons name="people-outline" size={48} color={colors.muted} />
+              <Text style={styles.messageText}>{EMPTY_MESSAGES[tab]}</Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    tabs: {
+      flexDirection: 'row',
+      gap: 8,
+      paddingHorizontal: 20,
+      paddingTop: 16,
+    },
+    tab: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    tabSelected: {
+      backgroundColor: colors.tint,
+      borderColor: colors.tint,
+    },
+    tabText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    tabTextSelected: {
+      color: colors.background,
+    },
+    list: {
+      flexGrow: 1,
+      paddingVertical: 16,
+    },
+    row: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 12,
+      marginHorizontal: 20,
+      marginBottom: 12,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    person: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    avatar: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+    },
+    avatarPlaceholder: {
+      backgroundColor: colors.tint,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    avatarText: {
+      fontSize: 18,
+      fontWeight: 'bold',
+      color: colors.background,
+    },
+    personInfo: {
+      flex: 1,
+    },
+    name: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    details: {
+      fontSize: 14,
+      color: colors.muted,
+      marginTop: 2,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    primaryButton: {
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 8,
+      backgroundColor: colors.tint,
+    },
+    primaryButtonText: {
+      color: colors.background,
+      fontSize: 14,
+      fontWeight: '600',
+    },
+    secondaryButton: {
+      paddingVertical: 8,
+      paddingHorizontal: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    secondaryButtonText: {
+      color: colors.text,
+      fontSize: 14,
+      fontWeight: '600',
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      gap: 12,
+    },
+    messageText: {
+      fontSize: 16,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+  });
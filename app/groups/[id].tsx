@@ -0,0 +1,630 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Share,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Image } from 'expo-image';
+import { Stack, router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import GroupForm from '@/components/GroupForm';
+import {
+  approveJoinRequest,
+  deleteGroup,
+  getGroupById,
+  leaveGroup,
+  removeGroupMember,
+  requestToJoinGroup,
+  setGroupMemberRole,
+  updateGroup,
+} from '@/src/actions/groups';
+import { GroupChatService } from '@/src/services/GroupChatService';
+import { useAuth } from '@/src/lib/hooks';
+import {
+  formatGroupTime,
+  getGroupInviteLink,
+  getGroupJoinStatus,
+  getGroupMemberActions,
+  getGroupSpotsLeft,
+} from '@/src/lib/groups';
+import {
+  GROUP_ROLE_LABELS,
+  GroupMemberAction,
+  GroupMemberProfile,
+  PartyGroupDetails,
+  PartyGroupInput,
+} from '@/src/lib/types';
+
+const MEMBER_ACTION_LABELS: Record<GroupMemberAction, string> = {
+  promote: 'Make admin',
+  demote: 'Remove as admin',
+  remove: 'Remove from group',
+};
+
+/**
+ * A party group with its venue, plans and members. People join or ask to join here, admins
+ * handle join requests and members, and the creator can edit or delete the group.
+ */
+export default function GroupScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+
+  const [group, setGroup] = useState<PartyGroupDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadGroup = useCallback(async () => {
+    const { data, error } = await getGroupById(id, user?.id);
+    if (error || !data) {
+      console.error('Error loading group:', error);
+      setError("We couldn't find this group. It may have been deleted or made private.");
+    } else {
+      setGroup(data);
+      setError(null);
+    }
+    setLoading(false);
+  }, [id, user?.id]);
+
+  // Reload when coming back from the venue vote, which can change the group's venue
+  useFocusEffect(
+    useCallback(() => {
+      loadGroup();
+    }, [loadGroup])
+  );
+
+  // Refresh the chat's unread count when coming back from it
+  useFocusEffect(
+    useCallback(() => {
+      if (!group?.is_member) return;
+
+      GroupChatService.getUnreadCounts().then(({ data, error }) => {
+        if (error) console.error('Error loading unread messages:', error);
+        else setUnreadCount(data[group.id] ?? 0);
+      });
+    }, [group?.id, group?.is_member])
+  );
+
+  const handleBack = () => {
+    if (editing) {
+      setEditing(false);
+    } else if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/groups');
+    }
+  };
+
+  const handleSave = async (input: PartyGroupInput) => {
+    if (!user || !group) return null;
+
+    const { data, error } = await updateGroup(group.id, user.id, input);
+    if (error || !data) {
+      console.error('Error updating group:', error);
+      return error ?? "We couldn't save your changes. Please try again.";
+    }
+
+    setGroup(data);
+    setEditing(false);
+    return null;
+  };
+
+  const handleDelete = () => {
+    if (!user || !group) return;
+
+    Alert.alert(
+      'Delete Group',
+      `Delete ${group.name}? Everyone in it will lose the plan.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await deleteGroup(group.id, user.id);
+            if (error) {
+              Alert.alert('Error', error || 'Failed to delete the group. Please try again.');
+              return;
+            }
+            handleBack();
+          },
+        },
+      ]
+    );
+  };
+
+  // Runs a membership change and shows the group it leaves behind
+  const runMembershipChange = async (
+    change: () => Promise<{ data: PartyGroupDetails | null; error: string | null }>,
+    failure: string
+  ) => {
+    setBusy(true);
+    const { data, error } = await change();
+    setBusy(false);
+
+    if (error || !data) {
+      console.error('Error changing group membership:', error);
+      Alert.alert('Error', error || failure);
+      return;
+    }
+    setGroup(data);
+  };
+
+  const handleRequestToJoin = () => {
+    if (!user || !group) return;
+    runMembershipChange(
+      () => requestToJoinGroup(group.id, user.id),
+      'Failed to send your request. Please try again.'
+    );
+  };
+
+  const handleLeave = () => {
+    if (!user || !group) return;
+
+    const cancelling = !group.is_member;
+    Alert.alert(
+      cancelling ? 'Cancel Request' : 'Leave Group',
+      cancelling ? `Stop asking to join ${group.name}?` : `Leave ${group.name}?`,
+      [
+        { text: 'Not now', style: 'cancel' },
+        {
+          text: cancelling ? 'Cancel request' : 'Leave',
+          style: 'destructive',
+          onPress: async () => {
+            const { error } = await leaveGroup(group.id, user.id);
+            if (error) {
+              Alert.alert('Error', error || 'Failed to leave the group. Please try again.');
+              return;
+            }
+            // A private group can't be seen once you've left it
+            if (cancelling) loadGroup();
+            else handleBack();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleInvite = async () => {
+    if (!group) return;
+
+    const link = getGroupInviteLink(group.invite_code);
+    try {
+      await Share.share({ message: `Join ${group.name} on Buzzvar: ${link}`, url: link });
+    } catch (error) {
+      console.error('Error sharing group invite:', error);
+    }
+  };
+
+  const handleApprove = (member: GroupMemberProfile) => {
+    if (!user || !group) return;
+    runMembershipChange(
+      () => approveJoinRequest(group.id, member.user_id, user.id),
+      'Failed to approve the request. Please try again.'
+    );
+  };
+
+  const handleReject = (member: GroupMemberProfile) => {
+    if (!user || !group) return;
+    runMembershipChange(
+      () => removeGroupMember(group.id, member.user_id, user.id),
+      'Failed to turn down the request. Please try again.'
+    );
+  };
+
+  const handleMemberPress = (member: GroupMemberProfile, actions: GroupMemberAction[]) => {
+    if (!user || !group) return;
+
+    const runAction = (action: GroupMemberAction) =>
+      runMembershipChange(
+        () =>
+          action === 'remove'
+            ? removeGroupMember(group.id, member.user_id, user.id)
+            : setGroupMemberRole(group.id, member.user_id, user.id, action === 'promote' ? 'admin' : 'member'),
+        'Failed to update the member. Please try again.'
+      );
+
+    Alert.alert(member.name || 'Buzzvar user', undefined, [
+      ...actions.map((action) => ({
+        text: MEMBER_ACTION_LABELS[action],
+        style: action === 'remove' ? ('destructive' as const) : ('default' as const),
+        onPress: () => runAction(action),
+      })),
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const styles = getStyles(colors);
+
+  const renderMembership = (current: PartyGroupDetails) => {
+    if (current.is_creator) return null;
+
+    switch (getGroupJoinStatus(current)) {
+      case 'member':
+        return (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleLeave} disabled={busy}>
+            <Text style={styles.secondaryButtonText}>Leave group</Text>
+          </TouchableOpacity>
+        );
+      case 'requested':
+        return (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleLeave} disabled={busy}>
+            <Text style={styles.secondaryButtonText}>Request sent · Cancel</Text>
+          </TouchableOpacity>
+        );
+      case 'can_request':
+        return (
+          <TouchableOpacity
+            style={[styles.primaryButton, busy && styles.buttonDisabled]}
+            onPress={handleRequestToJoin}
+            disabled={busy}
+          >
+            <Text style={styles.primaryButtonText}>Ask to join</Text>
+          </TouchableOpacity>
+        );
+      case 'full':
+        return <Text style={styles.noticeText}>This group is full.</Text>;
+      case 'invite_only':
+        return <Text style={styles.noticeText}>This group is invite only.</Text>;
+    }
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      );
+    }
+
+    if (error || !group) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="alert-circle-outline" size={48} color={colors.muted} />
+          <Text style={styles.messageText}>{error}</Text>
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.replace('/groups')}>
+            <Text style={styles.actionButtonText}>Back to groups</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (editing) {
+      return (
+        <GroupForm
+          initialValues={group}
+          venueName={group.venue?.name}
+          memberCount={group.member_count}
+          submitLabel="Save changes"
+          onSubmit={handleSave}
+        />
+      );
+    }
+
+    const spotsLeft = getGroupSpotsLeft(group);
+    const viewerRole = group.members.find((member) => member.user_id === user?.id)?.role ?? null;
+
+    return (
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.title}>{group.name}</Text>
+        <View style={styles.detailRow}>
+          <Ionicons name="time-outline" size={18} color={colors.tint} />
+          <Text style={styles.detailText}>{formatGroupTime(group)}</Text>
+        </View>
+        {group.venue && (
+          <TouchableOpacity
+            style={styles.detailRow}
+            onPress={() => router.push(`/venue/${group.venue!.id}`)}
+          >
+            <Ionicons name="location-outline" size={18} color={colors.tint} />
+            <Text style={[styles.detailText, styles.linkText]}>{group.venue.name}</Text>
+          </TouchableOpacity>
+        )}
+        <View style={styles.detailRow}>
+          <Ionicons name={group.is_public ? 'globe-outline' : 'lock-closed-outline'} size={18} color={colors.tint} />
+          <Text style={styles.detailText}>{group.is_public ? 'Public group' : 'Private group'}</Text>
+        </View>
+
+        {group.description && <Text style={styles.description}>{group.description}</Text>}
+
+        {renderMembership(group)}
+        {group.is_member && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.push(`/groups/chat/${group.id}`)}>
+            <Ionicons name="chatbubbles-outline" size={18} color={colors.tint} />
+            <Text style={styles.secondaryButtonText}>Group chat</Text>
+            {unreadCount > 0 && (
+              <View style={styles.unreadBadge} accessibilityLabel={`${unreadCount} unread messages`}>
+                <Text style={styles.unreadBadgeText}>{unreadCount}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        )}
+        {group.is_member && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.push(`/groups/poll/${group.id}`)}>
+            <Ionicons name="stats-chart-outline" size={18} color={colors.tint} />
+            <Text style={styles.secondaryButtonText}>Vote on where to go</Text>
+          </TouchableOpacity>
+        )}
+        {group.is_member && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleInvite}>
+            <Ionicons name="share-outline" size={18} color={colors.tint} />
+            <Text style={styles.secondaryButtonText}>Invite friends</Text>
+          </TouchableOpacity>
+        )}
+
+        {group.requests.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Requests to join ({group.requests.length})</Text>
+            {group.requests.map((member) => (
+              <View key={member.user_id} style={styles.memberRow}>
+                {member.avatar_url ? (
+                  <Image source={{ uri: member.avatar_url }} style={styles.avatarImage} />
+                ) : (
+                  <Ionicons name="person-circle" size={40} color={colors.muted} />
+                )}
+                <Text style={styles.memberName} numberOfLines={1}>{member.name || 'Buzzvar user'}</Text>
+                <TouchableOpacity
+                  onPress={() => handleReject(member)}
+                  disabled={busy}
+                  accessibilityLabel={`Turn down ${member.name || 'request'}`}
+                >
+                  <Ionicons name="close-circle-outline" size={30} color={colors.muted} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => handleApprove(member)}
+                  disabled={busy || spotsLeft === 0}
+                  accessibilityLabel={`Approve ${member.name || 'request'}`}
+                >
+                  <Ionicons
+                    name="checkmark-circle"
+                    size={30}
+                    color={spotsLeft === 0 ? colors.muted : colors.tint}
+                  />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>
+          {group.member_count} of {group.max_size} going
+          {spotsLeft > 0 ? ` · ${spotsLeft} spots left` : ' · Full'}
+        </Text>
+        {group.members.map((member) => {
+          const actions =
+            member.user_id === user?.id ? [] : getGroupMemberActions(viewerRole, member.role);
+
+          return (
+            <TouchableOpacity
+              key={member.user_id}
+              style={styles.memberRow}
+              onPress={() => handleMemberPress(member, actions)}
+              disabled={busy || actions.length === 0}
+            >
+              {member.avatar_url ? (
+                <Image source={{ uri: member.avatar_url }} style={styles.avatarImage} />
+              ) : (
+                <Ionicons name="person-circle" size={40} color={colors.muted} />
+              )}
+              <Text style={styles.memberName} numberOfLines={1}>
+                {member.name || 'Buzzvar user'}
+                {member.user_id === user?.id ? ' (you)' : ''}
+              </Text>
+              {member.role !== 'member' && (
+                <Text style={styles.roleText}>{GROUP_ROLE_LABELS[member.role]}</Text>
+              )}
+              {actions.length > 0 && (
+                <Ionicons name="ellipsis-horizontal" size={18} color={colors.muted} />
+              )}
+            </TouchableOpacity>
+          );
+        })}
+
+        {group.is_creator && (
+          <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+            <Ionicons name="trash-outline" size={18} color={colors.destructive} />
+            <Text style={styles.deleteButtonText}>Delete group</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: editing ? 'Edit Group' : group?.name ?? 'Group',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={handleBack} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+          headerRight: () =>
+            group?.is_creator && !editing ? (
+              <TouchableOpacity
+                onPress={() => setEditing(true)}
+                style={{ paddingHorizontal: 10 }}
+                accessibilityLabel="Edit group"
+              >
+                <Ionicons name="create-outline" size={22} color={colors.text} />
+              </TouchableOpacity>
+            ) : null,
+        }}
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    title: {
+      fontSize: 26,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 16,
+    },
+    detailRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 10,
+    },
+    detailText: {
+      fontSize: 16,
+      color: colors.text,
+    },
+    linkText: {
+      color: colors.tint,
+      fontWeight: '600',
+    },
+    description: {
+      fontSize: 15,
+      lineHeight: 22,
+      color: colors.muted,
+      marginTop: 8,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginTop: 24,
+      marginBottom: 12,
+    },
+    memberRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 8,
+    },
+    avatarImage: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+    },
+    memberName: {
+      flex: 1,
+      fontSize: 16,
+      color: colors.text,
+    },
+    roleText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.tint,
+    },
+    primaryButton: {
+      backgroundColor: colors.tint,
+      padding: 14,
+      borderRadius: 8,
+      alignItems: 'center',
+      marginTop: 20,
+    },
+    primaryButtonText: {
+      color: colors.background,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    secondaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      marginTop: 20,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.tint,
+    },
+    secondaryButtonText: {
+      color: colors.tint,
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    unreadBadge: {
+      minWidth: 20,
+      height: 20,
+      borderRadius: 10,
+      paddingHorizontal: 5,
+      backgroundColor: colors.destructive,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    unreadBadgeText: {
+      color: '#FFFFFF',
+      fontSize: 11,
+      fontWeight: 'bold',
+    },
+    noticeText: {
+      fontSize: 15,
+      color: colors.muted,
+      textAlign: 'center',
+      marginTop: 20,
+    },
+    deleteButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      marginTop: 32,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.destructive,
+    },
+    deleteButtonText: {
+      color: colors.destructive,
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      gap: 12,
+    },
+    messageText: {
+      fontSize: 16,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+    actionButton: {
+      marginTop: 8,
+      paddingVertical: 10,
+      paddingHorizontal: 20,
+      borderRadius: 10,
+      backgroundColor: colors.tint,
+    },
+    actionButtonText: {
+      color: colors.background,
+      fontWeight: '600',
+    },
+  });
@@ -0,0 +1,424 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { getGroupById } from '@/src/actions/groups';
+import { GroupChatService } from '@/src/services/GroupChatService';
+import { useAuth } from '@/src/lib/hooks';
+import { GROUP_CHAT_CONFIG } from '@/src/lib/constants';
+import { formatChatTime, mergeChatMessages, startsSenderRun } from '@/src/lib/groupChat';
+import { GroupMessageWithSender, GroupMessagesCursor, PartyGroupDetails } from '@/src/lib/types';
+
+/**
+ * Chat for a party group's members. Older messages load as you scroll up and new ones arrive
+ * over realtime. The chat is marked read while it's open.
+ */
+export default function GroupChatScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+
+  const [group, setGroup] = useState<PartyGroupDetails | null>(null);
+  const [messages, setMessages] = useState<GroupMessageWithSender[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [text, setText] = useState('');
+  const [sending, setSending] = useState(false);
+  const cursorRef = useRef<GroupMessagesCursor | null>(null);
+
+  const loadChat = useCallback(async () => {
+    const { data: groupData, error: groupError } = await getGroupById(id, user?.id);
+    if (groupError || !groupData || !groupData.is_member) {
+      if (groupError) console.error('Error loading group:', groupError);
+      setError('Only people in this group can see its chat.');
+      setLoading(false);
+      return;
+    }
+    setGroup(groupData);
+
+    const { data, error: messagesError, nextCursor } = await GroupChatService.getMessages(id);
+    if (messagesError) {
+      console.error('Error loading group messages:', messagesError);
+      setError("We couldn't load the chat. Please try again.");
+    } else {
+      cursorRef.current = nextCursor;
+      setMessages((current) => mergeChatMessages(current, data));
+      setError(null);
+      GroupChatService.markRead(id);
+    }
+    setLoading(false);
+  }, [id, user?.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadChat();
+  }, [loadChat]);
+
+  // New messages, including our own echoed back, while the chat is open
+  useEffect(() => {
+    if (!group) return;
+
+    const unsubscribe = GroupChatService.subscribe(group.id, (message) => {
+      setMessages((current) => mergeChatMessages(current, [message]));
+      GroupChatService.markRead(group.id);
+    });
+    return unsubscribe;
+  }, [group]);
+
+  const handleLoadOlder = async () => {
+    if (loadingOlder || !cursorRef.current) return;
+
+    setLoadingOlder(true);
+    const { data, error, nextCursor } = await GroupChatService.getMessages(id, {
+      cursor: cursorRef.current,
+    });
+    if (error) {
+      console.error('Error loading older messages:', error);
+    } else {
+      cursorRef.current = nextCursor;
+      setMessages((current) => mergeChatMessages(current, data));
+    }
+    setLoadingOlder(false);
+  };
+
+  const handleSend = async () => {
+    if (!user || !group || sending) return;
+
+    setSending(true);
+    const { data, error } = await GroupChatService.sendMessage(group.id, user.id, text);
+    setSending(false);
+
+    if (error || !data) {
+      Alert.alert('Error', error || 'Failed to send message. Please try again.');
+      return;
+    }
+    setText('');
+    setMessages((current) => mergeChatMessages(current, [data]));
+  };
+
+  const handleSendPhoto = async () => {
+    if (!user || !group || sending) return;
+
+    try {
+      const permissionResult = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permissionResult.granted) {
+        Alert.alert('Permission Required', 'Please allow access to your photo library to send photos.');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: 'images',
+        quality: 0.8,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      setSending(true);
+      // Anything typed goes with the photo as its caption
+      const { data, error } = await GroupChatService.sendImage(
+        group.id,
+        user.id,
+        {
+          uri: asset.uri,
+          type: asset.mimeType ?? 'image/jpeg',
+          name: asset.fileName ?? `group_chat_${Date.now()}.jpg`,
+        },
+        text
+      );
+      setSending(false);
+
+      if (error || !data) {
+        Alert.alert('Error', error || 'Failed to send photo. Please try again.');
+        return;
+      }
+      setText('');
+      setMessages((current) => mergeChatMessages(current, [data]));
+    } catch (error) {
+      setSending(false);
+      console.error('Error sending photo:', error);
+      Alert.alert('Error', 'Failed to send photo. Please try again.');
+    }
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(`/groups/${id}`);
+    }
+  };
+
+  const styles = getStyles(colors);
+
+  const renderMessage = ({ item, index }: { item: GroupMessageWithSender; index: number }) => {
+    if (item.message_type === 'system') {
+      return (
+        <View style={styles.systemMessage}>
+          <Text style={styles.systemText}>{item.content}</Text>
+          <Text style={styles.timeText}>{formatChatTime(item.created_at)}</Text>
+        </View>
+      );
+    }
+
+    const isOwn = item.sender_id === user?.id;
+    // Messages are newest first, so the one sent before this comes after it
+    const showSender = !isOwn && startsSenderRun(item, messages[index + 1]);
+
+    return (
+      <View style={[styles.messageRow, isOwn && styles.ownMessageRow]}>
+        {!isOwn && (
+          <View style={styles.avatar}>
+            {showSender &&
+              (item.sender?.avatar_url ? (
+                <Image source={{ uri: item.sender.avatar_url }} style={styles.avatarImage} />
+              ) : (
+                <Ionicons name="person-circle" size={32} color={colors.muted} />
+              ))}
+          </View>
+        )}
+        <View style={[styles.bubble, isOwn ? styles.ownBubble : styles.otherBubble]}>
+          {showSender && <Text style={styles.senderName}>{item.sender?.name || 'Buzzvar user'}</Text>}
+          {item.image_url && (
+            <Image source={{ uri: item.image_url }} style={styles.messageImage} contentFit="cover" />
+          )}
+          {!!item.content && (
+            <Text style={[styles.messageText, isOwn && styles.ownMessageText]}>{item.content}</Text>
+          )}
+          <Text style={[styles.timeText, isOwn && styles.ownTimeText]}>{formatChatTime(item.created_at)}</Text>
+        </View>
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      );
+    }
+
+    if (error || !group) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="chatbubbles-outline" size={48} color={colors.muted} />
+          <Text style={styles.emptyText}>{error}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        keyboardVerticalOffset={Platform.OS === 'ios' ? 90 : 0}
+      >
+        <FlatList
+          data={messages}
+          keyExtractor={(item) => item.id}
+          renderItem={renderMessage}
+          inverted
+          contentContainerStyle={styles.list}
+          onEndReached={handleLoadOlder}
+          onEndReachedThreshold={0.3}
+          ListFooterComponent={
+            loadingOlder ? <ActivityIndicator style={styles.olderSpinner} color={colors.tint} /> : null
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyChat}>
+              <Text style={styles.emptyText}>No messages yet. Say hi to the group!</Text>
+            </View>
+          }
+        />
+        <View style={styles.composer}>
+          <TouchableOpacity onPress={handleSendPhoto} disabled={sending} accessibilityLabel="Send a photo">
+            <Ionicons name="image-outline" size={26} color={colors.tint} />
+          </TouchableOpacity>
+          <TextInput
+            style={styles.input}
+            placeholder="Message"
+            placeholderTextColor={colors.muted}
+            value={text}
+            onChangeText={setText}
+            maxLength={GROUP_CHAT_CONFIG.maxMessageLength}
+            multiline
+          />
+          <TouchableOpacity
+            onPress={handleSend}
+            disabled={sending || !text.trim()}
+            accessibilityLabel="Send message"
+          >
+            {sending ? (
+              <ActivityIndicator color={colors.tint} />
+            ) : (
+              <Ionicons name="send" size={24} color={text.trim() ? colors.tint : colors.muted} />
+            )}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: group?.name ?? 'Group Chat',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={handleBack} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      gap: 12,
+    },
+    list: {
+      flexGrow: 1,
+      padding: 12,
+    },
+    olderSpinner: {
+      marginVertical: 12,
+    },
+    emptyChat: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      // The list is inverted, so its empty state is too
+      transform: [{ scaleY: -1 }],
+    },
+    emptyText: {
+      fontSize: 16,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+    systemMessage: {
+      alignItems: 'center',
+      marginVertical: 8,
+    },
+    systemText: {
+      fontSize: 13,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+    messageRow: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+      marginVertical: 2,
+    },
+    ownMessageRow: {
+      justifyContent: 'flex-end',
+    },
+    avatar: {
+      width: 32,
+      marginRight: 8,
+    },
+    avatarImage: {
+      width: 32,
+      height: 32,
+      borderRadius: 16,
+    },
+    bubble: {
+      maxWidth: '78%',
+      borderRadius: 16,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+    },
+    ownBubble: {
+      backgroundColor: colors.tint,
+      borderBottomRightRadius: 4,
+    },
+    otherBubble: {
+      backgroundColor: colors.surface,
+      borderBottomLeftRadius: 4,
+    },
+    senderName: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.tint,
+      marginBottom: 2,
+    },
+    messageImage: {
+      width: 220,
+      height: 220,
+      borderRadius: 12,
+      marginBottom: 4,
+      backgroundColor: colors.border,
+    },
+    messageText: {
+      fontSize: 15,
+      color: colors.text,
+    },
+    ownMessageText: {
+      color: colors.background,
+    },
+    timeText: {
+      fontSize: 11,
+      color: colors.muted,
+      marginTop: 2,
+    },
+    ownTimeText: {
+      color: colors.background,
+      opacity: 0.7,
+      textAlign: 'right',
+    },
+    composer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    input: {
+      flex: 1,
+      maxHeight: 120,
+      backgroundColor: colors.background,
+      borderRadius: 20,
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      fontSize: 15,
+      color: colors.text,
+    },
+  });
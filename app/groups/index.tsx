@@ -0,0 +1,405 @@
+import React, { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router, useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { getPublicGroups, getUserGroups, getVenueGroups } from '@/src/actions/groups';
+import { GroupChatService } from '@/src/services/GroupChatService';
+import { useAuth } from '@/src/lib/hooks';
+import {
+  formatGroupTime,
+  getGroupInvitePath,
+  getGroupSpotsLeft,
+  parseGroupInviteCode,
+} from '@/src/lib/groups';
+import { PartyGroupWithDetails } from '@/src/lib/types';
+
+type GroupTab = 'mine' | 'public';
+
+/**
+ * Party groups the user is in and public groups to join, or every group going to a venue
+ * when opened with a venueId. Private groups are opened with an invite code or link.
+ */
+export default function GroupsScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { venueId, venueName } = useLocalSearchParams<{ venueId?: string; venueName?: string }>();
+  const { user } = useAuth();
+
+  const [tab, setTab] = useState<GroupTab>('mine');
+  const [groups, setGroups] = useState<PartyGroupWithDetails[]>([]);
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [inviteText, setInviteText] = useState('');
+  const [inviteError, setInviteError] = useState<string | null>(null);
+
+  const loadGroups = useCallback(async () => {
+    if (!user) return;
+
+    const [{ data, error }, unread] = await Promise.all([
+      venueId
+        ? getVenueGroups(venueId, user.id)
+        : tab === 'mine'
+          ? getUserGroups(user.id)
+          : getPublicGroups(user.id),
+      GroupChatService.getUnreadCounts(),
+    ]);
+
+    if (error) console.error('Error loading groups:', error);
+    if (unread.error) console.error('Error loading unread messages:', unread.error);
+    setGroups(data);
+    setUnreadCounts(unread.data);
+    setLoading(false);
+  }, [user, venueId, tab]);
+
+  // Reload when coming back from creating, editing or deleting a group
+  useFocusEffect(
+    useCallback(() => {
+      loadGroups();
+    }, [loadGroups])
+  );
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadGroups();
+    setRefreshing(false);
+  };
+
+  const handleTabChange = (next: GroupTab) => {
+    if (next === tab) return;
+    setLoading(true);
+    setTab(next);
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  };
+
+  const handleNewGroup = () => {
+    router.push(
+      venueId
+        ? { pathname: '/groups/new', params: { venueId, venueName } }
+        : '/groups/new'
+    );
+  };
+
+  const handleOpenInvite = () => {
+    const code = parseGroupInviteCode(inviteText);
+    if (!code) {
+      setInviteError('Paste an invite link or its 8 character code.');
+      return;
+    }
+
+    setInviteText('');
+    setInviteError(null);
+    router.push(getGroupInvitePath(code));
+  };
+
+  const styles = getStyles(colors);
+
+  const renderGroup = ({ item }: { item: PartyGroupWithDetails }) => {
+    const spotsLeft = getGroupSpotsLeft(item);
+    const unread = unreadCounts[item.id] ?? 0;
+
+    return (
+      <TouchableOpacity style={styles.groupCard} onPress={() => router.push(`/groups/${item.id}`)}>
+        <View style={styles.groupIcon}>
+          <Ionicons name="people" size={24} color={colors.background} />
+          {item.pending_count > 0 && (
+            <View style={styles.requestBadge} accessibilityLabel={`${item.pending_count} requests to join`}>
+              <Text style={styles.requestBadgeText}>{item.pending_count}</Text>
+            </View>
+          )}
+        </View>
+        <View style={styles.groupInfo}>
+          <Text style={styles.groupName} numberOfLines={1}>{item.name}</Text>
+          <Text style={styles.groupDetails} numberOfLines={1}>
+            {formatGroupTime(item)}
+            {item.venue && !venueId ? ` · ${item.venue.name}` : ''}
+          </Text>
+          <Text style={styles.groupDetails}>
+            {item.member_count} going · {spotsLeft > 0 ? `${spotsLeft} spots left` : 'Full'}
+          </Text>
+          {unread > 0 && (
+            <Text style={styles.unreadText}>
+              {unread} new {unread === 1 ? 'message' : 'messages'}
+            </Text>
+          )}
+        </View>
+        {item.is_member && <Ionicons name="checkmark-circle" size={20} color={colors.tint} />}
+        {item.has_requested && <Text style={styles.requestedText}>Requested</Text>}
+      </TouchableOpacity>
+    );
+  };
+
+  const emptyMessage = venueId
+    ? 'No groups are heading here yet. Start one and invite your friends.'
+    : tab === 'mine'
+      ? "You're not in any upcoming groups. Start one or join a public group."
+      : 'No public groups are planned yet. Be the first to start one.';
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: venueName ? `Groups at ${venueName}` : 'Party Groups',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={handleBack} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+          headerRight: () => (
+            <TouchableOpacity
+              onPress={handleNewGroup}
+              style={{ paddingHorizontal: 10 }}
+              accessibilityLabel="Start a group"
+            >
+              <Ionicons name="add" size={26} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      {!venueId && (
+        <View style={styles.tabs}>
+          {(['mine', 'public'] as GroupTab[]).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.tab, tab === option && styles.tabSelected]}
+              onPress={() => handleTabChange(option)}
+              accessibilityState={{ selected: tab === option }}
+            >
+              <Text style={[styles.tabText, tab === option && styles.tabTextSelected]}>
+                {option === 'mine' ? 'Your groups' : 'Public'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {!venueId && tab === 'mine' && (
+        <View style={styles.inviteRow}>
+          <TextInput
+            style={styles.inviteInput}
+            placeholder="Invite code or link"
+            placeholderTextColor={colors.muted}
+            value={inviteText}
+            onChangeText={(text) => {
+              setInviteText(text);
+              setInviteError(null);
+            }}
+            onSubmitEditing={handleOpenInvite}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            returnKeyType="go"
+          />
+          <TouchableOpacity
+            style={[styles.inviteButton, !inviteText.trim() && styles.inviteButtonDisabled]}
+            onPress={handleOpenInvite}
+            disabled={!inviteText.trim()}
+          >
+            <Text style={styles.actionButtonText}>Open</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {inviteError && <Text style={styles.inviteError}>{inviteError}</Text>}
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      ) : (
+        <FlatList
+          data={groups}
+          keyExtractor={(item) => item.id}
+          renderItem={renderGroup}
+          contentContainerStyle={styles.list}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />
+          }
+          ListEmptyComponent={
+            <View style={styles.centered}>
+              <Ionicons name="people-outline" size={48} color={colors.muted} />
+              <Text style={styles.messageText}>{emptyMessage}</Text>
+              <TouchableOpacity style={styles.actionButton} onPress={handleNewGroup}>
+                <Text style={styles.actionButtonText}>Start a group</Text>
+              </TouchableOpacity>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    tabs: {
+      flexDirection: 'row',
+      gap: 8,
+      paddingHorizontal: 20,
+      paddingTop: 16,
+    },
+    tab: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 16,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    tabSelected: {
+      backgroundColor: colors.tint,
+      borderColor: colors.tint,
+    },
+    tabText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    tabTextSelected: {
+      color: colors.background,
+    },
+    inviteRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingHorizontal: 20,
+      paddingTop: 12,
+    },
+    inviteInput: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 15,
+      color: colors.text,
+    },
+    inviteButton: {
+      paddingVertical: 10,
+      paddingHorizontal: 16,
+      borderRadius: 8,
+      backgroundColor: colors.tint,
+    },
+    inviteButtonDisabled: {
+      opacity: 0.6,
+    },
+    inviteError: {
+      color: colors.destructive,
+      fontSize: 13,
+      paddingHorizontal: 20,
+      marginTop: 6,
+    },
+    list: {
+      flexGrow: 1,
+      paddingVertical: 16,
+    },
+    groupCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      marginHorizontal: 20,
+      marginBottom: 12,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    groupIcon: {
+      width: 44,
+      height: 44,
+      borderRadius: 22,
+      backgroundColor: colors.tint,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    requestBadge: {
+      position: 'absolute',
+      top: -4,
+      right: -4,
+      minWidth: 20,
+      height: 20,
+      borderRadius: 10,
+      paddingHorizontal: 5,
+      backgroundColor: colors.destructive,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    requestBadgeText: {
+      color: '#FFFFFF',
+      fontSize: 11,
+      fontWeight: 'bold',
+    },
+    groupInfo: {
+      flex: 1,
+    },
+    unreadText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.tint,
+      marginTop: 2,
+    },
+    groupName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    groupDetails: {
+      fontSize: 14,
+      color: colors.muted,
+      marginTop: 2,
+    },
+    requestedText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.muted,
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      gap: 12,
+    },
+    messageText: {
+      fontSize: 16,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+    actionButton: {
+      marginTop: 8,
+      paddingVertical: 10,
+      paddingHorizontal: 20,
+      borderRadius: 10,
+      backgroundColor: colors.tint,
+    },
+    actionButtonText: {
+      color: colors.background,
+      fontWeight: '600',
+    },
+  });
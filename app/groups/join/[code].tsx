@@ -0,0 +1,204 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { getGroupInvite, joinGroupByInvite } from '@/src/actions/groups';
+import { formatGroupTime, getGroupSpotsLeft, parseGroupInviteCode } from '@/src/lib/groups';
+import { GroupInvite } from '@/src/lib/types';
+
+/**
+ * Invite to a party group, opened from a shared link to buzzvar://groups/join/<code> or
+ * https://buzzvar.app/groups/join/<code>, or a code typed in on the groups screen.
+ */
+export default function JoinGroupScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { code } = useLocalSearchParams<{ code: string }>();
+  const inviteCode = parseGroupInviteCode(code ?? '');
+
+  const [invite, setInvite] = useState<GroupInvite | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadInvite = useCallback(async () => {
+    if (!inviteCode) {
+      setError('This invite link is broken.');
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await getGroupInvite(inviteCode);
+    if (error || !data) {
+      console.error('Error loading group invite:', error);
+      setError('This invite link is no longer valid. Ask for a new one.');
+    } else {
+      setInvite(data);
+      setError(null);
+    }
+    setLoading(false);
+  }, [inviteCode]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadInvite();
+  }, [loadInvite]);
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/groups');
+    }
+  };
+
+  const handleJoin = async () => {
+    if (!inviteCode) return;
+
+    setJoining(true);
+    const { data: groupId, error } = await joinGroupByInvite(inviteCode);
+    setJoining(false);
+
+    if (error || !groupId) {
+      console.error('Error joining group:', error);
+      setError(error ?? "We couldn't add you to the group. Please try again.");
+      return;
+    }
+    router.replace(`/groups/${groupId}`);
+  };
+
+  const styles = getStyles(colors);
+
+  const renderContent = () => {
+    if (loading) {
+      return <ActivityIndicator size="large" color={colors.tint} />;
+    }
+
+    if (!invite) {
+      return (
+        <>
+          <Ionicons name="alert-circle-outline" size={48} color={colors.muted} />
+          <Text style={styles.messageText}>{error}</Text>
+          <TouchableOpacity style={styles.actionButton} onPress={() => router.replace('/groups')}>
+            <Text style={styles.actionButtonText}>Back to groups</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+
+    const full = getGroupSpotsLeft(invite) === 0;
+
+    return (
+      <>
+        <View style={styles.groupIcon}>
+          <Ionicons name="people" size={32} color={colors.background} />
+        </View>
+        <Text style={styles.messageText}>You&apos;re invited to</Text>
+        <Text style={styles.title}>{invite.name}</Text>
+        <Text style={styles.detailText}>
+          {formatGroupTime(invite)}
+          {invite.venue_name ? ` · ${invite.venue_name}` : ''}
+        </Text>
+        <Text style={styles.detailText}>
+          {invite.member_count} of {invite.max_size} going
+        </Text>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+        <TouchableOpacity
+          style={[styles.actionButton, (joining || full) && styles.buttonDisabled]}
+          onPress={handleJoin}
+          disabled={joining || full}
+        >
+          <Text style={styles.actionButtonText}>
+            {full ? 'Group is full' : joining ? 'Joining...' : 'Join group'}
+          </Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: 'Group Invite',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={handleBack} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+      <View style={styles.centered}>{renderContent()}</View>
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      gap: 12,
+    },
+    groupIcon: {
+      width: 64,
+      height: 64,
+      borderRadius: 32,
+      backgroundColor: colors.tint,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+      textAlign: 'center',
+    },
+    detailText: {
+      fontSize: 15,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+    messageText: {
+      fontSize: 16,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+    errorText: {
+      color: colors.destructive,
+      fontSize: 14,
+      textAlign: 'center',
+    },
+    actionButton: {
+      marginTop: 8,
+      paddingVertical: 10,
+      paddingHorizontal: 20,
+      borderRadius: 10,
+      backgroundColor: colors.tint,
+    },
+    actionButtonText: {
+      color: colors.background,
+      fontWeight: '600',
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+  });
@@ -0,0 +1,76 @@
+import React from 'react';
+import { StyleSheet, TouchableOpacity, useColorScheme } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import GroupForm from '@/components/GroupForm';
+import { createGroup } from '@/src/actions/groups';
+import { useAuth } from '@/src/lib/hooks';
+import { PartyGroupInput } from '@/src/lib/types';
+
+/**
+ * Start a party group, optionally going to the venue passed as venueId.
+ */
+export default function NewGroupScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { venueId, venueName } = useLocalSearchParams<{ venueId?: string; venueName?: string }>();
+  const { user } = useAuth();
+
+  const handleSubmit = async (input: PartyGroupInput) => {
+    if (!user) return 'Sign in to start a group.';
+
+    const { data, error } = await createGroup(user.id, input);
+    if (error || !data) {
+      console.error('Error creating group:', error);
+      return error ?? "We couldn't create your group. Please try again.";
+    }
+
+    // Replace so going back from the new group skips the form
+    router.replace(`/groups/${data.id}`);
+    return null;
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/groups');
+    }
+  };
+
+  const styles = getStyles(colors);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: 'New Group',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={handleBack} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+      <GroupForm
+        venueId={venueId}
+        venueName={venueName}
+        submitLabel="Start group"
+        onSubmit={handleSubmit}
+      />
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+  });
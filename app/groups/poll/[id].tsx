@@ -0,0 +1,630 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import BusynessIndicator from '@/components/BusynessIndicator';
+import { searchVenues, VenueSearchMatch } from '@/src/actions/clubs';
+import {
+  closeGroupPoll,
+  getGroupById,
+  getGroupPoll,
+  GroupPollChoice,
+  GroupPollDetails,
+  nominateVenue,
+  removeVote,
+  startGroupPoll,
+  voteForVenue,
+} from '@/src/actions/groups';
+import { useAuth, useDebounce, useLocation } from '@/src/lib/hooks';
+import { GROUP_POLL_CONFIG, VENUE_SEARCH_CONFIG } from '@/src/lib/constants';
+import { formatPollCloseTime, getGroupPollStatus, getPollCloseChoices } from '@/src/lib/groupPolls';
+import { BusynessRating, PartyGroupDetails } from '@/src/lib/types';
+
+const formatDistance = (km: number) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`);
+
+/**
+ * Where a party group is going, put to a vote. Organisers and admins start a vote with a close
+ * time, members nominate venues and vote, and the winner becomes the group's venue.
+ */
+export default function GroupPollScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const { location, loading: locationLoading } = useLocation();
+
+  const [group, setGroup] = useState<PartyGroupDetails | null>(null);
+  const [poll, setPoll] = useState<GroupPollDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<VenueSearchMatch[]>([]);
+  const [searching, setSearching] = useState(false);
+  const debouncedQuery = useDebounce(query, VENUE_SEARCH_CONFIG.debounceMs);
+  const searchIdRef = useRef(0);
+
+  const loadPoll = useCallback(async () => {
+    if (!user) return;
+
+    const { data: groupData, error: groupError } = await getGroupById(id, user.id);
+    if (groupError || !groupData || !groupData.is_member) {
+      if (groupError) console.error('Error loading group:', groupError);
+      setError('Only people in this group can see its venue vote.');
+      setLoading(false);
+      return;
+    }
+    setGroup(groupData);
+
+    const { data, error: pollError } = await getGroupPoll(id, user.id, location ?? undefined);
+    if (pollError) {
+      console.error('Error loading group poll:', pollError);
+      setError("We couldn't load the vote. Please try again.");
+    } else {
+      setPoll(data);
+      setError(null);
+    }
+    setLoading(false);
+  }, [id, user, location]);
+
+  useEffect(() => {
+    // Wait for the location so distances are filled in on the first load
+    if (locationLoading) return;
+    loadPoll();
+  }, [loadPoll, locationLoading]);
+
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+
+    if (!debouncedQuery.trim()) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    searchVenues(debouncedQuery, location ?? undefined, {}, { limit: 5 }).then((result) => {
+      if (searchId !== searchIdRef.current) return;
+
+      if (result.error) console.error('Error searching venues:', result.error);
+      setResults(result.data);
+      setSearching(false);
+    });
+  }, [debouncedQuery, location]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadPoll();
+    setRefreshing(false);
+  };
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(`/groups/${id}`);
+    }
+  };
+
+  // Run a change to the poll, then reload it
+  const runAction = async (action: () => Promise<{ error: string | null }>, fallbackMessage: string) => {
+    setBusy(true);
+    const { error } = await action();
+    if (error) {
+      console.error('Error updating group poll:', error);
+      Alert.alert('Error', error || fallbackMessage);
+    }
+    await loadPoll();
+    setBusy(false);
+    return !error;
+  };
+
+  const handleStart = (closesAt: Date) => {
+    if (!user) return;
+    runAction(() => startGroupPoll(id, user.id, closesAt), "We couldn't start the vote. Please try again.");
+  };
+
+  const handleVote = (choice: GroupPollChoice) => {
+    if (!user || !poll) return;
+    runAction(
+      () => (choice.has_voted ? removeVote(poll.id, user.id) : voteForVenue(poll.id, choice.id, user.id)),
+      "We couldn't save your vote. Please try again."
+    );
+  };
+
+  const handleNominate = async (venue: VenueSearchMatch) => {
+    if (!user || !poll) return;
+
+    const added = await runAction(
+      () => nominateVenue(poll.id, venue.id, user.id),
+      "We couldn't add that venue. Please try again."
+    );
+    if (added) setQuery('');
+  };
+
+  const handleClose = () => {
+    if (!poll) return;
+
+    Alert.alert(
+      'Close the vote?',
+      'The venue with the most votes becomes the group\'s venue.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Close vote',
+          onPress: () =>
+            runAction(() => closeGroupPoll(poll.id), "We couldn't close the vote. Please try again."),
+        },
+      ]
+    );
+  };
+
+  const styles = getStyles(colors);
+
+  const renderChoice = (choice: GroupPollChoice, isOpen: boolean) => {
+    const venue = choice.venue;
+    const isWinner = !isOpen && poll?.winner_venue_id === choice.venue_id;
+    const share = poll && poll.total_votes > 0 ? choice.vote_count / poll.total_votes : 0;
+
+    return (
+      <View key={choice.id} style={[styles.choiceCard, (choice.has_voted || isWinner) && styles.choiceCardHighlighted]}>
+        <View style={styles.choiceHeader}>
+          <TouchableOpacity
+            style={styles.choiceTitle}
+            onPress={() => router.push(`/venue/${choice.venue_id}`)}
+            disabled={!venue}
+          >
+            {isWinner && <Ionicons name="trophy" size={16} color={colors.tint} />}
+            <Text style={styles.venueName} numberOfLines={1}>{venue?.name ?? 'Venue unavailable'}</Text>
+          </TouchableOpacity>
+          <Text style={styles.voteCount}>
+            {choice.vote_count} {choice.vote_count === 1 ? 'vote' : 'votes'}
+          </Text>
+        </View>
+
+        {venue && (
+          <View style={styles.venueDetails}>
+            {venue.busyness_estimate.busyness !== null ? (
+              <View style={styles.detailItem}>
+                <BusynessIndicator
+                  rating={Math.round(venue.busyness_estimate.busyness) as BusynessRating}
+                  size="small"
+                  showLabel
+                  confidence={venue.busyness_estimate.confidence_level}
+                />
+                {venue.has_live_activity && <Text style={styles.liveText}>LIVE</Text>}
+              </View>
+            ) : (
+              <Text style={styles.mutedText}>No recent reports</Text>
+            )}
+            {venue.distance !== undefined && (
+              <View style={styles.detailItem}>
+                <Ionicons name="navigate-outline" size={14} color={colors.muted} />
+                <Text style={styles.mutedText}>{formatDistance(venue.distance)}</Text>
+              </View>
+            )}
+          </View>
+        )}
+
+        {venue && venue.promotions.length > 0 && (
+          <View style={styles.detailItem}>
+            <Ionicons name="pricetag-outline" size={14} color={colors.tint} />
+            <Text style={styles.promotionText} numberOfLines={1}>
+              {venue.promotions[0].title}
+              {venue.promotions.length > 1 ? ` +${venue.promotions.length - 1} more` : ''}
+            </Text>
+          </View>
+        )}
+
+        <View style={styles.voteBar}>
+          <View style={[styles.voteBarFill, { width: `${Math.round(share * 100)}%` }]} />
+        </View>
+
+        {isOpen && (
+          <TouchableOpacity
+            style={[styles.voteButton, choice.has_voted && styles.voteButtonActive]}
+            onPress={() => handleVote(choice)}
+            disabled={busy}
+          >
+            <Text style={[styles.voteButtonText, choice.has_voted && styles.voteButtonTextActive]}>
+              {choice.has_voted ? 'Your vote · Tap to take back' : 'Vote'}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  const renderStart = (currentGroup: PartyGroupDetails) => {
+    if (!currentGroup.is_admin) {
+      return (
+        <Text style={styles.noticeText}>
+          The organiser or an admin can start a vote on where to go.
+        </Text>
+      );
+    }
+
+    const choices = getPollCloseChoices(currentGroup);
+    if (choices.length === 0) {
+      return <Text style={styles.noticeText}>The group meets too soon to vote on where to go.</Text>;
+    }
+
+    return (
+      <>
+        <Text style={styles.sectionTitle}>Start a vote on where to go</Text>
+        <Text style={styles.mutedText}>Everyone can suggest venues and vote until it closes.</Text>
+        <View style={styles.closeChoices}>
+          {choices.map((choice) => (
+            <TouchableOpacity
+              key={choice.label}
+              style={styles.closeChoice}
+              onPress={() => handleStart(choice.closesAt)}
+              disabled={busy}
+            >
+              <Text style={styles.closeChoiceText}>{choice.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </>
+    );
+  };
+
+  const renderNominate = (currentPoll: GroupPollDetails) => {
+    if (currentPoll.options.length >= GROUP_POLL_CONFIG.maxOptions) {
+      return (
+        <Text style={styles.noticeText}>
+          This vote has {GROUP_POLL_CONFIG.maxOptions} venues, the most it can take.
+        </Text>
+      );
+    }
+
+    const nominatedIds = new Set(currentPoll.options.map((option) => option.venue_id));
+
+    return (
+      <>
+        <Text style={styles.sectionTitle}>Suggest a venue</Text>
+        <View style={styles.searchBox}>
+          <Ionicons name="search" size={18} color={colors.muted} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder="Search venues"
+            placeholderTextColor={colors.muted}
+            value={query}
+            onChangeText={setQuery}
+            autoCorrect={false}
+          />
+          {searching && <ActivityIndicator size="small" color={colors.tint} />}
+        </View>
+        {results.map((venue) => {
+          const nominated = nominatedIds.has(venue.id);
+          return (
+            <View key={venue.id} style={styles.resultRow}>
+              <View style={styles.resultInfo}>
+                <Text style={styles.resultName} numberOfLines={1}>{venue.name}</Text>
+                {venue.address && <Text style={styles.mutedText} numberOfLines={1}>{venue.address}</Text>}
+              </View>
+              <TouchableOpacity
+                style={[styles.addButton, nominated && styles.buttonDisabled]}
+                onPress={() => handleNominate(venue)}
+                disabled={busy || nominated}
+              >
+                <Text style={styles.addButtonText}>{nominated ? 'Added' : 'Add'}</Text>
+              </TouchableOpacity>
+            </View>
+          );
+        })}
+      </>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      );
+    }
+
+    if (error || !group) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="stats-chart-outline" size={48} color={colors.muted} />
+          <Text style={styles.messageText}>{error}</Text>
+        </View>
+      );
+    }
+
+    const isOpen = !!poll && getGroupPollStatus(poll) === 'open';
+    const winner = poll && !isOpen ? poll.options.find((option) => option.venue_id === poll.winner_venue_id) : null;
+
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        keyboardShouldPersistTaps="handled"
+        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={colors.tint} />}
+      >
+        <Text style={styles.title}>Where are we going?</Text>
+
+        {poll && (
+          <View style={styles.pollStatus}>
+            <Ionicons name={isOpen ? 'time-outline' : 'checkmark-circle-outline'} size={18} color={colors.tint} />
+            <Text style={styles.statusText}>
+              {isOpen
+                ? formatPollCloseTime(poll.closes_at)
+                : winner
+                  ? `${winner.venue?.name ?? 'The winner'} won with ${winner.vote_count} of ${poll.total_votes} ${poll.total_votes === 1 ? 'vote' : 'votes'}`
+                  : 'The last vote closed without any votes'}
+            </Text>
+          </View>
+        )}
+
+        {poll && poll.options.length > 0 && poll.options.map((choice) => renderChoice(choice, isOpen))}
+        {poll && isOpen && poll.options.length === 0 && (
+          <Text style={styles.noticeText}>No venues yet. Suggest the first one below.</Text>
+        )}
+
+        {poll && isOpen ? renderNominate(poll) : renderStart(group)}
+
+        {poll && isOpen && group.is_admin && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={handleClose} disabled={busy}>
+            <Ionicons name="flag-outline" size={18} color={colors.tint} />
+            <Text style={styles.secondaryButtonText}>Close vote now</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: group?.name ?? 'Venue Vote',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={handleBack} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    title: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    pollStatus: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 16,
+    },
+    statusText: {
+      flex: 1,
+      fontSize: 15,
+      color: colors.text,
+    },
+    choiceCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 14,
+      marginBottom: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      gap: 8,
+    },
+    choiceCardHighlighted: {
+      borderColor: colors.tint,
+    },
+    choiceHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: 12,
+    },
+    choiceTitle: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    venueName: {
+      flexShrink: 1,
+      fontSize: 17,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    voteCount: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.tint,
+    },
+    venueDetails: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      flexWrap: 'wrap',
+      gap: 16,
+    },
+    detailItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+    },
+    liveText: {
+      fontSize: 11,
+      fontWeight: 'bold',
+      color: colors.destructive,
+    },
+    mutedText: {
+      fontSize: 14,
+      color: colors.muted,
+    },
+    promotionText: {
+      flexShrink: 1,
+      fontSize: 14,
+      color: colors.text,
+    },
+    voteBar: {
+      height: 6,
+      borderRadius: 3,
+      backgroundColor: colors.border,
+      overflow: 'hidden',
+    },
+    voteBarFill: {
+      height: '100%',
+      backgroundColor: colors.tint,
+    },
+    voteButton: {
+      alignItems: 'center',
+      padding: 10,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.tint,
+    },
+    voteButtonActive: {
+      backgroundColor: colors.tint,
+    },
+    voteButtonText: {
+      color: colors.tint,
+      fontSize: 15,
+      fontWeight: '600',
+    },
+    voteButtonTextActive: {
+      color: colors.background,
+    },
+    sectionTitle: {
+      fontSize: 18,
+      fontWeight: 'bold',
+      color: colors.text,
+      marginTop: 20,
+      marginBottom: 8,
+    },
+    closeChoices: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginTop: 12,
+    },
+    closeChoice: {
+      paddingVertical: 10,
+      paddingHorizontal: 14,
+      borderRadius: 20,
+      backgroundColor: colors.tint,
+    },
+    closeChoiceText: {
+      color: colors.background,
+      fontWeight: '600',
+    },
+    searchBox: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      backgroundColor: colors.surface,
+      borderRadius: 10,
+      paddingHorizontal: 12,
+      marginBottom: 8,
+    },
+    searchInput: {
+      flex: 1,
+      paddingVertical: 10,
+      fontSize: 16,
+      color: colors.text,
+    },
+    resultRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    resultInfo: {
+      flex: 1,
+    },
+    resultName: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    addButton: {
+      paddingVertical: 8,
+      paddingHorizontal: 16,
+      borderRadius: 8,
+      backgroundColor: colors.tint,
+    },
+    addButtonText: {
+      color: colors.background,
+      fontWeight: '600',
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    noticeText: {
+      fontSize: 15,
+      color: colors.muted,
+      textAlign: 'center',
+      marginTop: 20,
+    },
+    secondaryButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      marginTop: 24,
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.tint,
+    },
+    secondaryButtonText: {
+      color: colors.tint,
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      gap: 12,
+    },
+    messageText: {
+      fontSize: 16,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+  });
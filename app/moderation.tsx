@@ -0,0 +1,294 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, useColorScheme, FlatList, TouchableOpacity, ActivityIndicator, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import VibeCheckCard from '@/components/VibeCheckCard';
+import { ReportedVibeCheck, VIBE_CHECK_REPORT_REASON_LABELS, VibeCheckReportReason } from '@/src/lib/types';
+import { ModerationAction, ModerationService } from '@/src/services/ModerationService';
+
+/**
+ * Summarise open reports by reason, e.g. "Spam ×2 · Offensive"
+ */
+const summariseReasons = (reports: ReportedVibeCheck['reports']) => {
+  const counts = reports.reduce((acc, report) => {
+    acc[report.reason] = (acc[report.reason] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<VibeCheckReportReason, number>>);
+
+  return (Object.keys(counts) as VibeCheckReportReason[])
+    .map((reason) => {
+      const count = counts[reason] || 0;
+      const label = VIBE_CHECK_REPORT_REASON_LABELS[reason];
+      return count > 1 ? `${label} ×${count}` : label;
+    })
+    .join(' · ');
+};
+
+export default function ModerationScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  const [isModerator, setIsModerator] = useState<boolean | null>(null);
+  const [queue, setQueue] = useState<ReportedVibeCheck[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    const allowed = await ModerationService.isModerator();
+    setIsModerator(allowed);
+
+    if (allowed) {
+      const { data, error } = await ModerationService.getModerationQueue();
+      setQueue(data);
+      setError(error);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const removeFromQueue = (vibeCheckId: string) => {
+    setQueue((current) => current.filter((item) => item.id !== vibeCheckId));
+  };
+
+  const handleReview = (item: ReportedVibeCheck, action: ModerationAction) => {
+    const title = action === 'restore' ? 'Restore Vibe Check' : 'Hide Vibe Check';
+    const message =
+      action === 'restore'
+        ? 'Dismiss the reports and show this vibe check in feeds again?'
+        : 'Keep this vibe check hidden from feeds?';
+
+    Alert.alert(title, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: action === 'restore' ? 'Restore' : 'Hide',
+        onPress: async () => {
+          setPendingId(item.id);
+          const { success, error } = await ModerationService.reviewVibeCheck(item, action);
+          setPendingId(null);
+          if (!success) {
+            Alert.alert('Error', error || 'Failed to review vibe check. Please try again.');
+            return;
+          }
+          removeFromQueue(item.id);
+        },
+      },
+    ]);
+  };
+
+  const handleDelete = (item: ReportedVibeCheck) => {
+    Alert.alert('Delete Vibe Check', 'This permanently deletes the vibe check and its photo.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setPendingId(item.id);
+          const { success, error } = await ModerationService.deleteVibeCheck(item.id);
+          setPendingId(null);
+          if (!success) {
+            Alert.alert('Error', error || 'Failed to delete vibe check. Please try again.');
+            return;
+          }
+          removeFromQueue(item.id);
+        },
+      },
+    ]);
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    centered: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: 20,
+    },
+    messageText: {
+      fontSize: 16,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+    list: {
+      paddingVertical: 12,
+    },
+    item: {
+      marginBottom: 20,
+    },
+    reportInfo: {
+      marginHorizontal: 16,
+      marginTop: 4,
+    },
+    reportHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 6,
+    },
+    reasons: {
+      flex: 1,
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    hiddenBadge: {
+      backgroundColor: colors.border,
+      borderRadius: 10,
+      paddingHorizontal: 8,
+      paddingVertical: 2,
+    },
+    hiddenBadgeText: {
+      fontSize: 12,
+      color: colors.muted,
+    },
+    details: {
+      fontSize: 14,
+      color: colors.muted,
+      marginBottom: 4,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 10,
+      marginTop: 8,
+    },
+    actionButton: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      paddingVertical: 10,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    actionText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    deleteText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.destructive,
+    },
+  });
+
+  const renderItem = ({ item }: { item: ReportedVibeCheck }) => {
+    const isPending = pendingId === item.id;
+    const reportDetails = item.reports.filter((report) => report.details);
+
+    return (
+      <View style={styles.item}>
+        <VibeCheckCard vibeCheck={item} showVenue />
+        <View style={styles.reportInfo}>
+          <View style={styles.reportHeader}>
+            <Text style={styles.reasons}>{summariseReasons(item.reports)}</Text>
+            {item.hidden_at && (
+              <View style={styles.hiddenBadge}>
+                <Text style={styles.hiddenBadgeText}>Hidden</Text>
+              </View>
+            )}
+          </View>
+          {reportDetails.map((report) => (
+            <Text key={report.id} style={styles.details}>
+              “{report.details}”
+            </Text>
+          ))}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleReview(item, 'restore')}
+              disabled={isPending}
+            >
+              <Ionicons name="eye-outline" size={16} color={colors.text} />
+              <Text style={styles.actionText}>Restore</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleReview(item, 'hide')}
+              disabled={isPending}
+            >
+              <Ionicons name="eye-off-outline" size={16} color={colors.text} />
+              <Text style={styles.actionText}>Hide</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => handleDelete(item)}
+              disabled={isPending}
+            >
+              <Ionicons name="trash-outline" size={16} color={colors.destructive} />
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      );
+    }
+
+    if (!isModerator) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.messageText}>Only moderators can review reported vibe checks.</Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.messageText}>{error}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={queue}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={queue.length === 0 ? styles.centered : styles.list}
+        ListEmptyComponent={<Text style={styles.messageText}>No reported vibe checks right now.</Text>}
+        onRefresh={loadQueue}
+        refreshing={loading}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: 'Moderation',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
@@ -0,0 +1,351 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { BottomSheetModal } from '@gorhom/bottom-sheet';
+import { Colors } from '@/constants/Colors';
+import BusynessIndicator from '@/components/BusynessIndicator';
+import OpenStatusBadge from '@/components/OpenStatusBadge';
+import VenueDetailsSheet from '@/components/VenueDetailsSheet';
+import VenueSearchFilterBar from '@/components/VenueSearchFilterBar';
+import { searchVenues, VenueSearchMatch } from '@/src/actions/clubs';
+import { useDebounce, useLocation } from '@/src/lib/hooks';
+import { VENUE_SEARCH_CONFIG } from '@/src/lib/constants';
+import { BusynessRating, VenueSearchFilters } from '@/src/lib/types';
+import { hasSearchCriteria } from '@/src/lib/venueSearch';
+
+const formatDistance = (km: number) => (km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`);
+
+export default function SearchScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const styles = useMemo(() => getStyles(colors), [colors]);
+  const { location } = useLocation();
+
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<VenueSearchFilters>({});
+  const debouncedQuery = useDebounce(query, VENUE_SEARCH_CONFIG.debounceMs);
+
+  const [results, setResults] = useState<VenueSearchMatch[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Responses to searches that have since changed are dropped
+  const searchIdRef = useRef(0);
+
+  // Bottom Sheet state
+  const [selectedVenue, setSelectedVenue] = useState<VenueSearchMatch | null>(null);
+  const bottomSheetModalRef = useRef<BottomSheetModal>(null);
+  const snapPoints = useMemo(() => ['75%', '90%'], []);
+
+  const canSearch = hasSearchCriteria(debouncedQuery, filters);
+
+  useEffect(() => {
+    const searchId = ++searchIdRef.current;
+
+    if (!canSearch) {
+      setResults([]);
+      setNextOffset(null);
+      setError(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    searchVenues(debouncedQuery, location ?? undefined, filters).then((result) => {
+      if (searchId !== searchIdRef.current) return;
+
+      if (result.error) {
+        console.error('Error searching venues:', result.error);
+        setError('Search failed. Please try again.');
+        setResults([]);
+        setNextOffset(null);
+      } else {
+        setError(null);
+        setResults(result.data);
+        setNextOffset(result.nextOffset);
+      }
+      setLoading(false);
+    });
+  }, [canSearch, debouncedQuery, filters, location]);
+
+  const loadMore = useCallback(async () => {
+    if (nextOffset === null || loading || loadingMore) return;
+
+    const searchId = searchIdRef.current;
+    setLoadingMore(true);
+
+    const result = await searchVenues(debouncedQuery, location ?? undefined, filters, {
+      offset: nextOffset,
+    });
+
+    if (searchId === searchIdRef.current) {
+      if (result.error) {
+        console.error('Error loading more search results:', result.error);
+      } else {
+        setResults((prev) => [...prev, ...result.data]);
+        setNextOffset(result.nextOffset);
+      }
+    }
+    setLoadingMore(false);
+  }, [debouncedQuery, filters, loading, loadingMore, location, nextOffset]);
+
+  const handleVenuePress = (venue: VenueSearchMatch) => {
+    setSelectedVenue(venue);
+    bottomSheetModalRef.current?.present();
+  };
+
+  // Nothing to refresh in place, the next search fetches fresh stats
+  const handleSelectedVenueNeedsRefresh = useCallback(() => {}, []);
+
+  const renderItem = ({ item }: { item: VenueSearchMatch }) => {
+    const busyness = item.has_live_activity ? item.busyness_estimate?.busyness : null;
+
+    return (
+      <TouchableOpacity style={styles.resultCard} onPress={() => handleVenuePress(item)}>
+        <View style={styles.resultHeader}>
+          <Text style={styles.resultName} numberOfLines={1}>
+            {item.name}
+          </Text>
+          {item.distance !== undefined && (
+            <Text style={styles.resultMeta}>{formatDistance(item.distance)}</Text>
+          )}
+        </View>
+        {item.address && (
+          <Text style={styles.resultAddress} numberOfLines={1}>
+            {item.address}
+          </Text>
+        )}
+        <View style={styles.resultDetails}>
+          <OpenStatusBadge hours={item.hours} size="small" />
+          {item.review_count > 0 && (
+            <View style={styles.rating}>
+              <Ionicons name="star" size={12} color={colors.tint} />
+              <Text style={styles.resultMeta}>
+                {item.average_rating.toFixed(1)} ({item.review_count})
+              </Text>
+            </View>
+          )}
+          {busyness !== null && busyness !== undefined && (
+            <BusynessIndicator
+              rating={Math.round(busyness) as BusynessRating}
+              size="small"
+              confidence={item.busyness_estimate?.confidence_level}
+            />
+          )}
+          {item.has_promotion && (
+            <View style={styles.promotion}>
+              <Ionicons name="pricetag" size={11} color={colors.background} />
+              <Text style={styles.promotionText}>Deal</Text>
+            </View>
+          )}
+        </View>
+        {item.tags.length > 0 && (
+          <Text style={styles.tags} numberOfLines={1}>
+            {item.tags.join(' · ')}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.emptyState} color={colors.tint} />;
+    }
+    if (error) {
+      return <Text style={[styles.emptyState, styles.emptyText]}>{error}</Text>;
+    }
+    return (
+      <Text style={[styles.emptyState, styles.emptyText]}>
+        {canSearch
+          ? 'No venues match your search'
+          : 'Search by name, area or vibe, like "rooftop" or "live music"'}
+      </Text>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: 'Search',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={() => router.back()} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
+
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color={colors.muted} />
+        <TextInput
+          style={styles.searchInput}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Venues, tags or areas"
+          placeholderTextColor={colors.muted}
+          autoFocus
+          autoCorrect={false}
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+        {loading && <ActivityIndicator size="small" color={colors.tint} />}
+      </View>
+
+      <View style={styles.filters}>
+        <VenueSearchFilterBar filters={filters} onChange={setFilters} hasLocation={Boolean(location)} />
+      </View>
+
+      <FlatList
+        data={results}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        keyboardShouldPersistTaps="handled"
+        ListEmptyComponent={renderEmpty}
+        onEndReached={loadMore}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator style={styles.footer} color={colors.tint} /> : null
+        }
+      />
+
+      <BottomSheetModal
+        ref={bottomSheetModalRef}
+        index={0}
+        snapPoints={snapPoints}
+        backgroundStyle={{
+          backgroundColor: colors.surface,
+          borderTopLeftRadius: 24,
+          borderTopRightRadius: 24,
+        }}
+        handleIndicatorStyle={{ backgroundColor: colors.muted }}
+      >
+        {selectedVenue && (
+          <VenueDetailsSheet
+            venue={selectedVenue}
+            onDataNeedsRefresh={handleSelectedVenueNeedsRefresh}
+          />
+        )}
+      </BottomSheetModal>
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    searchBar: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginHorizontal: 16,
+      marginTop: 12,
+      paddingHorizontal: 12,
+      borderRadius: 12,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    searchInput: {
+      flex: 1,
+      paddingVertical: 10,
+      fontSize: 16,
+      color: colors.text,
+    },
+    filters: {
+      marginVertical: 12,
+    },
+    list: {
+      paddingHorizontal: 16,
+      paddingBottom: 40,
+      gap: 12,
+    },
+    resultCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 14,
+      gap: 6,
+    },
+    resultHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      gap: 8,
+    },
+    resultName: {
+      flex: 1,
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    resultAddress: {
+      fontSize: 13,
+      color: colors.muted,
+    },
+    resultMeta: {
+      fontSize: 12,
+      color: colors.muted,
+    },
+    resultDetails: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      alignItems: 'center',
+      gap: 10,
+    },
+    rating: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 3,
+    },
+    promotion: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 3,
+      backgroundColor: colors.tint,
+      borderRadius: 8,
+      paddingHorizontal: 6,
+      paddingVertical: 2,
+    },
+    promotionText: {
+      fontSize: 11,
+      fontWeight: '600',
+      color: colors.background,
+    },
+    tags: {
+      fontSize: 12,
+      color: colors.muted,
+    },
+    emptyState: {
+      marginTop: 48,
+    },
+    emptyText: {
+      textAlign: 'center',
+      color: colors.muted,
+      fontSize: 14,
+      paddingHorizontal: 24,
+    },
+    footer: {
+      paddingVertical: 16,
+    },
+  });
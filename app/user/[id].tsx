@@ -0,0 +1,397 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Image,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  useColorScheme,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { getUserProfile } from '@/src/actions/auth';
+import { FollowService } from '@/src/services/FollowService';
+import { useAuth } from '@/src/lib/hooks';
+import { FollowCounts, FollowRelationship, User } from '@/src/lib/types';
+
+/**
+ * Someone else's profile, with their follower counts and a button to follow them. Shows their
+ * request to follow the current user, if they sent one.
+ */
+export default function UserProfileScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+
+  const [profile, setProfile] = useState<User | null>(null);
+  const [counts, setCounts] = useState<FollowCounts | null>(null);
+  const [relationship, setRelationship] = useState<FollowRelationship>({ outgoing: 'none', incoming: 'none' });
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+
+  const loadCounts = useCallback(async () => {
+    if (!id) return;
+
+    const { data, error } = await FollowService.getCounts(id);
+    if (error) {
+      console.error('Error loading follow counts:', error);
+    } else {
+      setCounts(data);
+    }
+  }, [id]);
+
+  const loadProfile = useCallback(async () => {
+    if (!id || !user) return;
+
+    const [profileResult, relationshipResult] = await Promise.all([
+      getUserProfile(id),
+      FollowService.getRelationship(user.id, id),
+      loadCounts(),
+    ]);
+
+    if (profileResult.error) console.error('Error loading profile:', profileResult.error);
+    if (relationshipResult.error) console.error('Error loading follows:', relationshipResult.error);
+    setProfile(profileResult.data);
+    setRelationship(relationshipResult.data);
+    setLoading(false);
+  }, [id, user, loadCounts]);
+
+  useEffect(() => {
+    // The current user's own profile is the profile tab
+    if (id && user && id === user.id) {
+      router.replace('/(tabs)/profile');
+      return;
+    }
+    loadProfile();
+  }, [id, user, loadProfile]);
+
+  const handleBack = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  };
+
+  const runUpdate = async (
+    update: () => Promise<{ success: boolean; error: string | null }>,
+    next: Partial<FollowRelationship>
+  ) => {
+    setUpdating(true);
+    const { success, error } = await update();
+    setUpdating(false);
+
+    if (!success) {
+      Alert.alert('Error', error || 'Something went wrong. Please try again.');
+      loadProfile();
+      return;
+    }
+    setRelationship((prev) => ({ ...prev, ...next }));
+    loadCounts();
+  };
+
+  const name = profile?.name || 'Anonymous';
+
+  const handleFollowPress = () => {
+    if (!user || !id) return;
+
+    if (relationship.outgoing === 'none') {
+      runUpdate(() => FollowService.requestFollow(user.id, id), { outgoing: 'requested' });
+      return;
+    }
+
+    const requested = relationship.outgoing === 'requested';
+    Alert.alert(
+      requested ? 'Cancel Request' : 'Unfollow',
+      requested ? `Cancel your request to follow ${name}?` : `Stop following ${name}?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: requested ? 'Cancel Request' : 'Unfollow',
+          style: 'destructive',
+          onPress: () => runUpdate(() => FollowService.unfollow(user.id, id), { outgoing: 'none' }),
+        },
+      ]
+    );
+  };
+
+  const handleAccept = () => {
+    if (!user || !id) return;
+    runUpdate(() => FollowService.acceptRequest(user.id, id), { incoming: 'following' });
+  };
+
+  const handleDecline = () => {
+    if (!user || !id) return;
+    runUpdate(() => FollowService.removeFollower(user.id, id), { incoming: 'none' });
+  };
+
+  const styles = getStyles(colors);
+
+  const header = (
+    <Stack.Screen
+      options={{
+        headerShown: true,
+        headerTitle: profile?.name || 'Profile',
+        headerStyle: { backgroundColor: colors.surface },
+        headerTintColor: colors.text,
+        headerLeft: () => (
+          <TouchableOpacity onPress={handleBack} style={{ paddingHorizontal: 10 }}>
+            <Ionicons name="chevron-back" size={24} color={colors.text} />
+          </TouchableOpacity>
+        ),
+      }}
+    />
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        {header}
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <SafeAreaView style={styles.container} edges={['bottom']}>
+        {header}
+        <View style={styles.centered}>
+          <Ionicons name="person-outline" size={48} color={colors.muted} />
+          <Text style={styles.messageText}>This profile isn&apos;t available.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const followLabel =
+    relationship.outgoing === 'following'
+      ? 'Following'
+      : relationship.outgoing === 'requested'
+        ? 'Requested'
+        : relationship.incoming === 'following'
+          ? 'Follow back'
+          : 'Follow';
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      {header}
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.hero}>
+          {profile.avatar_url ? (
+            <Image source={{ uri: profile.avatar_url }} style={styles.avatar} />
+          ) : (
+            <View style={[styles.avatar, styles.avatarPlaceholder]}>
+              <Text style={styles.avatarText}>{profile.name?.charAt(0)?.toUpperCase() || '?'}</Text>
+            </View>
+          )}
+          <Text style={styles.name}>{name}</Text>
+          {profile.university && <Text style={styles.university}>🎓 {profile.university}</Text>}
+          {relationship.incoming === 'following' && <Text style={styles.followsYou}>Follows you</Text>}
+
+          {counts && (
+            <View style={styles.stats}>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>{counts.followers}</Text>
+                <Text style={styles.statLabel}>{counts.followers === 1 ? 'Follower' : 'Followers'}</Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>{counts.following}</Text>
+                <Text style={styles.statLabel}>Following</Text>
+              </View>
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.followButton,
+              relationship.outgoing === 'none' ? styles.primaryButton : styles.secondaryButton,
+              updating && styles.buttonDisabled,
+            ]}
+            onPress={handleFollowPress}
+            disabled={updating}
+          >
+            <Text
+              style={relationship.outgoing === 'none' ? styles.primaryButtonText : styles.secondaryButtonText}
+            >
+              {followLabel}
+            </Text>
+          </TouchableOpacity>
+          {relationship.outgoing === 'requested' && (
+            <Text style={styles.hint}>
+              {name} will see your vibe checks, reviews and plans in their Friends feed once they accept.
+            </Text>
+          )}
+        </View>
+
+        {relationship.incoming === 'requested' && (
+          <View style={styles.requestCard}>
+            <Text style={styles.requestText}>{name} wants to follow you</Text>
+            <View style={styles.requestActions}>
+              <TouchableOpacity
+                style={[styles.requestButton, styles.primaryButton, updating && styles.buttonDisabled]}
+                onPress={handleAccept}
+                disabled={updating}
+              >
+                <Text style={styles.primaryButtonText}>Accept</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.requestButton, styles.secondaryButton, updating && styles.buttonDisabled]}
+                onPress={handleDecline}
+                disabled={updating}
+              >
+                <Text style={styles.secondaryButtonText}>Decline</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      paddingBottom: 40,
+    },
+    hero: {
+      padding: 24,
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    avatar: {
+      width: 96,
+      height: 96,
+      borderRadius: 48,
+      marginBottom: 16,
+    },
+    avatarPlaceholder: {
+      backgroundColor: colors.tint,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    avatarText: {
+      fontSize: 40,
+      fontWeight: 'bold',
+      color: colors.background,
+    },
+    name: {
+      fontSize: 24,
+      fontWeight: 'bold',
+      color: colors.text,
+      textAlign: 'center',
+    },
+    university: {
+      fontSize: 16,
+      color: colors.tint,
+      fontWeight: '600',
+      marginTop: 4,
+    },
+    followsYou: {
+      fontSize: 13,
+      color: colors.muted,
+      marginTop: 6,
+    },
+    stats: {
+      flexDirection: 'row',
+      gap: 32,
+      marginTop: 16,
+    },
+    stat: {
+      alignItems: 'center',
+    },
+    statValue: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    statLabel: {
+      fontSize: 13,
+      color: colors.muted,
+      marginTop: 2,
+    },
+    followButton: {
+      marginTop: 20,
+      minWidth: 160,
+      alignItems: 'center',
+      paddingVertical: 10,
+      paddingHorizontal: 24,
+      borderRadius: 10,
+    },
+    primaryButton: {
+      backgroundColor: colors.tint,
+    },
+    primaryButtonText: {
+      color: colors.background,
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    secondaryButton: {
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    secondaryButtonText: {
+      color: colors.text,
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    hint: {
+      fontSize: 13,
+      color: colors.muted,
+      textAlign: 'center',
+      marginTop: 10,
+    },
+    requestCard: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      marginHorizontal: 20,
+      marginTop: 20,
+      gap: 12,
+    },
+    requestText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    requestActions: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    requestButton: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderRadius: 10,
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      gap: 12,
+    },
+    messageText: {
+      fontSize: 16,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+  });
@@ -0,0 +1,172 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, useColorScheme, TouchableOpacity, ActivityIndicator, Share } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import VenueDetailsSheet from '@/components/VenueDetailsSheet';
+import { getVenueById, recordClubView, VenueDetails } from '@/src/actions/clubs';
+import { useAuth } from '@/src/lib/hooks';
+import { getVenueWebLink, isVenueId } from '@/src/lib/venueLinks';
+
+/**
+ * Full screen for a venue, opened from the live feed or a link to buzzvar://venue/<id>
+ * or https://buzzvar.app/venue/<id>.
+ */
+export default function VenueScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+
+  const [venue, setVenue] = useState<VenueDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVenue = useCallback(async () => {
+    if (!isVenueId(id)) {
+      setError('This venue link is broken.');
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await getVenueById(id, user?.id);
+    if (error || !data) {
+      console.error('Error loading venue:', error);
+      setError("We couldn't find this venue. It may have been removed.");
+    } else {
+      setVenue(data);
+      setError(null);
+    }
+    setLoading(false);
+  }, [id, user?.id]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadVenue();
+  }, [loadVenue]);
+
+  const handleBack = () => {
+    // Opened from a link there may be nothing to go back to
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)');
+    }
+  };
+
+  const handleShare = async () => {
+    if (!venue) return;
+
+    const link = getVenueWebLink(venue.id);
+    try {
+      const result = await Share.share({ message: `${venue.name} on Buzzvar: ${link}`, url: link });
+      if (user && result.action === Share.sharedAction) {
+        recordClubView(venue.id, user.id, 'share');
+      }
+    } catch (error) {
+      console.error('Error sharing venue:', error);
+    }
+  };
+
+  const styles = getStyles(colors);
+
+  const renderContent = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+        </View>
+      );
+    }
+
+    if (error || !venue) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="alert-circle-outline" size={48} color={colors.muted} />
+          <Text style={styles.messageText}>{error}</Text>
+          <TouchableOpacity style={styles.actionButton} onPress={handleBack}>
+            <Text style={styles.actionButtonText}>Back to venues</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return <VenueDetailsSheet venue={venue} onDataNeedsRefresh={loadVenue} />;
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen
+        options={{
+          headerShown: true,
+          headerTitle: venue?.name ?? 'Venue',
+          headerStyle: { backgroundColor: colors.surface },
+          headerTintColor: colors.text,
+          headerLeft: () => (
+            <TouchableOpacity onPress={handleBack} style={{ paddingHorizontal: 10 }}>
+              <Ionicons name="chevron-back" size={24} color={colors.text} />
+            </TouchableOpacity>
+          ),
+          headerRight: () =>
+            venue ? (
+              <View style={styles.headerActions}>
+                <TouchableOpacity
+                  onPress={() =>
+                    router.push({ pathname: '/groups', params: { venueId: venue.id, venueName: venue.name } })
+                  }
+                  style={{ paddingHorizontal: 10 }}
+                  accessibilityLabel="Party groups going here"
+                >
+                  <Ionicons name="people-outline" size={22} color={colors.text} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={handleShare}
+                  style={{ paddingHorizontal: 10 }}
+                  accessibilityLabel="Share venue"
+                >
+                  <Ionicons name="share-outline" size={22} color={colors.text} />
+                </TouchableOpacity>
+              </View>
+            ) : null,
+        }}
+      />
+      {renderContent()}
+    </SafeAreaView>
+  );
+}
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    headerActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    centered: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      gap: 12,
+    },
+    messageText: {
+      fontSize: 16,
+      color: colors.muted,
+      textAlign: 'center',
+    },
+    actionButton: {
+      marginTop: 8,
+      paddingVertical: 10,
+      paddingHorizontal: 20,
+      borderRadius: 10,
+      backgroundColor: colors.tint,
+    },
+    actionButtonText: {
+      color: colors.background,
+      fontWeight: '600',
+    },
+  });
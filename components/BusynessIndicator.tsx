@@ -2,30 +2,23 @@ import React from 'react';
 import { View, StyleSheet } from 'react-native';
 import { ThemedText } from './ThemedText';
 import { Colors } from '@/constants/Colors';
-import { BUSYNESS_LABELS, BusynessRating } from '@/src/lib/types';
+import { BUSYNESS_CONFIDENCE_LABELS, BUSYNESS_LABELS, BusynessConfidence, BusynessRating } from '@/src/lib/types';
 
 type BusynessIndicatorProps = {
   rating: BusynessRating;
   size?: 'small' | 'medium' | 'large';
   showLabel?: boolean;
+  confidence?: BusynessConfidence; // Low confidence estimates render faded
 };
 
 const BusynessIndicator: React.FC<BusynessIndicatorProps> = ({
   rating,
   size = 'medium',
   showLabel = false,
+  confidence,
 }) => {
   // Color mapping for busyness levels (green to red scale)
-  const getColorForRating = (rating: BusynessRating): string => {
-    const colors = {
-      1: Colors.semantic.success, // Green - Dead
-      2: '#84CC16', // Light green - Quiet
-      3: '#F59E0B', // Yellow - Moderate
-      4: '#F97316', // Orange - Busy
-      5: Colors.semantic.error, // Red - Packed
-    };
-    return colors[rating];
-  };
+  const getColorForRating = (rating: BusynessRating): string => Colors.busyness[rating];
 
   // Size configurations
   const sizeConfig = {
@@ -52,10 +45,24 @@ const BusynessIndicator: React.FC<BusynessIndicatorProps> = ({
   const config = sizeConfig[size];
   const activeColor = getColorForRating(rating);
   const inactiveColor = Colors.light.border;
+  const isLowConfidence = confidence === 'low';
 
   return (
-    <View style={styles.container}>
-      <View style={[styles.dotsContainer, { height: config.containerHeight }]}>
+    <View
+      style={styles.container}
+      accessibilityLabel={
+        confidence
+          ? `${BUSYNESS_LABELS[rating]}, ${BUSYNESS_CONFIDENCE_LABELS[confidence].toLowerCase()}`
+          : BUSYNESS_LABELS[rating]
+      }
+    >
+      <View
+        style={[
+          styles.dotsContainer,
+          { height: config.containerHeight },
+          isLowConfidence && styles.lowConfidence,
+        ]}
+      >
         {[1, 2, 3, 4, 5].map((level) => (
           <View
             key={level}
@@ -106,6 +113,9 @@ const styles = StyleSheet.create({
     marginTop: 4,
     textAlign: 'center',
   },
+  lowConfidence: {
+    opacity: 0.45,
+  },
 });
 
 export default BusynessIndicator;
\ No newline at end of file
@@ -0,0 +1,82 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { Colors } from '@/constants/Colors';
+import { useVenueCompare } from '@/src/lib/VenueCompareProvider';
+import { VENUE_COMPARE_CONFIG } from '@/src/lib/constants';
+import { canCompareVenues, getComparePath } from '@/src/lib/venueCompare';
+
+// Bar along the bottom of the screen while venues are picked to compare
+const CompareTray: React.FC = () => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { selectedIds, clearSelection } = useVenueCompare();
+
+  if (selectedIds.length === 0) {
+    return null;
+  }
+
+  const ready = canCompareVenues(selectedIds);
+  const hint = ready
+    ? `${selectedIds.length} of ${VENUE_COMPARE_CONFIG.maxVenues} venues picked`
+    : `Pick at least ${VENUE_COMPARE_CONFIG.minVenues} venues to compare`;
+
+  return (
+    <View style={[styles.tray, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+      <TouchableOpacity onPress={clearSelection} accessibilityLabel="Clear compare selection">
+        <Ionicons name="close" size={20} color={colors.muted} />
+      </TouchableOpacity>
+      <Text style={[styles.hint, { color: colors.text }]} numberOfLines={1}>{hint}</Text>
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: ready ? colors.tint : colors.border }]}
+        onPress={() => router.push(getComparePath(selectedIds))}
+        disabled={!ready}
+        accessibilityState={{ disabled: !ready }}
+      >
+        <Ionicons name="git-compare-outline" size={16} color={colors.background} />
+        <Text style={[styles.buttonText, { color: colors.background }]}>Compare</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  tray: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 100, // Above the tab bar
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+  hint: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
+
+export default CompareTray;
@@ -166,6 +166,31 @@ export const RateLimitCountdown: React.FC<RateLimitCountdownProps> = ({
   );
 };
 
+interface EditWindowCountdownProps {
+  timeRemaining: number;
+  onComplete?: () => void;
+  compact?: boolean;
+  style?: any;
+}
+
+export const EditWindowCountdown: React.FC<EditWindowCountdownProps> = ({
+  timeRemaining,
+  onComplete,
+  compact = false,
+  style,
+}) => {
+  return (
+    <CountdownTimer
+      duration={timeRemaining}
+      onComplete={onComplete}
+      message="You can edit this vibe check for"
+      showIcon={true}
+      compact={compact}
+      style={style}
+    />
+  );
+};
+
 const styles = StyleSheet.create({
   container: {
     backgroundColor: `${Colors.semantic.warning}10`,
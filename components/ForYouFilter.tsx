@@ -0,0 +1,57 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+
+interface ForYouFilterProps {
+  value: boolean;
+  onChange: (forYou: boolean) => void;
+  disabled?: boolean; // Recommendations need a signed-in user
+}
+
+// Toggle chip for ordering venues by how well they match the user's history
+const ForYouFilter: React.FC<ForYouFilterProps> = ({ value, onChange, disabled }) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        value
+          ? { backgroundColor: colors.tint, borderColor: colors.tint }
+          : { backgroundColor: colors.surface, borderColor: colors.border },
+        disabled && styles.chipDisabled,
+      ]}
+      onPress={() => onChange(!value)}
+      disabled={disabled}
+      accessibilityRole="switch"
+      accessibilityState={{ checked: value, disabled }}
+    >
+      <Ionicons name="sparkles-outline" size={14} color={value ? colors.background : colors.text} />
+      <Text style={[styles.text, { color: value ? colors.background : colors.text }]}>For you</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 6,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  text: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default ForYouFilter;
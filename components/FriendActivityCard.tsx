@@ -0,0 +1,185 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Image, useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ThemedText } from './ThemedText';
+import { Colors } from '@/constants/Colors';
+import { FriendActivity } from '@/src/lib/types';
+import { describeFriendPlan } from '@/src/lib/follows';
+import { formatGroupTime } from '@/src/lib/groups';
+
+interface FriendActivityCardProps {
+  // Vibe checks in the Friends feed use VibeCheckCard
+  activity: Exclude<FriendActivity, { type: 'vibe_check' }>;
+  onUserPress?: (userId: string) => void;
+  onVenuePress?: (venueId: string) => void;
+  onGroupPress?: (groupId: string) => void;
+}
+
+const formatTimeAgo = (dateString: string) => {
+  const minutes = Math.floor((Date.now() - new Date(dateString).getTime()) / (1000 * 60));
+  if (minutes < 1) return 'Just now';
+  if (minutes < 60) return `${minutes}m ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+};
+
+// Review or group plan from someone the user follows, shown in the Friends feed
+const FriendActivityCard: React.FC<FriendActivityCardProps> = ({
+  activity,
+  onUserPress,
+  onVenuePress,
+  onGroupPress,
+}) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  const renderAvatar = (avatarUrl: string | null) =>
+    avatarUrl ? (
+      <Image source={{ uri: avatarUrl }} style={styles.avatarImage} />
+    ) : (
+      <Ionicons name="person-circle" size={40} color={colors.muted} />
+    );
+
+  if (activity.type === 'review') {
+    const { review } = activity;
+    return (
+      <View style={[styles.container, { backgroundColor: colors.surface }]}>
+        <TouchableOpacity
+          style={styles.header}
+          onPress={() => onUserPress?.(review.user.id)}
+          disabled={!onUserPress}
+        >
+          <View style={styles.avatar}>{renderAvatar(review.user.avatar_url)}</View>
+          <View style={styles.details}>
+            <ThemedText type="defaultSemiBold" style={styles.name}>
+              {review.user.name || 'Someone'}
+            </ThemedText>
+            <ThemedText style={[styles.timestamp, { color: colors.muted }]}>
+              Reviewed · {formatTimeAgo(review.created_at)}
+            </ThemedText>
+          </View>
+        </TouchableOpacity>
+
+        <View style={styles.stars} accessibilityLabel={`${review.rating} out of 5 stars`}>
+          {[1, 2, 3, 4, 5].map((star) => (
+            <Ionicons
+              key={star}
+              name={star <= review.rating ? 'star' : 'star-outline'}
+              size={16}
+              color={colors.tint}
+            />
+          ))}
+        </View>
+        {!!review.comment && <ThemedText style={styles.comment}>{review.comment}</ThemedText>}
+
+        <TouchableOpacity
+          style={styles.footer}
+          onPress={() => onVenuePress?.(review.venue.id)}
+          disabled={!onVenuePress}
+        >
+          <Ionicons name="location-outline" size={14} color={colors.tint} />
+          <ThemedText style={[styles.footerText, { color: colors.tint }]} numberOfLines={1}>
+            {review.venue.name}
+          </ThemedText>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const { plan } = activity;
+  return (
+    <TouchableOpacity
+      style={[styles.container, { backgroundColor: colors.surface }]}
+      onPress={() => onGroupPress?.(plan.group.id)}
+      disabled={!onGroupPress}
+    >
+      <View style={styles.header}>
+        <View style={[styles.planIcon, { backgroundColor: colors.background }]}>
+          <Ionicons name="people" size={20} color={colors.tint} />
+        </View>
+        <View style={styles.details}>
+          <ThemedText type="defaultSemiBold" style={styles.name}>
+            {describeFriendPlan(plan)}
+          </ThemedText>
+          <ThemedText style={[styles.timestamp, { color: colors.muted }]}>
+            Joined {formatTimeAgo(plan.joined_at).toLowerCase()}
+          </ThemedText>
+        </View>
+      </View>
+
+      <ThemedText type="defaultSemiBold" style={styles.planName}>
+        {plan.group.name}
+      </ThemedText>
+      <ThemedText style={[styles.comment, { color: colors.muted }]}>
+        {formatGroupTime(plan.group)}
+        {plan.group.venue ? ` · ${plan.group.venue.name}` : ''}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    padding: 16,
+    marginVertical: 6,
+    marginHorizontal: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  avatar: {
+    marginRight: 12,
+  },
+  avatarImage: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+  },
+  planIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  details: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+  },
+  timestamp: {
+    fontSize: 12,
+  },
+  stars: {
+    flexDirection: 'row',
+    gap: 2,
+    marginBottom: 8,
+  },
+  comment: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  planName: {
+    fontSize: 15,
+    marginBottom: 2,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 12,
+  },
+  footerText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default FriendActivityCard;
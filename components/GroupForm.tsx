@@ -0,0 +1,304 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  useColorScheme,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { GROUP_CONFIG } from '@/src/lib/constants';
+import { formatGroupDay, getUpcomingGroupDates, validateGroupInput } from '@/src/lib/groups';
+import { PartyGroupInput } from '@/src/lib/types';
+
+interface GroupFormProps {
+  initialValues?: PartyGroupInput; // Editing an existing group
+  venueId?: string | null; // Venue the group is going to, if any
+  venueName?: string | null;
+  memberCount?: number; // People already in the group, the size can't go below it
+  submitLabel: string;
+  onSubmit: (input: PartyGroupInput) => Promise<string | null>; // Resolves to an error message
+}
+
+// Name, day, time, size and visibility of a party group, for creating or editing one
+const GroupForm: React.FC<GroupFormProps> = ({
+  initialValues,
+  venueId,
+  venueName,
+  memberCount = 1,
+  submitLabel,
+  onSubmit,
+}) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const styles = useMemo(() => getStyles(colors), [colors]);
+
+  const [name, setName] = useState(initialValues?.name ?? '');
+  const [date, setDate] = useState(initialValues?.date ?? getUpcomingGroupDates()[0]);
+  // Postgres returns times as 21:30:00
+  const [time, setTime] = useState(initialValues?.time.slice(0, 5) ?? '21:00');
+  const [maxSize, setMaxSize] = useState(initialValues?.max_size ?? 8);
+  const [isPublic, setIsPublic] = useState(initialValues?.is_public ?? true);
+  const [description, setDescription] = useState(initialValues?.description ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [dates] = useState(() => {
+    const upcoming = getUpcomingGroupDates();
+    // Keep the date of a group being edited selectable
+    return upcoming.includes(date) ? upcoming : [date, ...upcoming];
+  });
+
+  const handleSubmit = async () => {
+    const input: PartyGroupInput = {
+      name,
+      venue_id: venueId ?? initialValues?.venue_id ?? null,
+      date,
+      time,
+      max_size: maxSize,
+      is_public: isPublic,
+      description,
+    };
+
+    // Edits that keep the time are checked again by the action
+    const keepsTime = !!initialValues && initialValues.date === date && initialValues.time.slice(0, 5) === time;
+    const validationError = validateGroupInput(input, { memberCount, allowPast: keepsTime });
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSubmitting(true);
+    setError(await onSubmit(input));
+    setSubmitting(false);
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      {venueName && (
+        <View style={styles.venueRow}>
+          <Ionicons name="location-outline" size={18} color={colors.tint} />
+          <Text style={styles.venueText}>{venueName}</Text>
+        </View>
+      )}
+
+      <Text style={styles.label}>Name</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="Friday night pre-game"
+        placeholderTextColor={colors.muted}
+        value={name}
+        onChangeText={setName}
+        maxLength={GROUP_CONFIG.maxNameLength}
+      />
+
+      <Text style={styles.label}>Day</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+        {dates.map((day) => (
+          <TouchableOpacity
+            key={day}
+            style={[styles.chip, day === date && styles.chipSelected]}
+            onPress={() => setDate(day)}
+            accessibilityState={{ selected: day === date }}
+          >
+            <Text style={[styles.chipText, day === date && styles.chipTextSelected]}>
+              {formatGroupDay(day)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <Text style={styles.label}>Time</Text>
+      <TextInput
+        style={styles.input}
+        placeholder="21:30"
+        placeholderTextColor={colors.muted}
+        value={time}
+        onChangeText={setTime}
+        keyboardType="numbers-and-punctuation"
+        maxLength={5}
+      />
+
+      <Text style={styles.label}>Group size</Text>
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => setMaxSize(Math.max(maxSize - 1, GROUP_CONFIG.minSize, memberCount))}
+          accessibilityLabel="Fewer people"
+        >
+          <Ionicons name="remove" size={20} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={styles.stepperValue}>{maxSize} people</Text>
+        <TouchableOpacity
+          style={styles.stepperButton}
+          onPress={() => setMaxSize(Math.min(maxSize + 1, GROUP_CONFIG.maxSize))}
+          accessibilityLabel="More people"
+        >
+          <Ionicons name="add" size={20} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.switchRow}>
+        <View style={styles.switchText}>
+          <Text style={styles.switchLabel}>Public group</Text>
+          <Text style={styles.switchHint}>
+            {isPublic ? 'Anyone can find this group' : 'Only people in the group can see it'}
+          </Text>
+        </View>
+        <Switch
+          value={isPublic}
+          onValueChange={setIsPublic}
+          trackColor={{ false: colors.border, true: colors.tint }}
+          thumbColor={isPublic ? colors.background : colors.surface}
+        />
+      </View>
+
+      <Text style={styles.label}>Description</Text>
+      <TextInput
+        style={[styles.input, styles.multilineInput]}
+        placeholder="Meeting point, dress code, plans for after... (optional)"
+        placeholderTextColor={colors.muted}
+        value={description ?? ''}
+        onChangeText={setDescription}
+        multiline
+      />
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <TouchableOpacity
+        style={[styles.button, submitting && styles.buttonDisabled]}
+        onPress={handleSubmit}
+        disabled={submitting}
+      >
+        <Text style={styles.buttonText}>{submitting ? 'Saving...' : submitLabel}</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      padding: 20,
+      paddingBottom: 40,
+    },
+    venueRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 16,
+    },
+    venueText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.muted,
+      marginBottom: 8,
+      marginTop: 16,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 14,
+      fontSize: 16,
+      color: colors.text,
+    },
+    multilineInput: {
+      minHeight: 100,
+      textAlignVertical: 'top',
+    },
+    chipRow: {
+      gap: 8,
+    },
+    chip: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+    },
+    chipSelected: {
+      backgroundColor: colors.tint,
+      borderColor: colors.tint,
+    },
+    chipText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    chipTextSelected: {
+      color: colors.background,
+    },
+    stepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 16,
+    },
+    stepperButton: {
+      width: 40,
+      height: 40,
+      borderRadius: 20,
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    stepperValue: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    switchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginTop: 20,
+    },
+    switchText: {
+      flex: 1,
+    },
+    switchLabel: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    switchHint: {
+      fontSize: 13,
+      color: colors.muted,
+      marginTop: 2,
+    },
+    errorText: {
+      color: colors.destructive,
+      fontSize: 14,
+      marginTop: 16,
+    },
+    button: {
+      backgroundColor: colors.tint,
+      padding: 16,
+      borderRadius: 8,
+      alignItems: 'center',
+      marginTop: 24,
+    },
+    buttonDisabled: {
+      opacity: 0.6,
+    },
+    buttonText: {
+      color: colors.background,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+  });
+
+export default GroupForm;
@@ -4,26 +4,42 @@ import {
   StyleSheet,
   FlatList,
   RefreshControl,
+  TouchableOpacity,
   useColorScheme,
 } from 'react-native';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
 import VibeCheckCard from './VibeCheckCard';
+import PendingVibeCheckCard from './PendingVibeCheckCard';
+import FriendActivityCard from './FriendActivityCard';
 import { Colors } from '@/constants/Colors';
-import { VibeCheckWithDetails } from '@/src/lib/types';
+import { FriendActivity, VibeCheckWithDetails } from '@/src/lib/types';
 import { VibeCheckService } from '@/src/services/VibeCheckService';
+import { FollowService } from '@/src/services/FollowService';
 import { VibeCheckRealtimeService } from '@/src/services/VibeCheckRealtimeService';
 import { ImageCacheService } from '@/src/services/ImageCacheService';
+import { useAuth, usePendingVibeChecks, useVibeCheckReactions } from '@/src/lib/hooks';
 import { Ionicons } from '@expo/vector-icons';
-import { AppError } from '@/src/lib/errors';
+import { AppError, ErrorParser } from '@/src/lib/errors';
 import ErrorDisplay from './ErrorDisplay';
 
 interface LiveFeedProps {
   refreshing: boolean;
   onRefresh: () => void;
   onVibeCheckPress: (vibeCheck: VibeCheckWithDetails) => void;
+  onUserPress?: (userId: string) => void;
+  onVenuePress?: (venueId: string) => void; // Venues of reviews in the Friends feed
+  onGroupPress?: (groupId: string) => void;
 }
 
+// Everyone's vibe checks, or activity from the people the user follows
+type LiveFeedFilter = 'everyone' | 'friends';
+
+const FEED_FILTERS: { value: LiveFeedFilter; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'everyone', label: 'Everyone', icon: 'globe-outline' },
+  { value: 'friends', label: 'Friends', icon: 'people-outline' },
+];
+
 interface GroupedVibeCheck {
   venue_id: string;
   venue_name: string;
@@ -35,6 +51,9 @@ const LiveFeed: React.FC<LiveFeedProps> = ({
   refreshing,
   onRefresh,
   onVibeCheckPress,
+  onUserPress,
+  onVenuePress,
+  onGroupPress,
 }) => {
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
@@ -43,6 +62,20 @@ const LiveFeed: React.FC<LiveFeedProps> = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<AppError | null>(null);
   const [isRetrying, setIsRetrying] = useState(false);
+  const { pending, discard } = usePendingVibeChecks();
+  const { user } = useAuth();
+  const [filter, setFilter] = useState<LiveFeedFilter>('everyone');
+  const [friendsActivity, setFriendsActivity] = useState<FriendActivity[]>([]);
+  const [friendsLoading, setFriendsLoading] = useState(false);
+  const [friendsError, setFriendsError] = useState<AppError | null>(null);
+  const vibeCheckIds = React.useMemo(
+    () =>
+      filter === 'friends'
+        ? friendsActivity.flatMap((item) => (item.type === 'vibe_check' ? [item.vibeCheck.id] : []))
+        : vibeChecks.map((vc) => vc.id),
+    [filter, friendsActivity, vibeChecks]
+  );
+  const { reactions, setUserReactions } = useVibeCheckReactions(vibeCheckIds);
 
   // Group vibe checks by venue
   const groupedVibeChecks = React.useMemo(() => {
@@ -97,11 +130,24 @@ const LiveFeed: React.FC<LiveFeedProps> = ({
     }
   }, []);
 
+  const fetchFriendsActivity = useCallback(async () => {
+    if (!user) return;
+
+    setFriendsError(null);
+    const { data, error: fetchError } = await FollowService.getFriendsActivity(user.id);
+    if (fetchError) {
+      setFriendsError(ErrorParser.parseError(new Error(fetchError)));
+    } else {
+      setFriendsActivity(data);
+    }
+    setFriendsLoading(false);
+  }, [user]);
+
   const handleRetry = useCallback(async () => {
     setIsRetrying(true);
-    await fetchVibeChecks();
+    await (filter === 'friends' ? fetchFriendsActivity() : fetchVibeChecks());
     setIsRetrying(false);
-  }, [fetchVibeChecks]);
+  }, [filter, fetchFriendsActivity, fetchVibeChecks]);
 
   // Set up real-time subscription
   useEffect(() => {
@@ -155,15 +201,51 @@ const LiveFeed: React.FC<LiveFeedProps> = ({
     fetchVibeChecks();
   }, [fetchVibeChecks]);
 
+  useEffect(() => {
+    if (filter !== 'friends') return;
+
+    // Back to everyone's vibe checks after signing out
+    if (!user) {
+      setFilter('everyone');
+      return;
+    }
+    setFriendsLoading(true);
+    fetchFriendsActivity();
+  }, [filter, user, fetchFriendsActivity]);
+
   const handleRefresh = useCallback(() => {
     onRefresh();
-    fetchVibeChecks();
-  }, [onRefresh, fetchVibeChecks]);
+    if (filter === 'friends') {
+      fetchFriendsActivity();
+    } else {
+      fetchVibeChecks();
+    }
+  }, [onRefresh, filter, fetchFriendsActivity, fetchVibeChecks]);
 
   const handleVibeCheckPress = useCallback((vibeCheck: VibeCheckWithDetails) => {
     onVibeCheckPress(vibeCheck);
   }, [onVibeCheckPress]);
 
+  const handleVibeCheckUpdated = useCallback((updatedVibeCheck: VibeCheckWithDetails) => {
+    setVibeChecks(prev =>
+      prev.map(vc => vc.id === updatedVibeCheck.id ? updatedVibeCheck : vc)
+    );
+    setFriendsActivity(prev =>
+      prev.map(item =>
+        item.type === 'vibe_check' && item.vibeCheck.id === updatedVibeCheck.id
+          ? { ...item, vibeCheck: updatedVibeCheck }
+          : item
+      )
+    );
+  }, []);
+
+  const handleVibeCheckDeleted = useCallback((vibeCheckId: string) => {
+    setVibeChecks(prev => prev.filter(vc => vc.id !== vibeCheckId));
+    setFriendsActivity(prev =>
+      prev.filter(item => !(item.type === 'vibe_check' && item.vibeCheck.id === vibeCheckId))
+    );
+  }, []);
+
   const renderVenueGroup = ({ item }: { item: GroupedVibeCheck }) => (
     <View style={styles.venueGroup}>
       {/* Venue Header */}
@@ -199,11 +281,105 @@ const LiveFeed: React.FC<LiveFeedProps> = ({
           vibeCheck={vibeCheck}
           showVenue={false}
           onVenuePress={() => handleVibeCheckPress(vibeCheck)}
+          onUserPress={onUserPress}
+          currentUserId={user?.id}
+          onVibeCheckUpdated={handleVibeCheckUpdated}
+          onVibeCheckDeleted={handleVibeCheckDeleted}
+          userReactions={reactions[vibeCheck.id]}
+          onUserReactionsChange={setUserReactions}
         />
       ))}
     </View>
   );
 
+  const renderFriendActivity = ({ item }: { item: FriendActivity }) =>
+    item.type === 'vibe_check' ? (
+      <VibeCheckCard
+        vibeCheck={item.vibeCheck}
+        showVenue={true}
+        onVenuePress={() => handleVibeCheckPress(item.vibeCheck)}
+        onUserPress={onUserPress}
+        currentUserId={user?.id}
+        onVibeCheckUpdated={handleVibeCheckUpdated}
+        onVibeCheckDeleted={handleVibeCheckDeleted}
+        userReactions={reactions[item.vibeCheck.id]}
+        onUserReactionsChange={setUserReactions}
+      />
+    ) : (
+      <FriendActivityCard
+        activity={item}
+        onUserPress={onUserPress}
+        onVenuePress={onVenuePress}
+        onGroupPress={onGroupPress}
+      />
+    );
+
+  // Friends needs a signed-in user, so the filter is only shown to them
+  const renderFilter = () => {
+    if (!user) {
+      return null;
+    }
+
+    return (
+      <View style={styles.filterRow} accessibilityRole="tablist">
+        {FEED_FILTERS.map((option) => {
+          const selected = filter === option.value;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.filterChip,
+                selected
+                  ? { backgroundColor: colors.tint, borderColor: colors.tint }
+                  : { backgroundColor: colors.surface, borderColor: colors.border },
+              ]}
+              onPress={() => setFilter(option.value)}
+              accessibilityRole="tab"
+              accessibilityState={{ selected }}
+            >
+              <Ionicons name={option.icon} size={14} color={selected ? colors.background : colors.text} />
+              <ThemedText style={[styles.filterText, { color: selected ? colors.background : colors.text }]}>
+                {option.label}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderPendingSection = () => {
+    if (pending.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.pendingSection}>
+        <View style={styles.pendingHeader}>
+          <Ionicons name="cloud-upload-outline" size={16} color={colors.muted} />
+          <ThemedText style={[styles.pendingHeaderText, { color: colors.muted }]}>
+            Your vibe checks waiting to send
+          </ThemedText>
+        </View>
+        {pending.map((pendingVibeCheck) => (
+          <PendingVibeCheckCard
+            key={pendingVibeCheck.id}
+            pendingVibeCheck={pendingVibeCheck}
+            onDiscard={discard}
+            showVenue={true}
+          />
+        ))}
+      </View>
+    );
+  };
+
+  const renderHeader = () => (
+    <>
+      {renderFilter()}
+      {renderPendingSection()}
+    </>
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <View style={[styles.emptyIconContainer, { backgroundColor: colors.surface }]}>
@@ -218,18 +394,35 @@ const LiveFeed: React.FC<LiveFeedProps> = ({
     </View>
   );
 
-  const renderErrorState = () => (
-    <View style={styles.errorState}>
-      {error && (
-        <ErrorDisplay
-          error={error}
-          onRetry={error.retryable ? handleRetry : undefined}
-          isRetrying={isRetrying}
-        />
-      )}
+  const renderFriendsEmptyState = () => (
+    <View style={styles.emptyState}>
+      <View style={[styles.emptyIconContainer, { backgroundColor: colors.surface }]}>
+        <Ionicons name="people-outline" size={48} color={colors.muted} />
+      </View>
+      <ThemedText type="title" style={[styles.emptyTitle, { color: colors.text }]}>
+        Nothing From Friends Yet
+      </ThemedText>
+      <ThemedText style={[styles.emptySubtitle, { color: colors.muted }]}>
+        Follow people to see their vibe checks, reviews and group plans here. Tap someone&apos;s name on a vibe check to see their profile.
+      </ThemedText>
     </View>
   );
 
+  const renderErrorState = () => {
+    const shownError = filter === 'friends' ? friendsError : error;
+    return (
+      <View style={styles.errorState}>
+        {shownError && (
+          <ErrorDisplay
+            error={shownError}
+            onRetry={shownError.retryable ? handleRetry : undefined}
+            isRetrying={isRetrying}
+          />
+        )}
+      </View>
+    );
+  };
+
   const renderSkeletonCard = () => (
     <View style={[styles.skeletonCard, { backgroundColor: colors.surface }]}>
       {/* Header skeleton */}
@@ -293,7 +486,15 @@ const LiveFeed: React.FC<LiveFeedProps> = ({
     </View>
   );
 
-  if (loading) {
+  const renderFriendsLoadingState = () => (
+    <View style={styles.loadingContainer}>
+      {renderSkeletonCard()}
+      {renderSkeletonCard()}
+      {renderSkeletonCard()}
+    </View>
+  );
+
+  if (filter === 'everyone' && loading) {
     return (
       <ThemedView style={[styles.container, { backgroundColor: colors.background }]}>
         {renderLoadingState()}
@@ -301,12 +502,13 @@ const LiveFeed: React.FC<LiveFeedProps> = ({
     );
   }
 
-  if (error) {
+  if (filter === 'friends' ? friendsError : error) {
     return (
       <ThemedView style={[styles.container, { backgroundColor: colors.background }]}>
         <FlatList
           data={[]}
           renderItem={() => null}
+          ListHeaderComponent={renderHeader}
           ListEmptyComponent={renderErrorState}
           refreshControl={
             <RefreshControl
@@ -322,12 +524,37 @@ const LiveFeed: React.FC<LiveFeedProps> = ({
     );
   }
 
+  if (filter === 'friends') {
+    return (
+      <ThemedView style={[styles.container, { backgroundColor: colors.background }]}>
+        <FlatList
+          data={friendsLoading ? [] : friendsActivity}
+          renderItem={renderFriendActivity}
+          keyExtractor={(item) => item.id}
+          ListHeaderComponent={renderHeader}
+          ListEmptyComponent={friendsLoading ? renderFriendsLoadingState : renderFriendsEmptyState}
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={handleRefresh}
+              tintColor={colors.tint}
+              colors={[colors.tint]}
+            />
+          }
+          contentContainerStyle={styles.contentContainer}
+          showsVerticalScrollIndicator={false}
+        />
+      </ThemedView>
+    );
+  }
+
   return (
     <ThemedView style={[styles.container, { backgroundColor: colors.background }]}>
       <FlatList
         data={groupedVibeChecks}
         renderItem={renderVenueGroup}
         keyExtractor={(item) => item.venue_id}
+        ListHeaderComponent={renderHeader}
         ListEmptyComponent={renderEmptyState}
         refreshControl={
           <RefreshControl
@@ -352,6 +579,25 @@ const styles = StyleSheet.create({
     flexGrow: 1,
     paddingVertical: 8,
   },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 6,
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   venueGroup: {
     marginBottom: 24,
   },
@@ -400,6 +646,20 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '700',
   },
+  pendingSection: {
+    marginBottom: 16,
+  },
+  pendingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 4,
+  },
+  pendingHeaderText: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
@@ -2,19 +2,25 @@ import React from 'react';
 import { View, Text, StyleSheet, useColorScheme } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { Colors } from '@/constants/Colors';
-import { BusynessIndicator } from './BusynessIndicator';
+import BusynessIndicator from './BusynessIndicator';
+import { BusynessEstimate } from '@/src/lib/types';
+import { formatBusynessEstimateSummary } from '@/src/lib/busynessEstimate';
 
 interface LiveIndicatorProps {
   hasLiveActivity: boolean;
   averageBusyness?: number | null;
+  busynessEstimate?: BusynessEstimate; // Takes precedence over averageBusyness
   recentVibeCount?: number;
+  trendingReason?: string | null; // Shows a trending badge, e.g. "4× the usual vibe checks"
   size?: 'small' | 'medium' | 'large';
 }
 
 export const LiveIndicator: React.FC<LiveIndicatorProps> = ({
   hasLiveActivity,
   averageBusyness,
+  busynessEstimate,
   recentVibeCount = 0,
+  trendingReason,
   size = 'medium',
 }) => {
   const colorScheme = useColorScheme() ?? 'dark';
@@ -22,10 +28,17 @@ export const LiveIndicator: React.FC<LiveIndicatorProps> = ({
   
   const styles = getStyles(colors, size);
 
-  if (!hasLiveActivity && recentVibeCount === 0) {
+  if (!hasLiveActivity && recentVibeCount === 0 && !trendingReason) {
     return null;
   }
 
+  const busyness = busynessEstimate ? busynessEstimate.busyness : averageBusyness;
+  // Weak signals show what they are based on, e.g. "1 report, 40 min ago"
+  const lowConfidenceSummary =
+    busynessEstimate?.confidence_level === 'low'
+      ? formatBusynessEstimateSummary(busynessEstimate)
+      : null;
+
   return (
     <View style={styles.container}>
       {hasLiveActivity && (
@@ -34,18 +47,33 @@ export const LiveIndicator: React.FC<LiveIndicatorProps> = ({
           <Text style={styles.liveText}>LIVE</Text>
         </View>
       )}
+
+      {trendingReason && (
+        <View style={styles.trendingIndicator} accessibilityLabel={`Trending: ${trendingReason}`}>
+          <Ionicons name="flame" size={size === 'large' ? 12 : 10} color={colors.background} />
+          {/* Small badges only have room for the label */}
+          <Text style={styles.trendingText} numberOfLines={1}>
+            {size === 'small' ? 'TRENDING' : trendingReason}
+          </Text>
+        </View>
+      )}
       
-      {averageBusyness && (
+      {busyness && (
         <View style={styles.busynessContainer}>
           <BusynessIndicator 
-            rating={Math.round(averageBusyness) as 1 | 2 | 3 | 4 | 5} 
+            rating={Math.round(busyness) as 1 | 2 | 3 | 4 | 5} 
             size={size === 'large' ? 'medium' : 'small'}
             showLabel={false}
+            confidence={busynessEstimate?.confidence_level}
           />
         </View>
       )}
       
-      {recentVibeCount > 0 && (
+      {lowConfidenceSummary ? (
+        <View style={styles.countContainer}>
+          <Text style={styles.countText}>{lowConfidenceSummary}</Text>
+        </View>
+      ) : recentVibeCount > 0 && (
         <View style={styles.countContainer}>
           <Ionicons 
             name="chatbubble-ellipses" 
@@ -90,6 +118,22 @@ const getStyles = (colors: typeof Colors.dark, size: 'small' | 'medium' | 'large
       fontWeight: 'bold',
       letterSpacing: 0.5,
     },
+    trendingIndicator: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      backgroundColor: colors.tint,
+      paddingHorizontal: isLarge ? 8 : 6,
+      paddingVertical: isLarge ? 4 : 3,
+      borderRadius: isLarge ? 12 : 10,
+      gap: isLarge ? 4 : 3,
+      flexShrink: 1,
+    },
+    trendingText: {
+      color: colors.background,
+      fontSize: isLarge ? 11 : 9,
+      fontWeight: 'bold',
+      letterSpacing: isSmall ? 0.5 : 0,
+    },
     busynessContainer: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+
+interface OpenNowFilterProps {
+  value: boolean;
+  onChange: (openNow: boolean) => void;
+}
+
+// Toggle chip for showing only venues that are open right now
+const OpenNowFilter: React.FC<OpenNowFilterProps> = ({ value, onChange }) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        value
+          ? { backgroundColor: colors.tint, borderColor: colors.tint }
+          : { backgroundColor: colors.surface, borderColor: colors.border },
+      ]}
+      onPress={() => onChange(!value)}
+      accessibilityRole="switch"
+      accessibilityState={{ checked: value }}
+    >
+      <Ionicons name="time-outline" size={14} color={value ? colors.background : colors.text} />
+      <Text style={[styles.text, { color: value ? colors.background : colors.text }]}>Open now</Text>
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 6,
+  },
+  text: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default OpenNowFilter;
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, useColorScheme } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { OPENING_HOURS_CONFIG } from '@/src/lib/constants';
+import { closesIn, formatOpeningStatus, parseOpeningHours } from '@/src/lib/openingHours';
+
+interface OpenStatusBadgeProps {
+  hours: string | null; // venues.hours, nothing is shown for free text
+  size?: 'small' | 'medium';
+}
+
+const OpenStatusBadge: React.FC<OpenStatusBadgeProps> = ({ hours, size = 'medium' }) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const schedule = useMemo(() => parseOpeningHours(hours), [hours]);
+
+  if (!schedule) {
+    return null;
+  }
+
+  const minutesLeft = closesIn(schedule);
+  const color =
+    minutesLeft === null
+      ? colors.muted
+      : minutesLeft <= OPENING_HOURS_CONFIG.closingSoonMinutes
+        ? Colors.semantic.warning
+        : Colors.semantic.success;
+  const isSmall = size === 'small';
+
+  return (
+    <View style={[styles.container, { borderColor: color }, isSmall && styles.containerSmall]}>
+      <View style={[styles.dot, { backgroundColor: color }]} />
+      <Text style={[styles.text, { color }, isSmall && styles.textSmall]} numberOfLines={1}>
+        {formatOpeningStatus(schedule)}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    gap: 6,
+  },
+  containerSmall: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    gap: 4,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  text: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  textSmall: {
+    fontSize: 10,
+  },
+});
+
+export default OpenStatusBadge;
@@ -0,0 +1,201 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Image, ActivityIndicator, ScrollView } from 'react-native';
+import { ThemedText } from './ThemedText';
+import { ThemedView } from './ThemedView';
+import BusynessIndicator from './BusynessIndicator';
+import { Colors } from '@/constants/Colors';
+import { PendingVibeCheck } from '@/src/lib/types';
+import { formatDistanceToNow } from '@/src/lib/utils';
+import { Ionicons } from '@expo/vector-icons';
+
+interface PendingVibeCheckCardProps {
+  pendingVibeCheck: PendingVibeCheck;
+  onDiscard?: (id: string) => void;
+  showVenue?: boolean;
+}
+
+const PendingVibeCheckCard: React.FC<PendingVibeCheckCardProps> = ({
+  pendingVibeCheck,
+  onDiscard,
+  showVenue = false,
+}) => {
+  const { form, venue, status, last_error } = pendingVibeCheck;
+  const isFailed = status === 'failed';
+
+  const getStatusText = () => {
+    switch (status) {
+      case 'sending':
+        return 'Sending…';
+      case 'failed':
+        return last_error || "Couldn't send this vibe check";
+      default:
+        return 'Sending… will post when you’re back online';
+    }
+  };
+
+  return (
+    <ThemedView style={[styles.container, isFailed && styles.failedContainer]}>
+      {/* Status header */}
+      <View style={styles.header}>
+        <View style={styles.statusInfo}>
+          {isFailed ? (
+            <Ionicons name="alert-circle" size={18} color={Colors.semantic.error} />
+          ) : status === 'sending' ? (
+            <ActivityIndicator size="small" color={Colors.light.tint} />
+          ) : (
+            <Ionicons name="cloud-upload-outline" size={18} color={Colors.light.muted} />
+          )}
+          <View style={styles.statusDetails}>
+            <ThemedText style={[styles.statusText, isFailed && styles.failedText]}>
+              {getStatusText()}
+            </ThemedText>
+            <ThemedText style={styles.timestamp}>
+              Captured {formatDistanceToNow(new Date(pendingVibeCheck.captured_at))}
+            </ThemedText>
+          </View>
+        </View>
+
+        {isFailed && onDiscard && (
+          <TouchableOpacity
+            style={styles.discardButton}
+            onPress={() => onDiscard(pendingVibeCheck.id)}
+          >
+            <ThemedText style={styles.discardText}>Discard</ThemedText>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {showVenue && (
+        <View style={styles.venueInfo}>
+          <Ionicons name="location" size={16} color={Colors.light.tint} />
+          <ThemedText style={styles.venueName} numberOfLines={1}>
+            {venue.name}
+          </ThemedText>
+        </View>
+      )}
+
+      {/* Busyness rating */}
+      <View style={styles.busynessSection}>
+        <BusynessIndicator
+          rating={form.busyness_rating}
+          size="medium"
+          showLabel={true}
+        />
+      </View>
+
+      {/* Comment */}
+      {form.comment && (
+        <ThemedText style={styles.comment}>
+          {form.comment}
+        </ThemedText>
+      )}
+
+      {/* Photos, videos can't be queued offline */}
+      {form.media?.length === 1 && (
+        <Image
+          source={{ uri: form.media[0].uri }}
+          style={styles.photo}
+          resizeMode="cover"
+        />
+      )}
+      {form.media && form.media.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {form.media.map((item, index) => (
+            <Image
+              key={index}
+              source={{ uri: item.uri }}
+              style={[styles.photo, styles.photoThumbnail]}
+              resizeMode="cover"
+            />
+          ))}
+        </ScrollView>
+      )}
+    </ThemedView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: Colors.light.surface,
+    borderRadius: 12,
+    padding: 16,
+    marginVertical: 6,
+    marginHorizontal: 16,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: Colors.light.border,
+    opacity: 0.85,
+  },
+  failedContainer: {
+    borderColor: Colors.semantic.error,
+    opacity: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  statusInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  statusDetails: {
+    marginLeft: 8,
+    flex: 1,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.light.muted,
+  },
+  failedText: {
+    color: Colors.semantic.error,
+  },
+  timestamp: {
+    fontSize: 12,
+    color: Colors.light.muted,
+  },
+  discardButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  discardText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  venueInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  venueName: {
+    fontSize: 14,
+    color: Colors.light.tint,
+    marginLeft: 4,
+    fontWeight: '600',
+  },
+  busynessSection: {
+    marginBottom: 12,
+  },
+  comment: {
+    fontSize: 15,
+    lineHeight: 20,
+    marginBottom: 12,
+  },
+  photo: {
+    width: '100%',
+    height: 160,
+    borderRadius: 8,
+  },
+  photoThumbnail: {
+    width: 160,
+    marginRight: 8,
+  },
+});
+
+export default PendingVibeCheckCard;
@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  useColorScheme,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { Colors } from "../constants/Colors";
+import {
+  BUSYNESS_COMPARISON_LABELS,
+  BusynessComparison,
+  BusynessEstimate,
+  PopularTimesHour,
+} from "../src/lib/types";
+import {
+  compareWithForecast,
+  formatPopularTimesHour,
+  getForecastForTime,
+  getPopularTimesForDay,
+} from "../src/lib/popularTimes";
+import { OptimizedQueryService } from "../src/services/OptimizedQueryService";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const CHART_HEIGHT = 96;
+const MAX_BUSYNESS = 5;
+
+interface PopularTimesChartProps {
+  venueId: string;
+  busynessEstimate?: BusynessEstimate; // Live estimate compared with the forecast for this hour
+}
+
+const PopularTimesChart: React.FC<PopularTimesChartProps> = ({
+  venueId,
+  busynessEstimate,
+}) => {
+  const colorScheme = useColorScheme() ?? "dark";
+  const colors = Colors[colorScheme];
+  const styles = useMemo(() => getStyles(colors), [colors]);
+
+  const now = new Date();
+  const today = now.getDay();
+  const currentHour = now.getHours();
+
+  const [popularTimes, setPopularTimes] = useState<PopularTimesHour[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedDay, setSelectedDay] = useState(today);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadPopularTimes = async () => {
+      setLoading(true);
+      const { data, error } =
+        await OptimizedQueryService.getVenuePopularTimes(venueId);
+
+      if (!isMounted) return;
+
+      if (error) {
+        console.error("Failed to fetch popular times:", error);
+      }
+      setPopularTimes(data || []);
+      setLoading(false);
+    };
+
+    loadPopularTimes();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [venueId]);
+
+  const dayHours = useMemo(
+    () => getPopularTimesForDay(popularTimes, selectedDay),
+    [popularTimes, selectedDay]
+  );
+  const hasForecast = popularTimes.some(
+    (hour) => hour.average_busyness !== null
+  );
+  const comparison = compareWithForecast(
+    busynessEstimate,
+    getForecastForTime(popularTimes, now)
+  );
+
+  const getComparisonColor = (value: BusynessComparison) => {
+    if (value === "busier") return Colors.semantic.warning;
+    if (value === "quieter") return Colors.semantic.info;
+    return colors.muted;
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Popular Times</Text>
+        {comparison && (
+          <View
+            style={[
+              styles.comparisonBadge,
+              { borderColor: getComparisonColor(comparison) },
+            ]}
+          >
+            <Ionicons
+              name={comparison === "quieter" ? "trending-down" : "trending-up"}
+              size={14}
+              color={getComparisonColor(comparison)}
+            />
+            <Text
+              style={[
+                styles.comparisonText,
+                { color: getComparisonColor(comparison) },
+              ]}
+            >
+              {BUSYNESS_COMPARISON_LABELS[comparison]}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.dayRow}>
+        {DAY_LABELS.map((label, day) => (
+          <TouchableOpacity
+            key={label}
+            style={[styles.dayChip, selectedDay === day && styles.dayChipActive]}
+            onPress={() => setSelectedDay(day)}
+          >
+            <Text
+              style={[
+                styles.dayChipText,
+                selectedDay === day && styles.dayChipTextActive,
+              ]}
+            >
+              {label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {loading ? (
+        <ActivityIndicator color={colors.tint} style={{ marginVertical: 20 }} />
+      ) : !hasForecast ? (
+        <Text style={styles.emptyText}>
+          Not enough vibe checks yet to show when it gets busy
+        </Text>
+      ) : (
+        <>
+          <View style={styles.chart}>
+            {dayHours.map((hour) => {
+              const isNow = selectedDay === today && hour.hour === currentHour;
+              const barHeight =
+                hour.average_busyness === null
+                  ? 2
+                  : (hour.average_busyness / MAX_BUSYNESS) * CHART_HEIGHT;
+
+              return (
+                <View
+                  key={hour.hour}
+                  style={styles.barColumn}
+                  accessibilityLabel={`${formatPopularTimesHour(hour.hour)}: ${
+                    hour.average_busyness === null
+                      ? "no data"
+                      : `${hour.average_busyness.toFixed(1)} out of 5`
+                  }`}
+                >
+                  {isNow && <View style={styles.nowMarker} />}
+                  <View
+                    style={[
+                      styles.bar,
+                      { height: barHeight },
+                      isNow && styles.barNow,
+                    ]}
+                  />
+                </View>
+              );
+            })}
+          </View>
+          <View style={styles.axis}>
+            {[0, 6, 12, 18].map((hour) => (
+              <Text key={hour} style={styles.axisLabel}>
+                {formatPopularTimesHour(hour)}
+              </Text>
+            ))}
+          </View>
+          {selectedDay === today && (
+            <Text style={styles.nowLabel}>
+              Now: {formatPopularTimesHour(currentHour)}
+            </Text>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      marginTop: 8,
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: "bold",
+      color: colors.text,
+    },
+    comparisonBadge: {
+      flexDirection: "row",
+      alignItems: "center",
+      borderWidth: 1,
+      borderRadius: 12,
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+    },
+    comparisonText: {
+      fontSize: 12,
+      fontWeight: "600",
+      marginLeft: 4,
+    },
+    dayRow: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      marginBottom: 16,
+    },
+    dayChip: {
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 12,
+    },
+    dayChipActive: {
+      backgroundColor: colors.tint,
+    },
+    dayChipText: {
+      fontSize: 13,
+      color: colors.muted,
+    },
+    dayChipTextActive: {
+      color: colors.background,
+      fontWeight: "600",
+    },
+    chart: {
+      flexDirection: "row",
+      alignItems: "flex-end",
+      height: CHART_HEIGHT,
+    },
+    barColumn: {
+      flex: 1,
+      height: "100%",
+      justifyContent: "flex-end",
+      alignItems: "center",
+    },
+    bar: {
+      width: "70%",
+      borderTopLeftRadius: 2,
+      borderTopRightRadius: 2,
+      backgroundColor: colors.border,
+    },
+    barNow: {
+      backgroundColor: colors.tint,
+    },
+    nowMarker: {
+      position: "absolute",
+      top: 0,
+      bottom: 0,
+      width: 1,
+      backgroundColor: colors.tint,
+      opacity: 0.5,
+    },
+    axis: {
+      flexDirection: "row",
+      marginTop: 4,
+    },
+    axisLabel: {
+      flex: 1,
+      fontSize: 11,
+      color: colors.muted,
+    },
+    nowLabel: {
+      fontSize: 12,
+      color: colors.tint,
+      marginTop: 4,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.muted,
+      marginVertical: 12,
+    },
+  });
+
+export default PopularTimesChart;
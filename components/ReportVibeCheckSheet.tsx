@@ -0,0 +1,162 @@
+import React, { useMemo, useState, useCallback } from 'react';
+import { View, Text, StyleSheet, useColorScheme, TextInput, TouchableOpacity, KeyboardAvoidingView, Platform, Alert } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import { VIBE_CHECK_REPORT_REASON_LABELS, VibeCheckReportReason } from '@/src/lib/types';
+import { VibeCheckService } from '@/src/services/VibeCheckService';
+
+const REPORT_REASONS = Object.keys(VIBE_CHECK_REPORT_REASON_LABELS) as VibeCheckReportReason[];
+const MAX_DETAILS_LENGTH = 280;
+
+interface ReportVibeCheckSheetProps {
+  vibeCheckId: string;
+  onSubmitted: () => void;
+  onCancel: () => void;
+}
+
+const ReportVibeCheckSheet: React.FC<ReportVibeCheckSheetProps> = ({ vibeCheckId, onSubmitted, onCancel }) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const styles = useMemo(() => getStyles(colors), [colors]);
+
+  const [reason, setReason] = useState<VibeCheckReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = useCallback(async () => {
+    if (!reason) {
+      Alert.alert('Reason Required', 'Please choose why you are reporting this vibe check.');
+      return;
+    }
+
+    setLoading(true);
+    const { success, error } = await VibeCheckService.reportVibeCheck(vibeCheckId, reason, details);
+    setLoading(false);
+
+    if (!success) {
+      Alert.alert('Error', error || 'Failed to report vibe check. Please try again.');
+      return;
+    }
+
+    Alert.alert('Thanks for letting us know', 'A moderator will review this vibe check.');
+    onSubmitted();
+  }, [reason, details, vibeCheckId, onSubmitted]);
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      style={styles.container}
+    >
+      <View style={styles.header}>
+        <Text style={styles.title}>Report Vibe Check</Text>
+        <TouchableOpacity onPress={onCancel} accessibilityLabel="Cancel report">
+          <Ionicons name="close" size={24} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {REPORT_REASONS.map((option) => {
+        const isSelected = reason === option;
+        return (
+          <TouchableOpacity
+            key={option}
+            style={[styles.reasonOption, isSelected && styles.reasonOptionSelected]}
+            onPress={() => setReason(option)}
+            accessibilityRole="radio"
+            accessibilityState={{ selected: isSelected }}
+          >
+            <Ionicons
+              name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+              size={20}
+              color={isSelected ? colors.tint : colors.muted}
+            />
+            <Text style={styles.reasonText}>{VIBE_CHECK_REPORT_REASON_LABELS[option]}</Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      <TextInput
+        style={styles.input}
+        placeholder="Add details (optional)..."
+        placeholderTextColor={colors.muted}
+        value={details}
+        onChangeText={setDetails}
+        maxLength={MAX_DETAILS_LENGTH}
+        multiline
+      />
+
+      <TouchableOpacity
+        style={[styles.button, (loading || !reason) && styles.buttonDisabled]}
+        onPress={handleSubmit}
+        disabled={loading}
+      >
+        <Text style={styles.buttonText}>{loading ? 'Submitting...' : 'Submit Report'}</Text>
+      </TouchableOpacity>
+    </KeyboardAvoidingView>
+  );
+};
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      padding: 24,
+      backgroundColor: colors.surface,
+      flex: 1,
+    },
+    header: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 20,
+    },
+    title: {
+      fontSize: 22,
+      fontWeight: 'bold',
+      color: colors.text,
+    },
+    reasonOption: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginBottom: 10,
+    },
+    reasonOptionSelected: {
+      borderColor: colors.tint,
+    },
+    reasonText: {
+      fontSize: 16,
+      color: colors.text,
+      marginLeft: 12,
+    },
+    input: {
+      backgroundColor: colors.background,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 16,
+      fontSize: 16,
+      color: colors.text,
+      minHeight: 100,
+      textAlignVertical: 'top',
+      marginTop: 10,
+      marginBottom: 20,
+    },
+    button: {
+      backgroundColor: colors.tint,
+      padding: 16,
+      borderRadius: 8,
+      alignItems: 'center',
+    },
+    buttonDisabled: {
+      backgroundColor: colors.muted,
+    },
+    buttonText: {
+      color: colors.background,
+      fontSize: 16,
+      fontWeight: 'bold',
+    },
+  });
+
+export default ReportVibeCheckSheet;
@@ -1,4 +1,3 @@
-import { supabase } from "@/src/lib/supabase";
 import React, {
   useEffect,
   useMemo,
@@ -19,23 +18,45 @@ import { Ionicons, Feather } from "@expo/vector-icons";
 import { Colors } from "@/constants/Colors";
 import { useAuth } from "@/src/lib/hooks";
 import { useToast } from "@/src/lib/ToastProvider";
+import { useVenueCompare } from "@/src/lib/VenueCompareProvider";
 import { toggleBookmark, recordClubView, getVenues } from "@/src/actions/clubs";
 import { BottomSheetModal } from "@gorhom/bottom-sheet";
 import VenueDetailsSheet from "./VenueDetailsSheet";
 import StarRating from "./StarRating";
 import LiveIndicator from "./LiveIndicator";
 import SwipeFeedSkeleton from "./skeletons/SwipeFeedSkeleton";
+import OpenStatusBadge from "./OpenStatusBadge";
+import OpenNowFilter from "./OpenNowFilter";
+import ForYouFilter from "./ForYouFilter";
+import CompareTray from "./CompareTray";
+import {
+  describeTodayHours,
+  isOpenNow,
+  parseOpeningHours,
+} from "@/src/lib/openingHours";
+import { rankForYou } from "@/src/lib/recommendations";
+import { VenueSummariesCursor } from "@/src/lib/types";
+import { RecommendationService } from "@/src/services/RecommendationService";
 
 const SwipeFeed: React.FC = () => {
   const colorScheme = useColorScheme() ?? "dark";
   const colors = Colors[colorScheme];
   const { user } = useAuth();
   const { showToast } = useToast();
+  const { selectedIds, isSelected, toggleVenue } = useVenueCompare();
 
   const [venues, setVenues] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedVenue, setSelectedVenue] = useState<any | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [openNowOnly, setOpenNowOnly] = useState(false);
+  const [forYou, setForYou] = useState(false);
+  const [recommendationScores, setRecommendationScores] = useState<Map<
+    string,
+    number
+  > | null>(null);
+  const [nextCursor, setNextCursor] = useState<VenueSummariesCursor | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
   // Bottom sheet ref and snap points
   const bottomSheetModalRef = useRef<BottomSheetModal>(null);
@@ -44,48 +65,21 @@ const SwipeFeed: React.FC = () => {
   const styles = useMemo(() => getStyles(colors), [colors]);
 
   const loadVenues = useCallback(async () => {
-    let bookmarkedIds = new Set();
-
-    if (user) {
-      const { data: bookmarksData } = await supabase
-        .from("user_bookmarks")
-        .select("venue_id")
-        .eq("user_id", user.id);
-      if (bookmarksData) {
-        bookmarkedIds = new Set(bookmarksData.map((b) => b.venue_id));
-      }
-    }
-
-    // Use the updated getVenues function that includes vibe check data
-    const { data: venuesData, error } = await getVenues();
+    // Cards come with ratings, promotions, the bookmark flag and vibe check data
+    const { data: venuesData, error, nextCursor: cursor } = await getVenues();
 
     if (error) {
       console.error("Error fetching venues:", error);
       showToast({ type: "error", message: "Couldn't fetch venues" });
     } else {
-      // Fetch additional data (menus, promotions) for each venue
-      const venuesWithExtras = await Promise.all(
-        venuesData.slice(0, 20).map(async (venue) => {
-          const [menusResult, promotionsResult] = await Promise.all([
-            supabase.from("menus").select("*").eq("venue_id", venue.id),
-            supabase
-              .from("promotions")
-              .select("*")
-              .eq("venue_id", venue.id)
-              .eq("is_active", true),
-          ]);
-
-          return {
-            ...venue,
-            menus: menusResult.data || [],
-            promotions: promotionsResult.data || [],
-            isBookmarked: bookmarkedIds.has(venue.id),
-            isLiked: false, // Placeholder for like state
-          };
-        })
-      );
+      const venuesWithExtras = venuesData.map((venue) => ({
+        ...venue,
+        isLiked: false, // Placeholder for like state
+        feedPage: 0,
+      }));
 
       setVenues(venuesWithExtras);
+      setNextCursor(cursor);
 
       // If a venue is open in the sheet, update its data as well
       if (selectedVenue) {
@@ -97,7 +91,60 @@ const SwipeFeed: React.FC = () => {
         }
       }
     }
-  }, [user, showToast, selectedVenue]);
+  }, [showToast, selectedVenue]);
+
+  const loadMoreVenues = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+
+    setLoadingMore(true);
+    const { data: venuesData, error, nextCursor: cursor } = await getVenues(
+      undefined,
+      { cursor: nextCursor }
+    );
+
+    if (error) {
+      console.error("Error fetching more venues:", error);
+    } else {
+      setVenues((current) => {
+        const feedPage =
+          current.length > 0 ? current[current.length - 1].feedPage + 1 : 0;
+        return [
+          ...current,
+          ...venuesData.map((venue) => ({ ...venue, isLiked: false, feedPage })),
+        ];
+      });
+      setNextCursor(cursor);
+    }
+    setLoadingMore(false);
+  }, [nextCursor, loadingMore]);
+
+  const loadRecommendations = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await RecommendationService.getVenueRecommendations(
+      user.id
+    );
+
+    if (error || !data) {
+      console.error("Error fetching recommendations:", error);
+      showToast({ type: "error", message: "Couldn't personalize your feed" });
+      setForYou(false);
+    } else {
+      setRecommendationScores(data.scores);
+    }
+  }, [user, showToast]);
+
+  // Scores are loaded the first time "For you" is switched on
+  useEffect(() => {
+    if (forYou && !recommendationScores) {
+      loadRecommendations();
+    }
+  }, [forYou, recommendationScores, loadRecommendations]);
+
+  // A different user has different recommendations
+  useEffect(() => {
+    setRecommendationScores(null);
+  }, [user]);
 
   useEffect(() => {
     const initialLoad = async () => {
@@ -166,28 +213,27 @@ const SwipeFeed: React.FC = () => {
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
-    await loadVenues();
+    await Promise.all([loadVenues(), forYou ? loadRecommendations() : null]);
     setRefreshing(false);
-  }, [loadVenues]);
-
-  const formatHours = (hours: string | null) => {
-    if (!hours) return "Hours not available";
-
-    try {
-      const hoursObj = JSON.parse(hours);
-      const today = new Date()
-        .toLocaleString("en-us", { weekday: "long" })
-        .toLowerCase();
-      const todayHours = hoursObj[today];
+  }, [loadVenues, forYou, loadRecommendations]);
 
-      if (todayHours === "closed") return "Closed Today";
-      if (todayHours) return `Open: ${todayHours}`;
+  const visibleVenues = useMemo(() => {
+    const filtered = openNowOnly
+      ? venues.filter((venue) => isOpenNow(parseOpeningHours(venue.hours)))
+      : venues;
 
-      return "Hours not specified";
-    } catch (e) {
-      return hours;
+    if (!forYou || !recommendationScores) {
+      return filtered;
     }
-  };
+
+    // Rank each page on its own so loading more never moves venues already seen
+    const pages: any[][] = [];
+    filtered.forEach((venue) => {
+      if (!pages[venue.feedPage]) pages[venue.feedPage] = [];
+      pages[venue.feedPage].push(venue);
+    });
+    return pages.flatMap((page) => rankForYou(page, recommendationScores));
+  }, [venues, openNowOnly, forYou, recommendationScores]);
 
   const renderItem = ({ item }: { item: any }) => (
     <View style={styles.card}>
@@ -209,6 +255,7 @@ const SwipeFeed: React.FC = () => {
           <LiveIndicator
             hasLiveActivity={item.has_live_activity}
             averageBusyness={item.average_recent_busyness}
+            busynessEstimate={item.busyness_estimate}
             recentVibeCount={item.recent_vibe_count}
             size="medium"
           />
@@ -237,8 +284,10 @@ const SwipeFeed: React.FC = () => {
 
         <View style={styles.detailsRow}>
           <Feather name="clock" size={16} color={colors.muted} />
-          <Text style={styles.detailsText}>{formatHours(item.hours)}</Text>
+          <Text style={styles.detailsText}>{describeTodayHours(item.hours)}</Text>
         </View>
+
+        <OpenStatusBadge hours={item.hours} />
       </View>
 
       <View style={styles.cardActions}>
@@ -285,6 +334,25 @@ const SwipeFeed: React.FC = () => {
           <Ionicons name="arrow-forward" size={22} color={colors.text} />
           <Text style={styles.actionText}>Details</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => toggleVenue(item.id)}
+          accessibilityState={{ selected: isSelected(item.id) }}
+        >
+          <Ionicons
+            name={isSelected(item.id) ? "checkmark-circle" : "git-compare-outline"}
+            size={22}
+            color={isSelected(item.id) ? colors.tint : colors.text}
+          />
+          <Text
+            style={[
+              styles.actionText,
+              isSelected(item.id) && { color: colors.tint },
+            ]}
+          >
+            Compare
+          </Text>
+        </TouchableOpacity>
       </View>
     </View>
   );
@@ -296,15 +364,31 @@ const SwipeFeed: React.FC = () => {
   return (
     <>
       <FlatList
-        data={venues}
+        data={visibleVenues}
         keyExtractor={(item) => item.id}
         renderItem={renderItem}
+        extraData={selectedIds}
+        ListHeaderComponent={
+          <View style={styles.filterRow}>
+            <ForYouFilter value={forYou} onChange={setForYou} disabled={!user} />
+            <OpenNowFilter value={openNowOnly} onChange={setOpenNowOnly} />
+          </View>
+        }
+        ListEmptyComponent={
+          openNowOnly ? (
+            <Text style={styles.emptyText}>No venues are open right now</Text>
+          ) : null
+        }
         contentContainerStyle={styles.listContainer}
         showsVerticalScrollIndicator={false}
         onRefresh={handleRefresh}
         refreshing={refreshing}
+        onEndReached={loadMoreVenues}
+        onEndReachedThreshold={0.5}
       />
 
+      <CompareTray />
+
       <BottomSheetModal
         ref={bottomSheetModalRef}
         index={0}
@@ -334,6 +418,17 @@ const getStyles = (colors: typeof Colors.dark) =>
       paddingTop: 16,
       paddingBottom: 100,
     },
+    filterRow: {
+      flexDirection: "row",
+      gap: 8,
+      marginBottom: 16,
+    },
+    emptyText: {
+      color: colors.muted,
+      textAlign: "center",
+      fontSize: 14,
+      marginTop: 24,
+    },
     card: {
       backgroundColor: colors.surface,
       borderRadius: 16,
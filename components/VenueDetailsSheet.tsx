@@ -22,9 +22,12 @@ import StarRating from "./StarRating";
 import { BottomSheetModal } from "@gorhom/bottom-sheet";
 import AddReviewSheet from "./AddReviewSheet";
 import VenueVibeSection from "./VenueVibeSection";
+import PopularTimesChart from "./PopularTimesChart";
+import OpenStatusBadge from "./OpenStatusBadge";
 import VibeCheckPostingFlow from "./VibeCheckPostingFlow";
 import { supabase } from "../src/lib/supabase";
 import { useAuth } from "../src/lib/hooks";
+import { describeTodayHours } from "../src/lib/openingHours";
 import { VibeCheckRealtimeService } from "../src/services/VibeCheckRealtimeService";
 
 function formatDistanceToNow(date: Date): string {
@@ -61,7 +64,12 @@ function formatDistanceToNow(date: Date): string {
   return Math.floor(seconds) + " seconds ago";
 }
 
-const ReviewItem = ({ review }: { review: any }) => {
+// Menu types are stored lowercase: 'food', 'drinks', 'specials'
+function formatMenuType(type: string): string {
+  return type.charAt(0).toUpperCase() + type.slice(1);
+}
+
+const ReviewItem =({ review }: { review: any }) => {
   const colorScheme = useColorScheme() ?? "dark";
   const colors = Colors[colorScheme];
 
@@ -187,20 +195,6 @@ const VenueDetailsSheet = ({
     // Note: Sheet resizing is handled by the parent component
   };
 
-  const formatHours = (hours: string | null) => {
-    if (!hours) return "Hours not available";
-    try {
-      const hoursObj = JSON.parse(hours);
-      const today = new Date()
-        .toLocaleString("en-us", { weekday: "long" })
-        .toLowerCase();
-      return `Today: ${hoursObj[today] || "Not specified"}`;
-    } catch (e: any) {
-      console.error(e);
-      return hours;
-    }
-  };
-
   const renderReviewList = () => (
     <View style={{ flex: 1 }}>
       <TouchableOpacity onPress={handleShowSummary} style={styles.backButton}>
@@ -333,7 +327,10 @@ const VenueDetailsSheet = ({
             color={colors.tint}
             style={styles.infoIcon}
           />
-          <Text style={styles.infoText}>{formatHours(venue.hours)}</Text>
+          <View style={styles.hoursInfo}>
+            <Text style={styles.infoText}>{describeTodayHours(venue.hours)}</Text>
+            <OpenStatusBadge hours={venue.hours} />
+          </View>
         </View>
 
         {venue.contact && (
@@ -347,6 +344,58 @@ const VenueDetailsSheet = ({
             <Text style={styles.infoText}>{venue.contact}</Text>
           </View>
         )}
+
+        {venue.promotions?.length > 0 && (
+          <>
+            <View style={styles.separator} />
+            <Text style={styles.sectionTitle}>Deals</Text>
+            {venue.promotions.map((promotion: any) => (
+              <View key={promotion.id} style={styles.listCard}>
+                <Text style={styles.listCardTitle}>{promotion.title}</Text>
+                {promotion.description && (
+                  <Text style={styles.listCardText}>{promotion.description}</Text>
+                )}
+                {promotion.end_date && (
+                  <Text style={styles.listCardMeta}>
+                    Until {new Date(promotion.end_date).toLocaleDateString()}
+                  </Text>
+                )}
+              </View>
+            ))}
+          </>
+        )}
+
+        {/* Menus are only loaded on the venue screen */}
+        {venue.menus?.length > 0 && (
+          <>
+            <View style={styles.separator} />
+            <Text style={styles.sectionTitle}>Menu</Text>
+            {venue.menus.map((menu: any) => (
+              <View key={menu.id} style={styles.listCard}>
+                <Text style={styles.listCardTitle}>{formatMenuType(menu.type)}</Text>
+                {menu.content && (
+                  <Text style={styles.listCardText}>{menu.content}</Text>
+                )}
+                {menu.image_url && (
+                  <Image
+                    source={{ uri: menu.image_url }}
+                    style={styles.menuImage}
+                    contentFit="contain"
+                  />
+                )}
+              </View>
+            ))}
+          </>
+        )}
+      </View>
+
+      {/* Popular Times Section */}
+      <View style={styles.content}>
+        <View style={styles.separator} />
+        <PopularTimesChart
+          venueId={venue.id}
+          busynessEstimate={venue.busyness_estimate}
+        />
       </View>
 
       {/* Vibe Check Section */}
@@ -522,12 +571,45 @@ const getStyles = (colors: any) =>
       marginRight: 16,
       marginTop: 2,
     },
+    hoursInfo: {
+      flex: 1,
+      gap: 6,
+    },
     infoText: {
       flex: 1,
       fontSize: 16,
       color: colors.text,
       lineHeight: 22,
     },
+    listCard: {
+      backgroundColor: colors.surface,
+      padding: 16,
+      borderRadius: 12,
+      marginBottom: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      gap: 6,
+    },
+    listCardTitle: {
+      fontSize: 16,
+      fontWeight: "bold",
+      color: colors.text,
+    },
+    listCardText: {
+      fontSize: 14,
+      color: colors.text,
+      lineHeight: 20,
+    },
+    listCardMeta: {
+      fontSize: 12,
+      color: colors.muted,
+    },
+    menuImage: {
+      width: "100%",
+      height: 240,
+      borderRadius: 8,
+      backgroundColor: colors.border,
+    },
     vibeCheckContainer: {
       backgroundColor: colors.surface,
       padding: 16,
@@ -0,0 +1,135 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, useColorScheme } from 'react-native';
+import MapView, { Marker, Region } from 'react-native-maps';
+import { Colors } from '@/constants/Colors';
+import { BusynessEstimate, BUSYNESS_LABELS, BusynessRating, NearbyVenue } from '@/src/lib/types';
+import { clusterMapPoints, getClusterRegion, MapCluster } from '@/src/lib/mapClusters';
+
+export interface MapVenue extends NearbyVenue {
+  busyness_estimate: BusynessEstimate;
+  has_live_activity: boolean;
+}
+
+interface VenueMapProps {
+  venues: MapVenue[];
+  initialRegion: Region;
+  onRegionChangeComplete?: (region: Region) => void;
+  onVenuePress: (venue: MapVenue) => void;
+}
+
+// Rounded live busyness, null for venues without live activity
+const getLiveRating = (venue: MapVenue): BusynessRating | null =>
+  venue.has_live_activity && venue.busyness_estimate.busyness !== null
+    ? (Math.round(venue.busyness_estimate.busyness) as BusynessRating)
+    : null;
+
+const VenueMap: React.FC<VenueMapProps> = ({
+  venues,
+  initialRegion,
+  onRegionChangeComplete,
+  onVenuePress,
+}) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const mapRef = useRef<MapView>(null);
+  const [region, setRegion] = useState<Region>(initialRegion);
+
+  const clusters = useMemo(() => clusterMapPoints(venues, region), [venues, region]);
+
+  const handleRegionChangeComplete = useCallback((newRegion: Region) => {
+    setRegion(newRegion);
+    onRegionChangeComplete?.(newRegion);
+  }, [onRegionChangeComplete]);
+
+  const handleClusterPress = useCallback((cluster: MapCluster<MapVenue>) => {
+    if (cluster.items.length === 1) {
+      onVenuePress(cluster.items[0]);
+    } else {
+      mapRef.current?.animateToRegion(getClusterRegion(cluster, region));
+    }
+  }, [onVenuePress, region]);
+
+  const renderCluster = (cluster: MapCluster<MapVenue>) => {
+    // Clusters take the color of their busiest live venue
+    const ratings = cluster.items
+      .map(getLiveRating)
+      .filter((rating): rating is BusynessRating => rating !== null);
+    const rating = ratings.length > 0 ? (Math.max(...ratings) as BusynessRating) : null;
+    const color = rating ? Colors.busyness[rating] : colors.muted;
+    const isSingle = cluster.items.length === 1;
+    const isLowConfidence = isSingle && cluster.items[0].busyness_estimate.confidence_level === 'low';
+
+    return (
+      <Marker
+        key={cluster.id}
+        coordinate={{ latitude: cluster.latitude, longitude: cluster.longitude }}
+        onPress={() => handleClusterPress(cluster)}
+        tracksViewChanges={false}
+        accessibilityLabel={
+          isSingle
+            ? `${cluster.items[0].name}${rating ? `, ${BUSYNESS_LABELS[rating]}` : ''}`
+            : `${cluster.items.length} venues`
+        }
+      >
+        {isSingle ? (
+          <View
+            style={[
+              styles.venueMarker,
+              { backgroundColor: color, borderColor: colors.background },
+              isLowConfidence && styles.lowConfidence,
+            ]}
+          />
+        ) : (
+          <View style={[styles.clusterMarker, { backgroundColor: color, borderColor: colors.background }]}>
+            <Text style={[styles.clusterCount, { color: colors.background }]}>
+              {cluster.items.length}
+            </Text>
+          </View>
+        )}
+      </Marker>
+    );
+  };
+
+  return (
+    <MapView
+      ref={mapRef}
+      style={styles.map}
+      initialRegion={initialRegion}
+      onRegionChangeComplete={handleRegionChangeComplete}
+      showsUserLocation
+      userInterfaceStyle={colorScheme}
+    >
+      {clusters.map(renderCluster)}
+    </MapView>
+  );
+};
+
+const styles = StyleSheet.create({
+  map: {
+    flex: 1,
+  },
+  venueMarker: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 3,
+  },
+  clusterMarker: {
+    minWidth: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 3,
+    paddingHorizontal: 6,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  clusterCount: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  lowConfidence: {
+    opacity: 0.45,
+  },
+});
+
+export default VenueMap;
@@ -0,0 +1,138 @@
+import React from 'react';
+import { ScrollView, Text, StyleSheet, TouchableOpacity, useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Colors } from '@/constants/Colors';
+import OpenNowFilter from '@/components/OpenNowFilter';
+import { VENUE_SEARCH_CONFIG } from '@/src/lib/constants';
+import { BUSYNESS_LABELS, BusynessRating, VenueSearchFilters } from '@/src/lib/types';
+
+// Busyness ranges offered as filters
+const BUSYNESS_RANGES: { min: BusynessRating; max: BusynessRating; label: string }[] = [
+  { min: 1, max: 2, label: BUSYNESS_LABELS[2] },
+  { min: 3, max: 3, label: BUSYNESS_LABELS[3] },
+  { min: 4, max: 5, label: BUSYNESS_LABELS[4] },
+];
+
+const formatDistanceOption = (meters: number) =>
+  meters < 1000 ? `Within ${meters} m` : `Within ${meters / 1000} km`;
+
+interface FilterChipProps {
+  label: string;
+  selected: boolean;
+  disabled?: boolean;
+  icon?: keyof typeof Ionicons.glyphMap;
+  onPress: () => void;
+}
+
+const FilterChip: React.FC<FilterChipProps> = ({ label, selected, disabled, icon, onPress }) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const textColor = selected ? colors.background : colors.text;
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        selected
+          ? { backgroundColor: colors.tint, borderColor: colors.tint }
+          : { backgroundColor: colors.surface, borderColor: colors.border },
+        disabled && styles.chipDisabled,
+      ]}
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityRole="checkbox"
+      accessibilityState={{ checked: selected, disabled }}
+    >
+      {icon && <Ionicons name={icon} size={14} color={textColor} />}
+      <Text style={[styles.text, { color: textColor }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+};
+
+interface VenueSearchFilterBarProps {
+  filters: VenueSearchFilters;
+  onChange: (filters: VenueSearchFilters) => void;
+  hasLocation: boolean; // Distance filters need the user's location
+}
+
+// Row of filter chips for the venue search. Selecting a selected option clears that filter.
+const VenueSearchFilterBar: React.FC<VenueSearchFilterBarProps> = ({ filters, onChange, hasLocation }) => {
+  const update = (changes: Partial<VenueSearchFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+      <OpenNowFilter value={Boolean(filters.openNow)} onChange={(openNow) => update({ openNow })} />
+      <FilterChip
+        label="Deals"
+        icon="pricetag-outline"
+        selected={Boolean(filters.hasPromotion)}
+        onPress={() => update({ hasPromotion: !filters.hasPromotion })}
+      />
+      {VENUE_SEARCH_CONFIG.distanceOptionsMeters.map((meters) => (
+        <FilterChip
+          key={`distance-${meters}`}
+          label={formatDistanceOption(meters)}
+          icon="navigate-outline"
+          selected={filters.maxDistanceMeters === meters}
+          disabled={!hasLocation}
+          onPress={() =>
+            update({ maxDistanceMeters: filters.maxDistanceMeters === meters ? undefined : meters })
+          }
+        />
+      ))}
+      {VENUE_SEARCH_CONFIG.ratingOptions.map((rating) => (
+        <FilterChip
+          key={`rating-${rating}`}
+          label={`${rating}+`}
+          icon="star"
+          selected={filters.minRating === rating}
+          onPress={() => update({ minRating: filters.minRating === rating ? undefined : rating })}
+        />
+      ))}
+      {BUSYNESS_RANGES.map((range) => {
+        const selected = filters.minBusyness === range.min && filters.maxBusyness === range.max;
+        return (
+          <FilterChip
+            key={`busyness-${range.min}-${range.max}`}
+            label={range.label}
+            icon="people-outline"
+            selected={selected}
+            onPress={() =>
+              update(
+                selected
+                  ? { minBusyness: undefined, maxBusyness: undefined }
+                  : { minBusyness: range.min, maxBusyness: range.max }
+              )
+            }
+          />
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    gap: 6,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  text: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default VenueSearchFilterBar;
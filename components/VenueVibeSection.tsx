@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import {
   View,
   StyleSheet,
@@ -11,6 +11,7 @@ import {
 import { ThemedText } from "./ThemedText";
 import { ThemedView } from "./ThemedView";
 import VibeCheckCard from "./VibeCheckCard";
+import PendingVibeCheckCard from "./PendingVibeCheckCard";
 import BusynessIndicator from "./BusynessIndicator";
 import { Colors } from "@/constants/Colors";
 import { Ionicons } from "@expo/vector-icons";
@@ -21,6 +22,24 @@ import {
 } from "@/src/lib/types";
 import { VibeCheckService } from "@/src/services/VibeCheckService";
 import { LocationVerificationService } from "@/src/services/LocationVerificationService";
+import {
+  useAuth,
+  usePendingVibeChecks,
+  useVibeCheckReactions,
+} from "@/src/lib/hooks";
+import {
+  formatVibeAttributeSummary,
+  summarizeVibeAttributes,
+} from "@/src/lib/vibeAttributes";
+import {
+  estimateBusyness,
+  formatBusynessEstimateSummary,
+} from "@/src/lib/busynessEstimate";
+import {
+  describeGeofenceLimit,
+  getGeofenceMaxDistance,
+  getVenueGeofence,
+} from "@/src/lib/geofence";
 
 interface VenueVibeSectionProps {
   venue: Venue;
@@ -42,7 +61,38 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
   const [canPostVibeCheck, setCanPostVibeCheck] = useState(false);
   const [locationVerification, setLocationVerification] =
     useState<LocationVerification | null>(null);
-  const [averageBusyness, setAverageBusyness] = useState<number | null>(null);
+  const { pending, discard } = usePendingVibeChecks(venue.id);
+  const { user } = useAuth();
+  const vibeCheckIds = useMemo(
+    () => vibeChecks.map((vibeCheck) => vibeCheck.id),
+    [vibeChecks]
+  );
+  const { reactions, setUserReactions } = useVibeCheckReactions(vibeCheckIds);
+
+  // Newer reports and reputable authors count more
+  const busynessEstimate = useMemo(
+    () =>
+      estimateBusyness(
+        vibeChecks,
+        (vibeCheck) => vibeCheck.user.reputation_score
+      ),
+    [vibeChecks]
+  );
+  const busynessSummary =
+    busynessEstimate.confidence_level === "low"
+      ? formatBusynessEstimateSummary(busynessEstimate)
+      : null;
+
+  // e.g. "~15 min queue · Afrobeats · KES 500 cover"
+  const attributeSummary = useMemo(
+    () => formatVibeAttributeSummary(summarizeVibeAttributes(vibeChecks)),
+    [vibeChecks]
+  );
+
+  // Where users must be to post, e.g. "within 150m of the venue"
+  const geofence = useMemo(() => getVenueGeofence(venue), [venue]);
+  const geofenceLimit = describeGeofenceLimit(geofence);
+  const maxDistance = getGeofenceMaxDistance(geofence);
 
   // Load vibe checks for the venue
   const loadVibeChecks = useCallback(
@@ -65,7 +115,6 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
             // Don't show alert for network issues, just log and continue with empty state
             console.warn("Network offline, showing empty vibe checks state");
             setVibeChecks([]);
-            setAverageBusyness(null);
           } else {
             // Only show alerts for non-network errors
             console.error("Error loading vibe checks:", error);
@@ -81,15 +130,6 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
         }
 
         setVibeChecks(data);
-
-        // Calculate average busyness
-        if (data.length > 0) {
-          const average =
-            data.reduce((sum, vc) => sum + vc.busyness_rating, 0) / data.length;
-          setAverageBusyness(Math.round(average * 10) / 10); // Round to 1 decimal
-        } else {
-          setAverageBusyness(null);
-        }
       } catch (error) {
         console.error("Error loading vibe checks:", error);
         // Only show alert if it's not a refresh
@@ -145,7 +185,7 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
       );
       Alert.alert(
         "Too Far Away",
-        `You need to be within 100m of ${venue.name} to post a vibe check. You are currently ${distanceText}.`,
+        `You need to be ${geofenceLimit} to post a vibe check at ${venue.name}. You are currently ${distanceText}.`,
         [{ text: "OK" }]
       );
       return;
@@ -160,21 +200,31 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
         <ThemedText type="subtitle" style={styles.title}>
           Live Vibe
         </ThemedText>
-        {averageBusyness && (
+        {busynessEstimate.busyness && (
           <View style={styles.averageContainer}>
-            <ThemedText style={styles.averageLabel}>Avg:</ThemedText>
+            <ThemedText style={styles.averageLabel}>Now:</ThemedText>
             <BusynessIndicator
-              rating={Math.round(averageBusyness) as 1 | 2 | 3 | 4 | 5}
+              rating={Math.round(busynessEstimate.busyness) as 1 | 2 | 3 | 4 | 5}
               size="small"
               showLabel={false}
+              confidence={busynessEstimate.confidence_level}
             />
             <ThemedText style={styles.averageValue}>
-              {averageBusyness.toFixed(1)}
+              {busynessSummary || busynessEstimate.busyness.toFixed(1)}
             </ThemedText>
           </View>
         )}
       </View>
 
+      {attributeSummary && (
+        <View style={styles.attributeSummary}>
+          <Ionicons name="sparkles-outline" size={14} color={colors.muted} />
+          <ThemedText style={styles.attributeSummaryText}>
+            {attributeSummary}
+          </ThemedText>
+        </View>
+      )}
+
       <TouchableOpacity
         style={[
           styles.postButton,
@@ -232,7 +282,7 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
                 You are {Math.round(locationVerification.distance_meters)}m from venue
               </ThemedText>
               <ThemedText style={styles.distanceSubtitle}>
-                Maximum distance is 100m to post vibe checks
+                You need to be {geofenceLimit} to post vibe checks
               </ThemedText>
             </View>
           </View>
@@ -242,14 +292,14 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
                 style={[
                   styles.distanceProgressFill,
                   { 
-                    width: `${Math.min((100 / locationVerification.distance_meters) * 100, 100)}%`,
-                    backgroundColor: locationVerification.distance_meters > 100 ? colors.destructive : colors.tint
+                    width: `${Math.min(((maxDistance ?? 0) / locationVerification.distance_meters) * 100, 100)}%`,
+                    backgroundColor: locationVerification.is_valid ? colors.tint : colors.destructive
                   }
                 ]} 
               />
             </View>
             <ThemedText style={styles.distanceProgressText}>
-              {locationVerification.distance_meters > 100 ? 'Too far' : 'Close enough'}
+              {locationVerification.is_valid ? 'Close enough' : 'Too far'}
             </ThemedText>
           </View>
         </View>
@@ -273,11 +323,29 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
         Be the first to share what&apos;s happening at {venue.name}!
       </ThemedText>
       <ThemedText style={styles.emptyHint}>
-        Post a vibe check when you&apos;re within 100m of the venue
+        Post a vibe check when you&apos;re {geofenceLimit}
       </ThemedText>
     </View>
   );
 
+  const renderPendingVibeChecks = () => {
+    if (pending.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.vibeChecksList}>
+        {pending.map((pendingVibeCheck) => (
+          <PendingVibeCheckCard
+            key={pendingVibeCheck.id}
+            pendingVibeCheck={pendingVibeCheck}
+            onDiscard={discard}
+          />
+        ))}
+      </View>
+    );
+  };
+
   const renderVibeChecks = () => {
     if (loading) {
       return (
@@ -290,7 +358,7 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
     }
 
     if (vibeChecks.length === 0) {
-      return renderEmptyState();
+      return pending.length === 0 ? renderEmptyState() : null;
     }
 
     return (
@@ -303,6 +371,11 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
             onVenuePress={
               onVibeCheckPress ? () => onVibeCheckPress(vibeCheck) : undefined
             }
+            currentUserId={user?.id}
+            onVibeCheckUpdated={() => loadVibeChecks(true)}
+            onVibeCheckDeleted={() => loadVibeChecks(true)}
+            userReactions={reactions[vibeCheck.id]}
+            onUserReactionsChange={setUserReactions}
           />
         ))}
       </View>
@@ -321,6 +394,7 @@ const VenueVibeSection: React.FC<VenueVibeSectionProps> = ({
         }
         showsVerticalScrollIndicator={false}
       >
+        {renderPendingVibeChecks()}
         {renderVibeChecks()}
       </ScrollView>
     </ThemedView>
@@ -366,6 +440,17 @@ const getStyles = (colors: typeof Colors.dark) =>
       color: colors.text,
       marginLeft: 6,
     },
+    attributeSummary: {
+      flexDirection: "row",
+      alignItems: "center",
+      marginBottom: 12,
+    },
+    attributeSummaryText: {
+      flex: 1,
+      fontSize: 13,
+      color: colors.muted,
+      marginLeft: 6,
+    },
     postButton: {
       flexDirection: "row",
       alignItems: "center",
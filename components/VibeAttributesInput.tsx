@@ -0,0 +1,244 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  useColorScheme,
+} from "react-native";
+import { ThemedText } from "./ThemedText";
+import { Colors } from "@/constants/Colors";
+import { Ionicons } from "@expo/vector-icons";
+import {
+  VibeCheckAttributes,
+  MUSIC_GENRE_LABELS,
+  QUEUE_LENGTH_LABELS,
+  CROWD_AGE_RANGE_LABELS,
+  DRESS_CODE_LABELS,
+} from "@/src/lib/types";
+import { VIBE_CHECK_CONFIG } from "@/src/lib/constants";
+
+interface VibeAttributesInputProps {
+  value: VibeCheckAttributes;
+  onChange: (value: VibeCheckAttributes) => void;
+}
+
+const VibeAttributesInput: React.FC<VibeAttributesInputProps> = ({
+  value,
+  onChange,
+}) => {
+  const colorScheme = useColorScheme() ?? "dark";
+  const colors = Colors[colorScheme];
+  const styles = getStyles(colors);
+
+  const hasValues = Object.values(value).some((v) => v !== undefined);
+  const [isExpanded, setIsExpanded] = useState(hasValues);
+
+  const update = <K extends keyof VibeCheckAttributes>(
+    key: K,
+    next: VibeCheckAttributes[K]
+  ) => {
+    onChange({ ...value, [key]: next });
+  };
+
+  // Keep digits only, an empty field clears the value
+  const parseWholeNumber = (text: string): number | undefined => {
+    const digits = text.replace(/[^0-9]/g, "");
+    return digits ? parseInt(digits, 10) : undefined;
+  };
+
+  const renderChips = <K extends string | number>(
+    labels: Record<K, string>,
+    selected: K | undefined,
+    onSelect: (key: K | undefined) => void
+  ) => (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.chipRow}
+    >
+      {(Object.keys(labels) as K[]).map((key) => {
+        // Object keys are strings, so compare as strings for numeric labels
+        const isSelected = selected !== undefined && String(selected) === String(key);
+        return (
+          <TouchableOpacity
+            key={String(key)}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={() => onSelect(isSelected ? undefined : key)}
+          >
+            <ThemedText
+              style={[styles.chipText, isSelected && styles.chipTextSelected]}
+            >
+              {labels[key]}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.toggle}
+        onPress={() => setIsExpanded(!isExpanded)}
+      >
+        <ThemedText type="defaultSemiBold" style={styles.toggleText}>
+          Add details (optional)
+        </ThemedText>
+        <Ionicons
+          name={isExpanded ? "chevron-up" : "chevron-down"}
+          size={20}
+          color={colors.muted}
+        />
+      </TouchableOpacity>
+
+      {isExpanded && (
+        <View>
+          <ThemedText style={styles.label}>Music</ThemedText>
+          {renderChips(MUSIC_GENRE_LABELS, value.music_genre, (genre) =>
+            update("music_genre", genre)
+          )}
+
+          <ThemedText style={styles.label}>Queue</ThemedText>
+          {renderChips(QUEUE_LENGTH_LABELS, value.queue_length, (queue) =>
+            onChange({
+              ...value,
+              queue_length: queue,
+              // No queue means no wait
+              wait_minutes: queue === "none" ? undefined : value.wait_minutes,
+            })
+          )}
+          {value.queue_length !== "none" && (
+            <View style={styles.inputRow}>
+              <TextInput
+                style={styles.numberInput}
+                placeholder="Wait"
+                placeholderTextColor={colors.muted}
+                keyboardType="number-pad"
+                maxLength={3}
+                value={value.wait_minutes?.toString() ?? ""}
+                onChangeText={(text) =>
+                  update("wait_minutes", parseWholeNumber(text))
+                }
+              />
+              <ThemedText style={styles.inputSuffix}>min wait</ThemedText>
+            </View>
+          )}
+
+          <ThemedText style={styles.label}>Cover charge</ThemedText>
+          <View style={styles.inputRow}>
+            <ThemedText style={styles.inputPrefix}>
+              {VIBE_CHECK_CONFIG.coverChargeCurrency}
+            </ThemedText>
+            <TextInput
+              style={styles.numberInput}
+              placeholder="0 for free entry"
+              placeholderTextColor={colors.muted}
+              keyboardType="number-pad"
+              maxLength={6}
+              value={value.cover_charge?.toString() ?? ""}
+              onChangeText={(text) =>
+                update("cover_charge", parseWholeNumber(text))
+              }
+            />
+          </View>
+
+          <ThemedText style={styles.label}>Crowd age</ThemedText>
+          {renderChips(CROWD_AGE_RANGE_LABELS, value.crowd_age_range, (range) =>
+            update("crowd_age_range", range)
+          )}
+
+          <ThemedText style={styles.label}>Dress code</ThemedText>
+          {renderChips(DRESS_CODE_LABELS, value.dress_code_rating, (rating) =>
+            update(
+              "dress_code_rating",
+              rating === undefined ? undefined : (Number(rating) as keyof typeof DRESS_CODE_LABELS)
+            )
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const getStyles = (colors: typeof Colors.dark) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 24,
+    },
+    toggle: {
+      flexDirection: "row",
+      justifyContent: "space-between",
+      alignItems: "center",
+      paddingVertical: 12,
+      paddingHorizontal: 16,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    toggleText: {
+      fontSize: 16,
+      color: colors.text,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: "600",
+      color: colors.muted,
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    chipRow: {
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    chipSelected: {
+      borderColor: colors.tint,
+      backgroundColor: `${colors.tint}20`,
+    },
+    chipText: {
+      fontSize: 13,
+      color: colors.text,
+    },
+    chipTextSelected: {
+      color: colors.tint,
+      fontWeight: "600",
+    },
+    inputRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      marginTop: 8,
+      gap: 8,
+    },
+    inputPrefix: {
+      fontSize: 14,
+      fontWeight: "600",
+      color: colors.muted,
+    },
+    inputSuffix: {
+      fontSize: 14,
+      color: colors.muted,
+    },
+    numberInput: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      paddingHorizontal: 16,
+      paddingVertical: 10,
+      fontSize: 16,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+  });
+
+export default VibeAttributesInput;
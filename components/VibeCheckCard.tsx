@@ -1,10 +1,24 @@
-import React from 'react';
-import { View, StyleSheet, TouchableOpacity, Image } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, TouchableOpacity, Image, Alert, Modal } from 'react-native';
 import { ThemedText } from './ThemedText';
 import { ThemedView } from './ThemedView';
 import BusynessIndicator from './BusynessIndicator';
+import VibeCheckForm from './VibeCheckForm';
+import ReportVibeCheckSheet from './ReportVibeCheckSheet';
+import VibeCheckMediaCarousel from './VibeCheckMediaCarousel';
+import { EditWindowCountdown } from './CountdownTimer';
 import { Colors } from '@/constants/Colors';
-import { VibeCheckWithDetails } from '@/src/lib/types';
+import {
+  VibeCheckWithDetails,
+  VibeCheckFormData,
+  VibeCheckReactionType,
+  CROWD_AGE_RANGE_LABELS,
+  DRESS_CODE_LABELS,
+  VIBE_CHECK_REACTION_LABELS,
+} from '@/src/lib/types';
+import { formatCoverCharge, formatMusicGenre, formatQueue } from '@/src/lib/vibeAttributes';
+import { isTrustedContributor } from '@/src/lib/reputation';
+import { VibeCheckService } from '@/src/services/VibeCheckService';
 import { Ionicons } from '@expo/vector-icons';
 
 interface VibeCheckCardProps {
@@ -12,14 +26,44 @@ interface VibeCheckCardProps {
   onVenuePress?: (venueId: string) => void;
   onUserPress?: (userId: string) => void;
   showVenue?: boolean;
+  currentUserId?: string; // Enables the owner edit/delete menu and reporting
+  onVibeCheckUpdated?: (vibeCheck: VibeCheckWithDetails) => void;
+  onVibeCheckDeleted?: (vibeCheckId: string) => void;
+  userReactions?: VibeCheckReactionType[]; // Reactions the current user left on this vibe check
+  onUserReactionsChange?: (vibeCheckId: string, reactions: VibeCheckReactionType[]) => void;
 }
 
+const REACTION_ICONS: Record<VibeCheckReactionType, keyof typeof Ionicons.glyphMap> = {
+  helpful: 'thumbs-up-outline',
+  still_accurate: 'checkmark-circle-outline',
+};
+
 const VibeCheckCard: React.FC<VibeCheckCardProps> = ({
   vibeCheck,
   onVenuePress,
   onUserPress,
   showVenue = false,
+  currentUserId,
+  onVibeCheckUpdated,
+  onVibeCheckDeleted,
+  userReactions = [],
+  onUserReactionsChange,
 }) => {
+  const isOwner = !!currentUserId && currentUserId === vibeCheck.user_id;
+  const [editTimeRemaining, setEditTimeRemaining] = useState(() =>
+    VibeCheckService.getEditTimeRemaining(vibeCheck)
+  );
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isReporting, setIsReporting] = useState(false);
+  const [reactions, setReactions] = useState<VibeCheckReactionType[]>(userReactions);
+  const [pendingReaction, setPendingReaction] = useState<VibeCheckReactionType | null>(null);
+
+  const userReactionsKey = userReactions.join(',');
+  useEffect(() => {
+    setReactions(userReactionsKey ? (userReactionsKey.split(',') as VibeCheckReactionType[]) : []);
+  }, [userReactionsKey]);
+
   const handleVenuePress = () => {
     if (onVenuePress) {
       onVenuePress(vibeCheck.venue_id);
@@ -32,6 +76,98 @@ const VibeCheckCard: React.FC<VibeCheckCardProps> = ({
     }
   };
 
+  const attributeChips: { icon: keyof typeof Ionicons.glyphMap; text: string | null }[] = [
+    { icon: 'musical-notes-outline', text: vibeCheck.music_genre ? formatMusicGenre(vibeCheck.music_genre) : null },
+    { icon: 'time-outline', text: formatQueue(vibeCheck.queue_length, vibeCheck.wait_minutes) },
+    { icon: 'cash-outline', text: typeof vibeCheck.cover_charge === 'number' ? formatCoverCharge(vibeCheck.cover_charge) : null },
+    { icon: 'people-outline', text: vibeCheck.crowd_age_range ? CROWD_AGE_RANGE_LABELS[vibeCheck.crowd_age_range] : null },
+    { icon: 'shirt-outline', text: vibeCheck.dress_code_rating ? DRESS_CODE_LABELS[vibeCheck.dress_code_rating] : null },
+  ];
+  const reportedChips = attributeChips.filter((chip) => chip.text);
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Vibe Check',
+      'Are you sure you want to delete this vibe check?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            const { success, error } = await VibeCheckService.deleteVibeCheck(vibeCheck.id);
+            if (!success) {
+              Alert.alert('Error', error || 'Failed to delete vibe check. Please try again.');
+              return;
+            }
+            onVibeCheckDeleted?.(vibeCheck.id);
+          },
+        },
+      ]
+    );
+  };
+
+  const showOwnerActions = () => {
+    const remaining = VibeCheckService.getEditTimeRemaining(vibeCheck);
+    setEditTimeRemaining(remaining);
+
+    Alert.alert('Your Vibe Check', undefined, [
+      ...(remaining > 0 ? [{ text: 'Edit', onPress: () => setIsEditing(true) }] : []),
+      { text: 'Delete', style: 'destructive' as const, onPress: handleDelete },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const showViewerActions = () => {
+    Alert.alert('Vibe Check', undefined, [
+      { text: 'Report', style: 'destructive', onPress: () => setIsReporting(true) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleReactionPress = async (type: VibeCheckReactionType) => {
+    const hasReacted = reactions.includes(type);
+    setPendingReaction(type);
+    try {
+      const { data: counts, error } = hasReacted
+        ? await VibeCheckService.removeReaction(vibeCheck.id, type)
+        : await VibeCheckService.addReaction(vibeCheck.id, type);
+      if (error || !counts) {
+        Alert.alert('Error', error || 'Failed to save reaction. Please try again.');
+        return;
+      }
+
+      const nextReactions = hasReacted
+        ? reactions.filter((reaction) => reaction !== type)
+        : [...reactions, type];
+      setReactions(nextReactions);
+      onUserReactionsChange?.(vibeCheck.id, nextReactions);
+      onVibeCheckUpdated?.({ ...vibeCheck, ...counts });
+    } finally {
+      setPendingReaction(null);
+    }
+  };
+
+  const reactionCounts: Record<VibeCheckReactionType, number> = {
+    helpful: vibeCheck.helpful_count,
+    still_accurate: vibeCheck.still_accurate_count,
+  };
+
+  const handleEditSubmit = async (data: VibeCheckFormData) => {
+    setIsSubmitting(true);
+    try {
+      const { data: updated, error } = await VibeCheckService.editVibeCheck(vibeCheck, data);
+      if (error || !updated) {
+        Alert.alert('Error', error || 'Failed to update vibe check. Please try again.');
+        return;
+      }
+      setIsEditing(false);
+      onVibeCheckUpdated?.({ ...vibeCheck, ...updated });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   return (
     <ThemedView style={styles.container}>
       {/* Header with user info and venue */}
@@ -56,15 +192,37 @@ const VibeCheckCard: React.FC<VibeCheckCardProps> = ({
             )}
           </View>
           <View style={styles.userDetails}>
-            <ThemedText type="defaultSemiBold" style={styles.userName}>
-              {vibeCheck.user.name}
-            </ThemedText>
+            <View style={styles.userNameRow}>
+              <ThemedText type="defaultSemiBold" style={styles.userName}>
+                {vibeCheck.user.name}
+              </ThemedText>
+              {isTrustedContributor(vibeCheck.user.reputation_score) && (
+                <View style={styles.trustBadge} accessibilityLabel="Trusted contributor">
+                  <Ionicons name="shield-checkmark" size={12} color={Colors.light.tint} />
+                  <ThemedText style={styles.trustBadgeText}>Trusted</ThemedText>
+                </View>
+              )}
+            </View>
             <ThemedText style={styles.timestamp}>
               {vibeCheck.time_ago}
             </ThemedText>
           </View>
         </TouchableOpacity>
 
+        {!!currentUserId && (
+          <TouchableOpacity
+            style={styles.ownerMenuButton}
+            onPress={isOwner ? showOwnerActions : showViewerActions}
+            accessibilityLabel="Vibe check options"
+          >
+            <Ionicons
+              name="ellipsis-horizontal"
+              size={20}
+              color={Colors.light.muted}
+            />
+          </TouchableOpacity>
+        )}
+
         {showVenue && (
           <TouchableOpacity 
             style={styles.venueInfo}
@@ -83,6 +241,16 @@ const VibeCheckCard: React.FC<VibeCheckCardProps> = ({
         )}
       </View>
 
+      {/* Remaining edit window for the owner */}
+      {isOwner && editTimeRemaining > 0 && (
+        <EditWindowCountdown
+          timeRemaining={editTimeRemaining}
+          onComplete={() => setEditTimeRemaining(0)}
+          compact={true}
+          style={styles.editWindow}
+        />
+      )}
+
       {/* Busyness rating */}
       <View style={styles.busynessSection}>
         <BusynessIndicator 
@@ -98,6 +266,18 @@ const VibeCheckCard: React.FC<VibeCheckCardProps> = ({
         )}
       </View>
 
+      {/* Structured details */}
+      {reportedChips.length > 0 && (
+        <View style={styles.attributesSection}>
+          {reportedChips.map((chip) => (
+            <View key={chip.icon} style={styles.attributeChip}>
+              <Ionicons name={chip.icon} size={12} color={Colors.light.muted} />
+              <ThemedText style={styles.attributeText}>{chip.text}</ThemedText>
+            </View>
+          ))}
+        </View>
+      )}
+
       {/* Comment */}
       {vibeCheck.comment && (
         <View style={styles.commentSection}>
@@ -107,17 +287,42 @@ const VibeCheckCard: React.FC<VibeCheckCardProps> = ({
         </View>
       )}
 
-      {/* Photo */}
-      {vibeCheck.photo_url && (
+      {/* Photos and videos */}
+      {vibeCheck.media.length > 0 && (
         <View style={styles.photoSection}>
-          <Image 
-            source={{ uri: vibeCheck.photo_url }} 
-            style={styles.photo}
-            resizeMode="cover"
-          />
+          <VibeCheckMediaCarousel media={vibeCheck.media} />
         </View>
       )}
 
+      {/* Reactions */}
+      <View style={styles.reactionsSection}>
+        {(Object.keys(VIBE_CHECK_REACTION_LABELS) as VibeCheckReactionType[]).map((type) => {
+          const isSelected = reactions.includes(type);
+          // Only live vibe checks can be confirmed, but an existing confirmation can be withdrawn
+          const isUnavailable = type === 'still_accurate' && !vibeCheck.is_recent && !isSelected;
+          return (
+            <TouchableOpacity
+              key={type}
+              style={[styles.reactionButton, isSelected && styles.reactionButtonSelected]}
+              onPress={() => handleReactionPress(type)}
+              disabled={!currentUserId || isOwner || isUnavailable || pendingReaction !== null}
+              accessibilityLabel={VIBE_CHECK_REACTION_LABELS[type]}
+              accessibilityState={{ selected: isSelected }}
+            >
+              <Ionicons
+                name={REACTION_ICONS[type]}
+                size={14}
+                color={isSelected ? Colors.light.tint : Colors.light.muted}
+              />
+              <ThemedText style={[styles.reactionText, isSelected && styles.reactionTextSelected]}>
+                {VIBE_CHECK_REACTION_LABELS[type]}
+                {reactionCounts[type] > 0 ? ` · ${reactionCounts[type]}` : ''}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
       {/* Venue info (when not showing venue in header) */}
       {!showVenue && (
         <TouchableOpacity 
@@ -143,6 +348,40 @@ const VibeCheckCard: React.FC<VibeCheckCardProps> = ({
           )}
         </TouchableOpacity>
       )}
+
+      {/* Owner edit form */}
+      {isOwner && (
+        <Modal
+          visible={isEditing}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={() => setIsEditing(false)}
+        >
+          <VibeCheckForm
+            venue={vibeCheck.venue}
+            editingVibeCheck={vibeCheck}
+            onSubmit={handleEditSubmit}
+            onCancel={() => setIsEditing(false)}
+            isSubmitting={isSubmitting}
+          />
+        </Modal>
+      )}
+
+      {/* Report form for other users' vibe checks */}
+      {!!currentUserId && !isOwner && (
+        <Modal
+          visible={isReporting}
+          animationType="slide"
+          presentationStyle="pageSheet"
+          onRequestClose={() => setIsReporting(false)}
+        >
+          <ReportVibeCheckSheet
+            vibeCheckId={vibeCheck.id}
+            onSubmitted={() => setIsReporting(false)}
+            onCancel={() => setIsReporting(false)}
+          />
+        </Modal>
+      )}
     </ThemedView>
   );
 };
@@ -185,9 +424,29 @@ const styles = StyleSheet.create({
   userDetails: {
     flex: 1,
   },
+  userNameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 2,
+  },
   userName: {
     fontSize: 16,
-    marginBottom: 2,
+  },
+  trustBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 6,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.light.tint,
+  },
+  trustBadgeText: {
+    fontSize: 11,
+    lineHeight: 14,
+    marginLeft: 2,
+    color: Colors.light.tint,
   },
   timestamp: {
     fontSize: 12,
@@ -198,6 +457,14 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     maxWidth: 120,
   },
+  ownerMenuButton: {
+    padding: 4,
+    marginLeft: 8,
+  },
+  editWindow: {
+    alignSelf: 'flex-start',
+    marginBottom: 12,
+  },
   venueName: {
     fontSize: 14,
     color: Colors.light.tint,
@@ -231,6 +498,27 @@ const styles = StyleSheet.create({
     color: Colors.light.background,
     letterSpacing: 0.5,
   },
+  attributesSection: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 12,
+  },
+  attributeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: Colors.light.background,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  attributeText: {
+    fontSize: 12,
+    color: Colors.light.muted,
+  },
   commentSection: {
     marginBottom: 12,
   },
@@ -241,10 +529,32 @@ const styles = StyleSheet.create({
   photoSection: {
     marginBottom: 12,
   },
-  photo: {
-    width: '100%',
-    height: 200,
-    borderRadius: 8,
+  reactionsSection: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  reactionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.light.border,
+  },
+  reactionButtonSelected: {
+    borderColor: Colors.light.tint,
+    backgroundColor: `${Colors.light.tint}20`,
+  },
+  reactionText: {
+    fontSize: 12,
+    color: Colors.light.muted,
+  },
+  reactionTextSelected: {
+    color: Colors.light.tint,
+    fontWeight: '600',
   },
   venueFooter: {
     flexDirection: 'row',
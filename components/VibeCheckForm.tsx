@@ -13,39 +13,81 @@ import {
 import { ThemedText } from "./ThemedText";
 import { ThemedView } from "./ThemedView";
 import StarRating from "./StarRating";
+import VibeAttributesInput from "./VibeAttributesInput";
 import { Colors } from "@/constants/Colors";
 import {
   Venue,
+  VibeCheck,
   VibeCheckFormData,
+  VibeCheckAttributes,
+  VibeCheckMedia,
+  VibeCheckMediaInput,
   BUSYNESS_LABELS,
   BusynessRating,
+  LOCATION_CONFIDENCE_LABELS,
+  LocationConfidence,
+  VenueGeofence,
 } from "@/src/lib/types";
 import { Ionicons } from "@expo/vector-icons";
 import * as ImagePicker from "expo-image-picker";
-import { PhotoUploadProgress } from "@/src/services/PhotoUploadService";
+import { PhotoUploadService } from "@/src/services/PhotoUploadService";
 import { AppError } from "@/src/lib/errors";
 import ErrorDisplay from "./ErrorDisplay";
-import { RateLimitCountdown } from "./CountdownTimer";
+import { RateLimitCountdown, EditWindowCountdown } from "./CountdownTimer";
+import { VibeCheckService } from "@/src/services/VibeCheckService";
 import {
   VibeCheckValidator,
   ValidationResult,
 } from "@/src/lib/vibeCheckValidation";
+import { getVibeCheckAttributes } from "@/src/lib/vibeAttributes";
+import { VIBE_CHECK_CONFIG } from "@/src/lib/constants";
+import { describeGeofenceLimit, getGeofenceMaxDistance } from "@/src/lib/geofence";
 
 interface VibeCheckFormProps {
-  venue: Venue;
+  venue: Pick<Venue, "id" | "name">;
   onSubmit: (data: VibeCheckFormData) => Promise<void>;
   onCancel: () => void;
   isSubmitting: boolean;
   locationVerified?: boolean;
   distanceToVenue?: number;
+  locationConfidence?: LocationConfidence | null;
+  geofence?: VenueGeofence; // Venue's geofence, the default radius when unknown
   error?: AppError | null;
   onRetry?: () => void;
   rateLimitInfo?: {
     canPost: boolean;
     timeUntilReset?: number;
   };
+  // Existing vibe check to edit. Location and rate limits were checked when it was posted.
+  editingVibeCheck?: VibeCheck;
 }
 
+// Items already on the vibe check keep their url as uri, so edits leave them in place
+const toMediaInput = (item: VibeCheckMedia): VibeCheckMediaInput => ({
+  uri: item.url,
+  type: item.type === "video" ? "video/mp4" : "image/jpeg",
+  name: item.url.split("/").pop() || `${item.type}.jpg`,
+  duration_seconds: item.duration_seconds ?? undefined,
+});
+
+const assetToMediaInput = (
+  asset: ImagePicker.ImagePickerAsset
+): VibeCheckMediaInput => {
+  const isVideo = asset.type === "video";
+
+  return {
+    uri: asset.uri,
+    type: asset.mimeType ?? (isVideo ? "video/mp4" : "image/jpeg"),
+    name:
+      asset.fileName ??
+      `vibe_check_${Date.now()}.${isVideo ? "mp4" : "jpg"}`,
+    // The picker reports durations in milliseconds
+    duration_seconds:
+      isVideo && asset.duration != null ? asset.duration / 1000 : undefined,
+    size_bytes: asset.fileSize,
+  };
+};
+
 const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
   venue,
   onSubmit,
@@ -53,25 +95,30 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
   isSubmitting,
   locationVerified = false,
   distanceToVenue,
+  locationConfidence,
+  geofence,
   error,
   onRetry,
   rateLimitInfo,
+  editingVibeCheck,
 }) => {
   const colorScheme = useColorScheme() ?? "dark";
   const colors = Colors[colorScheme];
+  const isEditing = !!editingVibeCheck;
 
-  const [busynessRating, setBusynessRating] = useState<BusynessRating>(3);
-  const [comment, setComment] = useState("");
-  const [photo, setPhoto] = useState<{
-    uri: string;
-    type: string;
-    name: string;
-  } | null>(null);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [uploadProgress, setUploadProgress] =
-    useState<PhotoUploadProgress | null>(null);
-  // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const [isUploadingPhoto, setIsUploadingPhoto] = useState(false);
+  const [busynessRating, setBusynessRating] = useState<BusynessRating>(
+    editingVibeCheck?.busyness_rating ?? 3
+  );
+  const [comment, setComment] = useState(editingVibeCheck?.comment ?? "");
+  const [attributes, setAttributes] = useState<VibeCheckAttributes>(() =>
+    editingVibeCheck ? getVibeCheckAttributes(editingVibeCheck) : {}
+  );
+  const [media, setMedia] = useState<VibeCheckMediaInput[]>(() =>
+    (editingVibeCheck?.media ?? []).map(toMediaInput)
+  );
+  const [editTimeRemaining, setEditTimeRemaining] = useState(() =>
+    editingVibeCheck ? VibeCheckService.getEditTimeRemaining(editingVibeCheck) : 0
+  );
   const [localError, setLocalError] = useState<AppError | null>(null);
   const [isRetrying, setIsRetrying] = useState(false);
   const [validationResult, setValidationResult] = useState<ValidationResult>({
@@ -85,7 +132,8 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
       venue_id: venue.id,
       busyness_rating: busynessRating,
       comment: comment.trim() || undefined,
-      photo: photo || undefined,
+      media: media.length > 0 ? media : undefined,
+      ...attributes,
     };
 
     const locationVerification = locationVerified
@@ -106,7 +154,8 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
     venue.name,
     busynessRating,
     comment,
-    photo,
+    media,
+    attributes,
     locationVerified,
     distanceToVenue,
   ]);
@@ -120,10 +169,14 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
       venue_id: venue.id,
       busyness_rating: busynessRating,
       comment: comment.trim() || undefined,
-      photo: photo || undefined,
+      media: media.length > 0 ? media : undefined,
+      ...attributes,
     };
 
-    const locationVerification = locationVerified
+    // Edits keep the location that was verified when the vibe check was posted
+    const locationVerification = isEditing
+      ? undefined
+      : locationVerified
       ? {
           is_valid: true,
           distance_meters: distanceToVenue || 0,
@@ -152,6 +205,24 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
       return;
     }
 
+    if (isEditing) {
+      if (editTimeRemaining <= 0) {
+        Alert.alert(
+          "Edit Window Closed",
+          "Vibe checks can only be edited within 1 hour of posting.",
+          [{ text: "OK" }]
+        );
+        return;
+      }
+
+      try {
+        await onSubmit(formData);
+      } catch (error) {
+        console.error("Form submission error:", error);
+      }
+      return;
+    }
+
     // Check rate limiting
     if (rateLimitInfo && !rateLimitInfo.canPost) {
       return; // Rate limit countdown should be visible
@@ -161,7 +232,7 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
     if (!locationVerified) {
       Alert.alert(
         "Location Required",
-        "You must be within 100 meters of the venue to post a vibe check.",
+        `You must be ${describeGeofenceLimit(geofence)} to post a vibe check.`,
         [{ text: "OK" }]
       );
       return;
@@ -194,7 +265,18 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
     setLocalError(null);
   };
 
-  const handlePhotoSelect = async () => {
+  const remainingMediaSlots = VIBE_CHECK_CONFIG.maxMediaItems - media.length;
+
+  const addMedia = (assets: ImagePicker.ImagePickerAsset[]) => {
+    setMedia((current) =>
+      [...current, ...assets.map(assetToMediaInput)].slice(
+        0,
+        VIBE_CHECK_CONFIG.maxMediaItems
+      )
+    );
+  };
+
+  const handleMediaSelect = async () => {
     try {
       // Request permission
       const permissionResult =
@@ -203,7 +285,7 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
       if (permissionResult.granted === false) {
         Alert.alert(
           "Permission Required",
-          "Permission to access camera roll is required to add photos.",
+          "Permission to access camera roll is required to add photos and videos.",
           [{ text: "OK" }]
         );
         return;
@@ -211,23 +293,19 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
 
       // Launch image picker
       const result = await ImagePicker.launchImageLibraryAsync({
-        mediaTypes: "images",
-        allowsEditing: true,
-        aspect: [4, 3],
+        mediaTypes: ["images", "videos"],
+        allowsMultipleSelection: true,
+        selectionLimit: remainingMediaSlots,
+        videoMaxDuration: VIBE_CHECK_CONFIG.maxVideoDurationSeconds,
         quality: 0.8,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
-        setPhoto({
-          uri: asset.uri,
-          type: "image/jpeg",
-          name: `vibe_check_${Date.now()}.jpg`,
-        });
+      if (!result.canceled) {
+        addMedia(result.assets);
       }
     } catch (error) {
       console.error(error);
-      Alert.alert("Error", "Failed to select photo. Please try again.", [
+      Alert.alert("Error", "Failed to select media. Please try again.", [
         { text: "OK" },
       ]);
     }
@@ -242,7 +320,7 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
       if (permissionResult.granted === false) {
         Alert.alert(
           "Permission Required",
-          "Permission to access camera is required to take photos.",
+          "Permission to access camera is required to take photos and videos.",
           [{ text: "OK" }]
         );
         return;
@@ -250,51 +328,62 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
 
       // Launch camera
       const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ["images", "videos"],
+        videoMaxDuration: VIBE_CHECK_CONFIG.maxVideoDurationSeconds,
         allowsEditing: true,
         aspect: [4, 3],
         quality: 0.8,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
-        setPhoto({
-          uri: asset.uri,
-          type: "image/jpeg",
-          name: `vibe_check_${Date.now()}.jpg`,
-        });
+      if (!result.canceled) {
+        addMedia(result.assets);
       }
     } catch (error) {
       console.error(error);
-      Alert.alert("Error", "Failed to take photo. Please try again.", [
+      Alert.alert("Error", "Failed to capture media. Please try again.", [
         { text: "OK" },
       ]);
     }
   };
 
-  const showPhotoOptions = () => {
-    Alert.alert("Add Photo", "Choose how you want to add a photo", [
-      { text: "Camera", onPress: handleCameraCapture },
-      { text: "Photo Library", onPress: handlePhotoSelect },
-      { text: "Cancel", style: "cancel" },
-    ]);
+  const showMediaOptions = () => {
+    Alert.alert(
+      "Add Photo or Video",
+      `Videos can be up to ${VIBE_CHECK_CONFIG.maxVideoDurationSeconds} seconds long`,
+      [
+        { text: "Camera", onPress: handleCameraCapture },
+        { text: "Library", onPress: handleMediaSelect },
+        { text: "Cancel", style: "cancel" },
+      ]
+    );
   };
 
-  const removePhoto = () => {
-    setPhoto(null);
+  const removeMedia = (index: number) => {
+    setMedia((current) => current.filter((_, i) => i !== index));
   };
 
+  const maxDistance = getGeofenceMaxDistance(geofence);
+  const isTooFar =
+    distanceToVenue !== undefined &&
+    (maxDistance === null ? !locationVerified : distanceToVenue > maxDistance);
+
   const getLocationStatus = () => {
     if (locationVerified) {
       return {
         icon: "checkmark-circle" as const,
         color: Colors.semantic.success,
-        text: "Location verified",
+        text: locationConfidence
+          ? LOCATION_CONFIDENCE_LABELS[locationConfidence]
+          : "Location verified",
       };
     } else if (distanceToVenue !== undefined) {
       return {
         icon: "warning" as const,
         color: Colors.semantic.warning,
-        text: `${Math.round(distanceToVenue)}m from venue (max 100m)`,
+        text:
+          maxDistance !== null
+            ? `${Math.round(distanceToVenue)}m from venue (max ${maxDistance}m)`
+            : `${Math.round(distanceToVenue)}m from venue`,
       };
     } else {
       return {
@@ -306,10 +395,11 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
   };
 
   const locationStatus = getLocationStatus();
-  const isFormValid =
-    validationResult.isValid &&
-    locationVerified &&
-    (rateLimitInfo ? rateLimitInfo.canPost : true);
+  const isFormValid = isEditing
+    ? validationResult.isValid && editTimeRemaining > 0
+    : validationResult.isValid &&
+      locationVerified &&
+      (rateLimitInfo ? rateLimitInfo.canPost : true);
 
   const styles = getStyles(colors);
 
@@ -322,13 +412,27 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
         {/* Header */}
         <View style={styles.header}>
           <ThemedText type="title" style={styles.title}>
-            Post Vibe Check
+            {isEditing ? "Edit Vibe Check" : "Post Vibe Check"}
           </ThemedText>
           <ThemedText style={styles.venueText}>at {venue.name}</ThemedText>
         </View>
 
-        {/* Location Status */}
-        {!locationVerified && distanceToVenue !== undefined ? (
+        {/* Edit Window / Location Status */}
+        {isEditing ? (
+          editTimeRemaining > 0 ? (
+            <EditWindowCountdown
+              timeRemaining={editTimeRemaining}
+              onComplete={() => setEditTimeRemaining(0)}
+            />
+          ) : (
+            <View style={styles.locationStatus}>
+              <Ionicons name="lock-closed" size={20} color={colors.muted} />
+              <ThemedText style={[styles.locationText, { color: colors.muted }]}>
+                This vibe check can no longer be edited
+              </ThemedText>
+            </View>
+          )
+        ) : !locationVerified && distanceToVenue !== undefined ? (
           <View style={styles.distanceCard}>
             <View style={styles.distanceHeader}>
               <View style={styles.distanceIconContainer}>
@@ -339,7 +443,8 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
                   You are {Math.round(distanceToVenue)}m from venue
                 </ThemedText>
                 <ThemedText style={styles.distanceSubtitle}>
-                  You need to be within 100m to post vibe checks
+                  You need to be {describeGeofenceLimit(geofence)} to post vibe
+                  checks
                 </ThemedText>
               </View>
             </View>
@@ -349,17 +454,16 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
                   style={[
                     styles.distanceProgressFill,
                     {
-                      width: `${Math.min((100 / distanceToVenue) * 100, 100)}%`,
-                      backgroundColor:
-                        distanceToVenue > 100
-                          ? colors.destructive
-                          : colors.tint,
+                      width: `${Math.min(((maxDistance ?? 0) / distanceToVenue) * 100, 100)}%`,
+                      backgroundColor: isTooFar
+                        ? colors.destructive
+                        : colors.tint,
                     },
                   ]}
                 />
               </View>
               <ThemedText style={styles.distanceProgressText}>
-                {distanceToVenue > 100 ? "Too far" : "Close enough"}
+                {isTooFar ? "Too far" : "Close enough"}
               </ThemedText>
             </View>
           </View>
@@ -455,70 +559,66 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
           </View>
         </View>
 
-        {/* Photo */}
+        {/* Structured details */}
+        <VibeAttributesInput value={attributes} onChange={setAttributes} />
+
+        {/* Photos and videos */}
         <View style={styles.section}>
           <ThemedText type="defaultSemiBold" style={styles.sectionTitle}>
-            Add a photo (optional)
+            Add photos or videos (optional)
           </ThemedText>
 
-          {photo ? (
-            <View style={styles.photoContainer}>
-              <Image source={{ uri: photo.uri }} style={styles.photoPreview} />
-              {!isUploadingPhoto && (
-                <TouchableOpacity
-                  style={styles.removePhotoButton}
-                  onPress={removePhoto}
-                >
-                  <Ionicons
-                    name="close-circle"
-                    size={24}
-                    color={Colors.semantic.error}
-                  />
-                </TouchableOpacity>
-              )}
-
-              {/* Upload Progress Overlay */}
-              {uploadProgress && (
-                <View style={styles.uploadProgressOverlay}>
-                  <View style={styles.uploadProgressContainer}>
-                    <ActivityIndicator size="small" color={colors.background} />
-                    <ThemedText style={styles.uploadProgressText}>
-                      Uploading... {Math.round(uploadProgress.percentage)}%
-                    </ThemedText>
-                    <View style={styles.progressBar}>
-                      <View
-                        style={[
-                          styles.progressBarFill,
-                          { width: `${uploadProgress.percentage}%` },
-                        ]}
-                      />
+          {media.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.mediaList}
+            >
+              {media.map((item, index) => (
+                <View key={`${item.uri}-${index}`} style={styles.mediaItem}>
+                  {PhotoUploadService.isVideo(item) ? (
+                    <View style={[styles.mediaPreview, styles.videoPreview]}>
+                      <Ionicons name="videocam" size={28} color={colors.tint} />
+                      {item.duration_seconds != null && (
+                        <ThemedText style={styles.videoDuration}>
+                          {Math.round(item.duration_seconds)}s
+                        </ThemedText>
+                      )}
                     </View>
-                  </View>
+                  ) : (
+                    <Image
+                      source={{ uri: item.uri }}
+                      style={styles.mediaPreview}
+                    />
+                  )}
+                  <TouchableOpacity
+                    style={styles.removeMediaButton}
+                    onPress={() => removeMedia(index)}
+                    accessibilityLabel={`Remove ${
+                      PhotoUploadService.isVideo(item) ? "video" : "photo"
+                    } ${index + 1}`}
+                  >
+                    <Ionicons
+                      name="close-circle"
+                      size={24}
+                      color={Colors.semantic.error}
+                    />
+                  </TouchableOpacity>
                 </View>
-              )}
-            </View>
-          ) : (
+              ))}
+            </ScrollView>
+          )}
+
+          {remainingMediaSlots > 0 && (
             <TouchableOpacity
-              style={[
-                styles.addPhotoButton,
-                isUploadingPhoto && styles.addPhotoButtonDisabled,
-              ]}
-              onPress={showPhotoOptions}
-              disabled={isUploadingPhoto}
+              style={styles.addPhotoButton}
+              onPress={showMediaOptions}
             >
-              {isUploadingPhoto ? (
-                <>
-                  <ActivityIndicator size="small" color={colors.tint} />
-                  <ThemedText style={styles.addPhotoText}>
-                    Processing...
-                  </ThemedText>
-                </>
-              ) : (
-                <>
-                  <Ionicons name="camera" size={24} color={colors.tint} />
-                  <ThemedText style={styles.addPhotoText}>Add Photo</ThemedText>
-                </>
-              )}
+              <Ionicons name="camera" size={24} color={colors.tint} />
+              <ThemedText style={styles.addPhotoText}>
+                Add Photo or Video ({media.length}/
+                {VIBE_CHECK_CONFIG.maxMediaItems})
+              </ThemedText>
             </TouchableOpacity>
           )}
         </View>
@@ -537,15 +637,19 @@ const VibeCheckForm: React.FC<VibeCheckFormProps> = ({
         <TouchableOpacity
           style={[
             styles.submitButton,
-            !locationVerified && !isSubmitting && styles.submitButtonFar,
-            (isSubmitting || (rateLimitInfo && !rateLimitInfo.canPost)) &&
+            !isEditing && !locationVerified && !isSubmitting && styles.submitButtonFar,
+            (isSubmitting || (isEditing ? !isFormValid : rateLimitInfo && !rateLimitInfo.canPost)) &&
               styles.submitButtonDisabled,
           ]}
           onPress={handleSubmit}
-          disabled={isSubmitting || (rateLimitInfo && !rateLimitInfo.canPost)}
+          disabled={isSubmitting || (isEditing ? !isFormValid : rateLimitInfo && !rateLimitInfo.canPost)}
         >
           {isSubmitting ? (
             <ActivityIndicator size="small" color={colors.background} />
+          ) : isEditing ? (
+            <ThemedText style={styles.submitButtonText}>
+              Save Changes
+            </ThemedText>
           ) : !locationVerified ? (
             <View style={styles.submitButtonContent}>
               <ThemedText style={styles.submitButtonEmoji}>😢</ThemedText>
@@ -692,18 +796,34 @@ const getStyles = (colors: typeof Colors.dark) =>
       fontSize: 12,
       color: colors.muted,
     },
-    photoContainer: {
+    mediaList: {
+      gap: 8,
+      marginBottom: 12,
+    },
+    mediaItem: {
       position: "relative",
     },
-    photoPreview: {
-      width: "100%",
-      height: 200,
+    mediaPreview: {
+      width: 120,
+      height: 120,
       borderRadius: 12,
     },
-    removePhotoButton: {
+    videoPreview: {
+      alignItems: "center",
+      justifyContent: "center",
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    videoDuration: {
+      marginTop: 4,
+      fontSize: 12,
+      color: colors.muted,
+    },
+    removeMediaButton: {
       position: "absolute",
-      top: 8,
-      right: 8,
+      top: 4,
+      right: 4,
       backgroundColor: colors.background,
       borderRadius: 12,
     },
@@ -724,43 +844,6 @@ const getStyles = (colors: typeof Colors.dark) =>
       color: colors.tint,
       fontWeight: "500",
     },
-    addPhotoButtonDisabled: {
-      opacity: 0.6,
-    },
-    uploadProgressOverlay: {
-      position: "absolute",
-      top: 0,
-      left: 0,
-      right: 0,
-      bottom: 0,
-      backgroundColor: "rgba(0, 0, 0, 0.7)",
-      borderRadius: 12,
-      justifyContent: "center",
-      alignItems: "center",
-    },
-    uploadProgressContainer: {
-      alignItems: "center",
-      padding: 20,
-    },
-    uploadProgressText: {
-      color: colors.background,
-      fontSize: 14,
-      fontWeight: "500",
-      marginTop: 8,
-      marginBottom: 12,
-    },
-    progressBar: {
-      width: 120,
-      height: 4,
-      backgroundColor: "rgba(255, 255, 255, 0.3)",
-      borderRadius: 2,
-      overflow: "hidden",
-    },
-    progressBarFill: {
-      height: "100%",
-      backgroundColor: colors.background,
-      borderRadius: 2,
-    },
     actionButtons: {
       flexDirection: "row",
       padding: 20,
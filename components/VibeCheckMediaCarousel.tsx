@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from "react";
+import {
+  View,
+  Image,
+  ScrollView,
+  StyleSheet,
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  useColorScheme,
+} from "react-native";
+import { useVideoPlayer, VideoView } from "expo-video";
+import { Colors } from "@/constants/Colors";
+import { VibeCheckMedia } from "@/src/lib/types";
+
+interface VibeCheckMediaCarouselProps {
+  media: VibeCheckMedia[];
+  height?: number;
+}
+
+// Clips stay paused until tapped so scrolling a feed doesn't start playback
+const VideoSlide: React.FC<{ url: string; style: object }> = ({
+  url,
+  style,
+}) => {
+  const player = useVideoPlayer(url, (videoPlayer) => {
+    videoPlayer.loop = true;
+  });
+
+  return (
+    <VideoView
+      player={player}
+      style={style}
+      contentFit="cover"
+      nativeControls
+      allowsFullscreen
+    />
+  );
+};
+
+const VibeCheckMediaCarousel: React.FC<VibeCheckMediaCarouselProps> = ({
+  media,
+  height = 200,
+}) => {
+  const colorScheme = useColorScheme() ?? "dark";
+  const colors = Colors[colorScheme];
+  const styles = useMemo(() => getStyles(colors), [colors]);
+
+  const [width, setWidth] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  if (media.length === 0) {
+    return null;
+  }
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    if (width === 0) return;
+    setActiveIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+  };
+
+  const slideStyle = { width, height };
+
+  return (
+    <View style={styles.container} onLayout={handleLayout}>
+      {width > 0 && (
+        <ScrollView
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          onMomentumScrollEnd={handleScroll}
+          style={styles.slides}
+        >
+          {media.map((item, index) =>
+            item.type === "video" ? (
+              <VideoSlide
+                key={`${item.url}-${index}`}
+                url={item.url}
+                style={slideStyle}
+              />
+            ) : (
+              <Image
+                key={`${item.url}-${index}`}
+                source={{ uri: item.url }}
+                style={slideStyle}
+                resizeMode="cover"
+              />
+            )
+          )}
+        </ScrollView>
+      )}
+
+      {media.length > 1 && (
+        <View style={styles.dots}>
+          {media.map((item, index) => (
+            <View
+              key={`${item.url}-${index}`}
+              style={[styles.dot, index === activeIndex && styles.dotActive]}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const getStyles = (colors: any) =>
+  StyleSheet.create({
+    container: {
+      width: "100%",
+    },
+    slides: {
+      borderRadius: 8,
+    },
+    dots: {
+      flexDirection: "row",
+      justifyContent: "center",
+      gap: 6,
+      marginTop: 8,
+    },
+    dot: {
+      width: 6,
+      height: 6,
+      borderRadius: 3,
+      backgroundColor: colors.border,
+    },
+    dotActive: {
+      backgroundColor: colors.tint,
+    },
+  });
+
+export default VibeCheckMediaCarousel;
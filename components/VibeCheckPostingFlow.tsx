@@ -13,11 +13,14 @@ import {
   Venue,
   VibeCheckFormData,
   LocationVerification,
+  VibeCheckMediaInput,
+  VIBE_CHECK_MEDIA_TYPE_LABELS,
 } from '@/src/lib/types';
 import { VibeCheckService } from '@/src/services/VibeCheckService';
 import { LocationVerificationService } from '@/src/services/LocationVerificationService';
 import { PhotoUploadService, PhotoUploadProgress } from '@/src/services/PhotoUploadService';
 import { AppError, ErrorFactory } from '@/src/lib/errors';
+import { ConnectivityManager } from '@/src/lib/connectivity';
 import * as Location from 'expo-location';
 
 interface VibeCheckPostingFlowProps {
@@ -48,7 +51,9 @@ const VibeCheckPostingFlow: React.FC<VibeCheckPostingFlowProps> = ({
     step: 'loading',
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<PhotoUploadProgress | null>(null);
+  // One entry per photo or video clip being uploaded
+  const [uploadProgress, setUploadProgress] = useState<PhotoUploadProgress[] | null>(null);
+  const [uploadingMedia, setUploadingMedia] = useState<VibeCheckMediaInput[]>([]);
 
   // Initialize the flow by checking location and rate limits
   const initializeFlow = useCallback(async () => {
@@ -86,6 +91,18 @@ const VibeCheckPostingFlow: React.FC<VibeCheckPostingFlowProps> = ({
         venue
       );
 
+      // Mocked or imprecise fixes can't be fixed by walking closer, so explain them instead of showing the form
+      if (
+        verification.failure_reason === 'mocked' ||
+        verification.failure_reason === 'inaccurate'
+      ) {
+        setFlowState({
+          step: 'error',
+          error: LocationVerificationService.getVerificationError(verification),
+        });
+        return;
+      }
+
       // Step 4: Set up form state
       setFlowState({
         step: 'form',
@@ -113,45 +130,47 @@ const VibeCheckPostingFlow: React.FC<VibeCheckPostingFlowProps> = ({
     setIsSubmitting(true);
     
     try {
-      // Step 1: Upload photo if provided
-      let photoUrl: string | null = null;
-      if (formData.photo) {
-        setUploadProgress({ loaded: 0, total: 100, percentage: 0 });
-        
-        const photoResult = await PhotoUploadService.uploadPhoto(
-          formData.photo,
-          userId,
-          {
-            quality: 0.8,
-            maxWidth: 1200,
-            maxHeight: 1200,
-            onProgress: setUploadProgress,
-          }
-        );
+      // Offline: the service queues the vibe check in the outbox and uploads the media on replay
+      const isConnected = await ConnectivityManager.isConnected();
+      const media = formData.media ?? [];
 
-        if (photoResult.error) {
-          throw new Error(photoResult.error);
-        }
-        
-        photoUrl = photoResult.data;
-        setUploadProgress(null);
+      if (media.length > 0 && isConnected) {
+        setUploadingMedia(media);
+        setUploadProgress(media.map(() => ({ loaded: 0, total: 100, percentage: 0 })));
       }
 
-      // Step 2: Create vibe check with location verification
-      const vibeCheckData: VibeCheckFormData = {
-        ...formData,
-        photo: photoUrl ? { uri: photoUrl, type: 'image/jpeg', name: 'uploaded' } : undefined,
-      };
-
+      // Upload media and create the vibe check with location verification
       const result = await VibeCheckService.createVibeCheck(
-        vibeCheckData,
-        flowState.userLocation
+        formData,
+        flowState.userLocation,
+        {
+          venue: { id: venue.id, name: venue.name, address: venue.address },
+          onMediaProgress: (index, progress) =>
+            setUploadProgress(prev =>
+              prev ? prev.map((item, i) => (i === index ? progress : item)) : prev
+            ),
+        }
       );
 
       if (result.error) {
         throw result.error;
       }
 
+      if (result.queued) {
+        setFlowState({ step: 'success' });
+        Alert.alert(
+          'Saved Offline',
+          "You're offline right now. Your vibe check will be posted automatically when you reconnect.",
+          [
+            {
+              text: 'OK',
+              onPress: onSuccess,
+            },
+          ]
+        );
+        return;
+      }
+
       // Step 3: Success
       setFlowState({ step: 'success' });
       
@@ -267,6 +286,8 @@ const VibeCheckPostingFlow: React.FC<VibeCheckPostingFlowProps> = ({
             isSubmitting={isSubmitting}
             locationVerified={flowState.locationVerification?.is_valid}
             distanceToVenue={flowState.locationVerification?.distance_meters}
+            locationConfidence={flowState.locationVerification?.confidence}
+            geofence={flowState.locationVerification?.geofence}
             error={flowState.error}
             onRetry={handleRetry}
             rateLimitInfo={flowState.rateLimitInfo}
@@ -278,16 +299,30 @@ const VibeCheckPostingFlow: React.FC<VibeCheckPostingFlowProps> = ({
               <View style={styles.uploadContainer}>
                 <ActivityIndicator size="large" color={Colors.light.tint} />
                 <ThemedText style={styles.uploadText}>
-                  Uploading photo... {Math.round(uploadProgress.percentage)}%
+                  Uploading {uploadProgress.length === 1 ? 'media' : `${uploadProgress.length} items`}...
                 </ThemedText>
-                <View style={styles.progressBar}>
-                  <View
-                    style={[
-                      styles.progressBarFill,
-                      { width: `${uploadProgress.percentage}%` },
-                    ]}
-                  />
-                </View>
+                {uploadProgress.map((progress, index) => {
+                  const item = uploadingMedia[index];
+                  const label = item && PhotoUploadService.isVideo(item)
+                    ? VIBE_CHECK_MEDIA_TYPE_LABELS.video
+                    : VIBE_CHECK_MEDIA_TYPE_LABELS.image;
+
+                  return (
+                    <View key={index} style={styles.uploadItem}>
+                      <ThemedText style={styles.uploadItemLabel}>
+                        {label} {index + 1} · {Math.round(progress.percentage)}%
+                      </ThemedText>
+                      <View style={styles.progressBar}>
+                        <View
+                          style={[
+                            styles.progressBarFill,
+                            { width: `${progress.percentage}%` },
+                          ]}
+                        />
+                      </View>
+                    </View>
+                  );
+                })}
               </View>
             </View>
           )}
@@ -372,6 +407,14 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 16,
   },
+  uploadItem: {
+    marginBottom: 12,
+  },
+  uploadItemLabel: {
+    fontSize: 13,
+    color: Colors.light.muted,
+    marginBottom: 4,
+  },
   progressBar: {
     width: 150,
     height: 4,
@@ -0,0 +1,94 @@
+import React, { act } from 'react';
+// @ts-expect-error react-test-renderer ships without type declarations
+import TestRenderer from 'react-test-renderer';
+import JoinGroupScreen from '@/app/groups/join/[code]';
+import { supabase } from '@/src/lib/supabase';
+
+// Mock React Native components for Node environment
+jest.mock('react-native', () => ({
+  View: 'View',
+  Text: 'Text',
+  TouchableOpacity: 'TouchableOpacity',
+  ActivityIndicator: 'ActivityIndicator',
+  StyleSheet: {
+    create: (styles: any) => styles,
+  },
+  useColorScheme: () => 'dark',
+}));
+
+jest.mock('expo-router', () => ({
+  Stack: {
+    Screen: () => null,
+  },
+  router: {
+    back: jest.fn(),
+    canGoBack: jest.fn(() => false),
+    replace: jest.fn(),
+  },
+  useLocalSearchParams: () => ({ code: '3F9A0C1B' }),
+}));
+
+jest.mock('expo-location', () => ({
+  Accuracy: {
+    High: 'high',
+  },
+}));
+
+jest.mock('@/src/lib/supabase', () => ({
+  supabase: {
+    rpc: jest.fn(),
+  },
+}));
+
+const mockRpc = supabase.rpc as jest.Mock;
+
+const invite = {
+  id: 'group-1',
+  name: 'Friday',
+  date: '2099-06-13',
+  time: '21:30',
+  max_size: 6,
+  is_public: false,
+  venue_name: null,
+  member_count: 2,
+};
+
+// Text shown on the screen, one string per Text element
+const shownText = (renderer: any): string[] =>
+  renderer.root.findAllByType('Text').map((node: any) => [node.props.children].flat().join(''));
+
+describe('JoinGroupScreen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('should show the reason join_group_by_invite() gave for not joining', async () => {
+    // PostgREST errors are plain objects, not Errors
+    mockRpc.mockImplementation(async (name: string) =>
+      name === 'get_group_by_invite'
+        ? { data: [invite], error: null }
+        : { data: null, error: { message: 'This group is full', code: 'P0001', details: null, hint: null } }
+    );
+
+    let renderer: any;
+    await act(async () => {
+      renderer = TestRenderer.create(<JoinGroupScreen />);
+    });
+
+    // The header's back button is the other one
+    const joinButton = renderer.root
+      .findAllByType('TouchableOpacity')
+      .find((node: any) => node.props.disabled === false);
+    await act(async () => {
+      await joinButton.props.onPress();
+    });
+
+    expect(mockRpc).toHaveBeenCalledWith('join_group_by_invite', { p_invite_code: '3F9A0C1B' });
+    expect(shownText(renderer)).toContain('This group is full');
+  });
+});
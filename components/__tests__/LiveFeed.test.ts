@@ -35,7 +35,11 @@ jest.mock("@/src/services/PhotoUploadService", () => ({
 }));
 
 // Mock the VibeCheckService
-jest.mock("@/src/services/VibeCheckService");
+jest.mock("@/src/services/VibeCheckService", () => ({
+  VibeCheckService: {
+    getLiveVibeChecks: jest.fn(),
+  },
+}));
 const mockVibeCheckService = VibeCheckService as jest.Mocked<
   typeof VibeCheckService
 >;
@@ -69,9 +73,23 @@ const mockVibeChecks: VibeCheckWithDetails[] = [
     busyness_rating: 4,
     comment: "Great atmosphere!",
     photo_url: null,
+    media: [],
+    location_accuracy_meters: null,
+    location_confidence: null,
     user_latitude: 40.7128,
     user_longitude: -74.006,
     created_at: new Date().toISOString(),
+    music_genre: null,
+    queue_length: null,
+    wait_minutes: null,
+    cover_charge: null,
+    crowd_age_range: null,
+    dress_code_rating: null,
+    helpful_count: 0,
+    still_accurate_count: 0,
+    last_confirmed_at: null,
+    report_count: 0,
+    hidden_at: null,
     user: {
       id: "user-1",
       name: "John Doe",
@@ -92,9 +110,23 @@ const mockVibeChecks: VibeCheckWithDetails[] = [
     busyness_rating: 3,
     comment: "Pretty good vibes",
     photo_url: null,
+    media: [],
+    location_accuracy_meters: null,
+    location_confidence: null,
     user_latitude: 40.7128,
     user_longitude: -74.006,
     created_at: new Date(Date.now() - 10 * 60 * 1000).toISOString(), // 10 minutes ago
+    music_genre: null,
+    queue_length: null,
+    wait_minutes: null,
+    cover_charge: null,
+    crowd_age_range: null,
+    dress_code_rating: null,
+    helpful_count: 0,
+    still_accurate_count: 0,
+    last_confirmed_at: null,
+    report_count: 0,
+    hidden_at: null,
     user: {
       id: "user-2",
       name: "Jane Smith",
@@ -115,9 +147,23 @@ const mockVibeChecks: VibeCheckWithDetails[] = [
     busyness_rating: 5,
     comment: "Packed house!",
     photo_url: null,
+    media: [],
+    location_accuracy_meters: null,
+    location_confidence: null,
     user_latitude: 40.7589,
     user_longitude: -73.9851,
     created_at: new Date(Date.now() - 30 * 60 * 1000).toISOString(), // 30 minutes ago
+    music_genre: null,
+    queue_length: null,
+    wait_minutes: null,
+    cover_charge: null,
+    crowd_age_range: null,
+    dress_code_rating: null,
+    helpful_count: 0,
+    still_accurate_count: 0,
+    last_confirmed_at: null,
+    report_count: 0,
+    hidden_at: null,
     user: {
       id: "user-3",
       name: "Bob Wilson",
@@ -50,6 +50,25 @@ describe('LiveIndicator Logic', () => {
     });
   });
 
+  describe('Trending badge visibility', () => {
+    const shouldRender = (
+      hasLiveActivity: boolean,
+      recentVibeCount: number,
+      trendingReason?: string | null
+    ) => {
+      return hasLiveActivity || recentVibeCount > 0 || !!trendingReason;
+    };
+
+    it('should render a trending venue without live activity', () => {
+      expect(shouldRender(false, 0, '4× the usual vibe checks')).toBe(true);
+    });
+
+    it('should not render for an empty or missing reason', () => {
+      expect(shouldRender(false, 0, '')).toBe(false);
+      expect(shouldRender(false, 0, null)).toBe(false);
+    });
+  });
+
   describe('Busyness rounding logic', () => {
     // Test the logic for rounding average busyness to nearest integer
     const roundBusyness = (averageBusyness: number | null): 1 | 2 | 3 | 4 | 5 | null => {
@@ -68,6 +68,9 @@ describe('VenueVibeSection Logic', () => {
     hours: null,
     cover_image_url: null,
     cover_video_url: null,
+    geofence_radius_meters: null,
+    geofence_polygon: null,
+    tags: [],
     latitude: 40.7128,
     longitude: -74.0060,
     address: '123 Test St',
@@ -82,9 +85,23 @@ describe('VenueVibeSection Logic', () => {
     busyness_rating: 4,
     comment: 'Great atmosphere!',
     photo_url: 'https://example.com/photo.jpg',
+    media: [{ type: 'image', url: 'https://example.com/photo.jpg' }],
+    location_accuracy_meters: null,
+    location_confidence: null,
     user_latitude: 40.7128,
     user_longitude: -74.0060,
     created_at: '2024-01-01T20:00:00Z',
+    music_genre: null,
+    queue_length: null,
+    wait_minutes: null,
+    cover_charge: null,
+    crowd_age_range: null,
+    dress_code_rating: null,
+    helpful_count: 0,
+    still_accurate_count: 0,
+    last_confirmed_at: null,
+    report_count: 0,
+    hidden_at: null,
     user: {
       id: 'user-1',
       name: 'Test User',
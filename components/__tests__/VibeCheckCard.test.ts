@@ -40,9 +40,23 @@ describe('VibeCheckCard Logic', () => {
         busyness_rating: 4,
         comment: 'Great atmosphere tonight!',
         photo_url: 'https://example.com/photo.jpg',
+        media: [{ type: 'image', url: 'https://example.com/photo.jpg' }],
+        location_accuracy_meters: null,
+        location_confidence: null,
         user_latitude: 40.7128,
         user_longitude: -74.0060,
         created_at: now.toISOString(),
+        music_genre: null,
+        queue_length: null,
+        wait_minutes: null,
+        cover_charge: null,
+        crowd_age_range: null,
+        dress_code_rating: null,
+        helpful_count: 0,
+        still_accurate_count: 0,
+        last_confirmed_at: null,
+        report_count: 0,
+        hidden_at: null,
         user: {
           id: 'user-123',
           name: 'John Doe',
@@ -92,6 +106,20 @@ describe('VibeCheckCard Logic', () => {
         user_latitude: 40.7128,
         user_longitude: -74.0060,
         created_at: new Date().toISOString(),
+        media: [],
+        location_accuracy_meters: null,
+        location_confidence: null,
+        music_genre: null,
+        queue_length: null,
+        wait_minutes: null,
+        cover_charge: null,
+        crowd_age_range: null,
+        dress_code_rating: null,
+        helpful_count: 0,
+        still_accurate_count: 0,
+        last_confirmed_at: null,
+        report_count: 0,
+        hidden_at: null,
         user: {
           id: 'user-123',
           name: 'Jane Doe',
@@ -120,9 +148,23 @@ describe('VibeCheckCard Logic', () => {
         busyness_rating: 5 as const,
         comment: 'Amazing night!',
         photo_url: 'https://example.com/photo.jpg',
+        media: [{ type: 'image', url: 'https://example.com/photo.jpg' }],
+        location_accuracy_meters: null,
+        location_confidence: null,
         user_latitude: 40.7128,
         user_longitude: -74.0060,
         created_at: new Date().toISOString(),
+        music_genre: null,
+        queue_length: null,
+        wait_minutes: null,
+        cover_charge: null,
+        crowd_age_range: null,
+        dress_code_rating: null,
+        helpful_count: 0,
+        still_accurate_count: 0,
+        last_confirmed_at: null,
+        report_count: 0,
+        hidden_at: null,
         user: {
           id: 'user-123',
           name: 'Jane Doe',
@@ -56,6 +56,9 @@ describe('VibeCheckForm Logic', () => {
       hours: null,
       cover_image_url: null,
       cover_video_url: null,
+      geofence_radius_meters: null,
+      geofence_polygon: null,
+      tags: [],
       latitude: 40.7128,
       longitude: -74.0060,
       address: '123 Test St',
@@ -82,17 +85,19 @@ describe('VibeCheckForm Logic', () => {
         venue_id: venue.id,
         busyness_rating: 3,
         comment: 'Great atmosphere tonight!',
-        photo: {
-          uri: 'file://photo.jpg',
-          type: 'image/jpeg',
-          name: 'vibe_check_photo.jpg',
-        },
+        media: [
+          {
+            uri: 'file://photo.jpg',
+            type: 'image/jpeg',
+            name: 'vibe_check_photo.jpg',
+          },
+        ],
       };
 
       expect(formData.comment).toBe('Great atmosphere tonight!');
-      expect(formData.photo).toBeDefined();
-      expect(formData.photo?.uri).toBe('file://photo.jpg');
-      expect(formData.photo?.type).toBe('image/jpeg');
+      expect(formData.media).toHaveLength(1);
+      expect(formData.media?.[0].uri).toBe('file://photo.jpg');
+      expect(formData.media?.[0].type).toBe('image/jpeg');
     });
 
     it('should validate comment length limit', () => {
@@ -234,7 +234,7 @@ describe('VibeCheckPostingFlow', () => {
           venue_id: 'venue-1',
           busyness_rating: 4 as const,
           comment: 'Great atmosphere!',
-          photo: mockPhoto,
+          media: [mockPhoto],
         };
 
         // Manually call the submission logic
@@ -68,6 +68,14 @@ export const Colors = {
     color4: lightBlue,
     color5: green,
   },
+  // Busyness levels, green (dead) to red (packed)
+  busyness: {
+    1: green,
+    2: '#84CC16', // Light green
+    3: '#F59E0B', // Yellow
+    4: '#F97316', // Orange
+    5: orangeRed,
+  },
   // Semantic colors
   semantic: {
     success: green,
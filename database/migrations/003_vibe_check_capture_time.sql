@@ -0,0 +1,43 @@
+-- Migration: Allow offline vibe checks to keep their capture time
+-- Date: 2025-02-03
+-- Description: Vibe checks queued in the client outbox are replayed after the device
+-- comes back online and are inserted with created_at set to the original capture time.
+-- This trigger bounds how far a client may backdate a vibe check so the outbox can't be
+-- used to slip old reports into the live feed or around the hourly rate limit.
+
+-- Reject vibe checks captured too long ago and clamp timestamps in the future
+CREATE OR REPLACE FUNCTION public.enforce_vibe_check_capture_time()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.created_at IS NULL OR NEW.created_at > NOW() THEN
+        NEW.created_at := NOW();
+    END IF;
+
+    IF NEW.created_at < NOW() - INTERVAL '2 hours' THEN
+        RAISE EXCEPTION 'Vibe check capture time is too old to be posted'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_vibe_check_capture_time_trigger ON public.vibe_checks;
+CREATE TRIGGER enforce_vibe_check_capture_time_trigger
+    BEFORE INSERT ON public.vibe_checks
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_vibe_check_capture_time();
+
+COMMENT ON FUNCTION public.enforce_vibe_check_capture_time IS 'Bounds client supplied created_at for vibe checks replayed from the offline outbox';
+
+-- Verify the trigger was created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_trigger
+        WHERE tgname = 'enforce_vibe_check_capture_time_trigger'
+    ) THEN
+        RAISE NOTICE 'enforce_vibe_check_capture_time_trigger created successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to create enforce_vibe_check_capture_time_trigger';
+    END IF;
+END $$;
@@ -0,0 +1,41 @@
+-- Migration: Restrict vibe check edits to user content
+-- Date: 2025-02-05
+-- Description: Owners can edit their vibe checks within 1 hour of posting. The update policy
+-- only checks the existing row, so this trigger stops edits from moving a vibe check to another
+-- venue, changing the verified location, or resetting created_at to extend the edit window.
+
+CREATE OR REPLACE FUNCTION public.prevent_vibe_check_immutable_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.venue_id IS DISTINCT FROM OLD.venue_id
+        OR NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.user_latitude IS DISTINCT FROM OLD.user_latitude
+        OR NEW.user_longitude IS DISTINCT FROM OLD.user_longitude
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Only the rating, comment and photo of a vibe check can be edited'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_vibe_check_immutable_updates_trigger ON public.vibe_checks;
+CREATE TRIGGER prevent_vibe_check_immutable_updates_trigger
+    BEFORE UPDATE ON public.vibe_checks
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_vibe_check_immutable_updates();
+
+COMMENT ON FUNCTION public.prevent_vibe_check_immutable_updates IS 'Limits vibe check edits to busyness_rating, comment and photo_url';
+
+-- Verify the trigger was created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_trigger
+        WHERE tgname = 'prevent_vibe_check_immutable_updates_trigger'
+    ) THEN
+        RAISE NOTICE 'prevent_vibe_check_immutable_updates_trigger created successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to create prevent_vibe_check_immutable_updates_trigger';
+    END IF;
+END $$;
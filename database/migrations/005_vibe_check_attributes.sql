@@ -0,0 +1,31 @@
+-- Migration: Add structured attributes to vibe checks
+-- Date: 2025-02-12
+-- Description: Optional music genre, queue, cover charge, crowd age and dress code details,
+-- so venues can show "~15 min queue, Afrobeats, KES 500 cover" alongside the busyness rating.
+
+ALTER TABLE public.vibe_checks
+    ADD COLUMN IF NOT EXISTS music_genre TEXT CHECK (LENGTH(music_genre) <= 40),
+    ADD COLUMN IF NOT EXISTS queue_length TEXT CHECK (queue_length IN ('none', 'short', 'medium', 'long')),
+    ADD COLUMN IF NOT EXISTS wait_minutes SMALLINT CHECK (wait_minutes >= 0 AND wait_minutes <= 240),
+    ADD COLUMN IF NOT EXISTS cover_charge INTEGER CHECK (cover_charge >= 0 AND cover_charge <= 100000),
+    ADD COLUMN IF NOT EXISTS crowd_age_range TEXT CHECK (crowd_age_range IN ('18-24', '25-34', '35-44', '45+', 'mixed')),
+    ADD COLUMN IF NOT EXISTS dress_code_rating SMALLINT CHECK (dress_code_rating >= 1 AND dress_code_rating <= 5);
+
+COMMENT ON COLUMN public.vibe_checks.wait_minutes IS 'Reported wait to get in, in minutes';
+COMMENT ON COLUMN public.vibe_checks.cover_charge IS 'Reported entry fee in the local currency, 0 for free entry';
+COMMENT ON COLUMN public.vibe_checks.dress_code_rating IS 'Dress code strictness from 1 (anything goes) to 5 (strict)';
+
+-- Verify the columns were added successfully
+DO $$
+BEGIN
+    IF (
+        SELECT COUNT(*) FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'vibe_checks'
+        AND column_name IN ('music_genre', 'queue_length', 'wait_minutes', 'cover_charge', 'crowd_age_range', 'dress_code_rating')
+    ) = 6 THEN
+        RAISE NOTICE 'vibe_checks attribute columns added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add vibe_checks attribute columns';
+    END IF;
+END $$;
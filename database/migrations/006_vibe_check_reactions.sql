@@ -0,0 +1,166 @@
+-- Migration: Add helpful / still accurate reactions to vibe checks
+-- Date: 2025-02-19
+-- Description: Users can mark other people's vibe checks as helpful or confirm they are still
+-- accurate. Reaction counts are kept on vibe_checks so they reach clients through the existing
+-- vibe_checks realtime subscription. A "still accurate" confirmation sets last_confirmed_at, which
+-- keeps the vibe check counting toward live activity and busyness averages.
+
+ALTER TABLE public.vibe_checks
+    ADD COLUMN IF NOT EXISTS helpful_count INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN IF NOT EXISTS still_accurate_count INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN IF NOT EXISTS last_confirmed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_vibe_checks_venue_confirmed
+ON public.vibe_checks(venue_id, last_confirmed_at DESC)
+WHERE last_confirmed_at IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.vibe_check_reactions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    vibe_check_id UUID REFERENCES public.vibe_checks(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    reaction_type TEXT NOT NULL CHECK (reaction_type IN ('helpful', 'still_accurate')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraint: One reaction of each type per user per vibe check
+    CONSTRAINT unique_user_vibe_check_reaction UNIQUE (vibe_check_id, user_id, reaction_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vibe_check_reactions_vibe_check ON public.vibe_check_reactions(vibe_check_id);
+CREATE INDEX IF NOT EXISTS idx_vibe_check_reactions_user ON public.vibe_check_reactions(user_id);
+
+-- RLS Policies for Vibe Check Reactions
+ALTER TABLE public.vibe_check_reactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view vibe check reactions" ON public.vibe_check_reactions;
+CREATE POLICY "Anyone can view vibe check reactions" ON public.vibe_check_reactions FOR SELECT USING (true);
+
+-- Users can react to other people's vibe checks. Only live vibe checks can be confirmed.
+DROP POLICY IF EXISTS "Users can react to others' vibe checks" ON public.vibe_check_reactions;
+CREATE POLICY "Users can react to others' vibe checks" ON public.vibe_check_reactions FOR INSERT
+WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+        SELECT 1 FROM public.vibe_checks vc
+        WHERE vc.id = vibe_check_id
+        AND vc.user_id <> auth.uid()
+        AND (
+            reaction_type = 'helpful'
+            OR GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '2 hours'
+        )
+    )
+);
+
+DROP POLICY IF EXISTS "Users can remove own reactions" ON public.vibe_check_reactions;
+CREATE POLICY "Users can remove own reactions" ON public.vibe_check_reactions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Keep the reaction counts and last confirmation time on vibe_checks in sync.
+-- Runs as the table owner because reactions update vibe checks owned by other users.
+CREATE OR REPLACE FUNCTION public.sync_vibe_check_reaction_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_id UUID;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        target_id := OLD.vibe_check_id;
+    ELSE
+        target_id := NEW.vibe_check_id;
+    END IF;
+
+    UPDATE public.vibe_checks
+    SET
+        helpful_count = (
+            SELECT COUNT(*) FROM public.vibe_check_reactions r
+            WHERE r.vibe_check_id = target_id AND r.reaction_type = 'helpful'
+        ),
+        still_accurate_count = (
+            SELECT COUNT(*) FROM public.vibe_check_reactions r
+            WHERE r.vibe_check_id = target_id AND r.reaction_type = 'still_accurate'
+        ),
+        last_confirmed_at = (
+            SELECT MAX(r.created_at) FROM public.vibe_check_reactions r
+            WHERE r.vibe_check_id = target_id AND r.reaction_type = 'still_accurate'
+        )
+    WHERE id = target_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_vibe_check_reaction_counts_trigger ON public.vibe_check_reactions;
+CREATE TRIGGER sync_vibe_check_reaction_counts_trigger
+    AFTER INSERT OR DELETE ON public.vibe_check_reactions
+    FOR EACH ROW EXECUTE FUNCTION public.sync_vibe_check_reaction_counts();
+
+-- Owners may not edit reaction counts directly. Updates made by the sync trigger run nested.
+CREATE OR REPLACE FUNCTION public.prevent_vibe_check_immutable_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.venue_id IS DISTINCT FROM OLD.venue_id
+        OR NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.user_latitude IS DISTINCT FROM OLD.user_latitude
+        OR NEW.user_longitude IS DISTINCT FROM OLD.user_longitude
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Only the rating, comment and photo of a vibe check can be edited'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF pg_trigger_depth() = 1 AND (
+        NEW.helpful_count IS DISTINCT FROM OLD.helpful_count
+        OR NEW.still_accurate_count IS DISTINCT FROM OLD.still_accurate_count
+        OR NEW.last_confirmed_at IS DISTINCT FROM OLD.last_confirmed_at
+    ) THEN
+        RAISE EXCEPTION 'Reaction counts are updated from vibe_check_reactions'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count confirmed vibe checks from their last confirmation in the venue stats view
+DROP MATERIALIZED VIEW IF EXISTS public.venue_vibe_stats;
+CREATE MATERIALIZED VIEW public.venue_vibe_stats AS
+SELECT 
+    v.id as venue_id,
+    v.name as venue_name,
+    v.address as venue_address,
+    COUNT(vc.id) as total_vibe_checks,
+    COUNT(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '4 hours' THEN 1 END) as recent_count_4h,
+    COUNT(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '24 hours' THEN 1 END) as recent_count_24h,
+    AVG(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '4 hours' THEN vc.busyness_rating END) as avg_busyness_4h,
+    AVG(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '24 hours' THEN vc.busyness_rating END) as avg_busyness_24h,
+    MAX(vc.created_at) as latest_vibe_check,
+    COUNT(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '2 hours' THEN 1 END) > 0 as has_live_activity
+FROM public.venues v
+LEFT JOIN public.vibe_checks vc ON v.id = vc.venue_id
+GROUP BY v.id, v.name, v.address;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_venue_vibe_stats_venue_id 
+ON public.venue_vibe_stats(venue_id);
+
+CREATE INDEX IF NOT EXISTS idx_venue_vibe_stats_recent_count 
+ON public.venue_vibe_stats(recent_count_4h DESC);
+
+CREATE INDEX IF NOT EXISTS idx_venue_vibe_stats_live_activity 
+ON public.venue_vibe_stats(has_live_activity, recent_count_4h DESC);
+
+COMMENT ON MATERIALIZED VIEW public.venue_vibe_stats IS 'Cached venue statistics for improved performance';
+COMMENT ON COLUMN public.vibe_checks.last_confirmed_at IS 'Latest "still accurate" confirmation, extends how long the vibe check counts as live';
+
+-- Verify the table and trigger were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables 
+        WHERE table_schema = 'public' 
+        AND table_name = 'vibe_check_reactions'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_trigger
+        WHERE tgname = 'sync_vibe_check_reaction_counts_trigger'
+    ) THEN
+        RAISE NOTICE 'vibe_check_reactions table created successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to create vibe_check_reactions table';
+    END IF;
+END $$;
@@ -0,0 +1,333 @@
+-- Migration: Add vibe check reports and moderation
+-- Date: 2025-02-26
+-- Description: Users can report vibe checks as spam, offensive or fake. A vibe check is hidden
+-- automatically once enough distinct users report it (configurable in moderation_settings).
+-- Moderators review reported vibe checks and restore, hide or delete them.
+
+-- User roles. Roles can only be changed outside the app (SQL editor or service role).
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS role TEXT DEFAULT 'user' NOT NULL CHECK (role IN ('user', 'moderator'));
+
+CREATE OR REPLACE FUNCTION public.prevent_user_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.role := 'user';
+    ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+        RAISE EXCEPTION 'User roles cannot be changed from the app'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_user_role_change_trigger ON public.users;
+CREATE TRIGGER prevent_user_role_change_trigger
+    BEFORE INSERT OR UPDATE ON public.users
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_user_role_change();
+
+CREATE OR REPLACE FUNCTION public.is_moderator()
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.users
+        WHERE id = auth.uid() AND role = 'moderator'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Moderation settings (single row)
+CREATE TABLE IF NOT EXISTS public.moderation_settings (
+    id BOOLEAN DEFAULT true PRIMARY KEY CHECK (id),
+    auto_hide_report_threshold INTEGER DEFAULT 3 NOT NULL CHECK (auto_hide_report_threshold >= 1),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.moderation_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE public.moderation_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view moderation settings" ON public.moderation_settings;
+CREATE POLICY "Anyone can view moderation settings" ON public.moderation_settings FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Moderators can update moderation settings" ON public.moderation_settings;
+CREATE POLICY "Moderators can update moderation settings" ON public.moderation_settings FOR UPDATE
+USING (public.is_moderator());
+
+-- Hidden state and open report count on vibe checks
+ALTER TABLE public.vibe_checks
+    ADD COLUMN IF NOT EXISTS report_count INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_vibe_checks_reported
+ON public.vibe_checks(report_count DESC, created_at DESC)
+WHERE report_count > 0;
+
+-- Realtime updates carry the previous row, so open feeds can tell a restored vibe check from an edit
+ALTER TABLE public.vibe_checks REPLICA IDENTITY FULL;
+
+CREATE TABLE IF NOT EXISTS public.vibe_check_reports (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    vibe_check_id UUID REFERENCES public.vibe_checks(id) ON DELETE CASCADE NOT NULL,
+    reporter_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('spam', 'offensive', 'fake', 'other')),
+    details TEXT CHECK (LENGTH(details) <= 280),
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'dismissed', 'actioned')),
+    reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraint: One report per user per vibe check
+    CONSTRAINT unique_vibe_check_reporter UNIQUE (vibe_check_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vibe_check_reports_vibe_check ON public.vibe_check_reports(vibe_check_id);
+CREATE INDEX IF NOT EXISTS idx_vibe_check_reports_pending ON public.vibe_check_reports(created_at DESC) WHERE status = 'pending';
+
+-- RLS Policies for Vibe Check Reports
+ALTER TABLE public.vibe_check_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own reports" ON public.vibe_check_reports;
+CREATE POLICY "Users can view own reports" ON public.vibe_check_reports FOR SELECT
+USING (auth.uid() = reporter_id OR public.is_moderator());
+
+DROP POLICY IF EXISTS "Users can report others' vibe checks" ON public.vibe_check_reports;
+CREATE POLICY "Users can report others' vibe checks" ON public.vibe_check_reports FOR INSERT
+WITH CHECK (
+    auth.uid() = reporter_id
+    AND status = 'pending'
+    AND EXISTS (
+        SELECT 1 FROM public.vibe_checks vc
+        WHERE vc.id = vibe_check_id AND vc.user_id <> auth.uid()
+    )
+);
+
+-- Moderators can delete any vibe check
+DROP POLICY IF EXISTS "Moderators can delete vibe checks" ON public.vibe_checks;
+CREATE POLICY "Moderators can delete vibe checks" ON public.vibe_checks FOR DELETE
+USING (public.is_moderator());
+
+-- Count pending reports and hide the vibe check once the threshold is reached
+CREATE OR REPLACE FUNCTION public.sync_vibe_check_report_count()
+RETURNS TRIGGER AS $$
+DECLARE
+    pending_count INTEGER;
+    threshold INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO pending_count
+    FROM public.vibe_check_reports
+    WHERE vibe_check_id = NEW.vibe_check_id AND status = 'pending';
+
+    SELECT auto_hide_report_threshold INTO threshold
+    FROM public.moderation_settings
+    LIMIT 1;
+
+    UPDATE public.vibe_checks
+    SET
+        report_count = pending_count,
+        hidden_at = CASE
+            WHEN hidden_at IS NULL AND pending_count >= COALESCE(threshold, 3) THEN NOW()
+            ELSE hidden_at
+        END
+    WHERE id = NEW.vibe_check_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_vibe_check_report_count_trigger ON public.vibe_check_reports;
+CREATE TRIGGER sync_vibe_check_report_count_trigger
+    AFTER INSERT ON public.vibe_check_reports
+    FOR EACH ROW EXECUTE FUNCTION public.sync_vibe_check_report_count();
+
+-- Moderator review: 'restore' dismisses open reports and shows the vibe check again,
+-- 'hide' keeps it hidden and marks open reports as actioned
+CREATE OR REPLACE FUNCTION public.moderate_vibe_check(
+    p_vibe_check_id UUID,
+    p_action TEXT
+)
+RETURNS void AS $$
+BEGIN
+    IF NOT public.is_moderator() THEN
+        RAISE EXCEPTION 'Only moderators can review vibe checks'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_action NOT IN ('restore', 'hide') THEN
+        RAISE EXCEPTION 'Unknown moderation action: %', p_action
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE public.vibe_check_reports
+    SET
+        status = CASE WHEN p_action = 'restore' THEN 'dismissed' ELSE 'actioned' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE vibe_check_id = p_vibe_check_id AND status = 'pending';
+
+    UPDATE public.vibe_checks
+    SET
+        report_count = 0,
+        hidden_at = CASE WHEN p_action = 'restore' THEN NULL ELSE COALESCE(hidden_at, NOW()) END
+    WHERE id = p_vibe_check_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Vibe check not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Owners may not change the moderation state of their vibe checks
+CREATE OR REPLACE FUNCTION public.prevent_vibe_check_immutable_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.venue_id IS DISTINCT FROM OLD.venue_id
+        OR NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.user_latitude IS DISTINCT FROM OLD.user_latitude
+        OR NEW.user_longitude IS DISTINCT FROM OLD.user_longitude
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Only the rating, comment and photo of a vibe check can be edited'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF pg_trigger_depth() = 1 AND (
+        NEW.helpful_count IS DISTINCT FROM OLD.helpful_count
+        OR NEW.still_accurate_count IS DISTINCT FROM OLD.still_accurate_count
+        OR NEW.last_confirmed_at IS DISTINCT FROM OLD.last_confirmed_at
+    ) THEN
+        RAISE EXCEPTION 'Reaction counts are updated from vibe_check_reactions'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF pg_trigger_depth() = 1 AND NOT public.is_moderator() AND (
+        NEW.report_count IS DISTINCT FROM OLD.report_count
+        OR NEW.hidden_at IS DISTINCT FROM OLD.hidden_at
+    ) THEN
+        RAISE EXCEPTION 'Only moderators can change the moderation state of a vibe check'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Leave hidden vibe checks out of the feed functions
+CREATE OR REPLACE FUNCTION get_venue_vibe_checks_optimized(
+    p_venue_id UUID,
+    p_hours_back INTEGER DEFAULT 4,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    venue_id UUID,
+    user_id UUID,
+    busyness_rating SMALLINT,
+    comment TEXT,
+    photo_url TEXT,
+    user_latitude DECIMAL,
+    user_longitude DECIMAL,
+    created_at TIMESTAMPTZ,
+    user_name TEXT,
+    user_avatar_url TEXT,
+    venue_name TEXT,
+    venue_address TEXT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT 
+        vc.id,
+        vc.venue_id,
+        vc.user_id,
+        vc.busyness_rating,
+        vc.comment,
+        vc.photo_url,
+        vc.user_latitude,
+        vc.user_longitude,
+        vc.created_at,
+        u.name as user_name,
+        u.avatar_url as user_avatar_url,
+        v.name as venue_name,
+        v.address as venue_address
+    FROM public.vibe_checks vc
+    INNER JOIN public.users u ON vc.user_id = u.id
+    INNER JOIN public.venues v ON vc.venue_id = v.id
+    WHERE vc.venue_id = p_venue_id
+        AND vc.created_at >= NOW() - (p_hours_back || ' hours')::INTERVAL
+        AND vc.hidden_at IS NULL
+    ORDER BY vc.created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION get_live_vibe_checks_optimized(
+    p_hours_back INTEGER DEFAULT 4,
+    p_limit INTEGER DEFAULT 50,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    venue_id UUID,
+    user_id UUID,
+    busyness_rating SMALLINT,
+    comment TEXT,
+    photo_url TEXT,
+    user_latitude DECIMAL,
+    user_longitude DECIMAL,
+    created_at TIMESTAMPTZ,
+    user_name TEXT,
+    user_avatar_url TEXT,
+    venue_name TEXT,
+    venue_address TEXT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT 
+        vc.id,
+        vc.venue_id,
+        vc.user_id,
+        vc.busyness_rating,
+        vc.comment,
+        vc.photo_url,
+        vc.user_latitude,
+        vc.user_longitude,
+        vc.created_at,
+        u.name as user_name,
+        u.avatar_url as user_avatar_url,
+        v.name as venue_name,
+        v.address as venue_address
+    FROM public.vibe_checks vc
+    INNER JOIN public.users u ON vc.user_id = u.id
+    INNER JOIN public.venues v ON vc.venue_id = v.id
+    WHERE vc.created_at >= NOW() - (p_hours_back || ' hours')::INTERVAL
+        AND vc.hidden_at IS NULL
+    ORDER BY vc.created_at DESC
+    LIMIT p_limit
+    OFFSET p_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON COLUMN public.vibe_checks.report_count IS 'Pending reports, reset when a moderator reviews the vibe check';
+COMMENT ON COLUMN public.vibe_checks.hidden_at IS 'Set when the vibe check is hidden by reports or a moderator';
+
+-- Verify the tables and trigger were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables 
+        WHERE table_schema = 'public' 
+        AND table_name = 'vibe_check_reports'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_trigger
+        WHERE tgname = 'sync_vibe_check_report_count_trigger'
+    ) THEN
+        RAISE NOTICE 'vibe_check_reports table created successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to create vibe_check_reports table';
+    END IF;
+END $$;
@@ -0,0 +1,205 @@
+-- Migration: Add contributor reputation and weight venue busyness by it
+-- Date: 2025-03-05
+-- Description: Each user gets a 0-100 reputation score calculated from moderation outcomes,
+-- "helpful"/"still accurate" reactions from other users, account age and how close to the
+-- venue their vibe checks were posted. Venue busyness averages weight each vibe check by its
+-- author's reputation, so a single bad actor can no longer swing a venue on their own.
+
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS reputation_score NUMERIC(5, 2) DEFAULT 50 NOT NULL
+        CHECK (reputation_score BETWEEN 0 AND 100);
+
+-- Reputation is calculated by the database. App users may not set their own score;
+-- updates made by the reputation triggers run nested.
+CREATE OR REPLACE FUNCTION public.prevent_user_reputation_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.reputation_score := 50;
+    ELSIF pg_trigger_depth() = 1 AND NEW.reputation_score IS DISTINCT FROM OLD.reputation_score THEN
+        RAISE EXCEPTION 'Reputation is calculated from vibe check history'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_user_reputation_change_trigger ON public.users;
+CREATE TRIGGER prevent_user_reputation_change_trigger
+    BEFORE INSERT OR UPDATE ON public.users
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_user_reputation_change();
+
+-- Great-circle distance between two points in meters
+CREATE OR REPLACE FUNCTION public.distance_meters(
+    lat1 DOUBLE PRECISION,
+    lon1 DOUBLE PRECISION,
+    lat2 DOUBLE PRECISION,
+    lon2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT 6371000 * 2 * ASIN(SQRT(
+        POWER(SIN(RADIANS(lat2 - lat1) / 2), 2)
+        + COS(RADIANS(lat1)) * COS(RADIANS(lat2)) * POWER(SIN(RADIANS(lon2 - lon1) / 2), 2)
+    ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Score starts at 50 and is clamped to 0-100:
+--   +2 per month of account age, up to +12
+--   +0.5 per reaction from other users on the author's vibe checks, up to +20
+--   -15 per vibe check hidden by a moderator
+--   -10 to +10 by the share of vibe checks posted within 100m of the venue
+-- Deleted vibe checks no longer count. Account age comes from auth.users so it can't be backdated.
+CREATE OR REPLACE FUNCTION public.calculate_user_reputation(p_user_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+    account_days NUMERIC;
+    confirmations INTEGER;
+    actioned_count INTEGER;
+    located_count INTEGER;
+    accurate_count INTEGER;
+    score NUMERIC := 50;
+BEGIN
+    SELECT EXTRACT(EPOCH FROM NOW() - au.created_at) / 86400
+    INTO account_days
+    FROM auth.users au
+    WHERE au.id = p_user_id;
+
+    SELECT
+        COALESCE(SUM(vc.helpful_count + vc.still_accurate_count), 0),
+        COUNT(*) FILTER (WHERE v.latitude IS NOT NULL AND v.longitude IS NOT NULL),
+        COUNT(*) FILTER (
+            WHERE public.distance_meters(vc.user_latitude, vc.user_longitude, v.latitude, v.longitude) <= 100
+        )
+    INTO confirmations, located_count, accurate_count
+    FROM public.vibe_checks vc
+    INNER JOIN public.venues v ON v.id = vc.venue_id
+    WHERE vc.user_id = p_user_id;
+
+    SELECT COUNT(DISTINCT r.vibe_check_id)
+    INTO actioned_count
+    FROM public.vibe_check_reports r
+    INNER JOIN public.vibe_checks vc ON vc.id = r.vibe_check_id
+    WHERE vc.user_id = p_user_id AND r.status = 'actioned';
+
+    score := score
+        + LEAST(COALESCE(account_days, 0) / 30, 6) * 2
+        + LEAST(confirmations, 40) * 0.5
+        - actioned_count * 15;
+
+    IF located_count > 0 THEN
+        score := score + (accurate_count::NUMERIC / located_count - 0.5) * 20;
+    END IF;
+
+    RETURN ROUND(LEAST(GREATEST(score, 0), 100), 2);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- How much a vibe check counts towards venue averages. Keep in sync with src/lib/reputation.ts.
+CREATE OR REPLACE FUNCTION public.reputation_weight(p_score NUMERIC)
+RETURNS NUMERIC AS $$
+    SELECT GREATEST(COALESCE(p_score, 50), 10) / 100.0;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Recalculate the author's reputation when they post, receive or lose a reaction,
+-- or a report on one of their vibe checks is reviewed
+CREATE OR REPLACE FUNCTION public.update_author_reputation()
+RETURNS TRIGGER AS $$
+DECLARE
+    author_id UUID;
+BEGIN
+    IF TG_TABLE_NAME = 'vibe_checks' THEN
+        author_id := NEW.user_id;
+    ELSIF TG_OP = 'DELETE' THEN
+        SELECT vc.user_id INTO author_id FROM public.vibe_checks vc WHERE vc.id = OLD.vibe_check_id;
+    ELSE
+        SELECT vc.user_id INTO author_id FROM public.vibe_checks vc WHERE vc.id = NEW.vibe_check_id;
+    END IF;
+
+    IF author_id IS NOT NULL THEN
+        UPDATE public.users
+        SET reputation_score = public.calculate_user_reputation(author_id)
+        WHERE id = author_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS update_author_reputation_on_vibe_check_trigger ON public.vibe_checks;
+CREATE TRIGGER update_author_reputation_on_vibe_check_trigger
+    AFTER INSERT ON public.vibe_checks
+    FOR EACH ROW EXECUTE FUNCTION public.update_author_reputation();
+
+-- Named to run after sync_vibe_check_reaction_counts_trigger so the counts are current
+DROP TRIGGER IF EXISTS update_author_reputation_on_reaction_trigger ON public.vibe_check_reactions;
+CREATE TRIGGER update_author_reputation_on_reaction_trigger
+    AFTER INSERT OR DELETE ON public.vibe_check_reactions
+    FOR EACH ROW EXECUTE FUNCTION public.update_author_reputation();
+
+DROP TRIGGER IF EXISTS update_author_reputation_on_report_trigger ON public.vibe_check_reports;
+CREATE TRIGGER update_author_reputation_on_report_trigger
+    AFTER UPDATE OF status ON public.vibe_check_reports
+    FOR EACH ROW EXECUTE FUNCTION public.update_author_reputation();
+
+-- Score existing users
+UPDATE public.users SET reputation_score = public.calculate_user_reputation(id);
+
+-- Weight venue busyness by author reputation and leave hidden vibe checks out of the stats
+DROP MATERIALIZED VIEW IF EXISTS public.venue_vibe_stats;
+CREATE MATERIALIZED VIEW public.venue_vibe_stats AS
+SELECT
+    v.id as venue_id,
+    v.name as venue_name,
+    v.address as venue_address,
+    COUNT(vc.id) as total_vibe_checks,
+    COUNT(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '4 hours' THEN 1 END) as recent_count_4h,
+    COUNT(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '24 hours' THEN 1 END) as recent_count_24h,
+    SUM(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '4 hours'
+        THEN vc.busyness_rating * public.reputation_weight(u.reputation_score) END)
+        / NULLIF(SUM(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '4 hours'
+        THEN public.reputation_weight(u.reputation_score) END), 0) as avg_busyness_4h,
+    SUM(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '24 hours'
+        THEN vc.busyness_rating * public.reputation_weight(u.reputation_score) END)
+        / NULLIF(SUM(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '24 hours'
+        THEN public.reputation_weight(u.reputation_score) END), 0) as avg_busyness_24h,
+    MAX(vc.created_at) as latest_vibe_check,
+    COUNT(CASE WHEN GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '2 hours' THEN 1 END) > 0 as has_live_activity
+FROM public.venues v
+LEFT JOIN public.vibe_checks vc ON v.id = vc.venue_id AND vc.hidden_at IS NULL
+LEFT JOIN public.users u ON u.id = vc.user_id
+GROUP BY v.id, v.name, v.address;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_venue_vibe_stats_venue_id
+ON public.venue_vibe_stats(venue_id);
+
+CREATE INDEX IF NOT EXISTS idx_venue_vibe_stats_recent_count
+ON public.venue_vibe_stats(recent_count_4h DESC);
+
+CREATE INDEX IF NOT EXISTS idx_venue_vibe_stats_live_activity
+ON public.venue_vibe_stats(has_live_activity, recent_count_4h DESC);
+
+COMMENT ON MATERIALIZED VIEW public.venue_vibe_stats IS 'Cached venue statistics for improved performance';
+COMMENT ON COLUMN public.users.reputation_score IS '0-100 contributor reputation, see calculate_user_reputation()';
+
+-- Verify the column and triggers were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'users'
+        AND column_name = 'reputation_score'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_trigger
+        WHERE tgname = 'update_author_reputation_on_reaction_trigger'
+    ) THEN
+        RAISE NOTICE 'Contributor reputation added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add contributor reputation';
+    END IF;
+END $$;
@@ -0,0 +1,66 @@
+-- Migration: Add a weekly popular-times forecast per venue
+-- Date: 2025-03-12
+-- Description: Builds an hour-by-hour busyness profile for each venue from the last 12 weeks of
+-- vibe checks, weighted by author reputation like venue_vibe_stats. Hours are bucketed in UTC
+-- (0 = Sunday) and shifted to the device's time zone by the app. The view is refreshed nightly
+-- by pg_cron where the extension is enabled; otherwise call refresh_venue_popular_times() from
+-- a scheduled job.
+
+DROP MATERIALIZED VIEW IF EXISTS public.venue_popular_times;
+CREATE MATERIALIZED VIEW public.venue_popular_times AS
+SELECT
+    vc.venue_id,
+    EXTRACT(DOW FROM vc.created_at AT TIME ZONE 'UTC')::SMALLINT as day_of_week,
+    EXTRACT(HOUR FROM vc.created_at AT TIME ZONE 'UTC')::SMALLINT as hour,
+    SUM(vc.busyness_rating * public.reputation_weight(u.reputation_score))
+        / SUM(public.reputation_weight(u.reputation_score)) as average_busyness,
+    COUNT(vc.id) as sample_count,
+    COUNT(DISTINCT (vc.created_at AT TIME ZONE 'UTC')::DATE) as week_count
+FROM public.vibe_checks vc
+JOIN public.users u ON u.id = vc.user_id
+WHERE vc.hidden_at IS NULL
+AND vc.created_at > NOW() - INTERVAL '12 weeks'
+GROUP BY vc.venue_id, day_of_week, hour;
+
+-- Required for REFRESH ... CONCURRENTLY
+CREATE UNIQUE INDEX IF NOT EXISTS idx_venue_popular_times_venue_hour
+ON public.venue_popular_times(venue_id, day_of_week, hour);
+
+CREATE OR REPLACE FUNCTION public.refresh_venue_popular_times()
+RETURNS void AS $$
+BEGIN
+    REFRESH MATERIALIZED VIEW CONCURRENTLY public.venue_popular_times;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_venue_popular_times() FROM PUBLIC, anon, authenticated;
+
+-- Refresh every night at 04:00 UTC, after most venues have closed
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'refresh-venue-popular-times',
+            '0 4 * * *',
+            'SELECT public.refresh_venue_popular_times()'
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron is not enabled; schedule public.refresh_venue_popular_times() manually';
+    END IF;
+END $$;
+
+COMMENT ON MATERIALIZED VIEW public.venue_popular_times IS 'Reputation-weighted busyness per venue, UTC day of week and hour, over the last 12 weeks';
+
+-- Verify the view was created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_matviews
+        WHERE schemaname = 'public'
+        AND matviewname = 'venue_popular_times'
+    ) THEN
+        RAISE NOTICE 'Venue popular times added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add venue popular times';
+    END IF;
+END $$;
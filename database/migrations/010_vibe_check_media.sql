@@ -0,0 +1,94 @@
+-- Migration: Allow several photos and short video clips per vibe check
+-- Date: 2025-03-19
+-- Description: Adds an ordered media list to vibe checks, holding up to four photos or
+-- video clips of at most 15 seconds. photo_url is kept in sync with the first photo so
+-- feeds and older app versions that only read or write photo_url keep working.
+
+-- Each item is {"type": "image" | "video", "url": text, "duration_seconds"?: number}.
+-- Keep the limits in sync with VIBE_CHECK_CONFIG in src/lib/constants.ts.
+CREATE OR REPLACE FUNCTION public.is_valid_vibe_check_media(p_media JSONB)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN jsonb_typeof(p_media) IS DISTINCT FROM 'array' THEN FALSE
+        WHEN jsonb_array_length(p_media) > 4 THEN FALSE
+        ELSE NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_media) item
+            WHERE jsonb_typeof(item) IS DISTINCT FROM 'object'
+            OR COALESCE(item->>'type', '') NOT IN ('image', 'video')
+            OR jsonb_typeof(item->'url') IS DISTINCT FROM 'string'
+            OR (item->>'type' = 'video' AND jsonb_typeof(item->'duration_seconds') = 'number'
+                AND (item->>'duration_seconds')::NUMERIC > 15)
+        )
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.vibe_checks
+    ADD COLUMN IF NOT EXISTS media JSONB DEFAULT '[]'::JSONB NOT NULL;
+
+ALTER TABLE public.vibe_checks DROP CONSTRAINT IF EXISTS vibe_checks_media_valid;
+ALTER TABLE public.vibe_checks
+    ADD CONSTRAINT vibe_checks_media_valid CHECK (public.is_valid_vibe_check_media(media));
+
+-- Move existing photos into the media list
+UPDATE public.vibe_checks
+SET media = jsonb_build_array(jsonb_build_object('type', 'image', 'url', photo_url))
+WHERE photo_url IS NOT NULL
+AND media = '[]'::JSONB;
+
+-- Keep photo_url and media describing the same photo. Clients that write media get photo_url
+-- set to their first photo; older clients that only write photo_url get a one-photo media list.
+CREATE OR REPLACE FUNCTION public.sync_vibe_check_photo_url()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.media IS NOT DISTINCT FROM OLD.media THEN
+        IF NEW.photo_url IS DISTINCT FROM OLD.photo_url THEN
+            NEW.media := CASE
+                WHEN NEW.photo_url IS NULL THEN '[]'::JSONB
+                ELSE jsonb_build_array(jsonb_build_object('type', 'image', 'url', NEW.photo_url))
+            END;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' AND jsonb_array_length(NEW.media) = 0 AND NEW.photo_url IS NOT NULL THEN
+        NEW.media := jsonb_build_array(jsonb_build_object('type', 'image', 'url', NEW.photo_url));
+        RETURN NEW;
+    END IF;
+
+    NEW.photo_url := (
+        SELECT item->>'url'
+        FROM jsonb_array_elements(NEW.media) WITH ORDINALITY AS items(item, position)
+        WHERE item->>'type' = 'image'
+        ORDER BY position
+        LIMIT 1
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_vibe_check_photo_url_trigger ON public.vibe_checks;
+CREATE TRIGGER sync_vibe_check_photo_url_trigger
+    BEFORE INSERT OR UPDATE OF media, photo_url ON public.vibe_checks
+    FOR EACH ROW EXECUTE FUNCTION public.sync_vibe_check_photo_url();
+
+COMMENT ON COLUMN public.vibe_checks.media IS 'Ordered photos and video clips, see is_valid_vibe_check_media()';
+COMMENT ON COLUMN public.vibe_checks.photo_url IS 'First photo in media, kept in sync by sync_vibe_check_photo_url()';
+
+-- Verify the column and trigger were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'vibe_checks'
+        AND column_name = 'media'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_trigger
+        WHERE tgname = 'sync_vibe_check_photo_url_trigger'
+    ) THEN
+        RAISE NOTICE 'Vibe check media added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add vibe check media';
+    END IF;
+END $$;
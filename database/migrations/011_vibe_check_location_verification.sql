@@ -0,0 +1,171 @@
+-- Migration: Verify vibe check locations on the server
+-- Date: 2025-03-26
+-- Description: Vibe checks are posted through create_vibe_check(), which recomputes the distance
+-- to the venue from the submitted location fix instead of trusting the client. Fixes from mocked
+-- location providers or with a poor accuracy radius are rejected, and each vibe check records
+-- how confidently its location was verified. Direct inserts into vibe_checks are no longer allowed.
+
+ALTER TABLE public.vibe_checks
+    ADD COLUMN IF NOT EXISTS location_accuracy_meters REAL CHECK (location_accuracy_meters >= 0),
+    ADD COLUMN IF NOT EXISTS location_confidence TEXT CHECK (location_confidence IN ('low', 'medium', 'high'));
+
+-- How confidently a fix places the user at the venue, NULL if it doesn't:
+--   high   the whole accuracy circle is within 100m of the venue
+--   medium the fix itself is within 100m
+--   low    only part of the accuracy circle is within 100m
+-- Fixes with an accuracy radius over 75m can't be verified at all.
+-- Keep the thresholds in sync with LocationVerificationService.
+CREATE OR REPLACE FUNCTION public.vibe_check_location_confidence(
+    p_distance_meters DOUBLE PRECISION,
+    p_accuracy_meters DOUBLE PRECISION
+)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN p_accuracy_meters IS NULL OR p_accuracy_meters > 75 THEN NULL
+        WHEN p_distance_meters + p_accuracy_meters <= 100 THEN 'high'
+        WHEN p_distance_meters <= 100 THEN 'medium'
+        WHEN p_distance_meters - p_accuracy_meters <= 100 THEN 'low'
+        ELSE NULL
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.create_vibe_check(
+    p_venue_id UUID,
+    p_busyness_rating SMALLINT,
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_accuracy_meters DOUBLE PRECISION,
+    p_is_mocked BOOLEAN DEFAULT FALSE,
+    p_comment TEXT DEFAULT NULL,
+    p_media JSONB DEFAULT '[]'::JSONB,
+    p_music_genre TEXT DEFAULT NULL,
+    p_queue_length TEXT DEFAULT NULL,
+    p_wait_minutes SMALLINT DEFAULT NULL,
+    p_cover_charge INTEGER DEFAULT NULL,
+    p_crowd_age_range TEXT DEFAULT NULL,
+    p_dress_code_rating SMALLINT DEFAULT NULL,
+    p_captured_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.vibe_checks AS $$
+DECLARE
+    venue public.venues%ROWTYPE;
+    distance DOUBLE PRECISION;
+    confidence TEXT;
+    vibe_check public.vibe_checks%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to post a vibe check'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF COALESCE(p_is_mocked, FALSE) THEN
+        RAISE EXCEPTION 'Vibe check location came from a mocked location provider'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO venue FROM public.venues WHERE id = p_venue_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Venue not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF venue.latitude IS NULL OR venue.longitude IS NULL THEN
+        RAISE EXCEPTION 'Venue has no location to verify against'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF p_accuracy_meters IS NULL OR p_accuracy_meters > 75 THEN
+        RAISE EXCEPTION 'Vibe check location accuracy of %m is too low', ROUND(p_accuracy_meters)
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    distance := public.distance_meters(p_latitude, p_longitude, venue.latitude, venue.longitude);
+    confidence := public.vibe_check_location_confidence(distance, p_accuracy_meters);
+
+    IF confidence IS NULL THEN
+        RAISE EXCEPTION 'Vibe check location is %m from the venue', ROUND(distance)
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- enforce_vibe_check_capture_time() bounds the capture time of replayed vibe checks
+    INSERT INTO public.vibe_checks (
+        venue_id, user_id, busyness_rating, comment, media,
+        user_latitude, user_longitude, location_accuracy_meters, location_confidence,
+        music_genre, queue_length, wait_minutes, cover_charge, crowd_age_range, dress_code_rating,
+        created_at
+    )
+    VALUES (
+        p_venue_id, auth.uid(), p_busyness_rating, p_comment, COALESCE(p_media, '[]'::JSONB),
+        p_latitude, p_longitude, p_accuracy_meters, confidence,
+        p_music_genre, p_queue_length, p_wait_minutes, p_cover_charge, p_crowd_age_range, p_dress_code_rating,
+        COALESCE(p_captured_at, NOW())
+    )
+    RETURNING * INTO vibe_check;
+
+    RETURN vibe_check;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_vibe_check FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_vibe_check TO authenticated;
+
+-- Vibe checks can only be posted through create_vibe_check()
+DROP POLICY IF EXISTS "Users can insert own vibe checks" ON public.vibe_checks;
+
+-- The verified location can't be edited either
+CREATE OR REPLACE FUNCTION public.prevent_vibe_check_immutable_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.venue_id IS DISTINCT FROM OLD.venue_id
+        OR NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.user_latitude IS DISTINCT FROM OLD.user_latitude
+        OR NEW.user_longitude IS DISTINCT FROM OLD.user_longitude
+        OR NEW.location_accuracy_meters IS DISTINCT FROM OLD.location_accuracy_meters
+        OR NEW.location_confidence IS DISTINCT FROM OLD.location_confidence
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Only the rating, comment and photo of a vibe check can be edited'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF pg_trigger_depth() = 1 AND (
+        NEW.helpful_count IS DISTINCT FROM OLD.helpful_count
+        OR NEW.still_accurate_count IS DISTINCT FROM OLD.still_accurate_count
+        OR NEW.last_confirmed_at IS DISTINCT FROM OLD.last_confirmed_at
+    ) THEN
+        RAISE EXCEPTION 'Reaction counts are updated from vibe_check_reactions'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF pg_trigger_depth() = 1 AND NOT public.is_moderator() AND (
+        NEW.report_count IS DISTINCT FROM OLD.report_count
+        OR NEW.hidden_at IS DISTINCT FROM OLD.hidden_at
+    ) THEN
+        RAISE EXCEPTION 'Only moderators can change the moderation state of a vibe check'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN public.vibe_checks.location_accuracy_meters IS 'Accuracy radius of the location fix the vibe check was verified with';
+COMMENT ON COLUMN public.vibe_checks.location_confidence IS 'How confidently the location fix places the author at the venue, NULL for vibe checks posted before verification moved to the server';
+
+-- Verify the columns and function were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'vibe_checks'
+        AND column_name = 'location_confidence'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'create_vibe_check'
+    ) THEN
+        RAISE NOTICE 'Server-side vibe check location verification added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add server-side vibe check location verification';
+    END IF;
+END $$;
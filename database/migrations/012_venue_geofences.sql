@@ -0,0 +1,263 @@
+-- Migration: Per-venue geofences
+-- Date: 2025-04-02
+-- Description: Venues can have their own geofence instead of the global 100m radius: either a
+-- radius around the venue or a polygon (e.g. the footprint of a rooftop bar or a beer garden).
+-- create_vibe_check() verifies locations against the venue's geofence, and admins edit
+-- geofences through set_venue_geofence().
+
+-- Admin role, for managing venues
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE public.users
+    ADD CONSTRAINT users_role_check CHECK (role IN ('user', 'moderator', 'admin'));
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.users
+        WHERE id = auth.uid() AND role = 'admin'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Polygons are arrays of 3 to 50 {"latitude": number, "longitude": number} corners.
+-- Keep the limits in sync with GEOFENCE_CONFIG in src/lib/constants.ts.
+CREATE OR REPLACE FUNCTION public.is_valid_venue_geofence_polygon(p_polygon JSONB)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN jsonb_typeof(p_polygon) IS DISTINCT FROM 'array' THEN FALSE
+        WHEN jsonb_array_length(p_polygon) NOT BETWEEN 3 AND 50 THEN FALSE
+        ELSE NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_polygon) corner
+            WHERE jsonb_typeof(corner->'latitude') IS DISTINCT FROM 'number'
+            OR jsonb_typeof(corner->'longitude') IS DISTINCT FROM 'number'
+            OR ABS((corner->>'latitude')::NUMERIC) > 90
+            OR ABS((corner->>'longitude')::NUMERIC) > 180
+        )
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.venues
+    ADD COLUMN IF NOT EXISTS geofence_radius_meters REAL CHECK (geofence_radius_meters BETWEEN 10 AND 1000),
+    ADD COLUMN IF NOT EXISTS geofence_polygon JSONB CHECK (public.is_valid_venue_geofence_polygon(geofence_polygon));
+
+-- Signed distance in meters from a point to the edge of a venue's geofence, negative inside it.
+-- The polygon takes precedence over the radius; venues with neither get a 100m radius.
+-- NULL if the venue has no location to check against. Mirrors src/lib/geofence.ts.
+CREATE OR REPLACE FUNCTION public.venue_geofence_offset(
+    p_venue public.venues,
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+    meters_per_degree CONSTANT DOUBLE PRECISION := RADIANS(1) * 6371000;
+    corners JSONB := p_venue.geofence_polygon;
+    corner_count INTEGER;
+    previous JSONB;
+    corner JSONB;
+    a_x DOUBLE PRECISION;
+    a_y DOUBLE PRECISION;
+    b_x DOUBLE PRECISION;
+    b_y DOUBLE PRECISION;
+    length_squared DOUBLE PRECISION;
+    t DOUBLE PRECISION;
+    inside BOOLEAN := FALSE;
+    edge_distance DOUBLE PRECISION := 'Infinity';
+BEGIN
+    IF corners IS NULL OR jsonb_array_length(corners) < 3 THEN
+        IF p_venue.latitude IS NULL OR p_venue.longitude IS NULL THEN
+            RETURN NULL;
+        END IF;
+
+        RETURN public.distance_meters(p_latitude, p_longitude, p_venue.latitude, p_venue.longitude)
+            - COALESCE(p_venue.geofence_radius_meters, 100);
+    END IF;
+
+    -- Walk the edges on a flat plane in meters centred on the point
+    corner_count := jsonb_array_length(corners);
+    FOR i IN 0..corner_count - 1 LOOP
+        previous := corners->((i + corner_count - 1) % corner_count);
+        corner := corners->i;
+
+        a_x := ((previous->>'longitude')::DOUBLE PRECISION - p_longitude) * meters_per_degree * COS(RADIANS(p_latitude));
+        a_y := ((previous->>'latitude')::DOUBLE PRECISION - p_latitude) * meters_per_degree;
+        b_x := ((corner->>'longitude')::DOUBLE PRECISION - p_longitude) * meters_per_degree * COS(RADIANS(p_latitude));
+        b_y := ((corner->>'latitude')::DOUBLE PRECISION - p_latitude) * meters_per_degree;
+
+        -- Ray cast along +x from the point
+        IF (a_y > 0) <> (b_y > 0) AND a_x + (b_x - a_x) * -a_y / (b_y - a_y) > 0 THEN
+            inside := NOT inside;
+        END IF;
+
+        length_squared := (b_x - a_x) ^ 2 + (b_y - a_y) ^ 2;
+        t := CASE
+            WHEN length_squared = 0 THEN 0
+            ELSE LEAST(1, GREATEST(0, -(a_x * (b_x - a_x) + a_y * (b_y - a_y)) / length_squared))
+        END;
+        edge_distance := LEAST(
+            edge_distance,
+            SQRT((a_x + t * (b_x - a_x)) ^ 2 + (a_y + t * (b_y - a_y)) ^ 2)
+        );
+    END LOOP;
+
+    RETURN CASE WHEN inside THEN -edge_distance ELSE edge_distance END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Confidence is now measured against the venue's geofence rather than a fixed 100m:
+--   high   the whole accuracy circle is inside the geofence
+--   medium the fix itself is inside
+--   low    only part of the accuracy circle is inside
+-- Fixes with an accuracy radius over 75m can't be verified at all.
+-- Keep the thresholds in sync with LocationVerificationService.
+DROP FUNCTION IF EXISTS public.vibe_check_location_confidence(DOUBLE PRECISION, DOUBLE PRECISION);
+CREATE FUNCTION public.vibe_check_location_confidence(
+    p_outside_meters DOUBLE PRECISION,
+    p_accuracy_meters DOUBLE PRECISION
+)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN p_accuracy_meters IS NULL OR p_accuracy_meters > 75 THEN NULL
+        WHEN p_outside_meters + p_accuracy_meters <= 0 THEN 'high'
+        WHEN p_outside_meters <= 0 THEN 'medium'
+        WHEN p_outside_meters - p_accuracy_meters <= 0 THEN 'low'
+        ELSE NULL
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.create_vibe_check(
+    p_venue_id UUID,
+    p_busyness_rating SMALLINT,
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_accuracy_meters DOUBLE PRECISION,
+    p_is_mocked BOOLEAN DEFAULT FALSE,
+    p_comment TEXT DEFAULT NULL,
+    p_media JSONB DEFAULT '[]'::JSONB,
+    p_music_genre TEXT DEFAULT NULL,
+    p_queue_length TEXT DEFAULT NULL,
+    p_wait_minutes SMALLINT DEFAULT NULL,
+    p_cover_charge INTEGER DEFAULT NULL,
+    p_crowd_age_range TEXT DEFAULT NULL,
+    p_dress_code_rating SMALLINT DEFAULT NULL,
+    p_captured_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.vibe_checks AS $$
+DECLARE
+    venue public.venues%ROWTYPE;
+    outside DOUBLE PRECISION;
+    confidence TEXT;
+    vibe_check public.vibe_checks%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to post a vibe check'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF COALESCE(p_is_mocked, FALSE) THEN
+        RAISE EXCEPTION 'Vibe check location came from a mocked location provider'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO venue FROM public.venues WHERE id = p_venue_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Venue not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    outside := public.venue_geofence_offset(venue, p_latitude, p_longitude);
+
+    IF outside IS NULL THEN
+        RAISE EXCEPTION 'Venue has no location to verify against'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF p_accuracy_meters IS NULL OR p_accuracy_meters > 75 THEN
+        RAISE EXCEPTION 'Vibe check location accuracy of %m is too low', ROUND(p_accuracy_meters)
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    confidence := public.vibe_check_location_confidence(outside, p_accuracy_meters);
+
+    IF confidence IS NULL THEN
+        IF venue.geofence_polygon IS NOT NULL THEN
+            RAISE EXCEPTION 'Vibe check location is %m outside the venue', ROUND(outside)
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        RAISE EXCEPTION 'Vibe check location is %m from the venue, which allows %m',
+            ROUND(public.distance_meters(p_latitude, p_longitude, venue.latitude, venue.longitude)),
+            ROUND(COALESCE(venue.geofence_radius_meters, 100))
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- enforce_vibe_check_capture_time() bounds the capture time of replayed vibe checks
+    INSERT INTO public.vibe_checks (
+        venue_id, user_id, busyness_rating, comment, media,
+        user_latitude, user_longitude, location_accuracy_meters, location_confidence,
+        music_genre, queue_length, wait_minutes, cover_charge, crowd_age_range, dress_code_rating,
+        created_at
+    )
+    VALUES (
+        p_venue_id, auth.uid(), p_busyness_rating, p_comment, COALESCE(p_media, '[]'::JSONB),
+        p_latitude, p_longitude, p_accuracy_meters, confidence,
+        p_music_genre, p_queue_length, p_wait_minutes, p_cover_charge, p_crowd_age_range, p_dress_code_rating,
+        COALESCE(p_captured_at, NOW())
+    )
+    RETURNING * INTO vibe_check;
+
+    RETURN vibe_check;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Admin editing of venue geofences. Pass NULL for both to go back to the default radius.
+CREATE OR REPLACE FUNCTION public.set_venue_geofence(
+    p_venue_id UUID,
+    p_radius_meters REAL DEFAULT NULL,
+    p_polygon JSONB DEFAULT NULL
+)
+RETURNS public.venues AS $$
+DECLARE
+    venue public.venues%ROWTYPE;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Only admins can change venue geofences'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE public.venues
+    SET
+        geofence_radius_meters = p_radius_meters,
+        geofence_polygon = p_polygon
+    WHERE id = p_venue_id
+    RETURNING * INTO venue;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Venue not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    RETURN venue;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+COMMENT ON COLUMN public.venues.geofence_radius_meters IS 'Radius around the venue that vibe checks must be posted from, 100m when NULL';
+COMMENT ON COLUMN public.venues.geofence_polygon IS 'Area vibe checks must be posted from, takes precedence over geofence_radius_meters, see is_valid_venue_geofence_polygon()';
+
+-- Verify the columns and function were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'venues'
+        AND column_name = 'geofence_polygon'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'venue_geofence_offset'
+    ) THEN
+        RAISE NOTICE 'Venue geofences added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add venue geofences';
+    END IF;
+END $$;
@@ -0,0 +1,91 @@
+-- Migration: Server-side nearby venue search
+-- Date: 2025-04-09
+-- Description: get_nearby_venues() returns the venues within a radius of a point, nearest first,
+-- instead of the app downloading every venue to measure distances. Candidates are narrowed with a
+-- bounding box on idx_venues_location before the exact distance is computed, and pages are
+-- fetched with a (distance, id) cursor so results don't shift while a user scrolls.
+
+CREATE INDEX IF NOT EXISTS idx_venues_location ON public.venues(latitude, longitude);
+
+-- Venues within p_radius_meters of a point, ordered by distance then id.
+-- Pass the distance_meters and id of the last venue of a page as p_after_distance / p_after_id
+-- to get the next page. p_query optionally filters by name or description, matching the text as
+-- typed: % and _ in it aren't wildcards.
+CREATE OR REPLACE FUNCTION public.get_nearby_venues(
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_radius_meters DOUBLE PRECISION DEFAULT 10000,
+    p_limit INTEGER DEFAULT 20,
+    p_after_distance DOUBLE PRECISION DEFAULT NULL,
+    p_after_id UUID DEFAULT NULL,
+    p_query TEXT DEFAULT NULL
+)
+RETURNS TABLE (venue public.venues, distance_meters DOUBLE PRECISION) AS $$
+DECLARE
+    -- One degree of latitude is about 111.32km everywhere, a degree of longitude shrinks towards the poles
+    lat_delta DOUBLE PRECISION;
+    lon_delta DOUBLE PRECISION;
+    query_pattern TEXT;
+BEGIN
+    IF p_latitude IS NULL OR p_longitude IS NULL
+        OR p_latitude NOT BETWEEN -90 AND 90
+        OR p_longitude NOT BETWEEN -180 AND 180 THEN
+        RAISE EXCEPTION 'Search location must be valid coordinates'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF p_radius_meters IS NULL OR p_radius_meters <= 0 OR p_radius_meters > 100000 THEN
+        RAISE EXCEPTION 'Search radius must be between 1m and 100km'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    lat_delta := p_radius_meters / 111320.0;
+    lon_delta := p_radius_meters / (111320.0 * GREATEST(COS(RADIANS(p_latitude)), 0.01));
+
+    -- Escape ILIKE's wildcards and its escape character, backslash
+    query_pattern := '%' || replace(replace(replace(p_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+    RETURN QUERY
+    SELECT candidate.v, candidate.distance
+    FROM (
+        SELECT
+            v,
+            v.id,
+            public.distance_meters(p_latitude, p_longitude, v.latitude, v.longitude) AS distance
+        FROM public.venues v
+        WHERE v.latitude BETWEEN p_latitude - lat_delta AND p_latitude + lat_delta
+        -- Near the antimeridian the box wraps around, so only the latitude band narrows the search
+        AND (
+            p_longitude - lon_delta < -180
+            OR p_longitude + lon_delta > 180
+            OR v.longitude BETWEEN p_longitude - lon_delta AND p_longitude + lon_delta
+        )
+        AND (
+            p_query IS NULL
+            OR v.name ILIKE query_pattern
+            OR v.description ILIKE query_pattern
+        )
+    ) candidate
+    WHERE candidate.distance <= p_radius_meters
+    AND (
+        p_after_distance IS NULL
+        OR p_after_id IS NULL
+        OR (candidate.distance, candidate.id) > (p_after_distance, p_after_id)
+    )
+    ORDER BY candidate.distance, candidate.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Verify the function was created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'get_nearby_venues'
+    ) THEN
+        RAISE NOTICE 'Nearby venue search added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add nearby venue search';
+    END IF;
+END $$;
@@ -0,0 +1,174 @@
+-- Migration: Full-text venue search
+-- Date: 2025-04-16
+-- Description: search_venues() ranks venues by full-text matches on their name, tags, address and
+-- description, replacing the app's ILIKE filter, which broke on commas and parentheses in a search.
+-- Searches are passed as parameters and split into words in the database, so no user input ends up
+-- in a filter string. Results can be narrowed by distance, minimum rating and active promotions;
+-- live busyness and opening hours are computed in the app and filtered there.
+
+ALTER TABLE public.venues
+    ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- What a venue is searched by, name matches ranking highest, then tags, address and description.
+-- The 'simple' configuration doesn't stem or drop words, so names and places match as typed.
+CREATE OR REPLACE FUNCTION public.venue_search_document(
+    p_name TEXT,
+    p_tags TEXT[],
+    p_address TEXT,
+    p_description TEXT
+)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector('simple', COALESCE(p_name, '')), 'A')
+        || setweight(to_tsvector('simple', COALESCE(array_to_string(p_tags, ' '), '')), 'B')
+        || setweight(to_tsvector('simple', COALESCE(p_address, '')), 'C')
+        || setweight(to_tsvector('simple', COALESCE(p_description, '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_venues_search_document ON public.venues
+    USING GIN (public.venue_search_document(name, tags, address, description));
+
+-- Rating and promotion filters look venues up by venue_id
+CREATE INDEX IF NOT EXISTS idx_reviews_venue_id ON public.reviews(venue_id);
+CREATE INDEX IF NOT EXISTS idx_promotions_venue_active ON public.promotions(venue_id) WHERE is_active = TRUE;
+
+-- Search-as-you-type query: every word of the search must start a word of the venue.
+-- Anything but letters and digits separates words, so punctuation can't break the query.
+-- NULL for searches without any words.
+CREATE OR REPLACE FUNCTION public.venue_search_query(p_search TEXT)
+RETURNS tsquery AS $$
+    SELECT to_tsquery('simple', string_agg(word || ':*', ' & '))
+    FROM regexp_split_to_table(lower(COALESCE(p_search, '')), '[^[:alnum:]]+') AS word
+    WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Venues matching a search, best match first, then nearest, then by name.
+-- Without a query every venue matching the filters is returned. p_max_distance_meters needs
+-- p_latitude / p_longitude; venues without coordinates have no distance and sort last.
+CREATE OR REPLACE FUNCTION public.search_venues(
+    p_query TEXT DEFAULT NULL,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_max_distance_meters DOUBLE PRECISION DEFAULT NULL,
+    p_min_rating DOUBLE PRECISION DEFAULT NULL,
+    p_has_promotion BOOLEAN DEFAULT FALSE,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    venue public.venues,
+    rank REAL,
+    distance_meters DOUBLE PRECISION,
+    average_rating DOUBLE PRECISION,
+    review_count BIGINT,
+    has_promotion BOOLEAN
+) AS $$
+DECLARE
+    search_query tsquery := public.venue_search_query(p_query);
+    has_location BOOLEAN := p_latitude IS NOT NULL AND p_longitude IS NOT NULL;
+    lat_delta DOUBLE PRECISION;
+    lon_delta DOUBLE PRECISION;
+BEGIN
+    IF has_location AND (p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180) THEN
+        RAISE EXCEPTION 'Search location must be valid coordinates'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF p_max_distance_meters IS NOT NULL THEN
+        IF NOT has_location THEN
+            RAISE EXCEPTION 'Searching by distance needs a search location'
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        IF p_max_distance_meters <= 0 OR p_max_distance_meters > 100000 THEN
+            RAISE EXCEPTION 'Search radius must be between 1m and 100km'
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        -- Same bounding box as get_nearby_venues()
+        lat_delta := p_max_distance_meters / 111320.0;
+        lon_delta := p_max_distance_meters / (111320.0 * GREATEST(COS(RADIANS(p_latitude)), 0.01));
+    END IF;
+
+    IF p_min_rating IS NOT NULL AND p_min_rating NOT BETWEEN 1 AND 5 THEN
+        RAISE EXCEPTION 'Minimum rating must be between 1 and 5'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        candidate.v,
+        candidate.rank,
+        candidate.distance,
+        candidate.average_rating,
+        candidate.review_count,
+        candidate.has_promotion
+    FROM (
+        SELECT
+            v,
+            v.id,
+            v.name,
+            CASE
+                WHEN search_query IS NULL THEN 0::REAL
+                ELSE ts_rank(public.venue_search_document(v.name, v.tags, v.address, v.description), search_query)
+            END AS rank,
+            CASE
+                WHEN has_location AND v.latitude IS NOT NULL AND v.longitude IS NOT NULL
+                THEN public.distance_meters(p_latitude, p_longitude, v.latitude, v.longitude)
+            END AS distance,
+            COALESCE(ratings.average_rating, 0) AS average_rating,
+            ratings.review_count,
+            EXISTS (
+                SELECT 1 FROM public.promotions p
+                WHERE p.venue_id = v.id
+                AND p.is_active = TRUE
+                AND (p.start_date IS NULL OR p.start_date <= CURRENT_DATE)
+                AND (p.end_date IS NULL OR p.end_date >= CURRENT_DATE)
+            ) AS has_promotion
+        FROM public.venues v
+        CROSS JOIN LATERAL (
+            SELECT AVG(r.rating)::DOUBLE PRECISION AS average_rating, COUNT(r.id) AS review_count
+            FROM public.reviews r
+            WHERE r.venue_id = v.id
+        ) ratings
+        WHERE (
+            search_query IS NULL
+            OR public.venue_search_document(v.name, v.tags, v.address, v.description) @@ search_query
+        )
+        AND (
+            lat_delta IS NULL
+            OR (
+                v.latitude BETWEEN p_latitude - lat_delta AND p_latitude + lat_delta
+                AND (
+                    p_longitude - lon_delta < -180
+                    OR p_longitude + lon_delta > 180
+                    OR v.longitude BETWEEN p_longitude - lon_delta AND p_longitude + lon_delta
+                )
+            )
+        )
+    ) candidate
+    WHERE (p_max_distance_meters IS NULL OR candidate.distance <= p_max_distance_meters)
+    AND (p_min_rating IS NULL OR candidate.average_rating >= p_min_rating)
+    AND (NOT COALESCE(p_has_promotion, FALSE) OR candidate.has_promotion)
+    ORDER BY candidate.rank DESC, candidate.distance ASC NULLS LAST, candidate.name, candidate.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Verify the migration was applied successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public'
+        AND table_name = 'venues'
+        AND column_name = 'tags'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'search_venues'
+    ) THEN
+        RAISE NOTICE 'Full-text venue search added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add full-text venue search';
+    END IF;
+END $$;
@@ -0,0 +1,102 @@
+-- Migration: Batched venue summaries
+-- Date: 2025-04-23
+-- Description: get_venue_summaries() returns a page of venue cards in one call: each venue with
+-- its rating from venues_with_ratings, vibe check counts from venue_vibe_stats, its promotions
+-- running today and whether the current user bookmarked it. The app used to make two queries per
+-- venue for ratings and vibe stats, then two more for menus and promotions.
+
+-- A page of venue cards. With p_latitude / p_longitude the page comes from get_nearby_venues(),
+-- nearest first; otherwise the newest venues come first. Pass the last card's distance_meters
+-- (or created_at without a location) and id as p_after_distance / p_after_created_at and
+-- p_after_id to get the next page.
+CREATE OR REPLACE FUNCTION public.get_venue_summaries(
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_radius_meters DOUBLE PRECISION DEFAULT 10000,
+    p_limit INTEGER DEFAULT 20,
+    p_after_distance DOUBLE PRECISION DEFAULT NULL,
+    p_after_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    venue public.venues,
+    distance_meters DOUBLE PRECISION,
+    average_rating DOUBLE PRECISION,
+    review_count BIGINT,
+    total_vibe_checks BIGINT,
+    vibe_checks_24h BIGINT,
+    promotions JSONB,
+    is_bookmarked BOOLEAN
+) AS $$
+DECLARE
+    page_venues public.venues[];
+    page_distances DOUBLE PRECISION[];
+BEGIN
+    IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+        SELECT
+            array_agg(nearby.venue ORDER BY nearby.distance_meters, (nearby.venue).id),
+            array_agg(nearby.distance_meters ORDER BY nearby.distance_meters, (nearby.venue).id)
+        INTO page_venues, page_distances
+        FROM public.get_nearby_venues(
+            p_latitude, p_longitude, p_radius_meters, p_limit, p_after_distance, p_after_id
+        ) nearby;
+    ELSE
+        SELECT array_agg(newest.v ORDER BY (newest.v).created_at DESC, (newest.v).id DESC)
+        INTO page_venues
+        FROM (
+            SELECT v
+            FROM public.venues v
+            WHERE p_after_created_at IS NULL
+            OR p_after_id IS NULL
+            OR (v.created_at, v.id) < (p_after_created_at, p_after_id)
+            ORDER BY v.created_at DESC, v.id DESC
+            LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+        ) newest;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        page.v,
+        page.distance,
+        COALESCE(ratings.average_rating, 0)::DOUBLE PRECISION,
+        COALESCE(ratings.review_count, 0)::BIGINT,
+        COALESCE(stats.total_vibe_checks, 0)::BIGINT,
+        COALESCE(stats.recent_count_24h, 0)::BIGINT,
+        COALESCE((
+            SELECT jsonb_agg(to_jsonb(p) ORDER BY p.created_at DESC)
+            FROM public.promotions p
+            WHERE p.venue_id = (page.v).id
+            AND p.is_active = TRUE
+            AND (p.start_date IS NULL OR p.start_date <= CURRENT_DATE)
+            AND (p.end_date IS NULL OR p.end_date >= CURRENT_DATE)
+        ), '[]'::JSONB),
+        EXISTS (
+            SELECT 1 FROM public.user_bookmarks b
+            WHERE b.venue_id = (page.v).id
+            AND b.user_id = auth.uid()
+        )
+    FROM (
+        SELECT page_venues[i] AS v, page_distances[i] AS distance, i AS page_index
+        FROM generate_subscripts(page_venues, 1) AS i
+    ) page
+    LEFT JOIN public.venues_with_ratings ratings ON ratings.id = (page.v).id
+    LEFT JOIN public.venue_vibe_stats stats ON stats.venue_id = (page.v).id
+    ORDER BY page.page_index;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Pages of the newest venues
+CREATE INDEX IF NOT EXISTS idx_venues_created_at ON public.venues(created_at DESC, id DESC);
+
+-- Verify the function was created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'get_venue_summaries'
+    ) THEN
+        RAISE NOTICE 'Venue summaries added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add venue summaries';
+    END IF;
+END $$;
@@ -0,0 +1,98 @@
+-- Migration: Venue co-visits for "For you" recommendations
+-- Date: 2025-04-30
+-- Description: get_venue_co_visits() counts how many people engaged with both a venue the
+-- current user likes and each other venue. The app turns these counts into similarity scores,
+-- see src/lib/recommendations.ts. Interactions, bookmarks and reviews are private to their
+-- owner, so the function runs as its owner and only ever returns counts, never who.
+
+-- A person engaged with a venue when they liked, bookmarked or shared it, reviewed it 4 stars or
+-- more, or posted a vibe check there in the last 180 days. Plain views don't count. Counts leave
+-- out the current user. Pairs shared by fewer than 3 people aren't returned, as they would show
+-- what those few people did. Keep both limits in sync with RECOMMENDATION_CONFIG in
+-- src/lib/constants.ts. p_venue_ids are the venues to find related venues for; only the p_limit
+-- pairs with the most shared people are returned.
+CREATE OR REPLACE FUNCTION public.get_venue_co_visits(
+    p_venue_ids UUID[],
+    p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+    venue_id UUID,
+    related_venue_id UUID,
+    shared_users BIGINT,
+    venue_users BIGINT,
+    related_users BIGINT
+) AS $$
+    WITH engagements AS (
+        SELECT cv.club_id AS venue_id, cv.user_id
+        FROM public.club_views cv
+        WHERE cv.interaction_type IN ('like', 'bookmark', 'share')
+        AND cv.viewed_at >= NOW() - INTERVAL '180 days'
+        UNION
+        SELECT b.venue_id, b.user_id
+        FROM public.user_bookmarks b
+        WHERE b.created_at >= NOW() - INTERVAL '180 days'
+        UNION
+        SELECT r.venue_id, r.user_id
+        FROM public.reviews r
+        WHERE r.rating >= 4 AND r.created_at >= NOW() - INTERVAL '180 days'
+        UNION
+        SELECT vc.venue_id, vc.user_id
+        FROM public.vibe_checks vc
+        WHERE vc.hidden_at IS NULL AND vc.created_at >= NOW() - INTERVAL '180 days'
+    ),
+    others AS (
+        SELECT e.venue_id, e.user_id
+        FROM engagements e
+        WHERE e.user_id IS DISTINCT FROM auth.uid()
+        AND e.venue_id IS NOT NULL
+        AND e.user_id IS NOT NULL
+    ),
+    pairs AS (
+        SELECT
+            seed.venue_id,
+            related.venue_id AS related_venue_id,
+            COUNT(DISTINCT seed.user_id) AS shared_users
+        FROM others seed
+        JOIN others related ON related.user_id = seed.user_id AND related.venue_id <> seed.venue_id
+        WHERE seed.venue_id = ANY(p_venue_ids)
+        GROUP BY seed.venue_id, related.venue_id
+        HAVING COUNT(DISTINCT seed.user_id) >= 3
+    ),
+    venue_counts AS (
+        SELECT o.venue_id, COUNT(*) AS users
+        FROM others o
+        GROUP BY o.venue_id
+    )
+    SELECT
+        pairs.venue_id,
+        pairs.related_venue_id,
+        pairs.shared_users,
+        seed_counts.users,
+        related_counts.users
+    FROM pairs
+    JOIN venue_counts seed_counts ON seed_counts.venue_id = pairs.venue_id
+    JOIN venue_counts related_counts ON related_counts.venue_id = pairs.related_venue_id
+    ORDER BY pairs.shared_users DESC, pairs.venue_id, pairs.related_venue_id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 200), 1), 1000);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_venue_co_visits FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_venue_co_visits TO authenticated;
+
+-- Who bookmarked a venue
+CREATE INDEX IF NOT EXISTS idx_user_bookmarks_venue ON public.user_bookmarks(venue_id);
+-- Recent reviews, for the co-visit window
+CREATE INDEX IF NOT EXISTS idx_reviews_created_at ON public.reviews(created_at DESC);
+
+-- Verify the function was created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'get_venue_co_visits'
+    ) THEN
+        RAISE NOTICE 'Venue co-visits added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add venue co-visits';
+    END IF;
+END $$;
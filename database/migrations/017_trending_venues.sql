@@ -0,0 +1,127 @@
+-- Migration: Trending venues
+-- Date: 2025-05-07
+-- Description: get_trending_venues() ranks venues by how far their vibe checks, views and
+-- bookmarks in the last hour are above what is usual for that venue, instead of listing every
+-- venue with a recent vibe check. Each venue comes with the signals that are rising fast.
+
+-- For each signal, the usual count is the venue's hourly rate over the previous p_baseline_days,
+-- scaled to the window. The signal scores (recent - usual) / sqrt(usual + 1), so a quiet venue
+-- getting busy rises as well as a busy venue getting busier, and one-off blips score low.
+-- Venues are ranked by 3 × vibe checks + 2 × bookmarks + 1 × views, counting only signals above
+-- usual. A signal is rising fast with at least 2 in the window and 3 times the usual count.
+-- Views and bookmarks are private to their owner, so the function runs as its owner and only
+-- returns counts.
+CREATE OR REPLACE FUNCTION public.get_trending_venues(
+    p_limit INTEGER DEFAULT 10,
+    p_window_minutes INTEGER DEFAULT 60,
+    p_baseline_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+    venue public.venues,
+    trending_score DOUBLE PRECISION,
+    recent_vibe_checks BIGINT,
+    expected_vibe_checks DOUBLE PRECISION,
+    recent_views BIGINT,
+    expected_views DOUBLE PRECISION,
+    recent_bookmarks BIGINT,
+    expected_bookmarks DOUBLE PRECISION,
+    rising_signals TEXT[]
+) AS $$
+    WITH params AS (
+        SELECT
+            NOW() - make_interval(mins => window_minutes) AS window_start,
+            NOW() - make_interval(days => baseline_days) AS baseline_start,
+            window_minutes / 60.0 AS window_hours,
+            baseline_days * 24.0 - window_minutes / 60.0 AS baseline_hours
+        FROM (
+            SELECT
+                LEAST(GREATEST(COALESCE(p_window_minutes, 60), 15), 360) AS window_minutes,
+                LEAST(GREATEST(COALESCE(p_baseline_days, 7), 1), 28) AS baseline_days
+        ) bounds
+    ),
+    activity AS (
+        SELECT vc.venue_id, 'vibe_checks' AS signal, vc.created_at AS occurred_at
+        FROM public.vibe_checks vc, params
+        WHERE vc.hidden_at IS NULL
+        AND vc.created_at >= params.baseline_start
+        UNION ALL
+        SELECT cv.club_id, 'views', cv.viewed_at
+        FROM public.club_views cv, params
+        WHERE cv.interaction_type = 'view'
+        AND cv.viewed_at >= params.baseline_start
+        UNION ALL
+        SELECT b.venue_id, 'bookmarks', b.created_at
+        FROM public.user_bookmarks b, params
+        WHERE b.created_at >= params.baseline_start
+    ),
+    signals AS (
+        SELECT
+            a.venue_id,
+            a.signal,
+            COUNT(*) FILTER (WHERE a.occurred_at >= params.window_start) AS recent,
+            COUNT(*) FILTER (WHERE a.occurred_at < params.window_start)
+                / params.baseline_hours * params.window_hours AS expected
+        FROM activity a, params
+        WHERE a.venue_id IS NOT NULL
+        GROUP BY a.venue_id, a.signal, params.window_start, params.baseline_hours, params.window_hours
+    ),
+    scored AS (
+        SELECT
+            s.*,
+            (s.recent - s.expected) / SQRT(s.expected + 1) AS surprise
+        FROM signals s
+    ),
+    trending AS (
+        SELECT
+            scored.venue_id,
+            SUM(
+                CASE scored.signal WHEN 'vibe_checks' THEN 3 WHEN 'bookmarks' THEN 2 ELSE 1 END
+                * GREATEST(scored.surprise, 0)
+            ) AS score,
+            COALESCE(MAX(scored.recent) FILTER (WHERE scored.signal = 'vibe_checks'), 0) AS recent_vibe_checks,
+            COALESCE(MAX(scored.expected) FILTER (WHERE scored.signal = 'vibe_checks'), 0) AS expected_vibe_checks,
+            COALESCE(MAX(scored.recent) FILTER (WHERE scored.signal = 'views'), 0) AS recent_views,
+            COALESCE(MAX(scored.expected) FILTER (WHERE scored.signal = 'views'), 0) AS expected_views,
+            COALESCE(MAX(scored.recent) FILTER (WHERE scored.signal = 'bookmarks'), 0) AS recent_bookmarks,
+            COALESCE(MAX(scored.expected) FILTER (WHERE scored.signal = 'bookmarks'), 0) AS expected_bookmarks,
+            COALESCE(
+                ARRAY_AGG(scored.signal ORDER BY scored.surprise DESC)
+                    FILTER (WHERE scored.recent >= 2 AND scored.recent >= 3 * scored.expected),
+                '{}'
+            ) AS rising_signals
+        FROM scored
+        GROUP BY scored.venue_id
+    )
+    SELECT
+        v,
+        trending.score::DOUBLE PRECISION,
+        trending.recent_vibe_checks,
+        trending.expected_vibe_checks::DOUBLE PRECISION,
+        trending.recent_views,
+        trending.expected_views::DOUBLE PRECISION,
+        trending.recent_bookmarks,
+        trending.expected_bookmarks::DOUBLE PRECISION,
+        trending.rising_signals
+    FROM trending
+    JOIN public.venues v ON v.id = trending.venue_id
+    WHERE trending.score > 0
+    ORDER BY trending.score DESC, v.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Views and bookmarks in the trending window
+CREATE INDEX IF NOT EXISTS idx_club_views_viewed_at ON public.club_views(viewed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_bookmarks_created_at ON public.user_bookmarks(created_at DESC);
+
+-- Verify the function was created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'get_trending_venues'
+    ) THEN
+        RAISE NOTICE 'Trending venues added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add trending venues';
+    END IF;
+END $$;
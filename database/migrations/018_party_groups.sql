@@ -0,0 +1,70 @@
+-- Migration: Party groups
+-- Date: 2025-05-14
+-- Description: Makes party groups usable from the app. Group sizes are limited to 2-20 like
+-- GROUP_CONFIG, members can see their private groups, and the group_members select policy no
+-- longer looks itself up, which failed every membership query with infinite recursion.
+
+-- Keep the limits in sync with GROUP_CONFIG in src/lib/constants.ts
+UPDATE public.party_groups SET max_size = LEAST(GREATEST(max_size, 2), 20)
+WHERE max_size NOT BETWEEN 2 AND 20;
+
+ALTER TABLE public.party_groups DROP CONSTRAINT IF EXISTS party_groups_max_size_check;
+ALTER TABLE public.party_groups
+    ADD CONSTRAINT party_groups_max_size_check CHECK (max_size BETWEEN 2 AND 20);
+
+ALTER TABLE public.party_groups DROP CONSTRAINT IF EXISTS party_groups_name_check;
+ALTER TABLE public.party_groups
+    ADD CONSTRAINT party_groups_name_check CHECK (char_length(btrim(name)) BETWEEN 1 AND 60);
+
+-- Whether the current user is an approved member of a group. Runs as its owner so policies on
+-- group_members can use it without looking themselves up.
+CREATE OR REPLACE FUNCTION public.is_group_member(p_group_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.group_members
+        WHERE group_id = p_group_id
+        AND user_id = auth.uid()
+        AND approved = true
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Private groups are visible to their creator and members
+DROP POLICY IF EXISTS "Anyone can view public groups" ON public.party_groups;
+CREATE POLICY "Anyone can view public groups" ON public.party_groups FOR SELECT USING (
+    is_public = true
+    OR auth.uid() = creator_id
+    OR public.is_group_member(id)
+);
+
+-- People see their own memberships and requests, the members of their groups,
+-- and who has joined a public group
+DROP POLICY IF EXISTS "Group members can view group membership" ON public.group_members;
+CREATE POLICY "Group members can view group membership" ON public.group_members FOR SELECT USING (
+    auth.uid() = user_id
+    OR public.is_group_member(group_id)
+    OR (
+        approved = true
+        AND EXISTS (
+            SELECT 1 FROM public.party_groups pg
+            WHERE pg.id = group_members.group_id
+            AND pg.is_public = true
+        )
+    )
+);
+
+-- Upcoming public groups
+CREATE INDEX IF NOT EXISTS idx_party_groups_public_date ON public.party_groups(date, time)
+WHERE is_public = true;
+
+-- Verify the function was created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'is_group_member'
+    ) THEN
+        RAISE NOTICE 'Party groups updated successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to update party groups';
+    END IF;
+END $$;
@@ -0,0 +1,244 @@
+-- Migration: Group membership
+-- Date: 2025-05-21
+-- Description: Join requests, invites and member management for party groups. People ask to
+-- join public groups and wait for a creator or admin to approve them, private groups are joined
+-- with an invite code, and no group takes more approved members than its max_size.
+
+-- Roles a member can have
+UPDATE public.group_members SET role = 'member'
+WHERE role IS NULL OR role NOT IN ('creator', 'admin', 'member');
+
+ALTER TABLE public.group_members ALTER COLUMN role SET NOT NULL;
+ALTER TABLE public.group_members DROP CONSTRAINT IF EXISTS group_members_role_check;
+ALTER TABLE public.group_members
+    ADD CONSTRAINT group_members_role_check CHECK (role IN ('creator', 'admin', 'member'));
+
+-- Invite codes, e.g. 3F9A0C1B. Keep the format in sync with parseGroupInviteCode in src/lib/groups.ts.
+CREATE OR REPLACE FUNCTION public.generate_group_invite_code()
+RETURNS TEXT AS $$
+    SELECT upper(substr(md5(random()::text || clock_timestamp()::text), 1, 8));
+$$ LANGUAGE sql VOLATILE;
+
+ALTER TABLE public.party_groups ADD COLUMN IF NOT EXISTS invite_code TEXT;
+UPDATE public.party_groups SET invite_code = public.generate_group_invite_code()
+WHERE invite_code IS NULL;
+ALTER TABLE public.party_groups
+    ALTER COLUMN invite_code SET DEFAULT public.generate_group_invite_code(),
+    ALTER COLUMN invite_code SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_party_groups_invite_code ON public.party_groups(invite_code);
+
+-- Pending join requests, for the admins' badge counts
+CREATE INDEX IF NOT EXISTS idx_group_members_pending ON public.group_members(group_id)
+WHERE approved = false;
+
+-- Whether the current user is the creator or an admin of a group
+CREATE OR REPLACE FUNCTION public.is_group_admin(p_group_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.group_members
+        WHERE group_id = p_group_id
+        AND user_id = auth.uid()
+        AND approved = true
+        AND role IN ('creator', 'admin')
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The creator joins their group as its first member. Runs as its owner because members can't
+-- approve themselves.
+CREATE OR REPLACE FUNCTION public.add_creator_to_group()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.group_members (group_id, user_id, approved, role)
+    VALUES (NEW.id, NEW.creator_id, true, 'creator');
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A group can't have more approved members than its max_size
+CREATE OR REPLACE FUNCTION public.enforce_group_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_max_size INTEGER;
+    v_member_count INTEGER;
+BEGIN
+    IF NOT NEW.approved OR (TG_OP = 'UPDATE' AND OLD.approved) THEN
+        RETURN NEW;
+    END IF;
+
+    -- Lock the group so two approvals can't both take its last place
+    SELECT max_size INTO v_max_size
+    FROM public.party_groups
+    WHERE id = NEW.group_id
+    FOR UPDATE;
+
+    SELECT COUNT(*) INTO v_member_count
+    FROM public.group_members
+    WHERE group_id = NEW.group_id AND approved = true;
+
+    IF v_member_count >= v_max_size THEN
+        RAISE EXCEPTION 'This group is full'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_group_capacity_trigger ON public.group_members;
+CREATE TRIGGER enforce_group_capacity_trigger
+    BEFORE INSERT OR UPDATE OF approved ON public.group_members
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_group_capacity();
+
+-- Admins change a member's approval and role, and members their chat read time. A membership
+-- can't be moved to another person or group, which would get past the insert policy.
+CREATE OR REPLACE FUNCTION public.prevent_group_member_reassignment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.group_id IS DISTINCT FROM OLD.group_id
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'A group membership can''t be moved to another person or group'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_group_member_reassignment_trigger ON public.group_members;
+CREATE TRIGGER prevent_group_member_reassignment_trigger
+    BEFORE UPDATE ON public.group_members
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_group_member_reassignment();
+
+-- People ask to join public groups. They can't approve themselves or pick their role.
+DROP POLICY IF EXISTS "Users can join groups" ON public.group_members;
+DROP POLICY IF EXISTS "Users can request to join public groups" ON public.group_members;
+CREATE POLICY "Users can request to join public groups" ON public.group_members FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND approved = false
+    AND role = 'member'
+    AND EXISTS (
+        SELECT 1 FROM public.party_groups pg
+        WHERE pg.id = group_members.group_id
+        AND pg.is_public = true
+    )
+);
+
+-- Members leave or cancel their requests. The creator deletes the group instead.
+DROP POLICY IF EXISTS "Users can leave groups" ON public.group_members;
+CREATE POLICY "Users can leave groups" ON public.group_members FOR DELETE USING (
+    auth.uid() = user_id AND role <> 'creator'
+);
+
+-- Admins approve, promote and remove members. Only the creator manages admins.
+DROP POLICY IF EXISTS "Group creators can manage members" ON public.group_members;
+DROP POLICY IF EXISTS "Group admins can manage members" ON public.group_members;
+CREATE POLICY "Group admins can manage members" ON public.group_members FOR UPDATE USING (
+    (role = 'member' AND public.is_group_admin(group_id))
+    OR (
+        role = 'admin'
+        AND EXISTS (
+            SELECT 1 FROM public.party_groups pg
+            WHERE pg.id = group_members.group_id
+            AND pg.creator_id = auth.uid()
+        )
+    )
+) WITH CHECK (
+    role <> 'creator' AND public.is_group_admin(group_id)
+);
+
+DROP POLICY IF EXISTS "Group admins can remove members" ON public.group_members;
+CREATE POLICY "Group admins can remove members" ON public.group_members FOR DELETE USING (
+    (role = 'member' AND public.is_group_admin(group_id))
+    OR (
+        role = 'admin'
+        AND EXISTS (
+            SELECT 1 FROM public.party_groups pg
+            WHERE pg.id = group_members.group_id
+            AND pg.creator_id = auth.uid()
+        )
+    )
+);
+
+-- Group an invite code opens, for the invite screen. Private groups are otherwise hidden from
+-- people who aren't in them.
+CREATE OR REPLACE FUNCTION public.get_group_by_invite(p_invite_code TEXT)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    date DATE,
+    "time" TIME,
+    max_size INTEGER,
+    is_public BOOLEAN,
+    venue_name TEXT,
+    member_count INTEGER
+) AS $$
+    SELECT
+        pg.id,
+        pg.name,
+        pg.date,
+        pg.time,
+        pg.max_size,
+        pg.is_public,
+        v.name AS venue_name,
+        (
+            SELECT COUNT(*)::INTEGER FROM public.group_members gm
+            WHERE gm.group_id = pg.id AND gm.approved = true
+        ) AS member_count
+    FROM public.party_groups pg
+    LEFT JOIN public.venues v ON v.id = pg.venue_id
+    WHERE pg.invite_code = upper(btrim(p_invite_code));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Join a group with its invite code. Invited people don't need approving, and a pending request
+-- to the same group is approved. Returns the group's id.
+CREATE OR REPLACE FUNCTION public.join_group_by_invite(p_invite_code TEXT)
+RETURNS UUID AS $$
+DECLARE
+    v_group_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to join a group'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT pg.id INTO v_group_id
+    FROM public.party_groups pg
+    WHERE pg.invite_code = upper(btrim(p_invite_code));
+
+    IF v_group_id IS NULL THEN
+        RAISE EXCEPTION 'This invite link is no longer valid'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF public.is_group_member(v_group_id) THEN
+        RETURN v_group_id;
+    END IF;
+
+    INSERT INTO public.group_members (group_id, user_id, approved, role)
+    VALUES (v_group_id, auth.uid(), true, 'member')
+    ON CONFLICT (group_id, user_id) DO UPDATE SET approved = true;
+
+    RETURN v_group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Verify the functions were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'join_group_by_invite'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'enforce_group_capacity'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'prevent_group_member_reassignment'
+    ) THEN
+        RAISE NOTICE 'Group membership set up successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to set up group membership';
+    END IF;
+END $$;
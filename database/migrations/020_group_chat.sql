@@ -0,0 +1,195 @@
+-- Migration: Group chat
+-- Date: 2025-05-28
+-- Description: Chat for party groups on the messages table. Members send text and photo
+-- messages, system messages announce joins, leaves and plan changes, and each member's
+-- last_read_at gives their unread count. New messages reach open chats over realtime.
+
+-- Keep the limits in sync with GROUP_CHAT_CONFIG in src/lib/constants.ts
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS image_url TEXT;
+
+UPDATE public.messages SET message_type = 'text'
+WHERE message_type IS NULL OR message_type NOT IN ('text', 'image', 'system');
+
+ALTER TABLE public.messages ALTER COLUMN message_type SET NOT NULL;
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_message_type_check;
+ALTER TABLE public.messages
+    ADD CONSTRAINT messages_message_type_check CHECK (message_type IN ('text', 'image', 'system'));
+
+-- Photos carry an image, text messages need some text. Photo captions may be empty.
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_content_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_content_check CHECK (
+    char_length(content) <= 1000
+    AND (message_type <> 'text' OR char_length(btrim(content)) > 0)
+    AND ((message_type = 'image') = (image_url IS NOT NULL))
+);
+
+-- History is read newest first, a page at a time
+CREATE INDEX IF NOT EXISTS idx_messages_group_created ON public.messages(group_id, created_at DESC, id DESC);
+
+-- When each member last read their group's chat
+ALTER TABLE public.group_members
+    ADD COLUMN IF NOT EXISTS last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+-- Members send text and photos. System messages only come from the triggers below.
+DROP POLICY IF EXISTS "Group members can send messages" ON public.messages;
+CREATE POLICY "Group members can send messages" ON public.messages FOR INSERT WITH CHECK (
+    auth.uid() = sender_id
+    AND message_type IN ('text', 'image')
+    AND public.is_group_member(group_id)
+);
+
+-- Announce people joining, leaving and being removed from a group in its chat
+CREATE OR REPLACE FUNCTION public.post_group_membership_message()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_member public.group_members;
+    v_name TEXT;
+    v_content TEXT;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_member := OLD;
+    ELSE
+        v_member := NEW;
+    END IF;
+
+    IF TG_OP = 'DELETE' AND OLD.approved THEN
+        v_content := CASE
+            WHEN auth.uid() = OLD.user_id THEN ' left the group'
+            ELSE ' was removed from the group'
+        END;
+    ELSIF TG_OP <> 'DELETE' AND NEW.role <> 'creator' AND NEW.approved
+        AND (TG_OP = 'INSERT' OR NOT OLD.approved) THEN
+        v_content := ' joined the group';
+    ELSE
+        RETURN NULL;
+    END IF;
+
+    -- Nothing to announce when the whole group or the person's account is being deleted
+    IF NOT EXISTS (SELECT 1 FROM public.party_groups WHERE id = v_member.group_id) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT u.name INTO v_name FROM public.users u WHERE u.id = v_member.user_id;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.messages (group_id, sender_id, content, message_type)
+    VALUES (v_member.group_id, v_member.user_id, COALESCE(v_name, 'Someone') || v_content, 'system');
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS post_group_membership_message_trigger ON public.group_members;
+CREATE TRIGGER post_group_membership_message_trigger
+    AFTER INSERT OR UPDATE OF approved OR DELETE ON public.group_members
+    FOR EACH ROW EXECUTE FUNCTION public.post_group_membership_message();
+
+-- Announce changes to a group's name, time or venue in its chat
+CREATE OR REPLACE FUNCTION public.post_group_plan_message()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_changes TEXT[] := '{}';
+    v_editor_id UUID := COALESCE(auth.uid(), NEW.creator_id);
+    v_name TEXT;
+BEGIN
+    IF NEW.name IS DISTINCT FROM OLD.name THEN
+        v_changes := array_append(v_changes, 'renamed the group to ' || NEW.name);
+    END IF;
+
+    IF NEW.date IS DISTINCT FROM OLD.date OR NEW.time IS DISTINCT FROM OLD.time THEN
+        v_changes := array_append(
+            v_changes,
+            'moved the plan to ' || to_char(NEW.date, 'FMDy FMDD Mon') || ' at '
+                || to_char(NEW.time, 'FMHH12:MI AM')
+        );
+    END IF;
+
+    IF NEW.venue_id IS DISTINCT FROM OLD.venue_id THEN
+        v_changes := array_append(
+            v_changes,
+            COALESCE(
+                'changed the venue to ' || (SELECT v.name FROM public.venues v WHERE v.id = NEW.venue_id),
+                'removed the venue'
+            )
+        );
+    END IF;
+
+    IF cardinality(v_changes) = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT u.name INTO v_name FROM public.users u WHERE u.id = v_editor_id;
+
+    INSERT INTO public.messages (group_id, sender_id, content, message_type)
+    VALUES (
+        NEW.id,
+        v_editor_id,
+        left(COALESCE(v_name, 'Someone') || ' ' || array_to_string(v_changes, ' and '), 1000),
+        'system'
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS post_group_plan_message_trigger ON public.party_groups;
+CREATE TRIGGER post_group_plan_message_trigger
+    AFTER UPDATE OF name, date, time, venue_id ON public.party_groups
+    FOR EACH ROW EXECUTE FUNCTION public.post_group_plan_message();
+
+-- Mark a group's chat as read by the current user. Members can't update their own
+-- membership, so this runs as its owner and only touches last_read_at.
+CREATE OR REPLACE FUNCTION public.mark_group_read(p_group_id UUID)
+RETURNS void AS $$
+    UPDATE public.group_members
+    SET last_read_at = NOW()
+    WHERE group_id = p_group_id
+    AND user_id = auth.uid()
+    AND approved = true;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Messages from others the current user hasn't read, for each of their groups with any
+CREATE OR REPLACE FUNCTION public.get_group_unread_counts()
+RETURNS TABLE (group_id UUID, unread_count INTEGER) AS $$
+    SELECT gm.group_id, COUNT(m.id)::INTEGER AS unread_count
+    FROM public.group_members gm
+    JOIN public.messages m ON m.group_id = gm.group_id
+        AND m.created_at > gm.last_read_at
+        AND m.sender_id IS DISTINCT FROM auth.uid()
+    WHERE gm.user_id = auth.uid()
+    AND gm.approved = true
+    GROUP BY gm.group_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Stream new messages to open chats. Realtime applies the messages select policy.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime'
+    ) AND NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'messages'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+    END IF;
+END $$;
+
+-- Verify the functions were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'get_group_unread_counts'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'post_group_membership_message'
+    ) THEN
+        RAISE NOTICE 'Group chat set up successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to set up group chat';
+    END IF;
+END $$;
@@ -0,0 +1,316 @@
+-- Migration: Group venue polls
+-- Date: 2025-06-04
+-- Description: Lets a party group vote on where to go. An organiser or admin starts a poll with a
+-- close time, members nominate venues and each member votes for one. When the poll closes the
+-- venue with the most votes becomes the group's venue and the result is posted to the group chat.
+-- Due polls are closed every minute by pg_cron where the extension is enabled, and by the app
+-- when someone opens a poll that is past its close time.
+
+-- Keep the limits in sync with GROUP_POLL_CONFIG in src/lib/constants.ts
+CREATE TABLE IF NOT EXISTS public.group_polls (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    group_id UUID REFERENCES public.party_groups(id) ON DELETE CASCADE NOT NULL,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    winner_venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    CONSTRAINT group_polls_closes_at_check CHECK (closes_at > created_at)
+);
+
+CREATE TABLE IF NOT EXISTS public.group_poll_options (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.group_polls(id) ON DELETE CASCADE NOT NULL,
+    venue_id UUID REFERENCES public.venues(id) ON DELETE CASCADE NOT NULL,
+    added_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Each venue is nominated once per poll
+    UNIQUE(poll_id, venue_id),
+    -- Lets votes check their option belongs to their poll
+    UNIQUE(id, poll_id)
+);
+
+-- One vote per member per poll. Changing a vote updates the row.
+CREATE TABLE IF NOT EXISTS public.group_poll_votes (
+    poll_id UUID REFERENCES public.group_polls(id) ON DELETE CASCADE NOT NULL,
+    option_id UUID NOT NULL,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    PRIMARY KEY (poll_id, user_id),
+    FOREIGN KEY (option_id, poll_id) REFERENCES public.group_poll_options(id, poll_id) ON DELETE CASCADE
+);
+
+-- A group has at most one open poll
+CREATE UNIQUE INDEX IF NOT EXISTS idx_group_polls_open ON public.group_polls(group_id)
+WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_group_polls_group ON public.group_polls(group_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_group_polls_due ON public.group_polls(closes_at)
+WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_group_poll_votes_option ON public.group_poll_votes(option_id);
+
+ALTER TABLE public.group_polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Whether the current user is a member of a poll's group and the poll takes nominations and votes
+CREATE OR REPLACE FUNCTION public.can_take_part_in_group_poll(p_poll_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.group_polls gp
+        WHERE gp.id = p_poll_id
+        AND gp.closed_at IS NULL
+        AND gp.closes_at > NOW()
+        AND public.is_group_member(gp.group_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Members see their groups' polls, nominations and votes
+DROP POLICY IF EXISTS "Group members can view polls" ON public.group_polls;
+CREATE POLICY "Group members can view polls" ON public.group_polls FOR SELECT USING (
+    public.is_group_member(group_id)
+);
+-- Organisers and admins start polls. Polls are only closed by close_group_poll().
+DROP POLICY IF EXISTS "Group admins can start polls" ON public.group_polls;
+CREATE POLICY "Group admins can start polls" ON public.group_polls FOR INSERT WITH CHECK (
+    auth.uid() = created_by
+    AND closed_at IS NULL
+    AND winner_venue_id IS NULL
+    AND public.is_group_admin(group_id)
+);
+
+DROP POLICY IF EXISTS "Group members can view poll options" ON public.group_poll_options;
+CREATE POLICY "Group members can view poll options" ON public.group_poll_options FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.group_polls gp
+        WHERE gp.id = group_poll_options.poll_id
+        AND public.is_group_member(gp.group_id)
+    )
+);
+-- Members nominate up to 8 venues while a poll is open
+DROP POLICY IF EXISTS "Group members can nominate venues" ON public.group_poll_options;
+CREATE POLICY "Group members can nominate venues" ON public.group_poll_options FOR INSERT WITH CHECK (
+    auth.uid() = added_by
+    AND public.can_take_part_in_group_poll(poll_id)
+    AND (
+        SELECT COUNT(*) FROM public.group_poll_options o
+        WHERE o.poll_id = group_poll_options.poll_id
+    ) < 8
+);
+
+DROP POLICY IF EXISTS "Group members can view poll votes" ON public.group_poll_votes;
+CREATE POLICY "Group members can view poll votes" ON public.group_poll_votes FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.group_polls gp
+        WHERE gp.id = group_poll_votes.poll_id
+        AND public.is_group_member(gp.group_id)
+    )
+);
+-- Members vote, change their vote and take it back while a poll is open
+DROP POLICY IF EXISTS "Group members can vote" ON public.group_poll_votes;
+CREATE POLICY "Group members can vote" ON public.group_poll_votes FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND public.can_take_part_in_group_poll(poll_id)
+);
+DROP POLICY IF EXISTS "Group members can change their vote" ON public.group_poll_votes;
+CREATE POLICY "Group members can change their vote" ON public.group_poll_votes FOR UPDATE USING (
+    auth.uid() = user_id AND public.can_take_part_in_group_poll(poll_id)
+) WITH CHECK (
+    auth.uid() = user_id AND public.can_take_part_in_group_poll(poll_id)
+);
+DROP POLICY IF EXISTS "Group members can take back their vote" ON public.group_poll_votes;
+CREATE POLICY "Group members can take back their vote" ON public.group_poll_votes FOR DELETE USING (
+    auth.uid() = user_id AND public.can_take_part_in_group_poll(poll_id)
+);
+
+-- The poll result is announced by finish_group_poll(), so a venue change it makes isn't
+-- announced again as a plan change
+CREATE OR REPLACE FUNCTION public.post_group_plan_message()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_changes TEXT[] := '{}';
+    v_editor_id UUID := COALESCE(auth.uid(), NEW.creator_id);
+    v_name TEXT;
+BEGIN
+    IF NEW.name IS DISTINCT FROM OLD.name THEN
+        v_changes := array_append(v_changes, 'renamed the group to ' || NEW.name);
+    END IF;
+
+    IF NEW.date IS DISTINCT FROM OLD.date OR NEW.time IS DISTINCT FROM OLD.time THEN
+        v_changes := array_append(
+            v_changes,
+            'moved the plan to ' || to_char(NEW.date, 'FMDy FMDD Mon') || ' at '
+                || to_char(NEW.time, 'FMHH12:MI AM')
+        );
+    END IF;
+
+    IF NEW.venue_id IS DISTINCT FROM OLD.venue_id
+        AND COALESCE(current_setting('buzzvar.closing_group_poll', true), '') <> 'on' THEN
+        v_changes := array_append(
+            v_changes,
+            COALESCE(
+                'changed the venue to ' || (SELECT v.name FROM public.venues v WHERE v.id = NEW.venue_id),
+                'removed the venue'
+            )
+        );
+    END IF;
+
+    IF cardinality(v_changes) = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT u.name INTO v_name FROM public.users u WHERE u.id = v_editor_id;
+
+    INSERT INTO public.messages (group_id, sender_id, content, message_type)
+    VALUES (
+        NEW.id,
+        v_editor_id,
+        left(COALESCE(v_name, 'Someone') || ' ' || array_to_string(v_changes, ' and '), 1000),
+        'system'
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Close a poll: the venue with the most votes wins, ties going to the one nominated first. The
+-- winner becomes the group's venue and the result is posted to the group chat. Returns the
+-- winning venue's id, or NULL when nobody voted.
+CREATE OR REPLACE FUNCTION public.finish_group_poll(p_poll_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_poll public.group_polls;
+    v_group public.party_groups;
+    v_winner_id UUID;
+    v_winner_name TEXT;
+    v_winner_votes INTEGER;
+    v_total_votes INTEGER;
+BEGIN
+    SELECT * INTO v_poll FROM public.group_polls WHERE id = p_poll_id FOR UPDATE;
+    IF NOT FOUND OR v_poll.closed_at IS NOT NULL THEN
+        RETURN v_poll.winner_venue_id;
+    END IF;
+
+    SELECT o.venue_id, COUNT(v.user_id)::INTEGER INTO v_winner_id, v_winner_votes
+    FROM public.group_poll_options o
+    JOIN public.group_poll_votes v ON v.option_id = o.id
+    WHERE o.poll_id = p_poll_id
+    GROUP BY o.id, o.venue_id, o.created_at
+    ORDER BY COUNT(v.user_id) DESC, o.created_at, o.id
+    LIMIT 1;
+
+    SELECT COUNT(*)::INTEGER INTO v_total_votes
+    FROM public.group_poll_votes WHERE poll_id = p_poll_id;
+
+    UPDATE public.group_polls
+    SET closed_at = NOW(), winner_venue_id = v_winner_id
+    WHERE id = p_poll_id;
+
+    SELECT * INTO v_group FROM public.party_groups WHERE id = v_poll.group_id;
+
+    IF v_winner_id IS NOT NULL AND v_winner_id IS DISTINCT FROM v_group.venue_id THEN
+        PERFORM set_config('buzzvar.closing_group_poll', 'on', true);
+        UPDATE public.party_groups SET venue_id = v_winner_id WHERE id = v_group.id;
+        PERFORM set_config('buzzvar.closing_group_poll', '', true);
+    END IF;
+
+    SELECT v.name INTO v_winner_name FROM public.venues v WHERE v.id = v_winner_id;
+
+    INSERT INTO public.messages (group_id, sender_id, content, message_type)
+    VALUES (
+        v_group.id,
+        COALESCE(auth.uid(), v_poll.created_by, v_group.creator_id),
+        CASE
+            WHEN v_winner_id IS NULL THEN 'The venue vote closed without any votes, so the plan stays the same'
+            ELSE left(
+                'The venue vote is in: ' || v_winner_name || ' won with ' || v_winner_votes
+                    || ' of ' || v_total_votes || CASE WHEN v_total_votes = 1 THEN ' vote' ELSE ' votes' END,
+                1000
+            )
+        END,
+        'system'
+    );
+
+    RETURN v_winner_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.finish_group_poll(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Close a poll from the app. Any member can once it's past its close time, and organisers and
+-- admins can close it early. Returns the winning venue's id, or NULL when nobody voted.
+CREATE OR REPLACE FUNCTION public.close_group_poll(p_poll_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_poll public.group_polls;
+BEGIN
+    SELECT * INTO v_poll FROM public.group_polls WHERE id = p_poll_id;
+
+    IF NOT FOUND OR NOT public.is_group_member(v_poll.group_id) THEN
+        RAISE EXCEPTION 'This poll no longer exists'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_poll.closed_at IS NULL
+        AND v_poll.closes_at > NOW()
+        AND NOT public.is_group_admin(v_poll.group_id) THEN
+        RAISE EXCEPTION 'Only the organiser and admins can close a poll early'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN public.finish_group_poll(p_poll_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Close every poll that is past its close time
+CREATE OR REPLACE FUNCTION public.close_due_group_polls()
+RETURNS INTEGER AS $$
+DECLARE
+    v_poll_id UUID;
+    v_closed INTEGER := 0;
+BEGIN
+    FOR v_poll_id IN
+        SELECT id FROM public.group_polls
+        WHERE closed_at IS NULL AND closes_at <= NOW()
+    LOOP
+        PERFORM public.finish_group_poll(v_poll_id);
+        v_closed := v_closed + 1;
+    END LOOP;
+
+    RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.close_due_group_polls() FROM PUBLIC, anon, authenticated;
+
+-- Close due polls every minute
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+        PERFORM cron.schedule(
+            'close-due-group-polls',
+            '* * * * *',
+            'SELECT public.close_due_group_polls()'
+        );
+    ELSE
+        RAISE NOTICE 'pg_cron is not enabled; schedule public.close_due_group_polls() manually';
+    END IF;
+END $$;
+
+-- Verify the tables and functions were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'group_poll_votes'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'close_group_poll'
+    ) THEN
+        RAISE NOTICE 'Group venue polls added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add group venue polls';
+    END IF;
+END $$;
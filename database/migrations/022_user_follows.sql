@@ -0,0 +1,109 @@
+-- Migration: Follows
+-- Date: 2025-06-11
+-- Description: Lets people follow each other. A follow starts as a request that the other person
+-- accepts, and either of them can end it later. Only the two people involved can see a follow,
+-- while follower and following counts are public through get_follow_counts(). The app's Friends
+-- feed reads the vibe checks, reviews and group plans of the people a user follows.
+
+CREATE TABLE IF NOT EXISTS public.user_follows (
+    follower_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    following_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'accepted')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+
+    PRIMARY KEY (follower_id, following_id),
+    CONSTRAINT user_follows_not_self CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_follows_following ON public.user_follows(following_id, status);
+
+ALTER TABLE public.user_follows ENABLE ROW LEVEL SECURITY;
+
+-- Follows are visible to the follower and the person they follow
+DROP POLICY IF EXISTS "Users can view their follows" ON public.user_follows;
+CREATE POLICY "Users can view their follows" ON public.user_follows FOR SELECT USING (
+    auth.uid() = follower_id OR auth.uid() = following_id
+);
+-- Following someone sends them a request
+DROP POLICY IF EXISTS "Users can request to follow" ON public.user_follows;
+CREATE POLICY "Users can request to follow" ON public.user_follows FOR INSERT WITH CHECK (
+    auth.uid() = follower_id AND status = 'pending'
+);
+-- The person being followed accepts the request
+DROP POLICY IF EXISTS "Users can accept follow requests" ON public.user_follows;
+CREATE POLICY "Users can accept follow requests" ON public.user_follows FOR UPDATE USING (
+    auth.uid() = following_id AND status = 'pending'
+) WITH CHECK (
+    auth.uid() = following_id AND status = 'accepted'
+);
+-- Either of them ends the follow: unfollowing, cancelling a request, declining one or removing a
+-- follower
+DROP POLICY IF EXISTS "Users can remove follows" ON public.user_follows;
+CREATE POLICY "Users can remove follows" ON public.user_follows FOR DELETE USING (
+    auth.uid() = follower_id OR auth.uid() = following_id
+);
+
+-- Accepting is the only change a follow takes. It records when the request was accepted.
+CREATE OR REPLACE FUNCTION public.accept_user_follow()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.follower_id <> OLD.follower_id
+        OR NEW.following_id <> OLD.following_id
+        OR NEW.created_at <> OLD.created_at THEN
+        RAISE EXCEPTION 'A follow can only be accepted'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'accepted' AND OLD.status = 'pending' THEN
+        NEW.accepted_at := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS accept_user_follow_trigger ON public.user_follows;
+CREATE TRIGGER accept_user_follow_trigger
+    BEFORE UPDATE ON public.user_follows
+    FOR EACH ROW EXECUTE FUNCTION public.accept_user_follow();
+
+-- Someone's follower and following counts, which anyone can see. Waiting follow requests are only
+-- counted for the current user.
+CREATE OR REPLACE FUNCTION public.get_follow_counts(p_user_id UUID)
+RETURNS TABLE (
+    followers INTEGER,
+    following INTEGER,
+    requests INTEGER
+) AS $$
+    SELECT
+        (
+            SELECT COUNT(*) FROM public.user_follows
+            WHERE following_id = p_user_id AND status = 'accepted'
+        )::INTEGER,
+        (
+            SELECT COUNT(*) FROM public.user_follows
+            WHERE follower_id = p_user_id AND status = 'accepted'
+        )::INTEGER,
+        CASE WHEN p_user_id = auth.uid() THEN (
+            SELECT COUNT(*) FROM public.user_follows
+            WHERE following_id = p_user_id AND status = 'pending'
+        ) ELSE 0 END::INTEGER;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Verify the table and function were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public'
+        AND table_name = 'user_follows'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'get_follow_counts'
+    ) THEN
+        RAISE NOTICE 'Follows added successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to add follows';
+    END IF;
+END $$;
@@ -0,0 +1,202 @@
+-- Migration: Venue summaries ordered by live activity
+-- Date: 2025-06-18
+-- Description: get_venue_summaries() puts venues with live activity first, the ones with a more
+-- confident busyness estimate ahead, then continues nearest first around a location or newest
+-- first without one. The app used to sort each page after fetching it, so a live venue on page
+-- two showed up below quiet venues on page one and the order changed from page to page. The
+-- venue's activity rank is part of the page cursor.
+
+-- Venues with a vibe check posted or confirmed in the last 2 hours, the app's live activity
+-- window (see batchGetVenueVibeStats in src/services/OptimizedQueryService.ts), ranked 3, 2 or 1
+-- by the high, medium or low confidence of their busyness estimate. The estimate weighs the
+-- vibe checks of the last 4 hours as estimateBusyness() in src/lib/busynessEstimate.ts does:
+-- each halves every 45 minutes since it was posted or confirmed and is scaled by its author's
+-- reputation. Keep the half-life and confidence levels in sync with that file. Venues that
+-- aren't returned have an activity rank of 0.
+CREATE OR REPLACE FUNCTION public.venue_activity_ranks()
+RETURNS TABLE (venue_id UUID, activity_rank INTEGER) AS $$
+    WITH recent AS (
+        SELECT
+            vc.venue_id,
+            GREATEST(vc.created_at, COALESCE(vc.last_confirmed_at, vc.created_at)) AS active_at,
+            public.reputation_weight(u.reputation_score) AS reputation
+        FROM public.vibe_checks vc
+        JOIN public.users u ON u.id = vc.user_id
+        WHERE vc.hidden_at IS NULL
+        AND (
+            vc.created_at > NOW() - INTERVAL '4 hours'
+            OR vc.last_confirmed_at > NOW() - INTERVAL '4 hours'
+        )
+    ),
+    estimates AS (
+        SELECT
+            recent.venue_id,
+            BOOL_OR(recent.active_at > NOW() - INTERVAL '2 hours') AS is_live,
+            SUM(
+                POWER(0.5, GREATEST(EXTRACT(EPOCH FROM NOW() - recent.active_at), 0) / 60 / 45)
+                * recent.reputation
+            ) AS weight
+        FROM recent
+        GROUP BY recent.venue_id
+    )
+    SELECT
+        estimates.venue_id,
+        CASE
+            WHEN ROUND(estimates.weight / (estimates.weight + 1), 2) >= 0.6 THEN 3
+            WHEN ROUND(estimates.weight / (estimates.weight + 1), 2) >= 0.35 THEN 2
+            ELSE 1
+        END
+    FROM estimates
+    WHERE estimates.is_live;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS public.get_venue_summaries(DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, INTEGER, DOUBLE PRECISION, TIMESTAMP WITH TIME ZONE, UUID);
+
+-- A page of venue cards, venues with live activity first by activity rank. With p_latitude /
+-- p_longitude the venues are the ones within p_radius_meters, nearest first within each
+-- activity rank; otherwise the newest venues come first. Pass the last card's activity_rank, distance_meters
+-- (or created_at without a location) and id as p_after_activity_rank, p_after_distance /
+-- p_after_created_at and p_after_id to get the next page.
+CREATE FUNCTION public.get_venue_summaries(
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_radius_meters DOUBLE PRECISION DEFAULT 10000,
+    p_limit INTEGER DEFAULT 20,
+    p_after_activity_rank INTEGER DEFAULT NULL,
+    p_after_distance DOUBLE PRECISION DEFAULT NULL,
+    p_after_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    venue public.venues,
+    activity_rank INTEGER,
+    distance_meters DOUBLE PRECISION,
+    average_rating DOUBLE PRECISION,
+    review_count BIGINT,
+    total_vibe_checks BIGINT,
+    vibe_checks_24h BIGINT,
+    promotions JSONB,
+    is_bookmarked BOOLEAN
+) AS $$
+DECLARE
+    -- Same bounding box as get_nearby_venues()
+    lat_delta DOUBLE PRECISION;
+    lon_delta DOUBLE PRECISION;
+    page_venues public.venues[];
+    page_ranks INTEGER[];
+    page_distances DOUBLE PRECISION[];
+BEGIN
+    IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+        IF p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180 THEN
+            RAISE EXCEPTION 'Search location must be valid coordinates'
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        IF p_radius_meters IS NULL OR p_radius_meters <= 0 OR p_radius_meters > 100000 THEN
+            RAISE EXCEPTION 'Search radius must be between 1m and 100km'
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        lat_delta := p_radius_meters / 111320.0;
+        lon_delta := p_radius_meters / (111320.0 * GREATEST(COS(RADIANS(p_latitude)), 0.01));
+
+        SELECT
+            array_agg(nearby.v ORDER BY nearby.rank DESC, nearby.distance, nearby.id),
+            array_agg(nearby.rank ORDER BY nearby.rank DESC, nearby.distance, nearby.id),
+            array_agg(nearby.distance ORDER BY nearby.rank DESC, nearby.distance, nearby.id)
+        INTO page_venues, page_ranks, page_distances
+        FROM (
+            SELECT candidate.*
+            FROM (
+                SELECT
+                    v,
+                    v.id,
+                    COALESCE(ranks.activity_rank, 0) AS rank,
+                    public.distance_meters(p_latitude, p_longitude, v.latitude, v.longitude) AS distance
+                FROM public.venues v
+                LEFT JOIN public.venue_activity_ranks() ranks ON ranks.venue_id = v.id
+                WHERE v.latitude BETWEEN p_latitude - lat_delta AND p_latitude + lat_delta
+                -- Near the antimeridian the box wraps around, so only the latitude band narrows the search
+                AND (
+                    p_longitude - lon_delta < -180
+                    OR p_longitude + lon_delta > 180
+                    OR v.longitude BETWEEN p_longitude - lon_delta AND p_longitude + lon_delta
+                )
+            ) candidate
+            WHERE candidate.distance <= p_radius_meters
+            -- The rank sorts descending and the distance ascending, so the rank is negated
+            AND (
+                p_after_distance IS NULL
+                OR p_after_id IS NULL
+                OR (-candidate.rank, candidate.distance, candidate.id)
+                    > (-COALESCE(p_after_activity_rank, 0), p_after_distance, p_after_id)
+            )
+            ORDER BY candidate.rank DESC, candidate.distance, candidate.id
+            LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+        ) nearby;
+    ELSE
+        SELECT
+            array_agg(newest.v ORDER BY newest.rank DESC, (newest.v).created_at DESC, (newest.v).id DESC),
+            array_agg(newest.rank ORDER BY newest.rank DESC, (newest.v).created_at DESC, (newest.v).id DESC)
+        INTO page_venues, page_ranks
+        FROM (
+            SELECT v, COALESCE(ranks.activity_rank, 0) AS rank
+            FROM public.venues v
+            LEFT JOIN public.venue_activity_ranks() ranks ON ranks.venue_id = v.id
+            WHERE p_after_created_at IS NULL
+            OR p_after_id IS NULL
+            OR (COALESCE(ranks.activity_rank, 0), v.created_at, v.id)
+                < (COALESCE(p_after_activity_rank, 0), p_after_created_at, p_after_id)
+            ORDER BY COALESCE(ranks.activity_rank, 0) DESC, v.created_at DESC, v.id DESC
+            LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+        ) newest;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        page.v,
+        page.rank,
+        page.distance,
+        COALESCE(ratings.average_rating, 0)::DOUBLE PRECISION,
+        COALESCE(ratings.review_count, 0)::BIGINT,
+        COALESCE(stats.total_vibe_checks, 0)::BIGINT,
+        COALESCE(stats.recent_count_24h, 0)::BIGINT,
+        COALESCE((
+            SELECT jsonb_agg(to_jsonb(p) ORDER BY p.created_at DESC)
+            FROM public.promotions p
+            WHERE p.venue_id = (page.v).id
+            AND p.is_active = TRUE
+            AND (p.start_date IS NULL OR p.start_date <= CURRENT_DATE)
+            AND (p.end_date IS NULL OR p.end_date >= CURRENT_DATE)
+        ), '[]'::JSONB),
+        EXISTS (
+            SELECT 1 FROM public.user_bookmarks b
+            WHERE b.venue_id = (page.v).id
+            AND b.user_id = auth.uid()
+        )
+    FROM (
+        SELECT page_venues[i] AS v, page_ranks[i] AS rank, page_distances[i] AS distance, i AS page_index
+        FROM generate_subscripts(page_venues, 1) AS i
+    ) page
+    LEFT JOIN public.venues_with_ratings ratings ON ratings.id = (page.v).id
+    LEFT JOIN public.venue_vibe_stats stats ON stats.venue_id = (page.v).id
+    ORDER BY page.page_index;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Verify the functions were created successfully
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'venue_activity_ranks'
+    ) AND EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'get_venue_summaries'
+        AND pronargs = 8
+    ) THEN
+        RAISE NOTICE 'Venue summaries ordered by live activity successfully';
+    ELSE
+        RAISE EXCEPTION 'Failed to order venue summaries by live activity';
+    END IF;
+END $$;
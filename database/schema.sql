@@ -8,9 +8,28 @@ CREATE TABLE public.users (
     email TEXT NOT NULL,
     university TEXT,
     avatar_url TEXT,
+    role TEXT DEFAULT 'user' NOT NULL CHECK (role IN ('user', 'moderator', 'admin')),
+    reputation_score NUMERIC(5, 2) DEFAULT 50 NOT NULL CHECK (reputation_score BETWEEN 0 AND 100),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Polygons are arrays of 3 to 50 {"latitude": number, "longitude": number} corners.
+-- Keep the limits in sync with GEOFENCE_CONFIG in src/lib/constants.ts.
+CREATE OR REPLACE FUNCTION public.is_valid_venue_geofence_polygon(p_polygon JSONB)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN jsonb_typeof(p_polygon) IS DISTINCT FROM 'array' THEN FALSE
+        WHEN jsonb_array_length(p_polygon) NOT BETWEEN 3 AND 50 THEN FALSE
+        ELSE NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_polygon) corner
+            WHERE jsonb_typeof(corner->'latitude') IS DISTINCT FROM 'number'
+            OR jsonb_typeof(corner->'longitude') IS DISTINCT FROM 'number'
+            OR ABS((corner->>'latitude')::NUMERIC) > 90
+            OR ABS((corner->>'longitude')::NUMERIC) > 180
+        )
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
 -- Venues table
 CREATE TABLE public.venues (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -24,6 +43,9 @@ CREATE TABLE public.venues (
     latitude DECIMAL(10, 8),
     longitude DECIMAL(11, 8),
     address TEXT,
+    geofence_radius_meters REAL CHECK (geofence_radius_meters BETWEEN 10 AND 1000), -- 100m when NULL
+    geofence_polygon JSONB CHECK (public.is_valid_venue_geofence_polygon(geofence_polygon)), -- Takes precedence over the radius
+    tags TEXT[] NOT NULL DEFAULT '{}', -- e.g. rooftop, live music, searched by search_venues()
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -52,17 +74,25 @@ CREATE TABLE public.promotions (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Invite codes, e.g. 3F9A0C1B. Keep the format in sync with parseGroupInviteCode in src/lib/groups.ts.
+CREATE OR REPLACE FUNCTION public.generate_group_invite_code()
+RETURNS TEXT AS $$
+    SELECT upper(substr(md5(random()::text || clock_timestamp()::text), 1, 8));
+$$ LANGUAGE sql VOLATILE;
+
 -- Party groups table
+-- Keep the size limits in sync with GROUP_CONFIG in src/lib/constants.ts.
 CREATE TABLE public.party_groups (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
-    name TEXT NOT NULL,
+    name TEXT NOT NULL CONSTRAINT party_groups_name_check CHECK (char_length(btrim(name)) BETWEEN 1 AND 60),
     venue_id UUID REFERENCES public.venues(id) ON DELETE CASCADE,
     date DATE NOT NULL,
     time TIME NOT NULL,
-    max_size INTEGER NOT NULL DEFAULT 10,
+    max_size INTEGER NOT NULL DEFAULT 10 CONSTRAINT party_groups_max_size_check CHECK (max_size BETWEEN 2 AND 20),
     creator_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
     is_public BOOLEAN DEFAULT TRUE,
     description TEXT,
+    invite_code TEXT NOT NULL DEFAULT public.generate_group_invite_code(),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -73,7 +103,8 @@ CREATE TABLE public.group_members (
     group_id UUID REFERENCES public.party_groups(id) ON DELETE CASCADE,
     user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
     approved BOOLEAN DEFAULT FALSE,
-    role TEXT DEFAULT 'member', -- 'creator', 'admin', 'member'
+    role TEXT NOT NULL DEFAULT 'member' CONSTRAINT group_members_role_check CHECK (role IN ('creator', 'admin', 'member')),
+    last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- When they last read the group's chat
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
     UNIQUE(group_id, user_id)
 );
@@ -84,8 +115,16 @@ CREATE TABLE public.messages (
     group_id UUID REFERENCES public.party_groups(id) ON DELETE CASCADE,
     sender_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
     content TEXT NOT NULL,
-    message_type TEXT DEFAULT 'text', -- 'text', 'image', 'system'
-    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    message_type TEXT NOT NULL DEFAULT 'text' CONSTRAINT messages_message_type_check CHECK (message_type IN ('text', 'image', 'system')),
+    image_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Photos carry an image, text messages need some text. Photo captions may be empty.
+    -- Keep the limits in sync with GROUP_CHAT_CONFIG in src/lib/constants.ts.
+    CONSTRAINT messages_content_check CHECK (
+        char_length(content) <= 1000
+        AND (message_type <> 'text' OR char_length(btrim(content)) > 0)
+        AND ((message_type = 'image') = (image_url IS NOT NULL))
+    )
 );
 
 -- Club views/interactions table (for analytics and recommendations)
@@ -109,14 +148,22 @@ CREATE TABLE public.user_bookmarks (
 
 -- Create indexes for better performance
 CREATE INDEX idx_venues_location ON public.venues(latitude, longitude);
+CREATE INDEX idx_venues_created_at ON public.venues(created_at DESC, id DESC);
 CREATE INDEX idx_party_groups_date ON public.party_groups(date);
 CREATE INDEX idx_party_groups_venue ON public.party_groups(venue_id);
+CREATE INDEX idx_party_groups_public_date ON public.party_groups(date, time) WHERE is_public = true;
+CREATE UNIQUE INDEX idx_party_groups_invite_code ON public.party_groups(invite_code);
 CREATE INDEX idx_group_members_group ON public.group_members(group_id);
+CREATE INDEX idx_group_members_pending ON public.group_members(group_id) WHERE approved = false;
 CREATE INDEX idx_group_members_user ON public.group_members(user_id);
 CREATE INDEX idx_messages_group ON public.messages(group_id);
 CREATE INDEX idx_messages_created_at ON public.messages(created_at);
+CREATE INDEX idx_messages_group_created ON public.messages(group_id, created_at DESC, id DESC);
 CREATE INDEX idx_club_views_user ON public.club_views(user_id);
 CREATE INDEX idx_club_views_club ON public.club_views(club_id);
+CREATE INDEX idx_club_views_viewed_at ON public.club_views(viewed_at DESC);
+CREATE INDEX idx_user_bookmarks_venue ON public.user_bookmarks(venue_id);
+CREATE INDEX idx_user_bookmarks_created_at ON public.user_bookmarks(created_at DESC);
 
 -- Row Level Security (RLS) policies
 
@@ -145,28 +192,95 @@ CREATE POLICY "Anyone can view menus" ON public.menus FOR SELECT USING (true);
 -- Promotions policies (public read access)
 CREATE POLICY "Anyone can view promotions" ON public.promotions FOR SELECT USING (true);
 
+-- Whether the current user is an approved member of a group. Runs as its owner so policies on
+-- group_members can use it without looking themselves up.
+CREATE OR REPLACE FUNCTION public.is_group_member(p_group_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.group_members
+        WHERE group_id = p_group_id
+        AND user_id = auth.uid()
+        AND approved = true
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the current user is the creator or an admin of a group
+CREATE OR REPLACE FUNCTION public.is_group_admin(p_group_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.group_members
+        WHERE group_id = p_group_id
+        AND user_id = auth.uid()
+        AND approved = true
+        AND role IN ('creator', 'admin')
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
 -- Party groups policies
-CREATE POLICY "Anyone can view public groups" ON public.party_groups FOR SELECT USING (is_public = true);
+-- Private groups are visible to their creator and members
+CREATE POLICY "Anyone can view public groups" ON public.party_groups FOR SELECT USING (
+    is_public = true
+    OR auth.uid() = creator_id
+    OR public.is_group_member(id)
+);
 CREATE POLICY "Users can create groups" ON public.party_groups FOR INSERT WITH CHECK (auth.uid() = creator_id);
 CREATE POLICY "Creators can update their groups" ON public.party_groups FOR UPDATE USING (auth.uid() = creator_id);
 CREATE POLICY "Creators can delete their groups" ON public.party_groups FOR DELETE USING (auth.uid() = creator_id);
 
 -- Group members policies
+-- People see their own memberships and requests, the members of their groups,
+-- and who has joined a public group
 CREATE POLICY "Group members can view group membership" ON public.group_members FOR SELECT USING (
-    EXISTS (
-        SELECT 1 FROM public.group_members gm 
-        WHERE gm.group_id = group_members.group_id 
-        AND gm.user_id = auth.uid()
-        AND gm.approved = true
+    auth.uid() = user_id
+    OR public.is_group_member(group_id)
+    OR (
+        approved = true
+        AND EXISTS (
+            SELECT 1 FROM public.party_groups pg
+            WHERE pg.id = group_members.group_id
+            AND pg.is_public = true
+        )
     )
 );
-CREATE POLICY "Users can join groups" ON public.group_members FOR INSERT WITH CHECK (auth.uid() = user_id);
-CREATE POLICY "Users can leave groups" ON public.group_members FOR DELETE USING (auth.uid() = user_id);
-CREATE POLICY "Group creators can manage members" ON public.group_members FOR UPDATE USING (
-    EXISTS (
-        SELECT 1 FROM public.party_groups pg 
-        WHERE pg.id = group_id 
-        AND pg.creator_id = auth.uid()
+-- People ask to join public groups. They can't approve themselves or pick their role.
+-- Private groups are joined with join_group_by_invite().
+CREATE POLICY "Users can request to join public groups" ON public.group_members FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND approved = false
+    AND role = 'member'
+    AND EXISTS (
+        SELECT 1 FROM public.party_groups pg
+        WHERE pg.id = group_members.group_id
+        AND pg.is_public = true
+    )
+);
+-- Members leave or cancel their requests. The creator deletes the group instead.
+CREATE POLICY "Users can leave groups" ON public.group_members FOR DELETE USING (
+    auth.uid() = user_id AND role <> 'creator'
+);
+-- Admins approve, promote and remove members. Only the creator manages admins.
+CREATE POLICY "Group admins can manage members" ON public.group_members FOR UPDATE USING (
+    (role = 'member' AND public.is_group_admin(group_id))
+    OR (
+        role = 'admin'
+        AND EXISTS (
+            SELECT 1 FROM public.party_groups pg
+            WHERE pg.id = group_members.group_id
+            AND pg.creator_id = auth.uid()
+        )
+    )
+) WITH CHECK (
+    role <> 'creator' AND public.is_group_admin(group_id)
+);
+CREATE POLICY "Group admins can remove members" ON public.group_members FOR DELETE USING (
+    (role = 'member' AND public.is_group_admin(group_id))
+    OR (
+        role = 'admin'
+        AND EXISTS (
+            SELECT 1 FROM public.party_groups pg
+            WHERE pg.id = group_members.group_id
+            AND pg.creator_id = auth.uid()
+        )
     )
 );
 
@@ -179,14 +293,11 @@ CREATE POLICY "Group members can view messages" ON public.messages FOR SELECT US
         AND gm.approved = true
     )
 );
+-- Members send text and photos. System messages only come from the group chat triggers.
 CREATE POLICY "Group members can send messages" ON public.messages FOR INSERT WITH CHECK (
-    auth.uid() = sender_id AND
-    EXISTS (
-        SELECT 1 FROM public.group_members gm 
-        WHERE gm.group_id = messages.group_id 
-        AND gm.user_id = auth.uid()
-        AND gm.approved = true
-    )
+    auth.uid() = sender_id
+    AND message_type IN ('text', 'image')
+    AND public.is_group_member(group_id)
 );
 
 -- Club views policies
@@ -214,7 +325,8 @@ CREATE TRIGGER update_menus_updated_at BEFORE UPDATE ON public.menus FOR EACH RO
 CREATE TRIGGER update_promotions_updated_at BEFORE UPDATE ON public.promotions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_party_groups_updated_at BEFORE UPDATE ON public.party_groups FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
--- Function to automatically add group creator as approved member
+-- Function to automatically add group creator as approved member. Runs as its owner because
+-- members can't approve themselves.
 CREATE OR REPLACE FUNCTION add_creator_to_group()
 RETURNS TRIGGER AS $$
 BEGIN
@@ -222,7 +334,7 @@ BEGIN
     VALUES (NEW.id, NEW.creator_id, true, 'creator');
     RETURN NEW;
 END;
-$$ language 'plpgsql';
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
 
 CREATE TRIGGER add_creator_to_group_trigger
     AFTER INSERT ON public.party_groups
@@ -246,6 +358,63 @@ CREATE POLICY "Allow public read access" ON public.reviews FOR SELECT USING (tru
 CREATE POLICY "Allow authenticated users to insert" ON public.reviews FOR INSERT WITH CHECK (auth.uid() = user_id);
 CREATE POLICY "Allow users to update their own review" ON public.reviews FOR UPDATE USING (auth.uid() = user_id);
 
+-- User roles can only be changed outside the app (SQL editor or service role)
+CREATE OR REPLACE FUNCTION public.prevent_user_role_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.role := 'user';
+    ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+        RAISE EXCEPTION 'User roles cannot be changed from the app'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_user_role_change_trigger
+    BEFORE INSERT OR UPDATE ON public.users
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_user_role_change();
+
+CREATE OR REPLACE FUNCTION public.is_moderator()
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.users
+        WHERE id = auth.uid() AND role = 'moderator'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.users
+        WHERE id = auth.uid() AND role = 'admin'
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Each item is {"type": "image" | "video", "url": text, "duration_seconds"?: number}.
+-- Keep the limits in sync with VIBE_CHECK_CONFIG in src/lib/constants.ts.
+CREATE OR REPLACE FUNCTION public.is_valid_vibe_check_media(p_media JSONB)
+RETURNS BOOLEAN AS $$
+    SELECT CASE
+        WHEN jsonb_typeof(p_media) IS DISTINCT FROM 'array' THEN FALSE
+        WHEN jsonb_array_length(p_media) > 4 THEN FALSE
+        ELSE NOT EXISTS (
+            SELECT 1 FROM jsonb_array_elements(p_media) item
+            WHERE jsonb_typeof(item) IS DISTINCT FROM 'object'
+            OR COALESCE(item->>'type', '') NOT IN ('image', 'video')
+            OR jsonb_typeof(item->'url') IS DISTINCT FROM 'string'
+            OR (item->>'type' = 'video' AND jsonb_typeof(item->'duration_seconds') = 'number'
+                AND (item->>'duration_seconds')::NUMERIC > 15)
+        )
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
 -- Vibe Checks Table
 CREATE TABLE public.vibe_checks (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -253,10 +422,30 @@ CREATE TABLE public.vibe_checks (
     user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
     busyness_rating SMALLINT NOT NULL CHECK (busyness_rating >= 1 AND busyness_rating <= 5),
     comment TEXT CHECK (LENGTH(comment) <= 280),
-    photo_url TEXT,
+    photo_url TEXT, -- First photo in media, kept in sync by sync_vibe_check_photo_url()
+    media JSONB DEFAULT '[]'::JSONB NOT NULL CONSTRAINT vibe_checks_media_valid CHECK (public.is_valid_vibe_check_media(media)),
     user_latitude DECIMAL(10, 8) NOT NULL,
     user_longitude DECIMAL(11, 8) NOT NULL,
+    location_accuracy_meters REAL CHECK (location_accuracy_meters >= 0), -- Accuracy radius of the verified fix
+    location_confidence TEXT CHECK (location_confidence IN ('low', 'medium', 'high')), -- NULL before server-side verification
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Optional structured attributes
+    music_genre TEXT CHECK (LENGTH(music_genre) <= 40),
+    queue_length TEXT CHECK (queue_length IN ('none', 'short', 'medium', 'long')),
+    wait_minutes SMALLINT CHECK (wait_minutes >= 0 AND wait_minutes <= 240),
+    cover_charge INTEGER CHECK (cover_charge >= 0 AND cover_charge <= 100000),
+    crowd_age_range TEXT CHECK (crowd_age_range IN ('18-24', '25-34', '35-44', '45+', 'mixed')),
+    dress_code_rating SMALLINT CHECK (dress_code_rating >= 1 AND dress_code_rating <= 5),
+
+    -- Reaction counts, kept in sync from vibe_check_reactions
+    helpful_count INTEGER DEFAULT 0 NOT NULL,
+    still_accurate_count INTEGER DEFAULT 0 NOT NULL,
+    last_confirmed_at TIMESTAMP WITH TIME ZONE,
+
+    -- Moderation
+    report_count INTEGER DEFAULT 0 NOT NULL,
+    hidden_at TIMESTAMP WITH TIME ZONE,
     
     -- Constraint: One vibe check per user per venue per hour
     CONSTRAINT unique_user_venue_hour UNIQUE (user_id, venue_id, DATE_TRUNC('hour', created_at))
@@ -266,6 +455,11 @@ CREATE TABLE public.vibe_checks (
 CREATE INDEX idx_vibe_checks_venue_recent ON public.vibe_checks(venue_id, created_at DESC);
 CREATE INDEX idx_vibe_checks_recent ON public.vibe_checks(created_at DESC);
 CREATE INDEX idx_vibe_checks_user ON public.vibe_checks(user_id);
+CREATE INDEX idx_vibe_checks_reported ON public.vibe_checks(report_count DESC, created_at DESC) WHERE report_count > 0;
+CREATE INDEX idx_vibe_checks_venue_confirmed ON public.vibe_checks(venue_id, last_confirmed_at DESC) WHERE last_confirmed_at IS NOT NULL;
+
+-- Realtime updates carry the previous row, so open feeds can tell a restored vibe check from an edit
+ALTER TABLE public.vibe_checks REPLICA IDENTITY FULL;
 
 -- RLS Policies for Vibe Checks
 ALTER TABLE public.vibe_checks ENABLE ROW LEVEL SECURITY;
@@ -273,10 +467,7 @@ ALTER TABLE public.vibe_checks ENABLE ROW LEVEL SECURITY;
 -- Anyone can view vibe checks
 CREATE POLICY "Anyone can view vibe checks" ON public.vibe_checks FOR SELECT USING (true);
 
--- Users can insert their own vibe checks
-CREATE POLICY "Users can insert own vibe checks" ON public.vibe_checks FOR INSERT 
-WITH CHECK (auth.uid() = user_id);
-
+-- Vibe checks are inserted through create_vibe_check(), which verifies the location
 -- Users can update their own vibe checks (within 1 hour)
 CREATE POLICY "Users can update own recent vibe checks" ON public.vibe_checks FOR UPDATE 
 USING (auth.uid() = user_id AND created_at > NOW() - INTERVAL '1 hour');
@@ -285,6 +476,862 @@ USING (auth.uid() = user_id AND created_at > NOW() - INTERVAL '1 hour');
 CREATE POLICY "Users can delete own vibe checks" ON public.vibe_checks FOR DELETE 
 USING (auth.uid() = user_id);
 
+-- Moderators can delete any vibe check
+CREATE POLICY "Moderators can delete vibe checks" ON public.vibe_checks FOR DELETE
+USING (public.is_moderator());
+
+-- Vibe checks replayed from the offline outbox keep their capture time,
+-- but may not be backdated by more than 2 hours
+CREATE OR REPLACE FUNCTION public.enforce_vibe_check_capture_time()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.created_at IS NULL OR NEW.created_at > NOW() THEN
+        NEW.created_at := NOW();
+    END IF;
+
+    IF NEW.created_at < NOW() - INTERVAL '2 hours' THEN
+        RAISE EXCEPTION 'Vibe check capture time is too old to be posted'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_vibe_check_capture_time_trigger
+    BEFORE INSERT ON public.vibe_checks
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_vibe_check_capture_time();
+
+-- Edits may only change the rating, comment and photo
+CREATE OR REPLACE FUNCTION public.prevent_vibe_check_immutable_updates()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.venue_id IS DISTINCT FROM OLD.venue_id
+        OR NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.user_latitude IS DISTINCT FROM OLD.user_latitude
+        OR NEW.user_longitude IS DISTINCT FROM OLD.user_longitude
+        OR NEW.location_accuracy_meters IS DISTINCT FROM OLD.location_accuracy_meters
+        OR NEW.location_confidence IS DISTINCT FROM OLD.location_confidence
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'Only the rating, comment and photo of a vibe check can be edited'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Reaction counts may only change from the sync trigger, which runs nested
+    IF pg_trigger_depth() = 1 AND (
+        NEW.helpful_count IS DISTINCT FROM OLD.helpful_count
+        OR NEW.still_accurate_count IS DISTINCT FROM OLD.still_accurate_count
+        OR NEW.last_confirmed_at IS DISTINCT FROM OLD.last_confirmed_at
+    ) THEN
+        RAISE EXCEPTION 'Reaction counts are updated from vibe_check_reactions'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Only moderators and the report trigger may change the moderation state
+    IF pg_trigger_depth() = 1 AND NOT public.is_moderator() AND (
+        NEW.report_count IS DISTINCT FROM OLD.report_count
+        OR NEW.hidden_at IS DISTINCT FROM OLD.hidden_at
+    ) THEN
+        RAISE EXCEPTION 'Only moderators can change the moderation state of a vibe check'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_vibe_check_immutable_updates_trigger
+    BEFORE UPDATE ON public.vibe_checks
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_vibe_check_immutable_updates();
+
+-- Keep photo_url and media describing the same photo. Clients that write media get photo_url
+-- set to their first photo; older clients that only write photo_url get a one-photo media list.
+CREATE OR REPLACE FUNCTION public.sync_vibe_check_photo_url()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.media IS NOT DISTINCT FROM OLD.media THEN
+        IF NEW.photo_url IS DISTINCT FROM OLD.photo_url THEN
+            NEW.media := CASE
+                WHEN NEW.photo_url IS NULL THEN '[]'::JSONB
+                ELSE jsonb_build_array(jsonb_build_object('type', 'image', 'url', NEW.photo_url))
+            END;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' AND jsonb_array_length(NEW.media) = 0 AND NEW.photo_url IS NOT NULL THEN
+        NEW.media := jsonb_build_array(jsonb_build_object('type', 'image', 'url', NEW.photo_url));
+        RETURN NEW;
+    END IF;
+
+    NEW.photo_url := (
+        SELECT item->>'url'
+        FROM jsonb_array_elements(NEW.media) WITH ORDINALITY AS items(item, position)
+        WHERE item->>'type' = 'image'
+        ORDER BY position
+        LIMIT 1
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER sync_vibe_check_photo_url_trigger
+    BEFORE INSERT OR UPDATE OF media, photo_url ON public.vibe_checks
+    FOR EACH ROW EXECUTE FUNCTION public.sync_vibe_check_photo_url();
+
+-- Vibe Check Reactions Table
+CREATE TABLE public.vibe_check_reactions (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    vibe_check_id UUID REFERENCES public.vibe_checks(id) ON DELETE CASCADE NOT NULL,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    reaction_type TEXT NOT NULL CHECK (reaction_type IN ('helpful', 'still_accurate')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraint: One reaction of each type per user per vibe check
+    CONSTRAINT unique_user_vibe_check_reaction UNIQUE (vibe_check_id, user_id, reaction_type)
+);
+
+CREATE INDEX idx_vibe_check_reactions_vibe_check ON public.vibe_check_reactions(vibe_check_id);
+CREATE INDEX idx_vibe_check_reactions_user ON public.vibe_check_reactions(user_id);
+
+-- RLS Policies for Vibe Check Reactions
+ALTER TABLE public.vibe_check_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view vibe check reactions" ON public.vibe_check_reactions FOR SELECT USING (true);
+
+-- Users can react to other people's vibe checks. Only live vibe checks can be confirmed.
+CREATE POLICY "Users can react to others' vibe checks" ON public.vibe_check_reactions FOR INSERT
+WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+        SELECT 1 FROM public.vibe_checks vc
+        WHERE vc.id = vibe_check_id
+        AND vc.user_id <> auth.uid()
+        AND (
+            reaction_type = 'helpful'
+            OR GREATEST(vc.created_at, vc.last_confirmed_at) > NOW() - INTERVAL '2 hours'
+        )
+    )
+);
+
+CREATE POLICY "Users can remove own reactions" ON public.vibe_check_reactions FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Keep the reaction counts and last confirmation time on vibe_checks in sync
+CREATE OR REPLACE FUNCTION public.sync_vibe_check_reaction_counts()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_id UUID;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        target_id := OLD.vibe_check_id;
+    ELSE
+        target_id := NEW.vibe_check_id;
+    END IF;
+
+    UPDATE public.vibe_checks
+    SET
+        helpful_count = (
+            SELECT COUNT(*) FROM public.vibe_check_reactions r
+            WHERE r.vibe_check_id = target_id AND r.reaction_type = 'helpful'
+        ),
+        still_accurate_count = (
+            SELECT COUNT(*) FROM public.vibe_check_reactions r
+            WHERE r.vibe_check_id = target_id AND r.reaction_type = 'still_accurate'
+        ),
+        last_confirmed_at = (
+            SELECT MAX(r.created_at) FROM public.vibe_check_reactions r
+            WHERE r.vibe_check_id = target_id AND r.reaction_type = 'still_accurate'
+        )
+    WHERE id = target_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_vibe_check_reaction_counts_trigger
+    AFTER INSERT OR DELETE ON public.vibe_check_reactions
+    FOR EACH ROW EXECUTE FUNCTION public.sync_vibe_check_reaction_counts();
+
+-- Moderation settings (single row)
+CREATE TABLE public.moderation_settings (
+    id BOOLEAN DEFAULT true PRIMARY KEY CHECK (id),
+    auto_hide_report_threshold INTEGER DEFAULT 3 NOT NULL CHECK (auto_hide_report_threshold >= 1),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.moderation_settings (id) VALUES (true);
+
+ALTER TABLE public.moderation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view moderation settings" ON public.moderation_settings FOR SELECT USING (true);
+CREATE POLICY "Moderators can update moderation settings" ON public.moderation_settings FOR UPDATE
+USING (public.is_moderator());
+
+-- Vibe Check Reports Table
+CREATE TABLE public.vibe_check_reports (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    vibe_check_id UUID REFERENCES public.vibe_checks(id) ON DELETE CASCADE NOT NULL,
+    reporter_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('spam', 'offensive', 'fake', 'other')),
+    details TEXT CHECK (LENGTH(details) <= 280),
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'dismissed', 'actioned')),
+    reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Constraint: One report per user per vibe check
+    CONSTRAINT unique_vibe_check_reporter UNIQUE (vibe_check_id, reporter_id)
+);
+
+CREATE INDEX idx_vibe_check_reports_vibe_check ON public.vibe_check_reports(vibe_check_id);
+CREATE INDEX idx_vibe_check_reports_pending ON public.vibe_check_reports(created_at DESC) WHERE status = 'pending';
+
+-- RLS Policies for Vibe Check Reports
+ALTER TABLE public.vibe_check_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reports" ON public.vibe_check_reports FOR SELECT
+USING (auth.uid() = reporter_id OR public.is_moderator());
+
+CREATE POLICY "Users can report others' vibe checks" ON public.vibe_check_reports FOR INSERT
+WITH CHECK (
+    auth.uid() = reporter_id
+    AND status = 'pending'
+    AND EXISTS (
+        SELECT 1 FROM public.vibe_checks vc
+        WHERE vc.id = vibe_check_id AND vc.user_id <> auth.uid()
+    )
+);
+
+-- Count pending reports and hide the vibe check once the threshold is reached
+CREATE OR REPLACE FUNCTION public.sync_vibe_check_report_count()
+RETURNS TRIGGER AS $$
+DECLARE
+    pending_count INTEGER;
+    threshold INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO pending_count
+    FROM public.vibe_check_reports
+    WHERE vibe_check_id = NEW.vibe_check_id AND status = 'pending';
+
+    SELECT auto_hide_report_threshold INTO threshold
+    FROM public.moderation_settings
+    LIMIT 1;
+
+    UPDATE public.vibe_checks
+    SET
+        report_count = pending_count,
+        hidden_at = CASE
+            WHEN hidden_at IS NULL AND pending_count >= COALESCE(threshold, 3) THEN NOW()
+            ELSE hidden_at
+        END
+    WHERE id = NEW.vibe_check_id;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER sync_vibe_check_report_count_trigger
+    AFTER INSERT ON public.vibe_check_reports
+    FOR EACH ROW EXECUTE FUNCTION public.sync_vibe_check_report_count();
+
+-- Moderator review: 'restore' dismisses open reports and shows the vibe check again,
+-- 'hide' keeps it hidden and marks open reports as actioned
+CREATE OR REPLACE FUNCTION public.moderate_vibe_check(
+    p_vibe_check_id UUID,
+    p_action TEXT
+)
+RETURNS void AS $$
+BEGIN
+    IF NOT public.is_moderator() THEN
+        RAISE EXCEPTION 'Only moderators can review vibe checks'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_action NOT IN ('restore', 'hide') THEN
+        RAISE EXCEPTION 'Unknown moderation action: %', p_action
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE public.vibe_check_reports
+    SET
+        status = CASE WHEN p_action = 'restore' THEN 'dismissed' ELSE 'actioned' END,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE vibe_check_id = p_vibe_check_id AND status = 'pending';
+
+    UPDATE public.vibe_checks
+    SET
+        report_count = 0,
+        hidden_at = CASE WHEN p_action = 'restore' THEN NULL ELSE COALESCE(hidden_at, NOW()) END
+    WHERE id = p_vibe_check_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Vibe check not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Contributor reputation
+-- Reputation is calculated by the database. App users may not set their own score;
+-- updates made by the reputation triggers run nested.
+CREATE OR REPLACE FUNCTION public.prevent_user_reputation_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        NEW.reputation_score := 50;
+    ELSIF pg_trigger_depth() = 1 AND NEW.reputation_score IS DISTINCT FROM OLD.reputation_score THEN
+        RAISE EXCEPTION 'Reputation is calculated from vibe check history'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_user_reputation_change_trigger
+    BEFORE INSERT OR UPDATE ON public.users
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_user_reputation_change();
+
+-- Great-circle distance between two points in meters
+CREATE OR REPLACE FUNCTION public.distance_meters(
+    lat1 DOUBLE PRECISION,
+    lon1 DOUBLE PRECISION,
+    lat2 DOUBLE PRECISION,
+    lon2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT 6371000 * 2 * ASIN(SQRT(
+        POWER(SIN(RADIANS(lat2 - lat1) / 2), 2)
+        + COS(RADIANS(lat1)) * COS(RADIANS(lat2)) * POWER(SIN(RADIANS(lon2 - lon1) / 2), 2)
+    ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Score starts at 50 and is clamped to 0-100:
+--   +2 per month of account age, up to +12
+--   +0.5 per reaction from other users on the author's vibe checks, up to +20
+--   -15 per vibe check hidden by a moderator
+--   -10 to +10 by the share of vibe checks posted within 100m of the venue
+-- Deleted vibe checks no longer count. Account age comes from auth.users so it can't be backdated.
+CREATE OR REPLACE FUNCTION public.calculate_user_reputation(p_user_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+    account_days NUMERIC;
+    confirmations INTEGER;
+    actioned_count INTEGER;
+    located_count INTEGER;
+    accurate_count INTEGER;
+    score NUMERIC := 50;
+BEGIN
+    SELECT EXTRACT(EPOCH FROM NOW() - au.created_at) / 86400
+    INTO account_days
+    FROM auth.users au
+    WHERE au.id = p_user_id;
+
+    SELECT
+        COALESCE(SUM(vc.helpful_count + vc.still_accurate_count), 0),
+        COUNT(*) FILTER (WHERE v.latitude IS NOT NULL AND v.longitude IS NOT NULL),
+        COUNT(*) FILTER (
+            WHERE public.distance_meters(vc.user_latitude, vc.user_longitude, v.latitude, v.longitude) <= 100
+        )
+    INTO confirmations, located_count, accurate_count
+    FROM public.vibe_checks vc
+    INNER JOIN public.venues v ON v.id = vc.venue_id
+    WHERE vc.user_id = p_user_id;
+
+    SELECT COUNT(DISTINCT r.vibe_check_id)
+    INTO actioned_count
+    FROM public.vibe_check_reports r
+    INNER JOIN public.vibe_checks vc ON vc.id = r.vibe_check_id
+    WHERE vc.user_id = p_user_id AND r.status = 'actioned';
+
+    score := score
+        + LEAST(COALESCE(account_days, 0) / 30, 6) * 2
+        + LEAST(confirmations, 40) * 0.5
+        - actioned_count * 15;
+
+    IF located_count > 0 THEN
+        score := score + (accurate_count::NUMERIC / located_count - 0.5) * 20;
+    END IF;
+
+    RETURN ROUND(LEAST(GREATEST(score, 0), 100), 2);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- How much a vibe check counts towards venue averages. Keep in sync with src/lib/reputation.ts.
+CREATE OR REPLACE FUNCTION public.reputation_weight(p_score NUMERIC)
+RETURNS NUMERIC AS $$
+    SELECT GREATEST(COALESCE(p_score, 50), 10) / 100.0;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Recalculate the author's reputation when they post, receive or lose a reaction,
+-- or a report on one of their vibe checks is reviewed
+CREATE OR REPLACE FUNCTION public.update_author_reputation()
+RETURNS TRIGGER AS $$
+DECLARE
+    author_id UUID;
+BEGIN
+    IF TG_TABLE_NAME = 'vibe_checks' THEN
+        author_id := NEW.user_id;
+    ELSIF TG_OP = 'DELETE' THEN
+        SELECT vc.user_id INTO author_id FROM public.vibe_checks vc WHERE vc.id = OLD.vibe_check_id;
+    ELSE
+        SELECT vc.user_id INTO author_id FROM public.vibe_checks vc WHERE vc.id = NEW.vibe_check_id;
+    END IF;
+
+    IF author_id IS NOT NULL THEN
+        UPDATE public.users
+        SET reputation_score = public.calculate_user_reputation(author_id)
+        WHERE id = author_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_author_reputation_on_vibe_check_trigger
+    AFTER INSERT ON public.vibe_checks
+    FOR EACH ROW EXECUTE FUNCTION public.update_author_reputation();
+
+-- Named to run after sync_vibe_check_reaction_counts_trigger so the counts are current
+CREATE TRIGGER update_author_reputation_on_reaction_trigger
+    AFTER INSERT OR DELETE ON public.vibe_check_reactions
+    FOR EACH ROW EXECUTE FUNCTION public.update_author_reputation();
+
+CREATE TRIGGER update_author_reputation_on_report_trigger
+    AFTER UPDATE OF status ON public.vibe_check_reports
+    FOR EACH ROW EXECUTE FUNCTION public.update_author_reputation();
+
+-- Vibe check location verification
+-- Signed distance in meters from a point to the edge of a venue's geofence, negative inside it.
+-- The polygon takes precedence over the radius; venues with neither get a 100m radius.
+-- NULL if the venue has no location to check against. Mirrors src/lib/geofence.ts.
+CREATE OR REPLACE FUNCTION public.venue_geofence_offset(
+    p_venue public.venues,
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+    meters_per_degree CONSTANT DOUBLE PRECISION := RADIANS(1) * 6371000;
+    corners JSONB := p_venue.geofence_polygon;
+    corner_count INTEGER;
+    previous JSONB;
+    corner JSONB;
+    a_x DOUBLE PRECISION;
+    a_y DOUBLE PRECISION;
+    b_x DOUBLE PRECISION;
+    b_y DOUBLE PRECISION;
+    length_squared DOUBLE PRECISION;
+    t DOUBLE PRECISION;
+    inside BOOLEAN := FALSE;
+    edge_distance DOUBLE PRECISION := 'Infinity';
+BEGIN
+    IF corners IS NULL OR jsonb_array_length(corners) < 3 THEN
+        IF p_venue.latitude IS NULL OR p_venue.longitude IS NULL THEN
+            RETURN NULL;
+        END IF;
+
+        RETURN public.distance_meters(p_latitude, p_longitude, p_venue.latitude, p_venue.longitude)
+            - COALESCE(p_venue.geofence_radius_meters, 100);
+    END IF;
+
+    -- Walk the edges on a flat plane in meters centred on the point
+    corner_count := jsonb_array_length(corners);
+    FOR i IN 0..corner_count - 1 LOOP
+        previous := corners->((i + corner_count - 1) % corner_count);
+        corner := corners->i;
+
+        a_x := ((previous->>'longitude')::DOUBLE PRECISION - p_longitude) * meters_per_degree * COS(RADIANS(p_latitude));
+        a_y := ((previous->>'latitude')::DOUBLE PRECISION - p_latitude) * meters_per_degree;
+        b_x := ((corner->>'longitude')::DOUBLE PRECISION - p_longitude) * meters_per_degree * COS(RADIANS(p_latitude));
+        b_y := ((corner->>'latitude')::DOUBLE PRECISION - p_latitude) * meters_per_degree;
+
+        -- Ray cast along +x from the point
+        IF (a_y > 0) <> (b_y > 0) AND a_x + (b_x - a_x) * -a_y / (b_y - a_y) > 0 THEN
+            inside := NOT inside;
+        END IF;
+
+        length_squared := (b_x - a_x) ^ 2 + (b_y - a_y) ^ 2;
+        t := CASE
+            WHEN length_squared = 0 THEN 0
+            ELSE LEAST(1, GREATEST(0, -(a_x * (b_x - a_x) + a_y * (b_y - a_y)) / length_squared))
+        END;
+        edge_distance := LEAST(
+            edge_distance,
+            SQRT((a_x + t * (b_x - a_x)) ^ 2 + (a_y + t * (b_y - a_y)) ^ 2)
+        );
+    END LOOP;
+
+    RETURN CASE WHEN inside THEN -edge_distance ELSE edge_distance END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- How confidently a fix places the user inside the venue's geofence, NULL if it doesn't:
+--   high   the whole accuracy circle is inside the geofence
+--   medium the fix itself is inside
+--   low    only part of the accuracy circle is inside
+-- Fixes with an accuracy radius over 75m can't be verified at all.
+-- Keep the thresholds in sync with LocationVerificationService.
+CREATE OR REPLACE FUNCTION public.vibe_check_location_confidence(
+    p_outside_meters DOUBLE PRECISION,
+    p_accuracy_meters DOUBLE PRECISION
+)
+RETURNS TEXT AS $$
+    SELECT CASE
+        WHEN p_accuracy_meters IS NULL OR p_accuracy_meters > 75 THEN NULL
+        WHEN p_outside_meters + p_accuracy_meters <= 0 THEN 'high'
+        WHEN p_outside_meters <= 0 THEN 'medium'
+        WHEN p_outside_meters - p_accuracy_meters <= 0 THEN 'low'
+        ELSE NULL
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.create_vibe_check(
+    p_venue_id UUID,
+    p_busyness_rating SMALLINT,
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_accuracy_meters DOUBLE PRECISION,
+    p_is_mocked BOOLEAN DEFAULT FALSE,
+    p_comment TEXT DEFAULT NULL,
+    p_media JSONB DEFAULT '[]'::JSONB,
+    p_music_genre TEXT DEFAULT NULL,
+    p_queue_length TEXT DEFAULT NULL,
+    p_wait_minutes SMALLINT DEFAULT NULL,
+    p_cover_charge INTEGER DEFAULT NULL,
+    p_crowd_age_range TEXT DEFAULT NULL,
+    p_dress_code_rating SMALLINT DEFAULT NULL,
+    p_captured_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS public.vibe_checks AS $$
+DECLARE
+    venue public.venues%ROWTYPE;
+    outside DOUBLE PRECISION;
+    confidence TEXT;
+    vibe_check public.vibe_checks%ROWTYPE;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to post a vibe check'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF COALESCE(p_is_mocked, FALSE) THEN
+        RAISE EXCEPTION 'Vibe check location came from a mocked location provider'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO venue FROM public.venues WHERE id = p_venue_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Venue not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    outside := public.venue_geofence_offset(venue, p_latitude, p_longitude);
+
+    IF outside IS NULL THEN
+        RAISE EXCEPTION 'Venue has no location to verify against'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF p_accuracy_meters IS NULL OR p_accuracy_meters > 75 THEN
+        RAISE EXCEPTION 'Vibe check location accuracy of %m is too low', ROUND(p_accuracy_meters)
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    confidence := public.vibe_check_location_confidence(outside, p_accuracy_meters);
+
+    IF confidence IS NULL THEN
+        IF venue.geofence_polygon IS NOT NULL THEN
+            RAISE EXCEPTION 'Vibe check location is %m outside the venue', ROUND(outside)
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        RAISE EXCEPTION 'Vibe check location is %m from the venue, which allows %m',
+            ROUND(public.distance_meters(p_latitude, p_longitude, venue.latitude, venue.longitude)),
+            ROUND(COALESCE(venue.geofence_radius_meters, 100))
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- enforce_vibe_check_capture_time() bounds the capture time of replayed vibe checks
+    INSERT INTO public.vibe_checks (
+        venue_id, user_id, busyness_rating, comment, media,
+        user_latitude, user_longitude, location_accuracy_meters, location_confidence,
+        music_genre, queue_length, wait_minutes, cover_charge, crowd_age_range, dress_code_rating,
+        created_at
+    )
+    VALUES (
+        p_venue_id, auth.uid(), p_busyness_rating, p_comment, COALESCE(p_media, '[]'::JSONB),
+        p_latitude, p_longitude, p_accuracy_meters, confidence,
+        p_music_genre, p_queue_length, p_wait_minutes, p_cover_charge, p_crowd_age_range, p_dress_code_rating,
+        COALESCE(p_captured_at, NOW())
+    )
+    RETURNING * INTO vibe_check;
+
+    RETURN vibe_check;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.create_vibe_check FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_vibe_check TO authenticated;
+
+-- Admin editing of venue geofences. Pass NULL for both to go back to the default radius.
+CREATE OR REPLACE FUNCTION public.set_venue_geofence(
+    p_venue_id UUID,
+    p_radius_meters REAL DEFAULT NULL,
+    p_polygon JSONB DEFAULT NULL
+)
+RETURNS public.venues AS $$
+DECLARE
+    venue public.venues%ROWTYPE;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Only admins can change venue geofences'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    UPDATE public.venues
+    SET
+        geofence_radius_meters = p_radius_meters,
+        geofence_polygon = p_polygon
+    WHERE id = p_venue_id
+    RETURNING * INTO venue;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Venue not found'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    RETURN venue;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Nearby venue search
+-- Venues within p_radius_meters of a point, ordered by distance then id.
+-- Pass the distance_meters and id of the last venue of a page as p_after_distance / p_after_id
+-- to get the next page. p_query optionally filters by name or description, matching the text as
+-- typed: % and _ in it aren't wildcards.
+CREATE OR REPLACE FUNCTION public.get_nearby_venues(
+    p_latitude DOUBLE PRECISION,
+    p_longitude DOUBLE PRECISION,
+    p_radius_meters DOUBLE PRECISION DEFAULT 10000,
+    p_limit INTEGER DEFAULT 20,
+    p_after_distance DOUBLE PRECISION DEFAULT NULL,
+    p_after_id UUID DEFAULT NULL,
+    p_query TEXT DEFAULT NULL
+)
+RETURNS TABLE (venue public.venues, distance_meters DOUBLE PRECISION) AS $$
+DECLARE
+    -- One degree of latitude is about 111.32km everywhere, a degree of longitude shrinks towards the poles
+    lat_delta DOUBLE PRECISION;
+    lon_delta DOUBLE PRECISION;
+    query_pattern TEXT;
+BEGIN
+    IF p_latitude IS NULL OR p_longitude IS NULL
+        OR p_latitude NOT BETWEEN -90 AND 90
+        OR p_longitude NOT BETWEEN -180 AND 180 THEN
+        RAISE EXCEPTION 'Search location must be valid coordinates'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF p_radius_meters IS NULL OR p_radius_meters <= 0 OR p_radius_meters > 100000 THEN
+        RAISE EXCEPTION 'Search radius must be between 1m and 100km'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    lat_delta := p_radius_meters / 111320.0;
+    lon_delta := p_radius_meters / (111320.0 * GREATEST(COS(RADIANS(p_latitude)), 0.01));
+
+    -- Escape ILIKE's wildcards and its escape character, backslash
+    query_pattern := '%' || replace(replace(replace(p_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+    RETURN QUERY
+    SELECT candidate.v, candidate.distance
+    FROM (
+        SELECT
+            v,
+            v.id,
+            public.distance_meters(p_latitude, p_longitude, v.latitude, v.longitude) AS distance
+        FROM public.venues v
+        WHERE v.latitude BETWEEN p_latitude - lat_delta AND p_latitude + lat_delta
+        -- Near the antimeridian the box wraps around, so only the latitude band narrows the search
+        AND (
+            p_longitude - lon_delta < -180
+            OR p_longitude + lon_delta > 180
+            OR v.longitude BETWEEN p_longitude - lon_delta AND p_longitude + lon_delta
+        )
+        AND (
+            p_query IS NULL
+            OR v.name ILIKE query_pattern
+            OR v.description ILIKE query_pattern
+        )
+    ) candidate
+    WHERE candidate.distance <= p_radius_meters
+    AND (
+        p_after_distance IS NULL
+        OR p_after_id IS NULL
+        OR (candidate.distance, candidate.id) > (p_after_distance, p_after_id)
+    )
+    ORDER BY candidate.distance, candidate.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Full-text venue search
+-- What a venue is searched by, name matches ranking highest, then tags, address and description.
+-- The 'simple' configuration doesn't stem or drop words, so names and places match as typed.
+CREATE OR REPLACE FUNCTION public.venue_search_document(
+    p_name TEXT,
+    p_tags TEXT[],
+    p_address TEXT,
+    p_description TEXT
+)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector('simple', COALESCE(p_name, '')), 'A')
+        || setweight(to_tsvector('simple', COALESCE(array_to_string(p_tags, ' '), '')), 'B')
+        || setweight(to_tsvector('simple', COALESCE(p_address, '')), 'C')
+        || setweight(to_tsvector('simple', COALESCE(p_description, '')), 'D');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS idx_venues_search_document ON public.venues
+    USING GIN (public.venue_search_document(name, tags, address, description));
+
+-- Rating and promotion filters look venues up by venue_id
+CREATE INDEX IF NOT EXISTS idx_reviews_venue_id ON public.reviews(venue_id);
+CREATE INDEX IF NOT EXISTS idx_reviews_created_at ON public.reviews(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_promotions_venue_active ON public.promotions(venue_id) WHERE is_active = TRUE;
+
+-- Search-as-you-type query: every word of the search must start a word of the venue.
+-- Anything but letters and digits separates words, so punctuation can't break the query.
+-- NULL for searches without any words.
+CREATE OR REPLACE FUNCTION public.venue_search_query(p_search TEXT)
+RETURNS tsquery AS $$
+    SELECT to_tsquery('simple', string_agg(word || ':*', ' & '))
+    FROM regexp_split_to_table(lower(COALESCE(p_search, '')), '[^[:alnum:]]+') AS word
+    WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Venues matching a search, best match first, then nearest, then by name.
+-- Without a query every venue matching the filters is returned. p_max_distance_meters needs
+-- p_latitude / p_longitude; venues without coordinates have no distance and sort last.
+CREATE OR REPLACE FUNCTION public.search_venues(
+    p_query TEXT DEFAULT NULL,
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_max_distance_meters DOUBLE PRECISION DEFAULT NULL,
+    p_min_rating DOUBLE PRECISION DEFAULT NULL,
+    p_has_promotion BOOLEAN DEFAULT FALSE,
+    p_limit INTEGER DEFAULT 20,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    venue public.venues,
+    rank REAL,
+    distance_meters DOUBLE PRECISION,
+    average_rating DOUBLE PRECISION,
+    review_count BIGINT,
+    has_promotion BOOLEAN
+) AS $$
+DECLARE
+    search_query tsquery := public.venue_search_query(p_query);
+    has_location BOOLEAN := p_latitude IS NOT NULL AND p_longitude IS NOT NULL;
+    lat_delta DOUBLE PRECISION;
+    lon_delta DOUBLE PRECISION;
+BEGIN
+    IF has_location AND (p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180) THEN
+        RAISE EXCEPTION 'Search location must be valid coordinates'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF p_max_distance_meters IS NOT NULL THEN
+        IF NOT has_location THEN
+            RAISE EXCEPTION 'Searching by distance needs a search location'
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        IF p_max_distance_meters <= 0 OR p_max_distance_meters > 100000 THEN
+            RAISE EXCEPTION 'Search radius must be between 1m and 100km'
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        -- Same bounding box as get_nearby_venues()
+        lat_delta := p_max_distance_meters / 111320.0;
+        lon_delta := p_max_distance_meters / (111320.0 * GREATEST(COS(RADIANS(p_latitude)), 0.01));
+    END IF;
+
+    IF p_min_rating IS NOT NULL AND p_min_rating NOT BETWEEN 1 AND 5 THEN
+        RAISE EXCEPTION 'Minimum rating must be between 1 and 5'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        candidate.v,
+        candidate.rank,
+        candidate.distance,
+        candidate.average_rating,
+        candidate.review_count,
+        candidate.has_promotion
+    FROM (
+        SELECT
+            v,
+            v.id,
+            v.name,
+            CASE
+                WHEN search_query IS NULL THEN 0::REAL
+                ELSE ts_rank(public.venue_search_document(v.name, v.tags, v.address, v.description), search_query)
+            END AS rank,
+            CASE
+                WHEN has_location AND v.latitude IS NOT NULL AND v.longitude IS NOT NULL
+                THEN public.distance_meters(p_latitude, p_longitude, v.latitude, v.longitude)
+            END AS distance,
+            COALESCE(ratings.average_rating, 0) AS average_rating,
+            ratings.review_count,
+            EXISTS (
+                SELECT 1 FROM public.promotions p
+                WHERE p.venue_id = v.id
+                AND p.is_active = TRUE
+                AND (p.start_date IS NULL OR p.start_date <= CURRENT_DATE)
+                AND (p.end_date IS NULL OR p.end_date >= CURRENT_DATE)
+            ) AS has_promotion
+        FROM public.venues v
+        CROSS JOIN LATERAL (
+            SELECT AVG(r.rating)::DOUBLE PRECISION AS average_rating, COUNT(r.id) AS review_count
+            FROM public.reviews r
+            WHERE r.venue_id = v.id
+        ) ratings
+        WHERE (
+            search_query IS NULL
+            OR public.venue_search_document(v.name, v.tags, v.address, v.description) @@ search_query
+        )
+        AND (
+            lat_delta IS NULL
+            OR (
+                v.latitude BETWEEN p_latitude - lat_delta AND p_latitude + lat_delta
+                AND (
+                    p_longitude - lon_delta < -180
+                    OR p_longitude + lon_delta > 180
+                    OR v.longitude BETWEEN p_longitude - lon_delta AND p_longitude + lon_delta
+                )
+            )
+        )
+    ) candidate
+    WHERE (p_max_distance_meters IS NULL OR candidate.distance <= p_max_distance_meters)
+    AND (p_min_rating IS NULL OR candidate.average_rating >= p_min_rating)
+    AND (NOT COALESCE(p_has_promotion, FALSE) OR candidate.has_promotion)
+    ORDER BY candidate.rank DESC, candidate.distance ASC NULLS LAST, candidate.name, candidate.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
 -- View to get venues with their average rating and review count
 CREATE OR REPLACE VIEW public.venues_with_ratings AS
 SELECT
@@ -296,4 +1343,925 @@ FROM
 LEFT JOIN
   public.reviews r ON v.id = r.venue_id
 GROUP BY
-  v.id; 
\ No newline at end of file
+  v.id;
+
+-- Batched venue summaries
+-- Venues with a vibe check posted or confirmed in the last 2 hours, the app's live activity
+-- window (see batchGetVenueVibeStats in src/services/OptimizedQueryService.ts), ranked 3, 2 or 1
+-- by the high, medium or low confidence of their busyness estimate. The estimate weighs the
+-- vibe checks of the last 4 hours as estimateBusyness() in src/lib/busynessEstimate.ts does:
+-- each halves every 45 minutes since it was posted or confirmed and is scaled by its author's
+-- reputation. Keep the half-life and confidence levels in sync with that file. Venues that
+-- aren't returned have an activity rank of 0.
+CREATE OR REPLACE FUNCTION public.venue_activity_ranks()
+RETURNS TABLE (venue_id UUID, activity_rank INTEGER) AS $$
+    WITH recent AS (
+        SELECT
+            vc.venue_id,
+            GREATEST(vc.created_at, COALESCE(vc.last_confirmed_at, vc.created_at)) AS active_at,
+            public.reputation_weight(u.reputation_score) AS reputation
+        FROM public.vibe_checks vc
+        JOIN public.users u ON u.id = vc.user_id
+        WHERE vc.hidden_at IS NULL
+        AND (
+            vc.created_at > NOW() - INTERVAL '4 hours'
+            OR vc.last_confirmed_at > NOW() - INTERVAL '4 hours'
+        )
+    ),
+    estimates AS (
+        SELECT
+            recent.venue_id,
+            BOOL_OR(recent.active_at > NOW() - INTERVAL '2 hours') AS is_live,
+            SUM(
+                POWER(0.5, GREATEST(EXTRACT(EPOCH FROM NOW() - recent.active_at), 0) / 60 / 45)
+                * recent.reputation
+            ) AS weight
+        FROM recent
+        GROUP BY recent.venue_id
+    )
+    SELECT
+        estimates.venue_id,
+        CASE
+            WHEN ROUND(estimates.weight / (estimates.weight + 1), 2) >= 0.6 THEN 3
+            WHEN ROUND(estimates.weight / (estimates.weight + 1), 2) >= 0.35 THEN 2
+            ELSE 1
+        END
+    FROM estimates
+    WHERE estimates.is_live;
+$$ LANGUAGE sql STABLE;
+
+-- A page of venue cards, venues with live activity first by activity rank. With p_latitude /
+-- p_longitude the venues are the ones within p_radius_meters, nearest first within each
+-- activity rank; otherwise the newest venues come first. Pass the last card's activity_rank, distance_meters
+-- (or created_at without a location) and id as p_after_activity_rank, p_after_distance /
+-- p_after_created_at and p_after_id to get the next page.
+CREATE OR REPLACE FUNCTION public.get_venue_summaries(
+    p_latitude DOUBLE PRECISION DEFAULT NULL,
+    p_longitude DOUBLE PRECISION DEFAULT NULL,
+    p_radius_meters DOUBLE PRECISION DEFAULT 10000,
+    p_limit INTEGER DEFAULT 20,
+    p_after_activity_rank INTEGER DEFAULT NULL,
+    p_after_distance DOUBLE PRECISION DEFAULT NULL,
+    p_after_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    venue public.venues,
+    activity_rank INTEGER,
+    distance_meters DOUBLE PRECISION,
+    average_rating DOUBLE PRECISION,
+    review_count BIGINT,
+    total_vibe_checks BIGINT,
+    vibe_checks_24h BIGINT,
+    promotions JSONB,
+    is_bookmarked BOOLEAN
+) AS $$
+DECLARE
+    -- Same bounding box as get_nearby_venues()
+    lat_delta DOUBLE PRECISION;
+    lon_delta DOUBLE PRECISION;
+    page_venues public.venues[];
+    page_ranks INTEGER[];
+    page_distances DOUBLE PRECISION[];
+BEGIN
+    IF p_latitude IS NOT NULL AND p_longitude IS NOT NULL THEN
+        IF p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180 THEN
+            RAISE EXCEPTION 'Search location must be valid coordinates'
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        IF p_radius_meters IS NULL OR p_radius_meters <= 0 OR p_radius_meters > 100000 THEN
+            RAISE EXCEPTION 'Search radius must be between 1m and 100km'
+                USING ERRCODE = 'invalid_parameter_value';
+        END IF;
+
+        lat_delta := p_radius_meters / 111320.0;
+        lon_delta := p_radius_meters / (111320.0 * GREATEST(COS(RADIANS(p_latitude)), 0.01));
+
+        SELECT
+            array_agg(nearby.v ORDER BY nearby.rank DESC, nearby.distance, nearby.id),
+            array_agg(nearby.rank ORDER BY nearby.rank DESC, nearby.distance, nearby.id),
+            array_agg(nearby.distance ORDER BY nearby.rank DESC, nearby.distance, nearby.id)
+        INTO page_venues, page_ranks, page_distances
+        FROM (
+            SELECT candidate.*
+            FROM (
+                SELECT
+                    v,
+                    v.id,
+                    COALESCE(ranks.activity_rank, 0) AS rank,
+                    public.distance_meters(p_latitude, p_longitude, v.latitude, v.longitude) AS distance
+                FROM public.venues v
+                LEFT JOIN public.venue_activity_ranks() ranks ON ranks.venue_id = v.id
+                WHERE v.latitude BETWEEN p_latitude - lat_delta AND p_latitude + lat_delta
+                -- Near the antimeridian the box wraps around, so only the latitude band narrows the search
+                AND (
+                    p_longitude - lon_delta < -180
+                    OR p_longitude + lon_delta > 180
+                    OR v.longitude BETWEEN p_longitude - lon_delta AND p_longitude + lon_delta
+                )
+            ) candidate
+            WHERE candidate.distance <= p_radius_meters
+            -- The rank sorts descending and the distance ascending, so the rank is negated
+            AND (
+                p_after_distance IS NULL
+                OR p_after_id IS NULL
+                OR (-candidate.rank, candidate.distance, candidate.id)
+                    > (-COALESCE(p_after_activity_rank, 0), p_after_distance, p_after_id)
+            )
+            ORDER BY candidate.rank DESC, candidate.distance, candidate.id
+            LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+        ) nearby;
+    ELSE
+        SELECT
+            array_agg(newest.v ORDER BY newest.rank DESC, (newest.v).created_at DESC, (newest.v).id DESC),
+            array_agg(newest.rank ORDER BY newest.rank DESC, (newest.v).created_at DESC, (newest.v).id DESC)
+        INTO page_venues, page_ranks
+        FROM (
+            SELECT v, COALESCE(ranks.activity_rank, 0) AS rank
+            FROM public.venues v
+            LEFT JOIN public.venue_activity_ranks() ranks ON ranks.venue_id = v.id
+            WHERE p_after_created_at IS NULL
+            OR p_after_id IS NULL
+            OR (COALESCE(ranks.activity_rank, 0), v.created_at, v.id)
+                < (COALESCE(p_after_activity_rank, 0), p_after_created_at, p_after_id)
+            ORDER BY COALESCE(ranks.activity_rank, 0) DESC, v.created_at DESC, v.id DESC
+            LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 100)
+        ) newest;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        page.v,
+        page.rank,
+        page.distance,
+        COALESCE(ratings.average_rating, 0)::DOUBLE PRECISION,
+        COALESCE(ratings.review_count, 0)::BIGINT,
+        COALESCE(stats.total_vibe_checks, 0)::BIGINT,
+        COALESCE(stats.recent_count_24h, 0)::BIGINT,
+        COALESCE((
+            SELECT jsonb_agg(to_jsonb(p) ORDER BY p.created_at DESC)
+            FROM public.promotions p
+            WHERE p.venue_id = (page.v).id
+            AND p.is_active = TRUE
+            AND (p.start_date IS NULL OR p.start_date <= CURRENT_DATE)
+            AND (p.end_date IS NULL OR p.end_date >= CURRENT_DATE)
+        ), '[]'::JSONB),
+        EXISTS (
+            SELECT 1 FROM public.user_bookmarks b
+            WHERE b.venue_id = (page.v).id
+            AND b.user_id = auth.uid()
+        )
+    FROM (
+        SELECT page_venues[i] AS v, page_ranks[i] AS rank, page_distances[i] AS distance, i AS page_index
+        FROM generate_subscripts(page_venues, 1) AS i
+    ) page
+    LEFT JOIN public.venues_with_ratings ratings ON ratings.id = (page.v).id
+    LEFT JOIN public.venue_vibe_stats stats ON stats.venue_id = (page.v).id
+    ORDER BY page.page_index;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Venue co-visits for "For you" recommendations
+-- A person engaged with a venue when they liked, bookmarked or shared it, reviewed it 4 stars or
+-- more, or posted a vibe check there in the last 180 days. Plain views don't count. Counts leave
+-- out the current user. Pairs shared by fewer than 3 people aren't returned, as they would show
+-- what those few people did. Keep both limits in sync with RECOMMENDATION_CONFIG in
+-- src/lib/constants.ts. p_venue_ids are the venues to find related venues for; only the p_limit
+-- pairs with the most shared people are returned.
+CREATE OR REPLACE FUNCTION public.get_venue_co_visits(
+    p_venue_ids UUID[],
+    p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+    venue_id UUID,
+    related_venue_id UUID,
+    shared_users BIGINT,
+    venue_users BIGINT,
+    related_users BIGINT
+) AS $$
+    WITH engagements AS (
+        SELECT cv.club_id AS venue_id, cv.user_id
+        FROM public.club_views cv
+        WHERE cv.interaction_type IN ('like', 'bookmark', 'share')
+        AND cv.viewed_at >= NOW() - INTERVAL '180 days'
+        UNION
+        SELECT b.venue_id, b.user_id
+        FROM public.user_bookmarks b
+        WHERE b.created_at >= NOW() - INTERVAL '180 days'
+        UNION
+        SELECT r.venue_id, r.user_id
+        FROM public.reviews r
+        WHERE r.rating >= 4 AND r.created_at >= NOW() - INTERVAL '180 days'
+        UNION
+        SELECT vc.venue_id, vc.user_id
+        FROM public.vibe_checks vc
+        WHERE vc.hidden_at IS NULL AND vc.created_at >= NOW() - INTERVAL '180 days'
+    ),
+    others AS (
+        SELECT e.venue_id, e.user_id
+        FROM engagements e
+        WHERE e.user_id IS DISTINCT FROM auth.uid()
+        AND e.venue_id IS NOT NULL
+        AND e.user_id IS NOT NULL
+    ),
+    pairs AS (
+        SELECT
+            seed.venue_id,
+            related.venue_id AS related_venue_id,
+            COUNT(DISTINCT seed.user_id) AS shared_users
+        FROM others seed
+        JOIN others related ON related.user_id = seed.user_id AND related.venue_id <> seed.venue_id
+        WHERE seed.venue_id = ANY(p_venue_ids)
+        GROUP BY seed.venue_id, related.venue_id
+        HAVING COUNT(DISTINCT seed.user_id) >= 3
+    ),
+    venue_counts AS (
+        SELECT o.venue_id, COUNT(*) AS users
+        FROM others o
+        GROUP BY o.venue_id
+    )
+    SELECT
+        pairs.venue_id,
+        pairs.related_venue_id,
+        pairs.shared_users,
+        seed_counts.users,
+        related_counts.users
+    FROM pairs
+    JOIN venue_counts seed_counts ON seed_counts.venue_id = pairs.venue_id
+    JOIN venue_counts related_counts ON related_counts.venue_id = pairs.related_venue_id
+    ORDER BY pairs.shared_users DESC, pairs.venue_id, pairs.related_venue_id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 200), 1), 1000);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_venue_co_visits FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_venue_co_visits TO authenticated;
+
+-- Trending venues
+-- For each signal, the usual count is the venue's hourly rate over the previous p_baseline_days,
+-- scaled to the window. The signal scores (recent - usual) / sqrt(usual + 1), so a quiet venue
+-- getting busy rises as well as a busy venue getting busier, and one-off blips score low.
+-- Venues are ranked by 3 × vibe checks + 2 × bookmarks + 1 × views, counting only signals above
+-- usual. A signal is rising fast with at least 2 in the window and 3 times the usual count.
+-- Views and bookmarks are private to their owner, so the function runs as its owner and only
+-- returns counts.
+CREATE OR REPLACE FUNCTION public.get_trending_venues(
+    p_limit INTEGER DEFAULT 10,
+    p_window_minutes INTEGER DEFAULT 60,
+    p_baseline_days INTEGER DEFAULT 7
+)
+RETURNS TABLE (
+    venue public.venues,
+    trending_score DOUBLE PRECISION,
+    recent_vibe_checks BIGINT,
+    expected_vibe_checks DOUBLE PRECISION,
+    recent_views BIGINT,
+    expected_views DOUBLE PRECISION,
+    recent_bookmarks BIGINT,
+    expected_bookmarks DOUBLE PRECISION,
+    rising_signals TEXT[]
+) AS $$
+    WITH params AS (
+        SELECT
+            NOW() - make_interval(mins => window_minutes) AS window_start,
+            NOW() - make_interval(days => baseline_days) AS baseline_start,
+            window_minutes / 60.0 AS window_hours,
+            baseline_days * 24.0 - window_minutes / 60.0 AS baseline_hours
+        FROM (
+            SELECT
+                LEAST(GREATEST(COALESCE(p_window_minutes, 60), 15), 360) AS window_minutes,
+                LEAST(GREATEST(COALESCE(p_baseline_days, 7), 1), 28) AS baseline_days
+        ) bounds
+    ),
+    activity AS (
+        SELECT vc.venue_id, 'vibe_checks' AS signal, vc.created_at AS occurred_at
+        FROM public.vibe_checks vc, params
+        WHERE vc.hidden_at IS NULL
+        AND vc.created_at >= params.baseline_start
+        UNION ALL
+        SELECT cv.club_id, 'views', cv.viewed_at
+        FROM public.club_views cv, params
+        WHERE cv.interaction_type = 'view'
+        AND cv.viewed_at >= params.baseline_start
+        UNION ALL
+        SELECT b.venue_id, 'bookmarks', b.created_at
+        FROM public.user_bookmarks b, params
+        WHERE b.created_at >= params.baseline_start
+    ),
+    signals AS (
+        SELECT
+            a.venue_id,
+            a.signal,
+            COUNT(*) FILTER (WHERE a.occurred_at >= params.window_start) AS recent,
+            COUNT(*) FILTER (WHERE a.occurred_at < params.window_start)
+                / params.baseline_hours * params.window_hours AS expected
+        FROM activity a, params
+        WHERE a.venue_id IS NOT NULL
+        GROUP BY a.venue_id, a.signal, params.window_start, params.baseline_hours, params.window_hours
+    ),
+    scored AS (
+        SELECT
+            s.*,
+            (s.recent - s.expected) / SQRT(s.expected + 1) AS surprise
+        FROM signals s
+    ),
+    trending AS (
+        SELECT
+            scored.venue_id,
+            SUM(
+                CASE scored.signal WHEN 'vibe_checks' THEN 3 WHEN 'bookmarks' THEN 2 ELSE 1 END
+                * GREATEST(scored.surprise, 0)
+            ) AS score,
+            COALESCE(MAX(scored.recent) FILTER (WHERE scored.signal = 'vibe_checks'), 0) AS recent_vibe_checks,
+            COALESCE(MAX(scored.expected) FILTER (WHERE scored.signal = 'vibe_checks'), 0) AS expected_vibe_checks,
+            COALESCE(MAX(scored.recent) FILTER (WHERE scored.signal = 'views'), 0) AS recent_views,
+            COALESCE(MAX(scored.expected) FILTER (WHERE scored.signal = 'views'), 0) AS expected_views,
+            COALESCE(MAX(scored.recent) FILTER (WHERE scored.signal = 'bookmarks'), 0) AS recent_bookmarks,
+            COALESCE(MAX(scored.expected) FILTER (WHERE scored.signal = 'bookmarks'), 0) AS expected_bookmarks,
+            COALESCE(
+                ARRAY_AGG(scored.signal ORDER BY scored.surprise DESC)
+                    FILTER (WHERE scored.recent >= 2 AND scored.recent >= 3 * scored.expected),
+                '{}'
+            ) AS rising_signals
+        FROM scored
+        GROUP BY scored.venue_id
+    )
+    SELECT
+        v,
+        trending.score::DOUBLE PRECISION,
+        trending.recent_vibe_checks,
+        trending.expected_vibe_checks::DOUBLE PRECISION,
+        trending.recent_views,
+        trending.expected_views::DOUBLE PRECISION,
+        trending.recent_bookmarks,
+        trending.expected_bookmarks::DOUBLE PRECISION,
+        trending.rising_signals
+    FROM trending
+    JOIN public.venues v ON v.id = trending.venue_id
+    WHERE trending.score > 0
+    ORDER BY trending.score DESC, v.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Group capacity and invites
+-- A group can't have more approved members than its max_size
+CREATE OR REPLACE FUNCTION public.enforce_group_capacity()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_max_size INTEGER;
+    v_member_count INTEGER;
+BEGIN
+    IF NOT NEW.approved OR (TG_OP = 'UPDATE' AND OLD.approved) THEN
+        RETURN NEW;
+    END IF;
+
+    -- Lock the group so two approvals can't both take its last place
+    SELECT max_size INTO v_max_size
+    FROM public.party_groups
+    WHERE id = NEW.group_id
+    FOR UPDATE;
+
+    SELECT COUNT(*) INTO v_member_count
+    FROM public.group_members
+    WHERE group_id = NEW.group_id AND approved = true;
+
+    IF v_member_count >= v_max_size THEN
+        RAISE EXCEPTION 'This group is full'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER enforce_group_capacity_trigger
+    BEFORE INSERT OR UPDATE OF approved ON public.group_members
+    FOR EACH ROW EXECUTE FUNCTION public.enforce_group_capacity();
+
+-- Admins change a member's approval and role, and members their chat read time. A membership
+-- can't be moved to another person or group, which would get past the insert policy.
+CREATE OR REPLACE FUNCTION public.prevent_group_member_reassignment()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.user_id IS DISTINCT FROM OLD.user_id
+        OR NEW.group_id IS DISTINCT FROM OLD.group_id
+        OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+        RAISE EXCEPTION 'A group membership can''t be moved to another person or group'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_group_member_reassignment_trigger
+    BEFORE UPDATE ON public.group_members
+    FOR EACH ROW EXECUTE FUNCTION public.prevent_group_member_reassignment();
+
+-- Group an invite code opens, for the invite screen. Private groups are otherwise hidden from
+-- people who aren't in them.
+CREATE OR REPLACE FUNCTION public.get_group_by_invite(p_invite_code TEXT)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    date DATE,
+    "time" TIME,
+    max_size INTEGER,
+    is_public BOOLEAN,
+    venue_name TEXT,
+    member_count INTEGER
+) AS $$
+    SELECT
+        pg.id,
+        pg.name,
+        pg.date,
+        pg.time,
+        pg.max_size,
+        pg.is_public,
+        v.name AS venue_name,
+        (
+            SELECT COUNT(*)::INTEGER FROM public.group_members gm
+            WHERE gm.group_id = pg.id AND gm.approved = true
+        ) AS member_count
+    FROM public.party_groups pg
+    LEFT JOIN public.venues v ON v.id = pg.venue_id
+    WHERE pg.invite_code = upper(btrim(p_invite_code));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Join a group with its invite code. Invited people don't need approving, and a pending request
+-- to the same group is approved. Returns the group's id.
+CREATE OR REPLACE FUNCTION public.join_group_by_invite(p_invite_code TEXT)
+RETURNS UUID AS $$
+DECLARE
+    v_group_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to join a group'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT pg.id INTO v_group_id
+    FROM public.party_groups pg
+    WHERE pg.invite_code = upper(btrim(p_invite_code));
+
+    IF v_group_id IS NULL THEN
+        RAISE EXCEPTION 'This invite link is no longer valid'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF public.is_group_member(v_group_id) THEN
+        RETURN v_group_id;
+    END IF;
+
+    INSERT INTO public.group_members (group_id, user_id, approved, role)
+    VALUES (v_group_id, auth.uid(), true, 'member')
+    ON CONFLICT (group_id, user_id) DO UPDATE SET approved = true;
+
+    RETURN v_group_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Group chat
+-- Announce people joining, leaving and being removed from a group in its chat
+CREATE OR REPLACE FUNCTION public.post_group_membership_message()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_member public.group_members;
+    v_name TEXT;
+    v_content TEXT;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        v_member := OLD;
+    ELSE
+        v_member := NEW;
+    END IF;
+
+    IF TG_OP = 'DELETE' AND OLD.approved THEN
+        v_content := CASE
+            WHEN auth.uid() = OLD.user_id THEN ' left the group'
+            ELSE ' was removed from the group'
+        END;
+    ELSIF TG_OP <> 'DELETE' AND NEW.role <> 'creator' AND NEW.approved
+        AND (TG_OP = 'INSERT' OR NOT OLD.approved) THEN
+        v_content := ' joined the group';
+    ELSE
+        RETURN NULL;
+    END IF;
+
+    -- Nothing to announce when the whole group or the person's account is being deleted
+    IF NOT EXISTS (SELECT 1 FROM public.party_groups WHERE id = v_member.group_id) THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT u.name INTO v_name FROM public.users u WHERE u.id = v_member.user_id;
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.messages (group_id, sender_id, content, message_type)
+    VALUES (v_member.group_id, v_member.user_id, COALESCE(v_name, 'Someone') || v_content, 'system');
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER post_group_membership_message_trigger
+    AFTER INSERT OR UPDATE OF approved OR DELETE ON public.group_members
+    FOR EACH ROW EXECUTE FUNCTION public.post_group_membership_message();
+
+-- Announce changes to a group's name, time or venue in its chat
+CREATE OR REPLACE FUNCTION public.post_group_plan_message()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_changes TEXT[] := '{}';
+    v_editor_id UUID := COALESCE(auth.uid(), NEW.creator_id);
+    v_name TEXT;
+BEGIN
+    IF NEW.name IS DISTINCT FROM OLD.name THEN
+        v_changes := array_append(v_changes, 'renamed the group to ' || NEW.name);
+    END IF;
+
+    IF NEW.date IS DISTINCT FROM OLD.date OR NEW.time IS DISTINCT FROM OLD.time THEN
+        v_changes := array_append(
+            v_changes,
+            'moved the plan to ' || to_char(NEW.date, 'FMDy FMDD Mon') || ' at '
+                || to_char(NEW.time, 'FMHH12:MI AM')
+        );
+    END IF;
+
+    -- finish_group_poll() announces the venues it picks itself
+    IF NEW.venue_id IS DISTINCT FROM OLD.venue_id
+        AND COALESCE(current_setting('buzzvar.closing_group_poll', true), '') <> 'on' THEN
+        v_changes := array_append(
+            v_changes,
+            COALESCE(
+                'changed the venue to ' || (SELECT v.name FROM public.venues v WHERE v.id = NEW.venue_id),
+                'removed the venue'
+            )
+        );
+    END IF;
+
+    IF cardinality(v_changes) = 0 THEN
+        RETURN NULL;
+    END IF;
+
+    SELECT u.name INTO v_name FROM public.users u WHERE u.id = v_editor_id;
+
+    INSERT INTO public.messages (group_id, sender_id, content, message_type)
+    VALUES (
+        NEW.id,
+        v_editor_id,
+        left(COALESCE(v_name, 'Someone') || ' ' || array_to_string(v_changes, ' and '), 1000),
+        'system'
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER post_group_plan_message_trigger
+    AFTER UPDATE OF name, date, time, venue_id ON public.party_groups
+    FOR EACH ROW EXECUTE FUNCTION public.post_group_plan_message();
+
+-- Mark a group's chat as read by the current user. Members can't update their own
+-- membership, so this runs as its owner and only touches last_read_at.
+CREATE OR REPLACE FUNCTION public.mark_group_read(p_group_id UUID)
+RETURNS void AS $$
+    UPDATE public.group_members
+    SET last_read_at = NOW()
+    WHERE group_id = p_group_id
+    AND user_id = auth.uid()
+    AND approved = true;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+-- Messages from others the current user hasn't read, for each of their groups with any
+CREATE OR REPLACE FUNCTION public.get_group_unread_counts()
+RETURNS TABLE (group_id UUID, unread_count INTEGER) AS $$
+    SELECT gm.group_id, COUNT(m.id)::INTEGER AS unread_count
+    FROM public.group_members gm
+    JOIN public.messages m ON m.group_id = gm.group_id
+        AND m.created_at > gm.last_read_at
+        AND m.sender_id IS DISTINCT FROM auth.uid()
+    WHERE gm.user_id = auth.uid()
+    AND gm.approved = true
+    GROUP BY gm.group_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Stream new messages to open chats. Realtime applies the messages select policy.
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime'
+    ) AND NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'messages'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+    END IF;
+END $$;
+
+-- Group venue polls
+-- Keep the limits in sync with GROUP_POLL_CONFIG in src/lib/constants.ts
+CREATE TABLE public.group_polls (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    group_id UUID REFERENCES public.party_groups(id) ON DELETE CASCADE NOT NULL,
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    closes_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    winner_venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    CONSTRAINT group_polls_closes_at_check CHECK (closes_at > created_at)
+);
+
+CREATE TABLE public.group_poll_options (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poll_id UUID REFERENCES public.group_polls(id) ON DELETE CASCADE NOT NULL,
+    venue_id UUID REFERENCES public.venues(id) ON DELETE CASCADE NOT NULL,
+    added_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    -- Each venue is nominated once per poll
+    UNIQUE(poll_id, venue_id),
+    -- Lets votes check their option belongs to their poll
+    UNIQUE(id, poll_id)
+);
+
+-- One vote per member per poll. Changing a vote updates the row.
+CREATE TABLE public.group_poll_votes (
+    poll_id UUID REFERENCES public.group_polls(id) ON DELETE CASCADE NOT NULL,
+    option_id UUID NOT NULL,
+    user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+
+    PRIMARY KEY (poll_id, user_id),
+    FOREIGN KEY (option_id, poll_id) REFERENCES public.group_poll_options(id, poll_id) ON DELETE CASCADE
+);
+
+-- A group has at most one open poll
+CREATE UNIQUE INDEX idx_group_polls_open ON public.group_polls(group_id)
+WHERE closed_at IS NULL;
+CREATE INDEX idx_group_polls_group ON public.group_polls(group_id, created_at DESC);
+CREATE INDEX idx_group_polls_due ON public.group_polls(closes_at)
+WHERE closed_at IS NULL;
+CREATE INDEX idx_group_poll_votes_option ON public.group_poll_votes(option_id);
+
+ALTER TABLE public.group_polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_poll_votes ENABLE ROW LEVEL SECURITY;
+
+-- Whether the current user is a member of a poll's group and the poll takes nominations and votes
+CREATE OR REPLACE FUNCTION public.can_take_part_in_group_poll(p_poll_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.group_polls gp
+        WHERE gp.id = p_poll_id
+        AND gp.closed_at IS NULL
+        AND gp.closes_at > NOW()
+        AND public.is_group_member(gp.group_id)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Members see their groups' polls, nominations and votes
+CREATE POLICY "Group members can view polls" ON public.group_polls FOR SELECT USING (
+    public.is_group_member(group_id)
+);
+-- Organisers and admins start polls. Polls are only closed by close_group_poll().
+CREATE POLICY "Group admins can start polls" ON public.group_polls FOR INSERT WITH CHECK (
+    auth.uid() = created_by
+    AND closed_at IS NULL
+    AND winner_venue_id IS NULL
+    AND public.is_group_admin(group_id)
+);
+
+CREATE POLICY "Group members can view poll options" ON public.group_poll_options FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.group_polls gp
+        WHERE gp.id = group_poll_options.poll_id
+        AND public.is_group_member(gp.group_id)
+    )
+);
+-- Members nominate up to 8 venues while a poll is open
+CREATE POLICY "Group members can nominate venues" ON public.group_poll_options FOR INSERT WITH CHECK (
+    auth.uid() = added_by
+    AND public.can_take_part_in_group_poll(poll_id)
+    AND (
+        SELECT COUNT(*) FROM public.group_poll_options o
+        WHERE o.poll_id = group_poll_options.poll_id
+    ) < 8
+);
+
+CREATE POLICY "Group members can view poll votes" ON public.group_poll_votes FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.group_polls gp
+        WHERE gp.id = group_poll_votes.poll_id
+        AND public.is_group_member(gp.group_id)
+    )
+);
+-- Members vote, change their vote and take it back while a poll is open
+CREATE POLICY "Group members can vote" ON public.group_poll_votes FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND public.can_take_part_in_group_poll(poll_id)
+);
+CREATE POLICY "Group members can change their vote" ON public.group_poll_votes FOR UPDATE USING (
+    auth.uid() = user_id AND public.can_take_part_in_group_poll(poll_id)
+) WITH CHECK (
+    auth.uid() = user_id AND public.can_take_part_in_group_poll(poll_id)
+);
+CREATE POLICY "Group members can take back their vote" ON public.group_poll_votes FOR DELETE USING (
+    auth.uid() = user_id AND public.can_take_part_in_group_poll(poll_id)
+);
+
+-- Close a poll: the venue with the most votes wins, ties going to the one nominated first. The
+-- winner becomes the group's venue and the result is posted to the group chat. Returns the
+-- winning venue's id, or NULL when nobody voted.
+CREATE OR REPLACE FUNCTION public.finish_group_poll(p_poll_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_poll public.group_polls;
+    v_group public.party_groups;
+    v_winner_id UUID;
+    v_winner_name TEXT;
+    v_winner_votes INTEGER;
+    v_total_votes INTEGER;
+BEGIN
+    SELECT * INTO v_poll FROM public.group_polls WHERE id = p_poll_id FOR UPDATE;
+    IF NOT FOUND OR v_poll.closed_at IS NOT NULL THEN
+        RETURN v_poll.winner_venue_id;
+    END IF;
+
+    SELECT o.venue_id, COUNT(v.user_id)::INTEGER INTO v_winner_id, v_winner_votes
+    FROM public.group_poll_options o
+    JOIN public.group_poll_votes v ON v.option_id = o.id
+    WHERE o.poll_id = p_poll_id
+    GROUP BY o.id, o.venue_id, o.created_at
+    ORDER BY COUNT(v.user_id) DESC, o.created_at, o.id
+    LIMIT 1;
+
+    SELECT COUNT(*)::INTEGER INTO v_total_votes
+    FROM public.group_poll_votes WHERE poll_id = p_poll_id;
+
+    UPDATE public.group_polls
+    SET closed_at = NOW(), winner_venue_id = v_winner_id
+    WHERE id = p_poll_id;
+
+    SELECT * INTO v_group FROM public.party_groups WHERE id = v_poll.group_id;
+
+    IF v_winner_id IS NOT NULL AND v_winner_id IS DISTINCT FROM v_group.venue_id THEN
+        PERFORM set_config('buzzvar.closing_group_poll', 'on', true);
+        UPDATE public.party_groups SET venue_id = v_winner_id WHERE id = v_group.id;
+        PERFORM set_config('buzzvar.closing_group_poll', '', true);
+    END IF;
+
+    SELECT v.name INTO v_winner_name FROM public.venues v WHERE v.id = v_winner_id;
+
+    INSERT INTO public.messages (group_id, sender_id, content, message_type)
+    VALUES (
+        v_group.id,
+        COALESCE(auth.uid(), v_poll.created_by, v_group.creator_id),
+        CASE
+            WHEN v_winner_id IS NULL THEN 'The venue vote closed without any votes, so the plan stays the same'
+            ELSE left(
+                'The venue vote is in: ' || v_winner_name || ' won with ' || v_winner_votes
+                    || ' of ' || v_total_votes || CASE WHEN v_total_votes = 1 THEN ' vote' ELSE ' votes' END,
+                1000
+            )
+        END,
+        'system'
+    );
+
+    RETURN v_winner_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.finish_group_poll(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Close a poll from the app. Any member can once it's past its close time, and organisers and
+-- admins can close it early. Returns the winning venue's id, or NULL when nobody voted.
+CREATE OR REPLACE FUNCTION public.close_group_poll(p_poll_id UUID)
+RETURNS UUID AS $$
+DECLARE
+    v_poll public.group_polls;
+BEGIN
+    SELECT * INTO v_poll FROM public.group_polls WHERE id = p_poll_id;
+
+    IF NOT FOUND OR NOT public.is_group_member(v_poll.group_id) THEN
+        RAISE EXCEPTION 'This poll no longer exists'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_poll.closed_at IS NULL
+        AND v_poll.closes_at > NOW()
+        AND NOT public.is_group_admin(v_poll.group_id) THEN
+        RAISE EXCEPTION 'Only the organiser and admins can close a poll early'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN public.finish_group_poll(p_poll_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Close every poll that is past its close time. 021_group_venue_polls.sql schedules this every
+-- minute where pg_cron is enabled.
+CREATE OR REPLACE FUNCTION public.close_due_group_polls()
+RETURNS INTEGER AS $$
+DECLARE
+    v_poll_id UUID;
+    v_closed INTEGER := 0;
+BEGIN
+    FOR v_poll_id IN
+        SELECT id FROM public.group_polls
+        WHERE closed_at IS NULL AND closes_at <= NOW()
+    LOOP
+        PERFORM public.finish_group_poll(v_poll_id);
+        v_closed := v_closed + 1;
+    END LOOP;
+
+    RETURN v_closed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.close_due_group_polls() FROM PUBLIC, anon, authenticated;
+
+-- Follows
+CREATE TABLE public.user_follows (
+    follower_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    following_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+    status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'accepted')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+
+    PRIMARY KEY (follower_id, following_id),
+    CONSTRAINT user_follows_not_self CHECK (follower_id <> following_id)
+);
+
+CREATE INDEX idx_user_follows_following ON public.user_follows(following_id, status);
+
+ALTER TABLE public.user_follows ENABLE ROW LEVEL SECURITY;
+
+-- Follows are visible to the follower and the person they follow
+CREATE POLICY "Users can view their follows" ON public.user_follows FOR SELECT USING (
+    auth.uid() = follower_id OR auth.uid() = following_id
+);
+-- Following someone sends them a request
+CREATE POLICY "Users can request to follow" ON public.user_follows FOR INSERT WITH CHECK (
+    auth.uid() = follower_id AND status = 'pending'
+);
+-- The person being followed accepts the request
+CREATE POLICY "Users can accept follow requests" ON public.user_follows FOR UPDATE USING (
+    auth.uid() = following_id AND status = 'pending'
+) WITH CHECK (
+    auth.uid() = following_id AND status = 'accepted'
+);
+-- Either of them ends the follow: unfollowing, cancelling a request, declining one or removing a
+-- follower
+CREATE POLICY "Users can remove follows" ON public.user_follows FOR DELETE USING (
+    auth.uid() = follower_id OR auth.uid() = following_id
+);
+
+-- Accepting is the only change a follow takes. It records when the request was accepted.
+CREATE OR REPLACE FUNCTION public.accept_user_follow()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.follower_id <> OLD.follower_id
+        OR NEW.following_id <> OLD.following_id
+        OR NEW.created_at <> OLD.created_at THEN
+        RAISE EXCEPTION 'A follow can only be accepted'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status = 'accepted' AND OLD.status = 'pending' THEN
+        NEW.accepted_at := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER accept_user_follow_trigger
+    BEFORE UPDATE ON public.user_follows
+    FOR EACH ROW EXECUTE FUNCTION public.accept_user_follow();
+
+-- Someone's follower and following counts, which anyone can see. Waiting follow requests are only
+-- counted for the current user.
+CREATE OR REPLACE FUNCTION public.get_follow_counts(p_user_id UUID)
+RETURNS TABLE (
+    followers INTEGER,
+    following INTEGER,
+    requests INTEGER
+) AS $$
+    SELECT
+        (
+            SELECT COUNT(*) FROM public.user_follows
+            WHERE following_id = p_user_id AND status = 'accepted'
+        )::INTEGER,
+        (
+            SELECT COUNT(*) FROM public.user_follows
+            WHERE follower_id = p_user_id AND status = 'accepted'
+        )::INTEGER,
+        CASE WHEN p_user_id = auth.uid() THEN (
+            SELECT COUNT(*) FROM public.user_follows
+            WHERE following_id = p_user_id AND status = 'pending'
+        ) ELSE 0 END::INTEGER;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -10,28 +10,52 @@ jest.mock('expo-location', () => ({
 // Mock supabase
 jest.mock('../../lib/supabase', () => ({
   supabase: {
-    from: jest.fn(() => ({
-      select: jest.fn(() => ({
-        eq: jest.fn(() => ({
-          gte: jest.fn(() => ({
-            order: jest.fn(() => ({
-              data: [],
-              error: null,
-            })),
-          })),
-        })),
-        order: jest.fn(() => ({
-          data: [],
-          error: null,
-        })),
-      })),
-    })),
+    from: jest.fn(),
+    rpc: jest.fn(),
   },
 }));
 
-import { getVenues } from '../clubs';
+import { getVenues, searchVenues } from '../clubs';
 import { supabase } from '../../lib/supabase';
 
+// A row of get_venue_summaries()
+const summaryRow = (venue: Record<string, any>, extras: Record<string, any> = {}) => ({
+  venue,
+  activity_rank: 0,
+  distance_meters: null,
+  average_rating: 0,
+  review_count: 0,
+  total_vibe_checks: 0,
+  vibe_checks_24h: 0,
+  promotions: [],
+  is_bookmarked: false,
+  ...extras,
+});
+
+const mockSummaries = (rows: any[]) => {
+  (supabase.rpc as jest.Mock).mockResolvedValue({ data: rows, error: null });
+};
+
+// The batched vibe checks query for a page of venues, which joins each vibe check's venue
+const mockVibeChecks = (vibeChecks: any[] | null, error: Error | null = null) => {
+  const data = vibeChecks?.map((vc) => ({
+    ...vc,
+    venue: { id: vc.venue_id, name: 'Test Venue', address: null },
+  })) ?? null;
+  const orFilter = jest.fn(() => ({
+    order: jest.fn(() => ({ data, error })),
+  }));
+  const inFilter = jest.fn(() => ({ is: jest.fn(() => ({ or: orFilter })) }));
+
+  (supabase.from as jest.Mock).mockReturnValue({
+    select: jest.fn(() => ({ in: inFilter })),
+  });
+
+  return { inFilter, orFilter };
+};
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
 describe('Clubs Actions - Vibe Check Integration', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -39,82 +63,46 @@ describe('Clubs Actions - Vibe Check Integration', () => {
 
   describe('getVenues', () => {
     it('should fetch venues with vibe check data', async () => {
-      const mockVenues = [
-        {
-          id: 'venue1',
-          name: 'Test Venue 1',
-          created_at: '2024-01-01T00:00:00Z',
-          latitude: 40.7128,
-          longitude: -74.0060,
-        },
-        {
+      mockSummaries([
+        summaryRow(
+          {
+            id: 'venue1',
+            name: 'Test Venue 1',
+            created_at: '2024-01-01T00:00:00Z',
+            latitude: 40.7128,
+            longitude: -74.0060,
+          },
+          {
+            average_rating: 4.5,
+            review_count: 8,
+            promotions: [{ id: 'promo1', venue_id: 'venue1', title: 'Ladies night', is_active: true }],
+            is_bookmarked: true,
+          }
+        ),
+        summaryRow({
           id: 'venue2',
           name: 'Test Venue 2',
           created_at: '2024-01-02T00:00:00Z',
           latitude: 40.7589,
           longitude: -73.9851,
-        },
-      ];
+        }),
+      ]);
 
-      const mockVibeChecks = [
+      mockVibeChecks([
         {
           id: 'vibe1',
           venue_id: 'venue1',
           busyness_rating: 4,
-          created_at: new Date(Date.now() - 30 * 60 * 1000).toISOString(), // 30 minutes ago
-          users: { id: 'user1', name: 'Test User', avatar_url: null },
+          created_at: minutesAgo(30),
+          user: { id: 'user1', name: 'Test User', avatar_url: null },
         },
-      ];
-
-      // Mock the venues query
-      const mockVenuesQuery = {
-        select: jest.fn(() => ({
-          order: jest.fn(() => ({
-            data: mockVenues,
-            error: null,
-          })),
-        })),
-      };
-
-      // Mock the vibe checks query
-      const mockVibeChecksQuery = {
-        select: jest.fn(() => ({
-          eq: jest.fn(() => ({
-            gte: jest.fn(() => ({
-              order: jest.fn(() => ({
-                data: mockVibeChecks,
-                error: null,
-              })),
-            })),
-          })),
-        })),
-      };
-
-      (supabase.from as jest.Mock)
-        .mockReturnValueOnce(mockVenuesQuery) // First call for venues
-        .mockImplementation((table) => {
-          if (table === 'vibe_checks') {
-            return {
-              select: jest.fn(() => ({
-                eq: jest.fn((field, value) => ({
-                  gte: jest.fn(() => ({
-                    order: jest.fn(() => ({
-                      data: value === 'venue1' ? mockVibeChecks : [],
-                      error: null,
-                    })),
-                  })),
-                })),
-              })),
-            };
-          }
-          return mockVenuesQuery;
-        });
+      ]);
 
       const result = await getVenues();
 
       expect(result.error).toBeNull();
       expect(result.data).toHaveLength(2);
-      
+
       // Check that vibe check data is included
       const venue1 = result.data.find(v => v.id === 'venue1');
       expect(venue1).toBeDefined();
@@ -123,122 +111,194 @@ describe('Clubs Actions - Vibe Check Integration', () => {
       expect(venue1?.has_live_activity).toBe(true);
       expect(venue1?.latest_vibe_check).toBeDefined();
 
+      // And the rest of the card comes from the summary
+      expect(venue1?.average_rating).toBe(4.5);
+      expect(venue1?.review_count).toBe(8);
+      expect(venue1?.promotions.map(promotion => promotion.title)).toEqual(['Ladies night']);
+      expect(venue1?.isBookmarked).toBe(true);
+
       const venue2 = result.data.find(v => v.id === 'venue2');
       expect(venue2).toBeDefined();
       expect(venue2?.recent_vibe_count).toBe(0);
       expect(venue2?.average_recent_busyness).toBeNull();
       expect(venue2?.has_live_activity).toBe(false);
       expect(venue2?.latest_vibe_check).toBeNull();
+      expect(venue2?.promotions).toEqual([]);
+      expect(venue2?.isBookmarked).toBe(false);
     });
 
-    it('should sort venues with live activity first', async () => {
-      const mockVenues = [
-        {
-          id: 'venue1',
-          name: 'No Activity Venue',
-          created_at: '2024-01-01T00:00:00Z',
-        },
-        {
-          id: 'venue2',
-          name: 'Live Activity Venue',
-          created_at: '2024-01-02T00:00:00Z',
-        },
-      ];
+    it('should fetch vibe checks for the whole page in one query', async () => {
+      mockSummaries(
+        Array.from({ length: 20 }, (_, index) =>
+          summaryRow({ id: `venue${index}`, name: `Venue ${index}`, created_at: '2024-01-01T00:00:00Z' })
+        )
+      );
+      const { inFilter } = mockVibeChecks([]);
+
+      const result = await getVenues();
+
+      expect(result.data).toHaveLength(20);
+      expect(supabase.rpc).toHaveBeenCalledTimes(1);
+      expect(supabase.from).toHaveBeenCalledTimes(1);
+      expect(inFilter).toHaveBeenCalledWith(
+        'venue_id',
+        Array.from({ length: 20 }, (_, index) => `venue${index}`)
+      );
+    });
 
-      const mockVibeChecksVenue2 = [
+    it('should keep the server order of venues with and without live activity', async () => {
+      mockSummaries([
+        summaryRow(
+          { id: 'venue2', name: 'Live Activity Venue', created_at: '2024-01-01T00:00:00Z' },
+          { activity_rank: 1 }
+        ),
+        summaryRow({ id: 'venue1', name: 'No Activity Venue', created_at: '2024-01-02T00:00:00Z' }),
+      ]);
+
+      mockVibeChecks([
         {
           id: 'vibe1',
           venue_id: 'venue2',
           busyness_rating: 3,
-          created_at: new Date(Date.now() - 30 * 60 * 1000).toISOString(), // 30 minutes ago
-          users: { id: 'user1', name: 'Test User', avatar_url: null },
+          created_at: minutesAgo(30),
+          user: { id: 'user1', name: 'Test User', avatar_url: null },
         },
-      ];
-
-      const mockVenuesQuery = {
-        select: jest.fn(() => ({
-          order: jest.fn(() => ({
-            data: mockVenues,
-            error: null,
-          })),
-        })),
-      };
-
-      (supabase.from as jest.Mock)
-        .mockReturnValueOnce(mockVenuesQuery)
-        .mockImplementation((table) => {
-          if (table === 'vibe_checks') {
-            return {
-              select: jest.fn(() => ({
-                eq: jest.fn((field, value) => ({
-                  gte: jest.fn(() => ({
-                    order: jest.fn(() => ({
-                      data: value === 'venue2' ? mockVibeChecksVenue2 : [],
-                      error: null,
-                    })),
-                  })),
-                })),
-              })),
-            };
-          }
-          return mockVenuesQuery;
-        });
+      ]);
 
       const result = await getVenues();
 
       expect(result.error).toBeNull();
       expect(result.data).toHaveLength(2);
-      
-      // Venue with live activity should be first
-      expect(result.data[0].id).toBe('venue2');
+      // get_venue_summaries() puts live venues first across pages, so the page isn't re-sorted
+      expect(result.data.map(v => [v.id, v.has_live_activity])).toEqual([
+        ['venue2', true],
+        ['venue1', false],
+      ]);
+    });
+
+    it('should count vibe checks confirmed as still accurate as live activity', async () => {
+      mockSummaries([
+        summaryRow({ id: 'venue1', name: 'Test Venue 1', created_at: '2024-01-01T00:00:00Z' }),
+      ]);
+
+      const { orFilter } = mockVibeChecks([
+        {
+          id: 'vibe1',
+          venue_id: 'venue1',
+          busyness_rating: 5,
+          created_at: minutesAgo(3 * 60),
+          last_confirmed_at: minutesAgo(20),
+          user: { id: 'user1', name: 'Test User', avatar_url: null },
+        },
+      ]);
+
+      const result = await getVenues();
+
+      expect(orFilter).toHaveBeenCalledWith(expect.stringContaining('last_confirmed_at.gte.'));
       expect(result.data[0].has_live_activity).toBe(true);
-      expect(result.data[1].id).toBe('venue1');
-      expect(result.data[1].has_live_activity).toBe(false);
+      expect(result.data[0].average_recent_busyness).toBe(5);
     });
 
-    it('should calculate distance when user location is provided', async () => {
-      const mockVenues = [
+    it('should weight average busyness by author reputation', async () => {
+      mockSummaries([
+        summaryRow({ id: 'venue1', name: 'Test Venue 1', created_at: '2024-01-01T00:00:00Z' }),
+      ]);
+
+      mockVibeChecks([
         {
-          id: 'venue1',
-          name: 'Close Venue',
-          created_at: '2024-01-01T00:00:00Z',
-          latitude: 40.7128,
-          longitude: -74.0060,
+          id: 'vibe1',
+          venue_id: 'venue1',
+          busyness_rating: 5,
+          created_at: minutesAgo(10),
+          user: { id: 'user1', name: 'Troll', avatar_url: null, reputation_score: 5 },
         },
         {
-          id: 'venue2',
-          name: 'Far Venue',
-          created_at: '2024-01-02T00:00:00Z',
-          latitude: 41.8781,
-          longitude: -87.6298,
+          id: 'vibe2',
+          venue_id: 'venue1',
+          busyness_rating: 1,
+          created_at: minutesAgo(10),
+          user: { id: 'user2', name: 'Regular', avatar_url: null, reputation_score: 90 },
         },
-      ];
-
-      const mockVenuesQuery = {
-        select: jest.fn(() => ({
-          order: jest.fn(() => ({
-            data: mockVenues,
-            error: null,
-          })),
-        })),
-      };
-
-      const mockVibeChecksQuery = {
-        select: jest.fn(() => ({
-          eq: jest.fn(() => ({
-            gte: jest.fn(() => ({
-              order: jest.fn(() => ({
-                data: [],
-                error: null,
-              })),
-            })),
-          })),
-        })),
-      };
-
-      (supabase.from as jest.Mock)
-        .mockReturnValueOnce(mockVenuesQuery)
-        .mockReturnValue(mockVibeChecksQuery);
+      ]);
+
+      const result = await getVenues();
+
+      // Low reputation counts at the minimum weight of 0.1 against 0.9
+      expect(result.data[0].average_recent_busyness).toBeCloseTo(1.4, 1);
+    });
+
+    it('should list venues with a confident busyness estimate before a single stale report', async () => {
+      // get_venue_summaries() ranks live venues 3, 2 or 1 by high, medium or low confidence
+      mockSummaries([
+        summaryRow(
+          { id: 'venue2', name: 'Many Fresh Reports', created_at: '2024-01-01T00:00:00Z' },
+          { activity_rank: 3 }
+        ),
+        summaryRow(
+          { id: 'venue1', name: 'One Old Report', created_at: '2024-01-02T00:00:00Z' },
+          { activity_rank: 1 }
+        ),
+        summaryRow({ id: 'venue3', name: 'No Reports', created_at: '2024-01-03T00:00:00Z' }),
+      ]);
+
+      const vibeCheck = (id: string, venueId: string, age: number) => ({
+        id,
+        venue_id: venueId,
+        busyness_rating: 4,
+        created_at: minutesAgo(age),
+        user: { id: 'user1', name: 'Test User', avatar_url: null },
+      });
+
+      mockVibeChecks([
+        vibeCheck('vibe2', 'venue2', 2),
+        vibeCheck('vibe3', 'venue2', 5),
+        vibeCheck('vibe4', 'venue2', 8),
+        vibeCheck('vibe5', 'venue2', 12),
+        vibeCheck('vibe1', 'venue1', 90),
+      ]);
+
+      const result = await getVenues(undefined, { limit: 2 });
+
+      // The estimate shown on each card agrees with the rank the page was ordered by
+      expect(
+        result.data.map((venue) => [venue.id, venue.has_live_activity, venue.busyness_estimate.confidence_level])
+      ).toEqual([
+        ['venue2', true, 'high'],
+        ['venue1', true, 'low'],
+      ]);
+      // The next page carries on after the low-confidence venues
+      expect(result.nextCursor).toEqual({
+        activity_rank: 1,
+        distance_meters: null,
+        created_at: '2024-01-02T00:00:00Z',
+        id: 'venue1',
+      });
+    });
+
+    it('should fetch nearby venues with their distance when user location is provided', async () => {
+      mockSummaries([
+        summaryRow(
+          {
+            id: 'venue1',
+            name: 'Close Venue',
+            created_at: '2024-01-01T00:00:00Z',
+            latitude: 40.7128,
+            longitude: -74.0060,
+          },
+          { distance_meters: 150 }
+        ),
+        summaryRow(
+          {
+            id: 'venue2',
+            name: 'Far Venue',
+            created_at: '2024-01-02T00:00:00Z',
+            latitude: 40.7589,
+            longitude: -73.9851,
+          },
+          { distance_meters: 5400 }
+        ),
+      ]);
+      mockVibeChecks([]);
 
       const userLocation = {
         coords: {
@@ -247,77 +307,82 @@ describe('Clubs Actions - Vibe Check Integration', () => {
         },
       } as any;
 
-      const result = await getVenues(userLocation);
+      const result = await getVenues(userLocation, { radiusMeters: 10000 });
 
       expect(result.error).toBeNull();
-      expect(result.data).toHaveLength(2);
-      
-      // Check that distances are calculated
-      expect(result.data[0].distance).toBeDefined();
-      expect(result.data[1].distance).toBeDefined();
-      
-      // Closer venue should have smaller distance
-      expect(result.data[0].distance).toBeLessThan(result.data[1].distance!);
+      expect(supabase.rpc).toHaveBeenCalledWith(
+        'get_venue_summaries',
+        expect.objectContaining({
+          p_latitude: 40.7128,
+          p_longitude: -74.0060,
+          p_radius_meters: 10000,
+        })
+      );
+      // The venues table isn't scanned for distances
+      expect(supabase.from).not.toHaveBeenCalledWith('venues');
+      expect(result.data.map((venue) => [venue.id, venue.distance])).toEqual([
+        ['venue1', 0.15],
+        ['venue2', 5.4],
+      ]);
+      expect(result.nextCursor).toBeNull();
     });
 
-    it('should handle errors gracefully', async () => {
-      const mockVenuesQuery = {
-        select: jest.fn(() => ({
-          order: jest.fn(() => ({
-            data: null,
-            error: new Error('Database error'),
-          })),
-        })),
-      };
+    it('should return a cursor after the last venue when there is another page', async () => {
+      mockSummaries([
+        summaryRow({ id: 'venue3', name: 'Newest', created_at: '2024-01-03T00:00:00Z' }),
+        summaryRow({ id: 'venue2', name: 'Newer', created_at: '2024-01-02T00:00:00Z' }),
+        summaryRow({ id: 'venue1', name: 'Oldest', created_at: '2024-01-01T00:00:00Z' }),
+      ]);
+      mockVibeChecks([]);
+
+      const result = await getVenues(undefined, {
+        limit: 2,
+        cursor: { activity_rank: 0, distance_meters: null, created_at: '2024-01-04T00:00:00Z', id: 'venue4' },
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith(
+        'get_venue_summaries',
+        expect.objectContaining({
+          p_latitude: null,
+          p_limit: 3,
+          p_after_activity_rank: 0,
+          p_after_created_at: '2024-01-04T00:00:00Z',
+          p_after_id: 'venue4',
+        })
+      );
+      expect(result.data.map((venue) => venue.id)).toEqual(['venue3', 'venue2']);
+      expect(result.nextCursor).toEqual({
+        activity_rank: 0,
+        distance_meters: null,
+        created_at: '2024-01-02T00:00:00Z',
+        id: 'venue2',
+      });
+    });
 
-      (supabase.from as jest.Mock).mockReturnValue(mockVenuesQuery);
+    it('should handle errors gracefully', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: null,
+        error: new Error('Database error'),
+      });
 
       const result = await getVenues();
 
       expect(result.data).toEqual([]);
       expect(result.error).toBeDefined();
+      expect(supabase.from).not.toHaveBeenCalled();
     });
 
     it('should handle vibe check query errors gracefully', async () => {
-      const mockVenues = [
-        {
-          id: 'venue1',
-          name: 'Test Venue',
-          created_at: '2024-01-01T00:00:00Z',
-        },
-      ];
-
-      const mockVenuesQuery = {
-        select: jest.fn(() => ({
-          order: jest.fn(() => ({
-            data: mockVenues,
-            error: null,
-          })),
-        })),
-      };
-
-      const mockVibeChecksQuery = {
-        select: jest.fn(() => ({
-          eq: jest.fn(() => ({
-            gte: jest.fn(() => ({
-              order: jest.fn(() => ({
-                data: null,
-                error: new Error('Vibe check query error'),
-              })),
-            })),
-          })),
-        })),
-      };
-
-      (supabase.from as jest.Mock)
-        .mockReturnValueOnce(mockVenuesQuery)
-        .mockReturnValue(mockVibeChecksQuery);
+      mockSummaries([
+        summaryRow({ id: 'venue1', name: 'Test Venue', created_at: '2024-01-01T00:00:00Z' }),
+      ]);
+      mockVibeChecks(null, new Error('Vibe check query error'));
 
       const result = await getVenues();
 
       expect(result.error).toBeNull();
       expect(result.data).toHaveLength(1);
-      
+
       // Should have default vibe check values when query fails
       const venue = result.data[0];
       expect(venue.recent_vibe_count).toBe(0);
@@ -326,4 +391,63 @@ describe('Clubs Actions - Vibe Check Integration', () => {
       expect(venue.latest_vibe_check).toBeNull();
     });
   });
-});
\ No newline at end of file
+
+  describe('searchVenues', () => {
+    // A row of search_venues()
+    const searchRow = (id: string) => ({
+      venue: { id, name: `Venue ${id}`, created_at: '2024-01-01T00:00:00Z', hours: null },
+      rank: 1,
+      distance_meters: null,
+      average_rating: 0,
+      review_count: 0,
+      has_promotion: false,
+    });
+
+    const busyVibeCheck = (venueId: string) => ({
+      id: `vibe-${venueId}`,
+      venue_id: venueId,
+      busyness_rating: 5,
+      created_at: minutesAgo(10),
+      user: { id: 'user1', name: 'Test User', avatar_url: null },
+    });
+
+    it('should keep fetching pages until one matches the live filters', async () => {
+      (supabase.rpc as jest.Mock)
+        .mockResolvedValueOnce({ data: [searchRow('a'), searchRow('b'), searchRow('c')], error: null })
+        .mockResolvedValueOnce({ data: [searchRow('c'), searchRow('d')], error: null });
+      mockVibeChecks([busyVibeCheck('d')]);
+
+      const result = await searchVenues('bar', undefined, { minBusyness: 4 }, { limit: 2 });
+
+      expect(supabase.rpc).toHaveBeenNthCalledWith(1, 'search_venues', expect.objectContaining({ p_offset: 0 }));
+      expect(supabase.rpc).toHaveBeenNthCalledWith(2, 'search_venues', expect.objectContaining({ p_offset: 2 }));
+      expect(result.data.map((venue) => venue.id)).toEqual(['d']);
+      expect(result.nextOffset).toBeNull();
+    });
+
+    it('should start the next page after the last venue returned', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValueOnce({
+        data: [searchRow('a'), searchRow('b'), searchRow('c')],
+        error: null,
+      });
+      mockVibeChecks([busyVibeCheck('a'), busyVibeCheck('b')]);
+
+      const result = await searchVenues('bar', undefined, { minBusyness: 4 }, { limit: 1 });
+
+      expect(supabase.rpc).toHaveBeenCalledTimes(1);
+      expect(result.data.map((venue) => venue.id)).toEqual(['a']);
+      expect(result.nextOffset).toBe(1);
+    });
+
+    it('should still return results when vibe check stats fail to load', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValueOnce({ data: [searchRow('a')], error: null });
+      mockVibeChecks(null, new Error('Vibe check query error'));
+
+      const result = await searchVenues('bar');
+
+      expect(result.error).toBeNull();
+      expect(result.data.map((venue) => venue.id)).toEqual(['a']);
+      expect(result.data[0].has_live_activity).toBe(false);
+    });
+  });
+});
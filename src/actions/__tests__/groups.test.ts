@@ -0,0 +1,131 @@
+import { closeGroupPoll, createGroup, deleteGroup, getGroupPoll, joinGroupByInvite, voteForVenue } from '../groups';
+import { supabase } from '../../lib/supabase';
+
+// Mock expo-location to avoid import issues in tests
+jest.mock('expo-location', () => ({
+  Accuracy: {
+    High: 'high',
+  },
+}));
+
+// Mock supabase
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+// Query builder that resolves to result wherever the chain ends
+const createQuery = (result: { data: any; error: any }) => {
+  const query: any = {};
+  for (const method of ['select', 'insert', 'update', 'delete', 'upsert', 'eq', 'neq', 'is', 'gte', 'in', 'order', 'limit']) {
+    query[method] = jest.fn(() => query);
+  }
+  query.single = jest.fn(() => Promise.resolve(result));
+  query.then = (resolve: (value: any) => any, reject: (reason: any) => any) =>
+    Promise.resolve(result).then(resolve, reject);
+  return query;
+};
+
+// PostgREST errors are plain objects, not Errors
+const postgrestError = (message: string, code = 'P0001') => ({ message, code, details: null, hint: null });
+
+describe('groups actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the message of a database error', async () => {
+    mockFrom.mockReturnValue(
+      createQuery({ data: null, error: postgrestError('new row violates row-level security policy', '42501') })
+    );
+
+    const { data, error } = await createGroup('user-1', {
+      name: 'Friday',
+      date: '2099-06-13',
+      time: '21:30',
+      max_size: 6,
+    });
+
+    expect(data).toBeNull();
+    expect(error).toBe('new row violates row-level security policy');
+  });
+
+  it('should explain when only the creator could have deleted the group', async () => {
+    mockFrom.mockReturnValue(createQuery({ data: [], error: null }));
+
+    const { data, error } = await deleteGroup('group-1', 'user-2');
+
+    expect(data).toBeNull();
+    expect(error).toBe("Only the group's creator can delete it.");
+  });
+
+  it('should return the reason join_group_by_invite() gave for not joining', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: postgrestError('This group is full') });
+
+    const { data, error } = await joinGroupByInvite('3F9A0C1B');
+
+    expect(mockRpc).toHaveBeenCalledWith('join_group_by_invite', { p_invite_code: '3F9A0C1B' });
+    expect(data).toBeNull();
+    expect(error).toBe('This group is full');
+  });
+
+  it('should return the reason close_group_poll() gave for not closing', async () => {
+    mockRpc.mockResolvedValue({
+      data: null,
+      error: postgrestError('Only the organiser and admins can close a poll early'),
+    });
+
+    const { data, error } = await closeGroupPoll('poll-1');
+
+    expect(mockRpc).toHaveBeenCalledWith('close_group_poll', { p_poll_id: 'poll-1' });
+    expect(data).toBeNull();
+    expect(error).toBe('Only the organiser and admins can close a poll early');
+  });
+
+  it('should return the reason a due poll could not be closed when loading it', async () => {
+    mockFrom.mockReturnValue(
+      createQuery({
+        data: [{ id: 'poll-1', closes_at: '2000-01-01T00:00:00.000Z', closed_at: null }],
+        error: null,
+      })
+    );
+    mockRpc.mockResolvedValue({ data: null, error: postgrestError('This poll no longer exists') });
+
+    const { data, error } = await getGroupPoll('group-1', 'user-1');
+
+    expect(data).toBeNull();
+    expect(error).toBe('This poll no longer exists');
+  });
+
+  it('should return the message of a rejected vote', async () => {
+    mockFrom.mockReturnValue(
+      createQuery({
+        data: null,
+        error: postgrestError(
+          'insert or update on table "group_poll_votes" violates foreign key constraint "group_poll_votes_option_id_fkey"',
+          '23503'
+        ),
+      })
+    );
+
+    const { data, error } = await voteForVenue('poll-1', 'option-1', 'user-1');
+
+    expect(data).toBeNull();
+    expect(error).toBe(
+      'insert or update on table "group_poll_votes" violates foreign key constraint "group_poll_votes_option_id_fkey"'
+    );
+  });
+
+  it('should fall back to a generic message for errors without one', async () => {
+    mockFrom.mockReturnValue(createQuery({ data: null, error: { code: '500' } }));
+
+    const { error } = await deleteGroup('group-1', 'user-1');
+
+    expect(error).toBe('Something went wrong. Please try again.');
+  });
+});
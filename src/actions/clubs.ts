@@ -1,4 +1,39 @@
 import { supabase } from "../lib/supabase";
+import {
+  activeSinceFilter,
+  getVibeCheckActivityTime,
+  isVibeCheckActiveSince,
+} from "../lib/vibeCheckActivity";
+import { estimateBusyness } from "../lib/busynessEstimate";
+import {
+  describeGeofenceLimit,
+  getGeofenceOffset,
+  getVenueGeofence,
+} from "../lib/geofence";
+import {
+  BusynessComparison,
+  BusynessEstimate,
+  NearbyVenue,
+  TrendingVenue,
+  VenuePromotion,
+  VenueSearchFilters,
+} from "../lib/types";
+import { matchesLiveFilters } from "../lib/venueSearch";
+import {
+  RECOMMENDATION_CONFIG,
+  TRENDING_CONFIG,
+  VENUE_SEARCH_CONFIG,
+} from "../lib/constants";
+import { pickRecommendedVenueIds } from "../lib/recommendations";
+import { describeTrending } from "../lib/trending";
+import { compareWithForecast, getForecastForTime } from "../lib/popularTimes";
+import {
+  NearbyVenueQueryOptions,
+  OptimizedQueryService,
+  VenueSearchQueryOptions,
+  VenueSummaryQueryOptions,
+} from "../services/OptimizedQueryService";
+import { RecommendationService } from "../services/RecommendationService";
 import * as Location from "expo-location";
 
 export interface Venue {
@@ -23,10 +58,71 @@ export interface VenueWithDistance extends Venue {
   isBookmarked?: boolean;
   recent_vibe_count?: number;
   average_recent_busyness?: number | null;
+  busyness_estimate?: BusynessEstimate;
   has_live_activity?: boolean;
   latest_vibe_check?: any;
 }
 
+// Venue card from getVenues()
+export interface VenueCard extends VenueWithDistance {
+  average_rating: number;
+  review_count: number;
+  total_vibe_checks: number;
+  vibe_checks_24h: number;
+  promotions: Promotion[];
+  isBookmarked: boolean;
+  recent_vibe_count: number;
+  average_recent_busyness: number | null;
+  busyness_estimate: BusynessEstimate;
+  has_live_activity: boolean;
+}
+
+// Venue screen from getVenueById()
+export interface VenueDetails extends VenueWithDistance {
+  average_rating: number;
+  review_count: number;
+  menus: Menu[];
+  promotions: Promotion[];
+  isBookmarked: boolean;
+}
+
+// Venue suggested by getRecommendedVenues()
+export interface RecommendedVenue extends Venue {
+  average_rating: number;
+  review_count: number;
+  score: number; // "For you" score, higher is a better match
+}
+
+// Venue in the trending row from getTrendingVenues()
+export interface TrendingVenueCard extends TrendingVenue {
+  trending_reason: string; // e.g. "4× the usual vibe checks"
+  recent_vibe_count: number;
+  average_recent_busyness: number | null;
+  busyness_estimate: BusynessEstimate;
+  has_live_activity: boolean;
+  latest_vibe_check: any;
+}
+
+// Venue column on the compare screen from getVenueComparison()
+export interface ComparedVenue extends VenueWithDistance {
+  average_rating: number;
+  review_count: number;
+  promotions: Promotion[];
+  isBookmarked: boolean;
+  recent_vibe_count: number;
+  busyness_estimate: BusynessEstimate;
+  has_live_activity: boolean;
+  busyness_comparison: BusynessComparison | null; // Live busyness against the forecast for now
+}
+
+export interface VenueSearchMatch extends VenueWithDistance {
+  tags: string[];
+  rank: number;
+  average_rating: number;
+  review_count: number;
+  has_promotion: boolean;
+}
+
 export interface Menu {
   id: string;
   venue_id: string;
@@ -36,16 +132,7 @@ export interface Menu {
   created_at: string;
 }
 
-export interface Promotion {
-  id: string;
-  venue_id: string;
-  title: string;
-  description: string | null;
-  start_date: string | null;
-  end_date: string | null;
-  is_active: boolean;
-  created_at: string;
-}
+export type Promotion = VenuePromotion;
 
 // Calculate distance between two coordinates
 function calculateDistance(
@@ -67,82 +154,78 @@ function calculateDistance(
   return R * c;
 }
 
-// Fetch all venues with optional location-based sorting and vibe check data
-export async function getVenues(userLocation?: Location.LocationObject) {
-  try {
-    const { data: venues, error } = await supabase
-      .from("venues")
-      .select("*")
-      .order("created_at", { ascending: false });
-
-    if (error) throw error;
-
-    if (!venues) return { data: [], error: null };
+// Nearby search result with the distance in kilometers, as the rest of the app expects
+function toVenueWithDistance({
+  distance_meters,
+  ...venue
+}: NearbyVenue): VenueWithDistance {
+  return { ...venue, distance: distance_meters / 1000 };
+}
 
-    // Fetch vibe check data and review stats for all venues
-    const venuesWithVibeData = await Promise.all(
-      venues.map(async (venue) => {
-        let distance: number | undefined;
+// Fetch a page of venue cards: ratings, running promotions and the bookmark flag come from
+// get_venue_summaries() and live vibe check data from one batched query for the page. Venues
+// with live activity come first, a solid busyness signal ahead of a single stale report. Then
+// with a user location come the venues within options.radiusMeters, nearest first; otherwise
+// the newest venues. The server orders the venues, so pages keep that order. Pass nextCursor
+// back for the next page.
+export async function getVenues(
+  userLocation?: Location.LocationObject,
+  options: Omit<VenueSummaryQueryOptions, "latitude" | "longitude"> = {}
+) {
+  try {
+    const summaries = await OptimizedQueryService.getVenueSummariesOptimized({
+      ...options,
+      latitude: userLocation?.coords.latitude,
+      longitude: userLocation?.coords.longitude,
+    });
 
-        if (userLocation && venue.latitude && venue.longitude) {
-          distance = calculateDistance(
-            userLocation.coords.latitude,
-            userLocation.coords.longitude,
-            venue.latitude,
-            venue.longitude
-          );
-        }
+    if (summaries.error) throw summaries.error;
 
-        // Get vibe check summary for this venue
-        const vibeStats = await getVenueVibeStats(venue.id);
+    // Cards still load without live data, as venues with no recent vibe checks
+    const { data: stats, error: statsError } =
+      summaries.data.length > 0
+        ? await OptimizedQueryService.batchGetVenueVibeStats(
+            summaries.data.map((venue) => venue.id)
+          )
+        : { data: {}, error: null };
 
-        // Get review stats for this venue
-        const reviewStats = await getVenueReviewStats(venue.id);
+    if (statsError) {
+      console.warn("Error fetching vibe checks for venue stats:", statsError);
+    }
 
-        return {
-          ...venue,
-          distance,
-          recent_vibe_count: vibeStats.recent_count,
-          average_recent_busyness: vibeStats.average_busyness,
-          has_live_activity: vibeStats.has_live_activity,
-          latest_vibe_check: vibeStats.latest_vibe_check,
-          review_count: reviewStats.count,
-          average_rating: reviewStats.average,
-        };
+    const venuesWithVibeData: VenueCard[] = summaries.data.map(
+      ({ activity_rank, distance_meters, is_bookmarked, ...venue }) => ({
+        ...venue,
+        distance: distance_meters === null ? undefined : distance_meters / 1000,
+        isBookmarked: is_bookmarked,
+        recent_vibe_count: stats[venue.id]?.recent_count ?? 0,
+        average_recent_busyness: stats[venue.id]?.average_busyness ?? null,
+        busyness_estimate:
+          stats[venue.id]?.busyness_estimate ?? estimateBusyness([]),
+        has_live_activity: stats[venue.id]?.has_live_activity ?? false,
+        latest_vibe_check: stats[venue.id]?.latest_vibe_check ?? null,
       })
     );
 
-    // Sort by live activity first, then by distance if available
-    venuesWithVibeData.sort((a, b) => {
-      // Prioritize venues with live activity
-      if (a.has_live_activity && !b.has_live_activity) return -1;
-      if (!a.has_live_activity && b.has_live_activity) return 1;
-
-      // Then sort by distance if available
-      if (userLocation) {
-        if (a.distance === undefined) return 1;
-        if (b.distance === undefined) return -1;
-        return a.distance - b.distance;
-      }
-
-      // Finally sort by creation date
-      return (
-        new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-      );
-    });
-
-    return { data: venuesWithVibeData, error: null };
+    return {
+      data: venuesWithVibeData,
+      error: null,
+      nextCursor: summaries.nextCursor,
+    };
   } catch (error) {
-    return { data: [], error };
+    return { data: [], error, nextCursor: null };
   }
 }
 
 // Get a single venue with full details
-export async function getVenueById(venueId: string, userId?: string) {
+export async function getVenueById(
+  venueId: string,
+  userId?: string
+): Promise<{ data: VenueDetails | null; error: any }> {
   try {
-    // Fetch venue details
+    // Fetch venue details with its rating
     const { data: venue, error: venueError } = await supabase
-      .from("venues")
+      .from("venues_with_ratings")
       .select("*")
       .eq("id", venueId)
       .single();
@@ -157,13 +240,16 @@ export async function getVenueById(venueId: string, userId?: string) {
 
     if (menusError) throw menusError;
 
-    // Fetch promotions
+    // Fetch promotions running today
+    const today = new Date().toISOString().split("T")[0];
     const { data: promotions, error: promotionsError } = await supabase
       .from("promotions")
       .select("*")
       .eq("venue_id", venueId)
       .eq("is_active", true)
-      .gte("end_date", new Date().toISOString().split("T")[0]);
+      .or(`start_date.is.null,start_date.lte.${today}`)
+      .or(`end_date.is.null,end_date.gte.${today}`)
+      .order("created_at", { ascending: false });
 
     if (promotionsError) throw promotionsError;
 
@@ -176,11 +262,12 @@ export async function getVenueById(venueId: string, userId?: string) {
       .select(
         `
         *,
-        users(id, name, avatar_url)
+        users(id, name, avatar_url, reputation_score)
       `
       )
       .eq("venue_id", venueId)
-      .gte("created_at", fourHoursAgo.toISOString())
+      .is("hidden_at", null)
+      .or(activeSinceFilter(fourHoursAgo))
       .order("created_at", { ascending: false });
 
     if (vibeChecksError) {
@@ -193,14 +280,13 @@ export async function getVenueById(venueId: string, userId?: string) {
     twoHoursAgo.setHours(twoHoursAgo.getHours() - 2);
 
     const recentVibeCount = recentVibeChecks.length;
-    const averageRecentBusyness =
-      recentVibeCount > 0
-        ? recentVibeChecks.reduce((sum, vc) => sum + vc.busyness_rating, 0) /
-          recentVibeCount
-        : null;
+    const busynessEstimate = estimateBusyness(
+      recentVibeChecks,
+      (vc) => vc.users?.reputation_score
+    );
 
     const hasLiveActivity = recentVibeChecks.some(
-      (vc) => new Date(vc.created_at) > twoHoursAgo
+      (vc) => isVibeCheckActiveSince(vc, twoHoursAgo)
     );
 
     const latestVibeCheck =
@@ -219,14 +305,17 @@ export async function getVenueById(venueId: string, userId?: string) {
       isBookmarked = !!bookmark;
     }
 
-    const venueWithDetails: VenueWithDistance = {
+    const venueWithDetails: VenueDetails = {
       ...venue,
+      average_rating: venue.average_rating ?? 0,
+      review_count: Number(venue.review_count ?? 0),
       menus: menus || [],
       promotions: promotions || [],
       isBookmarked,
       // Add vibe check summary
       recent_vibe_count: recentVibeCount,
-      average_recent_busyness: averageRecentBusyness,
+      average_recent_busyness: busynessEstimate.busyness,
+      busyness_estimate: busynessEstimate,
       has_live_activity: hasLiveActivity,
       latest_vibe_check: latestVibeCheck,
     };
@@ -336,79 +425,289 @@ export async function getUserBookmarks(userId: string) {
   }
 }
 
-// Search venues by name or description
-export async function searchVenues(
-  query: string,
-  userLocation?: Location.LocationObject
-) {
+// Get venues the user hasn't engaged with yet that are most like the ones they did, best first.
+// Empty until the user has liked, bookmarked, shared, reviewed or posted at a venue.
+export async function getRecommendedVenues(
+  userId: string,
+  limit: number = RECOMMENDATION_CONFIG.homeSectionSize
+): Promise<{ data: RecommendedVenue[]; error: any }> {
   try {
-    const { data: venues, error } = await supabase
-      .from("venues")
-      .select("*")
-      .or(`name.ilike.%${query}%,description.ilike.%${query}%`)
-      .order("name");
+    const { data: recommendations, error: recommendationsError } =
+      await RecommendationService.getVenueRecommendations(userId);
 
-    if (error) throw error;
+    if (recommendationsError || !recommendations) throw recommendationsError;
+
+    const venueIds = pickRecommendedVenueIds(
+      recommendations.scores,
+      recommendations.engagedVenueIds,
+      limit
+    );
+    if (venueIds.length === 0) {
+      return { data: [], error: null };
+    }
 
-    if (!venues) return { data: [], error: null };
+    const { data: venues, error: venuesError } = await supabase
+      .from("venues_with_ratings")
+      .select("*")
+      .in("id", venueIds);
 
-    // Add distance calculation if user location is provided
-    const venuesWithDistance: VenueWithDistance[] = venues.map((venue) => {
-      let distance: number | undefined;
+    if (venuesError) throw venuesError;
 
-      if (userLocation && venue.latitude && venue.longitude) {
-        distance = calculateDistance(
-          userLocation.coords.latitude,
-          userLocation.coords.longitude,
-          venue.latitude,
-          venue.longitude
-        );
-      }
+    // Keep the recommendation order
+    const venuesById = new Map<string, any>(
+      (venues || []).map((venue: any) => [venue.id, venue])
+    );
+    const recommended = venueIds
+      .filter((venueId) => venuesById.has(venueId))
+      .map((venueId) => {
+        const venue = venuesById.get(venueId);
+        return {
+          ...venue,
+          average_rating: venue.average_rating ?? 0,
+          review_count: Number(venue.review_count ?? 0),
+          score: recommendations.scores.get(venueId) ?? 0,
+        };
+      });
 
-      return {
-        ...venue,
-        distance,
-      };
+    return { data: recommended, error: null };
+  } catch (error) {
+    return { data: [], error };
+  }
+}
+
+// Get the venues whose vibe checks, views and bookmarks are furthest above their usual rate,
+// most trending first, each with the reason it is trending and its live vibe check data
+export async function getTrendingVenues(
+  limit: number = TRENDING_CONFIG.homeRowSize
+): Promise<{ data: TrendingVenueCard[]; error: any }> {
+  try {
+    const trending = await OptimizedQueryService.getTrendingVenuesOptimized({
+      limit,
     });
 
-    return { data: venuesWithDistance, error: null };
+    if (trending.error) throw trending.error;
+
+    // The row still loads without live data, as venues with no recent vibe checks
+    const { data: stats, error: statsError } =
+      trending.data.length > 0
+        ? await OptimizedQueryService.batchGetVenueVibeStats(
+            trending.data.map((venue) => venue.id)
+          )
+        : { data: {}, error: null };
+
+    if (statsError) {
+      console.warn("Error fetching vibe checks for trending venues:", statsError);
+    }
+
+    const venues: TrendingVenueCard[] = trending.data.map((venue) => ({
+      ...venue,
+      trending_reason: describeTrending(venue),
+      recent_vibe_count: stats[venue.id]?.recent_count ?? 0,
+      average_recent_busyness: stats[venue.id]?.average_busyness ?? null,
+      busyness_estimate:
+        stats[venue.id]?.busyness_estimate ?? estimateBusyness([]),
+      has_live_activity: stats[venue.id]?.has_live_activity ?? false,
+      latest_vibe_check: stats[venue.id]?.latest_vibe_check ?? null,
+    }));
+
+    return { data: venues, error: null };
+  } catch (error) {
+    return { data: [], error };
+  }
+}
+
+// Get two to four venues side by side, in the order given: ratings, promotions running today
+// and the bookmark flag, with live busyness and how it compares with the usual for this hour
+// from the batched vibe check and popular-times queries. Distances need the user's location.
+export async function getVenueComparison(
+  venueIds: string[],
+  userId?: string,
+  userLocation?: Location.LocationObject
+): Promise<{ data: ComparedVenue[]; error: any }> {
+  try {
+    if (venueIds.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const today = new Date().toISOString().split("T")[0];
+    const [venuesResult, promotionsResult, bookmarksResult] = await Promise.all([
+      supabase.from("venues_with_ratings").select("*").in("id", venueIds),
+      supabase
+        .from("promotions")
+        .select("*")
+        .in("venue_id", venueIds)
+        .eq("is_active", true)
+        .or(`start_date.is.null,start_date.lte.${today}`)
+        .or(`end_date.is.null,end_date.gte.${today}`)
+        .order("created_at", { ascending: false }),
+      userId
+        ? supabase
+            .from("user_bookmarks")
+            .select("venue_id")
+            .eq("user_id", userId)
+            .in("venue_id", venueIds)
+        : { data: [], error: null },
+    ]);
+
+    if (venuesResult.error) throw venuesResult.error;
+    if (promotionsResult.error) throw promotionsResult.error;
+    if (bookmarksResult.error) throw bookmarksResult.error;
+
+    // The table still loads without live data, as venues with no recent vibe checks
+    const [statsResult, popularTimesResult] = await Promise.all([
+      OptimizedQueryService.batchGetVenueVibeStats(venueIds),
+      OptimizedQueryService.batchGetVenuePopularTimes(venueIds),
+    ]);
+
+    if (statsResult.error) {
+      console.warn("Error fetching vibe checks for compared venues:", statsResult.error);
+    }
+    if (popularTimesResult.error) {
+      console.warn("Error fetching popular times for compared venues:", popularTimesResult.error);
+    }
+
+    const stats = statsResult.data;
+    const bookmarkedIds = new Set(
+      (bookmarksResult.data || []).map((bookmark: any) => bookmark.venue_id)
+    );
+    const venuesById = new Map<string, any>(
+      (venuesResult.data || []).map((venue: any) => [venue.id, venue])
+    );
+
+    const compared = venueIds
+      .filter((venueId) => venuesById.has(venueId))
+      .map((venueId): ComparedVenue => {
+        const venue = venuesById.get(venueId);
+        const busynessEstimate =
+          stats[venueId]?.busyness_estimate ?? estimateBusyness([]);
+
+        return {
+          ...venue,
+          distance:
+            userLocation && venue.latitude !== null && venue.longitude !== null
+              ? calculateDistance(
+                  userLocation.coords.latitude,
+                  userLocation.coords.longitude,
+                  venue.latitude,
+                  venue.longitude
+                )
+              : undefined,
+          average_rating: venue.average_rating ?? 0,
+          review_count: Number(venue.review_count ?? 0),
+          promotions: (promotionsResult.data || []).filter(
+            (promotion: Promotion) => promotion.venue_id === venueId
+          ),
+          isBookmarked: bookmarkedIds.has(venueId),
+          recent_vibe_count: stats[venueId]?.recent_count ?? 0,
+          average_recent_busyness: busynessEstimate.busyness,
+          busyness_estimate: busynessEstimate,
+          has_live_activity: stats[venueId]?.has_live_activity ?? false,
+          latest_vibe_check: stats[venueId]?.latest_vibe_check ?? null,
+          busyness_comparison: compareWithForecast(
+            busynessEstimate,
+            getForecastForTime(popularTimesResult.data[venueId] ?? [])
+          ),
+        };
+      });
+
+    return { data: compared, error: null };
   } catch (error) {
     return { data: [], error };
   }
 }
 
-// Get venues near a specific location
+// Full-text search over venue names, tags, addresses and descriptions, best match first.
+// With a user location results carry their distance and can be filtered by it. The live
+// busyness and open-now filters need each venue's vibe check stats and hours, so they're
+// applied here: pages of matches are fetched until options.limit venues pass them or the
+// matches run out. Pass nextOffset back for the next page.
+export async function searchVenues(
+  query: string,
+  userLocation?: Location.LocationObject,
+  filters: VenueSearchFilters = {},
+  options: Pick<VenueSearchQueryOptions, "limit" | "offset"> = {}
+): Promise<{ data: VenueSearchMatch[]; error: any; nextOffset: number | null }> {
+  try {
+    const limit = options.limit || VENUE_SEARCH_CONFIG.pageSize;
+    const venues: VenueSearchMatch[] = [];
+    let offset: number | null = options.offset ?? 0;
+
+    while (offset !== null && venues.length < limit) {
+      const pageOffset: number = offset;
+      const search = await OptimizedQueryService.searchVenuesOptimized(
+        query,
+        filters,
+        {
+          limit,
+          offset: pageOffset,
+          latitude: userLocation?.coords.latitude,
+          longitude: userLocation?.coords.longitude,
+        }
+      );
+
+      if (search.error) throw search.error;
+
+      const { data: stats, error: statsError } =
+        search.data.length > 0
+          ? await OptimizedQueryService.batchGetVenueVibeStats(
+              search.data.map((venue) => venue.id)
+            )
+          : { data: {}, error: null };
+
+      if (statsError) {
+        console.warn("Error fetching vibe checks for venue search:", statsError);
+      }
+
+      offset = search.nextOffset ?? null;
+      for (const [index, { distance_meters, ...venue }] of search.data.entries()) {
+        const match: VenueSearchMatch = {
+          ...venue,
+          distance: distance_meters === null ? undefined : distance_meters / 1000,
+          recent_vibe_count: stats[venue.id]?.recent_count ?? 0,
+          average_recent_busyness: stats[venue.id]?.average_busyness ?? null,
+          busyness_estimate:
+            stats[venue.id]?.busyness_estimate ?? estimateBusyness([]),
+          has_live_activity: stats[venue.id]?.has_live_activity ?? false,
+          latest_vibe_check: stats[venue.id]?.latest_vibe_check ?? null,
+        };
+        if (!matchesLiveFilters(match, filters)) continue;
+
+        venues.push(match);
+        // The page is full, so the next one starts after this venue
+        if (venues.length === limit) {
+          if (index < search.data.length - 1) {
+            offset = pageOffset + index + 1;
+          }
+          break;
+        }
+      }
+    }
+
+    return { data: venues, error: null, nextOffset: offset };
+  } catch (error) {
+    return { data: [], error, nextOffset: null };
+  }
+}
+
+// Get venues near a specific location, nearest first, a page at a time
 export async function getNearbyVenues(
   latitude: number,
   longitude: number,
-  radiusKm: number = 10
+  radiusKm: number = 10,
+  options: Omit<NearbyVenueQueryOptions, "radiusMeters"> = {}
 ) {
-  // This would ideally be a call to a PostgREST function
-  // for performance, but this is a simple implementation.
-  const { data, error } = await supabase.from("venues").select("*");
+  const { data, error, nextCursor } =
+    await OptimizedQueryService.getNearbyVenuesOptimized(latitude, longitude, {
+      ...options,
+      radiusMeters: radiusKm * 1000,
+    });
 
   if (error) {
-    console.error("Error fetching venues for nearby search:", error);
-    return { data: [], error };
+    console.error("Error fetching nearby venues:", error);
+    return { data: [], error, nextCursor: null };
   }
 
-  const nearby = data
-    .map((venue) => {
-      if (!venue.latitude || !venue.longitude) return null;
-      const distance = calculateDistance(
-        latitude,
-        longitude,
-        venue.latitude,
-        venue.longitude
-      );
-      return { ...venue, distance };
-    })
-    .filter(
-      (v): v is VenueWithDistance => v !== null && v.distance! <= radiusKm
-    )
-    .sort((a, b) => a.distance! - b.distance!);
-
-  return { data: nearby, error: null };
+  return { data: data.map(toVenueWithDistance), error: null, nextCursor };
 }
 
 export async function addReview({
@@ -477,68 +776,6 @@ export async function getVenueReviewStats(venueId: string) {
   }
 }
 
-// Get venue vibe check statistics
-async function getVenueVibeStats(venueId: string) {
-  try {
-    const fourHoursAgo = new Date();
-    fourHoursAgo.setHours(fourHoursAgo.getHours() - 4);
-    const twoHoursAgo = new Date();
-    twoHoursAgo.setHours(twoHoursAgo.getHours() - 2);
-
-    const { data: vibeChecks, error } = await supabase
-      .from("vibe_checks")
-      .select(
-        `
-        *,
-        users(id, name, avatar_url)
-      `
-      )
-      .eq("venue_id", venueId)
-      .gte("created_at", fourHoursAgo.toISOString())
-      .order("created_at", { ascending: false });
-
-    if (error) {
-      console.warn("Error fetching vibe checks for venue stats:", error);
-      return {
-        recent_count: 0,
-        average_busyness: null,
-        has_live_activity: false,
-        latest_vibe_check: null,
-      };
-    }
-
-    const recentVibeChecks = vibeChecks || [];
-    const recentCount = recentVibeChecks.length;
-    const averageBusyness =
-      recentCount > 0
-        ? recentVibeChecks.reduce((sum, vc) => sum + vc.busyness_rating, 0) /
-          recentCount
-        : null;
-
-    const hasLiveActivity = recentVibeChecks.some(
-      (vc) => new Date(vc.created_at) > twoHoursAgo
-    );
-
-    const latestVibeCheck =
-      recentVibeChecks.length > 0 ? recentVibeChecks[0] : null;
-
-    return {
-      recent_count: recentCount,
-      average_busyness: averageBusyness,
-      has_live_activity: hasLiveActivity,
-      latest_vibe_check: latestVibeCheck,
-    };
-  } catch (error) {
-    console.warn("Error in getVenueVibeStats:", error);
-    return {
-      recent_count: 0,
-      average_busyness: null,
-      has_live_activity: false,
-      latest_vibe_check: null,
-    };
-  }
-}
-
 export async function addVibeCheck({
   venueId,
   userId,
@@ -584,28 +821,29 @@ export async function addVibeCheck({
       return { data: null, error: { message: "Venue not found." } };
     }
 
-    // Verify user is within 100m of venue
-    if (venue.latitude && venue.longitude) {
-      const distance = calculateDistance(
-        location.coords.latitude,
-        location.coords.longitude,
-        venue.latitude,
-        venue.longitude
-      );
-
-      // Convert km to meters
-      const distanceInMeters = distance * 1000;
+    // Verify user is inside the venue's geofence; create_vibe_check() checks again
+    const geofence = getVenueGeofence(venue);
+    if (
+      geofence &&
+      getGeofenceOffset(geofence, location.coords.latitude, location.coords.longitude) > 0
+    ) {
+      const distance = venue.latitude && venue.longitude
+        ? calculateDistance(
+            location.coords.latitude,
+            location.coords.longitude,
+            venue.latitude,
+            venue.longitude
+          ) * 1000 // Convert km to meters
+        : null;
 
-      if (distanceInMeters > 100) {
-        return {
-          data: null,
-          error: {
-            message: `You must be within 100m of the venue to post a vibe check. You are ${Math.round(
-              distanceInMeters
-            )}m away.`,
-          },
-        };
-      }
+      return {
+        data: null,
+        error: {
+          message: `You must be ${describeGeofenceLimit(geofence)} to post a vibe check.${
+            distance !== null ? ` You are ${Math.round(distance)}m away.` : ""
+          }`,
+        },
+      };
     }
 
     // Check if user has already posted a vibe check for this venue in the last hour
@@ -630,22 +868,29 @@ export async function addVibeCheck({
       };
     }
 
-    // Insert the vibe check
-    const { data, error } = await supabase
-      .from("vibe_checks")
-      .insert({
-        venue_id: venueId,
-        user_id: userId,
-        busyness_rating: busyness_rating,
-        comment: comment?.trim() || null,
-        user_latitude: location.coords.latitude,
-        user_longitude: location.coords.longitude,
-      })
-      .select()
-      .single();
+    // Insert the vibe check, the database verifies the location again
+    const { data, error } = await supabase.rpc("create_vibe_check", {
+      p_venue_id: venueId,
+      p_busyness_rating: busyness_rating,
+      p_latitude: location.coords.latitude,
+      p_longitude: location.coords.longitude,
+      p_accuracy_meters: location.coords.accuracy,
+      p_is_mocked: location.mocked ?? false,
+      p_comment: comment?.trim() || null,
+    });
 
     if (error) {
       console.error("Error adding vibe check:", error);
+      // Location rejected: mocked, too inaccurate or too far away
+      if (error.code === "23514") {
+        return {
+          data: null,
+          error: {
+            message:
+              "We couldn't verify that you're at the venue. Turn off mock locations and try again with a better GPS signal.",
+          },
+        };
+      }
       return {
         data: null,
         error: { message: "Failed to post vibe check. Please try again." },
@@ -673,10 +918,11 @@ export async function getRecentVibeChecks(limit: number = 10) {
       .select(
         `
         *,
-        users(id, name, avatar_url),
+        users(id, name, avatar_url, reputation_score),
         venues(id, name, address, cover_image_url)
       `
       )
+      .is("hidden_at", null)
       .gte("created_at", fourHoursAgo.toISOString())
       .order("created_at", { ascending: false })
       .limit(limit);
@@ -693,7 +939,7 @@ export async function getRecentVibeChecks(limit: number = 10) {
         user: vc.users,
         venue: vc.venues,
         time_ago: formatTimeAgo(vc.created_at),
-        is_recent: isWithinHours(vc.created_at, 2),
+        is_recent: isWithinHours(getVibeCheckActivityTime(vc).toISOString(), 2),
       })) || [];
 
     return { data: formattedVibeChecks, error: null };
@@ -718,11 +964,13 @@ export async function getVenuesWithRecentActivity(limit: number = 5) {
           id,
           busyness_rating,
           created_at,
-          users(id, name, avatar_url)
+          last_confirmed_at,
+          users(id, name, avatar_url, reputation_score)
         )
       `
       )
-      .gte("vibe_checks.created_at", twoHoursAgo.toISOString())
+      .is("vibe_checks.hidden_at", null)
+      .or(activeSinceFilter(twoHoursAgo), { referencedTable: "vibe_checks" })
       .order("vibe_checks.created_at", { ascending: false })
       .limit(limit);
 
@@ -735,18 +983,16 @@ export async function getVenuesWithRecentActivity(limit: number = 5) {
     const processedVenues =
       venuesWithActivity?.map((venue) => {
         const recentVibeChecks = venue.vibe_checks || [];
-        const averageBusyness =
-          recentVibeChecks.length > 0
-            ? recentVibeChecks.reduce(
-                (sum: number, vc: any) => sum + vc.busyness_rating,
-                0
-              ) / recentVibeChecks.length
-            : null;
+        const busynessEstimate = estimateBusyness(
+          recentVibeChecks,
+          (vc: any) => vc.users?.reputation_score
+        );
 
         return {
           ...venue,
           recent_vibe_count: recentVibeChecks.length,
-          average_recent_busyness: averageBusyness,
+          average_recent_busyness: busynessEstimate.busyness,
+          busyness_estimate: busynessEstimate,
           has_live_activity: true,
           latest_vibe_check: recentVibeChecks[0] || null,
         };
@@ -801,11 +1047,13 @@ export async function getVenuesWithLiveActivity(limit: number = 5) {
           id,
           busyness_rating,
           created_at,
-          users(id, name, avatar_url)
+          last_confirmed_at,
+          users(id, name, avatar_url, reputation_score)
         )
       `
       )
-      .gte("vibe_checks.created_at", twoHoursAgo.toISOString())
+      .is("vibe_checks.hidden_at", null)
+      .or(activeSinceFilter(twoHoursAgo), { referencedTable: "vibe_checks" })
       .order("vibe_checks.created_at", { ascending: false })
       .limit(limit);
 
@@ -818,13 +1066,10 @@ export async function getVenuesWithLiveActivity(limit: number = 5) {
     const processedVenues = await Promise.all(
       (venuesWithVibes || []).map(async (venue) => {
         const recentVibeChecks = venue.vibe_checks || [];
-        const averageBusyness =
-          recentVibeChecks.length > 0
-            ? recentVibeChecks.reduce(
-                (sum: number, vc: any) => sum + vc.busyness_rating,
-                0
-              ) / recentVibeChecks.length
-            : null;
+        const busynessEstimate = estimateBusyness(
+          recentVibeChecks,
+          (vc: any) => vc.users?.reputation_score
+        );
 
         // Get review stats for this venue
         const reviewStats = await getVenueReviewStats(venue.id);
@@ -832,7 +1077,8 @@ export async function getVenuesWithLiveActivity(limit: number = 5) {
         return {
           ...venue,
           recent_vibe_count: recentVibeChecks.length,
-          average_recent_busyness: averageBusyness,
+          average_recent_busyness: busynessEstimate.busyness,
+          busyness_estimate: busynessEstimate,
           has_live_activity: true,
           latest_vibe_check: recentVibeChecks[0] || null,
           review_count: reviewStats.count,
@@ -0,0 +1,742 @@
+import { supabase } from "../lib/supabase";
+import { GROUP_POLL_CONFIG } from "../lib/constants";
+import { getGroupSpotsLeft, toGroupDate, validateGroupInput } from "../lib/groups";
+import {
+  getGroupPollStatus,
+  rankPollOptions,
+  validatePollCloseTime,
+} from "../lib/groupPolls";
+import {
+  GroupInvite,
+  GroupMemberProfile,
+  GroupPoll,
+  GroupPollOption,
+  GroupRole,
+  PartyGroupDetails,
+  PartyGroupInput,
+  PartyGroupWithDetails,
+} from "../lib/types";
+import { ComparedVenue, getVenueComparison } from "./clubs";
+import * as Location from "expo-location";
+
+// Venue nominated in a group poll, with its live busyness, distance and promotions
+export interface GroupPollChoice extends GroupPollOption {
+  venue: ComparedVenue | null; // Null if the venue couldn't be loaded
+  vote_count: number;
+  has_voted: boolean; // The signed-in user's vote
+}
+
+// Venue poll from getGroupPoll(), options ranked the way the winner is picked
+export interface GroupPollDetails extends GroupPoll {
+  options: GroupPollChoice[];
+  total_votes: number;
+}
+
+// Group with its venue and memberships. Memberships the user can't see are left out by RLS,
+// which never hides the approved members of a public group or of the user's own groups, and
+// shows members every join request to their groups.
+const GROUP_SELECT = `
+  *,
+  venue:venues(id, name, address, cover_image_url),
+  members:group_members(user_id, approved, role, created_at, user:users(name, avatar_url))
+`;
+
+// Poll with its nominations and votes. RLS only shows them to the group's members.
+const POLL_SELECT = `
+  *,
+  options:group_poll_options(id, poll_id, venue_id, added_by, created_at),
+  votes:group_poll_votes(option_id, user_id)
+`;
+
+// Membership row read with GROUP_SELECT
+function toMemberProfile(member: any): GroupMemberProfile {
+  return {
+    user_id: member.user_id,
+    role: member.role,
+    name: member.user?.name ?? null,
+    avatar_url: member.user?.avatar_url ?? null,
+  };
+}
+
+// Group row read with GROUP_SELECT, seen by userId
+function toGroupWithDetails(group: any, userId?: string): PartyGroupDetails {
+  const { members, ...details } = group;
+  const byJoinTime = (a: any, b: any) =>
+    new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  const approved = (members || []).filter((member: any) => member.approved);
+  const pending = (members || []).filter((member: any) => !member.approved);
+
+  const profiles: GroupMemberProfile[] = approved
+    .sort((a: any, b: any) =>
+      a.role === "creator" ? -1 : b.role === "creator" ? 1 : byJoinTime(a, b)
+    )
+    .map(toMemberProfile);
+  const viewer = profiles.find((member) => member.user_id === userId);
+  const isAdmin = viewer?.role === "creator" || viewer?.role === "admin";
+  const requests: GroupMemberProfile[] = isAdmin
+    ? pending.sort(byJoinTime).map(toMemberProfile)
+    : [];
+
+  return {
+    ...details,
+    venue: group.venue ?? null,
+    member_count: profiles.length,
+    is_member: !!viewer,
+    is_creator: !!userId && group.creator_id === userId,
+    is_admin: isAdmin,
+    has_requested: pending.some((member: any) => member.user_id === userId),
+    pending_count: requests.length,
+    members: profiles,
+    requests,
+  };
+}
+
+// Message of an error thrown by Supabase or a failed request. PostgREST errors are plain
+// objects, and carry the messages raised by the group functions and policies.
+function toErrorMessage(error: unknown): string {
+  return typeof error === "object" && error && "message" in error && error.message
+    ? String(error.message)
+    : "Something went wrong. Please try again.";
+}
+
+// Groups from today on, soonest first
+function upcomingGroups() {
+  return supabase
+    .from("party_groups")
+    .select(GROUP_SELECT)
+    .gte("date", toGroupDate(new Date()))
+    .order("date", { ascending: true })
+    .order("time", { ascending: true });
+}
+
+// Create a party group. The creator joins it straight away.
+export async function createGroup(
+  userId: string,
+  input: PartyGroupInput
+): Promise<{ data: PartyGroupDetails | null; error: string | null }> {
+  const validationError = validateGroupInput(input);
+  if (validationError) {
+    return { data: null, error: validationError };
+  }
+
+  try {
+    const { data: group, error } = await supabase
+      .from("party_groups")
+      .insert({
+        name: input.name.trim(),
+        venue_id: input.venue_id ?? null,
+        date: input.date,
+        time: input.time,
+        max_size: input.max_size,
+        is_public: input.is_public ?? true,
+        description: input.description?.trim() || null,
+        creator_id: userId,
+      })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+
+    // Read back once add_creator_to_group has added the creator
+    return await getGroupById(group.id, userId);
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Get upcoming public groups, soonest first
+export async function getPublicGroups(
+  userId?: string,
+  limit: number = 20
+): Promise<{ data: PartyGroupWithDetails[]; error: string | null }> {
+  try {
+    const { data: groups, error } = await upcomingGroups()
+      .eq("is_public", true)
+      .limit(limit);
+
+    if (error) throw error;
+
+    return {
+      data: (groups || []).map((group) => toGroupWithDetails(group, userId)),
+      error: null,
+    };
+  } catch (error) {
+    return { data: [], error: toErrorMessage(error) };
+  }
+}
+
+// Get the upcoming groups the user created or has joined, soonest first
+export async function getUserGroups(
+  userId: string
+): Promise<{ data: PartyGroupWithDetails[]; error: string | null }> {
+  try {
+    const { data: memberships, error: membershipsError } = await supabase
+      .from("group_members")
+      .select("group_id")
+      .eq("user_id", userId)
+      .eq("approved", true);
+
+    if (membershipsError) throw membershipsError;
+
+    const groupIds = (memberships || []).map((membership) => membership.group_id);
+    if (groupIds.length === 0) {
+      return { data: [], error: null };
+    }
+
+    const { data: groups, error } = await upcomingGroups().in("id", groupIds);
+
+    if (error) throw error;
+
+    return {
+      data: (groups || []).map((group) => toGroupWithDetails(group, userId)),
+      error: null,
+    };
+  } catch (error) {
+    return { data: [], error: toErrorMessage(error) };
+  }
+}
+
+// Get upcoming groups going to a venue that the user can see, soonest first
+export async function getVenueGroups(
+  venueId: string,
+  userId?: string
+): Promise<{ data: PartyGroupWithDetails[]; error: string | null }> {
+  try {
+    const { data: groups, error } = await upcomingGroups().eq("venue_id", venueId);
+
+    if (error) throw error;
+
+    return {
+      data: (groups || []).map((group) => toGroupWithDetails(group, userId)),
+      error: null,
+    };
+  } catch (error) {
+    return { data: [], error: toErrorMessage(error) };
+  }
+}
+
+// Get a group with everyone who has joined
+export async function getGroupById(
+  groupId: string,
+  userId?: string
+): Promise<{ data: PartyGroupDetails | null; error: string | null }> {
+  try {
+    const { data: group, error } = await supabase
+      .from("party_groups")
+      .select(GROUP_SELECT)
+      .eq("id", groupId)
+      .single();
+
+    if (error) throw error;
+
+    return { data: toGroupWithDetails(group, userId), error: null };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Change a group. Only its creator can, and it can't be made smaller than its members.
+export async function updateGroup(
+  groupId: string,
+  userId: string,
+  updates: Partial<PartyGroupInput>
+): Promise<{ data: PartyGroupDetails | null; error: string | null }> {
+  try {
+    const { data: group, error: groupError } = await getGroupById(groupId, userId);
+
+    if (groupError || !group) {
+      return { data: null, error: groupError };
+    }
+    if (!group.is_creator) {
+      return { data: null, error: "Only the group's creator can change it." };
+    }
+
+    const changed: PartyGroupInput = {
+      name: updates.name ?? group.name,
+      venue_id: updates.venue_id !== undefined ? updates.venue_id : group.venue_id,
+      date: updates.date ?? group.date,
+      time: updates.time ?? group.time,
+      max_size: updates.max_size ?? group.max_size,
+      is_public: updates.is_public ?? group.is_public,
+      description:
+        updates.description !== undefined ? updates.description : group.description,
+    };
+    const validationError = validateGroupInput(changed, {
+      memberCount: group.member_count,
+      // A group that has started can still be renamed
+      allowPast: changed.date === group.date && changed.time === group.time,
+    });
+    if (validationError) {
+      return { data: null, error: validationError };
+    }
+
+    const { error } = await supabase
+      .from("party_groups")
+      .update({
+        name: changed.name.trim(),
+        venue_id: changed.venue_id ?? null,
+        date: changed.date,
+        time: changed.time,
+        max_size: changed.max_size,
+        is_public: changed.is_public,
+        description: changed.description?.trim() || null,
+      })
+      .eq("id", groupId);
+
+    if (error) throw error;
+
+    return await getGroupById(groupId, userId);
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Delete a group, with its members and chat. Only its creator can.
+export async function deleteGroup(
+  groupId: string,
+  userId: string
+): Promise<{ data: { deleted: boolean } | null; error: string | null }> {
+  try {
+    const { data: deleted, error } = await supabase
+      .from("party_groups")
+      .delete()
+      .eq("id", groupId)
+      .eq("creator_id", userId)
+      .select("id");
+
+    if (error) throw error;
+    if (!deleted || deleted.length === 0) {
+      return { data: null, error: "Only the group's creator can delete it." };
+    }
+
+    return { data: { deleted: true }, error: null };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Ask to join a public group. A creator or admin has to approve the request.
+export async function requestToJoinGroup(
+  groupId: string,
+  userId: string
+): Promise<{ data: PartyGroupDetails | null; error: string | null }> {
+  try {
+    const { data: group, error: groupError } = await getGroupById(groupId, userId);
+
+    if (groupError || !group) {
+      return { data: null, error: groupError };
+    }
+    if (group.is_member || group.has_requested) {
+      return { data: group, error: null };
+    }
+    if (!group.is_public) {
+      return {
+        data: null,
+        error: "This group is invite only. Ask someone in it for the invite link.",
+      };
+    }
+    if (getGroupSpotsLeft(group) === 0) {
+      return { data: null, error: "This group is full." };
+    }
+
+    const { error } = await supabase
+      .from("group_members")
+      .insert({ group_id: groupId, user_id: userId });
+
+    if (error) throw error;
+
+    return await getGroupById(groupId, userId);
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Leave a group, or cancel a request to join it. The creator deletes the group instead.
+export async function leaveGroup(
+  groupId: string,
+  userId: string
+): Promise<{ data: { left: boolean } | null; error: string | null }> {
+  try {
+    const { data: left, error } = await supabase
+      .from("group_members")
+      .delete()
+      .eq("group_id", groupId)
+      .eq("user_id", userId)
+      .neq("role", "creator")
+      .select("id");
+
+    if (error) throw error;
+    if (!left || left.length === 0) {
+      return {
+        data: null,
+        error: "The organiser can't leave their group, but they can delete it.",
+      };
+    }
+
+    return { data: { left: true }, error: null };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Approve a request to join a group, as one of its admins. Fails once the group is full.
+export async function approveJoinRequest(
+  groupId: string,
+  memberId: string,
+  userId: string
+): Promise<{ data: PartyGroupDetails | null; error: string | null }> {
+  try {
+    const { data: group, error: groupError } = await getGroupById(groupId, userId);
+
+    if (groupError || !group) {
+      return { data: null, error: groupError };
+    }
+    if (getGroupSpotsLeft(group) === 0) {
+      return { data: null, error: "This group is full. Make it bigger to let more people in." };
+    }
+
+    const { data: approved, error } = await supabase
+      .from("group_members")
+      .update({ approved: true })
+      .eq("group_id", groupId)
+      .eq("user_id", memberId)
+      .eq("approved", false)
+      .select("id");
+
+    if (error) throw error;
+    if (!approved || approved.length === 0) {
+      return { data: null, error: "Only the group's organiser and admins can approve requests." };
+    }
+
+    return await getGroupById(groupId, userId);
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Remove a member from a group or turn down their request, as one of its admins.
+// Only the creator can remove admins.
+export async function removeGroupMember(
+  groupId: string,
+  memberId: string,
+  userId: string
+): Promise<{ data: PartyGroupDetails | null; error: string | null }> {
+  try {
+    const { data: removed, error } = await supabase
+      .from("group_members")
+      .delete()
+      .eq("group_id", groupId)
+      .eq("user_id", memberId)
+      .select("id");
+
+    if (error) throw error;
+    if (!removed || removed.length === 0) {
+      return { data: null, error: "You can't remove this member." };
+    }
+
+    return await getGroupById(groupId, userId);
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Make a member an admin, or an admin a member again. Only the creator can demote admins.
+export async function setGroupMemberRole(
+  groupId: string,
+  memberId: string,
+  userId: string,
+  role: Exclude<GroupRole, "creator">
+): Promise<{ data: PartyGroupDetails | null; error: string | null }> {
+  try {
+    const { data: updated, error } = await supabase
+      .from("group_members")
+      .update({ role })
+      .eq("group_id", groupId)
+      .eq("user_id", memberId)
+      .eq("approved", true)
+      .select("id");
+
+    if (error) throw error;
+    if (!updated || updated.length === 0) {
+      return { data: null, error: "You can't change this member's role." };
+    }
+
+    return await getGroupById(groupId, userId);
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Get the group an invite code opens, including private groups the user isn't in
+export async function getGroupInvite(
+  inviteCode: string
+): Promise<{ data: GroupInvite | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase.rpc("get_group_by_invite", {
+      p_invite_code: inviteCode,
+    });
+
+    if (error) throw error;
+
+    return { data: data?.[0] ?? null, error: null };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Join a group with its invite code, without waiting for approval. Returns the group's id.
+export async function joinGroupByInvite(
+  inviteCode: string
+): Promise<{ data: string | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase.rpc("join_group_by_invite", {
+      p_invite_code: inviteCode,
+    });
+
+    if (error) throw error;
+
+    return { data, error: null };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Get a group's latest venue poll, open or closed, or null if it has never had one. Options
+// carry the venue's live busyness, promotions and, with the user's location, distance. A poll
+// past its close time is closed first, so its winner is in.
+export async function getGroupPoll(
+  groupId: string,
+  userId: string,
+  userLocation?: Location.LocationObject
+): Promise<{ data: GroupPollDetails | null; error: string | null }> {
+  try {
+    const { data: polls, error } = await supabase
+      .from("group_polls")
+      .select(POLL_SELECT)
+      .eq("group_id", groupId)
+      .order("created_at", { ascending: false })
+      .limit(1);
+
+    if (error) throw error;
+
+    const poll: any = polls?.[0];
+    if (!poll) {
+      return { data: null, error: null };
+    }
+
+    if (getGroupPollStatus(poll) === "due") {
+      const { error: closeError } = await closeGroupPoll(poll.id);
+      if (closeError) {
+        return { data: null, error: closeError };
+      }
+      return await getGroupPoll(groupId, userId, userLocation);
+    }
+
+    const { options, votes, ...details } = poll;
+    const venueIds = (options || []).map((option: GroupPollOption) => option.venue_id);
+    // The poll still loads without live details, as options without a venue
+    const { data: venues, error: venuesError } = await getVenueComparison(
+      venueIds,
+      userId,
+      userLocation
+    );
+    if (venuesError) {
+      console.warn("Error fetching venues for group poll:", venuesError);
+    }
+
+    const venuesById = new Map(venues.map((venue) => [venue.id, venue]));
+    const pollVotes: { option_id: string; user_id: string }[] = votes || [];
+    const choices = (options || []).map(
+      (option: GroupPollOption): GroupPollChoice => ({
+        ...option,
+        venue: venuesById.get(option.venue_id) ?? null,
+        vote_count: pollVotes.filter((vote) => vote.option_id === option.id).length,
+        has_voted: pollVotes.some(
+          (vote) => vote.option_id === option.id && vote.user_id === userId
+        ),
+      })
+    );
+
+    return {
+      data: {
+        ...details,
+        options: rankPollOptions(choices),
+        total_votes: pollVotes.length,
+      },
+      error: null,
+    };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Start a venue poll, as the group's organiser or an admin. The group's current venue, if it has
+// one, is nominated first so members can vote to keep it.
+export async function startGroupPoll(
+  groupId: string,
+  userId: string,
+  closesAt: Date
+): Promise<{ data: GroupPoll | null; error: string | null }> {
+  try {
+    const { data: group, error: groupError } = await getGroupById(groupId, userId);
+
+    if (groupError || !group) {
+      return { data: null, error: groupError };
+    }
+    if (!group.is_admin) {
+      return { data: null, error: "Only the group's organiser and admins can start a vote." };
+    }
+
+    const validationError = validatePollCloseTime(closesAt, group);
+    if (validationError) {
+      return { data: null, error: validationError };
+    }
+
+    // A group has one open poll at a time. One past its close time is closed to make way.
+    const { data: openPolls, error: openError } = await supabase
+      .from("group_polls")
+      .select("id, closes_at, closed_at")
+      .eq("group_id", groupId)
+      .is("closed_at", null);
+
+    if (openError) throw openError;
+
+    const openPoll = openPolls?.[0];
+    if (openPoll && getGroupPollStatus(openPoll) === "open") {
+      return { data: null, error: "There's already a vote running for this group." };
+    }
+    if (openPoll) {
+      const { error: closeError } = await closeGroupPoll(openPoll.id);
+      if (closeError) {
+        return { data: null, error: closeError };
+      }
+    }
+
+    const { data: poll, error } = await supabase
+      .from("group_polls")
+      .insert({
+        group_id: groupId,
+        created_by: userId,
+        closes_at: closesAt.toISOString(),
+      })
+      .select("*")
+      .single();
+
+    if (error) throw error;
+
+    if (group.venue_id) {
+      const { error: nominateError } = await nominateVenue(poll.id, group.venue_id, userId);
+      if (nominateError) {
+        console.warn("Error nominating the group's venue:", nominateError);
+      }
+    }
+
+    return { data: poll, error: null };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Nominate a venue in an open poll, as a member of its group
+export async function nominateVenue(
+  pollId: string,
+  venueId: string,
+  userId: string
+): Promise<{ data: GroupPollOption | null; error: string | null }> {
+  try {
+    const { data: option, error } = await supabase
+      .from("group_poll_options")
+      .insert({ poll_id: pollId, venue_id: venueId, added_by: userId })
+      .select("*")
+      .single();
+
+    if (error) {
+      // 23505 = unique violation, the venue is already nominated
+      if (error.code === "23505") {
+        return { data: null, error: "That venue is already in the vote." };
+      }
+      // 42501 = the poll has closed, is full, or the user isn't in the group
+      if (error.code === "42501") {
+        return {
+          data: null,
+          error: `You can't add venues to this vote. It may have closed or already have ${GROUP_POLL_CONFIG.maxOptions} venues.`,
+        };
+      }
+      throw error;
+    }
+
+    return { data: option, error: null };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Vote for a venue in an open poll, replacing the user's earlier vote
+export async function voteForVenue(
+  pollId: string,
+  optionId: string,
+  userId: string
+): Promise<{ data: { voted: boolean } | null; error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from("group_poll_votes")
+      .upsert(
+        { poll_id: pollId, option_id: optionId, user_id: userId },
+        { onConflict: "poll_id,user_id" }
+      );
+
+    if (error) {
+      if (error.code === "42501") {
+        return { data: null, error: "This vote has closed." };
+      }
+      throw error;
+    }
+
+    return { data: { voted: true }, error: null };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Take back the user's vote in an open poll
+export async function removeVote(
+  pollId: string,
+  userId: string
+): Promise<{ data: { removed: boolean } | null; error: string | null }> {
+  try {
+    const { data: removed, error } = await supabase
+      .from("group_poll_votes")
+      .delete()
+      .eq("poll_id", pollId)
+      .eq("user_id", userId)
+      .select("poll_id");
+
+    if (error) throw error;
+    if (!removed || removed.length === 0) {
+      return { data: null, error: "This vote has closed." };
+    }
+
+    return { data: { removed: true }, error: null };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
+
+// Close a poll and make its winner the group's venue. Any member can once it's past its close
+// time, the organiser and admins can close it early. Returns the winning venue's id, or null
+// when nobody voted.
+export async function closeGroupPoll(
+  pollId: string
+): Promise<{ data: string | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase.rpc("close_group_poll", {
+      p_poll_id: pollId,
+    });
+
+    if (error) throw error;
+
+    return { data: data ?? null, error: null };
+  } catch (error) {
+    return { data: null, error: toErrorMessage(error) };
+  }
+}
@@ -0,0 +1,50 @@
+import React, { createContext, useContext, useState, ReactNode, useCallback, useMemo } from 'react';
+import { toggleCompareSelection } from './venueCompare';
+
+interface VenueCompareContextType {
+  selectedIds: string[]; // In the order they were picked
+  isSelected: (venueId: string) => boolean;
+  toggleVenue: (venueId: string) => void;
+  clearSelection: () => void;
+}
+
+const VenueCompareContext = createContext<VenueCompareContextType | undefined>(undefined);
+
+export const useVenueCompare = () => {
+  const context = useContext(VenueCompareContext);
+  if (!context) {
+    throw new Error('useVenueCompare must be used within a VenueCompareProvider');
+  }
+  return context;
+};
+
+// Venues picked to compare, shared so they can be picked from both bookmarks and the feed
+export const VenueCompareProvider = ({ children }: { children: ReactNode }) => {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const isSelected = useCallback(
+    (venueId: string) => selectedIds.includes(venueId),
+    [selectedIds]
+  );
+
+  const toggleVenue = useCallback((venueId: string) => {
+    setSelectedIds(ids => toggleCompareSelection(ids, venueId));
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds([]);
+  }, []);
+
+  const contextValue = useMemo(() => ({
+    selectedIds,
+    isSelected,
+    toggleVenue,
+    clearSelection,
+  }), [selectedIds, isSelected, toggleVenue, clearSelection]);
+
+  return (
+    <VenueCompareContext.Provider value={contextValue}>
+      {children}
+    </VenueCompareContext.Provider>
+  );
+};
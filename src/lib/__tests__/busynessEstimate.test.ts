@@ -0,0 +1,117 @@
+import {
+  estimateBusyness,
+  formatBusynessEstimateSummary,
+  getConfidenceLevel,
+  getRecencyWeight,
+} from '../busynessEstimate';
+
+const NOW = new Date('2025-03-12T22:00:00.000Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000).toISOString();
+
+describe('busynessEstimate', () => {
+  describe('getRecencyWeight', () => {
+    it('should halve the weight every half-life', () => {
+      expect(getRecencyWeight(NOW, NOW)).toBe(1);
+      expect(getRecencyWeight(new Date(minutesAgo(45)), NOW)).toBeCloseTo(0.5);
+      expect(getRecencyWeight(new Date(minutesAgo(90)), NOW)).toBeCloseTo(0.25);
+    });
+  });
+
+  describe('estimateBusyness', () => {
+    it('should favour recent reports over old ones', () => {
+      const estimate = estimateBusyness(
+        [
+          { busyness_rating: 5, created_at: minutesAgo(2) },
+          { busyness_rating: 1, created_at: minutesAgo(230) },
+        ],
+        undefined,
+        NOW
+      );
+
+      expect(estimate.busyness).toBeGreaterThan(4.8);
+      expect(estimate.report_count).toBe(2);
+      expect(estimate.latest_report_at).toBe(minutesAgo(2));
+    });
+
+    it('should weight reports by author reputation', () => {
+      const estimate = estimateBusyness(
+        [
+          { busyness_rating: 5, created_at: minutesAgo(5), score: 10 },
+          { busyness_rating: 1, created_at: minutesAgo(5), score: 90 },
+        ],
+        (vibeCheck) => vibeCheck.score,
+        NOW
+      );
+
+      expect(estimate.busyness).toBeCloseTo(1.4);
+    });
+
+    it('should date confirmed reports from their last confirmation', () => {
+      const estimate = estimateBusyness(
+        [{ busyness_rating: 4, created_at: minutesAgo(180), last_confirmed_at: minutesAgo(10) }],
+        undefined,
+        NOW
+      );
+
+      expect(estimate.latest_report_at).toBe(minutesAgo(10));
+    });
+
+    it('should have low confidence in a single old report', () => {
+      const estimate = estimateBusyness(
+        [{ busyness_rating: 3, created_at: minutesAgo(40) }],
+        undefined,
+        NOW
+      );
+
+      expect(estimate.confidence_level).toBe('low');
+    });
+
+    it('should have high confidence in several fresh reports', () => {
+      const estimate = estimateBusyness(
+        ([4, 4, 5, 4] as const).map((busyness_rating, index) => ({
+          busyness_rating,
+          created_at: minutesAgo(index * 3),
+        })),
+        () => 80,
+        NOW
+      );
+
+      expect(estimate.confidence_level).toBe('high');
+      expect(estimate.busyness).toBeCloseTo(4.25, 1);
+    });
+
+    it('should return an empty estimate without reports', () => {
+      expect(estimateBusyness([], undefined, NOW)).toEqual({
+        busyness: null,
+        confidence: 0,
+        confidence_level: 'low',
+        report_count: 0,
+        latest_report_at: null,
+      });
+    });
+  });
+
+  describe('getConfidenceLevel', () => {
+    it('should map confidence to levels', () => {
+      expect(getConfidenceLevel(0.2)).toBe('low');
+      expect(getConfidenceLevel(0.35)).toBe('medium');
+      expect(getConfidenceLevel(0.6)).toBe('high');
+    });
+  });
+
+  describe('formatBusynessEstimateSummary', () => {
+    it('should describe the reports behind the estimate', () => {
+      const estimate = estimateBusyness(
+        [{ busyness_rating: 3, created_at: minutesAgo(40) }],
+        undefined,
+        NOW
+      );
+
+      expect(formatBusynessEstimateSummary(estimate, NOW)).toBe('1 report, 40 min ago');
+    });
+
+    it('should return null without reports', () => {
+      expect(formatBusynessEstimateSummary(estimateBusyness([], undefined, NOW), NOW)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import {
+  buildFriendsActivity,
+  describeFriendPlan,
+  FriendMembership,
+  getFollowRelationship,
+  groupFriendPlans,
+} from '../follows';
+import { FriendReview, VibeCheckWithDetails } from '../types';
+
+// Thursday 12 June 2025, 8 PM local time
+const NOW = new Date(2025, 5, 12, 20, 0);
+
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000).toISOString();
+
+const friend = (id: string, name: string | null = id) => ({ id, name, avatar_url: null });
+
+const group = (id: string) => ({
+  id,
+  name: `Group ${id}`,
+  date: '2025-06-13',
+  time: '21:30',
+  venue: null,
+});
+
+describe('follows', () => {
+  describe('getFollowRelationship', () => {
+    it('should tell requests from accepted follows each way', () => {
+      const follows = [
+        { follower_id: 'me', following_id: 'sam', status: 'accepted' as const },
+        { follower_id: 'sam', following_id: 'me', status: 'pending' as const },
+        { follower_id: 'alex', following_id: 'me', status: 'accepted' as const },
+      ];
+
+      expect(getFollowRelationship(follows, 'me', 'sam')).toEqual({
+        outgoing: 'following',
+        incoming: 'requested',
+      });
+      expect(getFollowRelationship(follows, 'me', 'alex')).toEqual({
+        outgoing: 'none',
+        incoming: 'following',
+      });
+      expect(getFollowRelationship([], 'me', 'sam')).toEqual({ outgoing: 'none', incoming: 'none' });
+    });
+  });
+
+  describe('groupFriendPlans', () => {
+    it('should collect friends going to the same group, latest to join first', () => {
+      const memberships: FriendMembership[] = [
+        { joined_at: minutesAgo(60), user: friend('sam'), group: group('a') },
+        { joined_at: minutesAgo(10), user: friend('alex'), group: group('a') },
+        { joined_at: minutesAgo(30), user: friend('sam'), group: group('b') },
+      ];
+
+      const plans = groupFriendPlans(memberships);
+
+      expect(plans.map((p) => p.group.id)).toEqual(['a', 'b']);
+      expect(plans[0].friends.map((f) => f.id)).toEqual(['alex', 'sam']);
+      expect(plans[0].joined_at).toBe(minutesAgo(10));
+    });
+  });
+
+  it('should merge activity newest first and keep the most recent items', () => {
+    const vibeCheck = { id: 'v1', created_at: minutesAgo(5) } as VibeCheckWithDetails;
+    const review = { id: 'r1', created_at: minutesAgo(20) } as FriendReview;
+    const plan = { group: group('a'), friends: [friend('sam')], joined_at: minutesAgo(10) };
+
+    const activity = buildFriendsActivity({ vibeChecks: [vibeCheck], reviews: [review], plans: [plan] }, 10);
+
+    expect(activity.map((item) => item.id)).toEqual(['vibe_check:v1', 'group_plan:a', 'review:r1']);
+    expect(
+      buildFriendsActivity({ vibeChecks: [vibeCheck], reviews: [review], plans: [plan] }, 2).map((item) => item.type)
+    ).toEqual(['vibe_check', 'group_plan']);
+  });
+
+  it('should describe who is going to a group', () => {
+    expect(describeFriendPlan({ friends: [friend('1', 'Sam')] })).toBe('Sam is going');
+    expect(describeFriendPlan({ friends: [friend('1', 'Sam'), friend('2', null)] })).toBe(
+      'Sam and Someone are going'
+    );
+    expect(describeFriendPlan({ friends: [friend('1', 'Sam'), friend('2', 'Alex'), friend('3', 'Jo')] })).toBe(
+      'Sam and 2 others are going'
+    );
+  });
+});
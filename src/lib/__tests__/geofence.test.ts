@@ -0,0 +1,120 @@
+import {
+  describeGeofenceLimit,
+  getGeofenceMaxDistance,
+  getGeofenceOffset,
+  getVenueGeofence,
+  validateGeofencePolygon,
+} from '../geofence';
+import { GeofencePoint, VenueGeofence } from '../types';
+
+const CENTER = { latitude: -1.2921, longitude: 36.8219 };
+
+// Offsets in degrees, roughly 11m per 0.0001 near the equator
+const point = (dLatitude: number, dLongitude: number): GeofencePoint => ({
+  latitude: CENTER.latitude + dLatitude,
+  longitude: CENTER.longitude + dLongitude,
+});
+
+// L-shaped venue: a 44m square with its north-east quarter missing
+const L_POINTS = [
+  point(-0.0002, -0.0002),
+  point(-0.0002, 0.0002),
+  point(0, 0.0002),
+  point(0, 0),
+  point(0.0002, 0),
+  point(0.0002, -0.0002),
+];
+const L_SHAPE: VenueGeofence = { type: 'polygon', points: L_POINTS };
+
+const venue = {
+  latitude: CENTER.latitude,
+  longitude: CENTER.longitude,
+  geofence_radius_meters: null,
+  geofence_polygon: null,
+  tags: [],
+};
+
+describe('geofence', () => {
+  describe('getVenueGeofence', () => {
+    it('should default to a 100m radius around the venue', () => {
+      expect(getVenueGeofence(venue)).toEqual({ type: 'radius', ...CENTER, radius_meters: 100 });
+    });
+
+    it('should use the venue radius', () => {
+      expect(getVenueGeofence({ ...venue, geofence_radius_meters: 250 })).toMatchObject({
+        radius_meters: 250,
+      });
+    });
+
+    it('should prefer the polygon over the radius', () => {
+      expect(
+        getVenueGeofence({ ...venue, geofence_radius_meters: 250, geofence_polygon: L_POINTS })
+      ).toEqual(L_SHAPE);
+    });
+
+    it('should be null without a location or polygon', () => {
+      expect(getVenueGeofence({ ...venue, latitude: null, longitude: null })).toBeNull();
+    });
+  });
+
+  describe('getGeofenceOffset', () => {
+    it('should measure radius geofences from the edge of the circle', () => {
+      const geofence = getVenueGeofence(venue)!;
+
+      expect(getGeofenceOffset(geofence, CENTER.latitude, CENTER.longitude)).toBeCloseTo(-100, 5);
+      expect(getGeofenceOffset(geofence, CENTER.latitude + 0.0018, CENTER.longitude)).toBeCloseTo(100, -1);
+    });
+
+    it('should be negative inside a polygon, by the distance to the nearest edge', () => {
+      const { latitude, longitude } = point(-0.0001, -0.0001);
+
+      expect(getGeofenceOffset(L_SHAPE, latitude, longitude)).toBeCloseTo(-11, 0);
+    });
+
+    it('should be positive in the missing corner of a concave polygon', () => {
+      const { latitude, longitude } = point(0.0001, 0.0001);
+
+      expect(getGeofenceOffset(L_SHAPE, latitude, longitude)).toBeCloseTo(11, 0);
+    });
+
+    it('should measure from the nearest corner outside a polygon', () => {
+      const { latitude, longitude } = point(-0.0005, -0.0006);
+
+      // 0.0003 south and 0.0004 west of the south-west corner
+      expect(getGeofenceOffset(L_SHAPE, latitude, longitude)).toBeCloseTo(55.6, 0);
+    });
+  });
+
+  describe('describeGeofenceLimit', () => {
+    it('should describe the radius, or the default radius when unknown', () => {
+      expect(describeGeofenceLimit(getVenueGeofence({ ...venue, geofence_radius_meters: 150 }))).toBe(
+        'within 150m of the venue'
+      );
+      expect(describeGeofenceLimit()).toBe('within 100m of the venue');
+    });
+
+    it('should ask to be inside polygon geofences', () => {
+      expect(describeGeofenceLimit(L_SHAPE)).toBe('inside the venue');
+      expect(getGeofenceMaxDistance(L_SHAPE)).toBeNull();
+    });
+  });
+
+  describe('validateGeofencePolygon', () => {
+    it('should accept valid polygons', () => {
+      expect(validateGeofencePolygon(L_POINTS)).toBeNull();
+    });
+
+    it('should reject polygons with too few or too many corners', () => {
+      expect(validateGeofencePolygon([point(0, 0), point(0, 0.001)])).toMatch(/at least 3/);
+      expect(validateGeofencePolygon(Array.from({ length: 51 }, (_, i) => point(i * 0.0001, 0)))).toMatch(
+        /at most 50/
+      );
+    });
+
+    it('should reject invalid coordinates', () => {
+      expect(validateGeofencePolygon([point(0, 0), point(0, 0.001), { latitude: 91, longitude: 0 }])).toMatch(
+        /valid coordinates/
+      );
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  formatChatTime,
+  getOlderMessagesCursor,
+  mergeChatMessages,
+  startsSenderRun,
+  validateChatMessage,
+} from '../groupChat';
+import { GroupMessage } from '../types';
+
+// Thursday 12 June 2025, 10 PM local time
+const NOW = new Date(2025, 5, 12, 22, 0);
+
+const message = (id: string, createdAt: Date, overrides: Partial<GroupMessage> = {}): GroupMessage => ({
+  id,
+  group_id: 'group-1',
+  sender_id: 'user-1',
+  content: `Message ${id}`,
+  message_type: 'text',
+  image_url: null,
+  created_at: createdAt.toISOString(),
+  ...overrides,
+});
+
+describe('groupChat', () => {
+  it('should only send messages with some text of at most 1000 characters', () => {
+    expect(validateChatMessage('See you there')).toBeNull();
+    expect(validateChatMessage('   ')).toBe('Type a message first.');
+    expect(validateChatMessage('x'.repeat(1001))).toBe('Messages can be up to 1000 characters.');
+  });
+
+  describe('mergeChatMessages', () => {
+    const older = message('a', new Date(2025, 5, 12, 21, 0));
+    const newer = message('b', new Date(2025, 5, 12, 21, 5));
+
+    it('should keep messages newest first', () => {
+      expect(mergeChatMessages([older], [newer]).map((m) => m.id)).toEqual(['b', 'a']);
+      expect(mergeChatMessages([newer], [older]).map((m) => m.id)).toEqual(['b', 'a']);
+    });
+
+    it('should keep a message echoed back over realtime once', () => {
+      expect(mergeChatMessages([newer, older], [newer])).toHaveLength(2);
+    });
+
+    it('should order messages sent at the same time by id, like the database', () => {
+      const sameTime = message('c', new Date(2025, 5, 12, 21, 5));
+      expect(mergeChatMessages([newer], [sameTime]).map((m) => m.id)).toEqual(['c', 'b']);
+    });
+  });
+
+  it('should page from the oldest message loaded', () => {
+    const oldest = message('a', new Date(2025, 5, 12, 21, 0));
+    expect(getOlderMessagesCursor([message('b', NOW), oldest])).toEqual({
+      created_at: oldest.created_at,
+      id: 'a',
+    });
+    expect(getOlderMessagesCursor([])).toBeNull();
+  });
+
+  it('should show the sender when someone else speaks or after a pause', () => {
+    const first = message('a', new Date(2025, 5, 12, 21, 0));
+    expect(startsSenderRun(first, undefined)).toBe(true);
+    expect(startsSenderRun(message('b', new Date(2025, 5, 12, 21, 2)), first)).toBe(false);
+    expect(startsSenderRun(message('b', new Date(2025, 5, 12, 21, 2), { sender_id: 'user-2' }), first)).toBe(true);
+    expect(startsSenderRun(message('b', new Date(2025, 5, 12, 21, 10)), first)).toBe(true);
+    expect(
+      startsSenderRun(message('b', new Date(2025, 5, 12, 21, 2)), { ...first, message_type: 'system' })
+    ).toBe(true);
+  });
+
+  it('should describe when a message was sent relative to now', () => {
+    expect(formatChatTime(new Date(2025, 5, 12, 21, 30).toISOString(), NOW)).toBe('9:30 PM');
+    expect(formatChatTime(new Date(2025, 5, 11, 23, 0).toISOString(), NOW)).toBe('Yesterday 11 PM');
+    expect(formatChatTime(new Date(2025, 5, 7, 20, 15).toISOString(), NOW)).toBe('Sat 7 Jun, 8:15 PM');
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  formatPollCloseTime,
+  getGroupPollStatus,
+  getPollCloseChoices,
+  rankPollOptions,
+  validatePollCloseTime,
+} from '../groupPolls';
+
+// Thursday 12 June 2025, 8 PM local time
+const NOW = new Date(2025, 5, 12, 20, 0);
+
+const minutesFromNow = (minutes: number) => new Date(NOW.getTime() + minutes * 60 * 1000);
+
+describe('groupPolls', () => {
+  it('should tell open polls from ones waiting to be closed', () => {
+    expect(getGroupPollStatus({ closes_at: minutesFromNow(10).toISOString(), closed_at: null }, NOW)).toBe('open');
+    expect(getGroupPollStatus({ closes_at: minutesFromNow(-1).toISOString(), closed_at: null }, NOW)).toBe('due');
+    expect(
+      getGroupPollStatus(
+        { closes_at: minutesFromNow(-1).toISOString(), closed_at: minutesFromNow(-1).toISOString() },
+        NOW
+      )
+    ).toBe('closed');
+  });
+
+  describe('validatePollCloseTime', () => {
+    const group = { date: '2025-06-13', time: '21:30' };
+
+    it('should accept a close time before the group meets', () => {
+      expect(validatePollCloseTime(minutesFromNow(60), group, NOW)).toBeNull();
+    });
+
+    it('should give people time to vote', () => {
+      expect(validatePollCloseTime(minutesFromNow(5), group, NOW)).toBe(
+        'Give people at least 15 minutes to vote.'
+      );
+      expect(validatePollCloseTime(minutesFromNow(73 * 60), { date: '2025-06-20', time: '21:30' }, NOW)).toBe(
+        'Votes can run for up to 72 hours.'
+      );
+    });
+
+    it('should close before the group meets', () => {
+      expect(validatePollCloseTime(new Date(2025, 5, 13, 22, 0), group, NOW)).toBe(
+        'Close the vote before the group meets.'
+      );
+    });
+  });
+
+  describe('getPollCloseChoices', () => {
+    it('should offer closing an hour before a group that meets later', () => {
+      expect(getPollCloseChoices({ date: '2025-06-13', time: '21:30' }, NOW).map((c) => c.label)).toEqual([
+        'In 30 minutes',
+        'In 1 hour',
+        'In 3 hours',
+        'An hour before you meet',
+      ]);
+    });
+
+    it('should only offer times before the group meets', () => {
+      const choices = getPollCloseChoices({ date: '2025-06-12', time: '20:45' }, NOW);
+      expect(choices).toEqual([{ label: 'In 30 minutes', closesAt: minutesFromNow(30) }]);
+      expect(getPollCloseChoices({ date: '2025-06-12', time: '20:10' }, NOW)).toEqual([]);
+    });
+  });
+
+  it('should rank options by votes, then by who was nominated first', () => {
+    const option = (id: string, voteCount: number, minute: number) => ({
+      id,
+      vote_count: voteCount,
+      created_at: new Date(2025, 5, 12, 19, minute).toISOString(),
+    });
+
+    const ranked = rankPollOptions([option('a', 1, 0), option('b', 3, 5), option('c', 3, 2), option('d', 0, 1)]);
+
+    expect(ranked.map((o) => o.id)).toEqual(['c', 'b', 'a', 'd']);
+  });
+
+  it('should describe when a poll closes relative to now', () => {
+    expect(formatPollCloseTime(minutesFromNow(25).toISOString(), NOW)).toBe('Closes in 25 min');
+    expect(formatPollCloseTime(new Date(2025, 5, 12, 21, 30).toISOString(), NOW)).toBe('Closes at 9:30 PM');
+    expect(formatPollCloseTime(new Date(2025, 5, 13, 18, 0).toISOString(), NOW)).toBe('Closes tomorrow at 6 PM');
+    expect(formatPollCloseTime(new Date(2025, 5, 14, 21, 0).toISOString(), NOW)).toBe('Closes Sat 14 Jun at 9 PM');
+    expect(formatPollCloseTime(minutesFromNow(-5).toISOString(), NOW)).toBe('Voting has closed');
+  });
+});
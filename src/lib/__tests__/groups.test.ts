@@ -0,0 +1,146 @@
+import {
+  formatGroupTime,
+  getGroupInviteLink,
+  getGroupJoinStatus,
+  getGroupMemberActions,
+  getGroupSpotsLeft,
+  getGroupStartTime,
+  getUpcomingGroupDates,
+  parseGroupInviteCode,
+  validateGroupInput,
+} from '../groups';
+import { PartyGroupInput } from '../types';
+
+// Thursday 12 June 2025, 8 PM local time
+const NOW = new Date(2025, 5, 12, 20, 0);
+
+const groupInput = (overrides: Partial<PartyGroupInput> = {}): PartyGroupInput => ({
+  name: 'Friday Night Pre-game',
+  date: '2025-06-13',
+  time: '21:30',
+  max_size: 8,
+  ...overrides,
+});
+
+describe('groups', () => {
+  describe('getGroupStartTime', () => {
+    it('should read the date and time in local time', () => {
+      expect(getGroupStartTime({ date: '2025-06-13', time: '21:30:00' })).toEqual(
+        new Date(2025, 5, 13, 21, 30)
+      );
+    });
+
+    it('should reject dates and times that do not exist', () => {
+      expect(getGroupStartTime({ date: '2025-02-30', time: '21:30' })).toBeNull();
+      expect(getGroupStartTime({ date: '2025-06-13', time: '25:00' })).toBeNull();
+      expect(getGroupStartTime({ date: '13/06/2025', time: '21:30' })).toBeNull();
+    });
+  });
+
+  it('should offer dates starting today', () => {
+    expect(getUpcomingGroupDates(NOW, 3)).toEqual(['2025-06-12', '2025-06-13', '2025-06-14']);
+  });
+
+  it('should describe when a group meets relative to now', () => {
+    expect(formatGroupTime({ date: '2025-06-12', time: '22:00:00' }, NOW)).toBe('Tonight at 10 PM');
+    expect(formatGroupTime({ date: '2025-06-13', time: '21:30' }, NOW)).toBe('Tomorrow at 9:30 PM');
+    expect(formatGroupTime({ date: '2025-06-14', time: '23:00' }, NOW)).toBe('Sat 14 Jun at 11 PM');
+  });
+
+  it('should count the spots left', () => {
+    expect(getGroupSpotsLeft({ max_size: 8, member_count: 3 })).toBe(5);
+    expect(getGroupSpotsLeft({ max_size: 4, member_count: 5 })).toBe(0);
+  });
+
+  describe('validateGroupInput', () => {
+    it('should accept a valid group', () => {
+      expect(validateGroupInput(groupInput(), { now: NOW })).toBeNull();
+    });
+
+    it('should require a name of at most 60 characters', () => {
+      expect(validateGroupInput(groupInput({ name: '   ' }), { now: NOW })).toBe(
+        'Give your group a name.'
+      );
+      expect(validateGroupInput(groupInput({ name: 'x'.repeat(61) }), { now: NOW })).toMatch(
+        /up to 60 characters/
+      );
+    });
+
+    it('should reject unreadable and past times', () => {
+      expect(validateGroupInput(groupInput({ time: '9pm' }), { now: NOW })).toMatch(/like 21:30/);
+      expect(validateGroupInput(groupInput({ date: '2025-06-12', time: '19:00' }), { now: NOW })).toMatch(
+        /hasn't passed/
+      );
+      expect(
+        validateGroupInput(groupInput({ date: '2025-06-12', time: '19:00' }), { allowPast: true, now: NOW })
+      ).toBeNull();
+    });
+
+    it('should keep the size within GROUP_CONFIG', () => {
+      expect(validateGroupInput(groupInput({ max_size: 1 }), { now: NOW })).toBe(
+        'Groups can have 2 to 20 people.'
+      );
+      expect(validateGroupInput(groupInput({ max_size: 21 }), { now: NOW })).toBe(
+        'Groups can have 2 to 20 people.'
+      );
+      expect(validateGroupInput(groupInput({ max_size: 2.5 }), { now: NOW })).toBe(
+        'Groups can have 2 to 20 people.'
+      );
+    });
+
+    it('should not shrink a group below the people already in it', () => {
+      expect(validateGroupInput(groupInput({ max_size: 4 }), { memberCount: 6, now: NOW })).toMatch(
+        /6 people have already joined/
+      );
+      expect(validateGroupInput(groupInput({ max_size: 6 }), { memberCount: 6, now: NOW })).toBeNull();
+    });
+  });
+
+  describe('getGroupJoinStatus', () => {
+    const group = {
+      is_member: false,
+      has_requested: false,
+      is_public: true,
+      max_size: 8,
+      member_count: 3,
+    };
+
+    it('should let people ask to join public groups with room', () => {
+      expect(getGroupJoinStatus(group)).toBe('can_request');
+      expect(getGroupJoinStatus({ ...group, is_public: false })).toBe('invite_only');
+      expect(getGroupJoinStatus({ ...group, member_count: 8 })).toBe('full');
+    });
+
+    it('should show members and pending requests as they are', () => {
+      expect(getGroupJoinStatus({ ...group, is_member: true, member_count: 8 })).toBe('member');
+      expect(getGroupJoinStatus({ ...group, has_requested: true })).toBe('requested');
+    });
+  });
+
+  it('should let admins manage members and only the creator manage admins', () => {
+    expect(getGroupMemberActions('admin', 'member')).toEqual(['promote', 'remove']);
+    expect(getGroupMemberActions('creator', 'admin')).toEqual(['demote', 'remove']);
+    expect(getGroupMemberActions('admin', 'admin')).toEqual([]);
+    expect(getGroupMemberActions('member', 'member')).toEqual([]);
+    expect(getGroupMemberActions(null, 'member')).toEqual([]);
+    expect(getGroupMemberActions('creator', 'creator')).toEqual([]);
+  });
+
+  describe('invite codes', () => {
+    it('should read codes and invite links', () => {
+      expect(parseGroupInviteCode(' 3f9a0c1b ')).toBe('3F9A0C1B');
+      expect(parseGroupInviteCode('https://buzzvar.app/groups/join/3F9A0C1B')).toBe('3F9A0C1B');
+      expect(parseGroupInviteCode('buzzvar://groups/join/3f9a0c1b/')).toBe('3F9A0C1B');
+    });
+
+    it('should reject anything else', () => {
+      expect(parseGroupInviteCode('3F9A0C1')).toBeNull();
+      expect(parseGroupInviteCode('ZZZZZZZZ')).toBeNull();
+      expect(parseGroupInviteCode('https://buzzvar.app/groups/join/3F9A0C1B00')).toBeNull();
+    });
+
+    it('should link to the invite screen', () => {
+      expect(getGroupInviteLink('3F9A0C1B')).toBe('https://buzzvar.app/groups/join/3F9A0C1B');
+    });
+  });
+});
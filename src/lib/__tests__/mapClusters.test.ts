@@ -0,0 +1,71 @@
+import { clusterMapPoints, getClusterRegion, getRegionRadiusMeters, MapRegion } from '../mapClusters';
+
+// Nairobi CBD, about 11km across
+const REGION: MapRegion = {
+  latitude: -1.2921,
+  longitude: 36.8219,
+  latitudeDelta: 0.1,
+  longitudeDelta: 0.1,
+};
+
+const venue = (id: string, latitude: number | null, longitude: number | null) => ({
+  id,
+  latitude,
+  longitude,
+});
+
+describe('mapClusters', () => {
+  describe('clusterMapPoints', () => {
+    it('should cluster venues that are close together when zoomed out', () => {
+      const clusters = clusterMapPoints(
+        [
+          venue('a', -1.2861, 36.8251),
+          venue('b', -1.2862, 36.8253),
+          venue('c', -1.3201, 36.7801),
+        ],
+        REGION
+      );
+
+      expect(clusters).toHaveLength(2);
+      expect(clusters[0].items.map((item) => item.id)).toEqual(['a', 'b']);
+      expect(clusters[0].id).toMatch(/^cluster:/);
+      expect(clusters[0].latitude).toBeCloseTo(-1.28615, 5);
+      expect(clusters[1]).toMatchObject({ id: 'c', latitude: -1.3201, longitude: 36.7801 });
+    });
+
+    it('should give every venue its own marker when zoomed in', () => {
+      const clusters = clusterMapPoints(
+        [venue('a', -1.2861, 36.8251), venue('b', -1.2862, 36.8253)],
+        { ...REGION, latitudeDelta: 0.005, longitudeDelta: 0.005 }
+      );
+
+      expect(clusters.map((cluster) => cluster.id)).toEqual(['a', 'b']);
+    });
+
+    it('should leave out venues without a location', () => {
+      expect(clusterMapPoints([venue('a', null, null)], REGION)).toEqual([]);
+    });
+  });
+
+  describe('getClusterRegion', () => {
+    it('should zoom in on the venues of a cluster', () => {
+      const [cluster] = clusterMapPoints(
+        [venue('a', -1.2861, 36.8251), venue('b', -1.2901, 36.8291)],
+        REGION
+      );
+
+      const region = getClusterRegion(cluster, REGION);
+
+      expect(region.latitude).toBeCloseTo(-1.2881, 5);
+      expect(region.latitudeDelta).toBeCloseTo(0.006, 5);
+      expect(region.latitudeDelta).toBeLessThan(REGION.latitudeDelta);
+    });
+  });
+
+  describe('getRegionRadiusMeters', () => {
+    it('should reach the corners of the region', () => {
+      // Half of a 0.1 degree square's diagonal, about 7.9km at the equator
+      expect(getRegionRadiusMeters(REGION)).toBeCloseTo(7860, -2);
+    });
+  });
+});
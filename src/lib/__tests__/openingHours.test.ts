@@ -0,0 +1,141 @@
+import {
+  closesIn,
+  describeTodayHours,
+  formatOpeningPeriods,
+  formatOpeningStatus,
+  getPeriodsOn,
+  isOpenNow,
+  opensAt,
+  parseOpeningHours,
+  validateOpeningHours,
+} from '../openingHours';
+
+// Local times; 2025-03-07 is a Friday
+const at = (day: number, hour: number, minute: number = 0) => new Date(2025, 2, day, hour, minute);
+
+// The seeded format: weekdays with 12-hour ranges
+const CLUB = parseOpeningHours(
+  JSON.stringify({
+    monday: 'closed',
+    tuesday: 'closed',
+    wednesday: '9pm-2am',
+    thursday: '9pm-2am',
+    friday: '10pm-4am',
+    saturday: '10pm-4am',
+    sunday: 'closed',
+  })
+)!;
+
+describe('openingHours', () => {
+  describe('parseOpeningHours', () => {
+    it('should parse weekday schedules with 12-hour times', () => {
+      expect(CLUB.weekly.friday).toEqual([{ open: 22 * 60, close: 4 * 60 }]);
+      expect(CLUB.weekly.monday).toEqual([]);
+    });
+
+    it('should parse weekly schedules with several ranges a day and special dates', () => {
+      const hours = parseOpeningHours(
+        JSON.stringify({
+          weekly: { friday: ['17:00-23:00', '23:30 to 04:00'], sunday: '12pm - 6pm, 7pm - 11pm' },
+          exceptions: { '2025-12-25': 'closed', '2025-12-31': '24 hours' },
+        })
+      );
+
+      expect(hours?.weekly.friday).toEqual([
+        { open: 17 * 60, close: 23 * 60 },
+        { open: 23 * 60 + 30, close: 4 * 60 },
+      ]);
+      expect(hours?.weekly.sunday).toHaveLength(2);
+      expect(hours?.weekly.monday).toEqual([]);
+      expect(hours?.exceptions).toEqual({
+        '2025-12-25': [],
+        '2025-12-31': [{ open: 0, close: 0 }],
+      });
+    });
+
+    it('should be null for free text and invalid schedules', () => {
+      expect(parseOpeningHours(null)).toBeNull();
+      expect(parseOpeningHours('Open late, call ahead')).toBeNull();
+      expect(parseOpeningHours(JSON.stringify({ friday: '25pm-2am' }))).toBeNull();
+    });
+  });
+
+  describe('validateOpeningHours', () => {
+    it('should describe what is wrong with a schedule', () => {
+      expect(validateOpeningHours({ friday: '9pm-2am' })).toBeNull();
+      expect(validateOpeningHours({ funday: '9pm-2am' })).toBe('Unknown day "funday"');
+      expect(validateOpeningHours({ friday: 'late' })).toBe('Invalid hours for Friday');
+      expect(validateOpeningHours({ weekly: {}, exceptions: { '25/12/2025': 'closed' } })).toMatch(
+        /YYYY-MM-DD/
+      );
+    });
+  });
+
+  describe('isOpenNow', () => {
+    it('should follow overnight hours past midnight', () => {
+      expect(isOpenNow(CLUB, at(7, 21, 59))).toBe(false);
+      expect(isOpenNow(CLUB, at(7, 23))).toBe(true);
+      // Saturday 3am is still Friday night
+      expect(isOpenNow(CLUB, at(8, 3, 30))).toBe(true);
+      expect(isOpenNow(CLUB, at(8, 4))).toBe(false);
+      // Monday 1am is the end of Sunday, which is closed
+      expect(isOpenNow(CLUB, at(10, 1))).toBe(false);
+    });
+
+    it('should use special dates instead of the weekly hours', () => {
+      const hours = parseOpeningHours(
+        JSON.stringify({ weekly: { friday: '10pm-4am' }, exceptions: { '2025-03-07': 'closed' } })
+      )!;
+
+      expect(getPeriodsOn(hours, at(7, 12))).toEqual([]);
+      expect(isOpenNow(hours, at(7, 23))).toBe(false);
+    });
+
+    it('should be false without a schedule', () => {
+      expect(isOpenNow(null)).toBe(false);
+    });
+  });
+
+  describe('closesIn and opensAt', () => {
+    it('should count down to closing across midnight', () => {
+      expect(closesIn(CLUB, at(7, 23))).toBe(5 * 60);
+      expect(closesIn(CLUB, at(8, 12))).toBeNull();
+    });
+
+    it('should treat back-to-back periods as one opening', () => {
+      const hours = parseOpeningHours(JSON.stringify({ friday: '6pm-12am', saturday: '12am-3am' }))!;
+
+      expect(closesIn(hours, at(7, 23))).toBe(4 * 60);
+    });
+
+    it('should find the next opening, skipping closed days', () => {
+      expect(opensAt(CLUB, at(8, 12))).toEqual(at(8, 22));
+      expect(opensAt(CLUB, at(9, 12))).toEqual(at(12, 21));
+      expect(opensAt(CLUB, at(7, 23))).toBeNull();
+    });
+  });
+
+  describe('formatting', () => {
+    it('should describe the current status', () => {
+      expect(formatOpeningStatus(CLUB, at(7, 23))).toBe('Open until 4 AM');
+      expect(formatOpeningStatus(CLUB, at(8, 3, 35))).toBe('Closes in 25 min');
+      expect(formatOpeningStatus(CLUB, at(8, 12))).toBe('Closed · opens 10 PM');
+      expect(formatOpeningStatus(CLUB, at(9, 12))).toBe('Closed · opens Wed 9 PM');
+    });
+
+    it('should describe a day of hours', () => {
+      expect(formatOpeningPeriods([{ open: 21 * 60 + 30, close: 2 * 60 }])).toBe('9:30 PM – 2 AM');
+      expect(formatOpeningPeriods([{ open: 0, close: 0 }])).toBe('Open 24 hours');
+      expect(formatOpeningPeriods([])).toBe('Closed');
+    });
+
+    it("should describe today's hours, or show free text as it is", () => {
+      expect(describeTodayHours(JSON.stringify({ friday: '10pm-4am' }), at(7, 12))).toBe(
+        'Today: 10 PM – 4 AM'
+      );
+      expect(describeTodayHours(JSON.stringify({ friday: '10pm-4am' }), at(8, 12))).toBe('Today: Closed');
+      expect(describeTodayHours('Open late, call ahead')).toBe('Open late, call ahead');
+      expect(describeTodayHours(null)).toBe('Hours not available');
+    });
+  });
+});
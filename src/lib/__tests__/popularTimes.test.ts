@@ -0,0 +1,104 @@
+import {
+  compareWithForecast,
+  formatPopularTimesHour,
+  getForecastForTime,
+  getPopularTimesForDay,
+  toLocalPopularTimes,
+} from '../popularTimes';
+import { estimateBusyness } from '../busynessEstimate';
+import { BusynessEstimate, PopularTimesHour } from '../types';
+
+// Offset reported by Date.getTimezoneOffset() in Nairobi (UTC+3)
+const NAIROBI_OFFSET = -180;
+
+const liveEstimate = (busyness: number, confidence_level: BusynessEstimate['confidence_level'] = 'high'): BusynessEstimate => ({
+  ...estimateBusyness([]),
+  busyness,
+  confidence_level,
+  report_count: 4,
+});
+
+const forecastHour = (average_busyness: number | null, sample_count = 10): PopularTimesHour => ({
+  day_of_week: 5,
+  hour: 22,
+  average_busyness,
+  sample_count,
+});
+
+describe('popularTimes', () => {
+  describe('toLocalPopularTimes', () => {
+    it('should return a full week of hours', () => {
+      const week = toLocalPopularTimes([], NAIROBI_OFFSET);
+
+      expect(week).toHaveLength(168);
+      expect(week[0]).toEqual({ day_of_week: 0, hour: 0, average_busyness: null, sample_count: 0 });
+      expect(week[167]).toEqual({ day_of_week: 6, hour: 23, average_busyness: null, sample_count: 0 });
+    });
+
+    it('should shift UTC buckets into local time', () => {
+      const week = toLocalPopularTimes(
+        [{ day_of_week: 5, hour: 19, average_busyness: '4.25', sample_count: '12' }],
+        NAIROBI_OFFSET
+      );
+
+      expect(getForecastForTime(week, new Date(2025, 2, 14, 22, 30))).toEqual({
+        day_of_week: 5,
+        hour: 22,
+        average_busyness: 4.25,
+        sample_count: 12,
+      });
+    });
+
+    it('should wrap hours across the end of the week', () => {
+      const week = toLocalPopularTimes(
+        [{ day_of_week: 6, hour: 22, average_busyness: 5, sample_count: 3 }],
+        NAIROBI_OFFSET
+      );
+
+      // Saturday 22:00 UTC is Sunday 01:00 in Nairobi
+      expect(week[1]).toEqual({ day_of_week: 0, hour: 1, average_busyness: 5, sample_count: 3 });
+    });
+  });
+
+  describe('getPopularTimesForDay', () => {
+    it('should return the 24 hours of a day in order', () => {
+      const friday = getPopularTimesForDay(toLocalPopularTimes([], 0), 5);
+
+      expect(friday).toHaveLength(24);
+      expect(friday.map(hour => hour.hour)).toEqual(Array.from({ length: 24 }, (_, hour) => hour));
+    });
+  });
+
+  describe('compareWithForecast', () => {
+    it('should flag a venue busier than usual', () => {
+      expect(compareWithForecast(liveEstimate(4.5), forecastHour(3))).toBe('busier');
+    });
+
+    it('should flag a venue quieter than usual', () => {
+      expect(compareWithForecast(liveEstimate(2), forecastHour(3.5))).toBe('quieter');
+    });
+
+    it('should treat small differences as usual', () => {
+      expect(compareWithForecast(liveEstimate(3.5), forecastHour(3))).toBe('usual');
+    });
+
+    it('should not compare a low confidence estimate', () => {
+      expect(compareWithForecast(liveEstimate(5, 'low'), forecastHour(2))).toBeNull();
+    });
+
+    it('should not compare against a thin forecast', () => {
+      expect(compareWithForecast(liveEstimate(5), forecastHour(2, 1))).toBeNull();
+      expect(compareWithForecast(liveEstimate(5), forecastHour(null, 0))).toBeNull();
+      expect(compareWithForecast(liveEstimate(5), null)).toBeNull();
+    });
+  });
+
+  describe('formatPopularTimesHour', () => {
+    it('should format hours for the chart axis', () => {
+      expect(formatPopularTimesHour(0)).toBe('12a');
+      expect(formatPopularTimesHour(6)).toBe('6a');
+      expect(formatPopularTimesHour(12)).toBe('12p');
+      expect(formatPopularTimesHour(21)).toBe('9p');
+    });
+  });
+});
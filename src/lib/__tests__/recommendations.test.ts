@@ -0,0 +1,158 @@
+import {
+  buildVenueAffinity,
+  getCoVisitSimilarity,
+  getEngagedVenueIds,
+  getSignalWeight,
+  pickRecommendedVenueIds,
+  pickSeedVenues,
+  rankForYou,
+  scoreVenues,
+} from '../recommendations';
+import { VenueCoVisit, VenueInteractionSignal } from '../types';
+
+const NOW = new Date('2025-04-30T20:00:00Z');
+
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const signal = (
+  venueId: string,
+  kind: VenueInteractionSignal['kind'],
+  ageDays: number = 0,
+  rating?: number
+): VenueInteractionSignal => ({ venue_id: venueId, kind, occurred_at: daysAgo(ageDays), rating });
+
+const coVisit = (
+  venueId: string,
+  relatedVenueId: string,
+  sharedUsers: number,
+  venueUsers: number,
+  relatedUsers: number
+): VenueCoVisit => ({
+  venue_id: venueId,
+  related_venue_id: relatedVenueId,
+  shared_users: sharedUsers,
+  venue_users: venueUsers,
+  related_users: relatedUsers,
+});
+
+describe('recommendations', () => {
+  describe('getSignalWeight', () => {
+    it('should weigh stronger interactions more', () => {
+      expect(getSignalWeight(signal('a', 'view'))).toBeLessThan(getSignalWeight(signal('a', 'like')));
+      expect(getSignalWeight(signal('a', 'like'))).toBeLessThan(getSignalWeight(signal('a', 'bookmark')));
+    });
+
+    it('should count reviews below 3 stars against the venue', () => {
+      expect(getSignalWeight(signal('a', 'review', 0, 5))).toBe(3);
+      expect(getSignalWeight(signal('a', 'review', 0, 3))).toBe(0);
+      expect(getSignalWeight(signal('a', 'review', 0, 1))).toBe(-3);
+    });
+  });
+
+  describe('buildVenueAffinity', () => {
+    it('should add up the signals for each venue', () => {
+      const affinity = buildVenueAffinity(
+        [signal('a', 'view'), signal('a', 'bookmark'), signal('b', 'like')],
+        NOW
+      );
+
+      expect(affinity.get('a')).toBeCloseTo(5);
+      expect(affinity.get('b')).toBeCloseTo(3);
+    });
+
+    it('should halve a signal every 30 days', () => {
+      const affinity = buildVenueAffinity([signal('a', 'bookmark', 30), signal('b', 'bookmark', 60)], NOW);
+
+      expect(affinity.get('a')).toBeCloseTo(2);
+      expect(affinity.get('b')).toBeCloseTo(1);
+    });
+
+    it('should leave out signals without a valid time', () => {
+      const affinity = buildVenueAffinity([{ venue_id: 'a', kind: 'like', occurred_at: 'not a date' }], NOW);
+
+      expect(affinity.has('a')).toBe(false);
+    });
+  });
+
+  it('should only treat more than a view as engaging with a venue', () => {
+    const engaged = getEngagedVenueIds([signal('a', 'view'), signal('b', 'vibe_check'), signal('c', 'review', 0, 2)]);
+
+    expect(Array.from(engaged).sort()).toEqual(['b', 'c']);
+  });
+
+  it('should seed with the best liked venues only', () => {
+    const affinity = new Map([
+      ['a', 2],
+      ['b', 5],
+      ['c', -3],
+      ['d', 4],
+    ]);
+
+    expect(pickSeedVenues(affinity, 2)).toEqual(['b', 'd']);
+    expect(pickSeedVenues(affinity)).toEqual(['b', 'd', 'a']);
+  });
+
+  describe('getCoVisitSimilarity', () => {
+    it('should be the cosine similarity of the two venues', () => {
+      expect(getCoVisitSimilarity(coVisit('a', 'b', 2, 4, 4))).toBeCloseTo(0.5);
+      expect(getCoVisitSimilarity(coVisit('a', 'b', 3, 3, 3))).toBeCloseTo(1);
+    });
+
+    it('should be 0 without people', () => {
+      expect(getCoVisitSimilarity(coVisit('a', 'b', 0, 0, 4))).toBe(0);
+    });
+  });
+
+  describe('scoreVenues', () => {
+    it('should favour venues similar to the most liked venues', () => {
+      const affinity = new Map([
+        ['liked-a-lot', 4],
+        ['liked-a-little', 1],
+      ]);
+      const scores = scoreVenues(affinity, [
+        coVisit('liked-a-lot', 'x', 2, 4, 4),
+        coVisit('liked-a-little', 'y', 2, 4, 4),
+        coVisit('liked-a-little', 'x', 1, 4, 4),
+      ]);
+
+      expect(scores.get('x')).toBeCloseTo(2.25);
+      expect(scores.get('y')).toBeCloseTo(0.5);
+    });
+
+    it('should not recommend from venues the user dislikes and keep those down', () => {
+      const affinity = new Map([
+        ['liked', 2],
+        ['disliked', -3],
+      ]);
+      const scores = scoreVenues(affinity, [
+        coVisit('disliked', 'x', 4, 4, 4),
+        coVisit('liked', 'disliked', 4, 4, 4),
+      ]);
+
+      expect(scores.has('x')).toBe(false);
+      expect(scores.get('disliked')).toBeCloseTo(-1);
+    });
+  });
+
+  it('should rank the best scored venues first and keep the order of ties', () => {
+    const venues = [{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }];
+    const scores = new Map([
+      ['c', 2],
+      ['d', -1],
+    ]);
+
+    expect(rankForYou(venues, scores).map((venue) => venue.id)).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('should recommend positively scored venues the user has not engaged with', () => {
+    const scores = new Map([
+      ['a', 3],
+      ['b', 5],
+      ['c', 1],
+      ['d', -1],
+    ]);
+
+    expect(pickRecommendedVenueIds(scores, new Set(['b']), 5)).toEqual(['a', 'c']);
+    expect(pickRecommendedVenueIds(scores, new Set(), 2)).toEqual(['b', 'a']);
+  });
+});
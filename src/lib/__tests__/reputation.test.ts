@@ -0,0 +1,31 @@
+import {
+  DEFAULT_REPUTATION_SCORE,
+  getReputationWeight,
+  isTrustedContributor,
+} from '../reputation';
+
+describe('reputation', () => {
+  describe('getReputationWeight', () => {
+    it('should scale the weight with the reputation score', () => {
+      expect(getReputationWeight(100)).toBe(1);
+      expect(getReputationWeight(60)).toBeCloseTo(0.6);
+    });
+
+    it('should use the default score when the reputation is unknown', () => {
+      expect(getReputationWeight(undefined)).toBe(getReputationWeight(DEFAULT_REPUTATION_SCORE));
+      expect(getReputationWeight(null)).toBe(0.5);
+    });
+
+    it('should never drop below the minimum weight', () => {
+      expect(getReputationWeight(0)).toBe(0.1);
+    });
+  });
+
+  describe('isTrustedContributor', () => {
+    it('should only trust scores at or above the threshold', () => {
+      expect(isTrustedContributor(75)).toBe(true);
+      expect(isTrustedContributor(74.99)).toBe(false);
+      expect(isTrustedContributor(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  describeTrending,
+  describeTrendingSignal,
+  getTrendingReasons,
+  getTrendingSignalCounts,
+} from '../trending';
+import { TrendingVenue } from '../types';
+
+const trendingVenue = (overrides: Partial<TrendingVenue> = {}): TrendingVenue =>
+  ({
+    id: 'venue-1',
+    name: 'The Sky Lounge',
+    trending_score: 12.5,
+    recent_vibe_checks: 8,
+    expected_vibe_checks: 2,
+    recent_views: 30,
+    expected_views: 10.4,
+    recent_bookmarks: 6,
+    expected_bookmarks: 0.2,
+    rising_signals: ['vibe_checks', 'bookmarks'],
+    ...overrides,
+  }) as TrendingVenue;
+
+describe('trending', () => {
+  it('should read the counts of each signal', () => {
+    const venue = trendingVenue();
+
+    expect(getTrendingSignalCounts(venue, 'vibe_checks')).toEqual({ recent: 8, expected: 2 });
+    expect(getTrendingSignalCounts(venue, 'views')).toEqual({ recent: 30, expected: 10.4 });
+    expect(getTrendingSignalCounts(venue, 'bookmarks')).toEqual({ recent: 6, expected: 0.2 });
+  });
+
+  describe('describeTrendingSignal', () => {
+    it('should compare with the usual count', () => {
+      expect(describeTrendingSignal(trendingVenue(), 'vibe_checks')).toBe('4× the usual vibe checks');
+      expect(describeTrendingSignal(trendingVenue(), 'views')).toBe('2× the usual views');
+    });
+
+    it('should show the count when the venue usually sees next to none', () => {
+      expect(describeTrendingSignal(trendingVenue(), 'bookmarks')).toBe('6 saves in the last hour');
+      expect(describeTrendingSignal(trendingVenue(), 'bookmarks', 30)).toBe('6 saves in the last 30 min');
+      expect(describeTrendingSignal(trendingVenue(), 'bookmarks', 120)).toBe('6 saves in the last 2 hours');
+    });
+  });
+
+  it('should give a reason for each rising signal in order', () => {
+    expect(getTrendingReasons(trendingVenue())).toEqual([
+      '4× the usual vibe checks',
+      '6 saves in the last hour',
+    ]);
+  });
+
+  it('should fall back to a general reason without a rising signal', () => {
+    expect(describeTrending(trendingVenue())).toBe('4× the usual vibe checks');
+    expect(describeTrending(trendingVenue({ rising_signals: [] }))).toBe('Busier than usual');
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  canCompareVenues,
+  getBestVenueIds,
+  getComparePath,
+  getDirectionsUrl,
+  getVibeCheckPhoto,
+  parseCompareIds,
+  toggleCompareSelection,
+} from '../venueCompare';
+
+const VENUE_IDS = [
+  '3f2b8c1e-9d4a-4b7e-8f61-2a5c9e0d7b14',
+  '8a1d0c55-2e7f-4b3a-9c6d-1f0e2b3a4c5d',
+  'c4e5f6a7-b8c9-4d0e-8f1a-2b3c4d5e6f70',
+  '0b1c2d3e-4f5a-4b6c-9d7e-8f9a0b1c2d3e',
+  'f0e1d2c3-b4a5-4968-8776-655443322110',
+];
+
+describe('venueCompare', () => {
+  describe('toggleCompareSelection', () => {
+    it('should add and remove venues in the order they were picked', () => {
+      const picked = toggleCompareSelection(toggleCompareSelection([], 'b'), 'a');
+      expect(picked).toEqual(['b', 'a']);
+      expect(toggleCompareSelection(picked, 'b')).toEqual(['a']);
+    });
+
+    it('should not add past the maximum', () => {
+      const full = ['a', 'b', 'c', 'd'];
+      expect(toggleCompareSelection(full, 'e')).toBe(full);
+      expect(toggleCompareSelection(full, 'a')).toEqual(['b', 'c', 'd']);
+    });
+  });
+
+  it('should compare two to four venues', () => {
+    expect(canCompareVenues(['a'])).toBe(false);
+    expect(canCompareVenues(['a', 'b'])).toBe(true);
+    expect(canCompareVenues(['a', 'b', 'c', 'd'])).toBe(true);
+    expect(canCompareVenues(['a', 'b', 'c', 'd', 'e'])).toBe(false);
+  });
+
+  it('should round trip the selection through the route', () => {
+    const path = getComparePath(VENUE_IDS.slice(0, 2));
+
+    expect(path).toBe(`/compare?ids=${VENUE_IDS[0]},${VENUE_IDS[1]}`);
+    expect(parseCompareIds(path.split('=')[1])).toEqual(VENUE_IDS.slice(0, 2));
+  });
+
+  it('should drop invalid, duplicate and extra ids from the route', () => {
+    expect(parseCompareIds(`${VENUE_IDS[0]},nope,${VENUE_IDS[0]}`)).toEqual([VENUE_IDS[0]]);
+    expect(parseCompareIds(VENUE_IDS.join(','))).toEqual(VENUE_IDS.slice(0, 4));
+    expect(parseCompareIds([VENUE_IDS[1], VENUE_IDS[2]])).toEqual(VENUE_IDS.slice(1, 3));
+    expect(parseCompareIds(undefined)).toEqual([]);
+  });
+
+  describe('getVibeCheckPhoto', () => {
+    it('should prefer the first uploaded image', () => {
+      expect(
+        getVibeCheckPhoto({
+          photo_url: 'https://example.com/old.jpg',
+          media: [
+            { type: 'video', url: 'https://example.com/clip.mp4' },
+            { type: 'image', url: 'https://example.com/new.jpg' },
+          ],
+        })
+      ).toBe('https://example.com/new.jpg');
+    });
+
+    it('should fall back to the single photo', () => {
+      expect(getVibeCheckPhoto({ photo_url: 'https://example.com/old.jpg', media: [] })).toBe(
+        'https://example.com/old.jpg'
+      );
+      expect(getVibeCheckPhoto({ photo_url: null, media: [] })).toBeNull();
+      expect(getVibeCheckPhoto(null)).toBeNull();
+    });
+  });
+
+  describe('getBestVenueIds', () => {
+    const venues = [
+      { id: 'a', distance: 1.2, rating: 4.5 },
+      { id: 'b', distance: undefined, rating: 4.5 },
+      { id: 'c', distance: 0.4, rating: 3.9 },
+    ];
+
+    it('should pick the best value, keeping ties', () => {
+      expect(getBestVenueIds(venues, venue => venue.distance, 'lowest')).toEqual(['c']);
+      expect(getBestVenueIds(venues, venue => venue.rating, 'highest')).toEqual(['a', 'b']);
+    });
+
+    it('should not highlight when there is nothing to compare', () => {
+      expect(getBestVenueIds(venues.slice(0, 2), venue => venue.distance, 'lowest')).toEqual([]);
+      expect(getBestVenueIds(venues.slice(0, 2), venue => venue.rating, 'highest')).toEqual([]);
+    });
+  });
+
+  it('should link to directions in the platform maps app', () => {
+    const venue = { latitude: -1.2921, longitude: 36.8219 };
+
+    expect(getDirectionsUrl(venue, 'ios')).toBe('https://maps.apple.com/?daddr=-1.2921,36.8219');
+    expect(getDirectionsUrl(venue, 'android')).toBe(
+      'https://www.google.com/maps/dir/?api=1&destination=-1.2921,36.8219'
+    );
+    expect(getDirectionsUrl({ latitude: null, longitude: null }, 'ios')).toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { getVenueAppLink, getVenuePath, getVenueWebLink, isVenueId } from '../venueLinks';
+
+const VENUE_ID = '3f2b8c1e-9d4a-4b7e-8f61-2a5c9e0d7b14';
+
+describe('venueLinks', () => {
+  describe('isVenueId', () => {
+    it('should accept venue UUIDs in either case', () => {
+      expect(isVenueId(VENUE_ID)).toBe(true);
+      expect(isVenueId(VENUE_ID.toUpperCase())).toBe(true);
+    });
+
+    it('should reject anything else', () => {
+      expect(isVenueId('')).toBe(false);
+      expect(isVenueId('venue-1')).toBe(false);
+      expect(isVenueId(`${VENUE_ID}/reviews`)).toBe(false);
+      expect(isVenueId([VENUE_ID])).toBe(false);
+      expect(isVenueId(undefined)).toBe(false);
+    });
+  });
+
+  it('should build the route, app link and web link of a venue', () => {
+    expect(getVenuePath(VENUE_ID)).toBe(`/venue/${VENUE_ID}`);
+    expect(getVenueAppLink(VENUE_ID)).toBe(`buzzvar://venue/${VENUE_ID}`);
+    expect(getVenueWebLink(VENUE_ID)).toBe(`https://buzzvar.app/venue/${VENUE_ID}`);
+  });
+
+  it('should escape ids that are not safe in a path', () => {
+    expect(getVenuePath('a/b?c')).toBe('/venue/a%2Fb%3Fc');
+  });
+});
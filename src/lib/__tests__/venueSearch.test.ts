@@ -0,0 +1,72 @@
+import {
+  countActiveFilters,
+  hasSearchCriteria,
+  matchesBusynessRange,
+  matchesLiveFilters,
+} from '../venueSearch';
+import { BusynessEstimate } from '../types';
+
+// 2025-03-07 is a Friday
+const FRIDAY_NIGHT = new Date(2025, 2, 7, 23);
+const FRIDAY_NOON = new Date(2025, 2, 7, 12);
+const CLUB_HOURS = JSON.stringify({ friday: '10pm-4am' });
+
+const estimate = (busyness: number | null): BusynessEstimate => ({
+  busyness,
+  confidence: busyness === null ? 0 : 0.8,
+  confidence_level: busyness === null ? 'low' : 'high',
+  report_count: busyness === null ? 0 : 5,
+  latest_report_at: busyness === null ? null : '2025-03-07T22:30:00Z',
+});
+
+const venue = (busyness: number | null, hasLiveActivity: boolean = true, hours: string | null = CLUB_HOURS) => ({
+  hours,
+  busyness_estimate: estimate(busyness),
+  has_live_activity: hasLiveActivity,
+});
+
+describe('venueSearch', () => {
+  describe('matchesBusynessRange', () => {
+    it('should compare the rounded busyness with the range', () => {
+      expect(matchesBusynessRange(venue(3.4), { minBusyness: 3, maxBusyness: 4 })).toBe(true);
+      expect(matchesBusynessRange(venue(4.6), { minBusyness: 3, maxBusyness: 4 })).toBe(false);
+      expect(matchesBusynessRange(venue(2.4), { minBusyness: 3 })).toBe(false);
+      expect(matchesBusynessRange(venue(1.2), { maxBusyness: 2 })).toBe(true);
+    });
+
+    it('should leave out venues without live activity only when busyness is filtered', () => {
+      expect(matchesBusynessRange(venue(null), { minBusyness: 1 })).toBe(false);
+      expect(matchesBusynessRange(venue(4, false), { minBusyness: 1 })).toBe(false);
+      expect(matchesBusynessRange(venue(null), {})).toBe(true);
+    });
+  });
+
+  describe('matchesLiveFilters', () => {
+    it('should keep only venues that are open when open now is on', () => {
+      expect(matchesLiveFilters(venue(3), { openNow: true }, FRIDAY_NIGHT)).toBe(true);
+      expect(matchesLiveFilters(venue(3), { openNow: true }, FRIDAY_NOON)).toBe(false);
+      expect(matchesLiveFilters(venue(3, true, 'Late'), { openNow: true }, FRIDAY_NIGHT)).toBe(false);
+      expect(matchesLiveFilters(venue(3), {}, FRIDAY_NOON)).toBe(true);
+    });
+
+    it('should combine open now with the busyness range', () => {
+      expect(
+        matchesLiveFilters(venue(5), { openNow: true, maxBusyness: 3 }, FRIDAY_NIGHT)
+      ).toBe(false);
+    });
+  });
+
+  describe('countActiveFilters and hasSearchCriteria', () => {
+    it('should count a busyness range as one filter', () => {
+      expect(countActiveFilters({})).toBe(0);
+      expect(countActiveFilters({ minBusyness: 2, maxBusyness: 4, openNow: true })).toBe(2);
+      expect(countActiveFilters({ openNow: false, hasPromotion: true, minRating: 4 })).toBe(2);
+    });
+
+    it('should need search words or a filter', () => {
+      expect(hasSearchCriteria('  ', {})).toBe(false);
+      expect(hasSearchCriteria('rooftop', {})).toBe(true);
+      expect(hasSearchCriteria('', { hasPromotion: true })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Tests for vibe check attribute helpers
+ */
+
+import {
+  summarizeVibeAttributes,
+  formatVibeAttributeSummary,
+  formatQueue,
+  formatCoverCharge,
+  getVibeCheckAttributes,
+  toVibeCheckAttributeColumns,
+} from '../vibeAttributes';
+import { VibeCheck } from '../types';
+
+type AttributeRow = Parameters<typeof summarizeVibeAttributes>[0][number];
+
+const row = (attributes: Partial<VibeCheck> = {}): AttributeRow => ({
+  music_genre: null,
+  queue_length: null,
+  wait_minutes: null,
+  cover_charge: null,
+  crowd_age_range: null,
+  dress_code_rating: null,
+  ...attributes,
+});
+
+describe('vibeAttributes', () => {
+  describe('summarizeVibeAttributes', () => {
+    it('should return an empty summary when nothing was reported', () => {
+      expect(summarizeVibeAttributes([row(), row()])).toEqual({
+        music_genre: null,
+        queue_length: null,
+        wait_minutes: null,
+        cover_charge: null,
+        crowd_age_range: null,
+        dress_code_rating: null,
+        report_count: 0,
+      });
+    });
+
+    it('should use the most reported option and the median of numbers', () => {
+      const summary = summarizeVibeAttributes([
+        row({ music_genre: 'amapiano', wait_minutes: 10, cover_charge: 500 }),
+        row({ music_genre: 'afrobeats', wait_minutes: 30, cover_charge: 1000 }),
+        row({ music_genre: 'afrobeats', wait_minutes: 15, cover_charge: 500 }),
+        row({ dress_code_rating: 2 }),
+        row({ dress_code_rating: 5 }),
+      ]);
+
+      expect(summary.music_genre).toBe('afrobeats');
+      expect(summary.wait_minutes).toBe(15);
+      expect(summary.cover_charge).toBe(500);
+      expect(summary.dress_code_rating).toBe(4); // Rounded from 3.5
+      expect(summary.report_count).toBe(5);
+    });
+
+    it('should prefer the most recent report on ties', () => {
+      const summary = summarizeVibeAttributes([
+        row({ queue_length: 'long' }),
+        row({ queue_length: 'short' }),
+        row({ queue_length: 'short' }),
+        row({ queue_length: 'long' }),
+      ]);
+
+      expect(summary.queue_length).toBe('long');
+    });
+  });
+
+  describe('formatVibeAttributeSummary', () => {
+    it('should format the headline details', () => {
+      const summary = summarizeVibeAttributes([
+        row({ queue_length: 'medium', wait_minutes: 15, music_genre: 'afrobeats', cover_charge: 500 }),
+      ]);
+
+      expect(formatVibeAttributeSummary(summary)).toBe('~15 min queue · Afrobeats · KES 500 cover');
+    });
+
+    it('should return null without any details', () => {
+      expect(formatVibeAttributeSummary(summarizeVibeAttributes([]))).toBeNull();
+    });
+  });
+
+  describe('formatters', () => {
+    it('should format queues', () => {
+      expect(formatQueue('long', null)).toBe('Long queue');
+      expect(formatQueue('long', 45)).toBe('~45 min queue');
+      expect(formatQueue(null, 0)).toBe('No queue');
+      expect(formatQueue(null, null)).toBeNull();
+    });
+
+    it('should format free entry', () => {
+      expect(formatCoverCharge(0)).toBe('Free entry');
+    });
+  });
+
+  describe('column conversion', () => {
+    it('should round trip attributes and clear missing ones', () => {
+      const columns = toVibeCheckAttributeColumns({ music_genre: 'house', cover_charge: 0 });
+
+      expect(columns).toEqual(row({ music_genre: 'house', cover_charge: 0 }));
+      expect(getVibeCheckAttributes(columns)).toEqual({
+        music_genre: 'house',
+        queue_length: undefined,
+        wait_minutes: undefined,
+        cover_charge: 0,
+        crowd_age_range: undefined,
+        dress_code_rating: undefined,
+      });
+    });
+  });
+});
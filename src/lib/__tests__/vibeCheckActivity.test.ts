@@ -0,0 +1,49 @@
+import {
+  activeSinceFilter,
+  getVibeCheckActivityTime,
+  isVibeCheckActiveSince,
+} from '../vibeCheckActivity';
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+describe('vibeCheckActivity', () => {
+  describe('getVibeCheckActivityTime', () => {
+    it('should use the creation time when the vibe check was never confirmed', () => {
+      const createdAt = hoursAgo(3);
+      expect(
+        getVibeCheckActivityTime({ created_at: createdAt.toISOString(), last_confirmed_at: null })
+      ).toEqual(createdAt);
+    });
+
+    it('should use the last confirmation when it is later', () => {
+      const confirmedAt = hoursAgo(1);
+      expect(
+        getVibeCheckActivityTime({
+          created_at: hoursAgo(3).toISOString(),
+          last_confirmed_at: confirmedAt.toISOString(),
+        })
+      ).toEqual(confirmedAt);
+    });
+  });
+
+  describe('isVibeCheckActiveSince', () => {
+    it('should keep a confirmed vibe check live after its creation window', () => {
+      const vibeCheck = {
+        created_at: hoursAgo(3).toISOString(),
+        last_confirmed_at: hoursAgo(0.5).toISOString(),
+      };
+
+      expect(isVibeCheckActiveSince(vibeCheck, hoursAgo(2))).toBe(true);
+      expect(isVibeCheckActiveSince({ ...vibeCheck, last_confirmed_at: null }, hoursAgo(2))).toBe(false);
+    });
+  });
+
+  describe('activeSinceFilter', () => {
+    it('should match either the creation or the confirmation time', () => {
+      const since = new Date('2025-02-19T20:00:00.000Z');
+      expect(activeSinceFilter(since)).toBe(
+        'created_at.gte.2025-02-19T20:00:00.000Z,last_confirmed_at.gte.2025-02-19T20:00:00.000Z'
+      );
+    });
+  });
+});
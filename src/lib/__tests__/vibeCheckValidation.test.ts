@@ -11,11 +11,13 @@ describe('VibeCheckValidator', () => {
     venue_id: 'venue-123',
     busyness_rating: 4,
     comment: 'Great atmosphere!',
-    photo: {
-      uri: 'file://photo.jpg',
-      type: 'image/jpeg',
-      name: 'photo.jpg',
-    },
+    media: [
+      {
+        uri: 'file://photo.jpg',
+        type: 'image/jpeg',
+        name: 'photo.jpg',
+      },
+    ],
   };
 
   const validLocationVerification: LocationVerification = {
@@ -52,11 +54,13 @@ describe('VibeCheckValidator', () => {
         venue_id: '',
         busyness_rating: 6 as BusynessRating,
         comment: 'a'.repeat(281), // Too long
-        photo: {
-          uri: '',
-          type: 'image/gif', // Unsupported
-          name: '',
-        },
+        media: [
+          {
+            uri: '',
+            type: 'image/gif', // Unsupported
+            name: '',
+          },
+        ],
       };
 
       const invalidLocation: LocationVerification = {
@@ -78,6 +82,7 @@ describe('VibeCheckValidator', () => {
       expect(errorFields).toContain('venue_id');
       expect(errorFields).toContain('busyness_rating');
       expect(errorFields).toContain('comment');
+      expect(errorFields).toContain('media[0].uri');
       expect(errorFields).toContain('location');
     });
   });
@@ -140,6 +145,77 @@ describe('VibeCheckValidator', () => {
     });
   });
 
+  describe('validateAttributes', () => {
+    it('should accept empty attributes', () => {
+      const result = VibeCheckValidator.validateAttributes({});
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should accept valid attributes', () => {
+      const result = VibeCheckValidator.validateAttributes({
+        music_genre: 'afrobeats',
+        queue_length: 'medium',
+        wait_minutes: 15,
+        cover_charge: 500,
+        crowd_age_range: '25-34',
+        dress_code_rating: 3,
+      });
+      expect(result.isValid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should reject unknown options', () => {
+      const result = VibeCheckValidator.validateAttributes({
+        music_genre: 'polka' as any,
+        queue_length: 'endless' as any,
+        crowd_age_range: '12-17' as any,
+        dress_code_rating: 6 as any,
+      });
+      expect(result.errors.map(e => e.code)).toEqual([
+        'MUSIC_GENRE_INVALID',
+        'QUEUE_LENGTH_INVALID',
+        'CROWD_AGE_RANGE_INVALID',
+        'DRESS_CODE_RATING_OUT_OF_RANGE',
+      ]);
+    });
+
+    it('should reject out of range wait times and cover charges', () => {
+      const invalidValues = [-5, 2.5, 100001];
+
+      for (const value of invalidValues) {
+        const result = VibeCheckValidator.validateAttributes({
+          wait_minutes: value,
+          cover_charge: value,
+        });
+        expect(result.errors.map(e => e.code)).toContain('COVER_CHARGE_OUT_OF_RANGE');
+        expect(result.errors.map(e => e.code)).toContain('WAIT_MINUTES_OUT_OF_RANGE');
+      }
+    });
+
+    it('should accept free entry', () => {
+      const result = VibeCheckValidator.validateAttributes({ cover_charge: 0 });
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject a wait time when there is no queue', () => {
+      const result = VibeCheckValidator.validateAttributes({
+        queue_length: 'none',
+        wait_minutes: 10,
+      });
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].code).toBe('WAIT_MINUTES_WITHOUT_QUEUE');
+    });
+
+    it('should be checked as part of the form', () => {
+      const result = VibeCheckValidator.validateVibeCheckForm(
+        { ...validFormData, cover_charge: -1 },
+        validLocationVerification
+      );
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].field).toBe('cover_charge');
+    });
+  });
+
   describe('validateComment', () => {
     it('should accept valid comments', () => {
       const validComments = [
@@ -216,7 +292,7 @@ describe('VibeCheckValidator', () => {
     });
 
     it('should reject photos with unsupported types', () => {
-      const unsupportedTypes = ['image/gif', 'image/bmp', 'video/mp4', 'text/plain'];
+      const unsupportedTypes = ['image/gif', 'image/bmp', 'video/webm', 'text/plain'];
       
       for (const type of unsupportedTypes) {
         const photo = { uri: 'file://photo.ext', type, name: 'photo.ext' };
@@ -234,6 +310,61 @@ describe('VibeCheckValidator', () => {
       expect(result.isValid).toBe(false);
       expect(result.errors[0].code).toBe('PHOTO_NAME_REQUIRED');
     });
+
+    it('should accept short video clips', () => {
+      const clips = [
+        { uri: 'file://clip.mp4', type: 'video/mp4', name: 'clip.mp4', duration_seconds: 15 },
+        { uri: 'file://clip.mov', type: 'video/quicktime', name: 'clip.mov' },
+      ];
+
+      for (const clip of clips) {
+        expect(VibeCheckValidator.validatePhoto(clip).isValid).toBe(true);
+      }
+    });
+
+    it('should reject videos that are too long', () => {
+      const clip = { uri: 'file://clip.mp4', type: 'video/mp4', name: 'clip.mp4', duration_seconds: 15.5 };
+      const result = VibeCheckValidator.validatePhoto(clip);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].code).toBe('VIDEO_TOO_LONG');
+    });
+
+    it('should reject videos that are too large', () => {
+      const clip = {
+        uri: 'file://clip.mp4',
+        type: 'video/mp4',
+        name: 'clip.mp4',
+        size_bytes: 26 * 1024 * 1024,
+      };
+      const result = VibeCheckValidator.validatePhoto(clip);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].code).toBe('VIDEO_TOO_LARGE');
+    });
+  });
+
+  describe('validateMedia', () => {
+    const photo = { uri: 'file://photo.jpg', type: 'image/jpeg', name: 'photo.jpg' };
+
+    it('should accept up to four items', () => {
+      const result = VibeCheckValidator.validateMedia([photo, photo, photo, photo]);
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject more than four items', () => {
+      const result = VibeCheckValidator.validateMedia([photo, photo, photo, photo, photo]);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].code).toBe('MEDIA_TOO_MANY');
+    });
+
+    it('should report which item is invalid', () => {
+      const result = VibeCheckValidator.validateMedia([photo, { ...photo, type: 'image/gif' }]);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0].field).toBe('media[1].type');
+    });
   });
 
   describe('validateLocationVerification', () => {
@@ -255,6 +386,18 @@ describe('VibeCheckValidator', () => {
       expect(result.errors[0].code).toBe('LOCATION_TOO_FAR');
     });
 
+    it('should report the venue geofence limit', () => {
+      const result = VibeCheckValidator.validateLocationVerification({
+        is_valid: false,
+        distance_meters: 350,
+        venue_name: 'Test Venue',
+        failure_reason: 'too_far',
+        geofence: { type: 'radius', latitude: 0, longitude: 0, radius_meters: 300 },
+      });
+
+      expect(VibeCheckValidator.getErrorMessage(result.errors[0])).toBe('You must be within 300m of the venue');
+    });
+
     it('should reject invalid distance measurements', () => {
       const invalidLocation: LocationVerification = {
         is_valid: true,
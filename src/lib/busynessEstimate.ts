@@ -0,0 +1,95 @@
+/**
+ * Venue busyness estimated from recent vibe checks.
+ * Each report's weight halves every VIBE_CHECK_CONFIG.busynessHalfLifeMinutes
+ * (counted from its last "still accurate" confirmation) and is scaled by the
+ * author's reputation. Confidence grows with the total remaining weight, so a
+ * single old report reads as a weak signal while several fresh ones read as solid.
+ * public.venue_activity_ranks() ranks venue pages by the same confidence levels,
+ * keep the weighting below in sync with it.
+ */
+
+import { BusynessConfidence, BusynessEstimate, VibeCheck } from './types';
+import { VIBE_CHECK_CONFIG } from './constants';
+import { getReputationWeight } from './reputation';
+import { getVibeCheckActivityTime } from './vibeCheckActivity';
+
+type BusynessSample = Pick<VibeCheck, 'busyness_rating' | 'created_at'> &
+  Partial<Pick<VibeCheck, 'last_confirmed_at'>>;
+
+// Total weight at which confidence reaches 0.5, about two fresh reports from average contributors
+const CONFIDENCE_HALF_WEIGHT = 1;
+const MEDIUM_CONFIDENCE = 0.35;
+const HIGH_CONFIDENCE = 0.6;
+
+/**
+ * Get how much a report still counts given its age
+ */
+export function getRecencyWeight(activityTime: Date, now: Date = new Date()): number {
+  const ageMinutes = Math.max(0, (now.getTime() - activityTime.getTime()) / (1000 * 60));
+  return Math.pow(0.5, ageMinutes / VIBE_CHECK_CONFIG.busynessHalfLifeMinutes);
+}
+
+/**
+ * Map a 0-1 confidence value to a level for display
+ */
+export function getConfidenceLevel(confidence: number): BusynessConfidence {
+  if (confidence >= HIGH_CONFIDENCE) return 'high';
+  if (confidence >= MEDIUM_CONFIDENCE) return 'medium';
+  return 'low';
+}
+
+/**
+ * Estimate a venue's current busyness from its recent vibe checks
+ * @param vibeChecks Recent vibe checks for the venue
+ * @param getReputation Reads the author's reputation score, defaults to an average contributor
+ * @param now Time to estimate for
+ */
+export function estimateBusyness<T extends BusynessSample>(
+  vibeChecks: T[],
+  getReputation: (vibeCheck: T) => number | null | undefined = () => undefined,
+  now: Date = new Date()
+): BusynessEstimate {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  let latestReport: Date | null = null;
+
+  for (const vibeCheck of vibeChecks) {
+    const activityTime = getVibeCheckActivityTime(vibeCheck);
+    const weight = getRecencyWeight(activityTime, now) * getReputationWeight(getReputation(vibeCheck));
+    weightedSum += vibeCheck.busyness_rating * weight;
+    totalWeight += weight;
+
+    if (!latestReport || activityTime > latestReport) {
+      latestReport = activityTime;
+    }
+  }
+
+  const confidence = Math.round((totalWeight / (totalWeight + CONFIDENCE_HALF_WEIGHT)) * 100) / 100;
+
+  return {
+    busyness: totalWeight > 0 ? weightedSum / totalWeight : null,
+    confidence,
+    confidence_level: getConfidenceLevel(confidence),
+    report_count: vibeChecks.length,
+    latest_report_at: latestReport ? latestReport.toISOString() : null,
+  };
+}
+
+/**
+ * Describe the evidence behind an estimate, e.g. "1 report, 40 min ago"
+ */
+export function formatBusynessEstimateSummary(
+  estimate: BusynessEstimate,
+  now: Date = new Date()
+): string | null {
+  if (estimate.report_count === 0 || !estimate.latest_report_at) {
+    return null;
+  }
+
+  const reports = `${estimate.report_count} report${estimate.report_count === 1 ? '' : 's'}`;
+  const minutes = Math.floor((now.getTime() - new Date(estimate.latest_report_at).getTime()) / (1000 * 60));
+
+  if (minutes < 1) return `${reports}, just now`;
+  if (minutes < 60) return `${reports}, ${minutes} min ago`;
+  return `${reports}, ${Math.floor(minutes / 60)}h ago`;
+}
@@ -51,9 +51,72 @@ export const FEED_CONFIG = {
   decelerationRate: 'fast',
 }
 
+export const VIBE_CHECK_CONFIG = {
+  coverChargeCurrency: 'KES',
+  maxCoverCharge: 100000,
+  maxWaitMinutes: 240,
+  maxMediaItems: 4,
+  maxVideoDurationSeconds: 15,
+  busynessHalfLifeMinutes: 45, // A report loses half its weight in the busyness estimate every 45 minutes
+  popularTimesMinSamples: 3, // Vibe checks needed at an hour before live busyness is compared with it
+  unusualBusynessDifference: 1, // Busyness points from the forecast before a venue is busier or quieter than usual
+}
+
+export const OPENING_HOURS_CONFIG = {
+  closingSoonMinutes: 60, // Open venues closing within this show a countdown instead of the closing time
+}
+
+// Party group limits, keep in sync with the party_groups checks in database/schema.sql.
+// Sizes count the creator.
 export const GROUP_CONFIG = {
   maxSize: 20,
   minSize: 2,
+  maxNameLength: 60,
+  upcomingDays: 14, // Days of dates offered when planning a group
+}
+
+// Group chat, keep maxMessageLength in sync with messages_content_check in database/schema.sql
+export const GROUP_CHAT_CONFIG = {
+  pageSize: 30, // Messages loaded at a time, newest first
+  maxMessageLength: 1000,
+}
+
+// Group venue polls, keep maxOptions in sync with the group_poll_options policies in database/schema.sql
+export const GROUP_POLL_CONFIG = {
+  maxOptions: 8, // Venues that can be nominated in one poll
+  minDurationMinutes: 15, // Shortest time a poll can run for
+  maxDurationHours: 72,
+}
+
+// Friends feed in the live tab, see FollowService.getFriendsActivity()
+export const FRIENDS_FEED_CONFIG = {
+  activityDays: 7, // Vibe checks and reviews this recent are shown
+  maxItems: 50,
+}
+
+// Area a user must be in to post a vibe check, see src/lib/geofence.ts.
+// Keep the limits in sync with is_valid_venue_geofence_polygon() and venues.geofence_radius_meters.
+export const GEOFENCE_CONFIG = {
+  defaultRadiusMeters: 100, // Venues without their own geofence
+  minRadiusMeters: 10,
+  maxRadiusMeters: 1000,
+  maxPolygonPoints: 50,
+}
+
+// Nearby venue search, see get_nearby_venues(). The database caps radius at 100km and pages at 100 venues.
+export const NEARBY_VENUES_CONFIG = {
+  defaultRadiusMeters: 10000,
+  maxRadiusMeters: 100000,
+  pageSize: 20,
+  maxPageSize: 50,
+}
+
+// Full-text venue search, see search_venues() and the search screen
+export const VENUE_SEARCH_CONFIG = {
+  debounceMs: 300, // Wait for typing to pause before searching
+  pageSize: 20,
+  distanceOptionsMeters: [1000, 5000, 25000],
+  ratingOptions: [3, 4, 4.5],
 }
 
 export const MAP_CONFIG = {
@@ -61,4 +124,47 @@ export const MAP_CONFIG = {
   defaultLongitude: -122.4324,
   defaultLatitudeDelta: 0.0922,
   defaultLongitudeDelta: 0.0421,
-} 
\ No newline at end of file
+  clusterGridSize: 6, // Markers sharing a cell of a 6x6 grid over the visible region are clustered
+  clusterMinLatitudeDelta: 0.01, // Zoomed in closer than this, every venue gets its own marker
+} 
+// "For you" venue ranking, see src/lib/recommendations.ts
+export const RECOMMENDATION_CONFIG = {
+  interactionWeights: {
+    view: 1,
+    like: 3,
+    share: 3,
+    bookmark: 4,
+    vibe_check: 2,
+  },
+  reviewWeightPerStar: 1.5, // Relative to 3 stars, so 5 stars is +3 and 1 star is -3
+  affinityHalfLifeDays: 30, // An interaction counts half as much a month later
+  maxSeedVenues: 20, // Liked venues to look for related venues of
+  maxCoVisits: 200,
+  // Enforced by get_venue_co_visits(), keep in sync with database/schema.sql
+  coVisitWindowDays: 180, // Engagement this recent links venues
+  minSharedUsers: 3, // Fewer people linking two venues would show what they did
+  homeSectionSize: 8,
+}
+
+// Trending venues, see get_trending_venues()
+export const TRENDING_CONFIG = {
+  windowMinutes: 60, // Activity this recent is compared with the venue's baseline
+  baselineDays: 7,
+  homeRowSize: 10,
+  refreshIntervalMs: 5 * 60 * 1000,
+}
+
+// Side-by-side venue comparison, see src/lib/venueCompare.ts
+export const VENUE_COMPARE_CONFIG = {
+  minVenues: 2,
+  maxVenues: 4,
+}
+
+// Links that open a venue or a group invite in the app, see src/lib/venueLinks.ts and
+// src/lib/groups.ts. The scheme and web host match app.json's scheme, ios.associatedDomains and
+// android.intentFilters, which cover /venue and /groups. On iOS the apple-app-site-association
+// file served from the web host must list the same paths.
+export const VENUE_LINK_CONFIG = {
+  scheme: 'buzzvar',
+  webOrigin: 'https://buzzvar.app',
+}
@@ -10,6 +10,8 @@ export enum ErrorType {
   LOCATION_SERVICES_DISABLED = 'LOCATION_SERVICES_DISABLED',
   LOCATION_UNAVAILABLE = 'LOCATION_UNAVAILABLE',
   LOCATION_TOO_FAR = 'LOCATION_TOO_FAR',
+  LOCATION_INACCURATE = 'LOCATION_INACCURATE',
+  LOCATION_MOCKED = 'LOCATION_MOCKED',
   
   // Network-related errors
   NETWORK_OFFLINE = 'NETWORK_OFFLINE',
@@ -122,6 +124,54 @@ export class ErrorFactory {
     };
   }
 
+  // For venues with a polygon geofence, which have no single maximum distance
+  static locationOutsideVenue(outsideDistance: number): AppError {
+    return {
+      type: ErrorType.LOCATION_TOO_FAR,
+      severity: ErrorSeverity.MEDIUM,
+      message: `User is ${outsideDistance}m outside the venue geofence`,
+      userMessage: `You're about ${outsideDistance}m outside the venue. You need to be inside it to post a vibe check.`,
+      actionable: true,
+      retryable: true,
+      metadata: {
+        outsideDistance,
+        action: 'Move inside the venue and try again'
+      }
+    };
+  }
+
+  static locationInaccurate(accuracy: number | null, maxAccuracy: number = 75): AppError {
+    return {
+      type: ErrorType.LOCATION_INACCURATE,
+      severity: ErrorSeverity.MEDIUM,
+      message: `Location accuracy of ${accuracy ?? 'unknown'}m is too low (max: ${maxAccuracy}m)`,
+      userMessage: "Your location isn't precise enough to confirm you're at the venue. Try again outside or near a window.",
+      actionable: true,
+      retryable: true,
+      retryDelay: 3000,
+      maxRetries: 2,
+      metadata: {
+        accuracy,
+        maxAccuracy,
+        action: 'Move to an area with better GPS signal and try again'
+      }
+    };
+  }
+
+  static locationMocked(): AppError {
+    return {
+      type: ErrorType.LOCATION_MOCKED,
+      severity: ErrorSeverity.HIGH,
+      message: 'Position was reported by a mock provider',
+      userMessage: 'Your location appears to be simulated. Turn off any mock location apps to post vibe checks.',
+      actionable: true,
+      retryable: false,
+      metadata: {
+        action: 'Disable mock locations in your device settings'
+      }
+    };
+  }
+
   // Network errors
   static networkOffline(): AppError {
     return {
@@ -358,6 +408,33 @@ export class ErrorParser {
     // Default to unknown error
     return ErrorFactory.unknownError(error);
   }
+
+  /**
+   * Get the original AppError from one that RetryManager wrapped as an unknown error
+   */
+  static unwrap(error: AppError): AppError {
+    let current = error;
+    while (
+      current.type === ErrorType.UNKNOWN_ERROR &&
+      current.metadata?.originalError?.type &&
+      current.metadata.originalError.userMessage
+    ) {
+      current = current.metadata.originalError as AppError;
+    }
+    return current;
+  }
+
+  /**
+   * Check if an error was caused by missing or unreliable connectivity
+   */
+  static isConnectivityError(error: AppError): boolean {
+    const { type } = this.unwrap(error);
+    return (
+      type === ErrorType.NETWORK_OFFLINE ||
+      type === ErrorType.NETWORK_TIMEOUT ||
+      type === ErrorType.NETWORK_ERROR
+    );
+  }
 }
 
 // Retry mechanism utility
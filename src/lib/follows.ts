@@ -0,0 +1,124 @@
+/**
+ * Follow rules shared by FollowService and the profile and follow screens. A follow starts as a
+ * request and counts once the other person accepts it; the user_follows policies in
+ * database/schema.sql enforce the same steps.
+ */
+
+import {
+  FollowRelationship,
+  FollowState,
+  FriendActivity,
+  FriendGroupPlan,
+  FriendReview,
+  UserFollow,
+  VibeCheckWithDetails,
+} from './types';
+
+type FollowRow = Pick<UserFollow, 'follower_id' | 'following_id' | 'status'>;
+
+// Membership row from FollowService.getFriendsActivity(), one per person and group
+export interface FriendMembership {
+  joined_at: string;
+  user: FriendGroupPlan['friends'][number];
+  group: FriendGroupPlan['group'];
+}
+
+function toFollowState(follow: FollowRow | undefined): FollowState {
+  if (!follow) return 'none';
+  return follow.status === 'accepted' ? 'following' : 'requested';
+}
+
+/**
+ * Where the current user and someone else stand, each way, from the follows between them
+ */
+export function getFollowRelationship(
+  follows: FollowRow[],
+  userId: string,
+  otherUserId: string
+): FollowRelationship {
+  return {
+    outgoing: toFollowState(follows.find((f) => f.follower_id === userId && f.following_id === otherUserId)),
+    incoming: toFollowState(follows.find((f) => f.follower_id === otherUserId && f.following_id === userId)),
+  };
+}
+
+/**
+ * One plan per group from the memberships of people the user follows. Friends are listed
+ * latest to join first, and plans are ordered by their latest join.
+ */
+export function groupFriendPlans(memberships: FriendMembership[]): FriendGroupPlan[] {
+  const plans = new Map<string, FriendGroupPlan>();
+  const byLatest = [...memberships].sort(
+    (a, b) => new Date(b.joined_at).getTime() - new Date(a.joined_at).getTime()
+  );
+
+  for (const membership of byLatest) {
+    const plan = plans.get(membership.group.id);
+    if (plan) {
+      if (!plan.friends.some((friend) => friend.id === membership.user.id)) {
+        plan.friends.push(membership.user);
+      }
+    } else {
+      plans.set(membership.group.id, {
+        group: membership.group,
+        friends: [membership.user],
+        joined_at: membership.joined_at,
+      });
+    }
+  }
+
+  return Array.from(plans.values());
+}
+
+/**
+ * Vibe checks, reviews and group plans in one list, newest first
+ */
+export function buildFriendsActivity(
+  activity: {
+    vibeChecks: VibeCheckWithDetails[];
+    reviews: FriendReview[];
+    plans: FriendGroupPlan[];
+  },
+  maxItems: number
+): FriendActivity[] {
+  const items: FriendActivity[] = [
+    ...activity.vibeChecks.map((vibeCheck) => ({
+      type: 'vibe_check' as const,
+      id: `vibe_check:${vibeCheck.id}`,
+      created_at: vibeCheck.created_at,
+      vibeCheck,
+    })),
+    ...activity.reviews.map((review) => ({
+      type: 'review' as const,
+      id: `review:${review.id}`,
+      created_at: review.created_at,
+      review,
+    })),
+    ...activity.plans.map((plan) => ({
+      type: 'group_plan' as const,
+      id: `group_plan:${plan.group.id}`,
+      created_at: plan.joined_at,
+      plan,
+    })),
+  ];
+
+  return items
+    .sort((a, b) => {
+      const byTime = new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+      if (byTime !== 0) return byTime;
+      return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    })
+    .slice(0, maxItems);
+}
+
+/**
+ * Who is going to a group, e.g. "Sam is going", "Sam and Alex are going" or
+ * "Sam and 2 others are going"
+ */
+export function describeFriendPlan(plan: Pick<FriendGroupPlan, 'friends'>): string {
+  const names = plan.friends.map((friend) => friend.name || 'Someone');
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is going`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are going`;
+  return `${names[0]} and ${names.length - 1} others are going`;
+}
@@ -0,0 +1,144 @@
+/**
+ * Venue geofences: the area a user must be in to post a vibe check.
+ * A venue can have a polygon (e.g. the footprint of a beer garden) or its own
+ * radius around its location; venues with neither use GEOFENCE_CONFIG.defaultRadiusMeters.
+ * Mirrors venue_geofence_offset() in the database, which has the final say.
+ */
+
+import { GeofencePoint, Venue, VenueGeofence } from './types';
+import { GEOFENCE_CONFIG } from './constants';
+
+type GeofencedVenue = Pick<
+  Venue,
+  'latitude' | 'longitude' | 'geofence_radius_meters' | 'geofence_polygon'
+>;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in meters, unrounded
+ */
+export function getDistanceMeters(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number {
+  const Δφ = toRadians(lat2 - lat1);
+  const Δλ = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+  return EARTH_RADIUS_METERS * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Get the geofence of a venue, its polygon if it has one
+ * @returns Geofence, or null if the venue has no location to check against
+ */
+export function getVenueGeofence(venue: GeofencedVenue): VenueGeofence | null {
+  if (venue.geofence_polygon && venue.geofence_polygon.length >= 3) {
+    return { type: 'polygon', points: venue.geofence_polygon };
+  }
+
+  if (venue.latitude == null || venue.longitude == null) {
+    return null;
+  }
+
+  return {
+    type: 'radius',
+    latitude: venue.latitude,
+    longitude: venue.longitude,
+    radius_meters: venue.geofence_radius_meters ?? GEOFENCE_CONFIG.defaultRadiusMeters,
+  };
+}
+
+/**
+ * Signed distance from a point to the edge of a geofence in meters,
+ * negative inside the geofence and positive outside it
+ */
+export function getGeofenceOffset(
+  geofence: VenueGeofence,
+  latitude: number,
+  longitude: number
+): number {
+  if (geofence.type === 'radius') {
+    return (
+      getDistanceMeters(latitude, longitude, geofence.latitude, geofence.longitude) -
+      geofence.radius_meters
+    );
+  }
+
+  // Project the corners onto a flat plane in meters centred on the point.
+  // Venue polygons are small enough for the distortion not to matter.
+  const metersPerDegree = toRadians(1) * EARTH_RADIUS_METERS;
+  const corners = geofence.points.map(point => ({
+    x: (point.longitude - longitude) * metersPerDegree * Math.cos(toRadians(latitude)),
+    y: (point.latitude - latitude) * metersPerDegree,
+  }));
+
+  let inside = false;
+  let edgeDistance = Infinity;
+
+  for (let i = 0, j = corners.length - 1; i < corners.length; j = i++) {
+    const a = corners[j];
+    const b = corners[i];
+
+    // Ray cast along +x from the point
+    if (a.y > 0 !== b.y > 0 && a.x + ((b.x - a.x) * -a.y) / (b.y - a.y) > 0) {
+      inside = !inside;
+    }
+
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t =
+      lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSquared));
+    edgeDistance = Math.min(edgeDistance, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+
+  return inside ? -edgeDistance : edgeDistance;
+}
+
+/**
+ * Get the furthest a user may be from the venue, null for polygon geofences
+ * @param geofence Venue geofence, the default radius when unknown
+ */
+export function getGeofenceMaxDistance(geofence?: VenueGeofence | null): number | null {
+  if (geofence?.type === 'polygon') {
+    return null;
+  }
+  return geofence?.radius_meters ?? GEOFENCE_CONFIG.defaultRadiusMeters;
+}
+
+/**
+ * Describe where a user must be to post, e.g. "within 150m of the venue"
+ * @param geofence Venue geofence, the default radius when unknown
+ */
+export function describeGeofenceLimit(geofence?: VenueGeofence | null): string {
+  const maxDistance = getGeofenceMaxDistance(geofence);
+  return maxDistance === null ? 'inside the venue' : `within ${maxDistance}m of the venue`;
+}
+
+/**
+ * Check that a polygon can be saved as a venue geofence
+ * @returns Error message, or null if the polygon is valid
+ */
+export function validateGeofencePolygon(points: GeofencePoint[]): string | null {
+  if (points.length < 3) {
+    return 'A geofence needs at least 3 corners';
+  }
+  if (points.length > GEOFENCE_CONFIG.maxPolygonPoints) {
+    return `A geofence can have at most ${GEOFENCE_CONFIG.maxPolygonPoints} corners`;
+  }
+  const outOfRange = points.some(
+    point =>
+      !Number.isFinite(point.latitude) ||
+      !Number.isFinite(point.longitude) ||
+      Math.abs(point.latitude) > 90 ||
+      Math.abs(point.longitude) > 180
+  );
+  return outOfRange ? 'Geofence corners must be valid coordinates' : null;
+}
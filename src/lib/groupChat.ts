@@ -0,0 +1,84 @@
+/**
+ * Group chat rules shared by the chat screen and GroupChatService. Messages are kept newest
+ * first, the order pages are loaded in and the inverted chat list shows them.
+ */
+
+import { GROUP_CHAT_CONFIG } from './constants';
+import { formatOpeningTime } from './openingHours';
+import { GroupMessage, GroupMessagesCursor } from './types';
+
+// Messages sent within this of each other by the same person are shown together
+const SENDER_RUN_MS = 5 * 60 * 1000;
+
+/**
+ * Check a text message before it is sent
+ * @returns Error message, or null if the message can be sent
+ */
+export function validateChatMessage(content: string): string | null {
+  const text = content.trim();
+  if (!text) return 'Type a message first.';
+  if (text.length > GROUP_CHAT_CONFIG.maxMessageLength) {
+    return `Messages can be up to ${GROUP_CHAT_CONFIG.maxMessageLength} characters.`;
+  }
+  return null;
+}
+
+// Newer messages first, the same order as the database's keyset pages
+function compareNewestFirst(a: Pick<GroupMessage, 'created_at' | 'id'>, b: Pick<GroupMessage, 'created_at' | 'id'>) {
+  const byTime = new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  if (byTime !== 0) return byTime;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Add a page or realtime messages to a chat, newest first. A message already in the chat is
+ * kept once, so a sent message echoed back over realtime doesn't show twice.
+ */
+export function mergeChatMessages<T extends Pick<GroupMessage, 'created_at' | 'id'>>(
+  existing: T[],
+  incoming: T[]
+): T[] {
+  const byId = new Map(existing.map((message) => [message.id, message]));
+  for (const message of incoming) {
+    byId.set(message.id, message);
+  }
+  return Array.from(byId.values()).sort(compareNewestFirst);
+}
+
+// Cursor for the page older than the given newest-first messages
+export function getOlderMessagesCursor(
+  messages: Pick<GroupMessage, 'created_at' | 'id'>[]
+): GroupMessagesCursor | null {
+  const oldest = messages[messages.length - 1];
+  return oldest ? { created_at: oldest.created_at, id: oldest.id } : null;
+}
+
+/**
+ * Whether a message starts a new run from its sender and should show their name. previous is
+ * the message sent just before it, if any.
+ */
+export function startsSenderRun(
+  message: Pick<GroupMessage, 'sender_id' | 'message_type' | 'created_at'>,
+  previous: Pick<GroupMessage, 'sender_id' | 'message_type' | 'created_at'> | undefined
+): boolean {
+  if (!previous || previous.message_type === 'system') return true;
+  if (previous.sender_id !== message.sender_id) return true;
+  return new Date(message.created_at).getTime() - new Date(previous.created_at).getTime() > SENDER_RUN_MS;
+}
+
+/**
+ * When a message was sent, e.g. "9:30 PM", "Yesterday 9:30 PM" or "Sat 14 Jun, 9:30 PM"
+ */
+export function formatChatTime(createdAt: string, now: Date = new Date()): string {
+  const sent = new Date(createdAt);
+  const time = formatOpeningTime(sent.getHours() * 60 + sent.getMinutes());
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const sentDay = new Date(sent.getFullYear(), sent.getMonth(), sent.getDate());
+  const days = Math.round((today.getTime() - sentDay.getTime()) / (24 * 60 * 60 * 1000));
+  if (days === 0) return time;
+  if (days === 1) return `Yesterday ${time}`;
+
+  const day = sent.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
+  return `${day}, ${time}`;
+}
@@ -0,0 +1,112 @@
+/**
+ * Venue poll rules shared by the poll screen and src/actions/groups.ts. A poll takes votes until
+ * its closes_at; finish_group_poll() in database/schema.sql then picks the winner the same way
+ * rankPollOptions() orders options.
+ */
+
+import { GROUP_POLL_CONFIG } from './constants';
+import { getGroupStartTime } from './groups';
+import { formatOpeningTime } from './openingHours';
+import { GroupPoll, GroupPollOption, GroupPollStatus, PartyGroup } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+// Close times offered when starting a poll, in minutes from now
+const CLOSE_CHOICE_MINUTES = [30, 60, 180];
+// The last close time offered is this long before the group meets
+const BEFORE_MEETING_MINUTES = 60;
+
+/**
+ * Whether a poll is taking votes, is past its close time but hasn't been closed yet, or is closed
+ */
+export function getGroupPollStatus(
+  poll: Pick<GroupPoll, 'closes_at' | 'closed_at'>,
+  now: Date = new Date()
+): GroupPollStatus {
+  if (poll.closed_at) return 'closed';
+  return new Date(poll.closes_at).getTime() > now.getTime() ? 'open' : 'due';
+}
+
+/**
+ * Check when a new poll closes. It has to run for a while, and close before the group meets.
+ * @returns Error message, or null if the poll can close then
+ */
+export function validatePollCloseTime(
+  closesAt: Date,
+  group: Pick<PartyGroup, 'date' | 'time'>,
+  now: Date = new Date()
+): string | null {
+  const minutes = (closesAt.getTime() - now.getTime()) / MINUTE_MS;
+  if (Number.isNaN(minutes) || minutes < GROUP_POLL_CONFIG.minDurationMinutes) {
+    return `Give people at least ${GROUP_POLL_CONFIG.minDurationMinutes} minutes to vote.`;
+  }
+  if (minutes > GROUP_POLL_CONFIG.maxDurationHours * 60) {
+    return `Votes can run for up to ${GROUP_POLL_CONFIG.maxDurationHours} hours.`;
+  }
+
+  const start = getGroupStartTime(group);
+  if (start && closesAt.getTime() > start.getTime()) {
+    return 'Close the vote before the group meets.';
+  }
+  return null;
+}
+
+/**
+ * Close times to offer when starting a poll, soonest first. Empty when the group meets too soon
+ * for a vote.
+ */
+export function getPollCloseChoices(
+  group: Pick<PartyGroup, 'date' | 'time'>,
+  now: Date = new Date()
+): { label: string; closesAt: Date }[] {
+  const choices = CLOSE_CHOICE_MINUTES.map((minutes) => ({
+    label: minutes < 60 ? `In ${minutes} minutes` : `In ${minutes / 60} ${minutes === 60 ? 'hour' : 'hours'}`,
+    closesAt: new Date(now.getTime() + minutes * MINUTE_MS),
+  }));
+
+  const start = getGroupStartTime(group);
+  if (start) {
+    const beforeMeeting = new Date(start.getTime() - BEFORE_MEETING_MINUTES * MINUTE_MS);
+    if (choices.every((choice) => choice.closesAt.getTime() < beforeMeeting.getTime())) {
+      choices.push({ label: 'An hour before you meet', closesAt: beforeMeeting });
+    }
+  }
+
+  return choices.filter((choice) => validatePollCloseTime(choice.closesAt, group, now) === null);
+}
+
+/**
+ * Options with the most votes first. Ties go to the venue nominated first, which is also how
+ * the poll's winner is picked.
+ */
+export function rankPollOptions<T extends Pick<GroupPollOption, 'id' | 'created_at'> & { vote_count: number }>(
+  options: T[]
+): T[] {
+  return [...options].sort((a, b) => {
+    if (b.vote_count !== a.vote_count) return b.vote_count - a.vote_count;
+    const byNomination = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+    if (byNomination !== 0) return byNomination;
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  });
+}
+
+/**
+ * When a poll closes relative to now, e.g. "Closes in 25 min", "Closes at 9:30 PM" or
+ * "Closes Sat 14 Jun at 9:30 PM"
+ */
+export function formatPollCloseTime(closesAt: string, now: Date = new Date()): string {
+  const closes = new Date(closesAt);
+  const minutes = Math.ceil((closes.getTime() - now.getTime()) / MINUTE_MS);
+  if (minutes <= 0) return 'Voting has closed';
+  if (minutes < 60) return `Closes in ${minutes} min`;
+
+  const time = formatOpeningTime(closes.getHours() * 60 + closes.getMinutes());
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const closesDay = new Date(closes.getFullYear(), closes.getMonth(), closes.getDate());
+  const days = Math.round((closesDay.getTime() - today.getTime()) / (24 * 60 * MINUTE_MS));
+  if (days === 0) return `Closes at ${time}`;
+  if (days === 1) return `Closes tomorrow at ${time}`;
+
+  const day = closes.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
+  return `Closes ${day} at ${time}`;
+}
@@ -0,0 +1,189 @@
+/**
+ * Party group rules shared by the group screens and src/actions/groups.ts. A group meets on a
+ * local date and time (party_groups.date / time), read in the device's time zone.
+ */
+
+import { GROUP_CONFIG, VENUE_LINK_CONFIG } from './constants';
+import { formatOpeningTime } from './openingHours';
+import {
+  GroupMemberAction,
+  GroupRole,
+  PartyGroup,
+  PartyGroupInput,
+  PartyGroupWithDetails,
+} from './types';
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::\d{2})?$/;
+// generate_group_invite_code() makes 8 hex digits, in upper case
+const INVITE_CODE_PATTERN = /(?:^|\/)([0-9a-f]{8})\/?$/i;
+
+// Minutes after midnight for "21:30" or "21:30:00" as Postgres returns it
+function parseGroupTime(time: string): number | null {
+  const match = TIME_PATTERN.exec(time.trim());
+  if (!match) return null;
+
+  const hour = Number(match[1]);
+  const minute = Number(match[2]);
+  if (hour > 23 || minute > 59) return null;
+  return hour * 60 + minute;
+}
+
+/**
+ * When a group meets, in the device's time zone. Null for a date or time that can't be read.
+ */
+export function getGroupStartTime(group: Pick<PartyGroup, 'date' | 'time'>): Date | null {
+  const date = DATE_PATTERN.exec(group.date);
+  const minutes = parseGroupTime(group.time);
+  if (!date || minutes === null) return null;
+
+  const start = new Date(
+    Number(date[1]),
+    Number(date[2]) - 1,
+    Number(date[3]),
+    Math.floor(minutes / 60),
+    minutes % 60
+  );
+  // Rejects dates like 2025-02-30, which Date rolls over
+  if (start.getDate() !== Number(date[3]) || start.getMonth() !== Number(date[2]) - 1) {
+    return null;
+  }
+  return start;
+}
+
+// Local calendar date of a Date, as stored in party_groups.date
+export function toGroupDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Dates a group can be planned for, starting today
+ */
+export function getUpcomingGroupDates(
+  now: Date = new Date(),
+  days: number = GROUP_CONFIG.upcomingDays
+): string[] {
+  return Array.from({ length: days }, (_, offset) =>
+    toGroupDate(new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset))
+  );
+}
+
+/**
+ * Day of a group relative to now, e.g. "Tonight", "Tomorrow" or "Sat 14 Jun"
+ */
+export function formatGroupDay(date: string, now: Date = new Date()): string {
+  const start = getGroupStartTime({ date, time: '00:00' });
+  if (!start) return date;
+
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const days = Math.round((start.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+  if (days === 0) return 'Tonight';
+  if (days === 1) return 'Tomorrow';
+
+  return start.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' });
+}
+
+/**
+ * When a group meets, e.g. "Tonight at 9:30 PM" or "Sat 14 Jun at 10 PM"
+ */
+export function formatGroupTime(
+  group: Pick<PartyGroup, 'date' | 'time'>,
+  now: Date = new Date()
+): string {
+  const minutes = parseGroupTime(group.time);
+  const day = formatGroupDay(group.date, now);
+  return minutes === null ? day : `${day} at ${formatOpeningTime(minutes)}`;
+}
+
+// Places left in a group
+export function getGroupSpotsLeft(group: { max_size: number; member_count: number }): number {
+  return Math.max(group.max_size - group.member_count, 0);
+}
+
+/**
+ * Check a group before it is created or saved
+ * @param memberCount Approved members already in the group; the size can't go below it
+ * @param allowPast Skip the check that the group is still to come, for edits that keep its time
+ * @returns Error message, or null if the group is valid
+ */
+export function validateGroupInput(
+  input: PartyGroupInput,
+  {
+    memberCount = 1,
+    allowPast = false,
+    now = new Date(),
+  }: { memberCount?: number; allowPast?: boolean; now?: Date } = {}
+): string | null {
+  const name = input.name.trim();
+  if (!name) return 'Give your group a name.';
+  if (name.length > GROUP_CONFIG.maxNameLength) {
+    return `Group names can be up to ${GROUP_CONFIG.maxNameLength} characters.`;
+  }
+
+  const start = getGroupStartTime(input);
+  if (!start) return 'Pick a date and a time like 21:30.';
+  if (!allowPast && start.getTime() < now.getTime()) return 'Pick a time that hasn\'t passed yet.';
+
+  if (
+    !Number.isInteger(input.max_size) ||
+    input.max_size < GROUP_CONFIG.minSize ||
+    input.max_size > GROUP_CONFIG.maxSize
+  ) {
+    return `Groups can have ${GROUP_CONFIG.minSize} to ${GROUP_CONFIG.maxSize} people.`;
+  }
+  if (input.max_size < memberCount) {
+    return `${memberCount} people have already joined, so the group can't be smaller than that.`;
+  }
+
+  return null;
+}
+
+/**
+ * What the user can do about joining a group: they're in it, waiting for approval, can ask to
+ * join a public group, need an invite to a private one, or it's full
+ */
+export function getGroupJoinStatus(
+  group: Pick<PartyGroupWithDetails, 'is_member' | 'has_requested' | 'is_public' | 'max_size' | 'member_count'>
+): 'member' | 'requested' | 'full' | 'can_request' | 'invite_only' {
+  if (group.is_member) return 'member';
+  if (group.has_requested) return 'requested';
+  if (getGroupSpotsLeft(group) === 0) return 'full';
+  return group.is_public ? 'can_request' : 'invite_only';
+}
+
+/**
+ * Changes someone with viewerRole can make to a member. Admins manage members, and only the
+ * creator manages admins. Nobody can change the creator.
+ */
+export function getGroupMemberActions(
+  viewerRole: GroupRole | null,
+  memberRole: GroupRole
+): GroupMemberAction[] {
+  if (memberRole === 'member' && (viewerRole === 'creator' || viewerRole === 'admin')) {
+    return ['promote', 'remove'];
+  }
+  if (memberRole === 'admin' && viewerRole === 'creator') {
+    return ['demote', 'remove'];
+  }
+  return [];
+}
+
+/**
+ * Invite code from a code or an invite link the user pasted, in upper case. Null if there isn't one.
+ */
+export function parseGroupInviteCode(value: string): string | null {
+  const match = INVITE_CODE_PATTERN.exec(value.trim());
+  return match ? match[1].toUpperCase() : null;
+}
+
+// In-app route of a group invite, for router.push()
+export function getGroupInvitePath(inviteCode: string): `/groups/join/${string}` {
+  return `/groups/join/${encodeURIComponent(inviteCode)}`;
+}
+
+// Web link that opens a group invite in the app when installed, for sharing
+export function getGroupInviteLink(inviteCode: string): string {
+  return `${VENUE_LINK_CONFIG.webOrigin}${getGroupInvitePath(inviteCode)}`;
+}
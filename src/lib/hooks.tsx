@@ -2,6 +2,9 @@ import React, { createContext, useContext, useEffect, useState } from 'react'
 import { Session, User } from '@supabase/supabase-js'
 import * as Location from 'expo-location'
 import { supabase } from './supabase'
+import { PendingVibeCheck, VibeCheckReactionType } from './types'
+import { VibeCheckOutboxService } from '../services/VibeCheckOutboxService'
+import { VibeCheckService } from '../services/VibeCheckService'
 
 // Auth context
 interface AuthContextType {
@@ -189,4 +192,70 @@ export function useDebounce<T>(value: T, delay: number): T {
   }, [value, delay])
 
   return debouncedValue
-} 
\ No newline at end of file
+} 
+
+// Vibe checks from the current user waiting in the offline outbox
+export function usePendingVibeChecks(venueId?: string) {
+  const { user } = useAuth()
+  const [pending, setPending] = useState<PendingVibeCheck[]>([])
+
+  useEffect(() => {
+    if (!user) {
+      setPending([])
+      return
+    }
+
+    let isMounted = true
+    const loadPending = async () => {
+      const items = await VibeCheckOutboxService.getPending({ userId: user.id, venueId })
+      if (isMounted) {
+        setPending(items)
+      }
+    }
+
+    loadPending()
+    const unsubscribe = VibeCheckOutboxService.subscribe(() => {
+      loadPending()
+    })
+
+    return () => {
+      isMounted = false
+      unsubscribe()
+    }
+  }, [user, venueId])
+
+  const discard = (id: string) => VibeCheckOutboxService.discard(id)
+
+  return { pending, discard }
+}
+
+// Reactions the current user left on a list of vibe checks
+export function useVibeCheckReactions(vibeCheckIds: string[]) {
+  const { user } = useAuth()
+  const [reactions, setReactions] = useState<Record<string, VibeCheckReactionType[]>>({})
+  const idsKey = vibeCheckIds.join(',')
+
+  useEffect(() => {
+    if (!user || !idsKey) {
+      setReactions({})
+      return
+    }
+
+    let isMounted = true
+    VibeCheckService.getUserReactions(idsKey.split(',')).then(({ data }) => {
+      if (isMounted) {
+        setReactions(data)
+      }
+    })
+
+    return () => {
+      isMounted = false
+    }
+  }, [user, idsKey])
+
+  const setUserReactions = (vibeCheckId: string, types: VibeCheckReactionType[]) => {
+    setReactions(current => ({ ...current, [vibeCheckId]: types }))
+  }
+
+  return { reactions, setUserReactions }
+}
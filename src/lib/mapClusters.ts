@@ -0,0 +1,116 @@
+/**
+ * Marker clustering for the venue map. The visible region is split into a grid and
+ * venues sharing a cell are drawn as one cluster, so a zoomed-out map stays readable.
+ * Cells are anchored to fixed coordinates rather than the region, so clusters don't
+ * reshuffle while the map is panned at the same zoom.
+ */
+
+import { MAP_CONFIG } from './constants';
+import { getDistanceMeters } from './geofence';
+
+// Same shape as react-native-maps' Region
+export interface MapRegion {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+}
+
+export interface MapPoint {
+  id: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface MapCluster<T extends MapPoint> {
+  id: string; // The venue id for single venues
+  latitude: number;
+  longitude: number;
+  items: T[];
+}
+
+/**
+ * Group map points into clusters for a region
+ * @param points Venues to show, those without a location are left out
+ * @param region Visible map region
+ * @param gridSize Cells along each side of the region
+ * @returns Clusters, single venues are clusters of one
+ */
+export function clusterMapPoints<T extends MapPoint>(
+  points: T[],
+  region: MapRegion,
+  gridSize: number = MAP_CONFIG.clusterGridSize
+): MapCluster<T>[] {
+  const located = points.filter(
+    (point): point is T & { latitude: number; longitude: number } =>
+      point.latitude !== null && point.longitude !== null
+  );
+
+  if (region.latitudeDelta < MAP_CONFIG.clusterMinLatitudeDelta) {
+    return located.map((point) => ({
+      id: point.id,
+      latitude: point.latitude,
+      longitude: point.longitude,
+      items: [point],
+    }));
+  }
+
+  const latitudeCell = region.latitudeDelta / gridSize;
+  const longitudeCell = region.longitudeDelta / gridSize;
+  const cells = new Map<string, (T & { latitude: number; longitude: number })[]>();
+
+  for (const point of located) {
+    const key = `${Math.floor(point.latitude / latitudeCell)}:${Math.floor(point.longitude / longitudeCell)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.push(point);
+    } else {
+      cells.set(key, [point]);
+    }
+  }
+
+  return Array.from(cells.entries()).map(([key, items]) => ({
+    id: items.length === 1 ? items[0].id : `cluster:${key}`,
+    latitude: items.reduce((sum, item) => sum + item.latitude, 0) / items.length,
+    longitude: items.reduce((sum, item) => sum + item.longitude, 0) / items.length,
+    items,
+  }));
+}
+
+/**
+ * Region that fits every venue of a cluster, for zooming in when it's tapped
+ */
+export function getClusterRegion<T extends MapPoint>(
+  cluster: MapCluster<T>,
+  region: MapRegion
+): MapRegion {
+  const latitudes = cluster.items.map((item) => item.latitude!);
+  const longitudes = cluster.items.map((item) => item.longitude!);
+  const minDelta = MAP_CONFIG.clusterMinLatitudeDelta / 2;
+
+  return {
+    latitude: cluster.latitude,
+    longitude: cluster.longitude,
+    // Leave a margin around the venues, but always zoom in from the current region
+    latitudeDelta: Math.min(
+      Math.max((Math.max(...latitudes) - Math.min(...latitudes)) * 1.5, minDelta),
+      region.latitudeDelta / 2
+    ),
+    longitudeDelta: Math.min(
+      Math.max((Math.max(...longitudes) - Math.min(...longitudes)) * 1.5, minDelta),
+      region.longitudeDelta / 2
+    ),
+  };
+}
+
+/**
+ * Radius of the circle around the region center that covers the whole region
+ */
+export function getRegionRadiusMeters(region: MapRegion): number {
+  return getDistanceMeters(
+    region.latitude,
+    region.longitude,
+    region.latitude + region.latitudeDelta / 2,
+    region.longitude + region.longitudeDelta / 2
+  );
+}
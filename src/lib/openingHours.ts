@@ -0,0 +1,290 @@
+/**
+ * Venue opening hours. venues.hours holds free text or a JSON schedule, either by weekday:
+ *   {"friday": "9pm-4am", "saturday": "9pm-4am", "sunday": "closed"}
+ * or with special dates that replace the weekly hours:
+ *   {"weekly": {"friday": ["17:00-23:00", "23:30-04:00"]}, "exceptions": {"2025-12-25": "closed"}}
+ * Days missing from a schedule are closed. Ranges that end at or before they start run
+ * overnight into the next day. Times are read in the device's time zone, assumed to be the venue's.
+ */
+
+import { OpeningHours, OpeningPeriod, Weekday, WEEKDAY_LABELS } from './types';
+import { OPENING_HOURS_CONFIG } from './constants';
+
+const WEEKDAYS = Object.keys(WEEKDAY_LABELS) as Weekday[];
+const MINUTES_PER_DAY = 24 * 60;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/;
+
+type ScheduleResult = { hours: OpeningHours; error?: undefined } | { hours?: undefined; error: string };
+
+// Minutes after midnight, e.g. "9pm", "9:30 pm" or "21:30"
+function parseTime(value: string): number | null {
+  const time = value.trim().toLowerCase();
+  if (time === 'midnight') return 0;
+  if (time === 'noon') return 12 * 60;
+
+  const match = TIME_PATTERN.exec(time);
+  if (!match) return null;
+
+  let hour = Number(match[1]);
+  const minute = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3];
+
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (hour > 24 || (hour === 24 && minute > 0)) {
+    return null;
+  }
+
+  return (hour * 60 + minute) % MINUTES_PER_DAY;
+}
+
+// "9pm-2am", "21:00 – 02:00" or "9pm to 2am"
+function parseRange(value: string): OpeningPeriod | null {
+  const parts = value.split(/\s*(?:-|–|—|\bto\b)\s*/i);
+  if (parts.length !== 2) return null;
+
+  const open = parseTime(parts[0]);
+  const close = parseTime(parts[1]);
+  return open === null || close === null ? null : { open, close };
+}
+
+// One day's hours: "closed", "24 hours", a range, comma separated ranges or an array of ranges
+function parseDay(value: unknown): OpeningPeriod[] | null {
+  if (typeof value === 'string') {
+    const day = value.trim().toLowerCase();
+    if (day === '' || day === 'closed') return [];
+    if (day === '24h' || day === '24 hours' || day === 'open 24 hours') {
+      return [{ open: 0, close: 0 }];
+    }
+    return parseDay(day.split(','));
+  }
+
+  if (!Array.isArray(value)) return null;
+
+  const periods: OpeningPeriod[] = [];
+  for (const range of value) {
+    const period = typeof range === 'string' ? parseRange(range) : null;
+    if (!period) return null;
+    periods.push(period);
+  }
+  return periods;
+}
+
+function readSchedule(value: unknown): ScheduleResult {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Opening hours must be a schedule by day of the week' };
+  }
+
+  const schedule = value as Record<string, unknown>;
+  const isWeeklyFormat = 'weekly' in schedule || 'exceptions' in schedule;
+  const weeklyValue = isWeeklyFormat ? schedule.weekly ?? {} : schedule;
+  const exceptionsValue = isWeeklyFormat ? schedule.exceptions ?? {} : {};
+
+  if (typeof weeklyValue !== 'object' || weeklyValue === null || Array.isArray(weeklyValue)) {
+    return { error: 'Weekly hours must be a schedule by day of the week' };
+  }
+  if (typeof exceptionsValue !== 'object' || exceptionsValue === null || Array.isArray(exceptionsValue)) {
+    return { error: 'Special dates must be a schedule by date' };
+  }
+
+  const weekly = {} as Record<Weekday, OpeningPeriod[]>;
+  for (const weekday of WEEKDAYS) {
+    weekly[weekday] = [];
+  }
+
+  for (const [key, dayValue] of Object.entries(weeklyValue)) {
+    const weekday = key.toLowerCase() as Weekday;
+    if (!WEEKDAYS.includes(weekday)) {
+      return { error: `Unknown day "${key}"` };
+    }
+    const periods = parseDay(dayValue);
+    if (!periods) {
+      return { error: `Invalid hours for ${WEEKDAY_LABELS[weekday]}` };
+    }
+    weekly[weekday] = periods;
+  }
+
+  const exceptions: Record<string, OpeningPeriod[]> = {};
+  for (const [date, dayValue] of Object.entries(exceptionsValue)) {
+    if (!DATE_KEY_PATTERN.test(date) || Number.isNaN(new Date(`${date}T00:00:00`).getTime())) {
+      return { error: `Special dates must be written as YYYY-MM-DD, got "${date}"` };
+    }
+    const periods = parseDay(dayValue);
+    if (!periods) {
+      return { error: `Invalid hours for ${date}` };
+    }
+    exceptions[date] = periods;
+  }
+
+  return { hours: { weekly, exceptions } };
+}
+
+/**
+ * Parse a venue's hours into a schedule
+ * @param hours venues.hours
+ * @returns Schedule, or null for free text and invalid schedules
+ */
+export function parseOpeningHours(hours: string | null): OpeningHours | null {
+  if (!hours?.trim()) return null;
+
+  let value: unknown;
+  try {
+    value = JSON.parse(hours);
+  } catch {
+    return null;
+  }
+
+  return readSchedule(value).hours ?? null;
+}
+
+/**
+ * Check a schedule before it is saved to venues.hours
+ * @returns Error message, or null if the schedule is valid
+ */
+export function validateOpeningHours(schedule: unknown): string | null {
+  return readSchedule(schedule).error ?? null;
+}
+
+// Local calendar date, as used for exceptions
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Hours for a calendar day, a special date's hours take precedence over the weekly ones
+ */
+export function getPeriodsOn(hours: OpeningHours, date: Date): OpeningPeriod[] {
+  return hours.exceptions[toDateKey(date)] ?? hours.weekly[WEEKDAYS[date.getDay()]];
+}
+
+// Open intervals from the day before `now` (for overnight periods) through the next week,
+// with back-to-back periods such as 18:00-00:00 and 00:00-04:00 merged
+function getOpenIntervals(hours: OpeningHours, now: Date): { start: Date; end: Date }[] {
+  const intervals: { start: Date; end: Date }[] = [];
+
+  for (let offset = -1; offset <= 7; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    for (const period of getPeriodsOn(hours, day)) {
+      const closeOffset = period.close <= period.open ? MINUTES_PER_DAY : 0;
+      intervals.push({
+        start: new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, period.open),
+        end: new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, period.close + closeOffset),
+      });
+    }
+  }
+
+  intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: { start: Date; end: Date }[] = [];
+  for (const interval of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end;
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Whether the venue is open at a time, false without a schedule
+ */
+export function isOpenNow(hours: OpeningHours | null, now: Date = new Date()): boolean {
+  return closesIn(hours, now) !== null;
+}
+
+/**
+ * Minutes until the venue closes
+ * @returns Minutes, or null if it is closed or has no schedule
+ */
+export function closesIn(hours: OpeningHours | null, now: Date = new Date()): number | null {
+  if (!hours) return null;
+
+  const current = getOpenIntervals(hours, now).find(
+    (interval) => interval.start <= now && now < interval.end
+  );
+  return current ? Math.ceil((current.end.getTime() - now.getTime()) / 60000) : null;
+}
+
+/**
+ * When the venue next opens
+ * @returns Opening time, or null if it is open, has no schedule or stays closed all week
+ */
+export function opensAt(hours: OpeningHours | null, now: Date = new Date()): Date | null {
+  if (!hours || isOpenNow(hours, now)) return null;
+
+  return getOpenIntervals(hours, now).find((interval) => interval.start > now)?.start ?? null;
+}
+
+/**
+ * Format minutes after midnight, e.g. "9 PM" or "9:30 PM"
+ */
+export function formatOpeningTime(minutes: number): string {
+  const hour = Math.floor(minutes / 60) % 24;
+  const minute = minutes % 60;
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  const meridiem = hour < 12 ? 'AM' : 'PM';
+  return minute === 0
+    ? `${displayHour} ${meridiem}`
+    : `${displayHour}:${String(minute).padStart(2, '0')} ${meridiem}`;
+}
+
+/**
+ * Describe a day's hours, e.g. "9 PM – 4 AM" or "Closed"
+ */
+export function formatOpeningPeriods(periods: OpeningPeriod[]): string {
+  if (periods.length === 0) return 'Closed';
+
+  return periods
+    .map((period) =>
+      period.open === period.close
+        ? 'Open 24 hours'
+        : `${formatOpeningTime(period.open)} – ${formatOpeningTime(period.close)}`
+    )
+    .join(', ');
+}
+
+/**
+ * Short open / closed status, e.g. "Open until 2 AM", "Closes in 25 min" or "Closed · opens Fri 9 PM"
+ */
+export function formatOpeningStatus(hours: OpeningHours, now: Date = new Date()): string {
+  const minutesLeft = closesIn(hours, now);
+
+  if (minutesLeft !== null) {
+    if (minutesLeft <= OPENING_HOURS_CONFIG.closingSoonMinutes) {
+      return `Closes in ${minutesLeft} min`;
+    }
+    if (minutesLeft >= 7 * MINUTES_PER_DAY) {
+      return 'Open 24 hours';
+    }
+    const closing = new Date(now.getTime() + minutesLeft * 60000);
+    return `Open until ${formatOpeningTime(closing.getHours() * 60 + closing.getMinutes())}`;
+  }
+
+  const opening = opensAt(hours, now);
+  if (!opening) return 'Closed';
+
+  const time = formatOpeningTime(opening.getHours() * 60 + opening.getMinutes());
+  const isToday = toDateKey(opening) === toDateKey(now);
+  return isToday
+    ? `Closed · opens ${time}`
+    : `Closed · opens ${WEEKDAY_LABELS[WEEKDAYS[opening.getDay()]].slice(0, 3)} ${time}`;
+}
+
+/**
+ * Today's hours for a venue, e.g. "Today: 9 PM – 4 AM". Free text hours are returned as they are.
+ */
+export function describeTodayHours(hours: string | null, now: Date = new Date()): string {
+  if (!hours?.trim()) return 'Hours not available';
+
+  const schedule = parseOpeningHours(hours);
+  if (!schedule) return hours;
+
+  return `Today: ${formatOpeningPeriods(getPeriodsOn(schedule, now))}`;
+}
@@ -0,0 +1,104 @@
+/**
+ * Weekly popular-times forecast helpers.
+ * The venue_popular_times view buckets vibe checks by UTC day and hour; these helpers
+ * shift them into the device's time zone and compare live busyness with the forecast.
+ */
+
+import { BusynessComparison, BusynessEstimate, PopularTimesHour } from './types';
+import { VIBE_CHECK_CONFIG } from './constants';
+
+const HOURS_PER_WEEK = 7 * 24;
+
+export interface PopularTimesRow {
+  day_of_week: number; // UTC, 0 = Sunday
+  hour: number; // UTC
+  average_busyness: number | string | null;
+  sample_count: number | string;
+}
+
+/**
+ * Turn popular-times rows into a full week of hours in local time, Sunday 00:00 first
+ * @param rows Rows from the venue_popular_times view
+ * @param timezoneOffsetMinutes Offset as returned by Date.getTimezoneOffset()
+ */
+export function toLocalPopularTimes(
+  rows: PopularTimesRow[],
+  timezoneOffsetMinutes: number = new Date().getTimezoneOffset()
+): PopularTimesHour[] {
+  const offsetHours = Math.round(timezoneOffsetMinutes / 60);
+  const week: PopularTimesHour[] = Array.from({ length: HOURS_PER_WEEK }, (_, index) => ({
+    day_of_week: Math.floor(index / 24),
+    hour: index % 24,
+    average_busyness: null,
+    sample_count: 0,
+  }));
+
+  for (const row of rows) {
+    const utcIndex = Number(row.day_of_week) * 24 + Number(row.hour);
+    const localIndex = (((utcIndex - offsetHours) % HOURS_PER_WEEK) + HOURS_PER_WEEK) % HOURS_PER_WEEK;
+    week[localIndex] = {
+      ...week[localIndex],
+      average_busyness: row.average_busyness === null ? null : Number(row.average_busyness),
+      sample_count: Number(row.sample_count),
+    };
+  }
+
+  return week;
+}
+
+/**
+ * Get the 24 forecast hours of one day
+ */
+export function getPopularTimesForDay(
+  popularTimes: PopularTimesHour[],
+  dayOfWeek: number
+): PopularTimesHour[] {
+  return popularTimes.filter(hour => hour.day_of_week === dayOfWeek);
+}
+
+/**
+ * Get the forecast hour containing a given time
+ */
+export function getForecastForTime(
+  popularTimes: PopularTimesHour[],
+  time: Date = new Date()
+): PopularTimesHour | null {
+  return popularTimes.find(
+    hour => hour.day_of_week === time.getDay() && hour.hour === time.getHours()
+  ) ?? null;
+}
+
+/**
+ * Compare live busyness with the forecast for the same hour.
+ * Returns null when either side is too thin to compare.
+ */
+export function compareWithForecast(
+  estimate: BusynessEstimate | null | undefined,
+  forecast: PopularTimesHour | null | undefined
+): BusynessComparison | null {
+  if (!estimate || estimate.busyness === null || estimate.confidence_level === 'low') {
+    return null;
+  }
+
+  if (
+    !forecast ||
+    forecast.average_busyness === null ||
+    forecast.sample_count < VIBE_CHECK_CONFIG.popularTimesMinSamples
+  ) {
+    return null;
+  }
+
+  const difference = estimate.busyness - forecast.average_busyness;
+  if (difference >= VIBE_CHECK_CONFIG.unusualBusynessDifference) return 'busier';
+  if (difference <= -VIBE_CHECK_CONFIG.unusualBusynessDifference) return 'quieter';
+  return 'usual';
+}
+
+/**
+ * Short label for an hour on the chart axis, e.g. "9p"
+ */
+export function formatPopularTimesHour(hour: number): string {
+  const suffix = hour < 12 ? 'a' : 'p';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}${suffix}`;
+}
@@ -0,0 +1,126 @@
+/**
+ * "For you" venue ranking. A user's affinity for a venue adds up their own views, likes, shares,
+ * bookmarks, reviews and vibe checks there, each fading with age. Other venues are scored by how
+ * similar they are to the venues the user likes, where two venues are similar when the same people
+ * engaged with both (see get_venue_co_visits()).
+ */
+
+import { RECOMMENDATION_CONFIG } from './constants';
+import { VenueCoVisit, VenueInteractionSignal } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How much one interaction says about liking a venue, before it fades.
+ * Reviews below 3 stars count against the venue.
+ */
+export function getSignalWeight(signal: VenueInteractionSignal): number {
+  if (signal.kind === 'review') {
+    return ((signal.rating ?? 3) - 3) * RECOMMENDATION_CONFIG.reviewWeightPerStar;
+  }
+  return RECOMMENDATION_CONFIG.interactionWeights[signal.kind];
+}
+
+/**
+ * Affinity for each venue the user interacted with, halving every affinityHalfLifeDays.
+ * Signals without a valid time are left out.
+ */
+export function buildVenueAffinity(
+  signals: VenueInteractionSignal[],
+  now: Date = new Date()
+): Map<string, number> {
+  const halfLifeMs = RECOMMENDATION_CONFIG.affinityHalfLifeDays * DAY_MS;
+  const affinity = new Map<string, number>();
+
+  for (const signal of signals) {
+    const occurredAt = new Date(signal.occurred_at).getTime();
+    if (Number.isNaN(occurredAt)) continue;
+
+    const ageMs = Math.max(0, now.getTime() - occurredAt);
+    const weight = getSignalWeight(signal) * Math.pow(0.5, ageMs / halfLifeMs);
+    affinity.set(signal.venue_id, (affinity.get(signal.venue_id) ?? 0) + weight);
+  }
+
+  return affinity;
+}
+
+/**
+ * Venues the user did more than look at, which recommendations shouldn't suggest back to them
+ */
+export function getEngagedVenueIds(signals: VenueInteractionSignal[]): Set<string> {
+  return new Set(signals.filter((signal) => signal.kind !== 'view').map((signal) => signal.venue_id));
+}
+
+/**
+ * The venues the user likes most, to look for related venues of
+ */
+export function pickSeedVenues(
+  affinity: Map<string, number>,
+  max: number = RECOMMENDATION_CONFIG.maxSeedVenues
+): string[] {
+  return Array.from(affinity.entries())
+    .filter(([, value]) => value > 0)
+    .sort(([aId, a], [bId, b]) => b - a || aId.localeCompare(bId))
+    .slice(0, max)
+    .map(([venueId]) => venueId);
+}
+
+/**
+ * Cosine similarity of the people who engaged with each venue, 0-1
+ */
+export function getCoVisitSimilarity(coVisit: VenueCoVisit): number {
+  const denominator = Math.sqrt(coVisit.venue_users * coVisit.related_users);
+  return denominator > 0 ? Math.min(1, coVisit.shared_users / denominator) : 0;
+}
+
+/**
+ * Score venues by their similarity to the venues the user likes, weighted by how much they like
+ * each one. A venue the user reviewed badly keeps its negative affinity so it stays at the bottom.
+ */
+export function scoreVenues(
+  affinity: Map<string, number>,
+  coVisits: VenueCoVisit[]
+): Map<string, number> {
+  const scores = new Map<string, number>();
+
+  for (const coVisit of coVisits) {
+    const seedAffinity = affinity.get(coVisit.venue_id) ?? 0;
+    if (seedAffinity <= 0) continue;
+
+    const score = seedAffinity * getCoVisitSimilarity(coVisit);
+    scores.set(coVisit.related_venue_id, (scores.get(coVisit.related_venue_id) ?? 0) + score);
+  }
+
+  affinity.forEach((value, venueId) => {
+    if (value < 0) {
+      scores.set(venueId, (scores.get(venueId) ?? 0) + value);
+    }
+  });
+
+  return scores;
+}
+
+/**
+ * Best scored first. Venues with the same score, including all unscored venues, keep their order.
+ */
+export function rankForYou<T extends { id: string }>(venues: T[], scores: Map<string, number>): T[] {
+  return venues
+    .map((venue, index) => ({ venue, index, score: scores.get(venue.id) ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ venue }) => venue);
+}
+
+/**
+ * Best scored venues to suggest, leaving out ones the user already engaged with
+ */
+export function pickRecommendedVenueIds(
+  scores: Map<string, number>,
+  engagedVenueIds: Set<string>,
+  limit: number
+): string[] {
+  return Array.from(scores.entries())
+    .filter(([venueId, score]) => score > 0 && !engagedVenueIds.has(venueId))
+    .sort(([aId, a], [bId, b]) => b - a || aId.localeCompare(bId))
+    .slice(0, limit)
+    .map(([venueId]) => venueId);
+}
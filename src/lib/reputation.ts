@@ -0,0 +1,25 @@
+/**
+ * Contributor reputation helpers.
+ * Scores run from 0 to 100 and are calculated in the database by
+ * calculate_user_reputation(). Keep the weighting below in sync with
+ * public.reputation_weight() so client and materialized view averages match.
+ */
+
+export const DEFAULT_REPUTATION_SCORE = 50;
+export const TRUSTED_REPUTATION_SCORE = 75;
+const MIN_REPUTATION_WEIGHT = 0.1;
+
+/**
+ * Get how much a contributor's vibe checks count towards venue averages
+ */
+export function getReputationWeight(score?: number | null): number {
+  const reputation = typeof score === 'number' ? score : DEFAULT_REPUTATION_SCORE;
+  return Math.max(reputation / 100, MIN_REPUTATION_WEIGHT);
+}
+
+/**
+ * Check if a contributor has earned the trusted badge
+ */
+export function isTrustedContributor(score?: number | null): boolean {
+  return typeof score === 'number' && score >= TRUSTED_REPUTATION_SCORE;
+}
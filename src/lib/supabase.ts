@@ -36,6 +36,8 @@ export interface Database {
           email: string
           university: string | null
           avatar_url: string | null
+          role: 'user' | 'moderator' | 'admin'
+          reputation_score: number
           created_at: string
         }
         Insert: {
@@ -44,6 +46,8 @@ export interface Database {
           email: string
           university?: string | null
           avatar_url?: string | null
+          role?: 'user' | 'moderator' | 'admin'
+          reputation_score?: number
           created_at?: string
         }
         Update: {
@@ -52,6 +56,8 @@ export interface Database {
           email?: string
           university?: string | null
           avatar_url?: string | null
+          role?: 'user' | 'moderator' | 'admin'
+          reputation_score?: number
           created_at?: string
         }
       }
@@ -68,6 +74,9 @@ export interface Database {
           latitude: number | null
           longitude: number | null
           address: string | null
+          geofence_radius_meters: number | null
+          geofence_polygon: { latitude: number; longitude: number }[] | null
+          tags: string[]
           created_at: string
           updated_at: string
         }
@@ -83,6 +92,9 @@ export interface Database {
           latitude?: number | null
           longitude?: number | null
           address?: string | null
+          geofence_radius_meters?: number | null
+          geofence_polygon?: { latitude: number; longitude: number }[] | null
+          tags?: string[]
           created_at?: string
           updated_at?: string
         }
@@ -98,6 +110,9 @@ export interface Database {
           latitude?: number | null
           longitude?: number | null
           address?: string | null
+          geofence_radius_meters?: number | null
+          geofence_polygon?: { latitude: number; longitude: number }[] | null
+          tags?: string[]
           created_at?: string
           updated_at?: string
         }
@@ -106,32 +121,44 @@ export interface Database {
         Row: {
           id: string
           name: string
-          venue_id: string
+          venue_id: string | null
           date: string
           time: string
           max_size: number
           creator_id: string
+          is_public: boolean
+          description: string | null
+          invite_code: string
           created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
           name: string
-          venue_id: string
+          venue_id?: string | null
           date: string
           time: string
           max_size: number
           creator_id: string
+          is_public?: boolean
+          description?: string | null
+          invite_code?: string
           created_at?: string
+          updated_at?: string
         }
         Update: {
           id?: string
           name?: string
-          venue_id?: string
+          venue_id?: string | null
           date?: string
           time?: string
           max_size?: number
           creator_id?: string
+          is_public?: boolean
+          description?: string | null
+          invite_code?: string
           created_at?: string
+          updated_at?: string
         }
       }
       group_members: {
@@ -140,6 +167,8 @@ export interface Database {
           group_id: string
           user_id: string
           approved: boolean
+          role: 'creator' | 'admin' | 'member'
+          last_read_at: string
           created_at: string
         }
         Insert: {
@@ -147,6 +176,8 @@ export interface Database {
           group_id: string
           user_id: string
           approved?: boolean
+          role?: 'creator' | 'admin' | 'member'
+          last_read_at?: string
           created_at?: string
         }
         Update: {
@@ -154,6 +185,8 @@ export interface Database {
           group_id?: string
           user_id?: string
           approved?: boolean
+          role?: 'creator' | 'admin' | 'member'
+          last_read_at?: string
           created_at?: string
         }
       }
@@ -163,6 +196,8 @@ export interface Database {
           group_id: string
           sender_id: string
           content: string
+          message_type: 'text' | 'image' | 'system'
+          image_url: string | null
           created_at: string
         }
         Insert: {
@@ -170,6 +205,8 @@ export interface Database {
           group_id: string
           sender_id: string
           content: string
+          message_type?: 'text' | 'image' | 'system'
+          image_url?: string | null
           created_at?: string
         }
         Update: {
@@ -177,9 +214,106 @@ export interface Database {
           group_id?: string
           sender_id?: string
           content?: string
+          message_type?: 'text' | 'image' | 'system'
+          image_url?: string | null
+          created_at?: string
+        }
+      }
+      group_polls: {
+        Row: {
+          id: string
+          group_id: string
+          created_by: string | null
+          closes_at: string
+          closed_at: string | null
+          winner_venue_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          group_id: string
+          created_by?: string | null
+          closes_at: string
+          closed_at?: string | null
+          winner_venue_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          group_id?: string
+          created_by?: string | null
+          closes_at?: string
+          closed_at?: string | null
+          winner_venue_id?: string | null
+          created_at?: string
+        }
+      }
+      group_poll_options: {
+        Row: {
+          id: string
+          poll_id: string
+          venue_id: string
+          added_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          poll_id: string
+          venue_id: string
+          added_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          poll_id?: string
+          venue_id?: string
+          added_by?: string | null
           created_at?: string
         }
       }
+      group_poll_votes: {
+        Row: {
+          poll_id: string
+          option_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          poll_id: string
+          option_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          poll_id?: string
+          option_id?: string
+          user_id?: string
+          created_at?: string
+        }
+      }
+      user_follows: {
+        Row: {
+          follower_id: string
+          following_id: string
+          status: 'pending' | 'accepted'
+          created_at: string
+          accepted_at: string | null
+        }
+        Insert: {
+          follower_id: string
+          following_id: string
+          status?: 'pending' | 'accepted'
+          created_at?: string
+          accepted_at?: string | null
+        }
+        Update: {
+          follower_id?: string
+          following_id?: string
+          status?: 'pending' | 'accepted'
+          created_at?: string
+          accepted_at?: string | null
+        }
+      }
       vibe_checks: {
         Row: {
           id: string
@@ -188,9 +322,23 @@ export interface Database {
           busyness_rating: 1 | 2 | 3 | 4 | 5
           comment: string | null
           photo_url: string | null
+          media: { type: 'image' | 'video'; url: string; duration_seconds?: number | null }[]
           user_latitude: number
           user_longitude: number
+          location_accuracy_meters: number | null
+          location_confidence: 'low' | 'medium' | 'high' | null
           created_at: string
+          music_genre: string | null
+          queue_length: 'none' | 'short' | 'medium' | 'long' | null
+          wait_minutes: number | null
+          cover_charge: number | null
+          crowd_age_range: '18-24' | '25-34' | '35-44' | '45+' | 'mixed' | null
+          dress_code_rating: 1 | 2 | 3 | 4 | 5 | null
+          helpful_count: number
+          still_accurate_count: number
+          last_confirmed_at: string | null
+          report_count: number
+          hidden_at: string | null
         }
         Insert: {
           id?: string
@@ -199,9 +347,23 @@ export interface Database {
           busyness_rating: 1 | 2 | 3 | 4 | 5
           comment?: string | null
           photo_url?: string | null
+          media?: { type: 'image' | 'video'; url: string; duration_seconds?: number | null }[]
           user_latitude: number
           user_longitude: number
+          location_accuracy_meters?: number | null
+          location_confidence?: 'low' | 'medium' | 'high' | null
           created_at?: string
+          music_genre?: string | null
+          queue_length?: 'none' | 'short' | 'medium' | 'long' | null
+          wait_minutes?: number | null
+          cover_charge?: number | null
+          crowd_age_range?: '18-24' | '25-34' | '35-44' | '45+' | 'mixed' | null
+          dress_code_rating?: 1 | 2 | 3 | 4 | 5 | null
+          helpful_count?: number
+          still_accurate_count?: number
+          last_confirmed_at?: string | null
+          report_count?: number
+          hidden_at?: string | null
         }
         Update: {
           id?: string
@@ -210,10 +372,99 @@ export interface Database {
           busyness_rating?: 1 | 2 | 3 | 4 | 5
           comment?: string | null
           photo_url?: string | null
+          media?: { type: 'image' | 'video'; url: string; duration_seconds?: number | null }[]
           user_latitude?: number
           user_longitude?: number
+          location_accuracy_meters?: number | null
+          location_confidence?: 'low' | 'medium' | 'high' | null
+          created_at?: string
+          music_genre?: string | null
+          queue_length?: 'none' | 'short' | 'medium' | 'long' | null
+          wait_minutes?: number | null
+          cover_charge?: number | null
+          crowd_age_range?: '18-24' | '25-34' | '35-44' | '45+' | 'mixed' | null
+          dress_code_rating?: 1 | 2 | 3 | 4 | 5 | null
+          helpful_count?: number
+          still_accurate_count?: number
+          last_confirmed_at?: string | null
+          report_count?: number
+          hidden_at?: string | null
+        }
+      }
+      vibe_check_reactions: {
+        Row: {
+          id: string
+          vibe_check_id: string
+          user_id: string
+          reaction_type: 'helpful' | 'still_accurate'
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          vibe_check_id: string
+          user_id: string
+          reaction_type: 'helpful' | 'still_accurate'
           created_at?: string
         }
+        Update: {
+          id?: string
+          vibe_check_id?: string
+          user_id?: string
+          reaction_type?: 'helpful' | 'still_accurate'
+          created_at?: string
+        }
+      }
+      vibe_check_reports: {
+        Row: {
+          id: string
+          vibe_check_id: string
+          reporter_id: string
+          reason: 'spam' | 'offensive' | 'fake' | 'other'
+          details: string | null
+          status: 'pending' | 'dismissed' | 'actioned'
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          vibe_check_id: string
+          reporter_id: string
+          reason: 'spam' | 'offensive' | 'fake' | 'other'
+          details?: string | null
+          status?: 'pending' | 'dismissed' | 'actioned'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          vibe_check_id?: string
+          reporter_id?: string
+          reason?: 'spam' | 'offensive' | 'fake' | 'other'
+          details?: string | null
+          status?: 'pending' | 'dismissed' | 'actioned'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+      }
+      moderation_settings: {
+        Row: {
+          id: boolean
+          auto_hide_report_threshold: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          auto_hide_report_threshold?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          auto_hide_report_threshold?: number
+          updated_at?: string
+        }
       }
     }
   }
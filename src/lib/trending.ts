@@ -0,0 +1,72 @@
+/**
+ * Wording for trending venues. get_trending_venues() scores and ranks the venues and picks the
+ * signals that are rising fast; this turns them into reasons like "4× the usual vibe checks".
+ */
+
+import { TRENDING_CONFIG } from './constants';
+import { TRENDING_SIGNAL_LABELS, TrendingSignal, TrendingVenue } from './types';
+
+// Below this many expected in the window a multiple means little, so the count is shown instead
+const MIN_EXPECTED_FOR_MULTIPLE = 1;
+
+/**
+ * Count of a signal in the trending window and its usual count
+ */
+export function getTrendingSignalCounts(
+  venue: TrendingVenue,
+  signal: TrendingSignal
+): { recent: number; expected: number } {
+  switch (signal) {
+    case 'vibe_checks':
+      return { recent: venue.recent_vibe_checks, expected: venue.expected_vibe_checks };
+    case 'views':
+      return { recent: venue.recent_views, expected: venue.expected_views };
+    case 'bookmarks':
+      return { recent: venue.recent_bookmarks, expected: venue.expected_bookmarks };
+  }
+}
+
+// "the last hour" or "the last 30 min"
+function describeWindow(windowMinutes: number): string {
+  if (windowMinutes === 60) return 'the last hour';
+  if (windowMinutes % 60 === 0) return `the last ${windowMinutes / 60} hours`;
+  return `the last ${windowMinutes} min`;
+}
+
+/**
+ * Why a signal is rising, e.g. "4× the usual vibe checks" or "6 saves in the last hour"
+ * for venues that usually see next to none.
+ */
+export function describeTrendingSignal(
+  venue: TrendingVenue,
+  signal: TrendingSignal,
+  windowMinutes: number = TRENDING_CONFIG.windowMinutes
+): string {
+  const { recent, expected } = getTrendingSignalCounts(venue, signal);
+  const label = TRENDING_SIGNAL_LABELS[signal];
+
+  if (expected < MIN_EXPECTED_FOR_MULTIPLE) {
+    return `${recent} ${label} in ${describeWindow(windowMinutes)}`;
+  }
+  return `${Math.floor(recent / expected)}× the usual ${label}`;
+}
+
+/**
+ * Reasons for each rising signal, fastest first
+ */
+export function getTrendingReasons(
+  venue: TrendingVenue,
+  windowMinutes: number = TRENDING_CONFIG.windowMinutes
+): string[] {
+  return venue.rising_signals.map((signal) => describeTrendingSignal(venue, signal, windowMinutes));
+}
+
+/**
+ * One-line reason for a trending badge. Venues trend on a mix of smaller rises too.
+ */
+export function describeTrending(
+  venue: TrendingVenue,
+  windowMinutes: number = TRENDING_CONFIG.windowMinutes
+): string {
+  return getTrendingReasons(venue, windowMinutes)[0] ?? 'Busier than usual';
+}
@@ -4,6 +4,18 @@ import { Database } from './supabase'
 export type User = Database['public']['Tables']['users']['Row']
 export type Venue = Database['public']['Tables']['venues']['Row']
 export type VibeCheck = Database['public']['Tables']['vibe_checks']['Row']
+export type VibeCheckReaction = Database['public']['Tables']['vibe_check_reactions']['Row']
+export type VibeCheckReport = Database['public']['Tables']['vibe_check_reports']['Row']
+export type PartyGroup = Database['public']['Tables']['party_groups']['Row']
+export type GroupMember = Database['public']['Tables']['group_members']['Row']
+export type GroupMessage = Database['public']['Tables']['messages']['Row']
+export type GroupPoll = Database['public']['Tables']['group_polls']['Row']
+export type GroupPollOption = Database['public']['Tables']['group_poll_options']['Row']
+export type GroupPollVote = Database['public']['Tables']['group_poll_votes']['Row']
+export type UserFollow = Database['public']['Tables']['user_follows']['Row']
+
+// Uploaded photo or video clip, stored in order in vibe_checks.media
+export type VibeCheckMedia = VibeCheck['media'][number]
 
 // Core vibe check interface
 export interface VibeCheckWithDetails extends VibeCheck {
@@ -11,6 +23,7 @@ export interface VibeCheckWithDetails extends VibeCheck {
     id: string;
     name: string;
     avatar_url?: string;
+    reputation_score?: number; // 0-100, see src/lib/reputation.ts
   };
   venue: {
     id: string;
@@ -18,7 +31,7 @@ export interface VibeCheckWithDetails extends VibeCheck {
     address?: string;
   };
   time_ago: string; // "2 minutes ago"
-  is_recent: boolean; // within last 2 hours
+  is_recent: boolean; // posted or confirmed within last 2 hours
 }
 
 // Venue with vibe check summary
@@ -26,19 +39,138 @@ export interface VenueWithVibeCheck extends Venue {
   latest_vibe_check?: VibeCheckWithDetails;
   recent_vibe_count: number;
   average_recent_busyness?: number;
+  busyness_estimate?: BusynessEstimate;
   has_live_activity: boolean;
 }
 
+// Venue found by the nearby search, with its distance from the search location
+export interface NearbyVenue extends Venue {
+  distance_meters: number;
+}
+
+// Last venue of a nearby search page, the next page starts after it
+export interface NearbyVenuesCursor {
+  distance_meters: number;
+  id: string;
+}
+
+// Promotion running at a venue
+export interface VenuePromotion {
+  id: string;
+  venue_id: string;
+  title: string;
+  description: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+// Venue card from get_venue_summaries(), everything a venue list shows but live busyness
+export interface VenueSummary extends Venue {
+  activity_rank: number; // 0 without live activity, 1-3 by busyness confidence. Pages list higher ranks first
+  distance_meters: number | null; // Null when the page isn't searched around a location
+  average_rating: number; // 0 without reviews
+  review_count: number;
+  total_vibe_checks: number; // From venue_vibe_stats, refreshed periodically
+  vibe_checks_24h: number;
+  promotions: VenuePromotion[]; // Running today, newest first
+  is_bookmarked: boolean; // By the signed-in user
+}
+
+// Last card of a venue summaries page, the next page starts after it.
+// Pages continue by activity rank, then by distance around a location or by created_at.
+export interface VenueSummariesCursor {
+  activity_rank: number;
+  distance_meters: number | null;
+  created_at: string;
+  id: string;
+}
+
+// Venue found by the full-text venue search
+export interface VenueSearchResult extends Venue {
+  rank: number; // Relevance to the search, 0 without search words
+  distance_meters: number | null; // Null without a search location or venue coordinates
+  average_rating: number; // 0 without reviews
+  review_count: number;
+  has_promotion: boolean; // Has a promotion running today
+}
+
+// Filters for the venue search. Distance, rating and promotions are applied by search_venues(),
+// live busyness and opening hours by the app.
+export interface VenueSearchFilters {
+  maxDistanceMeters?: number; // Needs a search location
+  minRating?: number; // 1-5
+  minBusyness?: BusynessRating; // Busyness filters leave out venues without live activity
+  maxBusyness?: BusynessRating;
+  openNow?: boolean;
+  hasPromotion?: boolean;
+}
+
+// Activity get_trending_venues() compares with each venue's usual rate
+export const TRENDING_SIGNAL_LABELS = {
+  vibe_checks: 'vibe checks',
+  views: 'views',
+  bookmarks: 'saves',
+} as const;
+
+export type TrendingSignal = keyof typeof TRENDING_SIGNAL_LABELS;
+
+// Venue from get_trending_venues(), with its activity in the trending window
+export interface TrendingVenue extends Venue {
+  trending_score: number; // How far above usual the venue's activity is, higher trends more
+  recent_vibe_checks: number;
+  expected_vibe_checks: number; // Usual count for the window, from the venue's baseline
+  recent_views: number;
+  expected_views: number;
+  recent_bookmarks: number;
+  expected_bookmarks: number;
+  rising_signals: TrendingSignal[]; // Signals rising fast, fastest first
+}
+
+// Something a user did at or with a venue, the input to "For you" recommendations
+export interface VenueInteractionSignal {
+  venue_id: string;
+  kind: 'view' | 'like' | 'share' | 'bookmark' | 'review' | 'vibe_check';
+  occurred_at: string;
+  rating?: number; // Reviews only, 1-5
+}
+
+// Row of get_venue_co_visits(): how many people engaged with both venues
+export interface VenueCoVisit {
+  venue_id: string;
+  related_venue_id: string;
+  shared_users: number;
+  venue_users: number; // People who engaged with venue_id
+  related_users: number; // People who engaged with related_venue_id
+}
+
+// Optional structured details reported with a vibe check
+export interface VibeCheckAttributes {
+  music_genre?: MusicGenre;
+  queue_length?: QueueLength;
+  wait_minutes?: number;
+  cover_charge?: number; // Whole amount in VIBE_CHECK_CONFIG.coverChargeCurrency, 0 for free entry
+  crowd_age_range?: CrowdAgeRange;
+  dress_code_rating?: DressCodeRating;
+}
+
 // Form data for creating vibe checks
-export interface VibeCheckFormData {
+export interface VibeCheckFormData extends VibeCheckAttributes {
   venue_id: string;
   busyness_rating: 1 | 2 | 3 | 4 | 5;
   comment?: string;
-  photo?: {
-    uri: string;
-    type: string;
-    name: string;
-  };
+  media?: VibeCheckMediaInput[]; // Up to VIBE_CHECK_CONFIG.maxMediaItems photos and video clips
+}
+
+// Photo or video clip picked for a vibe check.
+// A uri equal to the url of an item already on the vibe check keeps that item when editing.
+export interface VibeCheckMediaInput {
+  uri: string;
+  type: string; // MIME type, e.g. image/jpeg or video/mp4
+  name: string;
+  duration_seconds?: number; // Videos only
+  size_bytes?: number;
 }
 
 // Location verification result
@@ -46,8 +178,32 @@ export interface LocationVerification {
   is_valid: boolean;
   distance_meters: number;
   venue_name: string;
+  accuracy_meters?: number | null; // Accuracy radius of the location fix
+  confidence?: LocationConfidence | null; // null when the fix doesn't place the user at the venue
+  failure_reason?: LocationVerificationFailure;
+  geofence?: VenueGeofence; // Geofence the fix was checked against
+  outside_meters?: number; // How far the fix is outside the geofence, 0 inside
 }
 
+// Corner of a venue's geofence polygon
+export type GeofencePoint = NonNullable<Venue['geofence_polygon']>[number]
+
+// Area a user must be in to post a vibe check at a venue, see src/lib/geofence.ts
+export type VenueGeofence =
+  | { type: 'radius'; latitude: number; longitude: number; radius_meters: number }
+  | { type: 'polygon'; points: GeofencePoint[] };
+
+// How confidently a location fix places the user at a venue, stored on each vibe check
+export const LOCATION_CONFIDENCE_LABELS = {
+  low: 'Approximate location',
+  medium: 'Verified nearby',
+  high: 'Verified at venue'
+} as const;
+
+export type LocationConfidence = keyof typeof LOCATION_CONFIDENCE_LABELS;
+
+export type LocationVerificationFailure = 'too_far' | 'inaccurate' | 'mocked' | 'no_venue_location';
+
 // Busyness rating labels
 export const BUSYNESS_LABELS = {
   1: 'Dead',
@@ -59,6 +215,165 @@ export const BUSYNESS_LABELS = {
 
 export type BusynessRating = keyof typeof BUSYNESS_LABELS;
 
+// Days of the week, in Date.getDay() order
+export const WEEKDAY_LABELS = {
+  sunday: 'Sunday',
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday'
+} as const;
+
+export type Weekday = keyof typeof WEEKDAY_LABELS;
+
+// A time a venue is open, in minutes after midnight. Periods that close at or before
+// they open run overnight into the next day, so 22:00-04:00 is { open: 1320, close: 240 }.
+export interface OpeningPeriod {
+  open: number;
+  close: number;
+}
+
+// A venue's typed weekly schedule, parsed from venues.hours
+export interface OpeningHours {
+  weekly: Record<Weekday, OpeningPeriod[]>; // No periods on days the venue is closed
+  exceptions: Record<string, OpeningPeriod[]>; // Special dates as YYYY-MM-DD, replacing the weekly hours
+}
+
+// How much to trust a venue's estimated busyness
+export const BUSYNESS_CONFIDENCE_LABELS = {
+  low: 'Low confidence',
+  medium: 'Fair confidence',
+  high: 'High confidence'
+} as const;
+
+export type BusynessConfidence = keyof typeof BUSYNESS_CONFIDENCE_LABELS;
+
+// Venue busyness estimated from recent vibe checks, newer and more reputable reports count more
+export interface BusynessEstimate {
+  busyness: number | null; // 1-5, null without recent vibe checks
+  confidence: number; // 0-1, grows with the number and freshness of reports
+  confidence_level: BusynessConfidence;
+  report_count: number;
+  latest_report_at: string | null; // Posted or last confirmed
+}
+
+// One hour of a venue's weekly popular-times forecast, in the device's time zone
+export interface PopularTimesHour {
+  day_of_week: number; // 0 = Sunday, as Date.getDay()
+  hour: number; // 0-23
+  average_busyness: number | null; // 1-5, null without vibe checks at this hour
+  sample_count: number;
+}
+
+// How live busyness compares with the forecast for the current hour
+export const BUSYNESS_COMPARISON_LABELS = {
+  quieter: 'Quieter than usual',
+  usual: 'As busy as usual',
+  busier: 'Busier than usual'
+} as const;
+
+export type BusynessComparison = keyof typeof BUSYNESS_COMPARISON_LABELS;
+
+// Music genre labels
+export const MUSIC_GENRE_LABELS = {
+  afrobeats: 'Afrobeats',
+  amapiano: 'Amapiano',
+  bongo: 'Bongo Flava',
+  gengetone: 'Gengetone',
+  hiphop: 'Hip Hop',
+  rnb: 'R&B',
+  house: 'House',
+  dancehall: 'Reggae / Dancehall',
+  pop: 'Pop',
+  rock: 'Rock',
+  live_band: 'Live Band',
+  other: 'Other',
+} as const;
+
+export type MusicGenre = keyof typeof MUSIC_GENRE_LABELS;
+
+// Queue length labels
+export const QUEUE_LENGTH_LABELS = {
+  none: 'No queue',
+  short: 'Short queue',
+  medium: 'Moderate queue',
+  long: 'Long queue',
+} as const;
+
+export type QueueLength = keyof typeof QUEUE_LENGTH_LABELS;
+
+// Crowd age range labels
+export const CROWD_AGE_RANGE_LABELS = {
+  '18-24': '18–24',
+  '25-34': '25–34',
+  '35-44': '35–44',
+  '45+': '45+',
+  mixed: 'Mixed ages',
+} as const;
+
+export type CrowdAgeRange = keyof typeof CROWD_AGE_RANGE_LABELS;
+
+// Dress code strictness labels
+export const DRESS_CODE_LABELS = {
+  1: 'Anything goes',
+  2: 'Casual',
+  3: 'Smart casual',
+  4: 'Dressy',
+  5: 'Strict',
+} as const;
+
+export type DressCodeRating = keyof typeof DRESS_CODE_LABELS;
+
+// Venue-level summary of the structured details in recent vibe checks
+export interface VenueVibeAttributeSummary {
+  music_genre: string | null; // Most reported
+  queue_length: QueueLength | null; // Most reported
+  wait_minutes: number | null; // Median
+  cover_charge: number | null; // Median
+  crowd_age_range: CrowdAgeRange | null; // Most reported
+  dress_code_rating: DressCodeRating | null; // Rounded average
+  report_count: number; // Vibe checks that reported at least one detail
+}
+
+// Kinds of media that can be attached to a vibe check
+export const VIBE_CHECK_MEDIA_TYPE_LABELS = {
+  image: 'Photo',
+  video: 'Video'
+} as const;
+
+export type VibeCheckMediaType = keyof typeof VIBE_CHECK_MEDIA_TYPE_LABELS;
+
+// Reactions other users can leave on a vibe check
+export const VIBE_CHECK_REACTION_LABELS = {
+  helpful: 'Helpful',
+  still_accurate: 'Still accurate',
+} as const;
+
+export type VibeCheckReactionType = keyof typeof VIBE_CHECK_REACTION_LABELS;
+
+// Reaction counts stored on a vibe check
+export type VibeCheckReactionCounts = Pick<
+  VibeCheck,
+  'helpful_count' | 'still_accurate_count' | 'last_confirmed_at'
+>;
+
+// Reasons a vibe check can be reported for
+export const VIBE_CHECK_REPORT_REASON_LABELS = {
+  spam: 'Spam',
+  offensive: 'Offensive',
+  fake: 'Fake or misleading',
+  other: 'Something else',
+} as const;
+
+export type VibeCheckReportReason = keyof typeof VIBE_CHECK_REPORT_REASON_LABELS;
+
+// Vibe check waiting for moderator review, with its open reports
+export interface ReportedVibeCheck extends VibeCheckWithDetails {
+  reports: Pick<VibeCheckReport, 'id' | 'reason' | 'details' | 'created_at'>[];
+}
+
 // Real-time subscription types
 export interface RealtimeVibeCheckEvent {
   type: 'INSERT' | 'UPDATE' | 'DELETE';
@@ -71,4 +386,172 @@ export interface RealtimeSubscriptionCallbacks {
   onVibeCheckUpdate?: (vibeCheck: VibeCheckWithDetails) => void;
   onVibeCheckDelete?: (vibeCheckId: string) => void;
   onError?: (error: any) => void;
-}
\ No newline at end of file
+}
+
+// Vibe check captured while offline, waiting in the outbox to be posted
+export interface PendingVibeCheck {
+  id: string; // local id, not a database id
+  user_id: string;
+  form: VibeCheckFormData; // Photo uris hold compressed data URIs
+  venue: Pick<Venue, 'id' | 'name' | 'address'>;
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    timestamp: number;
+    mocked?: boolean;
+  };
+  captured_at: string;
+  attempts: number;
+  status: 'pending' | 'sending' | 'failed';
+  last_error?: string;
+}
+
+// Party group with its venue and who has joined, as the group screens show it
+export interface PartyGroupWithDetails extends PartyGroup {
+  venue: {
+    id: string;
+    name: string;
+    address: string | null;
+    cover_image_url: string | null;
+  } | null;
+  member_count: number; // Approved members, the creator included
+  is_member: boolean; // Approved member, for the signed-in user
+  is_creator: boolean;
+  is_admin: boolean; // Creator or approved admin, who can manage members
+  has_requested: boolean; // Waiting for the user's join request to be approved
+  pending_count: number; // Join requests waiting for approval, only counted for admins
+}
+
+// Member roles, see the group_members policies in database/schema.sql
+export const GROUP_ROLE_LABELS = {
+  creator: 'Organiser',
+  admin: 'Admin',
+  member: 'Member'
+} as const;
+
+export type GroupRole = keyof typeof GROUP_ROLE_LABELS;
+
+// Member of a party group, or someone asking to join, with their profile
+export interface GroupMemberProfile {
+  user_id: string;
+  role: GroupRole;
+  name: string | null;
+  avatar_url: string | null;
+}
+
+// Party group screen, with everyone who has joined
+export interface PartyGroupDetails extends PartyGroupWithDetails {
+  members: GroupMemberProfile[]; // Creator first, then by when they joined
+  requests: GroupMemberProfile[]; // Pending join requests, oldest first, only for admins
+}
+
+// Changes an admin can make to a member, see getGroupMemberActions() in src/lib/groups.ts
+export type GroupMemberAction = 'promote' | 'demote' | 'remove';
+
+// Group an invite code opens, from get_group_by_invite()
+export interface GroupInvite {
+  id: string;
+  name: string;
+  date: string;
+  time: string;
+  max_size: number;
+  is_public: boolean;
+  venue_name: string | null;
+  member_count: number;
+}
+
+// Chat message with who sent it. System messages announce joins, leaves and plan changes.
+export interface GroupMessageWithSender extends GroupMessage {
+  sender: {
+    name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+// Where the next, older page of a group chat starts
+export interface GroupMessagesCursor {
+  created_at: string;
+  id: string;
+}
+
+// Where a venue poll is at: taking votes, past its close time but not closed yet, or closed
+// with its winner. See getGroupPollStatus() in src/lib/groupPolls.ts.
+export type GroupPollStatus = 'open' | 'due' | 'closed';
+
+// What a user fills in to create or edit a party group
+export interface PartyGroupInput {
+  name: string;
+  venue_id?: string | null;
+  date: string; // YYYY-MM-DD
+  time: string; // HH:MM, 24 hour
+  max_size: number; // GROUP_CONFIG.minSize to GROUP_CONFIG.maxSize, the creator included
+  is_public?: boolean;
+  description?: string | null;
+}
+
+// How one side of a follow stands between the current user and someone else
+export type FollowState = 'none' | 'requested' | 'following';
+
+// Follows both ways between the current user and someone else, see getFollowRelationship() in
+// src/lib/follows.ts
+export interface FollowRelationship {
+  outgoing: FollowState; // The current user following them
+  incoming: FollowState; // Them following the current user
+}
+
+// From get_follow_counts()
+export interface FollowCounts {
+  followers: number;
+  following: number;
+  requests: number; // Follow requests waiting for an answer, only counted for the current user
+}
+
+// Someone in a list of followers, people followed or follow requests
+export interface FollowProfile {
+  id: string;
+  name: string | null;
+  avatar_url: string | null;
+  university: string | null;
+  followed_at: string; // When they followed or asked to, or were followed
+}
+
+// Review in the Friends feed
+export interface FriendReview {
+  id: string;
+  rating: number; // 1-5
+  comment: string | null;
+  created_at: string;
+  user: {
+    id: string;
+    name: string | null;
+    avatar_url: string | null;
+  };
+  venue: {
+    id: string;
+    name: string;
+  };
+}
+
+// Upcoming party group that people the user follows have joined
+export interface FriendGroupPlan {
+  group: {
+    id: string;
+    name: string;
+    date: string;
+    time: string;
+    venue: { id: string; name: string } | null;
+  };
+  friends: {
+    id: string;
+    name: string | null;
+    avatar_url: string | null;
+  }[]; // Latest to join first
+  joined_at: string; // When the latest of them joined
+}
+
+// Item in the Friends feed, see buildFriendsActivity() in src/lib/follows.ts
+export type FriendActivity =
+  | { type: 'vibe_check'; id: string; created_at: string; vibeCheck: VibeCheckWithDetails }
+  | { type: 'review'; id: string; created_at: string; review: FriendReview }
+  | { type: 'group_plan'; id: string; created_at: string; plan: FriendGroupPlan };
@@ -0,0 +1,101 @@
+/**
+ * Picking venues to compare side by side and reading the comparison table. The selection is
+ * a list of venue ids in the order they were picked, which is also the column order.
+ */
+
+import { VENUE_COMPARE_CONFIG } from './constants';
+import { VibeCheckWithDetails } from './types';
+import { isVenueId } from './venueLinks';
+
+/**
+ * Add a venue to the selection, or take it out if it's already there.
+ * A full selection is returned unchanged.
+ */
+export function toggleCompareSelection(selectedIds: string[], venueId: string): string[] {
+  if (selectedIds.includes(venueId)) {
+    return selectedIds.filter(id => id !== venueId);
+  }
+  if (selectedIds.length >= VENUE_COMPARE_CONFIG.maxVenues) {
+    return selectedIds;
+  }
+  return [...selectedIds, venueId];
+}
+
+// Whether the selection has enough venues to compare
+export function canCompareVenues(selectedIds: string[]): boolean {
+  return (
+    selectedIds.length >= VENUE_COMPARE_CONFIG.minVenues &&
+    selectedIds.length <= VENUE_COMPARE_CONFIG.maxVenues
+  );
+}
+
+// In-app route of the comparison screen, for router.push()
+export function getComparePath(venueIds: string[]): `/compare?ids=${string}` {
+  return `/compare?ids=${venueIds.map(encodeURIComponent).join(',')}`;
+}
+
+/**
+ * Venue ids from the comparison screen's ids parameter, without duplicates or anything that
+ * can't be a venue id, and at most VENUE_COMPARE_CONFIG.maxVenues of them.
+ */
+export function parseCompareIds(param: string | string[] | undefined): string[] {
+  const values = Array.isArray(param) ? param : [param ?? ''];
+  const ids = values
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(isVenueId);
+
+  return [...new Set(ids)].slice(0, VENUE_COMPARE_CONFIG.maxVenues);
+}
+
+/**
+ * Photo from a vibe check for the comparison table: the first uploaded image,
+ * or the older single photo_url.
+ */
+export function getVibeCheckPhoto(
+  vibeCheck: Pick<VibeCheckWithDetails, 'media' | 'photo_url'> | null | undefined
+): string | null {
+  if (!vibeCheck) return null;
+  const image = (vibeCheck.media || []).find(item => item.type === 'image');
+  return image?.url ?? vibeCheck.photo_url ?? null;
+}
+
+/**
+ * Ids of the venues with the best value in a table row, to highlight them. Venues without a
+ * value are left out, and nothing is highlighted unless at least two venues have one.
+ */
+export function getBestVenueIds<T extends { id: string }>(
+  venues: T[],
+  getValue: (venue: T) => number | null | undefined,
+  best: 'highest' | 'lowest'
+): string[] {
+  const valued = venues
+    .map(venue => ({ id: venue.id, value: getValue(venue) }))
+    .filter((entry): entry is { id: string; value: number } =>
+      typeof entry.value === 'number' && !Number.isNaN(entry.value)
+    );
+  if (valued.length < 2) return [];
+
+  const values = valued.map(entry => entry.value);
+  const target = best === 'highest' ? Math.max(...values) : Math.min(...values);
+  // Nothing stands out when every venue is the same
+  if (values.every(value => value === target)) return [];
+
+  return valued.filter(entry => entry.value === target).map(entry => entry.id);
+}
+
+/**
+ * Maps link with directions to a venue, or null without coordinates. Apple Maps on iOS,
+ * Google Maps elsewhere.
+ */
+export function getDirectionsUrl(
+  venue: { latitude: number | null; longitude: number | null },
+  platform: string
+): string | null {
+  if (venue.latitude === null || venue.longitude === null) return null;
+
+  const destination = `${venue.latitude},${venue.longitude}`;
+  return platform === 'ios'
+    ? `https://maps.apple.com/?daddr=${destination}`
+    : `https://www.google.com/maps/dir/?api=1&destination=${destination}`;
+}
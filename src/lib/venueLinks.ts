@@ -0,0 +1,32 @@
+/**
+ * Links to a venue's screen. expo-router maps both buzzvar://venue/<id> and
+ * https://buzzvar.app/venue/<id> onto app/venue/[id].tsx, so shared links and
+ * notifications only need one of these to open a venue directly.
+ */
+
+import { VENUE_LINK_CONFIG } from './constants';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a route parameter can be a venue id. Venue ids are UUIDs, so anything else
+ * is a broken link and doesn't need a database round trip to be shown as not found.
+ */
+export function isVenueId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+// In-app route of a venue's screen, for router.push()
+export function getVenuePath(venueId: string): `/venue/${string}` {
+  return `/venue/${encodeURIComponent(venueId)}`;
+}
+
+// Deep link that opens the venue in the installed app
+export function getVenueAppLink(venueId: string): string {
+  return `${VENUE_LINK_CONFIG.scheme}:/${getVenuePath(venueId)}`;
+}
+
+// Web link that opens the venue in the app when installed, or on the web otherwise
+export function getVenueWebLink(venueId: string): string {
+  return `${VENUE_LINK_CONFIG.webOrigin}${getVenuePath(venueId)}`;
+}
@@ -0,0 +1,65 @@
+/**
+ * Venue search filters the app applies itself. search_venues() handles the search words,
+ * distance, rating and promotions; live busyness and opening hours are only known once a
+ * page of results has its vibe check stats and parsed hours, so they are checked here.
+ */
+
+import { BusynessEstimate, VenueSearchFilters } from './types';
+import { isOpenNow, parseOpeningHours } from './openingHours';
+
+export interface LiveSearchCandidate {
+  hours: string | null;
+  busyness_estimate?: BusynessEstimate;
+  has_live_activity?: boolean;
+}
+
+/**
+ * Whether a venue's live busyness is within the filter's range, as shown on its busyness indicator.
+ * Without live activity a venue has no current busyness, so it only passes when busyness isn't filtered.
+ */
+export function matchesBusynessRange(
+  venue: LiveSearchCandidate,
+  { minBusyness, maxBusyness }: VenueSearchFilters
+): boolean {
+  if (minBusyness === undefined && maxBusyness === undefined) return true;
+
+  const busyness = venue.has_live_activity ? venue.busyness_estimate?.busyness : null;
+  if (busyness === null || busyness === undefined) return false;
+
+  const rating = Math.round(busyness);
+  return rating >= (minBusyness ?? 1) && rating <= (maxBusyness ?? 5);
+}
+
+/**
+ * Whether a venue passes the filters applied in the app: live busyness and open now
+ */
+export function matchesLiveFilters(
+  venue: LiveSearchCandidate,
+  filters: VenueSearchFilters,
+  now: Date = new Date()
+): boolean {
+  if (filters.openNow && !isOpenNow(parseOpeningHours(venue.hours), now)) {
+    return false;
+  }
+  return matchesBusynessRange(venue, filters);
+}
+
+/**
+ * Number of filters in use, for the filter button's badge. A busyness range counts once.
+ */
+export function countActiveFilters(filters: VenueSearchFilters): number {
+  return [
+    filters.maxDistanceMeters !== undefined,
+    filters.minRating !== undefined,
+    filters.minBusyness !== undefined || filters.maxBusyness !== undefined,
+    Boolean(filters.openNow),
+    Boolean(filters.hasPromotion),
+  ].filter(Boolean).length;
+}
+
+/**
+ * Whether there is anything to search for: search words or at least one filter
+ */
+export function hasSearchCriteria(query: string, filters: VenueSearchFilters): boolean {
+  return query.trim().length > 0 || countActiveFilters(filters) > 0;
+}
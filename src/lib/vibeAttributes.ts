@@ -0,0 +1,165 @@
+/**
+ * Helpers for the optional structured details of a vibe check
+ * (music, queue, cover charge, crowd age and dress code)
+ */
+
+import {
+  VibeCheck,
+  VibeCheckAttributes,
+  VenueVibeAttributeSummary,
+  MusicGenre,
+  DressCodeRating,
+  MUSIC_GENRE_LABELS,
+  QUEUE_LENGTH_LABELS,
+  CROWD_AGE_RANGE_LABELS,
+  DRESS_CODE_LABELS,
+} from './types';
+import { VIBE_CHECK_CONFIG } from './constants';
+
+type VibeCheckAttributeColumns = Pick<
+  VibeCheck,
+  | 'music_genre'
+  | 'queue_length'
+  | 'wait_minutes'
+  | 'cover_charge'
+  | 'crowd_age_range'
+  | 'dress_code_rating'
+>;
+
+/**
+ * Read the structured details of a stored vibe check
+ */
+export function getVibeCheckAttributes(vibeCheck: VibeCheckAttributeColumns): VibeCheckAttributes {
+  return {
+    music_genre: (vibeCheck.music_genre as MusicGenre | null) ?? undefined,
+    queue_length: vibeCheck.queue_length ?? undefined,
+    wait_minutes: vibeCheck.wait_minutes ?? undefined,
+    cover_charge: vibeCheck.cover_charge ?? undefined,
+    crowd_age_range: vibeCheck.crowd_age_range ?? undefined,
+    dress_code_rating: vibeCheck.dress_code_rating ?? undefined,
+  };
+}
+
+/**
+ * Convert form attributes to database columns, clearing the ones left empty
+ */
+export function toVibeCheckAttributeColumns(
+  attributes: VibeCheckAttributes
+): VibeCheckAttributeColumns {
+  return {
+    music_genre: attributes.music_genre ?? null,
+    queue_length: attributes.queue_length ?? null,
+    wait_minutes: attributes.wait_minutes ?? null,
+    cover_charge: attributes.cover_charge ?? null,
+    crowd_age_range: attributes.crowd_age_range ?? null,
+    dress_code_rating: attributes.dress_code_rating ?? null,
+  };
+}
+
+/**
+ * Check if a vibe check reported any structured details
+ */
+export function hasVibeCheckAttributes(vibeCheck: VibeCheckAttributeColumns): boolean {
+  return Object.values(getVibeCheckAttributes(vibeCheck)).some(value => value !== undefined);
+}
+
+export function formatMusicGenre(genre: string): string {
+  return MUSIC_GENRE_LABELS[genre as MusicGenre] ?? genre;
+}
+
+export function formatCoverCharge(amount: number): string {
+  if (amount === 0) {
+    return 'Free entry';
+  }
+  return `${VIBE_CHECK_CONFIG.coverChargeCurrency} ${amount.toLocaleString()} cover`;
+}
+
+/**
+ * Format the queue as a wait time when one was reported, e.g. "~15 min queue"
+ */
+export function formatQueue(
+  queueLength: keyof typeof QUEUE_LENGTH_LABELS | null | undefined,
+  waitMinutes: number | null | undefined
+): string | null {
+  if (waitMinutes !== null && waitMinutes !== undefined) {
+    return waitMinutes === 0 ? QUEUE_LENGTH_LABELS.none : `~${waitMinutes} min queue`;
+  }
+  return queueLength ? QUEUE_LENGTH_LABELS[queueLength] : null;
+}
+
+/**
+ * Summarize the structured details of recent vibe checks for a venue
+ * @param vibeChecks Vibe checks ordered newest first. Ties go to the most recent report.
+ */
+export function summarizeVibeAttributes(
+  vibeChecks: VibeCheckAttributeColumns[]
+): VenueVibeAttributeSummary {
+  const dressCodeRatings = vibeChecks
+    .map(vc => vc.dress_code_rating)
+    .filter((rating): rating is DressCodeRating => rating !== null && rating !== undefined);
+
+  return {
+    music_genre: mostReported(vibeChecks.map(vc => vc.music_genre)),
+    queue_length: mostReported(vibeChecks.map(vc => vc.queue_length)),
+    wait_minutes: median(vibeChecks.map(vc => vc.wait_minutes)),
+    cover_charge: median(vibeChecks.map(vc => vc.cover_charge)),
+    crowd_age_range: mostReported(vibeChecks.map(vc => vc.crowd_age_range)),
+    dress_code_rating: dressCodeRatings.length > 0
+      ? (Math.round(
+          dressCodeRatings.reduce((sum, rating) => sum + rating, 0) / dressCodeRatings.length
+        ) as DressCodeRating)
+      : null,
+    report_count: vibeChecks.filter(hasVibeCheckAttributes).length,
+  };
+}
+
+/**
+ * Format a venue summary as a short line, e.g. "~15 min queue · Afrobeats · KES 500 cover"
+ */
+export function formatVibeAttributeSummary(summary: VenueVibeAttributeSummary): string | null {
+  const parts = [
+    formatQueue(summary.queue_length, summary.wait_minutes),
+    summary.music_genre ? formatMusicGenre(summary.music_genre) : null,
+    summary.cover_charge !== null ? formatCoverCharge(summary.cover_charge) : null,
+    summary.crowd_age_range ? `${CROWD_AGE_RANGE_LABELS[summary.crowd_age_range]} crowd` : null,
+    summary.dress_code_rating ? DRESS_CODE_LABELS[summary.dress_code_rating] : null,
+  ].filter((part): part is string => !!part);
+
+  return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+function mostReported<T extends string>(values: (T | null | undefined)[]): T | null {
+  const counts = new Map<T, number>();
+  for (const value of values) {
+    if (value !== null && value !== undefined) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  // Map keeps first-seen order, so ties go to the earliest value in the list
+  let best: T | null = null;
+  let bestCount = 0;
+  for (const [value, count] of Array.from(counts.entries())) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+
+  return best;
+}
+
+function median(values: (number | null | undefined)[]): number | null {
+  const sorted = values
+    .filter((value): value is number => value !== null && value !== undefined)
+    .sort((a, b) => a - b);
+
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+    : sorted[middle];
+}
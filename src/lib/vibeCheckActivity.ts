@@ -0,0 +1,42 @@
+/**
+ * Helpers for how long a vibe check counts as live activity.
+ * A vibe check stays active from its last "still accurate" confirmation,
+ * not just from when it was posted.
+ */
+
+import { VibeCheck } from './types';
+
+type VibeCheckActivityColumns = Pick<VibeCheck, 'created_at'> &
+  Partial<Pick<VibeCheck, 'last_confirmed_at'>>;
+
+/**
+ * Get the time a vibe check was last posted or confirmed
+ */
+export function getVibeCheckActivityTime(vibeCheck: VibeCheckActivityColumns): Date {
+  const createdAt = new Date(vibeCheck.created_at);
+  if (!vibeCheck.last_confirmed_at) {
+    return createdAt;
+  }
+
+  const confirmedAt = new Date(vibeCheck.last_confirmed_at);
+  return confirmedAt > createdAt ? confirmedAt : createdAt;
+}
+
+/**
+ * Check if a vibe check was posted or confirmed after the given time
+ */
+export function isVibeCheckActiveSince(
+  vibeCheck: VibeCheckActivityColumns,
+  since: Date
+): boolean {
+  return getVibeCheckActivityTime(vibeCheck) > since;
+}
+
+/**
+ * Build a PostgREST `or` filter for vibe checks posted or confirmed after the given time.
+ * Pass `{ referencedTable: 'vibe_checks' }` to `.or()` when filtering a joined resource.
+ */
+export function activeSinceFilter(since: Date): string {
+  const iso = since.toISOString();
+  return `created_at.gte.${iso},last_confirmed_at.gte.${iso}`;
+}
@@ -3,8 +3,21 @@
  * Ensures all form inputs meet requirements before submission
  */
 
-import { VibeCheckFormData, BusynessRating, LocationVerification } from './types';
+import {
+  VibeCheckFormData,
+  VibeCheckAttributes,
+  VibeCheckMediaInput,
+  BusynessRating,
+  LocationVerification,
+  VenueGeofence,
+  MUSIC_GENRE_LABELS,
+  QUEUE_LENGTH_LABELS,
+  CROWD_AGE_RANGE_LABELS,
+  DRESS_CODE_LABELS,
+} from './types';
 import { ErrorFactory, AppError } from './errors';
+import { GEOFENCE_CONFIG, VIBE_CHECK_CONFIG } from './constants';
+import { describeGeofenceLimit, getGeofenceMaxDistance } from './geofence';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -15,15 +28,18 @@ export interface ValidationError {
   field: string;
   message: string;
   code: string;
+  geofence?: VenueGeofence; // LOCATION_TOO_FAR only
 }
 
 export class VibeCheckValidator {
   private static readonly MAX_COMMENT_LENGTH = 280;
   private static readonly MIN_BUSYNESS_RATING = 1;
   private static readonly MAX_BUSYNESS_RATING = 5;
-  private static readonly MAX_DISTANCE_METERS = 100;
+  private static readonly MAX_DISTANCE_METERS = GEOFENCE_CONFIG.defaultRadiusMeters;
   private static readonly SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/jpg', 'image/png'];
+  private static readonly SUPPORTED_VIDEO_TYPES = ['video/mp4', 'video/quicktime'];
   private static readonly MAX_IMAGE_SIZE_MB = 5;
+  private static readonly MAX_VIDEO_SIZE_MB = 25;
 
   /**
    * Validate complete vibe check form data
@@ -54,14 +70,20 @@ export class VibeCheckValidator {
       }
     }
 
-    // Validate photo (optional)
-    if (data.photo) {
-      const photoValidation = this.validatePhoto(data.photo);
-      if (!photoValidation.isValid) {
-        errors.push(...photoValidation.errors);
+    // Validate photos and video clips (optional)
+    if (data.media && data.media.length > 0) {
+      const mediaValidation = this.validateMedia(data.media);
+      if (!mediaValidation.isValid) {
+        errors.push(...mediaValidation.errors);
       }
     }
 
+    // Validate structured attributes (optional)
+    const attributesValidation = this.validateAttributes(data);
+    if (!attributesValidation.isValid) {
+      errors.push(...attributesValidation.errors);
+    }
+
     // Validate location verification
     if (locationVerification) {
       const locationValidation = this.validateLocationVerification(locationVerification);
@@ -191,9 +213,39 @@ export class VibeCheckValidator {
   }
 
   /**
-   * Validate photo data
+   * Validate the photos and video clips attached to a vibe check
+   */
+  static validateMedia(media: VibeCheckMediaInput[]): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (media.length > VIBE_CHECK_CONFIG.maxMediaItems) {
+      errors.push({
+        field: 'media',
+        message: `You can attach up to ${VIBE_CHECK_CONFIG.maxMediaItems} photos or videos`,
+        code: 'MEDIA_TOO_MANY',
+      });
+    }
+
+    media.forEach((item, index) => {
+      const itemValidation = this.validatePhoto(item);
+      errors.push(
+        ...itemValidation.errors.map(error => ({
+          ...error,
+          field: error.field.replace(/^photo/, `media[${index}]`),
+        }))
+      );
+    });
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  /**
+   * Validate a photo or video clip
    */
-  static validatePhoto(photo: { uri: string; type: string; name: string }): ValidationResult {
+  static validatePhoto(photo: VibeCheckMediaInput): ValidationResult {
     const errors: ValidationError[] = [];
 
     if (!photo.uri) {
@@ -216,12 +268,35 @@ export class VibeCheckValidator {
         message: 'Photo type is required',
         code: 'PHOTO_TYPE_REQUIRED',
       });
-    } else if (!this.SUPPORTED_IMAGE_TYPES.includes(photo.type.toLowerCase())) {
+    } else if (
+      !this.SUPPORTED_IMAGE_TYPES.includes(photo.type.toLowerCase()) &&
+      !this.SUPPORTED_VIDEO_TYPES.includes(photo.type.toLowerCase())
+    ) {
       errors.push({
         field: 'photo.type',
-        message: `Photo type must be one of: ${this.SUPPORTED_IMAGE_TYPES.join(', ')}`,
+        message: `Photo type must be one of: ${[...this.SUPPORTED_IMAGE_TYPES, ...this.SUPPORTED_VIDEO_TYPES].join(', ')}`,
         code: 'PHOTO_TYPE_UNSUPPORTED',
       });
+    } else if (this.SUPPORTED_VIDEO_TYPES.includes(photo.type.toLowerCase())) {
+      // Photos are compressed before upload, videos are uploaded as recorded
+      if (
+        photo.duration_seconds !== undefined &&
+        photo.duration_seconds > VIBE_CHECK_CONFIG.maxVideoDurationSeconds
+      ) {
+        errors.push({
+          field: 'photo.duration_seconds',
+          message: `Videos cannot be longer than ${VIBE_CHECK_CONFIG.maxVideoDurationSeconds} seconds`,
+          code: 'VIDEO_TOO_LONG',
+        });
+      }
+
+      if (photo.size_bytes !== undefined && photo.size_bytes > this.MAX_VIDEO_SIZE_MB * 1024 * 1024) {
+        errors.push({
+          field: 'photo.size_bytes',
+          message: `Videos cannot be larger than ${this.MAX_VIDEO_SIZE_MB}MB`,
+          code: 'VIDEO_TOO_LARGE',
+        });
+      }
     }
 
     if (!photo.name) {
@@ -244,6 +319,95 @@ export class VibeCheckValidator {
     };
   }
 
+  /**
+   * Validate structured attributes. Every attribute is optional.
+   */
+  static validateAttributes(attributes: VibeCheckAttributes): ValidationResult {
+    const errors: ValidationError[] = [];
+    const {
+      music_genre,
+      queue_length,
+      wait_minutes,
+      cover_charge,
+      crowd_age_range,
+      dress_code_rating,
+    } = attributes;
+
+    if (music_genre !== undefined && !this.isLabelKey(music_genre, MUSIC_GENRE_LABELS)) {
+      errors.push({
+        field: 'music_genre',
+        message: 'Music genre is not supported',
+        code: 'MUSIC_GENRE_INVALID',
+      });
+    }
+
+    if (queue_length !== undefined && !this.isLabelKey(queue_length, QUEUE_LENGTH_LABELS)) {
+      errors.push({
+        field: 'queue_length',
+        message: `Queue length must be one of: ${Object.keys(QUEUE_LENGTH_LABELS).join(', ')}`,
+        code: 'QUEUE_LENGTH_INVALID',
+      });
+    }
+
+    if (wait_minutes !== undefined) {
+      if (
+        !Number.isInteger(wait_minutes) ||
+        wait_minutes < 0 ||
+        wait_minutes > VIBE_CHECK_CONFIG.maxWaitMinutes
+      ) {
+        errors.push({
+          field: 'wait_minutes',
+          message: `Wait time must be a whole number of minutes between 0 and ${VIBE_CHECK_CONFIG.maxWaitMinutes}`,
+          code: 'WAIT_MINUTES_OUT_OF_RANGE',
+        });
+      } else if (queue_length === 'none' && wait_minutes > 0) {
+        errors.push({
+          field: 'wait_minutes',
+          message: 'Wait time must be 0 when there is no queue',
+          code: 'WAIT_MINUTES_WITHOUT_QUEUE',
+        });
+      }
+    }
+
+    if (
+      cover_charge !== undefined &&
+      (!Number.isInteger(cover_charge) ||
+        cover_charge < 0 ||
+        cover_charge > VIBE_CHECK_CONFIG.maxCoverCharge)
+    ) {
+      errors.push({
+        field: 'cover_charge',
+        message: `Cover charge must be a whole amount between 0 and ${VIBE_CHECK_CONFIG.maxCoverCharge}`,
+        code: 'COVER_CHARGE_OUT_OF_RANGE',
+      });
+    }
+
+    if (crowd_age_range !== undefined && !this.isLabelKey(crowd_age_range, CROWD_AGE_RANGE_LABELS)) {
+      errors.push({
+        field: 'crowd_age_range',
+        message: `Crowd age range must be one of: ${Object.keys(CROWD_AGE_RANGE_LABELS).join(', ')}`,
+        code: 'CROWD_AGE_RANGE_INVALID',
+      });
+    }
+
+    if (dress_code_rating !== undefined && !this.isLabelKey(dress_code_rating, DRESS_CODE_LABELS)) {
+      errors.push({
+        field: 'dress_code_rating',
+        message: 'Dress code rating must be between 1 and 5',
+        code: 'DRESS_CODE_RATING_OUT_OF_RANGE',
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  private static isLabelKey(value: string | number, labels: object): boolean {
+    return Object.prototype.hasOwnProperty.call(labels, value);
+  }
+
   /**
    * Validate location verification
    */
@@ -251,11 +415,16 @@ export class VibeCheckValidator {
     const errors: ValidationError[] = [];
 
     if (!verification.is_valid) {
-      if (verification.distance_meters > this.MAX_DISTANCE_METERS) {
+      const tooFar = verification.failure_reason
+        ? verification.failure_reason === 'too_far'
+        : verification.distance_meters > this.MAX_DISTANCE_METERS;
+
+      if (tooFar) {
         errors.push({
           field: 'location',
-          message: `You must be within ${this.MAX_DISTANCE_METERS}m of the venue to post a vibe check`,
+          message: `You must be ${describeGeofenceLimit(verification.geofence)} to post a vibe check`,
           code: 'LOCATION_TOO_FAR',
+          geofence: verification.geofence,
         });
       } else {
         errors.push({
@@ -319,8 +488,12 @@ export class VibeCheckValidator {
     const allMessages = validationResult.errors.map(e => e.message).join('; ');
 
     switch (primaryError.code) {
-      case 'LOCATION_TOO_FAR':
-        return ErrorFactory.locationTooFar(0, this.MAX_DISTANCE_METERS);
+      case 'LOCATION_TOO_FAR': {
+        const maxDistance = getGeofenceMaxDistance(primaryError.geofence);
+        return maxDistance === null
+          ? ErrorFactory.locationOutsideVenue(0)
+          : ErrorFactory.locationTooFar(0, maxDistance);
+      }
       case 'RATE_LIMITED':
         return ErrorFactory.rateLimited(3600000); // 1 hour default
       case 'COMMENT_TOO_LONG':
@@ -328,7 +501,7 @@ export class VibeCheckValidator {
       case 'BUSYNESS_RATING_OUT_OF_RANGE':
         return ErrorFactory.invalidInput('busyness_rating', `Rating must be between ${this.MIN_BUSYNESS_RATING} and ${this.MAX_BUSYNESS_RATING}`);
       case 'PHOTO_TYPE_UNSUPPORTED':
-        return ErrorFactory.invalidInput('photo', `Unsupported image type. Use: ${this.SUPPORTED_IMAGE_TYPES.join(', ')}`);
+        return ErrorFactory.invalidInput('photo', `Unsupported media type. Use: ${[...this.SUPPORTED_IMAGE_TYPES, ...this.SUPPORTED_VIDEO_TYPES].join(', ')}`);
       default:
         return ErrorFactory.invalidInput('form', allMessages);
     }
@@ -344,8 +517,14 @@ export class VibeCheckValidator {
       BUSYNESS_RATING_OUT_OF_RANGE: 'Please select a rating between 1 and 5',
       COMMENT_TOO_LONG: `Comment is too long (max ${this.MAX_COMMENT_LENGTH} characters)`,
       COMMENT_HARMFUL_CONTENT: 'Comment contains invalid content',
-      PHOTO_TYPE_UNSUPPORTED: 'Please use a JPEG or PNG image',
-      LOCATION_TOO_FAR: `You must be within ${this.MAX_DISTANCE_METERS}m of the venue`,
+      PHOTO_TYPE_UNSUPPORTED: 'Please use a JPEG or PNG image, or an MP4 or MOV video',
+      MEDIA_TOO_MANY: `Please attach up to ${VIBE_CHECK_CONFIG.maxMediaItems} photos or videos`,
+      VIDEO_TOO_LONG: `Please keep videos under ${VIBE_CHECK_CONFIG.maxVideoDurationSeconds} seconds`,
+      VIDEO_TOO_LARGE: `Please choose a smaller video (max ${this.MAX_VIDEO_SIZE_MB}MB)`,
+      WAIT_MINUTES_OUT_OF_RANGE: `Please enter a wait time up to ${VIBE_CHECK_CONFIG.maxWaitMinutes} minutes`,
+      WAIT_MINUTES_WITHOUT_QUEUE: 'Remove the wait time or pick a queue length',
+      COVER_CHARGE_OUT_OF_RANGE: 'Please enter a valid cover charge',
+      LOCATION_TOO_FAR: `You must be ${describeGeofenceLimit(error.geofence)}`,
       RATE_LIMITED: 'Please wait before posting another vibe check',
     };
 
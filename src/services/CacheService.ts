@@ -371,4 +371,16 @@ export class VibeCheckCacheService extends CacheService {
     // Invalidate live feed cache
     await this.invalidateLiveFeedCache();
   }
-}
\ No newline at end of file
+
+  /**
+   * Invalidate cache when a vibe check is updated or deleted.
+   * DELETE events may not carry the venue ID, in which case only the live feed is invalidated.
+   */
+  static async invalidateOnVibeCheckChange(venueId?: string): Promise<void> {
+    if (venueId) {
+      await this.invalidateVenueCache(venueId);
+    }
+
+    await this.invalidateLiveFeedCache();
+  }
+}
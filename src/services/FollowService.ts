@@ -0,0 +1,308 @@
+import { supabase } from '../lib/supabase';
+import { FRIENDS_FEED_CONFIG } from '../lib/constants';
+import { buildFriendsActivity, FriendMembership, getFollowRelationship, groupFriendPlans } from '../lib/follows';
+import { toGroupDate } from '../lib/groups';
+import {
+  FollowCounts,
+  FollowProfile,
+  FollowRelationship,
+  FriendActivity,
+  FriendReview,
+} from '../lib/types';
+import { OptimizedQueryService } from './OptimizedQueryService';
+
+// user_follows has two foreign keys to users, so embeds name the one they follow
+const FOLLOWER_SELECT = 'created_at, user:users!user_follows_follower_id_fkey(id, name, avatar_url, university)';
+const FOLLOWING_SELECT = 'created_at, user:users!user_follows_following_id_fkey(id, name, avatar_url, university)';
+
+// Follow read with FOLLOWER_SELECT or FOLLOWING_SELECT
+interface FollowRow {
+  created_at: string;
+  user: Omit<FollowProfile, 'followed_at'> | null;
+}
+
+const EMPTY_COUNTS: FollowCounts = { followers: 0, following: 0, requests: 0 };
+
+/**
+ * Follows between users. Following someone sends them a request, and the follow counts once
+ * they accept it. Either side can end a follow. The database only shows a follow to the two
+ * people in it.
+ */
+export class FollowService {
+  /**
+   * Get where the current user and someone else stand, each way
+   * @param userId ID of the current user
+   * @param otherUserId ID of the other user
+   * @returns Promise with the follow state both ways
+   */
+  static async getRelationship(
+    userId: string,
+    otherUserId: string
+  ): Promise<{ data: FollowRelationship; error: string | null }> {
+    const none: FollowRelationship = { outgoing: 'none', incoming: 'none' };
+    try {
+      const { data, error } = await supabase
+        .from('user_follows')
+        .select('follower_id, following_id, status')
+        .or(
+          `and(follower_id.eq.${userId},following_id.eq.${otherUserId}),and(follower_id.eq.${otherUserId},following_id.eq.${userId})`
+        );
+
+      if (error) {
+        return { data: none, error: error.message };
+      }
+      return { data: getFollowRelationship(data || [], userId, otherUserId), error: null };
+    } catch (error) {
+      console.error('Error loading follow relationship:', error);
+      return { data: none, error: error instanceof Error ? error.message : 'Failed to load follows' };
+    }
+  }
+
+  /**
+   * Ask to follow someone
+   * @param userId ID of the current user
+   * @param otherUserId ID of the user to follow
+   * @returns Promise with success status or error
+   */
+  static async requestFollow(userId: string, otherUserId: string): Promise<{ success: boolean; error: string | null }> {
+    if (userId === otherUserId) {
+      return { success: false, error: "You can't follow yourself." };
+    }
+
+    try {
+      const { error } = await supabase
+        .from('user_follows')
+        .insert({ follower_id: userId, following_id: otherUserId });
+
+      // Already following or asked to
+      if (error && error.code !== '23505') {
+        return { success: false, error: error.message };
+      }
+      return { success: true, error: null };
+    } catch (error) {
+      console.error('Error requesting follow:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to follow' };
+    }
+  }
+
+  /**
+   * Accept someone's request to follow the current user
+   * @param userId ID of the current user
+   * @param followerId ID of the user who asked to follow
+   * @returns Promise with success status or error
+   */
+  static async acceptRequest(userId: string, followerId: string): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('user_follows')
+        .update({ status: 'accepted' })
+        .eq('follower_id', followerId)
+        .eq('following_id', userId)
+        .eq('status', 'pending')
+        .select('follower_id');
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+      if (!data || data.length === 0) {
+        return { success: false, error: 'This follow request was withdrawn.' };
+      }
+      return { success: true, error: null };
+    } catch (error) {
+      console.error('Error accepting follow request:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to accept follow request' };
+    }
+  }
+
+  /**
+   * Remove someone who follows the current user, or decline their request
+   * @param userId ID of the current user
+   * @param followerId ID of the follower
+   * @returns Promise with success status or error
+   */
+  static async removeFollower(userId: string, followerId: string): Promise<{ success: boolean; error: string | null }> {
+    return this.deleteFollow(followerId, userId);
+  }
+
+  /**
+   * Stop following someone, or withdraw a request to
+   * @param userId ID of the current user
+   * @param otherUserId ID of the user followed
+   * @returns Promise with success status or error
+   */
+  static async unfollow(userId: string, otherUserId: string): Promise<{ success: boolean; error: string | null }> {
+    return this.deleteFollow(userId, otherUserId);
+  }
+
+  /**
+   * Get how many followers someone has and how many people they follow
+   * @param userId ID of the user
+   * @returns Promise with the counts, including waiting follow requests for the current user
+   */
+  static async getCounts(userId: string): Promise<{ data: FollowCounts; error: string | null }> {
+    try {
+      const { data, error } = await supabase.rpc('get_follow_counts', { p_user_id: userId });
+
+      if (error) {
+        return { data: EMPTY_COUNTS, error: error.message };
+      }
+      const row = Array.isArray(data) ? data[0] : data;
+      return { data: { ...EMPTY_COUNTS, ...row }, error: null };
+    } catch (error) {
+      console.error('Error loading follow counts:', error);
+      return { data: EMPTY_COUNTS, error: error instanceof Error ? error.message : 'Failed to load follow counts' };
+    }
+  }
+
+  /**
+   * Get the current user's followers, latest first
+   * @param userId ID of the current user
+   * @returns Promise with the followers' profiles
+   */
+  static async getFollowers(userId: string): Promise<{ data: FollowProfile[]; error: string | null }> {
+    return this.getFollowProfiles(FOLLOWER_SELECT, 'following_id', userId, 'accepted');
+  }
+
+  /**
+   * Get the people the current user follows, latest first
+   * @param userId ID of the current user
+   * @returns Promise with their profiles
+   */
+  static async getFollowing(userId: string): Promise<{ data: FollowProfile[]; error: string | null }> {
+    return this.getFollowProfiles(FOLLOWING_SELECT, 'follower_id', userId, 'accepted');
+  }
+
+  /**
+   * Get requests to follow the current user waiting for an answer, latest first
+   * @param userId ID of the current user
+   * @returns Promise with the profiles of who asked
+   */
+  static async getRequests(userId: string): Promise<{ data: FollowProfile[]; error: string | null }> {
+    return this.getFollowProfiles(FOLLOWER_SELECT, 'following_id', userId, 'pending');
+  }
+
+  /**
+   * Get recent vibe checks and reviews, and upcoming group plans, from the people the current
+   * user follows
+   * @param userId ID of the current user
+   * @returns Promise with the activity, newest first
+   */
+  static async getFriendsActivity(userId: string): Promise<{ data: FriendActivity[]; error: string | null }> {
+    try {
+      const { data: follows, error: followsError } = await supabase
+        .from('user_follows')
+        .select('following_id')
+        .eq('follower_id', userId)
+        .eq('status', 'accepted');
+
+      if (followsError) {
+        return { data: [], error: followsError.message };
+      }
+
+      const userIds = (follows || []).map((follow) => follow.following_id);
+      if (userIds.length === 0) {
+        return { data: [], error: null };
+      }
+
+      const cutoff = new Date(Date.now() - FRIENDS_FEED_CONFIG.activityDays * 24 * 60 * 60 * 1000);
+      const [vibeChecksResult, reviewsResult, membershipsResult] = await Promise.all([
+        OptimizedQueryService.getLiveVibeChecksOptimized(FRIENDS_FEED_CONFIG.activityDays * 24, {
+          limit: FRIENDS_FEED_CONFIG.maxItems,
+          userIds,
+        }),
+        supabase
+          .from('reviews')
+          .select('id, rating, comment, created_at, user:users!inner(id, name, avatar_url), venue:venues!inner(id, name)')
+          .in('user_id', userIds)
+          .gte('created_at', cutoff.toISOString())
+          .order('created_at', { ascending: false })
+          .limit(FRIENDS_FEED_CONFIG.maxItems)
+          .overrideTypes<FriendReview[], { merge: false }>(),
+        // Groups the database shows the current user: public ones and their own
+        supabase
+          .from('group_members')
+          .select(
+            'joined_at:created_at, user:users!inner(id, name, avatar_url), group:party_groups!inner(id, name, date, time, venue:venues(id, name))'
+          )
+          .in('user_id', userIds)
+          .eq('approved', true)
+          .gte('group.date', toGroupDate(new Date()))
+          .order('created_at', { ascending: false })
+          .limit(FRIENDS_FEED_CONFIG.maxItems)
+          .overrideTypes<FriendMembership[], { merge: false }>(),
+      ]);
+
+      const error = vibeChecksResult.error || reviewsResult.error || membershipsResult.error;
+      if (error) {
+        return { data: [], error: error.message };
+      }
+
+      return {
+        data: buildFriendsActivity(
+          {
+            vibeChecks: vibeChecksResult.data,
+            reviews: reviewsResult.data || [],
+            plans: groupFriendPlans(membershipsResult.data || []),
+          },
+          FRIENDS_FEED_CONFIG.maxItems
+        ),
+        error: null,
+      };
+    } catch (error) {
+      console.error('Error loading friends activity:', error);
+      return { data: [], error: error instanceof Error ? error.message : 'Failed to load friends activity' };
+    }
+  }
+
+  private static async deleteFollow(
+    followerId: string,
+    followingId: string
+  ): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabase
+        .from('user_follows')
+        .delete()
+        .eq('follower_id', followerId)
+        .eq('following_id', followingId);
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+      return { success: true, error: null };
+    } catch (error) {
+      console.error('Error removing follow:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to remove follow' };
+    }
+  }
+
+  private static async getFollowProfiles(
+    select: typeof FOLLOWER_SELECT | typeof FOLLOWING_SELECT,
+    column: 'follower_id' | 'following_id',
+    userId: string,
+    status: 'pending' | 'accepted'
+  ): Promise<{ data: FollowProfile[]; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('user_follows')
+        .select(select)
+        .eq(column, userId)
+        .eq('status', status)
+        .order('created_at', { ascending: false })
+        .overrideTypes<FollowRow[], { merge: false }>();
+
+      if (error) {
+        return { data: [], error: error.message };
+      }
+
+      return {
+        data: (data || [])
+          .filter((row) => row.user)
+          .map((row) => ({ ...row.user!, followed_at: row.created_at })),
+        error: null,
+      };
+    } catch (error) {
+      console.error('Error loading follows:', error);
+      return { data: [], error: error instanceof Error ? error.message : 'Failed to load follows' };
+    }
+  }
+}
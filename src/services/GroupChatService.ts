@@ -0,0 +1,260 @@
+import { supabase } from '../lib/supabase';
+import { GROUP_CHAT_CONFIG } from '../lib/constants';
+import { getOlderMessagesCursor, validateChatMessage } from '../lib/groupChat';
+import { GroupMessageWithSender, GroupMessagesCursor } from '../lib/types';
+import { PhotoUploadService } from './PhotoUploadService';
+
+// Message with its sender's profile
+const MESSAGE_SELECT = '*, sender:users(name, avatar_url)';
+
+export interface GroupMessagesQueryOptions {
+  limit?: number;
+  cursor?: GroupMessagesCursor | null; // From a previous page, to load older messages
+}
+
+/**
+ * Chat for party groups. Only approved members can read and send messages, which the
+ * database enforces.
+ */
+export class GroupChatService {
+  /**
+   * Get a page of a group's messages, newest first
+   * @param groupId ID of the group
+   * @param options Page size and the cursor returned with the previous page
+   * @returns Promise with the messages, whether there are older ones and the cursor to them
+   */
+  static async getMessages(
+    groupId: string,
+    options: GroupMessagesQueryOptions = {}
+  ): Promise<{
+    data: GroupMessageWithSender[];
+    error: string | null;
+    hasMore: boolean;
+    nextCursor: GroupMessagesCursor | null;
+  }> {
+    try {
+      const limit = options.limit || GROUP_CHAT_CONFIG.pageSize;
+      let query = supabase
+        .from('messages')
+        .select(MESSAGE_SELECT)
+        .eq('group_id', groupId);
+
+      // Messages older than the cursor, ties on created_at broken by id
+      if (options.cursor) {
+        const { created_at, id } = options.cursor;
+        query = query.or(
+          `created_at.lt."${created_at}",and(created_at.eq."${created_at}",id.lt.${id})`
+        );
+      }
+
+      // Fetch one extra message to know whether there is another page
+      const { data: rows, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1)
+        .overrideTypes<GroupMessageWithSender[], { merge: false }>();
+
+      if (error) {
+        return { data: [], error: error.message, hasMore: false, nextCursor: null };
+      }
+
+      const messages = rows || [];
+      const hasMore = messages.length === limit + 1;
+
+      // Remove extra message if we got one more than requested
+      if (hasMore) {
+        messages.pop();
+      }
+
+      return {
+        data: messages,
+        error: null,
+        hasMore,
+        nextCursor: hasMore ? getOlderMessagesCursor(messages) : null,
+      };
+    } catch (error) {
+      console.error('Error loading group messages:', error);
+      return {
+        data: [],
+        error: error instanceof Error ? error.message : 'Failed to load messages',
+        hasMore: false,
+        nextCursor: null,
+      };
+    }
+  }
+
+  /**
+   * Send a text message to a group
+   * @param groupId ID of the group
+   * @param userId ID of the sender, who must be a member
+   * @param content Message text
+   * @returns Promise with the sent message or error
+   */
+  static async sendMessage(
+    groupId: string,
+    userId: string,
+    content: string
+  ): Promise<{ data: GroupMessageWithSender | null; error: string | null }> {
+    const validationError = validateChatMessage(content);
+    if (validationError) {
+      return { data: null, error: validationError };
+    }
+
+    return this.insertMessage({
+      group_id: groupId,
+      sender_id: userId,
+      content: content.trim(),
+      message_type: 'text',
+    });
+  }
+
+  /**
+   * Send a photo to a group, uploaded through PhotoUploadService
+   * @param groupId ID of the group
+   * @param userId ID of the sender, who must be a member
+   * @param photo Photo data from image picker
+   * @param caption Optional text shown with the photo
+   * @returns Promise with the sent message or error
+   */
+  static async sendImage(
+    groupId: string,
+    userId: string,
+    photo: { uri: string; type: string; name: string },
+    caption: string = ''
+  ): Promise<{ data: GroupMessageWithSender | null; error: string | null }> {
+    if (caption.trim().length > GROUP_CHAT_CONFIG.maxMessageLength) {
+      return { data: null, error: validateChatMessage(caption) };
+    }
+
+    const upload = await PhotoUploadService.uploadPhoto(photo, userId);
+    if (upload.error || !upload.data) {
+      return { data: null, error: upload.error || 'Failed to upload photo. Please try again.' };
+    }
+
+    const result = await this.insertMessage({
+      group_id: groupId,
+      sender_id: userId,
+      content: caption.trim(),
+      message_type: 'image',
+      image_url: upload.data,
+    });
+
+    // Don't leave the photo orphaned in storage if the message was rejected
+    if (result.error) {
+      await PhotoUploadService.deleteUploadedMedia([{ url: upload.data }]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Listen for new messages in a group, including system messages
+   * @param groupId ID of the group
+   * @param onMessage Called with each new message and its sender
+   * @returns Function that stops listening
+   */
+  static subscribe(
+    groupId: string,
+    onMessage: (message: GroupMessageWithSender) => void
+  ): () => void {
+    const channel = supabase
+      .channel(`group-chat:${groupId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `group_id=eq.${groupId}`,
+        },
+        async (payload) => {
+          // Realtime rows don't include the sender's profile
+          const { data, error } = await supabase
+            .from('messages')
+            .select(MESSAGE_SELECT)
+            .eq('id', payload.new.id)
+            .single<GroupMessageWithSender>();
+
+          if (error) {
+            console.error('Error fetching new group message:', error);
+            return;
+          }
+          onMessage(data);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Mark a group's chat as read by the current user
+   * @param groupId ID of the group
+   * @returns Promise with success status or error
+   */
+  static async markRead(groupId: string): Promise<{ success: boolean; error: string | null }> {
+    try {
+      const { error } = await supabase.rpc('mark_group_read', { p_group_id: groupId });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+      return { success: true, error: null };
+    } catch (error) {
+      console.error('Error marking group chat read:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to mark chat read' };
+    }
+  }
+
+  /**
+   * Get how many messages from others the current user hasn't read in each of their groups
+   * @returns Promise with unread counts by group ID, groups without any are left out
+   */
+  static async getUnreadCounts(): Promise<{ data: Record<string, number>; error: string | null }> {
+    try {
+      const { data: rows, error } = await supabase.rpc('get_group_unread_counts');
+
+      if (error) {
+        return { data: {}, error: error.message };
+      }
+
+      const counts: Record<string, number> = {};
+      for (const row of (rows || []) as { group_id: string; unread_count: number }[]) {
+        counts[row.group_id] = row.unread_count;
+      }
+      return { data: counts, error: null };
+    } catch (error) {
+      console.error('Error loading unread group messages:', error);
+      return { data: {}, error: error instanceof Error ? error.message : 'Failed to load unread messages' };
+    }
+  }
+
+  /**
+   * Insert a message and read it back with its sender
+   */
+  private static async insertMessage(
+    message: Pick<GroupMessageWithSender, 'group_id' | 'sender_id' | 'content' | 'message_type'> & {
+      image_url?: string;
+    }
+  ): Promise<{ data: GroupMessageWithSender | null; error: string | null }> {
+    try {
+      const { data, error } = await supabase
+        .from('messages')
+        .insert(message)
+        .select(MESSAGE_SELECT)
+        .single<GroupMessageWithSender>();
+
+      if (error) {
+        console.error('Error sending group message:', error);
+        return { data: null, error: error.message };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error('Error sending group message:', error);
+      return { data: null, error: 'Failed to send message. Please try again.' };
+    }
+  }
+}
@@ -1,10 +1,18 @@
 import * as Location from 'expo-location';
-import { LocationVerification, Venue } from '../lib/types';
+import { LocationConfidence, LocationVerification, Venue } from '../lib/types';
 import { ErrorFactory, AppError, RetryManager } from '../lib/errors';
+import { GEOFENCE_CONFIG } from '../lib/constants';
+import { getGeofenceOffset, getVenueGeofence } from '../lib/geofence';
 import { ConnectivityManager } from '../lib/connectivity';
 
 export class LocationVerificationService {
-  static readonly MAX_DISTANCE_METERS = 100;
+  // Geofence radius of venues without their own, see src/lib/geofence.ts
+  static readonly MAX_DISTANCE_METERS = GEOFENCE_CONFIG.defaultRadiusMeters;
+  // Keep the accuracy threshold in sync with create_vibe_check()
+  static readonly MAX_ACCURACY_METERS = 75;
+  static readonly MAX_LOCATION_AGE_MS = 15 * 60 * 1000; // 15 minutes
+  static readonly LOCATION_SAMPLE_COUNT = 3;
+  static readonly LOCATION_SAMPLE_TIMEOUT_MS = 8000;
 
   /**
    * Request location permissions from the user with comprehensive error handling
@@ -45,7 +53,8 @@ export class LocationVerificationService {
   }
 
   /**
-   * Get the user's current location with retry mechanism and comprehensive error handling
+   * Get the user's current location with retry mechanism and comprehensive error handling.
+   * Several fixes are sampled and combined, see combineLocationFixes.
    * @returns Promise with location data or structured error
    */
   static async getCurrentLocation(): Promise<{
@@ -58,24 +67,19 @@ export class LocationVerificationService {
         throw permissionResult.error;
       }
 
+      let fixes: Location.LocationObject[];
       try {
-        const location = await Location.getCurrentPositionAsync({
-          accuracy: Location.Accuracy.High,
-          timeInterval: 10000, // 10 second timeout
-          distanceInterval: 1,
-        });
-
-        return location;
-      } catch (locationError: any) {
-        // Handle specific location errors
-        if (locationError.code === 'E_LOCATION_TIMEOUT') {
-          throw ErrorFactory.locationUnavailable();
-        }
-        if (locationError.code === 'E_LOCATION_UNAVAILABLE') {
-          throw ErrorFactory.locationUnavailable();
-        }
+        fixes = await this.sampleLocationFixes();
+      } catch (locationError) {
+        console.error('Location sampling failed:', locationError);
         throw ErrorFactory.locationUnavailable();
       }
+
+      if (fixes.length === 0) {
+        throw ErrorFactory.locationUnavailable();
+      }
+
+      return this.combineLocationFixes(fixes);
     };
 
     try {
@@ -91,6 +95,95 @@ export class LocationVerificationService {
     }
   }
 
+  /**
+   * Watch the device position until LOCATION_SAMPLE_COUNT fixes arrive or
+   * LOCATION_SAMPLE_TIMEOUT_MS passes, whichever comes first
+   * @returns Promise with the fixes received, possibly none
+   */
+  private static sampleLocationFixes(): Promise<Location.LocationObject[]> {
+    return new Promise((resolve, reject) => {
+      const fixes: Location.LocationObject[] = [];
+      let subscription: Location.LocationSubscription | null = null;
+      let settled = false;
+
+      const finish = () => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        subscription?.remove();
+        resolve(fixes);
+      };
+
+      const timeout = setTimeout(finish, this.LOCATION_SAMPLE_TIMEOUT_MS);
+
+      Location.watchPositionAsync(
+        {
+          accuracy: Location.Accuracy.High,
+          timeInterval: 1000,
+          distanceInterval: 0,
+        },
+        (fix) => {
+          fixes.push(fix);
+          if (fixes.length >= this.LOCATION_SAMPLE_COUNT) {
+            finish();
+          }
+        }
+      ).then(
+        (watchSubscription) => {
+          subscription = watchSubscription;
+          if (settled) {
+            watchSubscription.remove();
+          }
+        },
+        (error) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timeout);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Combine several fixes into one. The position is the accuracy-weighted mean of the fixes.
+   * The accuracy radius is the best reported accuracy, widened to cover every fix so that
+   * fixes that jump around can't pass for a precise one. The result is mocked if any fix was.
+   * @param fixes Fixes sampled in quick succession, at least one
+   * @returns Combined location
+   */
+  static combineLocationFixes(fixes: Location.LocationObject[]): Location.LocationObject {
+    const latest = fixes.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+    // Fixes without an accuracy count like the least precise fix that could still be verified
+    const weights = fixes.map(fix => {
+      const accuracy = Math.max(fix.coords.accuracy ?? this.MAX_ACCURACY_METERS, 1);
+      return 1 / (accuracy * accuracy);
+    });
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+    const latitude =
+      fixes.reduce((sum, fix, i) => sum + fix.coords.latitude * weights[i], 0) / totalWeight;
+    const longitude =
+      fixes.reduce((sum, fix, i) => sum + fix.coords.longitude * weights[i], 0) / totalWeight;
+
+    const reportedAccuracies = fixes
+      .map(fix => fix.coords.accuracy)
+      .filter((accuracy): accuracy is number => accuracy != null);
+    const spread = Math.max(
+      ...fixes.map(fix =>
+        this.calculateDistance(latitude, longitude, fix.coords.latitude, fix.coords.longitude)
+      )
+    );
+    const accuracy =
+      reportedAccuracies.length > 0 ? Math.max(Math.min(...reportedAccuracies), spread) : null;
+
+    return {
+      coords: { ...latest.coords, latitude, longitude, accuracy },
+      timestamp: latest.timestamp,
+      mocked: fixes.some(fix => fix.mocked),
+    };
+  }
+
   /**
    * Calculate the distance between two geographic points using the Haversine formula
    * @param lat1 Latitude of first point
@@ -121,7 +214,35 @@ export class LocationVerificationService {
   }
 
   /**
-   * Verify if the user is within the required distance of a venue
+   * How confidently a fix places the user inside a venue's geofence:
+   * high when the whole accuracy circle is inside, medium when the fix itself is,
+   * low when only part of the circle is. Matches vibe_check_location_confidence().
+   * @param outsideMeters Signed distance from the fix to the geofence edge, negative inside
+   * @param accuracyMeters Accuracy radius of the fix
+   * @returns Confidence level, or null if the fix doesn't place the user at the venue
+   */
+  static getLocationConfidence(
+    outsideMeters: number,
+    accuracyMeters: number | null
+  ): LocationConfidence | null {
+    if (accuracyMeters === null || accuracyMeters > this.MAX_ACCURACY_METERS) {
+      return null;
+    }
+    if (outsideMeters + accuracyMeters <= 0) {
+      return 'high';
+    }
+    if (outsideMeters <= 0) {
+      return 'medium';
+    }
+    if (outsideMeters - accuracyMeters <= 0) {
+      return 'low';
+    }
+    return null;
+  }
+
+  /**
+   * Verify if the user is inside a venue's geofence, taking the accuracy of the fix into account.
+   * Fixes from mocked location providers are never valid.
    * @param userLocation User's current location
    * @param venue Venue to check proximity to
    * @returns LocationVerification result
@@ -130,26 +251,107 @@ export class LocationVerificationService {
     userLocation: Location.LocationObject,
     venue: Venue
   ): Promise<LocationVerification> {
-    if (!venue.latitude || !venue.longitude) {
+    const venueName = venue.name || 'Unknown Venue';
+    const geofence = getVenueGeofence(venue);
+
+    if (!geofence) {
       return {
         is_valid: false,
         distance_meters: Infinity,
-        venue_name: venue.name || 'Unknown Venue',
+        venue_name: venueName,
+        confidence: null,
+        failure_reason: 'no_venue_location',
       };
     }
 
-    const distance = this.calculateDistance(
-      userLocation.coords.latitude,
-      userLocation.coords.longitude,
-      venue.latitude,
-      venue.longitude
-    );
-
-    return {
-      is_valid: distance <= this.MAX_DISTANCE_METERS,
+    const { latitude, longitude } = userLocation.coords;
+    const offset = getGeofenceOffset(geofence, latitude, longitude);
+    const outside = Math.max(0, Math.round(offset));
+    // Polygon venues may have no location of their own, fall back to the distance to the geofence
+    const distance =
+      venue.latitude != null && venue.longitude != null
+        ? this.calculateDistance(latitude, longitude, venue.latitude, venue.longitude)
+        : outside;
+    const accuracy = userLocation.coords.accuracy ?? null;
+    const result = {
       distance_meters: distance,
-      venue_name: venue.name || 'Unknown Venue',
+      venue_name: venueName,
+      accuracy_meters: accuracy,
+      geofence,
+      outside_meters: outside,
     };
+
+    if (userLocation.mocked) {
+      return { ...result, is_valid: false, confidence: null, failure_reason: 'mocked' };
+    }
+
+    if (accuracy === null || accuracy > this.MAX_ACCURACY_METERS) {
+      return { ...result, is_valid: false, confidence: null, failure_reason: 'inaccurate' };
+    }
+
+    const confidence = this.getLocationConfidence(offset, accuracy);
+    if (!confidence) {
+      return { ...result, is_valid: false, confidence: null, failure_reason: 'too_far' };
+    }
+
+    return { ...result, is_valid: true, confidence };
+  }
+
+  /**
+   * Get the error explaining why a location verification failed
+   * @param verification Failed verification
+   * @returns Structured error for the failure reason
+   */
+  static getVerificationError(verification: LocationVerification): AppError {
+    switch (verification.failure_reason) {
+      case 'mocked':
+        return ErrorFactory.locationMocked();
+      case 'inaccurate':
+        return ErrorFactory.locationInaccurate(
+          verification.accuracy_meters != null ? Math.round(verification.accuracy_meters) : null,
+          this.MAX_ACCURACY_METERS
+        );
+      case 'no_venue_location':
+        return ErrorFactory.invalidInput('venue', 'This venue has no location to verify against');
+      default:
+        return this.getTooFarError(verification);
+    }
+  }
+
+  /**
+   * Get the error for a fix outside the venue's geofence, reporting the venue's own limit
+   * @param verification Verification of the fix
+   * @returns Structured error
+   */
+  static getTooFarError(verification: LocationVerification): AppError {
+    switch (verification.geofence?.type) {
+      case 'polygon':
+        return ErrorFactory.locationOutsideVenue(verification.outside_meters ?? 0);
+      case 'radius':
+        return ErrorFactory.locationTooFar(
+          verification.distance_meters,
+          verification.geofence.radius_meters
+        );
+      default:
+        return ErrorFactory.locationTooFar(verification.distance_meters, this.MAX_DISTANCE_METERS);
+    }
+  }
+
+  /**
+   * Check that a location fix was taken close enough to the time it is used for.
+   * Vibe checks replayed from the offline outbox pass their capture time.
+   * @param location Location fix to check
+   * @param referenceTime Time the location should describe (default: now)
+   * @returns true if the fix is recent relative to referenceTime
+   */
+  static isLocationFresh(
+    location: Location.LocationObject,
+    referenceTime: Date = new Date()
+  ): boolean {
+    if (!location.timestamp) {
+      return true;
+    }
+    return Math.abs(referenceTime.getTime() - location.timestamp) <= this.MAX_LOCATION_AGE_MS;
   }
 
   /**
@@ -172,14 +374,9 @@ export class LocationVerificationService {
         venue
       );
 
-      // Check if user is too far from venue
-      if (!verification.is_valid && verification.distance_meters !== Infinity) {
-        return {
-          error: ErrorFactory.locationTooFar(
-            verification.distance_meters,
-            this.MAX_DISTANCE_METERS
-          )
-        };
+      // Check if user is too far from venue or the fix can't be trusted
+      if (!verification.is_valid && verification.failure_reason !== 'no_venue_location') {
+        return { error: this.getVerificationError(verification) };
       }
 
       return { verification };
@@ -0,0 +1,127 @@
+import { supabase } from "../lib/supabase";
+import { ReportedVibeCheck, VibeCheck } from "../lib/types";
+import { VibeCheckService } from "./VibeCheckService";
+import { VibeCheckCacheService } from "./CacheService";
+
+export type ModerationAction = "restore" | "hide";
+
+/**
+ * Moderator review of reported vibe checks.
+ * Access is enforced by the database, these methods fail for non-moderators.
+ */
+export class ModerationService {
+  /**
+   * Check if the current user has the moderator role
+   * @returns Promise with true for moderators
+   */
+  static async isModerator(): Promise<boolean> {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        return false;
+      }
+
+      const { data, error } = await supabase
+        .from("users")
+        .select("role")
+        .eq("id", user.id)
+        .single();
+
+      return !error && data?.role === "moderator";
+    } catch (error) {
+      console.error("Error checking moderator role:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Get vibe checks with open reports, hidden ones first
+   * @returns Promise with reported vibe checks or error
+   */
+  static async getModerationQueue(): Promise<{
+    data: ReportedVibeCheck[];
+    error: any;
+  }> {
+    try {
+      const { data, error } = await supabase
+        .from("vibe_checks")
+        .select(
+          `
+          *,
+          user:users!inner(id, name, avatar_url, reputation_score),
+          venue:venues!inner(id, name, address),
+          reports:vibe_check_reports(id, reason, details, created_at, status)
+        `
+        )
+        .gt("report_count", 0)
+        .eq("reports.status", "pending")
+        .order("hidden_at", { ascending: false, nullsFirst: false })
+        .order("report_count", { ascending: false });
+
+      if (error) {
+        return { data: [], error: error.message };
+      }
+
+      const queue = (data || []).map((rawData: any) => ({
+        ...VibeCheckService.transformToVibeCheckWithDetails(rawData),
+        reports: (rawData.reports || []).map(({ status, ...report }: any) => report),
+      }));
+
+      return { data: queue, error: null };
+    } catch (error) {
+      console.error("Error loading moderation queue:", error);
+      return {
+        data: [],
+        error: "Failed to load reported vibe checks. Please try again.",
+      };
+    }
+  }
+
+  /**
+   * Close the open reports on a vibe check.
+   * 'restore' dismisses the reports and shows the vibe check again,
+   * 'hide' keeps it out of feeds.
+   * @param vibeCheck Vibe check being reviewed
+   * @param action Moderation decision
+   * @returns Promise with success status or error
+   */
+  static async reviewVibeCheck(
+    vibeCheck: Pick<VibeCheck, "id" | "venue_id">,
+    action: ModerationAction
+  ): Promise<{ success: boolean; error: any }> {
+    try {
+      const { error } = await supabase.rpc("moderate_vibe_check", {
+        p_vibe_check_id: vibeCheck.id,
+        p_action: action,
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+
+      await VibeCheckCacheService.invalidateOnVibeCheckChange(vibeCheck.venue_id);
+
+      return { success: true, error: null };
+    } catch (error) {
+      console.error("Error reviewing vibe check:", error);
+      return {
+        success: false,
+        error: "Failed to review vibe check. Please try again.",
+      };
+    }
+  }
+
+  /**
+   * Permanently delete a reported vibe check and its photo
+   * @param vibeCheckId ID of the vibe check
+   * @returns Promise with success status or error
+   */
+  static async deleteVibeCheck(
+    vibeCheckId: string
+  ): Promise<{ success: boolean; error: any }> {
+    return VibeCheckService.deleteVibeCheck(vibeCheckId);
+  }
+}
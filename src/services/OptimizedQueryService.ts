@@ -1,5 +1,24 @@
 import { supabase } from '../lib/supabase';
-import { VibeCheckWithDetails } from '../lib/types';
+import {
+  BusynessEstimate,
+  NearbyVenue,
+  NearbyVenuesCursor,
+  PopularTimesHour,
+  TrendingVenue,
+  Venue,
+  VenuePromotion,
+  VenueSearchFilters,
+  VenueSearchResult,
+  VenueSummariesCursor,
+  VenueSummary,
+  VibeCheckWithDetails,
+  VenueVibeAttributeSummary,
+} from '../lib/types';
+import { summarizeVibeAttributes } from '../lib/vibeAttributes';
+import { activeSinceFilter, isVibeCheckActiveSince } from '../lib/vibeCheckActivity';
+import { estimateBusyness } from '../lib/busynessEstimate';
+import { toLocalPopularTimes } from '../lib/popularTimes';
+import { NEARBY_VENUES_CONFIG, TRENDING_CONFIG, VENUE_SEARCH_CONFIG } from '../lib/constants';
 
 export interface QueryOptions {
   useIndex?: boolean;
@@ -9,6 +28,10 @@ export interface QueryOptions {
   orderDirection?: 'asc' | 'desc';
 }
 
+export interface LiveVibeChecksQueryOptions extends QueryOptions {
+  userIds?: string[]; // Only vibe checks posted by these users
+}
+
 export interface BatchQueryResult<T> {
   data: T[];
   hasMore: boolean;
@@ -16,6 +39,34 @@ export interface BatchQueryResult<T> {
   totalCount?: number;
 }
 
+export interface NearbyVenueQueryOptions {
+  radiusMeters?: number;
+  limit?: number;
+  cursor?: NearbyVenuesCursor | null;
+  query?: string; // Only venues whose name or description contains this
+}
+
+export interface VenueSummaryQueryOptions {
+  latitude?: number; // With a location the page is the nearest venues, otherwise the newest
+  longitude?: number;
+  radiusMeters?: number;
+  limit?: number;
+  cursor?: VenueSummariesCursor | null;
+}
+
+export interface VenueSearchQueryOptions {
+  latitude?: number; // Search location, for distances and the distance filter
+  longitude?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface TrendingVenueQueryOptions {
+  limit?: number;
+  windowMinutes?: number; // Recent activity window, see TRENDING_CONFIG
+  baselineDays?: number;
+}
+
 /**
  * Optimized database query service for vibe checks
  * Implements efficient querying strategies with proper indexing
@@ -44,14 +95,30 @@ export class OptimizedQueryService {
           busyness_rating,
           comment,
           photo_url,
+          media,
           user_latitude,
           user_longitude,
+          location_accuracy_meters,
+          location_confidence,
           created_at,
-          user:users!inner(id, name, avatar_url),
+          music_genre,
+          queue_length,
+          wait_minutes,
+          cover_charge,
+          crowd_age_range,
+          dress_code_rating,
+          helpful_count,
+          still_accurate_count,
+          last_confirmed_at,
+          report_count,
+          hidden_at,
+          user:users!inner(id, name, avatar_url, reputation_score),
           venue:venues!inner(id, name, address)
         `)
         .eq('venue_id', venueId)
-        .gte('created_at', cutoffTime.toISOString());
+        .is('hidden_at', null)
+        // Confirmed vibe checks stay in the window from their last confirmation
+        .or(activeSinceFilter(cutoffTime));
 
       // Apply ordering to utilize index
       query = query.order('created_at', { ascending: false });
@@ -81,12 +148,12 @@ export class OptimizedQueryService {
   }
 
   /**
-   * Get live vibe checks with optimized query and pagination
+   * Get live vibe checks with optimized query and pagination, optionally only from some users
    * Uses index on (created_at DESC)
    */
   static async getLiveVibeChecksOptimized(
     hoursBack: number = 4,
-    options: QueryOptions = {}
+    options: LiveVibeChecksQueryOptions = {}
   ): Promise<{ data: VibeCheckWithDetails[]; error: any; hasMore?: boolean }> {
     try {
       const cutoffTime = new Date();
@@ -105,18 +172,37 @@ export class OptimizedQueryService {
           busyness_rating,
           comment,
           photo_url,
+          media,
           user_latitude,
           user_longitude,
+          location_accuracy_meters,
+          location_confidence,
           created_at,
-          user:users!inner(id, name, avatar_url),
+          music_genre,
+          queue_length,
+          wait_minutes,
+          cover_charge,
+          crowd_age_range,
+          dress_code_rating,
+          helpful_count,
+          still_accurate_count,
+          last_confirmed_at,
+          report_count,
+          hidden_at,
+          user:users!inner(id, name, avatar_url, reputation_score),
           venue:venues!inner(id, name, address)
         `)
-        .gte('created_at', cutoffTime.toISOString())
+        .is('hidden_at', null)
+        .gte('created_at', cutoffTime.toISOString());
+
+      if (options.userIds) {
+        query = query.in('user_id', options.userIds);
+      }
+
+      const { data: vibeChecks, error } = await query
         .order('created_at', { ascending: false })
         .range(offset, offset + limit);
 
-      const { data: vibeChecks, error } = await query;
-
       if (error) {
         return { data: [], error, hasMore: false };
       }
@@ -146,8 +232,10 @@ export class OptimizedQueryService {
     data: {
       recent_count: number;
       average_busyness: number | null;
+      busyness_estimate: BusynessEstimate;
       has_live_activity: boolean;
       latest_vibe_check: VibeCheckWithDetails | null;
+      attributes: VenueVibeAttributeSummary;
     } | null;
     error: any;
   }> {
@@ -167,14 +255,29 @@ export class OptimizedQueryService {
           busyness_rating,
           comment,
           photo_url,
+          media,
           user_latitude,
           user_longitude,
+          location_accuracy_meters,
+          location_confidence,
           created_at,
-          user:users!inner(id, name, avatar_url),
+          music_genre,
+          queue_length,
+          wait_minutes,
+          cover_charge,
+          crowd_age_range,
+          dress_code_rating,
+          helpful_count,
+          still_accurate_count,
+          last_confirmed_at,
+          report_count,
+          hidden_at,
+          user:users!inner(id, name, avatar_url, reputation_score),
           venue:venues!inner(id, name, address)
         `)
         .eq('venue_id', venueId)
-        .gte('created_at', cutoffTime.toISOString())
+        .is('hidden_at', null)
+        .or(activeSinceFilter(cutoffTime))
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -183,12 +286,14 @@ export class OptimizedQueryService {
 
       // Calculate statistics from the fetched data
       const recentCount = vibeChecks.length;
-      const averageBusyness = recentCount > 0
-        ? vibeChecks.reduce((sum, vc) => sum + vc.busyness_rating, 0) / recentCount
-        : null;
+      // Newer reports and reputable authors count more, see src/lib/busynessEstimate.ts
+      const busynessEstimate = estimateBusyness(
+        vibeChecks,
+        (vc: any) => vc.user?.reputation_score
+      );
 
       const hasLiveActivity = vibeChecks.some(
-        vc => new Date(vc.created_at) > twoHoursAgo
+        vc => isVibeCheckActiveSince(vc, twoHoursAgo)
       );
 
       const latestVibeCheck = vibeChecks.length > 0
@@ -198,9 +303,11 @@ export class OptimizedQueryService {
       return {
         data: {
           recent_count: recentCount,
-          average_busyness: averageBusyness,
+          average_busyness: busynessEstimate.busyness,
+          busyness_estimate: busynessEstimate,
           has_live_activity: hasLiveActivity,
           latest_vibe_check: latestVibeCheck,
+          attributes: summarizeVibeAttributes(vibeChecks),
         },
         error: null,
       };
@@ -220,8 +327,10 @@ export class OptimizedQueryService {
     data: Record<string, {
       recent_count: number;
       average_busyness: number | null;
+      busyness_estimate: BusynessEstimate;
       has_live_activity: boolean;
       latest_vibe_check: VibeCheckWithDetails | null;
+      attributes: VenueVibeAttributeSummary;
     }>;
     error: any;
   }> {
@@ -241,14 +350,29 @@ export class OptimizedQueryService {
           busyness_rating,
           comment,
           photo_url,
+          media,
           user_latitude,
           user_longitude,
+          location_accuracy_meters,
+          location_confidence,
           created_at,
-          user:users!inner(id, name, avatar_url),
+          music_genre,
+          queue_length,
+          wait_minutes,
+          cover_charge,
+          crowd_age_range,
+          dress_code_rating,
+          helpful_count,
+          still_accurate_count,
+          last_confirmed_at,
+          report_count,
+          hidden_at,
+          user:users!inner(id, name, avatar_url, reputation_score),
           venue:venues!inner(id, name, address)
         `)
         .in('venue_id', venueIds)
-        .gte('created_at', cutoffTime.toISOString())
+        .is('hidden_at', null)
+        .or(activeSinceFilter(cutoffTime))
         .order('created_at', { ascending: false });
 
       if (error) {
@@ -263,8 +387,10 @@ export class OptimizedQueryService {
         venueStats[venueId] = {
           recent_count: 0,
           average_busyness: null,
+          busyness_estimate: estimateBusyness([]),
           has_live_activity: false,
           latest_vibe_check: null,
+          attributes: summarizeVibeAttributes([]),
         };
       });
 
@@ -280,12 +406,13 @@ export class OptimizedQueryService {
       // Calculate stats for each venue
       Object.entries(venueGroups).forEach(([venueId, checks]) => {
         const recentCount = checks.length;
-        const averageBusyness = recentCount > 0
-          ? checks.reduce((sum, vc) => sum + vc.busyness_rating, 0) / recentCount
-          : null;
+        const busynessEstimate = estimateBusyness(
+          checks,
+          (vc) => vc.user?.reputation_score
+        );
 
         const hasLiveActivity = checks.some(
-          vc => new Date(vc.created_at) > twoHoursAgo
+          vc => isVibeCheckActiveSince(vc, twoHoursAgo)
         );
 
         const latestVibeCheck = checks.length > 0
@@ -294,9 +421,11 @@ export class OptimizedQueryService {
 
         venueStats[venueId] = {
           recent_count: recentCount,
-          average_busyness: averageBusyness,
+          average_busyness: busynessEstimate.busyness,
+          busyness_estimate: busynessEstimate,
           has_live_activity: hasLiveActivity,
           latest_vibe_check: latestVibeCheck,
+          attributes: summarizeVibeAttributes(checks),
         };
       });
 
@@ -307,12 +436,320 @@ export class OptimizedQueryService {
     }
   }
 
+  /**
+   * Get a venue's weekly popular-times forecast in the device's time zone
+   * Reads the venue_popular_times materialized view, refreshed nightly
+   */
+  static async getVenuePopularTimes(
+    venueId: string
+  ): Promise<{ data: PopularTimesHour[] | null; error: any }> {
+    try {
+      // Uses the unique index on (venue_id, day_of_week, hour)
+      const { data, error } = await supabase
+        .from('venue_popular_times')
+        .select('day_of_week, hour, average_busyness, sample_count')
+        .eq('venue_id', venueId);
+
+      if (error) {
+        return { data: null, error };
+      }
+
+      return { data: toLocalPopularTimes(data || []), error: null };
+    } catch (error) {
+      console.error('Error in venue popular times query:', error);
+      return { data: null, error };
+    }
+  }
+
+  /**
+   * Get the popular-times forecasts of several venues in one query, keyed by venue id
+   * Venues without a forecast get an empty list.
+   */
+  static async batchGetVenuePopularTimes(
+    venueIds: string[]
+  ): Promise<{ data: Record<string, PopularTimesHour[]>; error: any }> {
+    try {
+      const { data, error } = await supabase
+        .from('venue_popular_times')
+        .select('venue_id, day_of_week, hour, average_busyness, sample_count')
+        .in('venue_id', venueIds);
+
+      if (error) {
+        return { data: {}, error };
+      }
+
+      const rowsByVenue: Record<string, any[]> = {};
+      venueIds.forEach(venueId => {
+        rowsByVenue[venueId] = [];
+      });
+      (data || []).forEach(row => {
+        rowsByVenue[row.venue_id]?.push(row);
+      });
+
+      const popularTimes: Record<string, PopularTimesHour[]> = {};
+      Object.entries(rowsByVenue).forEach(([venueId, rows]) => {
+        popularTimes[venueId] = toLocalPopularTimes(rows);
+      });
+
+      return { data: popularTimes, error: null };
+    } catch (error) {
+      console.error('Error in batch venue popular times query:', error);
+      return { data: {}, error };
+    }
+  }
+
+  /**
+   * Get venues within a radius of a location, nearest first
+   * Uses the get_nearby_venues RPC, which narrows candidates with the (latitude, longitude) index.
+   * Pass the returned nextCursor back as options.cursor to get the next page.
+   */
+  static async getNearbyVenuesOptimized(
+    latitude: number,
+    longitude: number,
+    options: NearbyVenueQueryOptions = {}
+  ): Promise<{
+    data: NearbyVenue[];
+    error: any;
+    hasMore: boolean;
+    nextCursor: NearbyVenuesCursor | null;
+  }> {
+    try {
+      const radiusMeters = Math.min(
+        options.radiusMeters ?? NEARBY_VENUES_CONFIG.defaultRadiusMeters,
+        NEARBY_VENUES_CONFIG.maxRadiusMeters
+      );
+      const limit = Math.min(
+        options.limit || NEARBY_VENUES_CONFIG.pageSize,
+        NEARBY_VENUES_CONFIG.maxPageSize
+      );
+
+      // Fetch one extra venue to know whether there is another page
+      const { data: rows, error } = await supabase.rpc('get_nearby_venues', {
+        p_latitude: latitude,
+        p_longitude: longitude,
+        p_radius_meters: radiusMeters,
+        p_limit: limit + 1,
+        p_after_distance: options.cursor?.distance_meters ?? null,
+        p_after_id: options.cursor?.id ?? null,
+        p_query: options.query?.trim() || null,
+      });
+
+      if (error) {
+        return { data: [], error, hasMore: false, nextCursor: null };
+      }
+
+      const venues: NearbyVenue[] = (rows || []).map(
+        (row: { venue: Venue; distance_meters: number }) => ({
+          ...row.venue,
+          distance_meters: row.distance_meters,
+        })
+      );
+      const hasMore = venues.length === limit + 1;
+
+      // Remove extra venue if we got one more than requested
+      if (hasMore) {
+        venues.pop();
+      }
+
+      const last = venues[venues.length - 1];
+      const nextCursor =
+        hasMore && last ? { distance_meters: last.distance_meters, id: last.id } : null;
+
+      return { data: venues, error: null, hasMore, nextCursor };
+    } catch (error) {
+      console.error('Error in nearby venues query:', error);
+      return { data: [], error, hasMore: false, nextCursor: null };
+    }
+  }
+
+  /**
+   * Get a page of venue cards with ratings, vibe check counts, promotions and the bookmark flag
+   * Uses the get_venue_summaries RPC, one query for the whole page. Live busyness isn't included,
+   * fetch it for the page with batchGetVenueVibeStats.
+   */
+  static async getVenueSummariesOptimized(
+    options: VenueSummaryQueryOptions = {}
+  ): Promise<{
+    data: VenueSummary[];
+    error: any;
+    hasMore: boolean;
+    nextCursor: VenueSummariesCursor | null;
+  }> {
+    try {
+      const hasLocation = options.latitude !== undefined && options.longitude !== undefined;
+      const limit = Math.min(
+        options.limit || NEARBY_VENUES_CONFIG.pageSize,
+        NEARBY_VENUES_CONFIG.maxPageSize
+      );
+
+      // Fetch one extra venue to know whether there is another page
+      const { data: rows, error } = await supabase.rpc('get_venue_summaries', {
+        p_latitude: hasLocation ? options.latitude : null,
+        p_longitude: hasLocation ? options.longitude : null,
+        p_radius_meters: Math.min(
+          options.radiusMeters ?? NEARBY_VENUES_CONFIG.defaultRadiusMeters,
+          NEARBY_VENUES_CONFIG.maxRadiusMeters
+        ),
+        p_limit: limit + 1,
+        p_after_activity_rank: options.cursor?.activity_rank ?? null,
+        p_after_distance: options.cursor?.distance_meters ?? null,
+        p_after_created_at: options.cursor?.created_at ?? null,
+        p_after_id: options.cursor?.id ?? null,
+      });
+
+      if (error) {
+        return { data: [], error, hasMore: false, nextCursor: null };
+      }
+
+      const venues: VenueSummary[] = (rows || []).map(
+        (row: Omit<VenueSummary, keyof Venue> & { venue: Venue; promotions: VenuePromotion[] | null }) => ({
+          ...row.venue,
+          activity_rank: row.activity_rank,
+          distance_meters: row.distance_meters,
+          average_rating: row.average_rating,
+          review_count: Number(row.review_count),
+          total_vibe_checks: Number(row.total_vibe_checks),
+          vibe_checks_24h: Number(row.vibe_checks_24h),
+          promotions: row.promotions || [],
+          is_bookmarked: row.is_bookmarked,
+        })
+      );
+      const hasMore = venues.length === limit + 1;
+
+      // Remove extra venue if we got one more than requested
+      if (hasMore) {
+        venues.pop();
+      }
+
+      const last = venues[venues.length - 1];
+      const nextCursor =
+        hasMore && last
+          ? {
+              activity_rank: last.activity_rank,
+              distance_meters: last.distance_meters,
+              created_at: last.created_at,
+              id: last.id,
+            }
+          : null;
+
+      return { data: venues, error: null, hasMore, nextCursor };
+    } catch (error) {
+      console.error('Error in venue summaries query:', error);
+      return { data: [], error, hasMore: false, nextCursor: null };
+    }
+  }
+
+  /**
+   * Full-text venue search, best match first
+   * Uses the search_venues RPC, which matches on the venue_search_document GIN index.
+   * Only the distance, rating and promotion filters are applied here; see src/lib/venueSearch.ts
+   * for the live busyness and open-now filters.
+   */
+  static async searchVenuesOptimized(
+    query: string,
+    filters: VenueSearchFilters = {},
+    options: VenueSearchQueryOptions = {}
+  ): Promise<BatchQueryResult<VenueSearchResult> & { error: any }> {
+    try {
+      const limit = Math.min(
+        options.limit || VENUE_SEARCH_CONFIG.pageSize,
+        NEARBY_VENUES_CONFIG.maxPageSize
+      );
+      const offset = options.offset || 0;
+
+      // Fetch one extra venue to know whether there is another page
+      const { data: rows, error } = await supabase.rpc('search_venues', {
+        p_query: query.trim() || null,
+        p_latitude: options.latitude ?? null,
+        p_longitude: options.longitude ?? null,
+        p_max_distance_meters: filters.maxDistanceMeters ?? null,
+        p_min_rating: filters.minRating ?? null,
+        p_has_promotion: filters.hasPromotion ?? false,
+        p_limit: limit + 1,
+        p_offset: offset,
+      });
+
+      if (error) {
+        return { data: [], error, hasMore: false };
+      }
+
+      const venues: VenueSearchResult[] = (rows || []).map(
+        (row: Omit<VenueSearchResult, keyof Venue> & { venue: Venue }) => ({
+          ...row.venue,
+          rank: row.rank,
+          distance_meters: row.distance_meters,
+          average_rating: row.average_rating,
+          review_count: Number(row.review_count),
+          has_promotion: row.has_promotion,
+        })
+      );
+      const hasMore = venues.length === limit + 1;
+
+      // Remove extra venue if we got one more than requested
+      if (hasMore) {
+        venues.pop();
+      }
+
+      return {
+        data: venues,
+        error: null,
+        hasMore,
+        nextOffset: hasMore ? offset + limit : undefined,
+      };
+    } catch (error) {
+      console.error('Error in venue search query:', error);
+      return { data: [], error, hasMore: false };
+    }
+  }
+
+  /**
+   * Get the venues whose activity is furthest above their usual rate, most trending first
+   * Uses the get_trending_venues RPC, which scores every venue in one query.
+   */
+  static async getTrendingVenuesOptimized(
+    options: TrendingVenueQueryOptions = {}
+  ): Promise<{ data: TrendingVenue[]; error: any }> {
+    try {
+      const { data: rows, error } = await supabase.rpc('get_trending_venues', {
+        p_limit: options.limit ?? TRENDING_CONFIG.homeRowSize,
+        p_window_minutes: options.windowMinutes ?? TRENDING_CONFIG.windowMinutes,
+        p_baseline_days: options.baselineDays ?? TRENDING_CONFIG.baselineDays,
+      });
+
+      if (error) {
+        return { data: [], error };
+      }
+
+      const venues: TrendingVenue[] = (rows || []).map(
+        (row: Omit<TrendingVenue, keyof Venue> & { venue: Venue }) => ({
+          ...row.venue,
+          trending_score: row.trending_score,
+          recent_vibe_checks: Number(row.recent_vibe_checks),
+          expected_vibe_checks: row.expected_vibe_checks,
+          recent_views: Number(row.recent_views),
+          expected_views: row.expected_views,
+          recent_bookmarks: Number(row.recent_bookmarks),
+          expected_bookmarks: row.expected_bookmarks,
+          rising_signals: row.rising_signals || [],
+        })
+      );
+
+      return { data: venues, error: null };
+    } catch (error) {
+      console.error('Error in trending venues query:', error);
+      return { data: [], error };
+    }
+  }
+
   /**
    * Get user's recent vibe check for rate limiting with optimized query
+   * @param referenceTime Time the rate limit is evaluated at (defaults to now).
+   * Passed for vibe checks captured offline, which also conflict with ones posted after capture.
    */
   static async getUserRecentVibeCheckOptimized(
     userId: string,
-    venueId: string
+    venueId: string,
+    referenceTime?: Date
   ): Promise<{
     data: {
       canPost: boolean;
@@ -322,16 +759,23 @@ export class OptimizedQueryService {
     error: any;
   }> {
     try {
-      const oneHourAgo = new Date();
-      oneHourAgo.setHours(oneHourAgo.getHours() - 1);
+      const reference = referenceTime ?? new Date();
+      const oneHourAgo = new Date(reference.getTime() - 60 * 60 * 1000);
 
       // Use index on user_id for efficient lookup
-      const { data, error } = await supabase
+      let query = supabase
         .from('vibe_checks')
         .select('created_at')
         .eq('user_id', userId)
         .eq('venue_id', venueId)
-        .gte('created_at', oneHourAgo.toISOString())
+        .gte('created_at', oneHourAgo.toISOString());
+
+      if (referenceTime) {
+        const oneHourLater = new Date(reference.getTime() + 60 * 60 * 1000);
+        query = query.lte('created_at', oneHourLater.toISOString());
+      }
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
         .limit(1);
 
@@ -347,8 +791,7 @@ export class OptimizedQueryService {
       // Calculate time until user can post again
       const lastVibeCheck = new Date(data[0].created_at);
       const oneHourLater = new Date(lastVibeCheck.getTime() + 60 * 60 * 1000);
-      const now = new Date();
-      const timeUntilReset = Math.max(0, oneHourLater.getTime() - now.getTime());
+      const timeUntilReset = Math.max(0, oneHourLater.getTime() - reference.getTime());
 
       return {
         data: {
@@ -397,13 +840,28 @@ export class OptimizedQueryService {
       busyness_rating: rawData.busyness_rating,
       comment: rawData.comment,
       photo_url: rawData.photo_url,
+      media: rawData.media ?? [],
       user_latitude: rawData.user_latitude,
       user_longitude: rawData.user_longitude,
+      location_accuracy_meters: rawData.location_accuracy_meters ?? null,
+      location_confidence: rawData.location_confidence ?? null,
       created_at: rawData.created_at,
+      music_genre: rawData.music_genre ?? null,
+      queue_length: rawData.queue_length ?? null,
+      wait_minutes: rawData.wait_minutes ?? null,
+      cover_charge: rawData.cover_charge ?? null,
+      crowd_age_range: rawData.crowd_age_range ?? null,
+      dress_code_rating: rawData.dress_code_rating ?? null,
+      helpful_count: rawData.helpful_count ?? 0,
+      still_accurate_count: rawData.still_accurate_count ?? 0,
+      last_confirmed_at: rawData.last_confirmed_at ?? null,
+      report_count: rawData.report_count ?? 0,
+      hidden_at: rawData.hidden_at ?? null,
       user: {
         id: rawData.user.id,
         name: rawData.user.name || "Anonymous",
         avatar_url: rawData.user.avatar_url,
+        reputation_score: rawData.user.reputation_score,
       },
       venue: {
         id: rawData.venue.id,
@@ -411,7 +869,7 @@ export class OptimizedQueryService {
         address: rawData.venue.address,
       },
       time_ago: timeAgo,
-      is_recent: createdAt > twoHoursAgo,
+      is_recent: isVibeCheckActiveSince(rawData, twoHoursAgo),
     };
   }
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { VibeCheckWithDetails } from '../lib/types';
+import { isVibeCheckActiveSince } from '../lib/vibeCheckActivity';
 import { OptimizedQueryService } from './OptimizedQueryService';
 import { VibeCheckCacheService } from './CacheService';
 
@@ -91,6 +92,20 @@ export class OptimizedRealtimeService {
         (payload) => this.handleRealtimeEvent(subscriptionId, payload, config)
       );
 
+      // DELETE events can't be filtered and only carry the primary key,
+      // so venue subscriptions listen for them separately
+      if (config.venueId) {
+        channel.on(
+          'postgres_changes',
+          {
+            event: 'DELETE',
+            schema: 'public',
+            table: 'vibe_checks',
+          },
+          (payload) => this.handleRealtimeEvent(subscriptionId, payload, config)
+        );
+      }
+
       // Subscribe with timeout and retry logic
       const subscribePromise = new Promise<boolean>((resolve, reject) => {
         const timeout = setTimeout(() => {
@@ -270,8 +285,12 @@ export class OptimizedRealtimeService {
       const { eventType, new: newRecord, old: oldRecord } = payload;
 
       // Invalidate relevant cache entries
-      if (newRecord?.venue_id) {
+      if (eventType === 'INSERT' && newRecord?.venue_id) {
         await VibeCheckCacheService.invalidateOnVibeCheckCreate(newRecord.venue_id);
+      } else if (eventType === 'UPDATE' || eventType === 'DELETE') {
+        await VibeCheckCacheService.invalidateOnVibeCheckChange(
+          newRecord?.venue_id ?? oldRecord?.venue_id
+        );
       }
 
       // Handle batching if enabled
@@ -306,7 +325,7 @@ export class OptimizedRealtimeService {
   ): Promise<void> {
     switch (eventType) {
       case 'INSERT':
-        if (newRecord && config.onVibeCheckInsert) {
+        if (newRecord && !newRecord.hidden_at && config.onVibeCheckInsert) {
           const vibeCheckWithDetails = await this.fetchVibeCheckWithDetailsOptimized(newRecord.id);
           if (vibeCheckWithDetails) {
             config.onVibeCheckInsert(vibeCheckWithDetails);
@@ -315,6 +334,21 @@ export class OptimizedRealtimeService {
         break;
 
       case 'UPDATE':
+        // Vibe checks hidden by reports or a moderator leave open feeds like deletes,
+        // and come back like inserts when a moderator restores them
+        if (newRecord?.hidden_at) {
+          config.onVibeCheckDelete?.(newRecord.id);
+          break;
+        }
+        if (newRecord && oldRecord?.hidden_at) {
+          if (config.onVibeCheckInsert) {
+            const vibeCheckWithDetails = await this.fetchVibeCheckWithDetailsOptimized(newRecord.id);
+            if (vibeCheckWithDetails) {
+              config.onVibeCheckInsert(vibeCheckWithDetails);
+            }
+          }
+          break;
+        }
         if (newRecord && config.onVibeCheckUpdate) {
           const vibeCheckWithDetails = await this.fetchVibeCheckWithDetailsOptimized(newRecord.id);
           if (vibeCheckWithDetails) {
@@ -350,13 +384,28 @@ export class OptimizedRealtimeService {
           busyness_rating,
           comment,
           photo_url,
+          media,
           user_latitude,
           user_longitude,
+          location_accuracy_meters,
+          location_confidence,
           created_at,
-          user:users!inner(id, name, avatar_url),
+          music_genre,
+          queue_length,
+          wait_minutes,
+          cover_charge,
+          crowd_age_range,
+          dress_code_rating,
+          helpful_count,
+          still_accurate_count,
+          last_confirmed_at,
+          report_count,
+          hidden_at,
+          user:users!inner(id, name, avatar_url, reputation_score),
           venue:venues!inner(id, name, address)
         `)
         .eq('id', vibeCheckId)
+        .is('hidden_at', null)
         .single();
 
       if (error || !vibeCheck) {
@@ -452,31 +501,34 @@ export class OptimizedRealtimeService {
       return;
     }
 
+    // Take the batch before processing so events arriving meanwhile start a new one
+    this.pendingUpdates.delete(subscriptionId);
+    this.batchTimers.delete(subscriptionId);
+
     try {
-      // Group updates by type and process
-      const groupedUpdates = updates.reduce((groups, update) => {
-        if (!groups[update.type]) {
-          groups[update.type] = [];
-        }
-        groups[update.type].push(update);
-        return groups;
-      }, {} as Record<string, PendingUpdate[]>);
-
-      // Process each type of update
-      for (const [type, typeUpdates] of Object.entries(groupedUpdates)) {
-        for (const update of typeUpdates) {
-          await this.processRealtimeEvent(
-            type.toUpperCase(),
-            update.data.newRecord,
-            update.data.oldRecord,
-            config
-          );
+      // Collapse events per vibe check, e.g. an edit followed by a delete is just a delete.
+      // INSERT fetches the current row, so a later UPDATE is already included in it.
+      const latestUpdates = new Map<string, PendingUpdate>();
+      for (const update of updates) {
+        const id = update.data.newRecord?.id ?? update.data.oldRecord?.id;
+        const previous = latestUpdates.get(id);
+        latestUpdates.delete(id);
+
+        if (previous?.type === 'insert' && update.type === 'delete') {
+          continue;
         }
+        latestUpdates.set(id, previous?.type === 'insert' ? previous : update);
       }
 
-      // Clear processed updates
-      this.pendingUpdates.delete(subscriptionId);
-      this.batchTimers.delete(subscriptionId);
+      // Process in arrival order
+      for (const update of latestUpdates.values()) {
+        await this.processRealtimeEvent(
+          update.type.toUpperCase(),
+          update.data.newRecord,
+          update.data.oldRecord,
+          config
+        );
+      }
 
     } catch (error) {
       console.error('Error processing batch updates:', error);
@@ -595,13 +647,28 @@ export class OptimizedRealtimeService {
       busyness_rating: rawData.busyness_rating,
       comment: rawData.comment,
       photo_url: rawData.photo_url,
+      media: rawData.media ?? [],
       user_latitude: rawData.user_latitude,
       user_longitude: rawData.user_longitude,
+      location_accuracy_meters: rawData.location_accuracy_meters ?? null,
+      location_confidence: rawData.location_confidence ?? null,
       created_at: rawData.created_at,
+      music_genre: rawData.music_genre ?? null,
+      queue_length: rawData.queue_length ?? null,
+      wait_minutes: rawData.wait_minutes ?? null,
+      cover_charge: rawData.cover_charge ?? null,
+      crowd_age_range: rawData.crowd_age_range ?? null,
+      dress_code_rating: rawData.dress_code_rating ?? null,
+      helpful_count: rawData.helpful_count ?? 0,
+      still_accurate_count: rawData.still_accurate_count ?? 0,
+      last_confirmed_at: rawData.last_confirmed_at ?? null,
+      report_count: rawData.report_count ?? 0,
+      hidden_at: rawData.hidden_at ?? null,
       user: {
         id: rawData.user.id,
         name: rawData.user.name || "Anonymous",
         avatar_url: rawData.user.avatar_url,
+        reputation_score: rawData.user.reputation_score,
       },
       venue: {
         id: rawData.venue.id,
@@ -609,7 +676,7 @@ export class OptimizedRealtimeService {
         address: rawData.venue.address,
       },
       time_ago: timeAgo,
-      is_recent: createdAt > twoHoursAgo,
+      is_recent: isVibeCheckActiveSince(rawData, twoHoursAgo),
     };
   }
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import * as ImageManipulator from 'expo-image-manipulator';
 import { supabase } from '../lib/supabase';
+import { VibeCheckMedia, VibeCheckMediaInput } from '../lib/types';
 
 export interface PhotoUploadProgress {
   loaded: number;
@@ -19,11 +20,16 @@ export interface PhotoUploadResult {
   error: string | null;
 }
 
+export interface MediaUploadOptions extends Omit<PhotoUploadOptions, 'onProgress'> {
+  onItemProgress?: (index: number, progress: PhotoUploadProgress) => void;
+}
+
 export class PhotoUploadService {
   private static readonly DEFAULT_QUALITY = 0.8;
   private static readonly DEFAULT_MAX_WIDTH = 1200;
   private static readonly DEFAULT_MAX_HEIGHT = 1200;
   private static readonly MAX_FILE_SIZE_MB = 5;
+  private static readonly MAX_VIDEO_SIZE_MB = 25;
 
   /**
    * Upload a photo with compression and progress tracking
@@ -97,6 +103,178 @@ export class PhotoUploadService {
     }
   }
 
+  /**
+   * Upload a video clip as recorded, with progress tracking
+   * @param video Video data from image picker
+   * @param userId User ID for file organization
+   * @param options Upload options, compression settings are ignored
+   * @returns Promise with upload result
+   */
+  static async uploadVideo(
+    video: { uri: string; type: string; name: string },
+    userId: string,
+    options: PhotoUploadOptions = {}
+  ): Promise<PhotoUploadResult> {
+    try {
+      const { onProgress } = options;
+
+      onProgress?.({ loaded: 0, total: 100, percentage: 0 });
+
+      const fileSizeResult = await this.validateFileSize(video.uri, this.MAX_VIDEO_SIZE_MB);
+      if (!fileSizeResult.isValid) {
+        return {
+          data: null,
+          error: fileSizeResult.error || 'File size validation failed',
+        };
+      }
+
+      onProgress?.({ loaded: 30, total: 100, percentage: 30 });
+
+      const fileName = this.generateFileName(userId, video.name, 'mp4');
+      const blob = await this.uriToBlob(video.uri);
+
+      onProgress?.({ loaded: 50, total: 100, percentage: 50 });
+
+      const uploadResult = await this.uploadToStorage(fileName, blob, video.type, onProgress);
+
+      if (uploadResult.error) {
+        return { data: null, error: uploadResult.error };
+      }
+
+      const publicUrl = this.getPublicUrl(fileName);
+
+      onProgress?.({ loaded: 100, total: 100, percentage: 100 });
+
+      return { data: publicUrl, error: null };
+    } catch (error) {
+      console.error('Video upload error:', error);
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Failed to upload video. Please try again.',
+      };
+    }
+  }
+
+  /**
+   * Upload the photos and video clips of a vibe check in order, reporting progress per item.
+   * If any item fails, the items already uploaded are deleted again.
+   * @param items Media picked for the vibe check
+   * @param userId User ID for file organization
+   * @param options Photo compression settings and per-item progress callback
+   * @returns Promise with the uploaded media or error
+   */
+  static async uploadMedia(
+    items: VibeCheckMediaInput[],
+    userId: string,
+    options: MediaUploadOptions = {}
+  ): Promise<{ data: VibeCheckMedia[] | null; error: string | null }> {
+    const { onItemProgress, ...photoOptions } = options;
+    const uploaded: VibeCheckMedia[] = [];
+
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      const onProgress = (progress: PhotoUploadProgress) => onItemProgress?.(index, progress);
+      const isVideo = this.isVideo(item);
+
+      const result = isVideo
+        ? await this.uploadVideo(item, userId, { onProgress })
+        : await this.uploadPhoto(item, userId, { ...photoOptions, onProgress });
+
+      if (result.error || !result.data) {
+        await this.deleteUploadedMedia(uploaded);
+        return { data: null, error: result.error || 'Failed to upload media. Please try again.' };
+      }
+
+      uploaded.push(
+        isVideo
+          ? { type: 'video', url: result.data, duration_seconds: item.duration_seconds ?? null }
+          : { type: 'image', url: result.data }
+      );
+    }
+
+    return { data: uploaded, error: null };
+  }
+
+  /**
+   * Check if a picked media item is a video clip
+   */
+  static isVideo(item: { type: string }): boolean {
+    return item.type.toLowerCase().startsWith('video/');
+  }
+
+  /**
+   * Delete uploaded photos and videos from storage. Failures are logged, not surfaced.
+   * @param media Uploaded media to delete
+   */
+  static async deleteUploadedMedia(media: Pick<VibeCheckMedia, 'url'>[]): Promise<void> {
+    const fileNames = media
+      .map(item => this.extractFileNameFromUrl(item.url))
+      .filter((fileName): fileName is string => !!fileName);
+
+    for (const fileName of fileNames) {
+      const { error } = await this.deletePhoto(fileName);
+      if (error) {
+        console.warn('Failed to delete uploaded media:', error);
+      }
+    }
+  }
+
+  /**
+   * Compress a photo into a self-contained data URI so it can be persisted
+   * (e.g. in the offline outbox) and uploaded later with uploadPhoto
+   * @param photo Photo data from image picker
+   * @param options Compression settings
+   * @returns Promise with the compressed photo or error
+   */
+  static async preparePhotoForStorage(
+    photo: { uri: string; type: string; name: string },
+    options: Omit<PhotoUploadOptions, 'onProgress'> = {}
+  ): Promise<{ data: { uri: string; type: string; name: string } | null; error: string | null }> {
+    try {
+      const {
+        quality = this.DEFAULT_QUALITY,
+        maxWidth = this.DEFAULT_MAX_WIDTH,
+        maxHeight = this.DEFAULT_MAX_HEIGHT,
+      } = options;
+
+      const compressedImage = await this.compressImage(photo.uri, {
+        quality,
+        maxWidth,
+        maxHeight,
+        base64: true,
+      });
+
+      if (!compressedImage.base64) {
+        return { data: null, error: 'Failed to compress image' };
+      }
+
+      const sizeInMB = (compressedImage.base64.length * 3) / 4 / (1024 * 1024);
+      if (sizeInMB > this.MAX_FILE_SIZE_MB) {
+        return {
+          data: null,
+          error: `File size (${sizeInMB.toFixed(1)}MB) exceeds maximum allowed size of ${this.MAX_FILE_SIZE_MB}MB`,
+        };
+      }
+
+      const baseName = photo.name.replace(/\.[^.]+$/, '') || 'photo';
+
+      return {
+        data: {
+          uri: `data:image/jpeg;base64,${compressedImage.base64}`,
+          type: 'image/jpeg',
+          name: `${baseName}.jpg`,
+        },
+        error: null,
+      };
+    } catch (error) {
+      console.error('Photo preparation error:', error);
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : 'Failed to prepare photo',
+      };
+    }
+  }
+
   /**
    * Compress an image using expo-image-manipulator
    * @param uri Image URI
@@ -109,6 +287,7 @@ export class PhotoUploadService {
       quality: number;
       maxWidth: number;
       maxHeight: number;
+      base64?: boolean;
     }
   ): Promise<ImageManipulator.ImageResult> {
     try {
@@ -138,6 +317,7 @@ export class PhotoUploadService {
         {
           compress: options.quality,
           format: ImageManipulator.SaveFormat.JPEG,
+          base64: options.base64,
         }
       );
 
@@ -151,9 +331,10 @@ export class PhotoUploadService {
   /**
    * Validate file size
    * @param uri File URI
+   * @param maxSizeMB Largest allowed size, defaults to the photo limit
    * @returns Validation result
    */
-  private static async validateFileSize(uri: string): Promise<{
+  private static async validateFileSize(uri: string, maxSizeMB: number = this.MAX_FILE_SIZE_MB): Promise<{
     isValid: boolean;
     error?: string;
     sizeInMB?: number;
@@ -163,10 +344,10 @@ export class PhotoUploadService {
       const blob = await response.blob();
       const sizeInMB = blob.size / (1024 * 1024);
 
-      if (sizeInMB > this.MAX_FILE_SIZE_MB) {
+      if (sizeInMB > maxSizeMB) {
         return {
           isValid: false,
-          error: `File size (${sizeInMB.toFixed(1)}MB) exceeds maximum allowed size of ${this.MAX_FILE_SIZE_MB}MB`,
+          error: `File size (${sizeInMB.toFixed(1)}MB) exceeds maximum allowed size of ${maxSizeMB}MB`,
           sizeInMB,
         };
       }
@@ -182,15 +363,18 @@ export class PhotoUploadService {
   }
 
   /**
-   * Generate unique filename for photo
+   * Generate unique filename for photo or video
    * @param userId User ID
    * @param originalName Original filename
+   * @param defaultExtension Extension used when the original name has none
    * @returns Generated filename
    */
-  private static generateFileName(userId: string, originalName: string): string {
+  private static generateFileName(userId: string, originalName: string, defaultExtension: string = 'jpg'): string {
     const timestamp = Date.now();
     const randomSuffix = Math.random().toString(36).substring(2, 8);
-    const fileExtension = originalName.split('.').pop()?.toLowerCase() || 'jpg';
+    const fileExtension = originalName.includes('.')
+      ? originalName.split('.').pop()!.toLowerCase()
+      : defaultExtension;
     return `vibe-checks/${userId}/${timestamp}_${randomSuffix}.${fileExtension}`;
   }
 
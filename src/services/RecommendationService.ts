@@ -0,0 +1,174 @@
+import { supabase } from "../lib/supabase";
+import { RECOMMENDATION_CONFIG } from "../lib/constants";
+import { VenueCoVisit, VenueInteractionSignal } from "../lib/types";
+import {
+  buildVenueAffinity,
+  getEngagedVenueIds,
+  pickSeedVenues,
+  scoreVenues,
+} from "../lib/recommendations";
+
+// Most recent rows of each kind of signal to read
+const SIGNAL_LIMIT = 500;
+
+export interface VenueRecommendations {
+  scores: Map<string, number>; // "For you" score by venue id, see rankForYou()
+  engagedVenueIds: Set<string>; // Venues not to suggest back to the user
+}
+
+/**
+ * "For you" recommendations from a user's interaction history.
+ * Scoring lives in src/lib/recommendations.ts.
+ */
+export class RecommendationService {
+  /**
+   * Get a user's views, likes, shares, bookmarks, reviews and vibe checks
+   * @param userId - The user's ID
+   * @returns Promise with the user's signals, newest first per kind, or error
+   */
+  static async getInteractionSignals(
+    userId: string
+  ): Promise<{ data: VenueInteractionSignal[]; error: any }> {
+    try {
+      const [viewsResult, bookmarksResult, reviewsResult, vibeChecksResult] =
+        await Promise.all([
+          supabase
+            .from("club_views")
+            .select("club_id, interaction_type, viewed_at")
+            .eq("user_id", userId)
+            .order("viewed_at", { ascending: false })
+            .limit(SIGNAL_LIMIT),
+          supabase
+            .from("user_bookmarks")
+            .select("venue_id, created_at")
+            .eq("user_id", userId)
+            .order("created_at", { ascending: false })
+            .limit(SIGNAL_LIMIT),
+          supabase
+            .from("reviews")
+            .select("venue_id, rating, created_at")
+            .eq("user_id", userId)
+            .order("created_at", { ascending: false })
+            .limit(SIGNAL_LIMIT),
+          supabase
+            .from("vibe_checks")
+            .select("venue_id, created_at")
+            .eq("user_id", userId)
+            .is("hidden_at", null)
+            .order("created_at", { ascending: false })
+            .limit(SIGNAL_LIMIT),
+        ]);
+
+      const error =
+        viewsResult.error ||
+        bookmarksResult.error ||
+        reviewsResult.error ||
+        vibeChecksResult.error;
+      if (error) {
+        return { data: [], error };
+      }
+
+      const signals: VenueInteractionSignal[] = [
+        // Bookmarks come from user_bookmarks, which drops them again when they are removed
+        ...(viewsResult.data || [])
+          .filter((view: any) => view.interaction_type !== "bookmark")
+          .map((view: any) => ({
+            venue_id: view.club_id,
+            kind: (view.interaction_type || "view") as VenueInteractionSignal["kind"],
+            occurred_at: view.viewed_at,
+          })),
+        ...(bookmarksResult.data || []).map((bookmark: any) => ({
+          venue_id: bookmark.venue_id,
+          kind: "bookmark" as const,
+          occurred_at: bookmark.created_at,
+        })),
+        ...(reviewsResult.data || []).map((review: any) => ({
+          venue_id: review.venue_id,
+          kind: "review" as const,
+          occurred_at: review.created_at,
+          rating: review.rating,
+        })),
+        ...(vibeChecksResult.data || []).map((vibeCheck: any) => ({
+          venue_id: vibeCheck.venue_id,
+          kind: "vibe_check" as const,
+          occurred_at: vibeCheck.created_at,
+        })),
+      ];
+
+      return { data: signals, error: null };
+    } catch (error) {
+      console.error("Error in interaction signals query:", error);
+      return { data: [], error };
+    }
+  }
+
+  /**
+   * Get how many people engaged with each of the given venues and each other venue
+   * @param venueIds - Venues to find related venues of
+   * @returns Promise with the most shared venue pairs or error
+   */
+  static async getCoVisits(
+    venueIds: string[]
+  ): Promise<{ data: VenueCoVisit[]; error: any }> {
+    if (venueIds.length === 0) {
+      return { data: [], error: null };
+    }
+
+    try {
+      const { data, error } = await supabase.rpc("get_venue_co_visits", {
+        p_venue_ids: venueIds,
+        p_limit: RECOMMENDATION_CONFIG.maxCoVisits,
+      });
+
+      if (error) {
+        return { data: [], error };
+      }
+
+      const coVisits: VenueCoVisit[] = (data || []).map((row: any) => ({
+        venue_id: row.venue_id,
+        related_venue_id: row.related_venue_id,
+        shared_users: Number(row.shared_users),
+        venue_users: Number(row.venue_users),
+        related_users: Number(row.related_users),
+      }));
+
+      return { data: coVisits, error: null };
+    } catch (error) {
+      console.error("Error in venue co-visits query:", error);
+      return { data: [], error };
+    }
+  }
+
+  /**
+   * Score venues for a user. Without any history every score is 0 and venues keep their order.
+   * @param userId - The user's ID
+   * @param now - Time the signals fade up to, defaults to now
+   * @returns Promise with the scores or error
+   */
+  static async getVenueRecommendations(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<{ data: VenueRecommendations | null; error: any }> {
+    const { data: signals, error: signalsError } =
+      await this.getInteractionSignals(userId);
+    if (signalsError) {
+      return { data: null, error: signalsError };
+    }
+
+    const affinity = buildVenueAffinity(signals, now);
+    const { data: coVisits, error: coVisitsError } = await this.getCoVisits(
+      pickSeedVenues(affinity)
+    );
+    if (coVisitsError) {
+      return { data: null, error: coVisitsError };
+    }
+
+    return {
+      data: {
+        scores: scoreVenues(affinity, coVisits),
+        engagedVenueIds: getEngagedVenueIds(signals),
+      },
+      error: null,
+    };
+  }
+}
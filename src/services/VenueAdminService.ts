@@ -0,0 +1,96 @@
+import { supabase } from "../lib/supabase";
+import { GeofencePoint, Venue } from "../lib/types";
+import { GEOFENCE_CONFIG } from "../lib/constants";
+import { validateGeofencePolygon } from "../lib/geofence";
+
+// New geofence for a venue, null to go back to the default radius
+export type VenueGeofenceInput =
+  | { radius_meters: number }
+  | { polygon: GeofencePoint[] }
+  | null;
+
+/**
+ * Admin management of venues.
+ * Access is enforced by the database, these methods fail for non-admins.
+ */
+export class VenueAdminService {
+  /**
+   * Check if the current user has the admin role
+   * @returns Promise with true for admins
+   */
+  static async isAdmin(): Promise<boolean> {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        return false;
+      }
+
+      const { data, error } = await supabase
+        .from("users")
+        .select("role")
+        .eq("id", user.id)
+        .single();
+
+      return !error && data?.role === "admin";
+    } catch (error) {
+      console.error("Failed to check admin role:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Set the area users must be in to post vibe checks at a venue
+   * @param venueId ID of the venue
+   * @param geofence Radius or polygon geofence, null for the default radius
+   * @returns Promise with the updated venue or error
+   */
+  static async setVenueGeofence(
+    venueId: string,
+    geofence: VenueGeofenceInput
+  ): Promise<{ data: Venue | null; error: any }> {
+    if (geofence && "radius_meters" in geofence) {
+      const { radius_meters } = geofence;
+      if (
+        !Number.isFinite(radius_meters) ||
+        radius_meters < GEOFENCE_CONFIG.minRadiusMeters ||
+        radius_meters > GEOFENCE_CONFIG.maxRadiusMeters
+      ) {
+        return {
+          data: null,
+          error: `Geofence radius must be between ${GEOFENCE_CONFIG.minRadiusMeters}m and ${GEOFENCE_CONFIG.maxRadiusMeters}m`,
+        };
+      }
+    }
+
+    if (geofence && "polygon" in geofence) {
+      const polygonError = validateGeofencePolygon(geofence.polygon);
+      if (polygonError) {
+        return { data: null, error: polygonError };
+      }
+    }
+
+    try {
+      const { data, error } = await supabase.rpc("set_venue_geofence", {
+        p_venue_id: venueId,
+        p_radius_meters:
+          geofence && "radius_meters" in geofence ? geofence.radius_meters : null,
+        p_polygon: geofence && "polygon" in geofence ? geofence.polygon : null,
+      });
+
+      if (error) {
+        return { data: null, error: error.message };
+      }
+
+      return { data, error: null };
+    } catch (error) {
+      console.error("Failed to update venue geofence:", error);
+      return {
+        data: null,
+        error: "Failed to update venue geofence. Please try again.",
+      };
+    }
+  }
+}
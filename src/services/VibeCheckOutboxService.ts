@@ -0,0 +1,250 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import { PendingVibeCheck, Venue, VibeCheckFormData, VibeCheckMediaInput } from '../lib/types';
+import { AppError, ErrorFactory, ErrorParser } from '../lib/errors';
+import { ConnectivityManager } from '../lib/connectivity';
+import { PhotoUploadService } from './PhotoUploadService';
+import { VibeCheckService } from './VibeCheckService';
+
+type OutboxListener = (items: PendingVibeCheck[]) => void;
+
+/**
+ * Persistent outbox for vibe checks captured while offline.
+ * Items are stored in AsyncStorage and replayed when connectivity returns.
+ */
+export class VibeCheckOutboxService {
+  private static readonly STORAGE_KEY = 'buzzvar_vibe_check_outbox';
+  static readonly MAX_ITEM_AGE_MS = 2 * 60 * 60 * 1000; // Matches the capture time limit enforced by the database
+  static readonly MAX_ATTEMPTS = 5;
+
+  private static listeners = new Set<OutboxListener>();
+  private static flushPromise: Promise<void> | null = null;
+  private static networkUnsubscribe: (() => void) | null = null;
+
+  /**
+   * Add a vibe check to the outbox
+   * @param params Form data, location sample and capture time of the vibe check
+   * @returns Promise with the queued item or structured error
+   */
+  static async enqueue(params: {
+    userId: string;
+    data: VibeCheckFormData;
+    location: Location.LocationObject;
+    capturedAt: Date;
+    venue: Pick<Venue, 'id' | 'name' | 'address'>;
+  }): Promise<{ data: PendingVibeCheck | null; error: AppError | null }> {
+    try {
+      const { userId, data, location, capturedAt, venue } = params;
+
+      // Local photo URIs may not survive until replay, so store the compressed images themselves.
+      // Video clips are too large to keep in AsyncStorage and can only be posted online.
+      const media: VibeCheckMediaInput[] = [];
+      for (const item of data.media ?? []) {
+        if (PhotoUploadService.isVideo(item)) {
+          return {
+            data: null,
+            error: ErrorFactory.invalidInput(
+              'media',
+              "Videos can't be saved offline. Remove the video or post when you're back online."
+            ),
+          };
+        }
+
+        if (item.uri.startsWith('data:')) {
+          media.push(item);
+          continue;
+        }
+
+        const photoResult = await PhotoUploadService.preparePhotoForStorage(item);
+        if (photoResult.error || !photoResult.data) {
+          return {
+            data: null,
+            error: ErrorParser.parseError(new Error(photoResult.error || 'Failed to prepare photo')),
+          };
+        }
+        media.push(photoResult.data);
+      }
+
+      const item: PendingVibeCheck = {
+        id: `outbox_${capturedAt.getTime()}_${Math.random().toString(36).substring(2, 8)}`,
+        user_id: userId,
+        form: { ...data, media: media.length > 0 ? media : undefined },
+        venue: { id: venue.id, name: venue.name, address: venue.address },
+        location: {
+          latitude: location.coords.latitude,
+          longitude: location.coords.longitude,
+          accuracy: location.coords.accuracy,
+          timestamp: location.timestamp,
+          mocked: location.mocked,
+        },
+        captured_at: capturedAt.toISOString(),
+        attempts: 0,
+        status: 'pending',
+      };
+
+      const items = await this.readItems();
+      await this.writeItems([...items, item]);
+
+      return { data: item, error: null };
+    } catch (error) {
+      console.error('Failed to queue vibe check:', error);
+      return { data: null, error: ErrorFactory.unknownError(error) };
+    }
+  }
+
+  /**
+   * Get outbox items, optionally filtered by user and venue
+   * @param filter Optional user and venue filters
+   * @returns Promise with items ordered by capture time (newest first)
+   */
+  static async getPending(filter: {
+    userId?: string;
+    venueId?: string;
+  } = {}): Promise<PendingVibeCheck[]> {
+    const items = await this.readItems();
+    return items
+      .filter(item => !filter.userId || item.user_id === filter.userId)
+      .filter(item => !filter.venueId || item.form.venue_id === filter.venueId)
+      .sort((a, b) => new Date(b.captured_at).getTime() - new Date(a.captured_at).getTime());
+  }
+
+  /**
+   * Remove an item from the outbox without posting it
+   * @param id Outbox item ID
+   */
+  static async discard(id: string): Promise<void> {
+    const items = await this.readItems();
+    await this.writeItems(items.filter(item => item.id !== id));
+  }
+
+  /**
+   * Subscribe to outbox changes
+   * @param listener Called with all outbox items whenever the outbox changes
+   * @returns Unsubscribe function
+   */
+  static subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start replaying the outbox now and whenever the device reconnects
+   * @returns Stop function
+   */
+  static start(): () => void {
+    if (!this.networkUnsubscribe) {
+      this.networkUnsubscribe = ConnectivityManager.subscribeToNetworkState(isConnected => {
+        if (isConnected) {
+          this.flush();
+        }
+      });
+    }
+
+    this.flush();
+
+    return () => this.stop();
+  }
+
+  /**
+   * Stop listening for connectivity changes
+   */
+  static stop(): void {
+    this.networkUnsubscribe?.();
+    this.networkUnsubscribe = null;
+  }
+
+  /**
+   * Post every pending item in capture order. Only one flush runs at a time.
+   */
+  static async flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.processQueue().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  private static async processQueue(): Promise<void> {
+    const items = (await this.readItems())
+      .filter(item => item.status !== 'failed')
+      .sort((a, b) => new Date(a.captured_at).getTime() - new Date(b.captured_at).getTime());
+
+    for (const item of items) {
+      const capturedAt = new Date(item.captured_at);
+
+      if (Date.now() - capturedAt.getTime() > this.MAX_ITEM_AGE_MS) {
+        await this.updateItem(item.id, {
+          status: 'failed',
+          last_error: 'This vibe check is too old to post.',
+        });
+        continue;
+      }
+
+      await this.updateItem(item.id, { status: 'sending' });
+
+      const { error } = await VibeCheckService.createVibeCheck(
+        item.form,
+        this.toLocationObject(item),
+        { capturedAt, venue: item.venue }
+      );
+
+      if (!error) {
+        await this.discard(item.id);
+        continue;
+      }
+
+      const attempts = item.attempts + 1;
+
+      if (ErrorParser.isConnectivityError(error) && attempts < this.MAX_ATTEMPTS) {
+        // Still offline, keep the remaining items for the next reconnect
+        await this.updateItem(item.id, { status: 'pending', attempts });
+        return;
+      }
+
+      await this.updateItem(item.id, {
+        status: 'failed',
+        attempts,
+        last_error: ErrorParser.unwrap(error).userMessage,
+      });
+    }
+  }
+
+  private static toLocationObject(item: PendingVibeCheck): Location.LocationObject {
+    return {
+      coords: {
+        latitude: item.location.latitude,
+        longitude: item.location.longitude,
+        accuracy: item.location.accuracy,
+        altitude: null,
+        altitudeAccuracy: null,
+        heading: null,
+        speed: null,
+      },
+      timestamp: item.location.timestamp,
+      mocked: item.location.mocked,
+    };
+  }
+
+  private static async updateItem(id: string, updates: Partial<PendingVibeCheck>): Promise<void> {
+    const items = await this.readItems();
+    await this.writeItems(items.map(item => (item.id === id ? { ...item, ...updates } : item)));
+  }
+
+  private static async readItems(): Promise<PendingVibeCheck[]> {
+    try {
+      const stored = await AsyncStorage.getItem(this.STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.warn('Failed to read vibe check outbox:', error);
+      return [];
+    }
+  }
+
+  private static async writeItems(items: PendingVibeCheck[]): Promise<void> {
+    await AsyncStorage.setItem(this.STORAGE_KEY, JSON.stringify(items));
+    this.listeners.forEach(listener => listener(items));
+  }
+}
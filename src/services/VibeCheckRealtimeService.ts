@@ -1,12 +1,14 @@
 import { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 import { VibeCheckWithDetails } from '../lib/types';
+import { isVibeCheckActiveSince } from '../lib/vibeCheckActivity';
 import { VibeCheckService } from './VibeCheckService';
 import { OptimizedRealtimeService } from './OptimizedRealtimeService';
 
 export interface RealtimeSubscriptionOptions {
   venueId?: string;
   onVibeCheckInsert?: (vibeCheck: VibeCheckWithDetails) => void;
+  // Also fired when reaction counts change, since they are kept on the vibe check row
   onVibeCheckUpdate?: (vibeCheck: VibeCheckWithDetails) => void;
   onVibeCheckDelete?: (vibeCheckId: string) => void;
   onError?: (error: any) => void;
@@ -109,7 +111,7 @@ export class VibeCheckRealtimeService {
 
     switch (eventType) {
       case 'INSERT':
-        if (newRecord && options.onVibeCheckInsert) {
+        if (newRecord && !newRecord.hidden_at && options.onVibeCheckInsert) {
           const vibeCheckWithDetails = await this.fetchVibeCheckWithDetails(newRecord.id);
           if (vibeCheckWithDetails) {
             options.onVibeCheckInsert(vibeCheckWithDetails);
@@ -118,6 +120,21 @@ export class VibeCheckRealtimeService {
         break;
 
       case 'UPDATE':
+        // Vibe checks hidden by reports or a moderator leave open feeds like deletes,
+        // and come back like inserts when a moderator restores them
+        if (newRecord?.hidden_at) {
+          options.onVibeCheckDelete?.(newRecord.id);
+          break;
+        }
+        if (newRecord && oldRecord?.hidden_at) {
+          if (options.onVibeCheckInsert) {
+            const vibeCheckWithDetails = await this.fetchVibeCheckWithDetails(newRecord.id);
+            if (vibeCheckWithDetails) {
+              options.onVibeCheckInsert(vibeCheckWithDetails);
+            }
+          }
+          break;
+        }
         if (newRecord && options.onVibeCheckUpdate) {
           const vibeCheckWithDetails = await this.fetchVibeCheckWithDetails(newRecord.id);
           if (vibeCheckWithDetails) {
@@ -150,10 +167,11 @@ export class VibeCheckRealtimeService {
         .from('vibe_checks')
         .select(`
           *,
-          user:users(id, name, avatar_url),
+          user:users(id, name, avatar_url, reputation_score),
           venue:venues(id, name, address)
         `)
         .eq('id', vibeCheckId)
+        .is('hidden_at', null)
         .single();
 
       if (error || !vibeCheck) {
@@ -205,13 +223,28 @@ export class VibeCheckRealtimeService {
       busyness_rating: rawData.busyness_rating,
       comment: rawData.comment,
       photo_url: rawData.photo_url,
+      media: rawData.media ?? [],
       user_latitude: rawData.user_latitude,
       user_longitude: rawData.user_longitude,
+      location_accuracy_meters: rawData.location_accuracy_meters ?? null,
+      location_confidence: rawData.location_confidence ?? null,
       created_at: rawData.created_at,
+      music_genre: rawData.music_genre ?? null,
+      queue_length: rawData.queue_length ?? null,
+      wait_minutes: rawData.wait_minutes ?? null,
+      cover_charge: rawData.cover_charge ?? null,
+      crowd_age_range: rawData.crowd_age_range ?? null,
+      dress_code_rating: rawData.dress_code_rating ?? null,
+      helpful_count: rawData.helpful_count ?? 0,
+      still_accurate_count: rawData.still_accurate_count ?? 0,
+      last_confirmed_at: rawData.last_confirmed_at ?? null,
+      report_count: rawData.report_count ?? 0,
+      hidden_at: rawData.hidden_at ?? null,
       user: {
         id: rawData.user.id,
         name: rawData.user.name || "Anonymous",
         avatar_url: rawData.user.avatar_url,
+        reputation_score: rawData.user.reputation_score,
       },
       venue: {
         id: rawData.venue.id,
@@ -219,7 +252,7 @@ export class VibeCheckRealtimeService {
         address: rawData.venue.address,
       },
       time_ago: timeAgo,
-      is_recent: createdAt > twoHoursAgo,
+      is_recent: isVibeCheckActiveSince(rawData, twoHoursAgo),
     };
   }
 
@@ -4,8 +4,17 @@ import {
   VibeCheck,
   VibeCheckWithDetails,
   VibeCheckFormData,
+  VibeCheckMedia,
+  VibeCheckMediaInput,
   Venue,
   User,
+  LocationVerification,
+  PendingVibeCheck,
+  VenueVibeAttributeSummary,
+  VibeCheckReactionType,
+  VibeCheckReactionCounts,
+  VibeCheckReportReason,
+  BusynessEstimate,
 } from "../lib/types";
 import { LocationVerificationService } from "./LocationVerificationService";
 import { PhotoUploadService, PhotoUploadProgress } from "./PhotoUploadService";
@@ -13,18 +22,47 @@ import { ErrorFactory, AppError, RetryManager, ErrorParser } from "../lib/errors
 import { ConnectivityManager } from "../lib/connectivity";
 import { VibeCheckCacheService } from "./CacheService";
 import { OptimizedQueryService } from "./OptimizedQueryService";
+import { VibeCheckOutboxService } from "./VibeCheckOutboxService";
+import { toVibeCheckAttributeColumns } from "../lib/vibeAttributes";
+import { isVibeCheckActiveSince } from "../lib/vibeCheckActivity";
+
+export interface CreateVibeCheckOptions {
+  // Original capture time, set when replaying a vibe check from the offline outbox
+  capturedAt?: Date;
+  // Venue snapshot used to render the vibe check while it waits in the outbox
+  venue?: Pick<Venue, "id" | "name" | "address">;
+  // Upload progress of each photo or video clip, by its position in data.media
+  onMediaProgress?: (index: number, progress: PhotoUploadProgress) => void;
+}
 
 export class VibeCheckService {
+  static readonly EDIT_WINDOW_MS = 60 * 60 * 1000; // 1 hour, matches the update RLS policy
+
   /**
-   * Create a new vibe check with comprehensive error handling and retry mechanism
+   * Create a new vibe check with comprehensive error handling and retry mechanism.
+   * When the device is offline the vibe check is queued in the outbox and posted on reconnect.
    * @param data Form data for the vibe check
    * @param userLocation User's current location for verification
-   * @returns Promise with created vibe check or structured error
+   * @param options Capture time and venue snapshot for offline posting
+   * @returns Promise with created vibe check, queued outbox item or structured error
    */
   static async createVibeCheck(
     data: VibeCheckFormData,
-    userLocation: Location.LocationObject
-  ): Promise<{ data: VibeCheck | null; error: AppError | null }> {
+    userLocation: Location.LocationObject,
+    options: CreateVibeCheckOptions = {}
+  ): Promise<{
+    data: VibeCheck | null;
+    error: AppError | null;
+    queued?: PendingVibeCheck;
+  }> {
+    const isReplay = !!options.capturedAt;
+    const referenceTime = options.capturedAt ?? new Date();
+
+    // Queue the vibe check instead of failing when there is no connection
+    if (!isReplay && !(await ConnectivityManager.isConnected())) {
+      return this.queueVibeCheck(data, userLocation, referenceTime, options.venue);
+    }
+
     const operation = async () => {
       // Check network connectivity
       const isConnected = await ConnectivityManager.isConnected();
@@ -64,6 +102,11 @@ export class VibeCheckService {
         throw ErrorFactory.invalidInput('venue', 'Venue not found');
       }
 
+      // The location sample must describe where the user was when they captured the vibe check
+      if (!LocationVerificationService.isLocationFresh(userLocation, referenceTime)) {
+        throw ErrorFactory.locationUnavailable();
+      }
+
       const locationVerification =
         await LocationVerificationService.verifyUserAtVenue(
           userLocation,
@@ -71,54 +114,57 @@ export class VibeCheckService {
         );
 
       if (!locationVerification.is_valid) {
-        throw ErrorFactory.locationTooFar(
-          locationVerification.distance_meters,
-          LocationVerificationService.MAX_DISTANCE_METERS
-        );
+        throw LocationVerificationService.getVerificationError(locationVerification);
       }
 
       // Check rate limiting (one vibe check per user per venue per hour)
-      const rateLimitResult = await this.checkRateLimit(user.id, data.venue_id);
+      const rateLimitResult = await this.checkRateLimit(
+        user.id,
+        data.venue_id,
+        isReplay ? referenceTime : undefined
+      );
       if (!rateLimitResult.canPost) {
         throw ErrorFactory.rateLimited(rateLimitResult.timeUntilReset || 3600000);
       }
 
-      // Upload photo if provided
-      let photoUrl: string | null = null;
-      if (data.photo) {
-        const photoResult = await this.uploadVibeCheckPhoto(
-          data.photo,
-          user.id
+      // Upload photos and video clips if provided
+      let media: VibeCheckMedia[] = [];
+      if (data.media && data.media.length > 0) {
+        const mediaResult = await this.uploadVibeCheckMedia(
+          data.media,
+          user.id,
+          options.onMediaProgress
         );
-        if (photoResult.error) {
-          throw ErrorParser.parseError(photoResult.error);
+        if (mediaResult.error || !mediaResult.data) {
+          throw ErrorParser.parseError(mediaResult.error);
         }
-        photoUrl = photoResult.data;
+        media = mediaResult.data;
       }
 
-      // Create vibe check record
-      const vibeCheckData = {
-        venue_id: data.venue_id,
-        user_id: user.id,
-        busyness_rating: data.busyness_rating,
-        comment: data.comment || null,
-        photo_url: photoUrl,
-        user_latitude: userLocation.coords.latitude,
-        user_longitude: userLocation.coords.longitude,
-      };
-
-      const { data: vibeCheck, error: insertError } = await supabase
-        .from("vibe_checks")
-        .insert(vibeCheckData)
-        .select()
-        .single();
+      // Create the vibe check. The database verifies the location again and records its
+      // confidence; photo_url is set to the first photo.
+      const attributes = toVibeCheckAttributeColumns(data);
+      const { data: vibeCheck, error: insertError } = await supabase.rpc("create_vibe_check", {
+        p_venue_id: data.venue_id,
+        p_busyness_rating: data.busyness_rating,
+        p_latitude: userLocation.coords.latitude,
+        p_longitude: userLocation.coords.longitude,
+        p_accuracy_meters: userLocation.coords.accuracy,
+        p_is_mocked: userLocation.mocked ?? false,
+        p_comment: data.comment || null,
+        p_media: media,
+        p_music_genre: attributes.music_genre,
+        p_queue_length: attributes.queue_length,
+        p_wait_minutes: attributes.wait_minutes,
+        p_cover_charge: attributes.cover_charge,
+        p_crowd_age_range: attributes.crowd_age_range,
+        p_dress_code_rating: attributes.dress_code_rating,
+        p_captured_at: isReplay ? referenceTime.toISOString() : null,
+      });
 
       if (insertError) {
-        // Handle specific database constraint errors
-        if (insertError.code === '23505') { // Unique constraint violation
-          throw ErrorFactory.rateLimited(3600000); // 1 hour
-        }
-        throw ErrorFactory.databaseError(insertError.message);
+        await PhotoUploadService.deleteUploadedMedia(media);
+        throw this.parseCreateVibeCheckError(insertError, locationVerification);
       }
 
       // Invalidate relevant cache entries
@@ -137,10 +183,97 @@ export class VibeCheckService {
     } catch (error) {
       console.error('Failed to create vibe check:', error);
       const appError = error instanceof Error ? ErrorParser.parseError(error) : error as AppError;
+
+      // Connection dropped mid-request: keep the vibe check for later instead of losing it
+      if (!isReplay && ErrorParser.isConnectivityError(appError)) {
+        return this.queueVibeCheck(data, userLocation, referenceTime, options.venue);
+      }
+
       return { data: null, error: appError };
     }
   }
 
+  /**
+   * Map a create_vibe_check() failure to a structured error
+   * @param error Error returned by the database
+   * @param verification Verification done on the device before posting
+   * @returns Structured error
+   */
+  private static parseCreateVibeCheckError(
+    error: { code?: string; message: string },
+    verification: LocationVerification
+  ): AppError {
+    // Unique constraint violation: one vibe check per user per venue per hour
+    if (error.code === "23505") {
+      return ErrorFactory.rateLimited(3600000);
+    }
+
+    // The database rejected a location the device accepted
+    if (error.code === "23514") {
+      if (error.message.includes("mocked")) {
+        return ErrorFactory.locationMocked();
+      }
+      if (error.message.includes("accuracy")) {
+        return ErrorFactory.locationInaccurate(
+          verification.accuracy_meters != null ? Math.round(verification.accuracy_meters) : null,
+          LocationVerificationService.MAX_ACCURACY_METERS
+        );
+      }
+      const distance = error.message.match(/(\d+)m from the venue, which allows (\d+)m/);
+      if (distance) {
+        return ErrorFactory.locationTooFar(parseInt(distance[1], 10), parseInt(distance[2], 10));
+      }
+      const outside = error.message.match(/(\d+)m outside the venue/);
+      if (outside) {
+        return ErrorFactory.locationOutsideVenue(parseInt(outside[1], 10));
+      }
+    }
+
+    return ErrorFactory.databaseError(error.message);
+  }
+
+  /**
+   * Save a vibe check to the offline outbox so it can be posted when connectivity returns
+   * @param data Form data for the vibe check
+   * @param userLocation Location sample taken when the vibe check was captured
+   * @param capturedAt Capture time
+   * @param venue Venue snapshot for rendering the pending vibe check
+   * @returns Promise with the queued outbox item or structured error
+   */
+  private static async queueVibeCheck(
+    data: VibeCheckFormData,
+    userLocation: Location.LocationObject,
+    capturedAt: Date,
+    venue?: Pick<Venue, "id" | "name" | "address">
+  ): Promise<{
+    data: VibeCheck | null;
+    error: AppError | null;
+    queued?: PendingVibeCheck;
+  }> {
+    // getSession reads the persisted session, so it works without a connection
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session?.user) {
+      return { data: null, error: ErrorFactory.authRequired() };
+    }
+
+    const { data: queued, error } = await VibeCheckOutboxService.enqueue({
+      userId: session.user.id,
+      data,
+      location: userLocation,
+      capturedAt,
+      venue: venue ?? { id: data.venue_id, name: "Venue", address: null },
+    });
+
+    if (error || !queued) {
+      return { data: null, error: error ?? ErrorFactory.networkOffline() };
+    }
+
+    return { data: null, error: null, queued };
+  }
+
   /**
    * Get recent vibe checks for a specific venue with caching and optimization
    * @param venueId ID of the venue
@@ -271,31 +404,64 @@ export class VibeCheckService {
     }
   }
 
+  /**
+   * Upload the photos and video clips of a vibe check, reporting progress per item
+   * @param media Media picked in the form
+   * @param userId User ID for file naming
+   * @param onProgress Optional progress callback, called with the item's position
+   * @returns Promise with the uploaded media or error
+   */
+  static async uploadVibeCheckMedia(
+    media: VibeCheckMediaInput[],
+    userId: string,
+    onProgress?: (index: number, progress: PhotoUploadProgress) => void
+  ): Promise<{ data: VibeCheckMedia[] | null; error: any }> {
+    try {
+      return await PhotoUploadService.uploadMedia(media, userId, {
+        quality: 0.8,
+        maxWidth: 1200,
+        maxHeight: 1200,
+        onItemProgress: onProgress,
+      });
+    } catch (error) {
+      console.error('Media upload error:', error);
+      return {
+        data: null,
+        error: error instanceof Error ? error.message : "Failed to upload media. Please try again.",
+      };
+    }
+  }
+
   /**
    * Check rate limiting with caching and optimization
    * @param userId User ID
    * @param venueId Venue ID
+   * @param referenceTime Capture time for vibe checks replayed from the outbox (default: now)
    * @returns Promise with rate limit status and time until reset
    */
   static async checkRateLimit(
     userId: string,
-    venueId: string
+    venueId: string,
+    referenceTime?: Date
   ): Promise<{
     canPost: boolean;
     timeUntilReset?: number;
     lastVibeCheck?: Date;
   }> {
     try {
-      // Check cache first
-      const cachedResult = await VibeCheckCacheService.getCachedUserRateLimit(userId, venueId);
-      if (cachedResult) {
-        return cachedResult;
+      // Check cache first (cached results are only valid for the current time)
+      if (!referenceTime) {
+        const cachedResult = await VibeCheckCacheService.getCachedUserRateLimit(userId, venueId);
+        if (cachedResult) {
+          return cachedResult;
+        }
       }
 
       // Use optimized query service
       const { data: result, error } = await OptimizedQueryService.getUserRecentVibeCheckOptimized(
         userId,
-        venueId
+        venueId,
+        referenceTime
       );
 
       if (error) {
@@ -304,7 +470,9 @@ export class VibeCheckService {
       }
 
       // Cache the result
-      await VibeCheckCacheService.cacheUserRateLimit(userId, venueId, result);
+      if (!referenceTime) {
+        await VibeCheckCacheService.cacheUserRateLimit(userId, venueId, result);
+      }
 
       return result;
     } catch (error) {
@@ -347,7 +515,7 @@ export class VibeCheckService {
         .select(
           `
           *,
-          user:users(id, name, avatar_url),
+          user:users(id, name, avatar_url, reputation_score),
           venue:venues(id, name, address)
         `
         )
@@ -378,7 +546,66 @@ export class VibeCheckService {
   }
 
   /**
-   * Update an existing vibe check (within 1 hour of creation)
+   * Get the time left to edit a vibe check (vibe checks can be edited within 1 hour of creation)
+   * @param vibeCheck Vibe check to check
+   * @returns Remaining edit time in milliseconds, 0 once the window has closed
+   */
+  static getEditTimeRemaining(vibeCheck: Pick<VibeCheck, "created_at">): number {
+    const createdAt = new Date(vibeCheck.created_at).getTime();
+    return Math.max(0, createdAt + this.EDIT_WINDOW_MS - Date.now());
+  }
+
+  /**
+   * Apply edited form data to a vibe check, uploading any newly picked photos or video clips
+   * @param vibeCheck Vibe check being edited
+   * @param data Edited form data. Media items whose uri is the url of a current item are kept.
+   * @param onProgress Optional upload progress callback, called with the item's position in data.media
+   * @returns Promise with updated vibe check or error
+   */
+  static async editVibeCheck(
+    vibeCheck: VibeCheck,
+    data: VibeCheckFormData,
+    onProgress?: (index: number, progress: PhotoUploadProgress) => void
+  ): Promise<{ data: VibeCheck | null; error: any }> {
+    const currentMedia = new Map(vibeCheck.media.map((item) => [item.url, item]));
+    const picked = data.media ?? [];
+    const newItems = picked.filter((item) => !currentMedia.has(item.uri));
+
+    let uploaded: VibeCheckMedia[] = [];
+    if (newItems.length > 0) {
+      const mediaResult = await this.uploadVibeCheckMedia(
+        newItems,
+        vibeCheck.user_id,
+        onProgress && ((index, progress) => onProgress(picked.indexOf(newItems[index]), progress))
+      );
+      if (mediaResult.error || !mediaResult.data) {
+        return { data: null, error: mediaResult.error || "Failed to upload media. Please try again." };
+      }
+      uploaded = mediaResult.data;
+    }
+
+    // Keep the order the items were arranged in
+    let uploadIndex = 0;
+    const media = picked.map((item) => currentMedia.get(item.uri) ?? uploaded[uploadIndex++]);
+
+    const result = await this.updateVibeCheck(vibeCheck.id, {
+      busyness_rating: data.busyness_rating,
+      comment: data.comment || null,
+      media,
+      ...toVibeCheckAttributeColumns(data),
+    });
+
+    // Don't leave the new media orphaned in storage if the update was rejected
+    if (result.error && uploaded.length > 0) {
+      await PhotoUploadService.deleteUploadedMedia(uploaded);
+    }
+
+    return result;
+  }
+
+  /**
+   * Update an existing vibe check (within 1 hour of creation).
+   * Removed photos and video clips are deleted from storage.
    * @param vibeCheckId ID of the vibe check to update
    * @param updates Partial data to update
    * @returns Promise with updated vibe check or error
@@ -386,10 +613,38 @@ export class VibeCheckService {
   static async updateVibeCheck(
     vibeCheckId: string,
     updates: Partial<
-      Pick<VibeCheck, "busyness_rating" | "comment" | "photo_url">
+      Pick<
+        VibeCheck,
+        | "busyness_rating"
+        | "comment"
+        | "media"
+        | "music_genre"
+        | "queue_length"
+        | "wait_minutes"
+        | "cover_charge"
+        | "crowd_age_range"
+        | "dress_code_rating"
+      >
     >
   ): Promise<{ data: VibeCheck | null; error: any }> {
     try {
+      const { data: existing, error: fetchError } = await supabase
+        .from("vibe_checks")
+        .select("venue_id, media, created_at")
+        .eq("id", vibeCheckId)
+        .single();
+
+      if (fetchError || !existing) {
+        return { data: null, error: fetchError?.message || "Vibe check not found" };
+      }
+
+      if (this.getEditTimeRemaining(existing) === 0) {
+        return {
+          data: null,
+          error: "Vibe checks can only be edited within 1 hour of posting.",
+        };
+      }
+
       const { data: vibeCheck, error } = await supabase
         .from("vibe_checks")
         .update(updates)
@@ -401,6 +656,18 @@ export class VibeCheckService {
         return { data: null, error: error.message };
       }
 
+      if (updates.media !== undefined) {
+        const keptUrls = new Set(updates.media.map((item) => item.url));
+        const removed = (existing.media ?? []).filter(
+          (item: VibeCheckMedia) => !keptUrls.has(item.url)
+        );
+        if (removed.length > 0) {
+          await PhotoUploadService.deleteUploadedMedia(removed);
+        }
+      }
+
+      await VibeCheckCacheService.invalidateOnVibeCheckChange(existing.venue_id);
+
       return { data: vibeCheck, error: null };
     } catch (error) {
       return {
@@ -411,7 +678,7 @@ export class VibeCheckService {
   }
 
   /**
-   * Delete a vibe check
+   * Delete a vibe check and its photos and video clips
    * @param vibeCheckId ID of the vibe check to delete
    * @returns Promise with success status or error
    */
@@ -419,15 +686,26 @@ export class VibeCheckService {
     vibeCheckId: string
   ): Promise<{ success: boolean; error: any }> {
     try {
-      const { error } = await supabase
+      const { data: deleted, error } = await supabase
         .from("vibe_checks")
         .delete()
-        .eq("id", vibeCheckId);
+        .eq("id", vibeCheckId)
+        .select("venue_id, media");
 
       if (error) {
         return { success: false, error: error.message };
       }
 
+      // RLS silently skips rows the user doesn't own
+      if (!deleted || deleted.length === 0) {
+        return { success: false, error: "Vibe check not found" };
+      }
+
+      const [{ venue_id, media }] = deleted;
+      await PhotoUploadService.deleteUploadedMedia(media ?? []);
+
+      await VibeCheckCacheService.invalidateOnVibeCheckChange(venue_id);
+
       return { success: true, error: null };
     } catch (error) {
       return {
@@ -437,12 +715,221 @@ export class VibeCheckService {
     }
   }
 
+  /**
+   * Mark someone else's vibe check as helpful or confirm it is still accurate.
+   * Reacting again with the same type is a no-op.
+   * @param vibeCheckId ID of the vibe check
+   * @param reactionType Type of reaction
+   * @returns Promise with the updated reaction counts or error
+   */
+  static async addReaction(
+    vibeCheckId: string,
+    reactionType: VibeCheckReactionType
+  ): Promise<{ data: VibeCheckReactionCounts | null; error: any }> {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        return { data: null, error: "You need to be signed in to react to vibe checks." };
+      }
+
+      const { error } = await supabase.from("vibe_check_reactions").insert({
+        vibe_check_id: vibeCheckId,
+        user_id: user.id,
+        reaction_type: reactionType,
+      });
+
+      // 23505 = unique violation, the user already left this reaction
+      if (error && error.code !== "23505") {
+        // RLS rejects reactions on own or expired vibe checks
+        if (error.code === "42501") {
+          return {
+            data: null,
+            error:
+              reactionType === "still_accurate"
+                ? "Only live vibe checks from other people can be confirmed."
+                : "You can't react to your own vibe check.",
+          };
+        }
+        return { data: null, error: error.message };
+      }
+
+      return this.getReactionCounts(vibeCheckId);
+    } catch (error) {
+      return {
+        data: null,
+        error: "Failed to save reaction. Please try again.",
+      };
+    }
+  }
+
+  /**
+   * Remove the current user's reaction from a vibe check
+   * @param vibeCheckId ID of the vibe check
+   * @param reactionType Type of reaction
+   * @returns Promise with the updated reaction counts or error
+   */
+  static async removeReaction(
+    vibeCheckId: string,
+    reactionType: VibeCheckReactionType
+  ): Promise<{ data: VibeCheckReactionCounts | null; error: any }> {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        return { data: null, error: "You need to be signed in to react to vibe checks." };
+      }
+
+      const { error } = await supabase
+        .from("vibe_check_reactions")
+        .delete()
+        .eq("vibe_check_id", vibeCheckId)
+        .eq("user_id", user.id)
+        .eq("reaction_type", reactionType);
+
+      if (error) {
+        return { data: null, error: error.message };
+      }
+
+      return this.getReactionCounts(vibeCheckId);
+    } catch (error) {
+      return {
+        data: null,
+        error: "Failed to remove reaction. Please try again.",
+      };
+    }
+  }
+
+  /**
+   * Get the reactions the current user left on a set of vibe checks
+   * @param vibeCheckIds IDs of the vibe checks
+   * @returns Promise with reaction types keyed by vibe check ID or error
+   */
+  static async getUserReactions(
+    vibeCheckIds: string[]
+  ): Promise<{ data: Record<string, VibeCheckReactionType[]>; error: any }> {
+    try {
+      if (vibeCheckIds.length === 0) {
+        return { data: {}, error: null };
+      }
+
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        return { data: {}, error: null };
+      }
+
+      const { data: reactions, error } = await supabase
+        .from("vibe_check_reactions")
+        .select("vibe_check_id, reaction_type")
+        .eq("user_id", user.id)
+        .in("vibe_check_id", vibeCheckIds);
+
+      if (error) {
+        return { data: {}, error: error.message };
+      }
+
+      const byVibeCheck: Record<string, VibeCheckReactionType[]> = {};
+      for (const reaction of reactions || []) {
+        if (!byVibeCheck[reaction.vibe_check_id]) {
+          byVibeCheck[reaction.vibe_check_id] = [];
+        }
+        byVibeCheck[reaction.vibe_check_id].push(reaction.reaction_type);
+      }
+
+      return { data: byVibeCheck, error: null };
+    } catch (error) {
+      return {
+        data: {},
+        error: "Failed to fetch reactions. Please try again.",
+      };
+    }
+  }
+
+  /**
+   * Report someone else's vibe check. The database hides it automatically
+   * once enough distinct users have reported it.
+   * @param vibeCheckId ID of the vibe check
+   * @param reason Reason for the report
+   * @param details Optional note for moderators
+   * @returns Promise with success status or error
+   */
+  static async reportVibeCheck(
+    vibeCheckId: string,
+    reason: VibeCheckReportReason,
+    details?: string
+  ): Promise<{ success: boolean; error: any }> {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        return { success: false, error: "You need to be signed in to report vibe checks." };
+      }
+
+      const { error } = await supabase.from("vibe_check_reports").insert({
+        vibe_check_id: vibeCheckId,
+        reporter_id: user.id,
+        reason,
+        details: details?.trim() || null,
+      });
+
+      if (error) {
+        // 23505 = unique violation, one report per user per vibe check
+        if (error.code === "23505") {
+          return { success: false, error: "You have already reported this vibe check." };
+        }
+        if (error.code === "42501") {
+          return { success: false, error: "You can't report your own vibe check." };
+        }
+        return { success: false, error: error.message };
+      }
+
+      return { success: true, error: null };
+    } catch (error) {
+      return {
+        success: false,
+        error: "Failed to report vibe check. Please try again.",
+      };
+    }
+  }
+
+  /**
+   * Read the reaction counts kept on a vibe check by the database and
+   * invalidate cached venue data, since confirmations change live activity
+   */
+  private static async getReactionCounts(
+    vibeCheckId: string
+  ): Promise<{ data: VibeCheckReactionCounts | null; error: any }> {
+    const { data: vibeCheck, error } = await supabase
+      .from("vibe_checks")
+      .select("venue_id, helpful_count, still_accurate_count, last_confirmed_at")
+      .eq("id", vibeCheckId)
+      .single();
+
+    if (error || !vibeCheck) {
+      return { data: null, error: error?.message || "Vibe check not found" };
+    }
+
+    await VibeCheckCacheService.invalidateOnVibeCheckChange(vibeCheck.venue_id);
+
+    const { venue_id, ...counts } = vibeCheck;
+    return { data: counts, error: null };
+  }
+
   /**
    * Transform raw vibe check data to VibeCheckWithDetails
    * @param rawData Raw data from database query
    * @returns Transformed VibeCheckWithDetails object
    */
-  private static transformToVibeCheckWithDetails(
+  static transformToVibeCheckWithDetails(
     rawData: any
   ): VibeCheckWithDetails {
     const createdAt = new Date(rawData.created_at);
@@ -474,13 +961,28 @@ export class VibeCheckService {
       busyness_rating: rawData.busyness_rating,
       comment: rawData.comment,
       photo_url: rawData.photo_url,
+      media: rawData.media ?? [],
       user_latitude: rawData.user_latitude,
       user_longitude: rawData.user_longitude,
+      location_accuracy_meters: rawData.location_accuracy_meters ?? null,
+      location_confidence: rawData.location_confidence ?? null,
       created_at: rawData.created_at,
+      music_genre: rawData.music_genre ?? null,
+      queue_length: rawData.queue_length ?? null,
+      wait_minutes: rawData.wait_minutes ?? null,
+      cover_charge: rawData.cover_charge ?? null,
+      crowd_age_range: rawData.crowd_age_range ?? null,
+      dress_code_rating: rawData.dress_code_rating ?? null,
+      helpful_count: rawData.helpful_count ?? 0,
+      still_accurate_count: rawData.still_accurate_count ?? 0,
+      last_confirmed_at: rawData.last_confirmed_at ?? null,
+      report_count: rawData.report_count ?? 0,
+      hidden_at: rawData.hidden_at ?? null,
       user: {
         id: rawData.user.id,
         name: rawData.user.name || "Anonymous",
         avatar_url: rawData.user.avatar_url,
+        reputation_score: rawData.user.reputation_score,
       },
       venue: {
         id: rawData.venue.id,
@@ -488,7 +990,7 @@ export class VibeCheckService {
         address: rawData.venue.address,
       },
       time_ago: timeAgo,
-      is_recent: createdAt > twoHoursAgo,
+      is_recent: isVibeCheckActiveSince(rawData, twoHoursAgo),
     };
   }
 
@@ -505,8 +1007,10 @@ export class VibeCheckService {
     data: {
       recent_count: number;
       average_busyness: number | null;
+      busyness_estimate: BusynessEstimate;
       has_live_activity: boolean;
       latest_vibe_check: VibeCheckWithDetails | null;
+      attributes: VenueVibeAttributeSummary;
     } | null;
     error: any;
   }> {
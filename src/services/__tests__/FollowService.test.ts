@@ -0,0 +1,160 @@
+import { FollowService } from '../FollowService';
+import { OptimizedQueryService } from '../OptimizedQueryService';
+import { supabase } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../OptimizedQueryService', () => ({
+  OptimizedQueryService: {
+    getLiveVibeChecksOptimized: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+const mockGetLiveVibeChecks = OptimizedQueryService.getLiveVibeChecksOptimized as jest.Mock;
+
+// Query builder that resolves to result wherever the chain ends
+const createQuery = (result: { data: any; error: any }) => {
+  const query: any = {};
+  for (const method of ['select', 'eq', 'or', 'in', 'gte', 'order', 'limit', 'insert', 'update', 'delete', 'overrideTypes']) {
+    query[method] = jest.fn(() => query);
+  }
+  query.then = (resolve: (value: any) => any, reject: (reason: any) => any) =>
+    Promise.resolve(result).then(resolve, reject);
+  return query;
+};
+
+const profile = (id: string) => ({ id, name: `User ${id}`, avatar_url: null, university: null });
+
+describe('FollowService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('requestFollow', () => {
+    it('should not let users follow themselves', async () => {
+      const { success, error } = await FollowService.requestFollow('user-1', 'user-1');
+
+      expect(success).toBe(false);
+      expect(error).toBe("You can't follow yourself.");
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('should treat an existing follow or request as done', async () => {
+      const query = createQuery({ data: null, error: { code: '23505', message: 'duplicate key' } });
+      mockFrom.mockReturnValue(query);
+
+      const { success } = await FollowService.requestFollow('user-1', 'user-2');
+
+      expect(query.insert).toHaveBeenCalledWith({ follower_id: 'user-1', following_id: 'user-2' });
+      expect(success).toBe(true);
+    });
+  });
+
+  it('should report a request withdrawn before it was accepted', async () => {
+    const query = createQuery({ data: [], error: null });
+    mockFrom.mockReturnValue(query);
+
+    const { success, error } = await FollowService.acceptRequest('user-1', 'user-2');
+
+    expect(query.update).toHaveBeenCalledWith({ status: 'accepted' });
+    expect(query.eq).toHaveBeenCalledWith('status', 'pending');
+    expect(success).toBe(false);
+    expect(error).toBe('This follow request was withdrawn.');
+  });
+
+  it('should read follow counts from get_follow_counts()', async () => {
+    mockRpc.mockResolvedValue({ data: [{ followers: 12, following: 8, requests: 2 }], error: null });
+
+    const { data } = await FollowService.getCounts('user-1');
+
+    expect(mockRpc).toHaveBeenCalledWith('get_follow_counts', { p_user_id: 'user-1' });
+    expect(data).toEqual({ followers: 12, following: 8, requests: 2 });
+  });
+
+  it('should return the message of database errors', async () => {
+    mockFrom.mockReturnValue(createQuery({ data: null, error: { code: '42501', message: 'permission denied' } }));
+
+    const { success, error } = await FollowService.unfollow('user-1', 'user-2');
+
+    expect(success).toBe(false);
+    expect(error).toBe('permission denied');
+  });
+
+  it('should list followers with when they followed', async () => {
+    const query = createQuery({
+      data: [
+        { created_at: '2025-06-12T20:00:00.000Z', user: profile('user-2') },
+        { created_at: '2025-06-11T20:00:00.000Z', user: null },
+      ],
+      error: null,
+    });
+    mockFrom.mockReturnValue(query);
+
+    const { data } = await FollowService.getFollowers('user-1');
+
+    expect(query.eq).toHaveBeenCalledWith('following_id', 'user-1');
+    expect(query.eq).toHaveBeenCalledWith('status', 'accepted');
+    expect(data).toEqual([{ ...profile('user-2'), followed_at: '2025-06-12T20:00:00.000Z' }]);
+  });
+
+  describe('getFriendsActivity', () => {
+    it('should not load activity for users who follow nobody', async () => {
+      mockFrom.mockReturnValue(createQuery({ data: [], error: null }));
+
+      const { data, error } = await FollowService.getFriendsActivity('user-1');
+
+      expect(data).toEqual([]);
+      expect(error).toBeNull();
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+      expect(mockGetLiveVibeChecks).not.toHaveBeenCalled();
+    });
+
+    it('should merge vibe checks, reviews and group plans from people followed', async () => {
+      const reviews = createQuery({
+        data: [
+          {
+            id: 'review-1',
+            rating: 4,
+            comment: null,
+            created_at: '2025-06-12T18:00:00.000Z',
+            user: profile('user-2'),
+            venue: { id: 'venue-1', name: 'Venue' },
+          },
+        ],
+        error: null,
+      });
+      const memberships = createQuery({
+        data: [
+          {
+            joined_at: '2025-06-12T19:00:00.000Z',
+            user: profile('user-2'),
+            group: { id: 'group-1', name: 'Friday', date: '2099-06-13', time: '21:30', venue: null },
+          },
+        ],
+        error: null,
+      });
+      mockFrom
+        .mockReturnValueOnce(createQuery({ data: [{ following_id: 'user-2' }], error: null }))
+        .mockReturnValueOnce(reviews)
+        .mockReturnValueOnce(memberships);
+      mockGetLiveVibeChecks.mockResolvedValue({
+        data: [{ id: 'vibe-1', created_at: '2025-06-12T20:00:00.000Z' }],
+        error: null,
+      });
+
+      const { data } = await FollowService.getFriendsActivity('user-1');
+
+      expect(mockGetLiveVibeChecks).toHaveBeenCalledWith(7 * 24, { limit: 50, userIds: ['user-2'] });
+      expect(reviews.in).toHaveBeenCalledWith('user_id', ['user-2']);
+      expect(memberships.eq).toHaveBeenCalledWith('approved', true);
+      expect(data.map((item) => item.id)).toEqual(['vibe_check:vibe-1', 'group_plan:group-1', 'review:review-1']);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { GroupChatService } from '../GroupChatService';
+import { PhotoUploadService } from '../PhotoUploadService';
+import { supabase } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+jest.mock('../PhotoUploadService', () => ({
+  PhotoUploadService: {
+    uploadPhoto: jest.fn(),
+    deleteUploadedMedia: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+const mockUploadPhoto = PhotoUploadService.uploadPhoto as jest.Mock;
+const mockDeleteMedia = PhotoUploadService.deleteUploadedMedia as jest.Mock;
+
+// Query builder that resolves to result wherever the chain ends
+const createQuery = (result: { data: any; error: any }) => {
+  const query: any = {};
+  for (const method of ['select', 'eq', 'or', 'order', 'limit', 'insert']) {
+    query[method] = jest.fn(() => query);
+  }
+  query.overrideTypes = jest.fn(() => Promise.resolve(result));
+  query.single = jest.fn(() => Promise.resolve(result));
+  return query;
+};
+
+const message = (id: string, minute: number) => ({
+  id,
+  group_id: 'group-1',
+  sender_id: 'user-1',
+  content: `Message ${id}`,
+  message_type: 'text',
+  image_url: null,
+  created_at: `2025-06-12T21:${String(minute).padStart(2, '0')}:00.000Z`,
+  sender: { name: 'Sam', avatar_url: null },
+});
+
+describe('GroupChatService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getMessages', () => {
+    it('should return a page newest first with a cursor to older messages', async () => {
+      const query = createQuery({ data: [message('c', 3), message('b', 2), message('a', 1)], error: null });
+      mockFrom.mockReturnValue(query);
+
+      const { data, hasMore, nextCursor } = await GroupChatService.getMessages('group-1', { limit: 2 });
+
+      expect(data.map((m) => m.id)).toEqual(['c', 'b']);
+      expect(hasMore).toBe(true);
+      expect(nextCursor).toEqual({ created_at: '2025-06-12T21:02:00.000Z', id: 'b' });
+      expect(query.limit).toHaveBeenCalledWith(3);
+      expect(query.or).not.toHaveBeenCalled();
+    });
+
+    it('should load messages older than the cursor', async () => {
+      const query = createQuery({ data: [message('a', 1)], error: null });
+      mockFrom.mockReturnValue(query);
+
+      const { hasMore, nextCursor } = await GroupChatService.getMessages('group-1', {
+        limit: 2,
+        cursor: { created_at: '2025-06-12T21:02:00.000Z', id: 'b' },
+      });
+
+      expect(query.or).toHaveBeenCalledWith(
+        'created_at.lt."2025-06-12T21:02:00.000Z",and(created_at.eq."2025-06-12T21:02:00.000Z",id.lt.b)'
+      );
+      expect(hasMore).toBe(false);
+      expect(nextCursor).toBeNull();
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('should send trimmed text', async () => {
+      const query = createQuery({ data: message('a', 1), error: null });
+      mockFrom.mockReturnValue(query);
+
+      const { data, error } = await GroupChatService.sendMessage('group-1', 'user-1', '  On my way  ');
+
+      expect(error).toBeNull();
+      expect(data?.id).toBe('a');
+      expect(query.insert).toHaveBeenCalledWith({
+        group_id: 'group-1',
+        sender_id: 'user-1',
+        content: 'On my way',
+        message_type: 'text',
+      });
+    });
+
+    it('should reject empty messages without calling the database', async () => {
+      const { error } = await GroupChatService.sendMessage('group-1', 'user-1', '   ');
+
+      expect(error).toBe('Type a message first.');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendImage', () => {
+    const photo = { uri: 'file://photo.jpg', type: 'image/jpeg', name: 'photo.jpg' };
+
+    it('should upload the photo and send it with its caption', async () => {
+      mockUploadPhoto.mockResolvedValue({ data: 'https://cdn.example.com/photo.jpg', error: null });
+      const query = createQuery({ data: message('a', 1), error: null });
+      mockFrom.mockReturnValue(query);
+
+      await GroupChatService.sendImage('group-1', 'user-1', photo, ' The queue ');
+
+      expect(mockUploadPhoto).toHaveBeenCalledWith(photo, 'user-1');
+      expect(query.insert).toHaveBeenCalledWith({
+        group_id: 'group-1',
+        sender_id: 'user-1',
+        content: 'The queue',
+        message_type: 'image',
+        image_url: 'https://cdn.example.com/photo.jpg',
+      });
+      expect(mockDeleteMedia).not.toHaveBeenCalled();
+    });
+
+    it('should delete the photo when the message is rejected', async () => {
+      mockUploadPhoto.mockResolvedValue({ data: 'https://cdn.example.com/photo.jpg', error: null });
+      mockFrom.mockReturnValue(createQuery({ data: null, error: { message: 'permission denied' } }));
+
+      const { data, error } = await GroupChatService.sendImage('group-1', 'user-1', photo);
+
+      expect(data).toBeNull();
+      expect(error).toBe('permission denied');
+      expect(mockDeleteMedia).toHaveBeenCalledWith([{ url: 'https://cdn.example.com/photo.jpg' }]);
+    });
+
+    it('should not send a message when the upload fails', async () => {
+      mockUploadPhoto.mockResolvedValue({ data: null, error: 'File too large' });
+
+      const { data, error } = await GroupChatService.sendImage('group-1', 'user-1', photo);
+
+      expect(data).toBeNull();
+      expect(error).toBe('File too large');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should key unread counts by group', async () => {
+    mockRpc.mockResolvedValue({
+      data: [
+        { group_id: 'group-1', unread_count: 3 },
+        { group_id: 'group-2', unread_count: 1 },
+      ],
+      error: null,
+    });
+
+    const { data } = await GroupChatService.getUnreadCounts();
+
+    expect(mockRpc).toHaveBeenCalledWith('get_group_unread_counts');
+    expect(data).toEqual({ 'group-1': 3, 'group-2': 1 });
+  });
+});
@@ -0,0 +1,245 @@
+import * as Location from 'expo-location';
+import { LocationVerificationService } from '../LocationVerificationService';
+import { ErrorType } from '../../lib/errors';
+import { Venue } from '../../lib/types';
+
+jest.mock('expo-location', () => ({
+  Accuracy: { High: 4 },
+  hasServicesEnabledAsync: jest.fn(),
+  requestForegroundPermissionsAsync: jest.fn(),
+  watchPositionAsync: jest.fn(),
+}));
+
+jest.mock('../../lib/connectivity', () => ({ ConnectivityManager: {} }));
+
+const mockWatchPosition = Location.watchPositionAsync as jest.Mock;
+
+const VENUE = {
+  id: 'venue-1',
+  name: 'Test Club',
+  description: null,
+  location: null,
+  contact: null,
+  hours: null,
+  cover_image_url: null,
+  cover_video_url: null,
+  geofence_radius_meters: null,
+  geofence_polygon: null,
+  tags: [],
+  latitude: -1.2921,
+  longitude: 36.8219,
+  address: '123 Test Street',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+} as Venue;
+
+// Roughly 11m of latitude per 0.0001 degrees
+const fix = (
+  latitudeOffset: number,
+  accuracy: number | null,
+  overrides: Partial<Location.LocationObject> = {}
+): Location.LocationObject => ({
+  coords: {
+    latitude: VENUE.latitude! + latitudeOffset,
+    longitude: VENUE.longitude!,
+    altitude: null,
+    accuracy,
+    altitudeAccuracy: null,
+    heading: null,
+    speed: null,
+  },
+  timestamp: 1700000000000,
+  ...overrides,
+});
+
+describe('Location verification', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getLocationConfidence', () => {
+    it('should be high when the whole accuracy circle is inside the geofence', () => {
+      expect(LocationVerificationService.getLocationConfidence(-60, 20)).toBe('high');
+    });
+
+    it('should be medium when only the fix itself is inside the geofence', () => {
+      expect(LocationVerificationService.getLocationConfidence(-10, 20)).toBe('medium');
+    });
+
+    it('should be low when only part of the accuracy circle is inside the geofence', () => {
+      expect(LocationVerificationService.getLocationConfidence(10, 20)).toBe('low');
+    });
+
+    it('should be null when the accuracy circle is outside the geofence', () => {
+      expect(LocationVerificationService.getLocationConfidence(30, 20)).toBeNull();
+    });
+
+    it('should be null without a usable accuracy', () => {
+      expect(LocationVerificationService.getLocationConfidence(-90, null)).toBeNull();
+      expect(LocationVerificationService.getLocationConfidence(-90, 80)).toBeNull();
+    });
+  });
+
+  describe('combineLocationFixes', () => {
+    it('should weight the position towards more accurate fixes', () => {
+      const combined = LocationVerificationService.combineLocationFixes([
+        fix(0, 5),
+        fix(0.0002, 50),
+      ]);
+
+      expect(combined.coords.latitude).toBeCloseTo(VENUE.latitude!, 5);
+    });
+
+    it('should widen the accuracy to cover fixes that jump around', () => {
+      const combined = LocationVerificationService.combineLocationFixes([
+        fix(0, 5),
+        fix(0.0005, 5),
+      ]);
+
+      expect(combined.coords.accuracy).toBeGreaterThan(20);
+    });
+
+    it('should keep the latest timestamp and flag mocked fixes', () => {
+      const combined = LocationVerificationService.combineLocationFixes([
+        fix(0, 10, { timestamp: 1 }),
+        fix(0, 10, { timestamp: 3, mocked: true }),
+        fix(0, 10, { timestamp: 2 }),
+      ]);
+
+      expect(combined.timestamp).toBe(3);
+      expect(combined.mocked).toBe(true);
+    });
+
+    it('should leave the accuracy unknown when no fix reports one', () => {
+      const combined = LocationVerificationService.combineLocationFixes([fix(0, null)]);
+
+      expect(combined.coords.accuracy).toBeNull();
+    });
+  });
+
+  describe('verifyUserAtVenue', () => {
+    it('should verify a precise fix at the venue with high confidence', async () => {
+      const verification = await LocationVerificationService.verifyUserAtVenue(fix(0.0002, 10), VENUE);
+
+      expect(verification.is_valid).toBe(true);
+      expect(verification.confidence).toBe('high');
+      expect(verification.accuracy_meters).toBe(10);
+    });
+
+    it('should reject fixes from mocked location providers', async () => {
+      const verification = await LocationVerificationService.verifyUserAtVenue(
+        fix(0, 5, { mocked: true }),
+        VENUE
+      );
+
+      expect(verification.is_valid).toBe(false);
+      expect(verification.failure_reason).toBe('mocked');
+    });
+
+    it('should reject fixes with a poor accuracy radius', async () => {
+      const verification = await LocationVerificationService.verifyUserAtVenue(fix(0, 120), VENUE);
+
+      expect(verification.is_valid).toBe(false);
+      expect(verification.failure_reason).toBe('inaccurate');
+    });
+
+    it('should reject fixes too far from the venue', async () => {
+      const verification = await LocationVerificationService.verifyUserAtVenue(fix(0.002, 10), VENUE);
+
+      expect(verification.is_valid).toBe(false);
+      expect(verification.failure_reason).toBe('too_far');
+    });
+
+    it('should use the venue radius when it has one', async () => {
+      const beerGarden = { ...VENUE, geofence_radius_meters: 300 };
+
+      const verification = await LocationVerificationService.verifyUserAtVenue(fix(0.002, 10), beerGarden);
+
+      expect(verification.is_valid).toBe(true);
+      expect(verification.geofence).toMatchObject({ type: 'radius', radius_meters: 300 });
+    });
+
+    it('should check polygon geofences over the venue radius', async () => {
+      // About 22m either side of the venue
+      const rooftop = {
+        ...VENUE,
+        geofence_radius_meters: 300,
+        geofence_polygon: [
+          { latitude: VENUE.latitude! - 0.0002, longitude: VENUE.longitude! - 0.0002 },
+          { latitude: VENUE.latitude! - 0.0002, longitude: VENUE.longitude! + 0.0002 },
+          { latitude: VENUE.latitude! + 0.0002, longitude: VENUE.longitude! + 0.0002 },
+          { latitude: VENUE.latitude! + 0.0002, longitude: VENUE.longitude! - 0.0002 },
+        ],
+      };
+
+      const inside = await LocationVerificationService.verifyUserAtVenue(fix(0, 5), rooftop);
+      const outside = await LocationVerificationService.verifyUserAtVenue(fix(0.0006, 5), rooftop);
+
+      expect(inside).toMatchObject({ is_valid: true, confidence: 'high', outside_meters: 0 });
+      expect(outside).toMatchObject({ is_valid: false, failure_reason: 'too_far' });
+      expect(outside.outside_meters).toBeCloseTo(44, -1);
+    });
+  });
+
+  describe('getVerificationError', () => {
+    it('should map each failure reason to an error', () => {
+      const base = { is_valid: false, distance_meters: 250, venue_name: 'Test Club' };
+
+      expect(
+        LocationVerificationService.getVerificationError({ ...base, failure_reason: 'mocked' }).type
+      ).toBe(ErrorType.LOCATION_MOCKED);
+      expect(
+        LocationVerificationService.getVerificationError({
+          ...base,
+          accuracy_meters: 120.4,
+          failure_reason: 'inaccurate',
+        })
+      ).toMatchObject({ type: ErrorType.LOCATION_INACCURATE, metadata: { accuracy: 120 } });
+      expect(
+        LocationVerificationService.getVerificationError({ ...base, failure_reason: 'too_far' })
+      ).toMatchObject({ type: ErrorType.LOCATION_TOO_FAR, metadata: { distance: 250 } });
+    });
+
+    it('should report the venue-specific limit', () => {
+      const base = { is_valid: false, distance_meters: 250, venue_name: 'Test Club', failure_reason: 'too_far' as const };
+
+      expect(
+        LocationVerificationService.getVerificationError({
+          ...base,
+          geofence: { type: 'radius', latitude: 0, longitude: 0, radius_meters: 200 },
+        }).userMessage
+      ).toContain('within 200m');
+      expect(
+        LocationVerificationService.getVerificationError({
+          ...base,
+          geofence: { type: 'polygon', points: [] },
+          outside_meters: 40,
+        }).userMessage
+      ).toContain('40m outside the venue');
+    });
+  });
+
+  describe('getCurrentLocation', () => {
+    beforeEach(() => {
+      (Location.hasServicesEnabledAsync as jest.Mock).mockResolvedValue(true);
+      (Location.requestForegroundPermissionsAsync as jest.Mock).mockResolvedValue({ status: 'granted' });
+    });
+
+    it('should combine several sampled fixes and stop watching', async () => {
+      const remove = jest.fn();
+      mockWatchPosition.mockImplementation(async (_options, callback) => {
+        callback(fix(0, 10, { timestamp: 1 }));
+        callback(fix(0.0001, 10, { timestamp: 2 }));
+        callback(fix(0, 10, { timestamp: 3 }));
+        return { remove };
+      });
+
+      const { location, error } = await LocationVerificationService.getCurrentLocation();
+
+      expect(error).toBeUndefined();
+      expect(location?.timestamp).toBe(3);
+      expect(location?.coords.latitude).toBeCloseTo(VENUE.latitude! + 0.0001 / 3, 6);
+      expect(remove).toHaveBeenCalled();
+    });
+  });
+});
@@ -6,6 +6,7 @@ import { VibeCheckWithDetails } from '../../lib/types';
 jest.mock('../../lib/supabase', () => ({
   supabase: {
     from: jest.fn(),
+    rpc: jest.fn(),
   },
 }));
 
@@ -14,6 +15,8 @@ describe('OptimizedQueryService', () => {
     select: jest.fn().mockReturnThis(),
     eq: jest.fn().mockReturnThis(),
     gte: jest.fn().mockReturnThis(),
+    or: jest.fn().mockReturnThis(),
+    is: jest.fn().mockReturnThis(),
     order: jest.fn().mockReturnThis(),
     limit: jest.fn().mockReturnThis(),
     range: jest.fn().mockReturnThis(),
@@ -59,7 +62,9 @@ describe('OptimizedQueryService', () => {
       expect(supabase.from).toHaveBeenCalledWith('vibe_checks');
       expect(mockSupabaseQuery.select).toHaveBeenCalledWith(expect.stringContaining('user:users!inner'));
       expect(mockSupabaseQuery.eq).toHaveBeenCalledWith('venue_id', 'venue-1');
-      expect(mockSupabaseQuery.gte).toHaveBeenCalledWith('created_at', expect.any(String));
+      expect(mockSupabaseQuery.or).toHaveBeenCalledWith(
+        expect.stringMatching(/^created_at\.gte\..+,last_confirmed_at\.gte\..+$/)
+      );
       expect(mockSupabaseQuery.order).toHaveBeenCalledWith('created_at', { ascending: false });
       
       expect(result.data).toHaveLength(1);
@@ -146,6 +151,7 @@ describe('OptimizedQueryService', () => {
         average_busyness: 3, // (3 + 4 + 2) / 3
         has_live_activity: true, // Recent vibe check within 2 hours
         latest_vibe_check: expect.any(Object),
+        attributes: expect.any(Object),
       });
       expect(result.error).toBeNull();
     });
@@ -163,6 +169,7 @@ describe('OptimizedQueryService', () => {
         average_busyness: null,
         has_live_activity: false,
         latest_vibe_check: null,
+        attributes: expect.any(Object),
       });
     });
   });
@@ -190,6 +197,7 @@ describe('OptimizedQueryService', () => {
         average_busyness: 3.5,
         has_live_activity: expect.any(Boolean),
         latest_vibe_check: expect.any(Object),
+        attributes: expect.any(Object),
       });
       
       expect(result.data['venue-2']).toEqual({
@@ -197,6 +205,7 @@ describe('OptimizedQueryService', () => {
         average_busyness: 2,
         has_live_activity: expect.any(Boolean),
         latest_vibe_check: expect.any(Object),
+        attributes: expect.any(Object),
       });
       
       expect(result.data['venue-3']).toEqual({
@@ -204,6 +213,7 @@ describe('OptimizedQueryService', () => {
         average_busyness: null,
         has_live_activity: false,
         latest_vibe_check: null,
+        attributes: expect.any(Object),
       });
     });
   });
@@ -259,6 +269,324 @@ describe('OptimizedQueryService', () => {
     });
   });
 
+  describe('getVenuePopularTimes', () => {
+    it('should read the forecast view and return a full week', async () => {
+      mockSupabaseQuery.select.mockReturnValueOnce(mockSupabaseQuery);
+      mockSupabaseQuery.eq.mockResolvedValueOnce({
+        data: [{ day_of_week: 5, hour: 20, average_busyness: 4.5, sample_count: 8 }],
+        error: null,
+      });
+
+      const result = await OptimizedQueryService.getVenuePopularTimes('venue-1');
+
+      expect(supabase.from).toHaveBeenCalledWith('venue_popular_times');
+      expect(mockSupabaseQuery.eq).toHaveBeenCalledWith('venue_id', 'venue-1');
+      expect(result.data).toHaveLength(168);
+      expect(result.data!.filter(hour => hour.average_busyness !== null)).toHaveLength(1);
+      expect(result.error).toBeNull();
+    });
+
+    it('should return database errors', async () => {
+      const dbError = { message: 'relation does not exist' };
+      mockSupabaseQuery.select.mockReturnValueOnce(mockSupabaseQuery);
+      mockSupabaseQuery.eq.mockResolvedValueOnce({ data: null, error: dbError });
+
+      const result = await OptimizedQueryService.getVenuePopularTimes('venue-1');
+
+      expect(result.data).toBeNull();
+      expect(result.error).toEqual(dbError);
+    });
+  });
+
+  describe('batchGetVenuePopularTimes', () => {
+    it('should read every forecast in one query and key them by venue', async () => {
+      mockSupabaseQuery.select.mockReturnValueOnce(mockSupabaseQuery);
+      mockSupabaseQuery.in.mockResolvedValueOnce({
+        data: [{ venue_id: 'venue-1', day_of_week: 5, hour: 20, average_busyness: 4.5, sample_count: 8 }],
+        error: null,
+      });
+
+      const result = await OptimizedQueryService.batchGetVenuePopularTimes(['venue-1', 'venue-2']);
+
+      expect(supabase.from).toHaveBeenCalledTimes(1);
+      expect(mockSupabaseQuery.in).toHaveBeenCalledWith('venue_id', ['venue-1', 'venue-2']);
+      expect(result.data['venue-1'].filter(hour => hour.average_busyness !== null)).toHaveLength(1);
+      expect(result.data['venue-2'].filter(hour => hour.average_busyness !== null)).toHaveLength(0);
+      expect(result.error).toBeNull();
+    });
+  });
+
+  describe('getNearbyVenuesOptimized', () => {
+    const nearbyRow = (id: string, distance: number) => ({
+      venue: { id, name: `Venue ${id}`, latitude: -1.2921, longitude: 36.8219 },
+      distance_meters: distance,
+    });
+
+    it('should search around the location and flatten the distance onto each venue', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: [nearbyRow('venue-1', 120), nearbyRow('venue-2', 850)],
+        error: null,
+      });
+
+      const result = await OptimizedQueryService.getNearbyVenuesOptimized(-1.29, 36.82, {
+        radiusMeters: 2000,
+        query: ' rooftop ',
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('get_nearby_venues', {
+        p_latitude: -1.29,
+        p_longitude: 36.82,
+        p_radius_meters: 2000,
+        p_limit: 21,
+        p_after_distance: null,
+        p_after_id: null,
+        p_query: 'rooftop',
+      });
+      expect(result.data.map(venue => [venue.id, venue.distance_meters])).toEqual([
+        ['venue-1', 120],
+        ['venue-2', 850],
+      ]);
+      expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should return a cursor after the last venue when there is another page', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: [nearbyRow('venue-1', 120), nearbyRow('venue-2', 850), nearbyRow('venue-3', 900)],
+        error: null,
+      });
+
+      const result = await OptimizedQueryService.getNearbyVenuesOptimized(-1.29, 36.82, {
+        limit: 2,
+        cursor: { distance_meters: 50, id: 'venue-0' },
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith(
+        'get_nearby_venues',
+        expect.objectContaining({ p_limit: 3, p_after_distance: 50, p_after_id: 'venue-0' })
+      );
+      expect(result.data).toHaveLength(2);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextCursor).toEqual({ distance_meters: 850, id: 'venue-2' });
+    });
+
+    it('should return database errors', async () => {
+      const dbError = { message: 'Search radius must be between 1m and 100km' };
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: dbError });
+
+      const result = await OptimizedQueryService.getNearbyVenuesOptimized(-1.29, 36.82);
+
+      expect(result.data).toEqual([]);
+      expect(result.error).toEqual(dbError);
+      expect(result.nextCursor).toBeNull();
+    });
+  });
+
+  describe('getVenueSummariesOptimized', () => {
+    const summaryRow = (id: string, createdAt: string, activityRank = 0) => ({
+      venue: { id, name: `Venue ${id}`, created_at: createdAt },
+      activity_rank: activityRank,
+      distance_meters: null,
+      average_rating: 4.5,
+      review_count: '8',
+      total_vibe_checks: '30',
+      vibe_checks_24h: '3',
+      promotions: null,
+      is_bookmarked: true,
+    });
+
+    it('should fetch the newest venues and flatten each summary', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: [summaryRow('venue-1', '2025-04-02T00:00:00Z'), summaryRow('venue-2', '2025-04-01T00:00:00Z')],
+        error: null,
+      });
+
+      const result = await OptimizedQueryService.getVenueSummariesOptimized();
+
+      expect(supabase.rpc).toHaveBeenCalledWith('get_venue_summaries', {
+        p_latitude: null,
+        p_longitude: null,
+        p_radius_meters: 10000,
+        p_limit: 21,
+        p_after_activity_rank: null,
+        p_after_distance: null,
+        p_after_created_at: null,
+        p_after_id: null,
+      });
+      expect(result.data[0]).toMatchObject({
+        id: 'venue-1',
+        activity_rank: 0,
+        review_count: 8,
+        total_vibe_checks: 30,
+        vibe_checks_24h: 3,
+        promotions: [],
+        is_bookmarked: true,
+      });
+      expect(result.hasMore).toBe(false);
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it('should return a cursor after the last venue when there is another page', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: [
+          summaryRow('venue-1', '2025-04-01T00:00:00Z', 1),
+          summaryRow('venue-2', '2025-04-03T00:00:00Z'),
+          summaryRow('venue-3', '2025-04-02T00:00:00Z'),
+        ],
+        error: null,
+      });
+
+      const result = await OptimizedQueryService.getVenueSummariesOptimized({
+        limit: 2,
+        cursor: { activity_rank: 1, distance_meters: null, created_at: '2025-04-04T00:00:00Z', id: 'venue-0' },
+      });
+
+      expect(supabase.rpc).toHaveBeenCalledWith(
+        'get_venue_summaries',
+        expect.objectContaining({
+          p_limit: 3,
+          p_after_activity_rank: 1,
+          p_after_created_at: '2025-04-04T00:00:00Z',
+          p_after_id: 'venue-0',
+        })
+      );
+      expect(result.data).toHaveLength(2);
+      expect(result.nextCursor).toEqual({
+        activity_rank: 0,
+        distance_meters: null,
+        created_at: '2025-04-03T00:00:00Z',
+        id: 'venue-2',
+      });
+    });
+
+    it('should return database errors', async () => {
+      const dbError = { message: 'function get_venue_summaries does not exist' };
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: dbError });
+
+      const result = await OptimizedQueryService.getVenueSummariesOptimized({ latitude: -1.29, longitude: 36.82 });
+
+      expect(result.data).toEqual([]);
+      expect(result.error).toEqual(dbError);
+      expect(result.nextCursor).toBeNull();
+    });
+  });
+
+  describe('searchVenuesOptimized', () => {
+    const searchRow = (id: string, rank: number) => ({
+      venue: { id, name: `Venue ${id}`, tags: ['rooftop'] },
+      rank,
+      distance_meters: null,
+      average_rating: 4.2,
+      review_count: 12,
+      has_promotion: false,
+    });
+
+    it('should pass the search and filters as parameters and flatten each result', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: [searchRow('venue-1', 0.6), searchRow('venue-2', 0.2)],
+        error: null,
+      });
+
+      const result = await OptimizedQueryService.searchVenuesOptimized(
+        " Joe's (rooftop), bar ",
+        { maxDistanceMeters: 5000, minRating: 4, openNow: true },
+        { latitude: -1.29, longitude: 36.82 }
+      );
+
+      expect(supabase.rpc).toHaveBeenCalledWith('search_venues', {
+        p_query: "Joe's (rooftop), bar",
+        p_latitude: -1.29,
+        p_longitude: 36.82,
+        p_max_distance_meters: 5000,
+        p_min_rating: 4,
+        p_has_promotion: false,
+        p_limit: 21,
+        p_offset: 0,
+      });
+      expect(result.data.map(venue => [venue.id, venue.rank, venue.average_rating])).toEqual([
+        ['venue-1', 0.6, 4.2],
+        ['venue-2', 0.2, 4.2],
+      ]);
+      expect(result.hasMore).toBe(false);
+      expect(result.nextOffset).toBeUndefined();
+    });
+
+    it('should return the next offset when there is another page', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: [searchRow('venue-1', 0.6), searchRow('venue-2', 0.4), searchRow('venue-3', 0.2)],
+        error: null,
+      });
+
+      const result = await OptimizedQueryService.searchVenuesOptimized('', {}, { limit: 2, offset: 4 });
+
+      expect(supabase.rpc).toHaveBeenCalledWith(
+        'search_venues',
+        expect.objectContaining({ p_query: null, p_latitude: null, p_limit: 3, p_offset: 4 })
+      );
+      expect(result.data).toHaveLength(2);
+      expect(result.hasMore).toBe(true);
+      expect(result.nextOffset).toBe(6);
+    });
+
+    it('should return database errors', async () => {
+      const dbError = { message: 'Searching by distance needs a search location' };
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: dbError });
+
+      const result = await OptimizedQueryService.searchVenuesOptimized('bar', { maxDistanceMeters: 1000 });
+
+      expect(result.data).toEqual([]);
+      expect(result.error).toEqual(dbError);
+    });
+  });
+
+  describe('getTrendingVenuesOptimized', () => {
+    it('should ask for the configured window and flatten each venue', async () => {
+      (supabase.rpc as jest.Mock).mockResolvedValue({
+        data: [
+          {
+            venue: { id: 'venue-1', name: 'The Sky Lounge' },
+            trending_score: 9.5,
+            recent_vibe_checks: '6',
+            expected_vibe_checks: 1.5,
+            recent_views: '12',
+            expected_views: 10,
+            recent_bookmarks: '0',
+            expected_bookmarks: 0.1,
+            rising_signals: ['vibe_checks'],
+          },
+        ],
+        error: null,
+      });
+
+      const result = await OptimizedQueryService.getTrendingVenuesOptimized({ limit: 5 });
+
+      expect(supabase.rpc).toHaveBeenCalledWith('get_trending_venues', {
+        p_limit: 5,
+        p_window_minutes: 60,
+        p_baseline_days: 7,
+      });
+      expect(result.error).toBeNull();
+      expect(result.data[0]).toMatchObject({
+        id: 'venue-1',
+        trending_score: 9.5,
+        recent_vibe_checks: 6,
+        recent_views: 12,
+        recent_bookmarks: 0,
+        rising_signals: ['vibe_checks'],
+      });
+    });
+
+    it('should return database errors', async () => {
+      const dbError = { message: 'function get_trending_venues does not exist' };
+      (supabase.rpc as jest.Mock).mockResolvedValue({ data: null, error: dbError });
+
+      const result = await OptimizedQueryService.getTrendingVenuesOptimized();
+
+      expect(result.data).toEqual([]);
+      expect(result.error).toEqual(dbError);
+    });
+  });
+
   describe('Data Transformation', () => {
     it('should transform raw data to VibeCheckWithDetails format', async () => {
       mockSupabaseQuery.select.mockResolvedValue({
@@ -160,7 +160,7 @@ describe('Photo Upload Integration Tests', () => {
         venue_id: 'venue-123',
         busyness_rating: 4 as const,
         comment: 'Great atmosphere!',
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const progressUpdates: any[] = [];
@@ -196,7 +196,7 @@ describe('Photo Upload Integration Tests', () => {
         venue_id: 'venue-123',
         busyness_rating: 4 as const,
         comment: 'Great atmosphere!',
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const result = await VibeCheckService.createVibeCheck(formData, mockUserLocation);
@@ -280,7 +280,7 @@ describe('Photo Upload Integration Tests', () => {
         venue_id: 'venue-123',
         busyness_rating: 4 as const,
         comment: 'Great atmosphere!',
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const result = await VibeCheckService.createVibeCheck(formData, mockUserLocation);
@@ -300,7 +300,7 @@ describe('Photo Upload Integration Tests', () => {
         venue_id: 'venue-123',
         busyness_rating: 4 as const,
         comment: 'Great atmosphere!',
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const result = await VibeCheckService.createVibeCheck(formData, mockUserLocation);
@@ -324,7 +324,7 @@ describe('Photo Upload Integration Tests', () => {
         venue_id: 'venue-123',
         busyness_rating: 4 as const,
         comment: 'Great atmosphere!',
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const result = await VibeCheckService.createVibeCheck(formData, mockUserLocation);
@@ -382,7 +382,7 @@ describe('Photo Upload Integration Tests', () => {
       const formData = {
         venue_id: 'venue-123',
         busyness_rating: 4 as const,
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       await VibeCheckService.createVibeCheck(formData, mockUserLocation);
@@ -411,7 +411,7 @@ describe('Photo Upload Integration Tests', () => {
       const formData = {
         venue_id: 'venue-123',
         busyness_rating: 4 as const,
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const result = await VibeCheckService.createVibeCheck(formData, mockUserLocation);
@@ -454,7 +454,7 @@ describe('Photo Upload Integration Tests', () => {
       const formData = {
         venue_id: 'venue-123',
         busyness_rating: 4 as const,
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const result = await VibeCheckService.createVibeCheck(formData, mockUserLocation);
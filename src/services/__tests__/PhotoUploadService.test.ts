@@ -1,5 +1,6 @@
 import { PhotoUploadService, PhotoUploadProgress } from '../PhotoUploadService';
 import * as ImageManipulator from 'expo-image-manipulator';
+import { supabase } from '../../lib/supabase';
 
 // Mock expo-image-manipulator
 jest.mock('expo-image-manipulator', () => ({
@@ -180,6 +181,97 @@ describe('PhotoUploadService Integration Tests', () => {
     });
   });
 
+  describe('uploadMedia', () => {
+    const mockVideo = {
+      uri: 'file://clip.mp4',
+      type: 'video/mp4',
+      name: 'clip.mp4',
+      duration_seconds: 12,
+    };
+
+    const mockStorage = (upload: jest.Mock) => {
+      const remove = jest.fn().mockResolvedValue({ error: null });
+      const getPublicUrl = jest.fn((fileName: string) => ({
+        data: { publicUrl: `https://example.supabase.co/storage/v1/object/public/photos/${fileName}` },
+      }));
+
+      supabase.storage.from = jest.fn().mockReturnValue({ upload, getPublicUrl, remove });
+
+      return remove;
+    };
+
+    beforeEach(() => {
+      mockImageManipulator.manipulateAsync.mockResolvedValue({
+        uri: 'file://compressed-photo.jpg',
+        width: 800,
+        height: 600,
+      });
+    });
+
+    it('should upload photos and videos in order', async () => {
+      const upload = jest.fn().mockResolvedValue({ data: { path: 'path' }, error: null });
+      mockStorage(upload);
+
+      const result = await PhotoUploadService.uploadMedia([mockVideo, mockPhoto], userId);
+
+      expect(result.error).toBeNull();
+      expect(result.data).toEqual([
+        { type: 'video', url: expect.stringMatching(/\.mp4$/), duration_seconds: 12 },
+        { type: 'image', url: expect.stringMatching(/\.jpg$/) },
+      ]);
+      // Videos are uploaded as recorded, only the photo is compressed
+      expect(mockImageManipulator.manipulateAsync).toHaveBeenCalledTimes(2);
+      expect(upload.mock.calls[0][2]).toMatchObject({ contentType: 'video/mp4' });
+    });
+
+    it('should report progress for each item', async () => {
+      mockStorage(jest.fn().mockResolvedValue({ data: { path: 'path' }, error: null }));
+
+      const progressByItem: Record<number, number[]> = {};
+      await PhotoUploadService.uploadMedia([mockPhoto, mockVideo], userId, {
+        onItemProgress: (index, progress) => {
+          (progressByItem[index] ??= []).push(progress.percentage);
+        },
+      });
+
+      expect(Object.keys(progressByItem)).toEqual(['0', '1']);
+      for (const percentages of Object.values(progressByItem)) {
+        expect(percentages[0]).toBe(0);
+        expect(percentages[percentages.length - 1]).toBe(100);
+      }
+    });
+
+    it('should delete uploaded items when a later item fails', async () => {
+      const upload = jest
+        .fn()
+        .mockResolvedValueOnce({ data: { path: 'path' }, error: null })
+        .mockResolvedValueOnce({ data: null, error: { message: 'Storage quota exceeded' } });
+      const remove = mockStorage(upload);
+
+      const result = await PhotoUploadService.uploadMedia([mockPhoto, mockVideo], userId);
+
+      expect(result.data).toBeNull();
+      expect(result.error).toBe('Storage quota exceeded');
+      expect(remove).toHaveBeenCalledTimes(1);
+      expect(remove.mock.calls[0][0][0]).toMatch(/^vibe-checks\/test-user-123\/.*\.jpg$/);
+    });
+
+    it('should reject videos over the size limit', async () => {
+      const upload = jest.fn();
+      mockStorage(upload);
+      (global.fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        blob: jest.fn().mockResolvedValue({ size: 26 * 1024 * 1024 }),
+      });
+
+      const result = await PhotoUploadService.uploadMedia([mockVideo], userId);
+
+      expect(result.data).toBeNull();
+      expect(result.error).toContain('exceeds maximum allowed size');
+      expect(upload).not.toHaveBeenCalled();
+    });
+  });
+
   describe('deletePhoto', () => {
     it('should successfully delete a photo', async () => {
       const mockRemove = jest.fn().mockResolvedValue({
@@ -0,0 +1,116 @@
+import { RecommendationService } from '../RecommendationService';
+import { supabase } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+  },
+}));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+
+const NOW = new Date('2025-04-30T20:00:00Z');
+const TODAY = '2025-04-30T18:00:00Z';
+
+// Every signal query ends in .limit(), which resolves with the table's rows
+const mockTables = (rows: Record<string, any[]>, errors: Record<string, any> = {}) => {
+  mockFrom.mockImplementation((table: string) => {
+    const chain: any = {
+      select: jest.fn(() => chain),
+      eq: jest.fn(() => chain),
+      is: jest.fn(() => chain),
+      order: jest.fn(() => chain),
+      limit: jest.fn(() =>
+        Promise.resolve({ data: errors[table] ? null : rows[table] || [], error: errors[table] || null })
+      ),
+    };
+    return chain;
+  });
+};
+
+describe('RecommendationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getInteractionSignals', () => {
+    it('should combine every kind of signal and take bookmarks from user_bookmarks', async () => {
+      mockTables({
+        club_views: [
+          { club_id: 'venue-1', interaction_type: 'view', viewed_at: TODAY },
+          { club_id: 'venue-2', interaction_type: 'like', viewed_at: TODAY },
+          { club_id: 'venue-3', interaction_type: 'bookmark', viewed_at: TODAY },
+        ],
+        user_bookmarks: [{ venue_id: 'venue-4', created_at: TODAY }],
+        reviews: [{ venue_id: 'venue-5', rating: 2, created_at: TODAY }],
+        vibe_checks: [{ venue_id: 'venue-6', created_at: TODAY }],
+      });
+
+      const { data, error } = await RecommendationService.getInteractionSignals('user-1');
+
+      expect(error).toBeNull();
+      expect(data.map((signal) => [signal.venue_id, signal.kind])).toEqual([
+        ['venue-1', 'view'],
+        ['venue-2', 'like'],
+        ['venue-4', 'bookmark'],
+        ['venue-5', 'review'],
+        ['venue-6', 'vibe_check'],
+      ]);
+      expect(data[3].rating).toBe(2);
+    });
+
+    it('should return database errors', async () => {
+      const dbError = { message: 'permission denied for table reviews' };
+      mockTables({}, { reviews: dbError });
+
+      const { data, error } = await RecommendationService.getInteractionSignals('user-1');
+
+      expect(data).toEqual([]);
+      expect(error).toEqual(dbError);
+    });
+  });
+
+  describe('getVenueRecommendations', () => {
+    it('should look up venues related to the liked venues and score them', async () => {
+      mockTables({
+        user_bookmarks: [{ venue_id: 'liked', created_at: NOW.toISOString() }],
+      });
+      mockRpc.mockResolvedValue({
+        data: [
+          { venue_id: 'liked', related_venue_id: 'similar', shared_users: '2', venue_users: '4', related_users: '4' },
+        ],
+        error: null,
+      });
+
+      const { data, error } = await RecommendationService.getVenueRecommendations('user-1', NOW);
+
+      expect(error).toBeNull();
+      expect(mockRpc).toHaveBeenCalledWith('get_venue_co_visits', { p_venue_ids: ['liked'], p_limit: 200 });
+      expect(data?.scores.get('similar')).toBeCloseTo(2);
+      expect(data?.engagedVenueIds.has('liked')).toBe(true);
+    });
+
+    it('should not look up related venues without any history', async () => {
+      mockTables({});
+
+      const { data, error } = await RecommendationService.getVenueRecommendations('user-1', NOW);
+
+      expect(error).toBeNull();
+      expect(mockRpc).not.toHaveBeenCalled();
+      expect(data?.scores.size).toBe(0);
+    });
+
+    it('should return co-visit errors', async () => {
+      const dbError = { message: 'function get_venue_co_visits does not exist' };
+      mockTables({ club_views: [{ club_id: 'venue-1', interaction_type: 'like', viewed_at: TODAY }] });
+      mockRpc.mockResolvedValue({ data: null, error: dbError });
+
+      const { data, error } = await RecommendationService.getVenueRecommendations('user-1', NOW);
+
+      expect(data).toBeNull();
+      expect(error).toEqual(dbError);
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { VenueAdminService } from '../VenueAdminService';
+import { supabase } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    rpc: jest.fn(),
+  },
+}));
+
+const mockRpc = supabase.rpc as jest.Mock;
+
+const SQUARE = [
+  { latitude: -1.2923, longitude: 36.8217 },
+  { latitude: -1.2923, longitude: 36.8221 },
+  { latitude: -1.2919, longitude: 36.8221 },
+  { latitude: -1.2919, longitude: 36.8217 },
+];
+
+describe('VenueAdminService.setVenueGeofence', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRpc.mockResolvedValue({ data: { id: 'venue-1' }, error: null });
+  });
+
+  it('should save a radius geofence', async () => {
+    const { data, error } = await VenueAdminService.setVenueGeofence('venue-1', { radius_meters: 250 });
+
+    expect(error).toBeNull();
+    expect(data).toEqual({ id: 'venue-1' });
+    expect(mockRpc).toHaveBeenCalledWith('set_venue_geofence', {
+      p_venue_id: 'venue-1',
+      p_radius_meters: 250,
+      p_polygon: null,
+    });
+  });
+
+  it('should save a polygon geofence', async () => {
+    await VenueAdminService.setVenueGeofence('venue-1', { polygon: SQUARE });
+
+    expect(mockRpc).toHaveBeenCalledWith('set_venue_geofence', {
+      p_venue_id: 'venue-1',
+      p_radius_meters: null,
+      p_polygon: SQUARE,
+    });
+  });
+
+  it('should clear the geofence', async () => {
+    await VenueAdminService.setVenueGeofence('venue-1', null);
+
+    expect(mockRpc).toHaveBeenCalledWith('set_venue_geofence', {
+      p_venue_id: 'venue-1',
+      p_radius_meters: null,
+      p_polygon: null,
+    });
+  });
+
+  it('should reject radii out of range without calling the database', async () => {
+    const { error } = await VenueAdminService.setVenueGeofence('venue-1', { radius_meters: 5000 });
+
+    expect(error).toBe('Geofence radius must be between 10m and 1000m');
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid polygons without calling the database', async () => {
+    const { error } = await VenueAdminService.setVenueGeofence('venue-1', { polygon: SQUARE.slice(0, 2) });
+
+    expect(error).toBe('A geofence needs at least 3 corners');
+    expect(mockRpc).not.toHaveBeenCalled();
+  });
+
+  it('should return database errors for non-admins', async () => {
+    mockRpc.mockResolvedValue({
+      data: null,
+      error: { code: '42501', message: 'Only admins can change venue geofences' },
+    });
+
+    const { data, error } = await VenueAdminService.setVenueGeofence('venue-1', { radius_meters: 250 });
+
+    expect(data).toBeNull();
+    expect(error).toBe('Only admins can change venue geofences');
+  });
+});
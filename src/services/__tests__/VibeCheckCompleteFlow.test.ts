@@ -28,6 +28,9 @@ describe('Complete Vibe Check Posting Flow', () => {
     hours: null,
     cover_image_url: null,
     cover_video_url: null,
+    geofence_radius_meters: null,
+    geofence_polygon: null,
+    tags: [],
     latitude: 40.7128,
     longitude: -74.0060,
     address: '123 Test St',
@@ -206,7 +209,7 @@ describe('Complete Vibe Check Posting Flow', () => {
         venue_id: 'venue-1',
         busyness_rating: 4 as const,
         comment: 'Great atmosphere!',
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       // Validate form with photo
@@ -364,7 +367,7 @@ describe('Complete Vibe Check Posting Flow', () => {
         venue_id: 'venue-1',
         busyness_rating: 4 as const,
         comment: 'Great atmosphere!',
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const locationResult = await LocationVerificationService.getCurrentLocation();
@@ -513,7 +516,7 @@ describe('Complete Vibe Check Posting Flow', () => {
         venue_id: 'venue-1',
         busyness_rating: 5 as const,
         comment: 'Amazing night with great music!',
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const locationResult = await LocationVerificationService.getCurrentLocation();
@@ -0,0 +1,267 @@
+import { VibeCheckService } from '../VibeCheckService';
+import { PhotoUploadService } from '../PhotoUploadService';
+import { VibeCheckCacheService } from '../CacheService';
+import { supabase } from '../../lib/supabase';
+import { VibeCheck } from '../../lib/types';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+  },
+}));
+
+jest.mock('../PhotoUploadService', () => ({
+  PhotoUploadService: {
+    uploadMedia: jest.fn(),
+    deleteUploadedMedia: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+jest.mock('../CacheService', () => ({
+  VibeCheckCacheService: {
+    invalidateOnVibeCheckChange: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+jest.mock('../LocationVerificationService', () => ({ LocationVerificationService: {} }));
+jest.mock('../OptimizedQueryService', () => ({ OptimizedQueryService: {} }));
+jest.mock('../VibeCheckOutboxService', () => ({ VibeCheckOutboxService: {} }));
+jest.mock('../../lib/connectivity', () => ({ ConnectivityManager: {} }));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockUploadMedia = PhotoUploadService.uploadMedia as jest.Mock;
+const mockDeleteMedia = PhotoUploadService.deleteUploadedMedia as jest.Mock;
+const mockInvalidate = VibeCheckCacheService.invalidateOnVibeCheckChange as jest.Mock;
+
+const OLD_PHOTO_URL = 'https://example.supabase.co/storage/v1/object/public/vibe-checks/old.jpg';
+const NEW_PHOTO_URL = 'https://example.supabase.co/storage/v1/object/public/vibe-checks/new.jpg';
+const VIDEO_URL = 'https://example.supabase.co/storage/v1/object/public/vibe-checks/clip.mp4';
+
+const OLD_PHOTO = { type: 'image' as const, url: OLD_PHOTO_URL };
+const NEW_PHOTO = { type: 'image' as const, url: NEW_PHOTO_URL };
+const VIDEO = { type: 'video' as const, url: VIDEO_URL, duration_seconds: 9 };
+
+/**
+ * Mock the select-then-update query pair used by updateVibeCheck
+ */
+const mockUpdateQueries = (
+  existing: Partial<VibeCheck>,
+  updateResult: { data: any; error: any } = { data: { id: 'vibe-1' }, error: null }
+) => {
+  const update = jest.fn(() => ({
+    eq: () => ({ select: () => ({ single: () => Promise.resolve(updateResult) }) }),
+  }));
+
+  mockFrom
+    .mockReturnValueOnce({
+      select: () => ({
+        eq: () => ({ single: () => Promise.resolve({ data: existing, error: null }) }),
+      }),
+    })
+    .mockReturnValueOnce({ update });
+
+  return update;
+};
+
+describe('VibeCheckService editing', () => {
+  const vibeCheck: VibeCheck = {
+    id: 'vibe-1',
+    venue_id: 'venue-1',
+    user_id: 'user-1',
+    busyness_rating: 3,
+    comment: 'Getting busy',
+    photo_url: OLD_PHOTO_URL,
+    media: [OLD_PHOTO],
+    location_accuracy_meters: null,
+    location_confidence: null,
+    user_latitude: 40.7128,
+    user_longitude: -74.006,
+    created_at: new Date(Date.now() - 10 * 60 * 1000).toISOString(),
+    music_genre: null,
+    queue_length: null,
+    wait_minutes: null,
+    cover_charge: null,
+    crowd_age_range: null,
+    dress_code_rating: null,
+    helpful_count: 0,
+    still_accurate_count: 0,
+    last_confirmed_at: null,
+    report_count: 0,
+    hidden_at: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getEditTimeRemaining', () => {
+    it('should return the time left in the edit window', () => {
+      const remaining = VibeCheckService.getEditTimeRemaining(vibeCheck);
+      expect(remaining).toBeGreaterThan(49 * 60 * 1000);
+      expect(remaining).toBeLessThanOrEqual(50 * 60 * 1000);
+    });
+
+    it('should return 0 once the window has closed', () => {
+      const created_at = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+      expect(VibeCheckService.getEditTimeRemaining({ created_at })).toBe(0);
+    });
+  });
+
+  describe('editVibeCheck', () => {
+    it('should keep the existing photo when it was not changed', async () => {
+      const update = mockUpdateQueries(vibeCheck);
+
+      const { error } = await VibeCheckService.editVibeCheck(vibeCheck, {
+        venue_id: 'venue-1',
+        busyness_rating: 5,
+        comment: 'Packed now',
+        media: [{ uri: OLD_PHOTO_URL, type: 'image/jpeg', name: 'old.jpg' }],
+      });
+
+      expect(error).toBeNull();
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          busyness_rating: 5,
+          comment: 'Packed now',
+          media: [OLD_PHOTO],
+        })
+      );
+      expect(mockUploadMedia).not.toHaveBeenCalled();
+      expect(mockDeleteMedia).not.toHaveBeenCalled();
+      expect(mockInvalidate).toHaveBeenCalledWith('venue-1');
+    });
+
+    it('should upload only new items and keep the picked order', async () => {
+      mockUploadMedia.mockResolvedValue({ data: [VIDEO], error: null });
+      const update = mockUpdateQueries(vibeCheck);
+
+      const { error } = await VibeCheckService.editVibeCheck(vibeCheck, {
+        venue_id: 'venue-1',
+        busyness_rating: 3,
+        media: [
+          { uri: 'file:///tmp/clip.mp4', type: 'video/mp4', name: 'clip.mp4', duration_seconds: 9 },
+          { uri: OLD_PHOTO_URL, type: 'image/jpeg', name: 'old.jpg' },
+        ],
+      });
+
+      expect(error).toBeNull();
+      expect(mockUploadMedia).toHaveBeenCalledWith(
+        [expect.objectContaining({ uri: 'file:///tmp/clip.mp4' })],
+        'user-1',
+        expect.any(Object)
+      );
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ media: [VIDEO, OLD_PHOTO] }));
+      expect(mockDeleteMedia).not.toHaveBeenCalled();
+    });
+
+    it('should delete the old photo when it is replaced', async () => {
+      mockUploadMedia.mockResolvedValue({ data: [NEW_PHOTO], error: null });
+      const update = mockUpdateQueries(vibeCheck);
+
+      const { error } = await VibeCheckService.editVibeCheck(vibeCheck, {
+        venue_id: 'venue-1',
+        busyness_rating: 3,
+        media: [{ uri: 'file:///tmp/new.jpg', type: 'image/jpeg', name: 'new.jpg' }],
+      });
+
+      expect(error).toBeNull();
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ media: [NEW_PHOTO] }));
+      expect(mockDeleteMedia).toHaveBeenCalledTimes(1);
+      expect(mockDeleteMedia).toHaveBeenCalledWith([OLD_PHOTO]);
+    });
+
+    it('should delete the old photo when it is removed', async () => {
+      const update = mockUpdateQueries(vibeCheck);
+
+      await VibeCheckService.editVibeCheck(vibeCheck, {
+        venue_id: 'venue-1',
+        busyness_rating: 3,
+      });
+
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ media: [] }));
+      expect(mockDeleteMedia).toHaveBeenCalledWith([OLD_PHOTO]);
+    });
+
+    it('should delete the new photo when the update is rejected', async () => {
+      mockUploadMedia.mockResolvedValue({ data: [NEW_PHOTO], error: null });
+      mockUpdateQueries(vibeCheck, { data: null, error: { message: 'permission denied' } });
+
+      const { data, error } = await VibeCheckService.editVibeCheck(vibeCheck, {
+        venue_id: 'venue-1',
+        busyness_rating: 3,
+        media: [{ uri: 'file:///tmp/new.jpg', type: 'image/jpeg', name: 'new.jpg' }],
+      });
+
+      expect(data).toBeNull();
+      expect(error).toBe('permission denied');
+      expect(mockDeleteMedia).toHaveBeenCalledTimes(1);
+      expect(mockDeleteMedia).toHaveBeenCalledWith([NEW_PHOTO]);
+    });
+
+    it('should not update when an upload fails', async () => {
+      mockUploadMedia.mockResolvedValue({ data: null, error: 'Video is too large' });
+
+      const { data, error } = await VibeCheckService.editVibeCheck(vibeCheck, {
+        venue_id: 'venue-1',
+        busyness_rating: 3,
+        media: [{ uri: 'file:///tmp/clip.mp4', type: 'video/mp4', name: 'clip.mp4' }],
+      });
+
+      expect(data).toBeNull();
+      expect(error).toBe('Video is too large');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateVibeCheck', () => {
+    it('should reject edits after the edit window', async () => {
+      const expired = {
+        ...vibeCheck,
+        created_at: new Date(Date.now() - 61 * 60 * 1000).toISOString(),
+      };
+      mockFrom.mockReturnValueOnce({
+        select: () => ({
+          eq: () => ({ single: () => Promise.resolve({ data: expired, error: null }) }),
+        }),
+      });
+
+      const { data, error } = await VibeCheckService.updateVibeCheck('vibe-1', {
+        busyness_rating: 1,
+      });
+
+      expect(data).toBeNull();
+      expect(error).toContain('within 1 hour');
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('deleteVibeCheck', () => {
+    const mockDeleteQuery = (result: { data: any; error: any }) => {
+      mockFrom.mockReturnValueOnce({
+        delete: () => ({ eq: () => ({ select: () => Promise.resolve(result) }) }),
+      });
+    };
+
+    it('should delete the media and invalidate caches', async () => {
+      mockDeleteQuery({ data: [{ venue_id: 'venue-1', media: [OLD_PHOTO, VIDEO] }], error: null });
+
+      const { success, error } = await VibeCheckService.deleteVibeCheck('vibe-1');
+
+      expect(success).toBe(true);
+      expect(error).toBeNull();
+      expect(mockDeleteMedia).toHaveBeenCalledWith([OLD_PHOTO, VIDEO]);
+      expect(mockInvalidate).toHaveBeenCalledWith('venue-1');
+    });
+
+    it('should fail when no row was deleted', async () => {
+      mockDeleteQuery({ data: [], error: null });
+
+      const { success, error } = await VibeCheckService.deleteVibeCheck('vibe-1');
+
+      expect(success).toBe(false);
+      expect(error).toBe('Vibe check not found');
+      expect(mockDeleteMedia).not.toHaveBeenCalled();
+      expect(mockInvalidate).not.toHaveBeenCalled();
+    });
+  });
+});
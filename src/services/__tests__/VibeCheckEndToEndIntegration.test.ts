@@ -28,6 +28,9 @@ describe('Vibe Check End-to-End Integration', () => {
     hours: null,
     cover_image_url: null,
     cover_video_url: null,
+    geofence_radius_meters: null,
+    geofence_polygon: null,
+    tags: [],
     latitude: 40.7128,
     longitude: -74.0060,
     address: '123 Test St',
@@ -176,7 +179,7 @@ describe('Vibe Check End-to-End Integration', () => {
         venue_id: 'venue-1',
         busyness_rating: 4 as const,
         comment: 'Great atmosphere!',
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const result = await VibeCheckService.createVibeCheck(
@@ -323,7 +326,7 @@ describe('Vibe Check End-to-End Integration', () => {
         venue_id: 'venue-1',
         busyness_rating: 4 as const,
         comment: 'Great atmosphere!',
-        photo: mockPhoto,
+        media: [mockPhoto],
       };
 
       const result = await VibeCheckService.createVibeCheck(
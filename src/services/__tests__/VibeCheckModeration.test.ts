@@ -0,0 +1,157 @@
+import { VibeCheckService } from '../VibeCheckService';
+import { ModerationService } from '../ModerationService';
+import { VibeCheckCacheService } from '../CacheService';
+import { supabase } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    rpc: jest.fn(),
+    auth: {
+      getUser: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../CacheService', () => ({
+  VibeCheckCacheService: {
+    invalidateOnVibeCheckChange: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+jest.mock('../PhotoUploadService', () => ({ PhotoUploadService: {} }));
+jest.mock('../LocationVerificationService', () => ({ LocationVerificationService: {} }));
+jest.mock('../OptimizedQueryService', () => ({ OptimizedQueryService: {} }));
+jest.mock('../VibeCheckOutboxService', () => ({ VibeCheckOutboxService: {} }));
+jest.mock('../../lib/connectivity', () => ({ ConnectivityManager: {} }));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockRpc = supabase.rpc as jest.Mock;
+const mockGetUser = supabase.auth.getUser as jest.Mock;
+const mockInvalidate = VibeCheckCacheService.invalidateOnVibeCheckChange as jest.Mock;
+
+describe('Vibe check moderation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-2' } } });
+  });
+
+  describe('VibeCheckService.reportVibeCheck', () => {
+    it('should insert a report from the current user', async () => {
+      const insert = jest.fn(() => Promise.resolve({ error: null }));
+      mockFrom.mockReturnValueOnce({ insert });
+
+      const { success, error } = await VibeCheckService.reportVibeCheck('vibe-1', 'spam', '  Ad for another club ');
+
+      expect(success).toBe(true);
+      expect(error).toBeNull();
+      expect(mockFrom).toHaveBeenCalledWith('vibe_check_reports');
+      expect(insert).toHaveBeenCalledWith({
+        vibe_check_id: 'vibe-1',
+        reporter_id: 'user-2',
+        reason: 'spam',
+        details: 'Ad for another club',
+      });
+    });
+
+    it('should reject a second report of the same vibe check', async () => {
+      mockFrom.mockReturnValueOnce({
+        insert: () => Promise.resolve({ error: { code: '23505', message: 'duplicate key' } }),
+      });
+
+      const { success, error } = await VibeCheckService.reportVibeCheck('vibe-1', 'fake');
+
+      expect(success).toBe(false);
+      expect(error).toContain('already reported');
+    });
+
+    it('should require a signed in user', async () => {
+      mockGetUser.mockResolvedValue({ data: { user: null } });
+
+      const { success, error } = await VibeCheckService.reportVibeCheck('vibe-1', 'offensive');
+
+      expect(success).toBe(false);
+      expect(error).toContain('signed in');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ModerationService.getModerationQueue', () => {
+    it('should return reported vibe checks with their open reports', async () => {
+      const eq = jest.fn();
+      const order = jest.fn();
+      const query = { gt: jest.fn(() => ({ eq })), eq, order };
+      eq.mockReturnValue({ order });
+      order.mockReturnValueOnce({ order }).mockReturnValueOnce(
+        Promise.resolve({
+          data: [
+            {
+              id: 'vibe-1',
+              venue_id: 'venue-1',
+              user_id: 'user-1',
+              busyness_rating: 4,
+              comment: 'Buy tickets at my site',
+              photo_url: null,
+              user_latitude: 40.7128,
+              user_longitude: -74.006,
+              created_at: new Date().toISOString(),
+              report_count: 3,
+              hidden_at: new Date().toISOString(),
+              user: { id: 'user-1', name: 'Spammer', avatar_url: null },
+              venue: { id: 'venue-1', name: 'Test Club', address: '1 Main St' },
+              reports: [
+                { id: 'report-1', reason: 'spam', details: null, created_at: '2025-02-26T21:00:00.000Z', status: 'pending' },
+              ],
+            },
+          ],
+          error: null,
+        })
+      );
+      mockFrom.mockReturnValueOnce({ select: () => query });
+
+      const { data, error } = await ModerationService.getModerationQueue();
+
+      expect(error).toBeNull();
+      expect(query.gt).toHaveBeenCalledWith('report_count', 0);
+      expect(eq).toHaveBeenCalledWith('reports.status', 'pending');
+      expect(data).toHaveLength(1);
+      expect(data[0].report_count).toBe(3);
+      expect(data[0].user.name).toBe('Spammer');
+      expect(data[0].reports).toEqual([
+        { id: 'report-1', reason: 'spam', details: null, created_at: '2025-02-26T21:00:00.000Z' },
+      ]);
+    });
+  });
+
+  describe('ModerationService.reviewVibeCheck', () => {
+    it('should resolve the reports and invalidate venue caches', async () => {
+      mockRpc.mockResolvedValueOnce({ error: null });
+
+      const { success, error } = await ModerationService.reviewVibeCheck(
+        { id: 'vibe-1', venue_id: 'venue-1' },
+        'restore'
+      );
+
+      expect(success).toBe(true);
+      expect(error).toBeNull();
+      expect(mockRpc).toHaveBeenCalledWith('moderate_vibe_check', {
+        p_vibe_check_id: 'vibe-1',
+        p_action: 'restore',
+      });
+      expect(mockInvalidate).toHaveBeenCalledWith('venue-1');
+    });
+
+    it('should surface the error for non-moderators', async () => {
+      mockRpc.mockResolvedValueOnce({ error: { message: 'Only moderators can review vibe checks' } });
+
+      const { success, error } = await ModerationService.reviewVibeCheck(
+        { id: 'vibe-1', venue_id: 'venue-1' },
+        'hide'
+      );
+
+      expect(success).toBe(false);
+      expect(error).toBe('Only moderators can review vibe checks');
+      expect(mockInvalidate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,236 @@
+import * as Location from 'expo-location';
+import { VibeCheckOutboxService } from '../VibeCheckOutboxService';
+import { VibeCheckService } from '../VibeCheckService';
+import { PhotoUploadService } from '../PhotoUploadService';
+import { ErrorFactory } from '../../lib/errors';
+import { VibeCheckFormData } from '../../lib/types';
+
+// In-memory AsyncStorage
+const mockStorage = new Map<string, string>();
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('../VibeCheckService', () => ({
+  VibeCheckService: {
+    createVibeCheck: jest.fn(),
+  },
+}));
+
+jest.mock('../PhotoUploadService', () => ({
+  PhotoUploadService: {
+    preparePhotoForStorage: jest.fn(),
+    isVideo: jest.fn((item: { type: string }) => item.type.startsWith('video/')),
+  },
+}));
+
+jest.mock('../../lib/connectivity', () => ({
+  ConnectivityManager: {
+    subscribeToNetworkState: jest.fn(() => jest.fn()),
+  },
+}));
+
+const mockCreateVibeCheck = VibeCheckService.createVibeCheck as jest.Mock;
+const mockPreparePhoto = PhotoUploadService.preparePhotoForStorage as jest.Mock;
+
+describe('VibeCheckOutboxService', () => {
+  const venue = { id: 'venue-1', name: 'Test Venue', address: '123 Test St' };
+
+  const formData: VibeCheckFormData = {
+    venue_id: 'venue-1',
+    busyness_rating: 4,
+    comment: 'Packed dance floor',
+  };
+
+  const createLocation = (timestamp: number): Location.LocationObject => ({
+    coords: {
+      latitude: 40.7128,
+      longitude: -74.006,
+      accuracy: 12,
+      altitude: null,
+      altitudeAccuracy: null,
+      heading: null,
+      speed: null,
+    },
+    timestamp,
+  });
+
+  const enqueue = (capturedAt: Date, data: VibeCheckFormData = formData) =>
+    VibeCheckOutboxService.enqueue({
+      userId: 'user-1',
+      data,
+      location: createLocation(capturedAt.getTime()),
+      capturedAt,
+      venue,
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockStorage.clear();
+  });
+
+  describe('enqueue', () => {
+    it('should persist the form data, location sample and capture time', async () => {
+      const capturedAt = new Date();
+
+      const { data, error } = await enqueue(capturedAt);
+
+      expect(error).toBeNull();
+      expect(data).toMatchObject({
+        user_id: 'user-1',
+        form: formData,
+        venue,
+        location: { latitude: 40.7128, longitude: -74.006, accuracy: 12, timestamp: capturedAt.getTime() },
+        captured_at: capturedAt.toISOString(),
+        attempts: 0,
+        status: 'pending',
+      });
+
+      const pending = await VibeCheckOutboxService.getPending({ userId: 'user-1' });
+      expect(pending).toHaveLength(1);
+      expect(pending[0].id).toBe(data!.id);
+    });
+
+    it('should store the compressed photo instead of the local file uri', async () => {
+      mockPreparePhoto.mockResolvedValue({
+        data: { uri: 'data:image/jpeg;base64,abc', type: 'image/jpeg', name: 'photo.jpg' },
+        error: null,
+      });
+
+      const { data } = await enqueue(new Date(), {
+        ...formData,
+        media: [{ uri: 'file:///tmp/photo.png', type: 'image/png', name: 'photo.png' }],
+      });
+
+      expect(mockPreparePhoto).toHaveBeenCalled();
+      expect(data!.form.media).toEqual([
+        {
+          uri: 'data:image/jpeg;base64,abc',
+          type: 'image/jpeg',
+          name: 'photo.jpg',
+        },
+      ]);
+    });
+
+    it('should not queue videos', async () => {
+      const { data, error } = await enqueue(new Date(), {
+        ...formData,
+        media: [{ uri: 'file:///tmp/clip.mp4', type: 'video/mp4', name: 'clip.mp4', duration_seconds: 8 }],
+      });
+
+      expect(data).toBeNull();
+      expect(error?.message).toContain('Videos can\'t be saved offline');
+      expect(mockPreparePhoto).not.toHaveBeenCalled();
+      expect(await VibeCheckOutboxService.getPending()).toHaveLength(0);
+    });
+
+    it('should fail when the photo cannot be prepared', async () => {
+      mockPreparePhoto.mockResolvedValue({ data: null, error: 'Failed to compress image' });
+
+      const { data, error } = await enqueue(new Date(), {
+        ...formData,
+        media: [{ uri: 'file:///tmp/photo.jpg', type: 'image/jpeg', name: 'photo.jpg' }],
+      });
+
+      expect(data).toBeNull();
+      expect(error).not.toBeNull();
+      expect(await VibeCheckOutboxService.getPending()).toHaveLength(0);
+    });
+  });
+
+  describe('getPending', () => {
+    it('should filter by user and venue', async () => {
+      await enqueue(new Date());
+      await VibeCheckOutboxService.enqueue({
+        userId: 'user-2',
+        data: { ...formData, venue_id: 'venue-2' },
+        location: createLocation(Date.now()),
+        capturedAt: new Date(),
+        venue: { ...venue, id: 'venue-2' },
+      });
+
+      expect(await VibeCheckOutboxService.getPending()).toHaveLength(2);
+      expect(await VibeCheckOutboxService.getPending({ userId: 'user-2' })).toHaveLength(1);
+      expect(await VibeCheckOutboxService.getPending({ venueId: 'venue-1' })).toHaveLength(1);
+      expect(
+        await VibeCheckOutboxService.getPending({ userId: 'user-1', venueId: 'venue-2' })
+      ).toHaveLength(0);
+    });
+  });
+
+  describe('flush', () => {
+    it('should replay items with their original capture time and remove them on success', async () => {
+      const capturedAt = new Date(Date.now() - 10 * 60 * 1000);
+      await enqueue(capturedAt);
+      mockCreateVibeCheck.mockResolvedValue({ data: { id: 'vibe-1' }, error: null });
+
+      await VibeCheckOutboxService.flush();
+
+      expect(mockCreateVibeCheck).toHaveBeenCalledWith(
+        formData,
+        expect.objectContaining({
+          coords: expect.objectContaining({ latitude: 40.7128, longitude: -74.006 }),
+          timestamp: capturedAt.getTime(),
+        }),
+        { capturedAt, venue }
+      );
+      expect(await VibeCheckOutboxService.getPending()).toHaveLength(0);
+    });
+
+    it('should keep items pending while still offline', async () => {
+      await enqueue(new Date());
+      // RetryManager wraps the offline error as an unknown error
+      mockCreateVibeCheck.mockResolvedValue({
+        data: null,
+        error: ErrorFactory.unknownError(ErrorFactory.networkOffline()),
+      });
+
+      await VibeCheckOutboxService.flush();
+
+      const [item] = await VibeCheckOutboxService.getPending();
+      expect(item.status).toBe('pending');
+      expect(item.attempts).toBe(1);
+    });
+
+    it('should mark items as failed when the server rejects them', async () => {
+      await enqueue(new Date());
+      mockCreateVibeCheck.mockResolvedValue({
+        data: null,
+        error: ErrorFactory.unknownError(ErrorFactory.locationTooFar(250, 100)),
+      });
+
+      await VibeCheckOutboxService.flush();
+
+      const [item] = await VibeCheckOutboxService.getPending();
+      expect(item.status).toBe('failed');
+      expect(item.last_error).toContain('250m away');
+    });
+
+    it('should not replay items older than the maximum age', async () => {
+      await enqueue(new Date(Date.now() - VibeCheckOutboxService.MAX_ITEM_AGE_MS - 60 * 1000));
+
+      await VibeCheckOutboxService.flush();
+
+      expect(mockCreateVibeCheck).not.toHaveBeenCalled();
+      const [item] = await VibeCheckOutboxService.getPending();
+      expect(item.status).toBe('failed');
+    });
+
+    it('should notify subscribers when items change', async () => {
+      const listener = jest.fn();
+      const unsubscribe = VibeCheckOutboxService.subscribe(listener);
+
+      const { data } = await enqueue(new Date());
+      await VibeCheckOutboxService.discard(data!.id);
+      unsubscribe();
+      await enqueue(new Date());
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith([]);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { VibeCheckService } from '../VibeCheckService';
+import { VibeCheckCacheService } from '../CacheService';
+import { supabase } from '../../lib/supabase';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: jest.fn(),
+    auth: {
+      getUser: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../CacheService', () => ({
+  VibeCheckCacheService: {
+    invalidateOnVibeCheckChange: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+jest.mock('../PhotoUploadService', () => ({ PhotoUploadService: {} }));
+jest.mock('../LocationVerificationService', () => ({ LocationVerificationService: {} }));
+jest.mock('../OptimizedQueryService', () => ({ OptimizedQueryService: {} }));
+jest.mock('../VibeCheckOutboxService', () => ({ VibeCheckOutboxService: {} }));
+jest.mock('../../lib/connectivity', () => ({ ConnectivityManager: {} }));
+
+const mockFrom = supabase.from as jest.Mock;
+const mockGetUser = supabase.auth.getUser as jest.Mock;
+const mockInvalidate = VibeCheckCacheService.invalidateOnVibeCheckChange as jest.Mock;
+
+const counts = {
+  helpful_count: 2,
+  still_accurate_count: 1,
+  last_confirmed_at: '2025-02-19T21:30:00.000Z',
+};
+
+/**
+ * Mock the select that reads the reaction counts back from the vibe check
+ */
+const countsQuery = () => ({
+  select: () => ({
+    eq: () => ({
+      single: () => Promise.resolve({ data: { venue_id: 'venue-1', ...counts }, error: null }),
+    }),
+  }),
+});
+
+describe('VibeCheckService reactions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetUser.mockResolvedValue({ data: { user: { id: 'user-2' } } });
+  });
+
+  describe('addReaction', () => {
+    it('should insert the reaction and return the updated counts', async () => {
+      const insert = jest.fn(() => Promise.resolve({ error: null }));
+      mockFrom.mockReturnValueOnce({ insert }).mockReturnValueOnce(countsQuery());
+
+      const { data, error } = await VibeCheckService.addReaction('vibe-1', 'still_accurate');
+
+      expect(error).toBeNull();
+      expect(data).toEqual(counts);
+      expect(mockFrom).toHaveBeenCalledWith('vibe_check_reactions');
+      expect(insert).toHaveBeenCalledWith({
+        vibe_check_id: 'vibe-1',
+        user_id: 'user-2',
+        reaction_type: 'still_accurate',
+      });
+      expect(mockInvalidate).toHaveBeenCalledWith('venue-1');
+    });
+
+    it('should treat a repeated reaction as already saved', async () => {
+      mockFrom
+        .mockReturnValueOnce({
+          insert: () => Promise.resolve({ error: { code: '23505', message: 'duplicate key' } }),
+        })
+        .mockReturnValueOnce(countsQuery());
+
+      const { data, error } = await VibeCheckService.addReaction('vibe-1', 'helpful');
+
+      expect(error).toBeNull();
+      expect(data).toEqual(counts);
+    });
+
+    it('should explain when a vibe check can no longer be confirmed', async () => {
+      mockFrom.mockReturnValueOnce({
+        insert: () => Promise.resolve({ error: { code: '42501', message: 'row-level security' } }),
+      });
+
+      const { data, error } = await VibeCheckService.addReaction('vibe-1', 'still_accurate');
+
+      expect(data).toBeNull();
+      expect(error).toContain('live vibe checks');
+      expect(mockInvalidate).not.toHaveBeenCalled();
+    });
+
+    it('should require a signed in user', async () => {
+      mockGetUser.mockResolvedValue({ data: { user: null } });
+
+      const { data, error } = await VibeCheckService.addReaction('vibe-1', 'helpful');
+
+      expect(data).toBeNull();
+      expect(error).toContain('signed in');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeReaction', () => {
+    it("should delete only the current user's reaction", async () => {
+      const eq = jest.fn();
+      const filters = { eq };
+      eq.mockReturnValueOnce(filters)
+        .mockReturnValueOnce(filters)
+        .mockReturnValueOnce(Promise.resolve({ error: null }));
+      mockFrom.mockReturnValueOnce({ delete: () => filters }).mockReturnValueOnce(countsQuery());
+
+      const { data, error } = await VibeCheckService.removeReaction('vibe-1', 'helpful');
+
+      expect(error).toBeNull();
+      expect(data).toEqual(counts);
+      expect(eq).toHaveBeenCalledWith('vibe_check_id', 'vibe-1');
+      expect(eq).toHaveBeenCalledWith('user_id', 'user-2');
+      expect(eq).toHaveBeenCalledWith('reaction_type', 'helpful');
+    });
+  });
+
+  describe('getUserReactions', () => {
+    it('should group reactions by vibe check', async () => {
+      const inFilter = jest.fn(() =>
+        Promise.resolve({
+          data: [
+            { vibe_check_id: 'vibe-1', reaction_type: 'helpful' },
+            { vibe_check_id: 'vibe-1', reaction_type: 'still_accurate' },
+            { vibe_check_id: 'vibe-2', reaction_type: 'helpful' },
+          ],
+          error: null,
+        })
+      );
+      mockFrom.mockReturnValueOnce({
+        select: () => ({ eq: () => ({ in: inFilter }) }),
+      });
+
+      const { data, error } = await VibeCheckService.getUserReactions(['vibe-1', 'vibe-2', 'vibe-3']);
+
+      expect(error).toBeNull();
+      expect(inFilter).toHaveBeenCalledWith('vibe_check_id', ['vibe-1', 'vibe-2', 'vibe-3']);
+      expect(data).toEqual({
+        'vibe-1': ['helpful', 'still_accurate'],
+        'vibe-2': ['helpful'],
+      });
+    });
+
+    it('should skip the query when there are no vibe checks', async () => {
+      const { data } = await VibeCheckService.getUserReactions([]);
+
+      expect(data).toEqual({});
+      expect(mockGetUser).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,3 +1,4 @@
 export { LocationVerificationService } from './LocationVerificationService';
 export { VibeCheckService } from './VibeCheckService';
-export { VibeCheckRealtimeService } from './VibeCheckRealtimeService';
\ No newline at end of file
+export { VibeCheckRealtimeService } from './VibeCheckRealtimeService';
+export { VibeCheckOutboxService } from './VibeCheckOutboxService';
\ No newline at end of file